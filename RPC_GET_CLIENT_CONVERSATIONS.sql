@@ -0,0 +1,100 @@
+-- ============================================================================
+-- RPC: get_client_conversations
+-- ============================================================================
+-- Bandeja de mensajes del cliente en UNA sola consulta.
+-- Reemplaza el patrón N+1 de MessagesService.getConversations (último mensaje +
+-- conteo de no leídos + perfil por cada lead).
+--
+-- Parámetros:
+--   - p_client_id: UUID - ID del cliente (debe coincidir con auth.uid())
+--
+-- Retorna una fila por lead con profesional asignado o con mensajes:
+--   - Campos del lead (id, servicio, estado, profesional, updated_at)
+--   - Último mensaje (last_message_*)
+--   - unread_count: mensajes de otros usuarios sin read_at
+--
+-- Los perfiles de profesionales se obtienen en una sola consulta desde la app.
+-- ============================================================================
+
+-- Asegurar columna read_at (usada para contar no leídos)
+ALTER TABLE public.messages ADD COLUMN IF NOT EXISTS read_at TIMESTAMP WITH TIME ZONE;
+
+-- Índices para último mensaje y conteo de no leídos por lead
+CREATE INDEX IF NOT EXISTS idx_messages_lead_created_at
+    ON public.messages (lead_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_messages_lead_unread
+    ON public.messages (lead_id, sender_id)
+    WHERE read_at IS NULL;
+
+DROP FUNCTION IF EXISTS get_client_conversations(UUID);
+
+CREATE OR REPLACE FUNCTION get_client_conversations(p_client_id UUID)
+RETURNS TABLE (
+    lead_id UUID,
+    servicio_solicitado TEXT,
+    servicio TEXT,
+    status TEXT,
+    estado TEXT,
+    appointment_status TEXT,
+    professional_id UUID,
+    profesional_asignado_id UUID,
+    updated_at TIMESTAMP WITH TIME ZONE,
+    last_message_id UUID,
+    last_message_sender_id UUID,
+    last_message_content TEXT,
+    last_message_created_at TIMESTAMP WITH TIME ZONE,
+    last_message_updated_at TIMESTAMP WITH TIME ZONE,
+    unread_count INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+    SELECT
+        l.id AS lead_id,
+        l.servicio_solicitado::TEXT,
+        l.servicio::TEXT,
+        l.status::TEXT,
+        l.estado::TEXT,
+        l.appointment_status::TEXT,
+        l.professional_id,
+        l.profesional_asignado_id,
+        l.updated_at,
+        lm.id AS last_message_id,
+        lm.sender_id AS last_message_sender_id,
+        lm.content AS last_message_content,
+        lm.created_at AS last_message_created_at,
+        lm.updated_at AS last_message_updated_at,
+        COALESCE(unread.total, 0)::INTEGER AS unread_count
+    FROM public.leads l
+    LEFT JOIN LATERAL (
+        SELECT m.id, m.sender_id, m.content, m.created_at, m.updated_at
+        FROM public.messages m
+        WHERE m.lead_id = l.id
+        ORDER BY m.created_at DESC
+        LIMIT 1
+    ) lm ON TRUE
+    LEFT JOIN LATERAL (
+        SELECT COUNT(*) AS total
+        FROM public.messages m
+        WHERE m.lead_id = l.id
+          AND m.sender_id <> p_client_id
+          AND m.read_at IS NULL
+    ) unread ON TRUE
+    WHERE l.cliente_id = p_client_id
+      AND p_client_id = auth.uid()
+      AND (
+          l.professional_id IS NOT NULL
+          OR l.profesional_asignado_id IS NOT NULL
+          OR lm.id IS NOT NULL
+      )
+    ORDER BY COALESCE(lm.created_at, l.updated_at) DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_client_conversations(UUID) TO authenticated;
+
+-- ============================================================================
+-- VERIFICACIÓN
+-- ============================================================================
+-- SELECT * FROM get_client_conversations(auth.uid());
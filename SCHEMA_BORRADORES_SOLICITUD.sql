@@ -0,0 +1,52 @@
+-- ==========================================
+-- BORRADORES DE SOLICITUD
+-- Objetivo: Copia en la nube de las solicitudes sin terminar (formulario del servicio,
+-- confirmación y diagnóstico con IA) para retomarlas en otro dispositivo.
+-- La app guarda primero en el dispositivo (services/requestDrafts.ts) y sincroniza aquí
+-- sin bloquear: si la tabla no existe, los borradores solo viven en el dispositivo.
+-- Un borrador por cliente y draft_key ('service:<id>' o 'diagnostic').
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS public.request_drafts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    client_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+    draft_key TEXT NOT NULL CHECK (length(draft_key) BETWEEN 1 AND 120),
+    payload JSONB NOT NULL,                                 -- RequestDraft completo
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    UNIQUE (client_id, draft_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_request_drafts_client
+ON public.request_drafts(client_id, updated_at DESC);
+
+ALTER TABLE public.request_drafts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Cliente gestiona sus borradores" ON public.request_drafts;
+CREATE POLICY "Cliente gestiona sus borradores"
+ON public.request_drafts FOR ALL
+USING (auth.uid() = client_id)
+WITH CHECK (auth.uid() = client_id);
+
+-- Borradores abandonados: la app los descarta a los 14 días; aquí se limpian a los 30
+CREATE OR REPLACE FUNCTION public.purge_stale_request_drafts()
+RETURNS INTEGER
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH deleted AS (
+        DELETE FROM public.request_drafts
+        WHERE updated_at < NOW() - INTERVAL '30 days'
+        RETURNING 1
+    )
+    SELECT COUNT(*)::integer FROM deleted;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_stale_request_drafts() FROM anon, authenticated;
+
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        PERFORM cron.schedule('purge-request-drafts', '30 4 * * *', 'SELECT public.purge_stale_request_drafts()');
+    END IF;
+END $$;
@@ -0,0 +1,268 @@
+-- ==========================================
+-- POLÍTICA DE CANCELACIÓN
+-- Objetivo: Cancelar es gratis hasta que un profesional acepta la solicitud; después, cancelar
+-- dentro de las N horas previas a la cita (o con el servicio en progreso) tiene cargo. Las
+-- inasistencias se reportan después de una tolerancia: si el profesional no llegó no hay cargo,
+-- si el cliente no se presentó se cobra el cargo por inasistencia.
+-- La RPC cancel_lead evalúa la política con la hora del servidor y guarda en el lead el motivo
+-- estructurado, el cargo y quién canceló; el profesional los ve en el lead y en el historial.
+-- La app (services/cancellations.ts) solo calcula el cargo estimado antes de confirmar.
+-- ==========================================
+
+-- 1. Política configurable: fila 'default' y, opcionalmente, una por disciplina que la sobrescribe
+CREATE TABLE IF NOT EXISTS public.cancellation_policies (
+    key TEXT PRIMARY KEY,                     -- 'default' o la disciplina (p. ej. 'plomeria')
+    rules JSONB NOT NULL DEFAULT '{}'::jsonb,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON COLUMN public.cancellation_policies.rules IS
+'Reglas: late_window_hours, late_fee_percent, late_fee_min, client_no_show_fee_percent, client_no_show_fee_min, no_show_grace_minutes (las que falten se toman de la fila default)';
+
+ALTER TABLE public.cancellation_policies ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Cualquiera ve la política de cancelación" ON public.cancellation_policies;
+CREATE POLICY "Cualquiera ve la política de cancelación"
+ON public.cancellation_policies FOR SELECT
+USING (true);
+
+-- Solo soporte (service_role) cambia la política
+REVOKE INSERT, UPDATE, DELETE ON public.cancellation_policies FROM anon, authenticated;
+
+INSERT INTO public.cancellation_policies (key, rules)
+VALUES ('default', '{
+    "late_window_hours": 24,
+    "late_fee_percent": 20,
+    "late_fee_min": 150,
+    "client_no_show_fee_percent": 50,
+    "client_no_show_fee_min": 300,
+    "no_show_grace_minutes": 30
+}'::jsonb)
+ON CONFLICT (key) DO NOTHING;
+
+-- Ejemplo: los trabajos de obra se preparan con más anticipación
+INSERT INTO public.cancellation_policies (key, rules)
+VALUES ('tablaroca', '{ "late_window_hours": 48 }'::jsonb)
+ON CONFLICT (key) DO NOTHING;
+
+-- 2. Cancelación registrada en el lead
+-- Códigos estables para reportes: no_longer_needed, found_other_provider, price_too_high,
+-- schedule_conflict, solved_myself, professional_late, professional_no_show, other (cliente);
+-- client_no_show, professional_unavailable (profesional)
+ALTER TABLE public.leads
+ADD COLUMN IF NOT EXISTS cancellation_reason_code TEXT,
+ADD COLUMN IF NOT EXISTS cancellation_reason TEXT,
+ADD COLUMN IF NOT EXISTS cancellation_fee NUMERIC(10, 2),
+ADD COLUMN IF NOT EXISTS cancelled_by TEXT CHECK (cancelled_by IN ('client', 'professional')),
+ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_leads_cancellation_reason
+ON public.leads(cancellation_reason_code, cancelled_at)
+WHERE cancellation_reason_code IS NOT NULL;
+
+-- 3. Historial: las cancelaciones (del cliente o del profesional) llevan su motivo y cargo
+-- (misma función de SCHEMA_HISTORIAL_LEADS.sql con el motivo en status_changed)
+CREATE OR REPLACE FUNCTION public.log_lead_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_actor UUID := auth.uid();
+    v_role TEXT;
+BEGIN
+    v_role := CASE
+        WHEN v_actor IS NOT NULL AND v_actor = NEW.cliente_id THEN 'client'
+        WHEN v_actor IS NOT NULL AND v_actor IN (NEW.professional_id, NEW.profesional_asignado_id) THEN 'professional'
+        ELSE 'system'
+    END;
+    IF v_role = 'system' THEN
+        v_actor := NULL;
+    END IF;
+
+    IF COALESCE(NEW.status, NEW.estado) IS DISTINCT FROM COALESCE(OLD.status, OLD.estado) THEN
+        INSERT INTO public.lead_events (lead_id, actor_id, actor_role, event_type, payload)
+        VALUES (NEW.id, v_actor, v_role, 'status_changed', jsonb_strip_nulls(jsonb_build_object(
+            'from', COALESCE(OLD.status, OLD.estado),
+            'to', COALESCE(NEW.status, NEW.estado),
+            'reason', NEW.cancellation_reason,
+            'reason_code', NEW.cancellation_reason_code,
+            'fee', NEW.cancellation_fee
+        )));
+    END IF;
+
+    IF NEW.appointment_date IS DISTINCT FROM OLD.appointment_date
+       OR NEW.appointment_time IS DISTINCT FROM OLD.appointment_time THEN
+        INSERT INTO public.lead_events (lead_id, actor_id, actor_role, event_type, payload)
+        VALUES (NEW.id, v_actor, v_role, 'appointment_changed', jsonb_build_object(
+            'from', jsonb_build_object('date', OLD.appointment_date, 'time', OLD.appointment_time),
+            'to', jsonb_build_object('date', NEW.appointment_date, 'time', NEW.appointment_time)
+        ));
+    END IF;
+
+    IF NEW.agreed_price IS DISTINCT FROM OLD.agreed_price
+       AND current_setting('app.agreed_price_change', true) IS DISTINCT FROM 'on' THEN
+        INSERT INTO public.lead_events (lead_id, actor_id, actor_role, event_type, payload)
+        VALUES (NEW.id, v_actor, v_role, 'price_changed', jsonb_build_object(
+            'from', OLD.agreed_price,
+            'to', NEW.agreed_price
+        ));
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- 4. Solo cancel_lead escribe la cancelación: el cargo no se puede fijar ni borrar con un UPDATE directo,
+-- y el cliente no puede pasar su lead a cancelado sin pasar por la política
+CREATE OR REPLACE FUNCTION public.guard_lead_cancellation_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_cancelled_values TEXT[] := ARRAY['cancelled', 'cancelado', 'rejected'];
+BEGIN
+    -- Sin sesión (service_role, soporte) o dentro de cancel_lead
+    IF auth.uid() IS NULL OR current_setting('app.cancelling_lead', true) = 'on' THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.cancellation_reason_code IS NOT NULL OR NEW.cancellation_reason IS NOT NULL
+           OR NEW.cancellation_fee IS NOT NULL OR NEW.cancelled_by IS NOT NULL OR NEW.cancelled_at IS NOT NULL THEN
+            RAISE EXCEPTION 'La cancelación solo se registra con cancel_lead' USING ERRCODE = '42501';
+        END IF;
+    ELSIF NEW.cancellation_reason_code IS DISTINCT FROM OLD.cancellation_reason_code
+       OR NEW.cancellation_reason IS DISTINCT FROM OLD.cancellation_reason
+       OR NEW.cancellation_fee IS DISTINCT FROM OLD.cancellation_fee
+       OR NEW.cancelled_by IS DISTINCT FROM OLD.cancelled_by
+       OR NEW.cancelled_at IS DISTINCT FROM OLD.cancelled_at THEN
+        RAISE EXCEPTION 'La cancelación solo se registra con cancel_lead' USING ERRCODE = '42501';
+    END IF;
+
+    IF TG_OP = 'UPDATE'
+       AND auth.uid() = OLD.cliente_id
+       AND (
+           (lower(trim(COALESCE(NEW.status, ''))) = ANY (v_cancelled_values)
+               AND NEW.status IS DISTINCT FROM OLD.status)
+           OR (lower(trim(COALESCE(NEW.estado, ''))) = ANY (v_cancelled_values)
+               AND NEW.estado IS DISTINCT FROM OLD.estado)
+       ) THEN
+        RAISE EXCEPTION 'La cancelación solo se registra con cancel_lead' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_guard_lead_cancellation_columns ON public.leads;
+CREATE TRIGGER trg_guard_lead_cancellation_columns
+BEFORE INSERT OR UPDATE ON public.leads
+FOR EACH ROW EXECUTE FUNCTION public.guard_lead_cancellation_columns();
+
+-- 5. Cancelación del cliente con profesional asignado
+-- Mismas reglas que calculateCancellationFee/validateCancellationReason, evaluadas con NOW();
+-- la cita se interpreta en hora de la Ciudad de México. Devuelve el cargo aplicado.
+CREATE OR REPLACE FUNCTION public.cancel_lead(
+    p_lead_id UUID,
+    p_reason_code TEXT DEFAULT NULL,
+    p_reason TEXT DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_lead public.leads%ROWTYPE;
+    v_rules JSONB;
+    v_status TEXT;
+    v_reason TEXT := NULLIF(trim(p_reason), '');
+    v_start TIMESTAMP WITH TIME ZONE;
+    v_price NUMERIC;
+    v_fee NUMERIC := 0;
+BEGIN
+    SELECT * INTO v_lead FROM public.leads WHERE id = p_lead_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Solicitud no encontrada' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF auth.uid() IS DISTINCT FROM v_lead.cliente_id THEN
+        RAISE EXCEPTION 'No autorizado' USING ERRCODE = '42501';
+    END IF;
+
+    v_status := lower(trim(COALESCE(NULLIF(v_lead.status, ''), v_lead.estado, '')));
+    IF v_status IN ('completed', 'completado', 'cancelled', 'cancelado', 'rejected') THEN
+        RAISE EXCEPTION 'La solicitud ya no se puede cancelar' USING ERRCODE = '23514';
+    END IF;
+
+    IF p_reason_code IS NOT NULL AND p_reason_code NOT IN (
+        'no_longer_needed', 'found_other_provider', 'price_too_high', 'schedule_conflict',
+        'solved_myself', 'professional_late', 'professional_no_show', 'other'
+    ) THEN
+        RAISE EXCEPTION 'Motivo de cancelación no válido' USING ERRCODE = '22023';
+    END IF;
+    IF p_reason_code = 'other' AND length(COALESCE(v_reason, '')) < 5 THEN
+        RAISE EXCEPTION 'Cuéntanos brevemente el motivo' USING ERRCODE = '22023';
+    END IF;
+
+    -- Política: fila default con lo que sobrescriba la disciplina
+    SELECT COALESCE((SELECT rules FROM public.cancellation_policies WHERE key = 'default'), '{}'::jsonb)
+        || COALESCE((
+            SELECT rules FROM public.cancellation_policies
+            WHERE key = lower(trim(COALESCE(v_lead.servicio, v_lead.disciplina_ia, '')))
+        ), '{}'::jsonb)
+    INTO v_rules;
+
+    IF v_lead.appointment_date IS NOT NULL THEN
+        v_start := (v_lead.appointment_date::date
+            + COALESCE(to_char(v_lead.appointment_time, 'HH24:MI'), '00:00')::time)
+            AT TIME ZONE 'America/Mexico_City';
+    END IF;
+
+    IF p_reason_code = 'professional_no_show' AND (
+        v_start IS NULL
+        OR NOW() < v_start + make_interval(mins => COALESCE((v_rules->>'no_show_grace_minutes')::int, 30))
+    ) THEN
+        RAISE EXCEPTION 'Aún no pasa la tolerancia para reportar que el profesional no llegó' USING ERRCODE = '22023';
+    END IF;
+
+    -- Cargo: gratis antes de la aceptación, si el profesional no llegó o fuera de la ventana
+    IF v_status NOT IN ('pending', 'nuevo', '')
+       AND p_reason_code IS DISTINCT FROM 'professional_no_show'
+       AND (
+           v_status IN ('in_progress', 'en_progreso', 'en progreso', 'en_camino', 'en_sitio', 'disputed', 'en_disputa', 'en disputa')
+           OR NOW() >= v_start - make_interval(hours => COALESCE((v_rules->>'late_window_hours')::int, 24))
+       ) THEN
+        v_price := COALESCE(v_lead.agreed_price, v_lead.price, 0);
+        v_fee := GREATEST(
+            COALESCE((v_rules->>'late_fee_min')::numeric, 150),
+            ROUND(v_price * COALESCE((v_rules->>'late_fee_percent')::numeric, 20)) / 100
+        );
+        -- Nunca más que el servicio
+        IF v_price > 0 THEN
+            v_fee := LEAST(v_fee, v_price);
+        END IF;
+    END IF;
+
+    -- log_lead_changes registra el status_changed del cliente con motivo y cargo
+    PERFORM set_config('app.cancelling_lead', 'on', true);
+    UPDATE public.leads
+    SET status = 'cancelled',
+        estado = 'cancelado',
+        cancellation_reason_code = p_reason_code,
+        cancellation_reason = v_reason,
+        cancellation_fee = v_fee,
+        cancelled_by = 'client',
+        cancelled_at = NOW(),
+        updated_at = NOW()
+    WHERE id = p_lead_id;
+    PERFORM set_config('app.cancelling_lead', 'off', true);
+
+    RETURN v_fee;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cancel_lead(UUID, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.cancel_lead(UUID, TEXT, TEXT) TO authenticated;
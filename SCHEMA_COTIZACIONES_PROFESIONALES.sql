@@ -0,0 +1,124 @@
+-- ==========================================
+-- COTIZACIONES DE PROFESIONALES (COMPETIDORAS)
+-- Objetivo: Varios profesionales cotizan de forma independiente la misma solicitud
+-- (precio, materiales, duración estimada, disponibilidad y notas). El cliente las
+-- compara en el detalle del lead y acepta una; accept_lead_quote asigna al
+-- profesional y declina el resto en una sola transacción (services/leadQuotes.ts).
+-- ==========================================
+
+-- 1. Tabla
+CREATE TABLE IF NOT EXISTS public.lead_quotes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    lead_id UUID NOT NULL REFERENCES public.leads(id) ON DELETE CASCADE,
+    professional_id UUID NOT NULL REFERENCES public.profiles(user_id),
+    price NUMERIC(10,2) NOT NULL CHECK (price > 0),
+    materials JSONB DEFAULT '[]'::jsonb,        -- [{ "name": "Tubo PVC", "quantity": 2, "unit_price": 85 }]
+    estimated_duration_minutes INTEGER CHECK (estimated_duration_minutes > 0),
+    available_from TIMESTAMP WITH TIME ZONE,    -- Primera fecha en que puede atender
+    notes TEXT,
+    status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'accepted', 'declined', 'withdrawn')),
+    responded_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (lead_id, professional_id)           -- Una cotización por profesional
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_quotes_lead ON public.lead_quotes(lead_id, status);
+
+ALTER TABLE public.lead_quotes ENABLE ROW LEVEL SECURITY;
+
+-- El cliente ve las cotizaciones de sus solicitudes
+DROP POLICY IF EXISTS "Clientes ven cotizaciones de sus leads" ON public.lead_quotes;
+CREATE POLICY "Clientes ven cotizaciones de sus leads"
+ON public.lead_quotes FOR SELECT
+USING (EXISTS (
+    SELECT 1 FROM public.leads l
+    WHERE l.id = lead_quotes.lead_id AND l.cliente_id = auth.uid()
+));
+
+-- El profesional administra sus propias cotizaciones mientras estén pendientes
+DROP POLICY IF EXISTS "Profesionales ven sus cotizaciones" ON public.lead_quotes;
+CREATE POLICY "Profesionales ven sus cotizaciones"
+ON public.lead_quotes FOR SELECT
+USING (auth.uid() = professional_id);
+
+-- Solo perfiles de profesional (role o user_type, con el valor en español de perfiles antiguos)
+-- y solo sobre solicitudes pendientes sin profesional asignado que no sean propias
+DROP POLICY IF EXISTS "Profesionales crean cotizaciones" ON public.lead_quotes;
+CREATE POLICY "Profesionales crean cotizaciones"
+ON public.lead_quotes FOR INSERT
+WITH CHECK (
+    auth.uid() = professional_id
+    AND status = 'pending'
+    AND responded_at IS NULL
+    AND EXISTS (
+        SELECT 1 FROM public.profiles p
+        WHERE p.user_id = auth.uid()
+          AND (lower(p.role) IN ('professional', 'profesional') OR lower(p.user_type) IN ('professional', 'profesional'))
+    )
+    AND EXISTS (
+        SELECT 1 FROM public.leads l
+        WHERE l.id = lead_quotes.lead_id
+          AND l.cliente_id IS DISTINCT FROM auth.uid()
+          AND l.professional_id IS NULL
+          AND l.profesional_asignado_id IS NULL
+          AND lower(trim(COALESCE(NULLIF(l.status, ''), l.estado, ''))) IN ('pending', 'nuevo')
+    )
+);
+
+DROP POLICY IF EXISTS "Profesionales editan cotizaciones pendientes" ON public.lead_quotes;
+CREATE POLICY "Profesionales editan cotizaciones pendientes"
+ON public.lead_quotes FOR UPDATE
+USING (auth.uid() = professional_id AND status = 'pending')
+WITH CHECK (auth.uid() = professional_id AND status IN ('pending', 'withdrawn'));
+
+-- 2. Aceptar una cotización
+-- Asigna al profesional con el precio cotizado y declina el resto de las pendientes
+CREATE OR REPLACE FUNCTION public.accept_lead_quote(p_quote_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_quote public.lead_quotes%ROWTYPE;
+    v_lead public.leads%ROWTYPE;
+BEGIN
+    SELECT * INTO v_quote FROM public.lead_quotes WHERE id = p_quote_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Cotización no encontrada' USING ERRCODE = 'P0002';
+    END IF;
+
+    SELECT * INTO v_lead FROM public.leads WHERE id = v_quote.lead_id FOR UPDATE;
+    IF auth.uid() IS DISTINCT FROM v_lead.cliente_id THEN
+        RAISE EXCEPTION 'No autorizado' USING ERRCODE = '42501';
+    END IF;
+
+    -- Otra cotización ya fue aceptada o el profesional la retiró
+    IF v_quote.status <> 'pending' OR COALESCE(v_lead.status, 'pending') NOT IN ('pending', 'nuevo') THEN
+        RAISE EXCEPTION 'La cotización ya no está disponible' USING ERRCODE = '23514';
+    END IF;
+
+    UPDATE public.lead_quotes
+    SET status = 'accepted', responded_at = NOW(), updated_at = NOW()
+    WHERE id = p_quote_id;
+
+    UPDATE public.lead_quotes
+    SET status = 'declined', responded_at = NOW(), updated_at = NOW()
+    WHERE lead_id = v_quote.lead_id AND id <> p_quote_id AND status = 'pending';
+
+    -- guard_agreed_price_change (SCHEMA_REVISIONES_COTIZACION.sql) solo deja fijar el precio aquí
+    PERFORM set_config('app.agreed_price_change', 'on', true);
+    UPDATE public.leads
+    SET status = 'accepted',
+        estado = 'asignado',
+        professional_id = v_quote.professional_id,
+        agreed_price = v_quote.price,
+        updated_at = NOW()
+    WHERE id = v_quote.lead_id;
+    PERFORM set_config('app.agreed_price_change', 'off', true);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.accept_lead_quote(UUID) TO authenticated;
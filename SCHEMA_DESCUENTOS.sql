@@ -0,0 +1,243 @@
+-- ==========================================
+-- DESCUENTOS EN COTIZACIONES
+-- Objetivo: Códigos promocionales, descuento de primer servicio, créditos por
+-- referidos y niveles de lealtad validados en el servidor.
+-- La app llama get_quote_discounts para mostrar la cotización y de nuevo antes de
+-- crear el lead; redeem_quote_discounts registra los usos (services/discounts.ts).
+-- ==========================================
+
+-- 1. Tablas
+CREATE TABLE IF NOT EXISTS public.promo_codes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    code TEXT NOT NULL UNIQUE,              -- Siempre en mayúsculas
+    name TEXT NOT NULL,                     -- Texto del renglón en la cotización
+    discount_type TEXT NOT NULL CHECK (discount_type IN ('fixed', 'percentage')),
+    amount NUMERIC(10,2) NOT NULL CHECK (amount > 0),
+    max_amount NUMERIC(10,2),               -- Tope en pesos para porcentajes
+    min_subtotal NUMERIC(10,2),
+    disciplines TEXT[],                     -- NULL = todas las disciplinas
+    starts_at TIMESTAMP WITH TIME ZONE,
+    ends_at TIMESTAMP WITH TIME ZONE,
+    max_uses INTEGER,                       -- NULL = sin límite
+    max_uses_per_client INTEGER DEFAULT 1,
+    first_service_only BOOLEAN DEFAULT FALSE,
+    is_active BOOLEAN DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.promo_redemptions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    promo_code_id UUID NOT NULL REFERENCES public.promo_codes(id) ON DELETE CASCADE,
+    client_id UUID NOT NULL REFERENCES public.profiles(user_id),
+    lead_id UUID REFERENCES public.leads(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.referral_credits (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    client_id UUID NOT NULL REFERENCES public.profiles(user_id),       -- Quien recibe el crédito
+    referred_client_id UUID REFERENCES public.profiles(user_id),       -- Cliente referido
+    amount NUMERIC(10,2) NOT NULL CHECK (amount > 0),
+    used_on_lead_id UUID REFERENCES public.leads(id) ON DELETE SET NULL,
+    used_at TIMESTAMP WITH TIME ZONE,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_promo_redemptions_code ON public.promo_redemptions(promo_code_id, client_id);
+CREATE INDEX IF NOT EXISTS idx_referral_credits_client ON public.referral_credits(client_id) WHERE used_at IS NULL;
+
+-- Solo lectura de los propios registros; las escrituras van por las funciones SECURITY DEFINER
+ALTER TABLE public.promo_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.promo_redemptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.referral_credits ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Clientes ven sus usos de códigos" ON public.promo_redemptions;
+CREATE POLICY "Clientes ven sus usos de códigos"
+ON public.promo_redemptions FOR SELECT
+USING (auth.uid() = client_id);
+
+DROP POLICY IF EXISTS "Clientes ven sus créditos" ON public.referral_credits;
+CREATE POLICY "Clientes ven sus créditos"
+ON public.referral_credits FOR SELECT
+USING (auth.uid() = client_id);
+
+-- 2. Descuentos elegibles para una cotización
+-- Un renglón por descuento; el código promocional rechazado regresa con rejection_reason
+-- Niveles de lealtad (servicios completados): Plata 3+ = 5%, Oro 10+ = 10% (tope $500)
+-- Primer servicio: 10% con tope de $200 (no se acumula con códigos first_service_only)
+CREATE OR REPLACE FUNCTION public.get_quote_discounts(
+    p_client_id UUID,
+    p_discipline TEXT,
+    p_subtotal NUMERIC,
+    p_promo_code TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    discount_id TEXT,
+    name TEXT,
+    source TEXT,
+    discount_type TEXT,
+    amount NUMERIC,
+    max_amount NUMERIC,
+    rejection_reason TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_completed INTEGER;
+    v_promo public.promo_codes%ROWTYPE;
+    v_uses INTEGER;
+    v_client_uses INTEGER;
+    v_reason TEXT;
+    v_credit NUMERIC;
+BEGIN
+    IF auth.uid() IS DISTINCT FROM p_client_id THEN
+        RAISE EXCEPTION 'No autorizado' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT COUNT(*) INTO v_completed
+    FROM public.leads
+    WHERE cliente_id = p_client_id
+      AND (status = 'completed' OR estado IN ('Completado', 'completado'));
+
+    -- Código promocional
+    IF p_promo_code IS NOT NULL AND length(trim(p_promo_code)) > 0 THEN
+        SELECT * INTO v_promo FROM public.promo_codes WHERE code = upper(trim(p_promo_code));
+
+        IF NOT FOUND THEN
+            v_reason := 'not_found';
+        ELSIF NOT v_promo.is_active THEN
+            v_reason := 'inactive';
+        ELSIF v_promo.starts_at IS NOT NULL AND v_promo.starts_at > NOW() THEN
+            v_reason := 'not_started';
+        ELSIF v_promo.ends_at IS NOT NULL AND v_promo.ends_at < NOW() THEN
+            v_reason := 'expired';
+        ELSIF v_promo.disciplines IS NOT NULL AND NOT (p_discipline = ANY(v_promo.disciplines)) THEN
+            v_reason := 'discipline';
+        ELSIF v_promo.min_subtotal IS NOT NULL AND p_subtotal < v_promo.min_subtotal THEN
+            v_reason := 'min_subtotal';
+        ELSIF v_promo.first_service_only AND v_completed > 0 THEN
+            v_reason := 'first_service_only';
+        ELSE
+            SELECT COUNT(*), COUNT(*) FILTER (WHERE client_id = p_client_id)
+            INTO v_uses, v_client_uses
+            FROM public.promo_redemptions
+            WHERE promo_code_id = v_promo.id;
+
+            IF v_promo.max_uses IS NOT NULL AND v_uses >= v_promo.max_uses THEN
+                v_reason := 'exhausted';
+            ELSIF v_promo.max_uses_per_client IS NOT NULL AND v_client_uses >= v_promo.max_uses_per_client THEN
+                v_reason := 'client_limit';
+            END IF;
+        END IF;
+
+        IF v_reason IS NULL THEN
+            RETURN QUERY SELECT 'promo:' || v_promo.id::TEXT, v_promo.name, 'promo'::TEXT,
+                v_promo.discount_type, v_promo.amount, v_promo.max_amount, NULL::TEXT;
+        ELSE
+            RETURN QUERY SELECT 'promo:' || upper(trim(p_promo_code)), upper(trim(p_promo_code)), 'promo'::TEXT,
+                'fixed'::TEXT, 0::NUMERIC, NULL::NUMERIC, v_reason;
+        END IF;
+    END IF;
+
+    -- Primer servicio (si el código aplicado ya es de primer servicio, no se acumula)
+    IF v_completed = 0 AND NOT (v_reason IS NULL AND v_promo.id IS NOT NULL AND v_promo.first_service_only) THEN
+        RETURN QUERY SELECT 'first_service'::TEXT, 'Descuento primer servicio'::TEXT, 'first_service'::TEXT,
+            'percentage'::TEXT, 10::NUMERIC, 200::NUMERIC, NULL::TEXT;
+    END IF;
+
+    -- Lealtad
+    IF v_completed >= 10 THEN
+        RETURN QUERY SELECT 'loyalty:oro'::TEXT, 'Nivel Oro (10%)'::TEXT, 'loyalty'::TEXT,
+            'percentage'::TEXT, 10::NUMERIC, 500::NUMERIC, NULL::TEXT;
+    ELSIF v_completed >= 3 THEN
+        RETURN QUERY SELECT 'loyalty:plata'::TEXT, 'Nivel Plata (5%)'::TEXT, 'loyalty'::TEXT,
+            'percentage'::TEXT, 5::NUMERIC, 250::NUMERIC, NULL::TEXT;
+    END IF;
+
+    -- Créditos por referidos disponibles (se consumen completos al usarse)
+    SELECT COALESCE(SUM(rc.amount), 0) INTO v_credit
+    FROM public.referral_credits rc
+    WHERE rc.client_id = p_client_id
+      AND rc.used_at IS NULL
+      AND (rc.expires_at IS NULL OR rc.expires_at > NOW());
+
+    IF v_credit > 0 THEN
+        RETURN QUERY SELECT 'referral'::TEXT, 'Créditos por referidos'::TEXT, 'referral'::TEXT,
+            'fixed'::TEXT, v_credit, NULL::NUMERIC, NULL::TEXT;
+    END IF;
+END;
+$$;
+
+-- 3. Registrar los descuentos usados al crear el lead
+-- El código se bloquea y sus límites se vuelven a contar aquí: dos cotizaciones simultáneas
+-- no pueden canjear el último uso; si se agotó, la app elimina el lead recién creado
+CREATE OR REPLACE FUNCTION public.redeem_quote_discounts(
+    p_lead_id UUID,
+    p_client_id UUID,
+    p_discount_ids TEXT[],
+    p_promo_code TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_promo public.promo_codes%ROWTYPE;
+    v_uses INTEGER;
+    v_client_uses INTEGER;
+BEGIN
+    IF auth.uid() IS DISTINCT FROM p_client_id THEN
+        RAISE EXCEPTION 'No autorizado' USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.leads WHERE id = p_lead_id AND cliente_id = p_client_id) THEN
+        RAISE EXCEPTION 'Lead no encontrado' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF p_promo_code IS NOT NULL THEN
+        SELECT * INTO v_promo FROM public.promo_codes WHERE code = upper(trim(p_promo_code)) FOR UPDATE;
+        IF FOUND AND ('promo:' || v_promo.id::TEXT) = ANY(p_discount_ids) THEN
+            IF NOT v_promo.is_active
+               OR (v_promo.starts_at IS NOT NULL AND v_promo.starts_at > NOW())
+               OR (v_promo.ends_at IS NOT NULL AND v_promo.ends_at < NOW()) THEN
+                RAISE EXCEPTION 'El código promocional ya no está vigente' USING ERRCODE = '23514';
+            END IF;
+
+            SELECT COUNT(*), COUNT(*) FILTER (WHERE client_id = p_client_id)
+            INTO v_uses, v_client_uses
+            FROM public.promo_redemptions
+            WHERE promo_code_id = v_promo.id;
+
+            IF v_promo.max_uses IS NOT NULL AND v_uses >= v_promo.max_uses THEN
+                RAISE EXCEPTION 'El código promocional ya se agotó' USING ERRCODE = '23514';
+            END IF;
+            IF v_promo.max_uses_per_client IS NOT NULL AND v_client_uses >= v_promo.max_uses_per_client THEN
+                RAISE EXCEPTION 'Ya usaste este código promocional' USING ERRCODE = '23514';
+            END IF;
+
+            INSERT INTO public.promo_redemptions (promo_code_id, client_id, lead_id)
+            VALUES (v_promo.id, p_client_id, p_lead_id);
+        END IF;
+    END IF;
+
+    IF 'referral' = ANY(p_discount_ids) THEN
+        UPDATE public.referral_credits
+        SET used_at = NOW(), used_on_lead_id = p_lead_id
+        WHERE client_id = p_client_id
+          AND used_at IS NULL
+          AND (expires_at IS NULL OR expires_at > NOW());
+    END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_quote_discounts(UUID, TEXT, NUMERIC, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.redeem_quote_discounts(UUID, UUID, TEXT[], TEXT) TO authenticated;
+
+-- 4. Ejemplo
+INSERT INTO public.promo_codes (code, name, discount_type, amount, max_amount, disciplines, ends_at, max_uses)
+VALUES ('BIENVENIDA', 'Código BIENVENIDA (15%)', 'percentage', 15, 300, NULL, NOW() + INTERVAL '90 days', 500)
+ON CONFLICT (code) DO NOTHING;
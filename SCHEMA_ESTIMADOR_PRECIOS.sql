@@ -0,0 +1,87 @@
+-- ==========================================
+-- ESTIMADOR DE PRECIOS HISTÓRICOS
+-- Objetivo: Rangos de precio ("la mayoría de los clientes pagó $X–$Y") a partir del
+-- agreed_price de leads completados, por servicio, disciplina y zona.
+-- La app llama get_service_price_history desde services/priceEstimates.ts y elige el
+-- alcance más cercano con suficientes muestras; si no hay, usa el rango del catálogo.
+-- Solo devuelve agregados de al menos 5 precios (MIN_PRICE_SAMPLE_SIZE) y solo a usuarios
+-- con sesión: los clientes no pueden leer leads ajenos (RLS) ni aislar uno con un radio pequeño.
+-- ==========================================
+
+-- 1. Índice para filtrar leads completados con precio
+CREATE INDEX IF NOT EXISTS idx_leads_completed_price
+    ON public.leads (servicio_solicitado, disciplina_ia)
+    WHERE agreed_price > 0 AND (status = 'completed' OR estado = 'completado');
+
+-- 2. Percentiles por alcance
+-- service_zone    → mismo servicio dentro de p_radius_km
+-- service         → mismo servicio en cualquier zona
+-- discipline_zone → misma disciplina dentro de p_radius_km
+-- discipline      → misma disciplina en cualquier zona
+-- Los alcances "zone" solo se calculan si se envía la ubicación del cliente; el radio se limita
+-- a 5–50 km y los alcances con menos de 5 muestras no se devuelven
+CREATE OR REPLACE FUNCTION public.get_service_price_history(
+    p_service_name TEXT,
+    p_discipline TEXT,
+    p_lat DOUBLE PRECISION DEFAULT NULL,
+    p_lng DOUBLE PRECISION DEFAULT NULL,
+    p_radius_km DOUBLE PRECISION DEFAULT 15,
+    p_months INTEGER DEFAULT 12
+)
+RETURNS TABLE (
+    scope TEXT,
+    sample_size INTEGER,
+    p25 NUMERIC,
+    p50 NUMERIC,
+    p75 NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH completed AS (
+        SELECT
+            l.agreed_price::NUMERIC AS price,
+            l.servicio_solicitado = p_service_name AS same_service,
+            COALESCE(l.disciplina_ia, l.servicio) = p_discipline AS same_discipline,
+            (
+                p_lat IS NOT NULL AND p_lng IS NOT NULL
+                AND l.ubicacion_lat IS NOT NULL AND l.ubicacion_lng IS NOT NULL
+                -- Distancia haversine en km
+                AND 6371 * 2 * ASIN(SQRT(
+                    POWER(SIN(RADIANS(l.ubicacion_lat - p_lat) / 2), 2)
+                    + COS(RADIANS(p_lat)) * COS(RADIANS(l.ubicacion_lat))
+                    * POWER(SIN(RADIANS(l.ubicacion_lng - p_lng) / 2), 2)
+                )) <= LEAST(GREATEST(COALESCE(p_radius_km, 15), 5), 50)
+            ) AS nearby
+        FROM public.leads l
+        WHERE l.agreed_price > 0
+          AND (l.status = 'completed' OR l.estado = 'completado')
+          AND (l.servicio_solicitado = p_service_name OR COALESCE(l.disciplina_ia, l.servicio) = p_discipline)
+          AND l.updated_at >= NOW() - MAKE_INTERVAL(months => p_months)
+    ),
+    scoped AS (
+        SELECT 'service_zone' AS scope, price FROM completed WHERE same_service AND nearby
+        UNION ALL
+        SELECT 'service', price FROM completed WHERE same_service
+        UNION ALL
+        SELECT 'discipline_zone', price FROM completed WHERE same_discipline AND nearby
+        UNION ALL
+        SELECT 'discipline', price FROM completed WHERE same_discipline
+    )
+    SELECT
+        scope,
+        COUNT(*)::INTEGER AS sample_size,
+        ROUND(PERCENTILE_CONT(0.25) WITHIN GROUP (ORDER BY price)::NUMERIC, 2) AS p25,
+        ROUND(PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY price)::NUMERIC, 2) AS p50,
+        ROUND(PERCENTILE_CONT(0.75) WITHIN GROUP (ORDER BY price)::NUMERIC, 2) AS p75
+    FROM scoped
+    GROUP BY scope
+    HAVING COUNT(*) >= 5;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_service_price_history(TEXT, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, INTEGER)
+    FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_service_price_history(TEXT, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, INTEGER)
+    TO authenticated;
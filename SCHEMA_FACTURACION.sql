@@ -0,0 +1,154 @@
+-- ==========================================
+-- FACTURACIÓN (CFDI 4.0)
+-- Objetivo: Guardar los datos fiscales del cliente (RFC, razón social, régimen fiscal,
+-- uso de CFDI y código postal fiscal) y registrar solicitudes de factura para servicios
+-- completados. La app arma los conceptos del CFDI con el precio acordado del lead
+-- (services/cfdi.ts); al insertar, el servidor verifica los importes contra el lead y
+-- pone el emisor (cfdi_issuer) y el receptor (fiscal_profiles). El proveedor de
+-- facturación timbra las solicitudes pendientes y llena cfdi_uuid, pdf_url y xml_url.
+-- ==========================================
+
+-- 1. Datos fiscales (uno por cliente)
+CREATE TABLE IF NOT EXISTS public.fiscal_profiles (
+    user_id UUID PRIMARY KEY REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+    rfc TEXT NOT NULL CHECK (rfc ~ '^[A-ZÑ&]{3,4}[0-9]{6}[A-Z0-9]{3}$'),
+    razon_social TEXT NOT NULL CHECK (length(trim(razon_social)) > 0),
+    regimen_fiscal TEXT NOT NULL,               -- Catálogo c_RegimenFiscal (601, 612, 626...)
+    uso_cfdi TEXT NOT NULL DEFAULT 'G03',       -- Catálogo c_UsoCFDI
+    codigo_postal TEXT NOT NULL CHECK (codigo_postal ~ '^[0-9]{5}$'),
+    email TEXT,                                 -- Correo para recibir la factura
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.fiscal_profiles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Usuario gestiona sus datos fiscales" ON public.fiscal_profiles;
+CREATE POLICY "Usuario gestiona sus datos fiscales"
+ON public.fiscal_profiles FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- 2. Solicitudes de factura (una por lead)
+CREATE TABLE IF NOT EXISTS public.invoice_requests (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    lead_id UUID NOT NULL UNIQUE REFERENCES public.leads(id) ON DELETE CASCADE,
+    client_id UUID NOT NULL REFERENCES public.profiles(user_id),
+    rfc TEXT NOT NULL,
+    payload JSONB NOT NULL,                     -- Comprobante CFDI 4.0 sin timbrar
+    status TEXT NOT NULL DEFAULT 'requested'
+        CHECK (status IN ('requested', 'stamped', 'failed', 'cancelled')),
+    cfdi_uuid TEXT,                             -- Folio fiscal asignado al timbrar
+    pdf_url TEXT,
+    xml_url TEXT,
+    error_message TEXT,                         -- Motivo del rechazo del proveedor
+    stamped_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_requests_pending
+ON public.invoice_requests(created_at)
+WHERE status = 'requested';
+
+ALTER TABLE public.invoice_requests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Cliente ve sus facturas" ON public.invoice_requests;
+CREATE POLICY "Cliente ve sus facturas"
+ON public.invoice_requests FOR SELECT
+USING (auth.uid() = client_id);
+
+-- Solo servicios completados del propio cliente; el timbrado lo actualiza el proveedor (service_role)
+DROP POLICY IF EXISTS "Cliente solicita factura de servicio completado" ON public.invoice_requests;
+CREATE POLICY "Cliente solicita factura de servicio completado"
+ON public.invoice_requests FOR INSERT
+WITH CHECK (
+    auth.uid() = client_id
+    AND status = 'requested'
+    AND EXISTS (
+        SELECT 1 FROM public.leads l
+        WHERE l.id = invoice_requests.lead_id
+          AND l.cliente_id = auth.uid()
+          AND (l.status = 'completed' OR l.estado = 'completado')
+    )
+);
+
+-- 3. Emisor de las facturas (una sola fila; la configura el equipo con service_role)
+CREATE TABLE IF NOT EXISTS public.cfdi_issuer (
+    id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+    rfc TEXT NOT NULL,
+    nombre TEXT NOT NULL,
+    regimen_fiscal TEXT NOT NULL,
+    lugar_expedicion TEXT NOT NULL CHECK (lugar_expedicion ~ '^[0-9]{5}$'),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.cfdi_issuer ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.cfdi_issuer FROM anon, authenticated;
+
+-- 4. Verificar y completar el comprobante antes de guardarlo
+-- El total debe ser el precio acordado del lead y cuadrar con conceptos, descuento e IVA;
+-- emisor y receptor no se toman de la app
+CREATE OR REPLACE FUNCTION public.prepare_invoice_request()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_lead_total NUMERIC;
+    v_issuer public.cfdi_issuer%ROWTYPE;
+    v_fiscal public.fiscal_profiles%ROWTYPE;
+    v_total NUMERIC := (NEW.payload->>'Total')::numeric;
+    v_subtotal NUMERIC := (NEW.payload->>'SubTotal')::numeric;
+    v_discount NUMERIC := COALESCE((NEW.payload->>'Descuento')::numeric, 0);
+    v_taxes NUMERIC := COALESCE((NEW.payload->'Impuestos'->>'TotalImpuestosTrasladados')::numeric, 0);
+    v_conceptos NUMERIC;
+BEGIN
+    SELECT COALESCE(agreed_price, price, 0) INTO v_lead_total FROM public.leads WHERE id = NEW.lead_id;
+
+    SELECT COALESCE(SUM((concepto->>'Importe')::numeric), 0) INTO v_conceptos
+    FROM jsonb_array_elements(COALESCE(NEW.payload->'Conceptos', '[]'::jsonb)) AS concepto;
+
+    IF v_total IS NULL OR abs(v_total - v_lead_total) > 0.01 THEN
+        RAISE EXCEPTION 'El total de la factura no coincide con el precio acordado' USING ERRCODE = '22023';
+    END IF;
+    IF v_subtotal IS NULL OR abs(v_conceptos - v_subtotal) > 0.01
+       OR abs(v_subtotal - v_discount + v_taxes - v_total) > 0.01 THEN
+        RAISE EXCEPTION 'Los importes de la factura no cuadran' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT * INTO v_issuer FROM public.cfdi_issuer WHERE id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'La facturación no está configurada' USING ERRCODE = '55000';
+    END IF;
+
+    SELECT * INTO v_fiscal FROM public.fiscal_profiles WHERE user_id = NEW.client_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Faltan los datos fiscales del cliente' USING ERRCODE = '23502';
+    END IF;
+
+    NEW.rfc := v_fiscal.rfc;
+    NEW.payload := NEW.payload || jsonb_build_object(
+        'LugarExpedicion', v_issuer.lugar_expedicion,
+        'Emisor', jsonb_build_object(
+            'Rfc', v_issuer.rfc,
+            'Nombre', v_issuer.nombre,
+            'RegimenFiscal', v_issuer.regimen_fiscal
+        ),
+        'Receptor', jsonb_build_object(
+            'Rfc', v_fiscal.rfc,
+            'Nombre', v_fiscal.razon_social,
+            'DomicilioFiscalReceptor', v_fiscal.codigo_postal,
+            'RegimenFiscalReceptor', v_fiscal.regimen_fiscal,
+            'UsoCFDI', v_fiscal.uso_cfdi
+        )
+    );
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_prepare_invoice_request ON public.invoice_requests;
+CREATE TRIGGER trg_prepare_invoice_request
+BEFORE INSERT ON public.invoice_requests
+FOR EACH ROW EXECUTE FUNCTION public.prepare_invoice_request();
@@ -0,0 +1,222 @@
+-- ==========================================
+-- RECLAMOS DE GARANTÍA
+-- Objetivo: El cliente reporta una falla de un servicio completado dentro de la ventana
+-- de garantía (30 a 90 días según la disciplina, contados desde que se completó): elige el
+-- problema, adjunta fotos o video y describe qué falló. Soporte revisa el reclamo y lo
+-- resuelve con una visita de corrección, un reembolso o lo rechaza.
+-- Estados: submitted → under_review → revisit_scheduled | refunded | rejected
+-- ==========================================
+
+-- 1. Fecha en que se completó el servicio (inicio de la garantía)
+ALTER TABLE public.leads
+ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP WITH TIME ZONE;
+
+-- Servicios completados antes de esta migración: la última actualización es la mejor aproximación
+UPDATE public.leads
+SET completed_at = updated_at
+WHERE completed_at IS NULL
+  AND lower(COALESCE(status, estado, '')) IN ('completed', 'completado', 'finalizado');
+
+CREATE OR REPLACE FUNCTION public.set_lead_completed_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF lower(COALESCE(NEW.status, NEW.estado, '')) IN ('completed', 'completado', 'finalizado') THEN
+        NEW.completed_at := COALESCE(NEW.completed_at, NOW());
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_set_lead_completed_at ON public.leads;
+CREATE TRIGGER trg_set_lead_completed_at
+BEFORE INSERT OR UPDATE OF status, estado ON public.leads
+FOR EACH ROW EXECUTE FUNCTION public.set_lead_completed_at();
+
+-- La garantía se cuenta desde completed_at: solo lo fija trg_set_lead_completed_at al completar
+-- (o service_role). Este trigger corre antes (orden alfabético) y rechaza el valor que mande la app
+CREATE OR REPLACE FUNCTION public.guard_lead_completed_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF (TG_OP = 'INSERT' AND NEW.completed_at IS NOT NULL)
+       OR (TG_OP = 'UPDATE' AND NEW.completed_at IS DISTINCT FROM OLD.completed_at) THEN
+        RAISE EXCEPTION 'La fecha de término la registra el servidor al completar el servicio' USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_guard_lead_completed_at ON public.leads;
+CREATE TRIGGER trg_guard_lead_completed_at
+BEFORE INSERT OR UPDATE OF completed_at ON public.leads
+FOR EACH ROW EXECUTE FUNCTION public.guard_lead_completed_at();
+
+-- 2. Días de garantía por disciplina (mismos valores que GUARANTEE_DAYS_BY_DISCIPLINE en services/guarantees.ts)
+CREATE OR REPLACE FUNCTION public.guarantee_days(p_discipline TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE lower(COALESCE(p_discipline, ''))
+        WHEN 'electricidad' THEN 90
+        WHEN 'plomeria' THEN 90
+        WHEN 'aire-acondicionado' THEN 90
+        WHEN 'paneles-solares' THEN 90
+        WHEN 'cargadores-electricos' THEN 90
+        WHEN 'tablaroca' THEN 90
+        WHEN 'carpinteria' THEN 90
+        WHEN 'arquitectos-ingenieros' THEN 90
+        WHEN 'pintura' THEN 60
+        WHEN 'cctv' THEN 60
+        WHEN 'wifi' THEN 60
+        WHEN 'montaje' THEN 60
+        ELSE 30
+    END;
+$$;
+
+-- 3. Reclamos
+CREATE TABLE IF NOT EXISTS public.guarantee_claims (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    lead_id UUID NOT NULL REFERENCES public.leads(id) ON DELETE CASCADE,
+    client_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+    professional_id UUID REFERENCES public.profiles(user_id),
+    problem_type TEXT NOT NULL CHECK (problem_type IN (
+        'not_working', 'leak', 'poor_finish', 'incomplete', 'damage', 'other'
+    )),
+    description TEXT NOT NULL CHECK (length(trim(description)) >= 20),
+    evidence_urls TEXT[] NOT NULL CHECK (cardinality(evidence_urls) BETWEEN 1 AND 6),
+    status TEXT NOT NULL DEFAULT 'submitted'
+        CHECK (status IN ('submitted', 'under_review', 'revisit_scheduled', 'refunded', 'rejected')),
+    resolution_note TEXT,                                   -- Explicación de soporte al cliente
+    revisit_date DATE,                                      -- Visita de corrección
+    refund_amount NUMERIC(10, 2),
+    guarantee_expires_at TIMESTAMP WITH TIME ZONE NOT NULL, -- Fin de la garantía al reclamar
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    resolved_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_guarantee_claims_client ON public.guarantee_claims(client_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_guarantee_claims_lead ON public.guarantee_claims(lead_id, created_at DESC);
+
+-- Solo un reclamo abierto por servicio
+CREATE UNIQUE INDEX IF NOT EXISTS idx_guarantee_claims_one_open
+ON public.guarantee_claims(lead_id) WHERE status IN ('submitted', 'under_review');
+
+ALTER TABLE public.guarantee_claims ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Participantes ven reclamos de garantía" ON public.guarantee_claims;
+CREATE POLICY "Participantes ven reclamos de garantía"
+ON public.guarantee_claims FOR SELECT
+USING (auth.uid() = client_id OR auth.uid() = professional_id);
+
+-- El cliente crea reclamos con la RPC; soporte cambia el estado con service_role
+REVOKE INSERT, UPDATE, DELETE ON public.guarantee_claims FROM anon, authenticated;
+
+-- 4. Historial del lead: el reclamo y sus cambios de estado aparecen en la línea de tiempo
+ALTER TABLE public.lead_events DROP CONSTRAINT IF EXISTS lead_events_event_type_check;
+ALTER TABLE public.lead_events ADD CONSTRAINT lead_events_event_type_check CHECK (event_type IN (
+    'created', 'edited', 'status_changed', 'appointment_changed',
+    'price_changed', 'message', 'photos_added', 'guarantee_claim'
+));
+
+CREATE OR REPLACE FUNCTION public.log_guarantee_claim_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+        NEW.updated_at := NOW();
+        IF NEW.status IN ('revisit_scheduled', 'refunded', 'rejected') THEN
+            NEW.resolved_at := COALESCE(NEW.resolved_at, NOW());
+        END IF;
+
+        INSERT INTO public.lead_events (lead_id, actor_id, actor_role, event_type, payload)
+        VALUES (NEW.lead_id, NULL, 'system', 'guarantee_claim', jsonb_build_object(
+            'claim_id', NEW.id,
+            'status', NEW.status
+        ));
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_log_guarantee_claim_status ON public.guarantee_claims;
+CREATE TRIGGER trg_log_guarantee_claim_status
+BEFORE UPDATE ON public.guarantee_claims
+FOR EACH ROW EXECUTE FUNCTION public.log_guarantee_claim_status();
+
+-- 5. Enviar un reclamo (valida dueño, servicio completado, ventana de garantía y reclamo abierto)
+CREATE OR REPLACE FUNCTION public.submit_guarantee_claim(
+    p_lead_id UUID,
+    p_problem_type TEXT,
+    p_description TEXT,
+    p_evidence_urls TEXT[]
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_lead public.leads%ROWTYPE;
+    v_expires_at TIMESTAMP WITH TIME ZONE;
+    v_id UUID;
+BEGIN
+    SELECT * INTO v_lead FROM public.leads WHERE id = p_lead_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Solicitud no encontrada' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF auth.uid() IS DISTINCT FROM v_lead.cliente_id THEN
+        RAISE EXCEPTION 'No autorizado' USING ERRCODE = '42501';
+    END IF;
+
+    IF lower(COALESCE(v_lead.status, v_lead.estado, '')) NOT IN ('completed', 'completado', 'finalizado') THEN
+        RAISE EXCEPTION 'La garantía aplica a servicios completados' USING ERRCODE = '23514';
+    END IF;
+
+    v_expires_at := COALESCE(v_lead.completed_at, v_lead.updated_at)
+        + make_interval(days => public.guarantee_days(COALESCE(v_lead.servicio, v_lead.disciplina_ia)));
+    IF NOW() > v_expires_at THEN
+        RAISE EXCEPTION 'La garantía de este servicio ya venció' USING ERRCODE = '23514';
+    END IF;
+
+    -- El índice único también lo impide (23505) si dos envíos llegan a la vez
+    IF EXISTS (
+        SELECT 1 FROM public.guarantee_claims
+        WHERE lead_id = p_lead_id AND status IN ('submitted', 'under_review')
+    ) THEN
+        RAISE EXCEPTION 'Ya hay un reclamo abierto para este servicio' USING ERRCODE = '23505';
+    END IF;
+
+    INSERT INTO public.guarantee_claims (
+        lead_id, client_id, professional_id, problem_type, description, evidence_urls, guarantee_expires_at
+    )
+    VALUES (
+        p_lead_id, auth.uid(), COALESCE(v_lead.professional_id, v_lead.profesional_asignado_id),
+        p_problem_type, trim(p_description), p_evidence_urls, v_expires_at
+    )
+    RETURNING id INTO v_id;
+
+    INSERT INTO public.lead_events (lead_id, actor_id, actor_role, event_type, payload)
+    VALUES (p_lead_id, auth.uid(), 'client', 'guarantee_claim', jsonb_build_object(
+        'claim_id', v_id,
+        'status', 'submitted',
+        'problem_type', p_problem_type
+    ));
+
+    RETURN v_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_guarantee_claim(UUID, TEXT, TEXT, TEXT[]) TO authenticated;
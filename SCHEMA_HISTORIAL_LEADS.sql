@@ -0,0 +1,180 @@
+-- ==========================================
+-- HISTORIAL DE ACTIVIDAD DEL LEAD
+-- Objetivo: Registro de solo-inserción de lo que pasa en cada lead (creación, campos
+-- editados, cambios de estado, de cita y de precio, mensajes, fotos y motivo de
+-- cancelación) para mostrar la línea de tiempo en el detalle y resolver disputas.
+-- Los triggers registran la creación y los cambios de estado, cita y precio de todos
+-- (cliente, profesional o sistema); la app solo registra ediciones, fotos y mensajes
+-- del cliente (services/leadEvents.ts).
+-- ==========================================
+
+-- 1. Tabla
+CREATE TABLE IF NOT EXISTS public.lead_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    lead_id UUID NOT NULL REFERENCES public.leads(id) ON DELETE CASCADE,
+    actor_id UUID REFERENCES public.profiles(user_id),     -- NULL = sistema
+    actor_role TEXT NOT NULL DEFAULT 'system'
+        CHECK (actor_role IN ('client', 'professional', 'system')),
+    event_type TEXT NOT NULL CHECK (event_type IN (
+        'created', 'edited', 'status_changed', 'appointment_changed',
+        'price_changed', 'message', 'photos_added'
+    )),
+    payload JSONB NOT NULL DEFAULT '{}'::jsonb,            -- Detalle según event_type
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_events_lead ON public.lead_events(lead_id, created_at);
+
+ALTER TABLE public.lead_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Participantes ven el historial del lead" ON public.lead_events;
+CREATE POLICY "Participantes ven el historial del lead"
+ON public.lead_events FOR SELECT
+USING (EXISTS (
+    SELECT 1 FROM public.leads l
+    WHERE l.id = lead_events.lead_id
+      AND auth.uid() IN (l.cliente_id, l.professional_id, l.profesional_asignado_id)
+));
+
+-- Cada participante registra solo sus propias acciones, y solo de los tipos que no vienen
+-- de un trigger: estado, cita, precio y creación no se pueden fabricar desde la app
+DROP POLICY IF EXISTS "Participantes registran eventos propios" ON public.lead_events;
+CREATE POLICY "Participantes registran eventos propios"
+ON public.lead_events FOR INSERT
+WITH CHECK (
+    auth.uid() = actor_id
+    AND event_type IN ('edited', 'message', 'photos_added')
+    AND EXISTS (
+        SELECT 1 FROM public.leads l
+        WHERE l.id = lead_events.lead_id
+          AND (
+              (actor_role = 'client' AND auth.uid() = l.cliente_id)
+              OR (actor_role = 'professional' AND auth.uid() IN (l.professional_id, l.profesional_asignado_id))
+          )
+    )
+);
+
+-- Solo inserción: sin políticas de UPDATE/DELETE y sin permisos para modificar
+REVOKE UPDATE, DELETE ON public.lead_events FROM anon, authenticated;
+
+-- 2. Cambios de estado, cita y precio, hechos por quien sea (también desde las RPCs)
+-- El precio que fijan las RPCs con `app.agreed_price_change` no se registra aquí:
+-- respond_quote_revision registra su propio evento con la versión aprobada.
+CREATE OR REPLACE FUNCTION public.log_lead_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_actor UUID := auth.uid();
+    v_role TEXT;
+BEGIN
+    v_role := CASE
+        WHEN v_actor IS NOT NULL AND v_actor = NEW.cliente_id THEN 'client'
+        WHEN v_actor IS NOT NULL AND v_actor IN (NEW.professional_id, NEW.profesional_asignado_id) THEN 'professional'
+        ELSE 'system'
+    END;
+    IF v_role = 'system' THEN
+        v_actor := NULL;
+    END IF;
+
+    IF COALESCE(NEW.status, NEW.estado) IS DISTINCT FROM COALESCE(OLD.status, OLD.estado) THEN
+        INSERT INTO public.lead_events (lead_id, actor_id, actor_role, event_type, payload)
+        VALUES (NEW.id, v_actor, v_role, 'status_changed', jsonb_build_object(
+            'from', COALESCE(OLD.status, OLD.estado),
+            'to', COALESCE(NEW.status, NEW.estado)
+        ));
+    END IF;
+
+    IF NEW.appointment_date IS DISTINCT FROM OLD.appointment_date
+       OR NEW.appointment_time IS DISTINCT FROM OLD.appointment_time THEN
+        INSERT INTO public.lead_events (lead_id, actor_id, actor_role, event_type, payload)
+        VALUES (NEW.id, v_actor, v_role, 'appointment_changed', jsonb_build_object(
+            'from', jsonb_build_object('date', OLD.appointment_date, 'time', OLD.appointment_time),
+            'to', jsonb_build_object('date', NEW.appointment_date, 'time', NEW.appointment_time)
+        ));
+    END IF;
+
+    IF NEW.agreed_price IS DISTINCT FROM OLD.agreed_price
+       AND current_setting('app.agreed_price_change', true) IS DISTINCT FROM 'on' THEN
+        INSERT INTO public.lead_events (lead_id, actor_id, actor_role, event_type, payload)
+        VALUES (NEW.id, v_actor, v_role, 'price_changed', jsonb_build_object(
+            'from', OLD.agreed_price,
+            'to', NEW.agreed_price
+        ));
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_log_lead_changes ON public.leads;
+CREATE TRIGGER trg_log_lead_changes
+AFTER UPDATE ON public.leads
+FOR EACH ROW EXECUTE FUNCTION public.log_lead_changes();
+
+-- 3. Creación del lead
+-- Las visitas de un plan (generate_service_plan_leads_for, que activa `app.generating_plan_leads`)
+-- registran su propio evento con el plan
+CREATE OR REPLACE FUNCTION public.log_lead_created()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF current_setting('app.generating_plan_leads', true) = 'on' THEN
+        RETURN NEW;
+    END IF;
+
+    -- project_id existe solo con SCHEMA_PROYECTOS.sql
+    INSERT INTO public.lead_events (lead_id, actor_id, actor_role, event_type, payload)
+    VALUES (
+        NEW.id,
+        CASE WHEN auth.uid() = NEW.cliente_id THEN auth.uid() END,
+        CASE WHEN auth.uid() = NEW.cliente_id THEN 'client' ELSE 'system' END,
+        'created',
+        jsonb_strip_nulls(jsonb_build_object(
+            'service', NEW.servicio_solicitado,
+            'price', COALESCE(NEW.agreed_price, NEW.price),
+            'project_id', to_jsonb(NEW)->'project_id'
+        ))
+    );
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_log_lead_created ON public.leads;
+CREATE TRIGGER trg_log_lead_created
+AFTER INSERT ON public.leads
+FOR EACH ROW EXECUTE FUNCTION public.log_lead_created();
+
+-- 4. Mensajes del profesional (los del cliente los registra la app)
+CREATE OR REPLACE FUNCTION public.log_lead_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_client UUID;
+BEGIN
+    SELECT cliente_id INTO v_client FROM public.leads WHERE id = NEW.lead_id;
+    IF v_client IS NULL OR NEW.sender_id = v_client THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO public.lead_events (lead_id, actor_id, actor_role, event_type, payload)
+    VALUES (NEW.lead_id, NEW.sender_id, 'professional', 'message', jsonb_build_object(
+        'message_id', NEW.id,
+        'preview', LEFT(NEW.content, 120)
+    ));
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_log_lead_message ON public.messages;
+CREATE TRIGGER trg_log_lead_message
+AFTER INSERT ON public.messages
+FOR EACH ROW EXECUTE FUNCTION public.log_lead_message();
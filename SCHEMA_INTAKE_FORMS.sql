@@ -0,0 +1,44 @@
+-- ==========================================
+-- FORMULARIOS DE SOLICITUD POR SERVICIO
+-- Objetivo: Que cada servicio declare sus preguntas (services/intakeForms.ts).
+-- Los ids de las preguntas son los campos que usan las reglas de precio (pricing_rules).
+-- ==========================================
+
+-- 1. Columna JSON con el esquema (NULL = formulario por defecto de la disciplina)
+ALTER TABLE public.service_catalog ADD COLUMN IF NOT EXISTS form_schema JSONB;
+
+COMMENT ON COLUMN public.service_catalog.form_schema IS
+'Formulario de solicitud: { "questions": [{ id, label, type: choice|number|boolean|text|photo, required, options, unit, min, max, placeholder, max_photos, visible_if: { field, equals } }] }';
+
+-- 2. Ejemplos
+-- Kit de 4 cámaras CCTV: cámaras totales (alimenta pricing_rules.per_unit) y fotos del sitio
+UPDATE public.service_catalog
+SET form_schema = '{
+    "questions": [
+        { "id": "quantity", "label": "¿Cuántas cámaras en total?", "type": "number", "unit": "cámaras", "min": 4, "max": 16, "required": true },
+        { "id": "has_dvr", "label": "¿Ya tienes DVR/NVR instalado?", "type": "boolean", "required": true },
+        { "id": "dvr_location", "label": "¿Dónde está el DVR?", "type": "text", "visible_if": { "field": "has_dvr", "equals": true } },
+        { "id": "site_photos", "label": "Fotos de las zonas a cubrir", "type": "photo", "max_photos": 5 }
+    ]
+}'::jsonb
+WHERE discipline = 'cctv'
+  AND service_name LIKE '%Kit de 4 Cámaras%';
+
+-- Reparación de fugas: ubicación y evidencia
+UPDATE public.service_catalog
+SET form_schema = '{
+    "questions": [
+        { "id": "leak_location", "label": "¿Dónde está la fuga?", "type": "choice", "options": ["Baño", "Cocina", "Azotea", "Muro", "Otro"], "required": true },
+        { "id": "leak_other", "label": "Describe la ubicación", "type": "text", "required": true, "visible_if": { "field": "leak_location", "equals": "Otro" } },
+        { "id": "water_shutoff", "label": "¿Puedes cerrar la llave de paso?", "type": "boolean" },
+        { "id": "leak_photos", "label": "Fotos de la fuga", "type": "photo", "max_photos": 3 }
+    ]
+}'::jsonb
+WHERE discipline = 'plomeria'
+  AND service_name ILIKE '%fuga%';
+
+-- 3. Verificación
+SELECT service_name, discipline, jsonb_array_length(form_schema->'questions') AS preguntas
+FROM public.service_catalog
+WHERE form_schema IS NOT NULL
+ORDER BY discipline, service_name;
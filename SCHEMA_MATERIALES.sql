@@ -0,0 +1,149 @@
+-- ==========================================
+-- MATERIALES DEL SERVICIO
+-- Objetivo: El profesional propone materiales (cantidad, precio unitario y cargo por
+-- compra); el cliente aprueba o rechaza cada renglón (o todos a la vez) y, cuando el
+-- profesional los marca como comprados, ve los tickets y fotos de la compra.
+-- La app del cliente responde con respond_service_materials (services/materials.ts).
+-- Un renglón aprobado ya no cambia de precio ni cantidad: después de la respuesta el
+-- profesional solo registra la compra (estado, fecha, tickets, fotos y notas).
+-- ==========================================
+
+-- 1. Tabla
+CREATE TABLE IF NOT EXISTS public.service_materials (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    lead_id UUID NOT NULL REFERENCES public.leads(id) ON DELETE CASCADE,
+    professional_id UUID NOT NULL REFERENCES public.profiles(user_id),
+    material_name TEXT NOT NULL,
+    quantity NUMERIC(10,2) NOT NULL CHECK (quantity > 0),
+    unit TEXT NOT NULL DEFAULT 'pza',
+    unit_price NUMERIC(10,2) NOT NULL CHECK (unit_price >= 0),
+    total_price NUMERIC(10,2) GENERATED ALWAYS AS (quantity * unit_price) STORED,
+    purchase_service_fee NUMERIC(10,2) NOT NULL DEFAULT 0,
+    status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'approved', 'rejected', 'purchased')),
+    client_approved BOOLEAN,                    -- NULL mientras el cliente no responde
+    responded_at TIMESTAMP WITH TIME ZONE,
+    purchased_at TIMESTAMP WITH TIME ZONE,
+    receipt_urls TEXT[] DEFAULT '{}',           -- Tickets/facturas (bucket lead-photos)
+    photo_urls TEXT[] DEFAULT '{}',
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_service_materials_lead ON public.service_materials(lead_id, status);
+
+ALTER TABLE public.service_materials ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Participantes ven materiales del lead" ON public.service_materials;
+CREATE POLICY "Participantes ven materiales del lead"
+ON public.service_materials FOR SELECT
+USING (EXISTS (
+    SELECT 1 FROM public.leads l
+    WHERE l.id = service_materials.lead_id
+      AND auth.uid() IN (l.cliente_id, l.professional_id, l.profesional_asignado_id)
+));
+
+-- El profesional asignado propone materiales y marca la compra de los aprobados
+DROP POLICY IF EXISTS "Profesional asignado propone materiales" ON public.service_materials;
+CREATE POLICY "Profesional asignado propone materiales"
+ON public.service_materials FOR INSERT
+WITH CHECK (
+    auth.uid() = professional_id
+    AND status = 'pending'
+    AND client_approved IS NULL
+    AND EXISTS (
+        SELECT 1 FROM public.leads l
+        WHERE l.id = service_materials.lead_id
+          AND auth.uid() IN (l.professional_id, l.profesional_asignado_id)
+    )
+);
+
+DROP POLICY IF EXISTS "Profesional marca materiales comprados" ON public.service_materials;
+CREATE POLICY "Profesional marca materiales comprados"
+ON public.service_materials FOR UPDATE
+USING (auth.uid() = professional_id AND status IN ('approved', 'purchased'))
+WITH CHECK (auth.uid() = professional_id AND status IN ('approved', 'purchased') AND client_approved IS TRUE);
+
+-- Fuera de respond_service_materials (que activa `app.responding_materials` en su transacción)
+-- solo cambian los datos de la compra; sin sesión (service_role, soporte) no hay restricción
+CREATE OR REPLACE FUNCTION public.guard_service_material_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF auth.uid() IS NULL OR current_setting('app.responding_materials', true) = 'on' THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.lead_id IS DISTINCT FROM OLD.lead_id
+       OR NEW.professional_id IS DISTINCT FROM OLD.professional_id
+       OR NEW.material_name IS DISTINCT FROM OLD.material_name
+       OR NEW.quantity IS DISTINCT FROM OLD.quantity
+       OR NEW.unit IS DISTINCT FROM OLD.unit
+       OR NEW.unit_price IS DISTINCT FROM OLD.unit_price
+       OR NEW.purchase_service_fee IS DISTINCT FROM OLD.purchase_service_fee
+       OR NEW.client_approved IS DISTINCT FROM OLD.client_approved
+       OR NEW.responded_at IS DISTINCT FROM OLD.responded_at
+       OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+        RAISE EXCEPTION 'El material aprobado solo admite los datos de la compra' USING ERRCODE = '42501';
+    END IF;
+
+    IF NEW.status IS DISTINCT FROM OLD.status
+       AND NOT (OLD.status = 'approved' AND NEW.status = 'purchased') THEN
+        RAISE EXCEPTION 'Solo un material aprobado puede marcarse como comprado' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_guard_service_material_changes ON public.service_materials;
+CREATE TRIGGER trg_guard_service_material_changes
+BEFORE UPDATE ON public.service_materials
+FOR EACH ROW EXECUTE FUNCTION public.guard_service_material_changes();
+
+-- 2. Respuesta del cliente (uno o varios renglones pendientes a la vez)
+CREATE OR REPLACE FUNCTION public.respond_service_materials(
+    p_lead_id UUID,
+    p_material_ids UUID[],
+    p_approved BOOLEAN
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_client UUID;
+    v_updated INTEGER;
+BEGIN
+    SELECT cliente_id INTO v_client FROM public.leads WHERE id = p_lead_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Solicitud no encontrada' USING ERRCODE = 'P0002';
+    END IF;
+    IF auth.uid() IS DISTINCT FROM v_client THEN
+        RAISE EXCEPTION 'No autorizado' USING ERRCODE = '42501';
+    END IF;
+
+    PERFORM set_config('app.responding_materials', 'on', true);
+    UPDATE public.service_materials
+    SET status = CASE WHEN p_approved THEN 'approved' ELSE 'rejected' END,
+        client_approved = p_approved,
+        responded_at = NOW(),
+        updated_at = NOW()
+    WHERE lead_id = p_lead_id
+      AND id = ANY(p_material_ids)
+      AND status = 'pending';
+
+    GET DIAGNOSTICS v_updated = ROW_COUNT;
+    PERFORM set_config('app.responding_materials', 'off', true);
+
+    -- Algún renglón ya fue respondido o no pertenece al lead
+    IF v_updated <> COALESCE(array_length(p_material_ids, 1), 0) THEN
+        RAISE EXCEPTION 'Algunos materiales ya no están pendientes' USING ERRCODE = '23514';
+    END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.respond_service_materials(UUID, UUID[], BOOLEAN) TO authenticated;
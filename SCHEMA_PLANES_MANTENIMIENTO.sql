@@ -0,0 +1,384 @@
+-- ==========================================
+-- PLANES DE MANTENIMIENTO RECURRENTE
+-- Objetivo: Suscripciones a servicios periódicos (mantenimiento de minisplit, fumigación,
+-- jardinería, CCTV) cada N semanas o meses, con profesional preferido y franja horaria.
+-- generate_service_plan_leads_for() crea el lead de cada visita unos días antes
+-- (lead_days_ahead); pg_cron la ejecuta a diario para todos los planes y la app llama
+-- generate_service_plan_leads() (solo los planes del usuario) al abrir el calendario o los planes. Saltar una visita deja registro en service_plan_occurrences.
+-- Las fechas se calculan desde anchor_date para que los planes mensuales no se recorran
+-- (31 ene → 28 feb → 31 mar); la app replica el cálculo en services/servicePlans.ts.
+-- Precio, profesional y próxima visita los fija el servidor: el plan se crea con
+-- create_service_plan() a partir del lead completado y se reanuda con resume_service_plan();
+-- el cliente solo puede cambiar directamente estado, frecuencia y franja horaria.
+-- ==========================================
+
+-- 1. Planes
+CREATE TABLE IF NOT EXISTS public.service_plans (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    client_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+    source_lead_id UUID REFERENCES public.leads(id) ON DELETE SET NULL,  -- Servicio que originó el plan
+    service_name TEXT NOT NULL CHECK (length(trim(service_name)) > 0),
+    discipline TEXT,
+    description TEXT NOT NULL,
+    address TEXT,
+    lat DOUBLE PRECISION,
+    lng DOUBLE PRECISION,
+    whatsapp TEXT,
+    price NUMERIC(10, 2),                                   -- Precio estimado por visita
+    preferred_professional_id UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+    frequency_unit TEXT NOT NULL CHECK (frequency_unit IN ('week', 'month')),
+    frequency_interval INTEGER NOT NULL CHECK (frequency_interval BETWEEN 1 AND 12),
+    time_window TEXT NOT NULL DEFAULT 'morning'
+        CHECK (time_window IN ('morning', 'afternoon', 'evening')),
+    anchor_date DATE NOT NULL,                              -- Primera visita (define el día preferido)
+    next_occurrence DATE NOT NULL,
+    lead_days_ahead INTEGER NOT NULL DEFAULT 7 CHECK (lead_days_ahead BETWEEN 1 AND 30),
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'cancelled')),
+    last_generated_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_service_plans_client ON public.service_plans(client_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_service_plans_due
+ON public.service_plans(next_occurrence)
+WHERE status = 'active';
+
+ALTER TABLE public.service_plans ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Cliente gestiona sus planes" ON public.service_plans;
+
+DROP POLICY IF EXISTS "Cliente ve sus planes" ON public.service_plans;
+CREATE POLICY "Cliente ve sus planes"
+ON public.service_plans FOR SELECT
+USING (auth.uid() = client_id);
+
+DROP POLICY IF EXISTS "Cliente actualiza sus planes" ON public.service_plans;
+CREATE POLICY "Cliente actualiza sus planes"
+ON public.service_plans FOR UPDATE
+USING (auth.uid() = client_id)
+WITH CHECK (auth.uid() = client_id);
+
+-- Altas por create_service_plan(); el cliente no escribe precio, profesional ni próxima visita
+REVOKE INSERT, UPDATE, DELETE ON public.service_plans FROM anon, authenticated;
+GRANT UPDATE (status, frequency_unit, frequency_interval, anchor_date, time_window, updated_at)
+ON public.service_plans TO authenticated;
+
+-- 2. Visitas generadas o saltadas (una por fecha)
+CREATE TABLE IF NOT EXISTS public.service_plan_occurrences (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    plan_id UUID NOT NULL REFERENCES public.service_plans(id) ON DELETE CASCADE,
+    occurrence_date DATE NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('generated', 'skipped')),
+    lead_id UUID REFERENCES public.leads(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (plan_id, occurrence_date)
+);
+
+ALTER TABLE public.service_plan_occurrences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Cliente ve las visitas de sus planes" ON public.service_plan_occurrences;
+CREATE POLICY "Cliente ve las visitas de sus planes"
+ON public.service_plan_occurrences FOR SELECT
+USING (EXISTS (
+    SELECT 1 FROM public.service_plans p
+    WHERE p.id = service_plan_occurrences.plan_id AND p.client_id = auth.uid()
+));
+
+-- Escrituras solo por las funciones de abajo
+REVOKE INSERT, UPDATE, DELETE ON public.service_plan_occurrences FROM anon, authenticated;
+
+-- 3. Fecha de la visita número p_index contando desde anchor_date
+CREATE OR REPLACE FUNCTION public.service_plan_occurrence(
+    p_anchor DATE,
+    p_unit TEXT,
+    p_interval INTEGER,
+    p_index INTEGER
+)
+RETURNS DATE
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE p_unit
+        WHEN 'week' THEN p_anchor + (p_index * p_interval * 7)
+        ELSE (p_anchor + make_interval(months => p_index * p_interval))::date
+    END;
+$$;
+
+-- Primera visita posterior a p_after
+CREATE OR REPLACE FUNCTION public.service_plan_next_after(
+    p_anchor DATE,
+    p_unit TEXT,
+    p_interval INTEGER,
+    p_after DATE
+)
+RETURNS DATE
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+    v_index INTEGER := 0;
+    v_date DATE;
+BEGIN
+    LOOP
+        v_date := public.service_plan_occurrence(p_anchor, p_unit, p_interval, v_index);
+        EXIT WHEN v_date > p_after OR v_index > 1000;
+        v_index := v_index + 1;
+    END LOOP;
+    RETURN v_date;
+END;
+$$;
+
+-- 4. Crear un plan a partir de un servicio completado del cliente
+-- Servicio, dirección, precio acordado y profesional se copian del lead, no de la app
+CREATE OR REPLACE FUNCTION public.create_service_plan(
+    p_lead_id UUID,
+    p_frequency_unit TEXT,
+    p_frequency_interval INTEGER,
+    p_time_window TEXT,
+    p_first_date DATE
+)
+RETURNS public.service_plans
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_lead public.leads%ROWTYPE;
+    v_plan public.service_plans%ROWTYPE;
+BEGIN
+    SELECT * INTO v_lead FROM public.leads WHERE id = p_lead_id;
+    IF NOT FOUND OR auth.uid() IS NULL OR v_lead.cliente_id IS DISTINCT FROM auth.uid() THEN
+        RAISE EXCEPTION 'No autorizado' USING ERRCODE = '42501';
+    END IF;
+    IF lower(trim(COALESCE(NULLIF(v_lead.status, ''), v_lead.estado, ''))) NOT IN ('completed', 'completado') THEN
+        RAISE EXCEPTION 'El mantenimiento se programa al completar el servicio' USING ERRCODE = '23514';
+    END IF;
+    IF p_first_date <= CURRENT_DATE THEN
+        RAISE EXCEPTION 'La primera visita debe ser a partir de mañana' USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO public.service_plans (
+        client_id, source_lead_id, service_name, discipline, description, address, lat, lng, whatsapp,
+        price, preferred_professional_id, frequency_unit, frequency_interval, time_window,
+        anchor_date, next_occurrence, status
+    )
+    VALUES (
+        v_lead.cliente_id, v_lead.id,
+        COALESCE(NULLIF(v_lead.servicio_solicitado, ''), NULLIF(v_lead.servicio, ''), 'Mantenimiento'),
+        COALESCE(v_lead.servicio, v_lead.disciplina_ia),
+        COALESCE(NULLIF(v_lead.descripcion_proyecto, ''), NULLIF(v_lead.servicio_solicitado, ''), 'Mantenimiento recurrente'),
+        v_lead.ubicacion_direccion, v_lead.ubicacion_lat, v_lead.ubicacion_lng, v_lead.whatsapp,
+        COALESCE(v_lead.agreed_price, v_lead.price),
+        COALESCE(v_lead.professional_id, v_lead.profesional_asignado_id),
+        p_frequency_unit, p_frequency_interval, p_time_window,
+        p_first_date, p_first_date, 'active'
+    )
+    RETURNING * INTO v_plan;
+
+    RETURN v_plan;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_service_plan(UUID, TEXT, INTEGER, TEXT, DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_service_plan(UUID, TEXT, INTEGER, TEXT, DATE) TO authenticated;
+
+-- Reanudar un plan pausado; las visitas que quedaron en el pasado no se recuperan
+CREATE OR REPLACE FUNCTION public.resume_service_plan(p_plan_id UUID)
+RETURNS public.service_plans
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_plan public.service_plans%ROWTYPE;
+BEGIN
+    SELECT * INTO v_plan FROM public.service_plans WHERE id = p_plan_id FOR UPDATE;
+    IF NOT FOUND OR v_plan.client_id IS DISTINCT FROM auth.uid() THEN
+        RAISE EXCEPTION 'No autorizado' USING ERRCODE = '42501';
+    END IF;
+    IF v_plan.status = 'cancelled' THEN
+        RAISE EXCEPTION 'El plan está cancelado' USING ERRCODE = '23514';
+    END IF;
+
+    UPDATE public.service_plans
+    SET status = 'active',
+        next_occurrence = CASE
+            WHEN next_occurrence > CURRENT_DATE THEN next_occurrence
+            ELSE public.service_plan_next_after(anchor_date, frequency_unit, frequency_interval, CURRENT_DATE)
+        END,
+        updated_at = NOW()
+    WHERE id = p_plan_id
+    RETURNING * INTO v_plan;
+
+    RETURN v_plan;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resume_service_plan(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.resume_service_plan(UUID) TO authenticated;
+
+-- 5. Saltar la próxima visita
+CREATE OR REPLACE FUNCTION public.skip_service_plan_occurrence(p_plan_id UUID)
+RETURNS DATE
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_plan public.service_plans%ROWTYPE;
+    v_next DATE;
+BEGIN
+    SELECT * INTO v_plan FROM public.service_plans WHERE id = p_plan_id FOR UPDATE;
+    IF NOT FOUND OR v_plan.client_id IS DISTINCT FROM auth.uid() THEN
+        RAISE EXCEPTION 'No autorizado' USING ERRCODE = '42501';
+    END IF;
+    IF v_plan.status = 'cancelled' THEN
+        RAISE EXCEPTION 'El plan está cancelado' USING ERRCODE = '23514';
+    END IF;
+
+    -- Si el lead de esa visita ya se generó, se cancela desde el detalle del lead
+    INSERT INTO public.service_plan_occurrences (plan_id, occurrence_date, status)
+    VALUES (p_plan_id, v_plan.next_occurrence, 'skipped')
+    ON CONFLICT (plan_id, occurrence_date) DO NOTHING;
+
+    v_next := public.service_plan_next_after(
+        v_plan.anchor_date, v_plan.frequency_unit, v_plan.frequency_interval, v_plan.next_occurrence
+    );
+
+    UPDATE public.service_plans
+    SET next_occurrence = v_next, updated_at = NOW()
+    WHERE id = p_plan_id;
+
+    RETURN v_next;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.skip_service_plan_occurrence(UUID) TO authenticated;
+
+-- 6. Generar los leads de las visitas próximas
+-- Precio y profesional salen del plan, que solo escribe create_service_plan() desde el lead
+-- de origen; sin profesional la visita queda como solicitud nueva sin agendar
+-- Sin cliente (p_client_id NULL) procesa todos los planes: solo la ejecuta pg_cron (postgres)
+CREATE OR REPLACE FUNCTION public.generate_service_plan_leads_for(p_client_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_plan public.service_plans%ROWTYPE;
+    v_date DATE;
+    v_lead_id UUID;
+    v_client_name TEXT;
+    v_count INTEGER := 0;
+BEGIN
+    -- El evento 'created' de cada visita lleva el plan; log_lead_created no registra otro
+    PERFORM set_config('app.generating_plan_leads', 'on', true);
+    FOR v_plan IN
+        SELECT * FROM public.service_plans
+        WHERE status = 'active'
+          AND next_occurrence <= CURRENT_DATE + lead_days_ahead
+          AND (p_client_id IS NULL OR client_id = p_client_id)
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        v_date := v_plan.next_occurrence;
+
+        -- Visitas que quedaron en el pasado (plan pausado o sin ejecutar) no se generan
+        IF v_date < CURRENT_DATE THEN
+            v_date := public.service_plan_next_after(
+                v_plan.anchor_date, v_plan.frequency_unit, v_plan.frequency_interval, CURRENT_DATE - 1
+            );
+            IF v_date > CURRENT_DATE + v_plan.lead_days_ahead THEN
+                UPDATE public.service_plans SET next_occurrence = v_date, updated_at = NOW() WHERE id = v_plan.id;
+                CONTINUE;
+            END IF;
+        END IF;
+
+        IF NOT EXISTS (
+            SELECT 1 FROM public.service_plan_occurrences
+            WHERE plan_id = v_plan.id AND occurrence_date = v_date
+        ) THEN
+            SELECT full_name INTO v_client_name FROM public.profiles WHERE user_id = v_plan.client_id;
+
+            INSERT INTO public.leads (
+                cliente_id, nombre_cliente, whatsapp, servicio, servicio_solicitado, descripcion_proyecto,
+                ubicacion_direccion, ubicacion_lat, ubicacion_lng, estado, status, price, agreed_price,
+                disciplina_ia, professional_id, appointment_date, appointment_time, appointment_status
+            )
+            VALUES (
+                v_plan.client_id, v_client_name, v_plan.whatsapp, v_plan.discipline, v_plan.service_name,
+                v_plan.description, v_plan.address, v_plan.lat, v_plan.lng, 'Nuevo', 'pending',
+                COALESCE(v_plan.price, 0), COALESCE(v_plan.price, 0), v_plan.discipline,
+                v_plan.preferred_professional_id, v_date,
+                (v_date || ' ' || CASE v_plan.time_window
+                    WHEN 'afternoon' THEN '13:00'
+                    WHEN 'evening' THEN '17:00'
+                    ELSE '09:00'
+                END)::timestamp,
+                CASE WHEN v_plan.preferred_professional_id IS NOT NULL THEN 'scheduled' END
+            )
+            RETURNING id INTO v_lead_id;
+
+            INSERT INTO public.service_plan_occurrences (plan_id, occurrence_date, status, lead_id)
+            VALUES (v_plan.id, v_date, 'generated', v_lead_id);
+
+            IF to_regclass('public.lead_events') IS NOT NULL THEN
+                INSERT INTO public.lead_events (lead_id, actor_id, actor_role, event_type, payload)
+                VALUES (v_lead_id, NULL, 'system', 'created', jsonb_build_object(
+                    'service_plan_id', v_plan.id,
+                    'occurrence_date', v_date
+                ));
+            END IF;
+
+            v_count := v_count + 1;
+        END IF;
+
+        UPDATE public.service_plans
+        SET next_occurrence = public.service_plan_next_after(
+                v_plan.anchor_date, v_plan.frequency_unit, v_plan.frequency_interval, v_date
+            ),
+            last_generated_at = NOW(),
+            updated_at = NOW()
+        WHERE id = v_plan.id;
+    END LOOP;
+    PERFORM set_config('app.generating_plan_leads', 'off', true);
+
+    RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_service_plan_leads_for(UUID) FROM PUBLIC, anon, authenticated;
+
+-- La app genera solo los planes del usuario con sesión
+CREATE OR REPLACE FUNCTION public.generate_service_plan_leads()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'No autorizado' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN public.generate_service_plan_leads_for(auth.uid());
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_service_plan_leads() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.generate_service_plan_leads() TO authenticated;
+
+-- 7. Ejecución diaria (solo si pg_cron está habilitado en el proyecto)
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        PERFORM cron.schedule(
+            'generate-service-plan-leads',
+            '0 12 * * *',
+            'SELECT public.generate_service_plan_leads_for(NULL)'
+        );
+    END IF;
+END;
+$$;
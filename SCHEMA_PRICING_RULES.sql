@@ -0,0 +1,49 @@
+-- ==========================================
+-- REGLAS DE PRECIO POR SERVICIO
+-- Objetivo: Guardar en service_catalog las reglas que evalúa la app
+-- (services/pricingRules.ts) en lugar de tenerlas en código.
+-- ==========================================
+
+-- 1. Columna JSON con las reglas (NULL = reglas por defecto: urgencia $100, desinstalación $30, IVA 16%)
+ALTER TABLE public.service_catalog ADD COLUMN IF NOT EXISTS pricing_rules JSONB;
+
+COMMENT ON COLUMN public.service_catalog.pricing_rules IS
+'Reglas de precio: urgency_fee, tax_rate, addons[{id,name,field,equals,price,per_unit}], per_unit{price,included_units,field,max_units}, zone_surcharges[{id,name,amount,center{lat,lng},radius_km,outside,field,values}], minimum_total, maximum_total';
+
+-- 2. Ejemplos
+-- Instalación de A/C: cada equipo adicional y la desinstalación por equipo
+UPDATE public.service_catalog
+SET pricing_rules = '{
+    "urgency_fee": 100,
+    "tax_rate": 0.16,
+    "per_unit": { "price": 900, "included_units": 1, "field": "quantity", "max_units": 5 },
+    "addons": [
+        { "id": "uninstall", "name": "Desinstalación de equipo actual", "field": "needs_uninstall", "equals": true, "price": 30, "per_unit": true }
+    ],
+    "zone_surcharges": [
+        { "id": "fuera-cdmx", "name": "Traslado fuera de zona metropolitana", "amount": 150, "center": { "lat": 19.4326, "lng": -99.1332 }, "radius_km": 35, "outside": true }
+    ]
+}'::jsonb
+WHERE discipline = 'aire-acondicionado'
+  AND service_name ILIKE '%instalaci%';
+
+-- Kit de 4 cámaras CCTV: cámaras extra sobre las 4 incluidas
+UPDATE public.service_catalog
+SET pricing_rules = '{
+    "per_unit": { "price": 350, "included_units": 4, "field": "quantity", "max_units": 16 },
+    "maximum_total": 8000
+}'::jsonb
+WHERE discipline = 'cctv'
+  AND service_name LIKE '%Kit de 4 Cámaras%';
+
+-- Reparación de fugas: cargo mínimo de visita
+UPDATE public.service_catalog
+SET pricing_rules = '{ "minimum_total": 450 }'::jsonb
+WHERE discipline = 'plomeria'
+  AND service_name ILIKE '%fuga%';
+
+-- 3. Verificación
+SELECT service_name, discipline, min_price, pricing_rules
+FROM public.service_catalog
+WHERE pricing_rules IS NOT NULL
+ORDER BY discipline, service_name;
@@ -0,0 +1,73 @@
+-- ==========================================
+-- PROYECTOS CON VARIOS SERVICIOS
+-- Objetivo: Agrupar en un proyecto (p. ej. remodelación de baño) varios servicios
+-- en la misma dirección: electricidad, plomería y pintura. Los renglones de cada
+-- disciplina forman un lead enlazado con leads.project_id; la descripción y las fotos del
+-- proyecto se comparten entre todos. El avance y el presupuesto combinado se calculan
+-- en la app a partir de los leads (services/projects.ts).
+-- ==========================================
+
+-- 1. Proyectos
+CREATE TABLE IF NOT EXISTS public.projects (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    client_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+    title TEXT NOT NULL CHECK (length(trim(title)) BETWEEN 1 AND 80),
+    description TEXT NOT NULL,
+    photos_urls TEXT[] NOT NULL DEFAULT '{}',
+    address TEXT,
+    lat DOUBLE PRECISION,
+    lng DOUBLE PRECISION,
+    estimated_total NUMERIC(10, 2),                         -- Suma de las cotizaciones al crear el proyecto
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_projects_client ON public.projects(client_id, created_at DESC);
+
+ALTER TABLE public.projects ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Cliente gestiona sus proyectos" ON public.projects;
+CREATE POLICY "Cliente gestiona sus proyectos"
+ON public.projects FOR ALL
+USING (auth.uid() = client_id)
+WITH CHECK (auth.uid() = client_id);
+
+-- Los profesionales de un lead del proyecto ven el proyecto (dirección y fotos compartidas)
+DROP POLICY IF EXISTS "Profesional ve proyectos de sus leads" ON public.projects;
+CREATE POLICY "Profesional ve proyectos de sus leads"
+ON public.projects FOR SELECT
+USING (EXISTS (
+    SELECT 1 FROM public.leads l
+    WHERE l.project_id = projects.id
+      AND (l.professional_id = auth.uid() OR l.profesional_asignado_id = auth.uid())
+));
+
+-- 2. Leads del proyecto (uno por disciplina)
+ALTER TABLE public.leads
+ADD COLUMN IF NOT EXISTS project_id UUID REFERENCES public.projects(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_leads_project ON public.leads(project_id) WHERE project_id IS NOT NULL;
+
+-- Un lead solo puede enlazarse a un proyecto del mismo cliente
+CREATE OR REPLACE FUNCTION public.check_lead_project_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.project_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.projects p
+        WHERE p.id = NEW.project_id AND p.client_id = NEW.cliente_id
+    ) THEN
+        RAISE EXCEPTION 'El proyecto no pertenece al cliente del lead'
+            USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_check_lead_project_owner ON public.leads;
+CREATE TRIGGER trg_check_lead_project_owner
+BEFORE INSERT OR UPDATE OF project_id ON public.leads
+FOR EACH ROW EXECUTE FUNCTION public.check_lead_project_owner();
@@ -0,0 +1,191 @@
+-- ==========================================
+-- REPROGRAMACIÓN DE CITAS
+-- Objetivo: Cliente o profesional proponen de 1 a 3 horarios alternativos con un motivo;
+-- la otra parte acepta uno, contrapropone o rechaza. Al aceptar, la cita del lead
+-- (appointment_date, appointment_time, appointment_status) cambia en la misma transacción.
+-- Límite: 3 reprogramaciones aceptadas por lead.
+-- ==========================================
+
+-- 1. Tabla de propuestas (historial visible para ambas partes)
+CREATE TABLE IF NOT EXISTS public.appointment_reschedules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    lead_id UUID NOT NULL REFERENCES public.leads(id) ON DELETE CASCADE,
+    proposed_by UUID NOT NULL REFERENCES public.profiles(user_id),
+    proposer_role TEXT NOT NULL CHECK (proposer_role IN ('client', 'professional')),
+    reason TEXT NOT NULL CHECK (length(trim(reason)) > 0),
+    slots JSONB NOT NULL,                                   -- [{ "date": "YYYY-MM-DD", "time": "HH:MM" }]
+    previous_slot JSONB,                                    -- Cita vigente al proponer
+    accepted_slot JSONB,
+    status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'accepted', 'declined', 'countered')),
+    counter_to UUID REFERENCES public.appointment_reschedules(id),
+    responded_by UUID REFERENCES public.profiles(user_id),
+    responded_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (jsonb_typeof(slots) = 'array' AND jsonb_array_length(slots) BETWEEN 1 AND 3)
+);
+
+CREATE INDEX IF NOT EXISTS idx_appointment_reschedules_lead
+ON public.appointment_reschedules(lead_id, created_at DESC);
+
+-- Solo una propuesta pendiente por lead
+CREATE UNIQUE INDEX IF NOT EXISTS idx_appointment_reschedules_one_pending
+ON public.appointment_reschedules(lead_id) WHERE status = 'pending';
+
+ALTER TABLE public.appointment_reschedules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Participantes ven reprogramaciones" ON public.appointment_reschedules;
+CREATE POLICY "Participantes ven reprogramaciones"
+ON public.appointment_reschedules FOR SELECT
+USING (EXISTS (
+    SELECT 1 FROM public.leads l
+    WHERE l.id = appointment_reschedules.lead_id
+      AND auth.uid() IN (l.cliente_id, l.professional_id, l.profesional_asignado_id)
+));
+
+-- Escrituras solo por las RPCs (validan turno, límite y estado del lead)
+REVOKE INSERT, UPDATE, DELETE ON public.appointment_reschedules FROM anon, authenticated;
+
+-- 2. Proponer (o contraproponer) horarios
+CREATE OR REPLACE FUNCTION public.propose_reschedule(
+    p_lead_id UUID,
+    p_slots JSONB,
+    p_reason TEXT,
+    p_counter_to UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_lead public.leads%ROWTYPE;
+    v_role TEXT;
+    v_pending public.appointment_reschedules%ROWTYPE;
+    v_id UUID;
+BEGIN
+    SELECT * INTO v_lead FROM public.leads WHERE id = p_lead_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Solicitud no encontrada' USING ERRCODE = 'P0002';
+    END IF;
+
+    v_role := CASE
+        WHEN auth.uid() = v_lead.cliente_id THEN 'client'
+        WHEN auth.uid() IN (v_lead.professional_id, v_lead.profesional_asignado_id) THEN 'professional'
+    END;
+    IF v_role IS NULL THEN
+        RAISE EXCEPTION 'No autorizado' USING ERRCODE = '42501';
+    END IF;
+
+    IF COALESCE(v_lead.professional_id, v_lead.profesional_asignado_id) IS NULL
+       OR lower(COALESCE(v_lead.status, v_lead.estado, '')) NOT IN ('accepted', 'asignado', 'scheduled', 'agendado') THEN
+        RAISE EXCEPTION 'La cita de esta solicitud ya no se puede reprogramar' USING ERRCODE = '23514';
+    END IF;
+
+    IF (SELECT COUNT(*) FROM public.appointment_reschedules
+        WHERE lead_id = p_lead_id AND status = 'accepted') >= 3 THEN
+        RAISE EXCEPTION 'Se alcanzó el límite de reprogramaciones' USING ERRCODE = '23514';
+    END IF;
+
+    SELECT * INTO v_pending FROM public.appointment_reschedules
+    WHERE lead_id = p_lead_id AND status = 'pending'
+    FOR UPDATE;
+
+    IF FOUND THEN
+        -- Solo se puede contraproponer la propuesta pendiente de la otra parte
+        IF p_counter_to IS DISTINCT FROM v_pending.id OR v_pending.proposed_by = auth.uid() THEN
+            RAISE EXCEPTION 'Ya hay una propuesta de cambio pendiente' USING ERRCODE = '23514';
+        END IF;
+
+        UPDATE public.appointment_reschedules
+        SET status = 'countered', responded_by = auth.uid(), responded_at = NOW()
+        WHERE id = v_pending.id;
+    ELSIF p_counter_to IS NOT NULL THEN
+        RAISE EXCEPTION 'La propuesta ya no está pendiente' USING ERRCODE = '23514';
+    END IF;
+
+    INSERT INTO public.appointment_reschedules (
+        lead_id, proposed_by, proposer_role, reason, slots, previous_slot, counter_to
+    )
+    VALUES (
+        p_lead_id, auth.uid(), v_role, trim(p_reason), p_slots,
+        CASE WHEN v_lead.appointment_date IS NULL THEN NULL ELSE jsonb_build_object(
+            'date', v_lead.appointment_date,
+            'time', to_char(v_lead.appointment_time, 'HH24:MI')
+        ) END,
+        p_counter_to
+    )
+    RETURNING id INTO v_id;
+
+    RETURN v_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.propose_reschedule(UUID, JSONB, TEXT, UUID) TO authenticated;
+
+-- 3. Responder: aceptar un horario (p_slot_index) o rechazar (NULL)
+-- appointment_time recibe fecha y hora: el cast de asignación sirve si la columna es TIME o TIMESTAMP
+CREATE OR REPLACE FUNCTION public.respond_reschedule(
+    p_reschedule_id UUID,
+    p_slot_index INTEGER DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_reschedule public.appointment_reschedules%ROWTYPE;
+    v_lead public.leads%ROWTYPE;
+    v_slot JSONB;
+BEGIN
+    SELECT * INTO v_reschedule FROM public.appointment_reschedules WHERE id = p_reschedule_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Propuesta no encontrada' USING ERRCODE = 'P0002';
+    END IF;
+
+    SELECT * INTO v_lead FROM public.leads WHERE id = v_reschedule.lead_id FOR UPDATE;
+    IF auth.uid() NOT IN (v_lead.cliente_id, v_lead.professional_id, v_lead.profesional_asignado_id)
+       OR auth.uid() = v_reschedule.proposed_by THEN
+        RAISE EXCEPTION 'No autorizado' USING ERRCODE = '42501';
+    END IF;
+
+    IF v_reschedule.status <> 'pending' THEN
+        RAISE EXCEPTION 'La propuesta ya no está pendiente' USING ERRCODE = '23514';
+    END IF;
+
+    -- Mismas condiciones que al proponer: el lead pudo cancelarse o completarse mientras tanto
+    IF COALESCE(v_lead.professional_id, v_lead.profesional_asignado_id) IS NULL
+       OR lower(COALESCE(v_lead.status, v_lead.estado, '')) NOT IN ('accepted', 'asignado', 'scheduled', 'agendado') THEN
+        RAISE EXCEPTION 'La cita de esta solicitud ya no se puede reprogramar' USING ERRCODE = '23514';
+    END IF;
+
+    IF p_slot_index IS NULL THEN
+        UPDATE public.appointment_reschedules
+        SET status = 'declined', responded_by = auth.uid(), responded_at = NOW()
+        WHERE id = p_reschedule_id;
+        RETURN;
+    END IF;
+
+    -- p_slot_index es la posición en `slots` tal como se guardó; el horario debe ser YYYY-MM-DD y HH:MM
+    v_slot := v_reschedule.slots -> p_slot_index;
+    IF v_slot IS NULL
+       OR COALESCE(v_slot->>'date', '') !~ '^\d{4}-\d{2}-\d{2}$'
+       OR COALESCE(v_slot->>'time', '') !~ '^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$' THEN
+        RAISE EXCEPTION 'Horario inválido' USING ERRCODE = '22023';
+    END IF;
+
+    UPDATE public.appointment_reschedules
+    SET status = 'accepted', accepted_slot = v_slot, responded_by = auth.uid(), responded_at = NOW()
+    WHERE id = p_reschedule_id;
+
+    UPDATE public.leads
+    SET appointment_date = (v_slot->>'date')::date,
+        appointment_time = ((v_slot->>'date') || ' ' || (v_slot->>'time'))::timestamp,
+        appointment_status = 'scheduled',
+        updated_at = NOW()
+    WHERE id = v_reschedule.lead_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.respond_reschedule(UUID, INTEGER) TO authenticated;
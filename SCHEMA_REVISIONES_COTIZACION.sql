@@ -0,0 +1,188 @@
+-- ==========================================
+-- REVISIONES DE COTIZACIÓN
+-- Objetivo: Cuando el profesional cambia el precio después de la visita, el cambio
+-- se guarda como una nueva versión (renglones, motivo y autor) que el cliente debe
+-- aprobar o rechazar; `leads.agreed_price` solo cambia al aprobarse
+-- (services/quoteRevisions.ts).
+-- ==========================================
+
+-- 1. Tabla
+CREATE TABLE IF NOT EXISTS public.lead_quote_revisions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    lead_id UUID NOT NULL REFERENCES public.leads(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,                   -- Lo asigna el trigger (1, 2, 3...)
+    author_id UUID REFERENCES public.profiles(user_id),
+    reason TEXT,
+    -- [{ "id": "mano-obra", "kind": "labor", "label": "Mano de obra", "quantity": 1, "unit_price": 800 }]
+    -- kind: labor | material | fee | discount
+    line_items JSONB NOT NULL DEFAULT '[]'::jsonb,
+    subtotal NUMERIC(10,2) NOT NULL,
+    tax_rate NUMERIC(4,3) NOT NULL DEFAULT 0.16,
+    total_with_tax NUMERIC(10,2) NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'approved', 'rejected', 'superseded')),
+    response_note TEXT,                         -- Motivo del rechazo
+    responded_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (lead_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_quote_revisions_lead ON public.lead_quote_revisions(lead_id, version DESC);
+
+-- 2. Versión consecutiva; una revisión nueva reemplaza a la pendiente anterior
+CREATE OR REPLACE FUNCTION public.next_lead_quote_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    SELECT COALESCE(MAX(version), 0) + 1 INTO NEW.version
+    FROM public.lead_quote_revisions
+    WHERE lead_id = NEW.lead_id;
+
+    UPDATE public.lead_quote_revisions
+    SET status = 'superseded'
+    WHERE lead_id = NEW.lead_id AND status = 'pending';
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_next_lead_quote_revision ON public.lead_quote_revisions;
+CREATE TRIGGER trg_next_lead_quote_revision
+BEFORE INSERT ON public.lead_quote_revisions
+FOR EACH ROW EXECUTE FUNCTION public.next_lead_quote_revision();
+
+-- 3. `agreed_price` solo cambia dentro de las RPC que lo fijan (respond_quote_revision,
+-- accept_lead_quote), que activan `app.agreed_price_change` en su transacción.
+-- El cliente no puede escribirlo directamente; por compatibilidad con TulBoxPros, si el
+-- profesional lo escribe, el cambio se convierte en una revisión pendiente y el precio
+-- anterior sigue vigente
+CREATE OR REPLACE FUNCTION public.guard_agreed_price_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.agreed_price IS DISTINCT FROM OLD.agreed_price
+       AND auth.uid() IS NOT NULL
+       AND current_setting('app.agreed_price_change', true) IS DISTINCT FROM 'on' THEN
+        IF auth.uid() = OLD.cliente_id THEN
+            RAISE EXCEPTION 'El precio acordado solo cambia al aprobar una revisión' USING ERRCODE = '42501';
+        END IF;
+
+        IF OLD.agreed_price IS NOT NULL THEN
+            INSERT INTO public.lead_quote_revisions (lead_id, author_id, reason, line_items, subtotal, tax_rate, total_with_tax)
+            VALUES (
+                OLD.id,
+                auth.uid(),
+                'Precio actualizado desde la app del profesional',
+                jsonb_build_array(jsonb_build_object(
+                    'id', 'precio-actualizado',
+                    'kind', 'labor',
+                    'label', 'Precio actualizado',
+                    'quantity', 1,
+                    'unit_price', ROUND(NEW.agreed_price / 1.16, 2)
+                )),
+                ROUND(NEW.agreed_price / 1.16, 2),
+                0.16,
+                NEW.agreed_price
+            );
+            NEW.agreed_price := OLD.agreed_price;
+        END IF;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_guard_agreed_price_change ON public.leads;
+CREATE TRIGGER trg_guard_agreed_price_change
+BEFORE UPDATE OF agreed_price ON public.leads
+FOR EACH ROW EXECUTE FUNCTION public.guard_agreed_price_change();
+
+-- 4. RLS
+ALTER TABLE public.lead_quote_revisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Participantes ven revisiones del lead" ON public.lead_quote_revisions;
+CREATE POLICY "Participantes ven revisiones del lead"
+ON public.lead_quote_revisions FOR SELECT
+USING (EXISTS (
+    SELECT 1 FROM public.leads l
+    WHERE l.id = lead_quote_revisions.lead_id
+      AND auth.uid() IN (l.cliente_id, l.professional_id, l.profesional_asignado_id)
+));
+
+DROP POLICY IF EXISTS "Profesional asignado crea revisiones" ON public.lead_quote_revisions;
+CREATE POLICY "Profesional asignado crea revisiones"
+ON public.lead_quote_revisions FOR INSERT
+WITH CHECK (
+    auth.uid() = author_id
+    AND status = 'pending'
+    AND EXISTS (
+        SELECT 1 FROM public.leads l
+        WHERE l.id = lead_quote_revisions.lead_id
+          AND auth.uid() IN (l.professional_id, l.profesional_asignado_id)
+    )
+);
+
+-- 5. Respuesta del cliente
+-- Aprobar hace vinculante el nuevo total (con IVA); rechazar conserva el precio vigente
+CREATE OR REPLACE FUNCTION public.respond_quote_revision(
+    p_revision_id UUID,
+    p_approved BOOLEAN,
+    p_note TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_revision public.lead_quote_revisions%ROWTYPE;
+    v_client UUID;
+BEGIN
+    SELECT * INTO v_revision FROM public.lead_quote_revisions WHERE id = p_revision_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Revisión no encontrada' USING ERRCODE = 'P0002';
+    END IF;
+
+    SELECT cliente_id INTO v_client FROM public.leads WHERE id = v_revision.lead_id;
+    IF auth.uid() IS DISTINCT FROM v_client THEN
+        RAISE EXCEPTION 'No autorizado' USING ERRCODE = '42501';
+    END IF;
+
+    -- Ya respondida o reemplazada por una versión más reciente
+    IF v_revision.status <> 'pending' THEN
+        RAISE EXCEPTION 'La revisión ya no está pendiente' USING ERRCODE = '23514';
+    END IF;
+
+    UPDATE public.lead_quote_revisions
+    SET status = CASE WHEN p_approved THEN 'approved' ELSE 'rejected' END,
+        response_note = NULLIF(trim(p_note), ''),
+        responded_at = NOW()
+    WHERE id = p_revision_id;
+
+    IF p_approved THEN
+        PERFORM set_config('app.agreed_price_change', 'on', true);
+        UPDATE public.leads
+        SET agreed_price = v_revision.total_with_tax,
+            updated_at = NOW()
+        WHERE id = v_revision.lead_id;
+        PERFORM set_config('app.agreed_price_change', 'off', true);
+    END IF;
+
+    -- log_lead_changes no registra el precio fijado aquí: el evento lleva la versión y la respuesta
+    IF to_regclass('public.lead_events') IS NOT NULL THEN
+        INSERT INTO public.lead_events (lead_id, actor_id, actor_role, event_type, payload)
+        VALUES (v_revision.lead_id, auth.uid(), 'client', 'price_changed', jsonb_strip_nulls(jsonb_build_object(
+            'revision_id', v_revision.id,
+            'version', v_revision.version,
+            'to', v_revision.total_with_tax,
+            'approved', p_approved,
+            'note', NULLIF(trim(p_note), '')
+        )));
+    END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.respond_quote_revision(UUID, BOOLEAN, TEXT) TO authenticated;
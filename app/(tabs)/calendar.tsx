@@ -17,10 +17,17 @@ import { useTheme } from '@/contexts/ThemeContext';
 import { Text } from '@/components/Text';
 import { Card } from '@/components/Card';
 import { Badge } from '@/components/Badge';
-import { getClientScheduledServices, formatTimeSlot, Appointment } from '@/services/scheduling';
+import { getClientScheduledServices, formatTimeSlot, Appointment, ScheduledService } from '@/services/scheduling';
 import { supabase } from '@/lib/supabase';
 import { TULBOX_COLORS } from '@/constants/Colors';
 import { getLeadPriceFormatted } from '@/services/priceFormatter';
+import {
+    PLAN_TIME_WINDOWS,
+    PlanOccurrence,
+    ServicePlansService,
+    formatPlanFrequency,
+    getUpcomingOccurrences,
+} from '@/services/servicePlans';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 const TULBOX_PURPLE = TULBOX_COLORS.PURPLE;
@@ -69,6 +76,12 @@ const isSameDay = (date1: Date, date2: Date): boolean => {
     );
 };
 
+// Fecha local de una visita de plan (YYYY-MM-DD)
+const parseDateKey = (value: string): Date => {
+    const [year, month, day] = value.split('-').map(Number);
+    return new Date(year, month - 1, day);
+};
+
 const getStatusColor = (status: string): string => {
     switch (status) {
         case 'accepted':
@@ -105,24 +118,6 @@ const getStatusLabel = (status: string): string => {
     }
 };
 
-interface ScheduledService {
-    id: string;
-    servicio_solicitado: string;
-    servicio: string;
-    descripcion_proyecto: string;
-    ubicacion_direccion: string;
-    agreed_price: number;
-    price: number;
-    appointment_date: string;
-    appointment_time: string;
-    appointment_status: string;
-    status: string;
-    professional_id?: string;
-    professional?: {
-        full_name: string;
-    };
-}
-
 export default function CalendarScreen() {
     const { theme } = useTheme();
     const { user } = useAuth();
@@ -130,6 +125,7 @@ export default function CalendarScreen() {
 
     const [selectedDate, setSelectedDate] = useState(new Date());
     const [scheduledServices, setScheduledServices] = useState<ScheduledService[]>([]);
+    const [planOccurrences, setPlanOccurrences] = useState<PlanOccurrence[]>([]);
     const [loading, setLoading] = useState(true);
     const [refreshing, setRefreshing] = useState(false);
     const [currentWeek, setCurrentWeek] = useState(new Date());
@@ -167,14 +163,16 @@ export default function CalendarScreen() {
                 return isSameDay(serviceDate, date);
             });
 
+            const dayOccurrences = planOccurrences.filter((occurrence) => isSameDay(parseDateKey(occurrence.date), date));
+
             days.push({
                 date,
-                services: dayServices.length,
+                services: dayServices.length + dayOccurrences.length,
             });
         }
 
         return days;
-    }, [scheduledServices, weekStart]);
+    }, [scheduledServices, planOccurrences, weekStart]);
 
     // Calculate week summary
     const weekSummary = useMemo(() => {
@@ -220,8 +218,19 @@ export default function CalendarScreen() {
 
         try {
             setLoading(true);
-            const services = await getClientScheduledServices(user.id, weekStart, weekEnd);
+            const [services, plans] = await Promise.all([
+                getClientScheduledServices(user.id, weekStart, weekEnd),
+                ServicePlansService.getPlans(user.id).catch((error) => {
+                    console.warn('[Calendar] Could not load service plans:', error);
+                    return [];
+                }),
+            ]);
             setScheduledServices(services);
+
+            // Visitas de mantenimiento que aún no tienen solicitud (desde hoy)
+            const today = new Date();
+            today.setHours(0, 0, 0, 0);
+            setPlanOccurrences(getUpcomingOccurrences(plans, weekStart > today ? weekStart : today, weekEnd));
         } catch (error) {
             console.error('[Calendar] Load error:', error);
         } finally {
@@ -234,6 +243,13 @@ export default function CalendarScreen() {
         loadScheduledServices();
     }, [user?.id, weekStart]);
 
+    // Crear las solicitudes de mantenimientos próximos; llegan por la suscripción de abajo
+    useEffect(() => {
+        if (user?.id) {
+            ServicePlansService.generateDueLeads(user.id);
+        }
+    }, [user?.id]);
+
     // Subscribe to real-time updates
     useEffect(() => {
         if (!user?.id) return;
@@ -284,6 +300,9 @@ export default function CalendarScreen() {
     };
 
     const selectedDayServices = getServicesForDate(selectedDate);
+    const selectedDayOccurrences = planOccurrences.filter((occurrence) =>
+        isSameDay(parseDateKey(occurrence.date), selectedDate)
+    );
 
     return (
         <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={['top']}>
@@ -460,7 +479,7 @@ export default function CalendarScreen() {
                     <View style={styles.loadingContainer}>
                         <ActivityIndicator size="large" color={theme.primary} />
                     </View>
-                ) : selectedDayServices.length === 0 ? (
+                ) : selectedDayServices.length === 0 && selectedDayOccurrences.length === 0 ? (
                     <View style={styles.emptyContainer}>
                         <Ionicons name="calendar-outline" size={64} color={theme.textSecondary} />
                         <Text variant="h3" weight="bold" style={styles.emptyTitle}>
@@ -470,7 +489,7 @@ export default function CalendarScreen() {
                             No tienes servicios programados para este día
                         </Text>
                     </View>
-                ) : (
+                ) : selectedDayServices.length === 0 ? null : (
                     <View style={styles.servicesSection}>
                         <Text variant="h3" weight="bold" style={styles.sectionTitle}>
                             Servicios del Día
@@ -514,7 +533,7 @@ export default function CalendarScreen() {
                                                         : 'fast-response'
                                                 }
                                             >
-                                                {getStatusLabel(service.status || service.appointment_status)}
+                                                {getStatusLabel(service.status || service.appointment_status || '')}
                                             </Badge>
                                         </View>
 
@@ -527,6 +546,17 @@ export default function CalendarScreen() {
                                             </View>
                                         )}
 
+                                        {service.pending_reschedule && (
+                                            <View style={styles.rescheduleNotice}>
+                                                <Ionicons name="swap-horizontal" size={16} color={TULBOX_ORANGE} />
+                                                <Text variant="caption" weight="medium" color={TULBOX_ORANGE}>
+                                                    {service.pending_reschedule.proposed_by === user?.id
+                                                        ? 'Propusiste otra fecha · esperando respuesta'
+                                                        : 'El profesional propone otra fecha'}
+                                                </Text>
+                                            </View>
+                                        )}
+
                                         <View style={styles.serviceDetails}>
                                             <View style={styles.serviceDetailItem}>
                                                 <Ionicons name="location-outline" size={16} color={theme.textSecondary} />
@@ -547,6 +577,50 @@ export default function CalendarScreen() {
                     </View>
                 )}
 
+                {/* Mantenimientos recurrentes sin solicitud todavía */}
+                {!loading && selectedDayOccurrences.length > 0 && (
+                    <View style={styles.servicesSection}>
+                        <Text variant="h3" weight="bold" style={styles.sectionTitle}>
+                            Mantenimientos Programados
+                        </Text>
+                        {selectedDayOccurrences.map((occurrence) => (
+                            <Card
+                                key={`${occurrence.plan.id}:${occurrence.date}`}
+                                variant="elevated"
+                                style={styles.serviceCard}
+                            >
+                                <TouchableOpacity
+                                    onPress={() => router.push('/profile/plans')}
+                                    activeOpacity={0.7}
+                                >
+                                    <View style={styles.serviceHeader}>
+                                        <View style={styles.serviceInfo}>
+                                            <Text variant="h3" weight="bold" style={styles.serviceTitle} numberOfLines={1}>
+                                                {occurrence.plan.service_name}
+                                            </Text>
+                                            <View style={styles.professionalInfo}>
+                                                <Ionicons name="repeat" size={14} color={theme.textSecondary} />
+                                                <Text variant="caption" color={theme.textSecondary}>
+                                                    {formatPlanFrequency(occurrence.plan.frequency)}
+                                                </Text>
+                                            </View>
+                                        </View>
+                                    </View>
+                                    <View style={styles.serviceTime}>
+                                        <Ionicons name="time-outline" size={16} color={theme.primary} />
+                                        <Text variant="body" weight="medium" color={theme.primary}>
+                                            {PLAN_TIME_WINDOWS[occurrence.plan.time_window].label}
+                                        </Text>
+                                    </View>
+                                    <Text variant="caption" color={theme.textSecondary}>
+                                        La solicitud se crea {occurrence.plan.lead_days_ahead} días antes · Toca para saltar o pausar
+                                    </Text>
+                                </TouchableOpacity>
+                            </Card>
+                        ))}
+                    </View>
+                )}
+
                 <View style={{ height: 100 }} />
             </ScrollView>
         </SafeAreaView>
@@ -696,6 +770,17 @@ const styles = StyleSheet.create({
         borderRadius: 8,
         alignSelf: 'flex-start',
     },
+    rescheduleNotice: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+        marginBottom: 12,
+        paddingVertical: 8,
+        paddingHorizontal: 12,
+        backgroundColor: TULBOX_ORANGE + '15',
+        borderRadius: 8,
+        alignSelf: 'flex-start',
+    },
     serviceDetails: {
         flexDirection: 'row',
         justifyContent: 'space-between',
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
     View,
     ScrollView,
@@ -8,11 +8,12 @@ import {
     Dimensions,
     ActivityIndicator,
     RefreshControl,
+    Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { StatusBar } from 'expo-status-bar';
-import { useRouter } from 'expo-router';
+import { useRouter, useFocusEffect } from 'expo-router';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
@@ -32,6 +33,9 @@ import { SupportModal } from '@/components/SupportModal';
 import { TULBOX_CONFIG } from '@/constants/Config';
 import { Skeleton } from '@/components/Skeleton';
 import { hapticFeedback } from '@/utils/haptics';
+import { ContinueRequestCard } from '@/components/ContinueRequestCard';
+import { RequestDraft, formatDraftAge, getDraftsToRemind, requestDrafts } from '@/services/requestDrafts';
+import { onDraftReminderOpened } from '@/services/draftReminders';
 
 const { width } = Dimensions.get('window');
 
@@ -49,6 +53,8 @@ export default function HomeScreen() {
     const [featuredProfessionals, setFeaturedProfessionals] = useState<FeaturedProfessional[]>([]);
     const [loadingProfessionals, setLoadingProfessionals] = useState(true);
 
+    const [drafts, setDrafts] = useState<RequestDraft[]>([]);
+
     const [showSupportModal, setShowSupportModal] = useState(false);
     const [refreshing, setRefreshing] = useState(false);
 
@@ -71,7 +77,7 @@ export default function HomeScreen() {
     async function loadCategories() {
         setLoadingCategories(true);
         try {
-            const cats = await CategoryService.getCategories();
+            const cats = await CategoryService.getCategories(setCategories);
             setCategories(cats || []);
         } catch (error) {
             console.error('[HomeScreen] ❌ Error loading categories:', error);
@@ -84,7 +90,7 @@ export default function HomeScreen() {
     async function loadPopularProjects() {
         setLoadingPopularProjects(true);
         try {
-            const projects = await ServicesService.getPopularProjects();
+            const projects = await ServicesService.getPopularProjects(setPopularProjects);
             setPopularProjects(projects || []);
         } catch (error) {
             console.error('[HomeScreen] ❌ Error loading popular projects:', error);
@@ -118,32 +124,109 @@ export default function HomeScreen() {
         }
     }
 
-    async function loadFeaturedProfessionals() {
+    async function loadFeaturedProfessionals(signal?: AbortSignal) {
         setLoadingProfessionals(true);
         try {
             const userLat = currentLocation?.latitude;
             const userLng = currentLocation?.longitude;
-            const professionals = await getFeaturedProfessionals(userLat, userLng, 8);
+            const professionals = await getFeaturedProfessionals(userLat, userLng, 8, 'hybrid', setFeaturedProfessionals, signal);
+            if (signal?.aborted) return;
             setFeaturedProfessionals(professionals || []);
         } catch (error) {
             console.error('[HomeScreen] ❌ Error loading featured professionals:', error);
             setFeaturedProfessionals([]);
         } finally {
-            setLoadingProfessionals(false);
+            if (!signal?.aborted) {
+                setLoadingProfessionals(false);
+            }
+        }
+    }
+
+    /**
+     * Solicitudes sin terminar (el diagnóstico con IA se retoma en su propio buscador)
+     * El recordatorio es una notificación local; sin notificaciones (web o sin permiso) se
+     * recuerda aquí, una vez, el borrador abandonado más reciente
+     */
+    async function loadDrafts() {
+        if (!user) {
+            setDrafts([]);
+            return;
         }
+
+        const list = (await requestDrafts.list(user.id)).filter(draft => draft.step !== 'diagnostic');
+        setDrafts(list);
+
+        const [draft] = getDraftsToRemind(list, await requestDrafts.getReminderSettings());
+        if (!draft || !(await requestDrafts.remindsOnOpen())) return;
+
+        await requestDrafts.markReminded(user.id, [draft.key]);
+        Alert.alert(
+            '¿Terminamos tu solicitud?',
+            `Dejaste pendiente "${draft.service_name || 'tu solicitud'}" ${formatDraftAge(draft.updated_at)}.`,
+            [
+                { text: 'Descartar', style: 'destructive', onPress: () => handleDiscardDraft(draft) },
+                { text: 'Más tarde', style: 'cancel' },
+                { text: 'Continuar', onPress: () => handleResumeDraft(draft) },
+            ]
+        );
     }
 
+    const handleResumeDraft = (draft: RequestDraft) => {
+        if (!draft.service_id) return;
+        hapticFeedback.selection();
+
+        // Desde la confirmación se retoma ahí mismo; si no, en el formulario del servicio
+        if (draft.step === 'confirm' && draft.quote) {
+            router.push({
+                pathname: '/request-service/confirm',
+                params: {
+                    serviceId: draft.service_id,
+                    quoteData: JSON.stringify(draft.quote),
+                    formData: JSON.stringify(draft.form_data),
+                    selectedDate: draft.selected_date || '',
+                },
+            });
+            return;
+        }
+        router.push(`/service/${draft.service_id}`);
+    };
+
+    const handleDiscardDraft = async (draft: RequestDraft) => {
+        if (!user) return;
+        await requestDrafts.discard(user.id, draft.key);
+        setDrafts(prev => prev.filter(d => d.key !== draft.key));
+    };
+
     useEffect(() => {
         loadCategories();
         loadPopularProjects();
     }, []);
 
+    // Al volver al inicio (p. ej. tras abandonar una solicitud) refrescar los borradores
+    useFocusEffect(
+        useCallback(() => {
+            loadDrafts();
+        }, [user?.id])
+    );
+
+    // Al tocar la notificación de un borrador, retomarlo donde se quedó
+    useEffect(() => {
+        if (!user) return;
+        return onDraftReminderOpened(async key => {
+            const draft = await requestDrafts.get(user.id, key);
+            if (draft) handleResumeDraft(draft);
+        });
+    }, [user?.id]);
+
     useEffect(() => {
         loadLocation();
     }, [user]);
 
+    // Cancelar la consulta anterior si cambia la ubicación o se desmonta la pantalla
     useEffect(() => {
-        loadFeaturedProfessionals();
+        const controller = new AbortController();
+        loadFeaturedProfessionals(controller.signal);
+        return () => controller.abort();
     }, [currentLocation]);
 
     return (
@@ -229,6 +312,13 @@ export default function HomeScreen() {
                     </View>
                 </View>
 
+                {/* Solicitudes sin terminar */}
+                <ContinueRequestCard
+                    drafts={drafts}
+                    onResume={handleResumeDraft}
+                    onDiscard={handleDiscardDraft}
+                />
+
                 {/* FILTROS RÁPIDOS (Chips horizontales) */}
                 <View style={styles.quickFiltersSection}>
                     <ScrollView
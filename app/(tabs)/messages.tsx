@@ -16,7 +16,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useTheme } from '@/contexts/ThemeContext';
 import { Text } from '@/components/Text';
 import { Card } from '@/components/Card';
-import { Badge } from '@/components/Badge';
+import { LeadStatusBadge } from '@/components/LeadStatusBadge';
 import { MessagesService, Conversation } from '@/services/messages';
 
 export default function MessagesScreen() {
@@ -28,12 +28,12 @@ export default function MessagesScreen() {
     const [loading, setLoading] = useState(true);
     const [refreshing, setRefreshing] = useState(false);
 
-    const loadConversations = useCallback(async () => {
+    const loadConversations = useCallback(async (bypassCache: boolean = false) => {
         if (!user) return;
 
         try {
             setLoading(true);
-            const data = await MessagesService.getConversations(user.id);
+            const data = await MessagesService.getConversations(user.id, bypassCache, setConversations);
             setConversations(data);
         } catch (error) {
             console.error('[Messages] Error loading conversations:', error);
@@ -55,22 +55,24 @@ export default function MessagesScreen() {
     useEffect(() => {
         if (!user) return;
 
-        const unsubscribe = MessagesService.subscribeToConversations(user.id, () => {
-            loadConversations();
-        });
+        // Los eventos realtime llegan ya aplicados sobre la bandeja cacheada
+        const unsubscribe = MessagesService.subscribeToConversations(user.id, setConversations);
 
         return unsubscribe;
-    }, [user, loadConversations]);
+    }, [user]);
 
     const onRefresh = async () => {
         setRefreshing(true);
-        await loadConversations();
+        await loadConversations(true);
     };
 
     const handleConversationPress = async (conversation: Conversation) => {
         // Marcar como leído antes de navegar
         if (user && conversation.unread_count > 0) {
             await MessagesService.markAsRead(conversation.lead_id, user.id);
+            setConversations(prev =>
+                prev.map(c => (c.lead_id === conversation.lead_id ? { ...c, unread_count: 0 } : c))
+            );
         }
         router.push(`/messages/${conversation.lead_id}`);
     };
@@ -94,19 +96,6 @@ export default function MessagesScreen() {
         });
     };
 
-    const getStatusBadge = (status: string) => {
-        switch (status) {
-            case 'pending':
-                return <Badge variant="fast-response" label="Pendiente" />;
-            case 'accepted':
-                return <Badge variant="verified" label="Aceptado" />;
-            case 'completed':
-                return <Badge variant="guarantee" label="Completado" />;
-            default:
-                return null;
-        }
-    };
-
     return (
         <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={['top']}>
             <StatusBar style="dark" />
@@ -208,7 +197,7 @@ export default function MessagesScreen() {
                                                     <Text variant="h3" weight="bold" style={styles.conversationTitle} numberOfLines={1}>
                                                         {conversation.professional_name || 'Profesional'}
                                                     </Text>
-                                                    {getStatusBadge(conversation.lead_status)}
+                                                    <LeadStatusBadge status={conversation.lead_status} />
                                                 </View>
                                                 {conversation.last_message && (
                                                     <Text variant="caption" color={theme.textSecondary}>
@@ -20,6 +20,7 @@ import { Card } from '@/components/Card';
 import { Button } from '@/components/Button';
 import { TULBOX_COLORS } from '@/constants/Colors';
 import { supabase } from '@/lib/supabase';
+import { resolveLeadStatus, isActiveLeadStatus } from '@/services/leadLifecycle';
 import { openWhatsApp } from '@/utils/whatsapp';
 import { SupportModal } from '@/components/SupportModal';
 import { GuaranteeModal } from '@/components/GuaranteeModal';
@@ -77,14 +78,17 @@ export default function ProfileScreen() {
             // Cargar estadísticas
             const { data: leadsData } = await supabase
                 .from('leads')
-                .select('id, status, agreed_price')
+                .select('id, status, estado, appointment_status, agreed_price')
                 .eq('cliente_id', user.id);
 
             const total = leadsData?.length || 0;
-            const completed = leadsData?.filter(l => l.status === 'completed').length || 0;
-            const pending = leadsData?.filter(l => l.status === 'pending' || l.status === 'accepted').length || 0;
+            const completed = leadsData?.filter(l => resolveLeadStatus(l) === 'completed').length || 0;
+            const pending = leadsData?.filter(l => {
+                const status = resolveLeadStatus(l);
+                return status === 'pending' || isActiveLeadStatus(status);
+            }).length || 0;
             const totalSpent = leadsData
-                ?.filter(l => l.status === 'completed' && l.agreed_price)
+                ?.filter(l => resolveLeadStatus(l) === 'completed' && l.agreed_price)
                 .reduce((sum, l) => sum + (parseFloat(String(l.agreed_price)) || 0), 0) || 0;
 
             // Cargar calificaciones dadas
@@ -517,6 +521,57 @@ export default function ProfileScreen() {
 
                         <View style={[styles.divider, { backgroundColor: theme.border }]} />
 
+                        <TouchableOpacity
+                            style={styles.settingsRow}
+                            activeOpacity={0.7}
+                            onPress={() => {
+                                hapticFeedback.light();
+                                router.push('/profile/fiscal');
+                            }}
+                        >
+                            <Ionicons name="receipt-outline" size={20} color={theme.text} />
+                            <Text variant="body" style={styles.settingsText}>
+                                Datos fiscales (facturación)
+                            </Text>
+                            <Ionicons name="chevron-forward" size={20} color={theme.textSecondary} />
+                        </TouchableOpacity>
+
+                        <View style={[styles.divider, { backgroundColor: theme.border }]} />
+
+                        <TouchableOpacity
+                            style={styles.settingsRow}
+                            activeOpacity={0.7}
+                            onPress={() => {
+                                hapticFeedback.light();
+                                router.push('/profile/plans');
+                            }}
+                        >
+                            <Ionicons name="repeat-outline" size={20} color={theme.text} />
+                            <Text variant="body" style={styles.settingsText}>
+                                Mantenimientos recurrentes
+                            </Text>
+                            <Ionicons name="chevron-forward" size={20} color={theme.textSecondary} />
+                        </TouchableOpacity>
+
+                        <View style={[styles.divider, { backgroundColor: theme.border }]} />
+
+                        <TouchableOpacity
+                            style={styles.settingsRow}
+                            activeOpacity={0.7}
+                            onPress={() => {
+                                hapticFeedback.light();
+                                router.push('/profile/guarantees');
+                            }}
+                        >
+                            <Ionicons name="shield-checkmark-outline" size={20} color={theme.text} />
+                            <Text variant="body" style={styles.settingsText}>
+                                Mis garantías
+                            </Text>
+                            <Ionicons name="chevron-forward" size={20} color={theme.textSecondary} />
+                        </TouchableOpacity>
+
+                        <View style={[styles.divider, { backgroundColor: theme.border }]} />
+
                         <TouchableOpacity
                             style={styles.settingsRow}
                             activeOpacity={0.7}
@@ -15,22 +15,25 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useTheme } from '@/contexts/ThemeContext';
 import { Text } from '@/components/Text';
 import { Card } from '@/components/Card';
-import { Badge } from '@/components/Badge';
+import { LeadStatusBadge } from '@/components/LeadStatusBadge';
 import { Skeleton } from '@/components/Skeleton';
 import { hapticFeedback } from '@/utils/haptics';
 import { LeadsService, ClientLead } from '@/services/leads';
+import { LeadListFilter, matchesLeadFilter } from '@/services/leadLifecycle';
 import { CategoryService, CATEGORY_ORDER } from '@/services/categories';
 import { TULBOX_COLORS } from '@/constants/Colors';
-import { getLeadPriceFormatted } from '@/services/priceFormatter';
+import { formatPrice, getLeadPriceFormatted } from '@/services/priceFormatter';
+import { PROJECT_STATUS_LABELS, Project, ProjectsService, getProjectBudget, getProjectProgress } from '@/services/projects';
 
 export default function ProjectsScreen() {
     const { theme } = useTheme();
     const { user } = useAuth();
     const router = useRouter();
     const [leads, setLeads] = useState<ClientLead[]>([]);
+    const [projects, setProjects] = useState<Project[]>([]);
     const [loading, setLoading] = useState(true);
     const [refreshing, setRefreshing] = useState(false);
-    const [filter, setFilter] = useState<'all' | 'pending' | 'accepted' | 'completed'>('all');
+    const [filter, setFilter] = useState<LeadListFilter>('all');
 
     useEffect(() => {
         if (user) {
@@ -39,6 +42,10 @@ export default function ProjectsScreen() {
         }
     }, [user, filter]);
 
+    useEffect(() => {
+        loadProjects();
+    }, [user]);
+
     // Suscripción a cambios en tiempo real
     useEffect(() => {
         if (!user?.id) return;
@@ -47,6 +54,7 @@ export default function ProjectsScreen() {
         const unsubscribe = LeadsService.subscribeToClientLeads(user.id, (updatedLeads) => {
             console.log('[Projects] Real-time update received, leads count:', updatedLeads.length);
             setLeads(updatedLeads);
+            loadProjects();
         });
 
         return () => {
@@ -61,7 +69,7 @@ export default function ProjectsScreen() {
             console.log('[Projects] Loading leads for client:', user.id);
             console.log('[Projects] Current filter:', filter);
 
-            const data = await LeadsService.getClientLeads(user.id, filter, force);
+            const data = await LeadsService.getClientLeads(user.id, filter, force, setLeads);
 
             console.log('[Projects] Leads loaded:', data.length);
             setLeads(data);
@@ -78,24 +86,22 @@ export default function ProjectsScreen() {
         }
     };
 
-    const onRefresh = async () => {
-        setRefreshing(true);
-        await loadLeads(true);
-    };
+    // Los proyectos son opcionales: sin ellos la lista de solicitudes sigue funcionando
+    const loadProjects = async () => {
+        if (!user) return;
 
-    const getStatusBadge = (status: string) => {
-        switch (status) {
-            case 'pending':
-                return <Badge variant="fast-response" label="Pendiente" />;
-            case 'accepted':
-                return <Badge variant="verified" label="Aceptado" />;
-            case 'completed':
-                return <Badge variant="guarantee" label="Completado" />;
-            default:
-                return null;
+        try {
+            setProjects(await ProjectsService.getProjects(user.id));
+        } catch (error) {
+            console.warn('[Projects] Error loading projects:', error);
         }
     };
 
+    const onRefresh = async () => {
+        setRefreshing(true);
+        await Promise.all([loadLeads(true), loadProjects()]);
+    };
+
     const getStatusColor = (status: string) => {
         switch (status) {
             case 'pending':
@@ -120,18 +126,25 @@ export default function ProjectsScreen() {
         router.push('/services');
     };
 
+    const goToNewProject = () => {
+        hapticFeedback.light();
+        router.push('/project/new');
+    };
+
+    const projectTitles = useMemo(
+        () => new Map(projects.map(project => [project.id, project.title])),
+        [projects]
+    );
+
     // Los leads ya vienen filtrados desde LeadsService según el filter
     // Pero mantenemos el filtrado local por si acaso
-    const filteredLeads = leads.filter(lead => {
-        if (filter === 'all') return true;
-        return lead.status === filter;
-    });
+    const filteredLeads = leads.filter(lead => matchesLeadFilter(lead.status, filter));
 
     const stats = {
         all: leads.length,
-        pending: leads.filter(l => l.status === 'pending').length,
-        accepted: leads.filter(l => l.status === 'accepted').length,
-        completed: leads.filter(l => l.status === 'completed').length,
+        pending: leads.filter(l => matchesLeadFilter(l.status, 'pending')).length,
+        accepted: leads.filter(l => matchesLeadFilter(l.status, 'accepted')).length,
+        completed: leads.filter(l => matchesLeadFilter(l.status, 'completed')).length,
     };
 
     const leadGroupsByDiscipline = useMemo(() => {
@@ -175,11 +188,20 @@ export default function ProjectsScreen() {
                         <Text variant="h3" weight="bold" style={styles.leadTitle} numberOfLines={1}>
                             {lead.servicio_solicitado || lead.servicio || 'Servicio'}
                         </Text>
-                        {getStatusBadge(lead.status)}
+                        <LeadStatusBadge status={lead.status} />
                     </View>
                     <Ionicons name="chevron-forward" size={20} color={theme.textSecondary} />
                 </View>
 
+                {!!lead.project_id && projectTitles.has(lead.project_id) && (
+                    <View style={[styles.projectTag, { backgroundColor: theme.primary + '15' }]}>
+                        <Ionicons name="albums-outline" size={12} color={theme.primary} />
+                        <Text variant="caption" weight="medium" color={theme.primary} numberOfLines={1}>
+                            {projectTitles.get(lead.project_id)}
+                        </Text>
+                    </View>
+                )}
+
                 {lead.descripcion_proyecto && (
                     <Text variant="body" color={theme.textSecondary} style={styles.leadDescription} numberOfLines={2}>
                         {lead.descripcion_proyecto}
@@ -214,6 +236,46 @@ export default function ProjectsScreen() {
         </Card>
     );
 
+    const renderProjectCard = (project: Project) => {
+        const progress = getProjectProgress(project.leads);
+        const budget = getProjectBudget(project.leads);
+
+        return (
+            <Card key={project.id} variant="elevated" style={styles.projectCard}>
+                <TouchableOpacity
+                    onPress={() => {
+                        hapticFeedback.selection();
+                        router.push(`/project/${project.id}`);
+                    }}
+                    activeOpacity={0.7}
+                >
+                    <View style={styles.leadHeader}>
+                        <View style={styles.leadTitleContainer}>
+                            <Text variant="h3" weight="bold" style={styles.leadTitle} numberOfLines={1}>
+                                {project.title}
+                            </Text>
+                            <Text variant="caption" weight="medium" color={progress.status === 'completed' ? theme.success : theme.primary}>
+                                {PROJECT_STATUS_LABELS[progress.status]}
+                            </Text>
+                        </View>
+                        <Ionicons name="chevron-forward" size={20} color={theme.textSecondary} />
+                    </View>
+                    <View style={[styles.progressTrack, { backgroundColor: theme.surface }]}>
+                        <View style={[styles.progressFill, { backgroundColor: theme.success, width: `${progress.percent}%` }]} />
+                    </View>
+                    <View style={styles.leadFooter}>
+                        <Text variant="caption" color={theme.textSecondary}>
+                            {progress.completed} de {progress.total} servicios terminados
+                        </Text>
+                        <Text variant="body" weight="bold" color={theme.primary}>
+                            {formatPrice(budget.total)}
+                        </Text>
+                    </View>
+                </TouchableOpacity>
+            </Card>
+        );
+    };
+
     return (
         <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={['top']}>
             <StatusBar style="dark" />
@@ -229,6 +291,17 @@ export default function ProjectsScreen() {
                             {stats.all} solicitudes en total
                         </Text>
                     </View>
+                    {user ? (
+                        <TouchableOpacity
+                            onPress={goToNewProject}
+                            activeOpacity={0.75}
+                            accessibilityRole="button"
+                            accessibilityLabel="Nuevo proyecto con varios servicios"
+                            style={[styles.headerCta, { borderWidth: 1.5, borderColor: theme.primary }]}
+                        >
+                            <Ionicons name="albums-outline" size={20} color={theme.primary} />
+                        </TouchableOpacity>
+                    ) : null}
                     {user ? (
                         <TouchableOpacity
                             onPress={goToNewRequest}
@@ -332,6 +405,20 @@ export default function ProjectsScreen() {
                     contentContainerStyle={styles.leadsScrollContent}
                 >
                     <View style={styles.leadsList}>
+                        {filter === 'all' && projects.length > 0 && (
+                            <View style={styles.disciplineSection}>
+                                <View style={styles.disciplineSectionHeader}>
+                                    <Ionicons name="albums-outline" size={20} color={theme.primary} />
+                                    <Text variant="body" weight="bold" color={theme.text} style={styles.disciplineSectionTitle}>
+                                        Proyectos
+                                    </Text>
+                                    <Text variant="caption" color={theme.textSecondary}>
+                                        ({projects.length})
+                                    </Text>
+                                </View>
+                                {projects.map(renderProjectCard)}
+                            </View>
+                        )}
                         {leadGroupsByDiscipline.map((group) => (
                             <View key={group.discipline} style={styles.disciplineSection}>
                                 <View style={styles.disciplineSectionHeader}>
@@ -474,6 +561,30 @@ const styles = StyleSheet.create({
     leadCard: {
         marginBottom: 16,
     },
+    projectCard: {
+        marginBottom: 16,
+    },
+    projectTag: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        alignSelf: 'flex-start',
+        gap: 4,
+        paddingHorizontal: 8,
+        paddingVertical: 2,
+        borderRadius: 10,
+        marginBottom: 8,
+        maxWidth: '100%',
+    },
+    progressTrack: {
+        height: 6,
+        borderRadius: 3,
+        overflow: 'hidden',
+        marginBottom: 12,
+    },
+    progressFill: {
+        height: '100%',
+        borderRadius: 3,
+    },
     leadHeader: {
         flexDirection: 'row',
         justifyContent: 'space-between',
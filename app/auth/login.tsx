@@ -25,6 +25,7 @@ import * as SecureStore from 'expo-secure-store';
 import { Text } from '@/components/Text';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
 import { supabase } from '@/lib/supabase';
 import { mapAuthMessage, signInWithGoogle, signInWithApple } from '@/lib/auth/oauthProviders';
 
@@ -40,6 +41,7 @@ const SECURE_KEYS = {
 export default function LoginScreen() {
     const router = useRouter();
     const { signInWithEmail } = useAuth();
+    const { showInfo } = useToast();
     const [email, setEmail] = useState('');
     const [password, setPassword] = useState('');
     const [error, setError] = useState<string | null>(null);
@@ -193,7 +195,7 @@ export default function LoginScreen() {
                 setError(mapAuthMessage(resetError.message));
                 return;
             }
-            Alert.alert('Revisa tu correo', 'Si hay una cuenta asociada, recibirás un enlace para restablecer la contraseña.');
+            showInfo('Si hay una cuenta asociada, recibirás un enlace para restablecer la contraseña.', 'Revisa tu correo');
         } catch (err: any) {
             setError(mapAuthMessage(err?.message));
         }
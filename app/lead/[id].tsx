@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
     View,
     StyleSheet,
@@ -7,6 +7,7 @@ import {
     ActivityIndicator,
     RefreshControl,
     Alert,
+    Linking,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { StatusBar } from 'expo-status-bar';
@@ -14,28 +15,62 @@ import { useRouter, useLocalSearchParams } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '@/contexts/AuthContext';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useToast } from '@/contexts/ToastContext';
 import { Text } from '@/components/Text';
 import { Card } from '@/components/Card';
-import { Badge } from '@/components/Badge';
+import { LeadStatusBadge } from '@/components/LeadStatusBadge';
 import { Button } from '@/components/Button';
 import { ProfessionalProfileCard } from '@/components/ProfessionalProfileCard';
 import { EditLeadModal } from '@/components/EditLeadModal';
 import { CancelLeadModal } from '@/components/CancelLeadModal';
 import { CompleteServiceModal } from '@/components/CompleteServiceModal';
-import { supabase } from '@/lib/supabase';
+import { LeadQuotesComparison } from '@/components/LeadQuotesComparison';
+import { QuoteRevisionCard } from '@/components/QuoteRevisionCard';
+import { LeadMaterialsSection } from '@/components/LeadMaterialsSection';
+import { LeadTimeline } from '@/components/LeadTimeline';
+import { RescheduleSection } from '@/components/RescheduleSection';
+import { ServicePlanModal, ServicePlanSelection } from '@/components/ServicePlanModal';
+import { GuaranteeClaimModal, GuaranteeClaimSubmission } from '@/components/GuaranteeClaimModal';
 import { TULBOX_COLORS } from '@/constants/Colors';
 import { openWhatsApp, generateClientToProfessionalMessage } from '@/utils/whatsapp';
 import { LeadsService } from '@/services/leads';
 import { ReviewsService, Review } from '@/services/reviews';
 import { UniversalMap } from '@/components/UniversalMap';
 import { ReviewModal } from '@/components/ReviewModal';
+import { useOutboxItems } from '@/hooks/useOutbox';
+import { OutboxItem } from '@/services/outbox';
+import { LeadStatus, getLeadActions } from '@/services/leadLifecycle';
+import { ProfilesRepository, ProfessionalCard } from '@/services/repositories/profiles';
+import { LeadQuotesService, LeadQuote, RankedLeadQuote } from '@/services/leadQuotes';
+import { QuoteRevisionsService, QuoteRevision, getBindingRevision, revisionToServiceQuote } from '@/services/quoteRevisions';
+import { MaterialsService } from '@/services/materials';
+import { LeadEventsService, LeadEvent, buildLeadTimeline } from '@/services/leadEvents';
+import { ServicePlansService } from '@/services/servicePlans';
+import { RescheduleService, RescheduleProposal, RescheduleSlot, getLeadAppointmentSlot } from '@/services/reschedules';
+import { InvoicesService, InvoiceRequest, INVOICE_STATUS_LABELS, buildLeadInvoiceQuote } from '@/services/invoices';
+import { DocumentsService } from '@/services/documents';
+import { PaymentPreferenceService } from '@/services/paymentPreferences';
+import {
+    GuaranteeService,
+    GuaranteeClaim,
+    GUARANTEE_CLAIM_STATUS_LABELS,
+    GUARANTEE_PROBLEM_TYPES,
+    formatGuaranteeRemaining,
+    getGuaranteeWindow,
+    isOpenClaim,
+} from '@/services/guarantees';
+import { ServiceMaterial } from '@/services/quotes';
+import { formatPrice } from '@/services/priceFormatter';
+import { CancellationReasonCode } from '@/services/cancellations';
 
 interface Lead {
     id: string;
     servicio_solicitado?: string | null;
     servicio?: string | null;
     descripcion_proyecto?: string | null;
-    status: string;
+    disciplina_ia?: string | null;
+    cliente_id?: string | null;
+    status: LeadStatus;
     estado?: string | null;
     price?: number | null;
     agreed_price?: number | null;
@@ -43,23 +78,33 @@ interface Lead {
     ubicacion_lat?: number | null;
     ubicacion_lng?: number | null;
     whatsapp?: string | null;
+    appointment_date?: string | null;
+    appointment_time?: string | null;
     professional_id?: string | null;
     profesional_asignado_id?: string | null; // Campo legacy
+    project_id?: string | null;
+    completed_at?: string | null;
     created_at: string | null;
     updated_at: string | null;
-    profiles?: {
-        full_name: string;
-        whatsapp?: string;
-        phone?: string;
-        profession?: string;
-        calificacion_promedio?: number;
-        avatar_url?: string | null;
-    };
+    profiles?: ProfessionalCard;
 }
 
+// Campos que usan la ventana de garantía y el envío de reclamos
+const toGuaranteeLead = (lead: Lead) => ({
+    id: lead.id,
+    cliente_id: lead.cliente_id ?? null,
+    status: lead.status,
+    estado: lead.estado ?? null,
+    servicio: lead.servicio ?? null,
+    disciplina_ia: lead.disciplina_ia ?? null,
+    completed_at: lead.completed_at ?? null,
+    updated_at: lead.updated_at ?? lead.created_at ?? '',
+});
+
 export default function LeadDetailScreen() {
     const { theme } = useTheme();
     const { user } = useAuth();
+    const { showSuccess, showInfo, showError } = useToast();
     const router = useRouter();
     const { id } = useLocalSearchParams<{ id: string }>();
 
@@ -70,7 +115,28 @@ export default function LeadDetailScreen() {
     const [isCancelModalVisible, setIsCancelModalVisible] = useState(false);
     const [isCompleteModalVisible, setIsCompleteModalVisible] = useState(false);
     const [isReviewModalVisible, setIsReviewModalVisible] = useState(false);
+    const [isPlanModalVisible, setIsPlanModalVisible] = useState(false);
+    const [isClaimModalVisible, setIsClaimModalVisible] = useState(false);
     const [review, setReview] = useState<Review | null>(null);
+    const [quotes, setQuotes] = useState<LeadQuote[]>([]);
+    const [acceptingQuoteId, setAcceptingQuoteId] = useState<string | null>(null);
+    const [revisions, setRevisions] = useState<QuoteRevision[]>([]);
+    const [materials, setMaterials] = useState<ServiceMaterial[]>([]);
+    const [events, setEvents] = useState<LeadEvent[]>([]);
+    const [reschedules, setReschedules] = useState<RescheduleProposal[]>([]);
+    const [invoice, setInvoice] = useState<InvoiceRequest | null>(null);
+    const [requestingInvoice, setRequestingInvoice] = useState(false);
+    const [claims, setClaims] = useState<GuaranteeClaim[]>([]);
+
+    // Cambios del lead que aún no llegan al servidor (sin conexión)
+    const pendingChanges = useOutboxItems(
+        useCallback(
+            (item: OutboxItem) =>
+                (item.type === 'lead.update' || item.type === 'lead.cancel') && item.payload?.lead_id === id,
+            [id]
+        )
+    );
+    const hasFailedChanges = pendingChanges.some(item => item.status === 'failed');
 
     useEffect(() => {
         if (id) {
@@ -109,15 +175,11 @@ export default function LeadDetailScreen() {
             });
 
             // Si hay profesional asignado, obtener su perfil
-            let professionalProfile = null;
+            let professionalProfile: ProfessionalCard | null = null;
             if (professionalId) {
                 console.log('[LeadDetail] ✅ Professional ID found:', professionalId);
                 console.log('[LeadDetail] Loading professional profile...');
-                const { data: profData, error: profError } = await supabase
-                    .from('profiles')
-                    .select('full_name, whatsapp, phone, profession, calificacion_promedio, avatar_url')
-                    .eq('user_id', professionalId)
-                    .single();
+                const { data: profData, error: profError } = await ProfilesRepository.findProfessionalCard(professionalId);
 
                 if (!profError && profData) {
                     professionalProfile = profData;
@@ -149,10 +211,80 @@ export default function LeadDetailScreen() {
 
             setLead(completeLead);
 
+            // Cotizaciones de profesionales (solo mientras el cliente no ha elegido)
+            if (completeLead.status === 'pending') {
+                try {
+                    setQuotes(await LeadQuotesService.getLeadQuotes(id));
+                } catch (quotesError) {
+                    console.warn('[LeadDetail] Could not load quotes:', quotesError);
+                    setQuotes([]);
+                }
+            } else {
+                setQuotes([]);
+            }
+
+            // Cambios de precio del profesional asignado (versiones de la cotización)
+            if (resolvedProfessionalId) {
+                try {
+                    setRevisions(await QuoteRevisionsService.getRevisions(id));
+                } catch (revisionsError) {
+                    console.warn('[LeadDetail] Could not load quote revisions:', revisionsError);
+                    setRevisions([]);
+                }
+            } else {
+                setRevisions([]);
+            }
+
+            // Materiales propuestos por el profesional asignado
+            if (resolvedProfessionalId) {
+                try {
+                    setMaterials(await MaterialsService.getLeadMaterials(id));
+                } catch (materialsError) {
+                    console.warn('[LeadDetail] Could not load materials:', materialsError);
+                    setMaterials([]);
+                }
+            } else {
+                setMaterials([]);
+            }
+
+            // Negociación de cambios de fecha de la cita
+            if (resolvedProfessionalId) {
+                try {
+                    setReschedules(await RescheduleService.getReschedules(id));
+                } catch (reschedulesError) {
+                    console.warn('[LeadDetail] Could not load reschedules:', reschedulesError);
+                    setReschedules([]);
+                }
+            } else {
+                setReschedules([]);
+            }
+
+            // Historial de actividad (creación, ediciones, estados, cita, precio, mensajes)
+            try {
+                setEvents(buildLeadTimeline(completeLead, await LeadEventsService.getLeadEvents(id)));
+            } catch (eventsError) {
+                console.warn('[LeadDetail] Could not load lead events:', eventsError);
+                setEvents(buildLeadTimeline(completeLead, []));
+            }
+
             // Cargar reseña si el lead está completado
             if (completeLead.status === 'completed') {
                 const existingReview = await ReviewsService.getReviewByLeadId(id);
                 setReview(existingReview);
+
+                try {
+                    setInvoice(await InvoicesService.getLeadInvoice(id));
+                } catch (invoiceError) {
+                    console.warn('[LeadDetail] Could not load invoice request:', invoiceError);
+                    setInvoice(null);
+                }
+
+                try {
+                    setClaims(await GuaranteeService.getLeadClaims(id));
+                } catch (claimsError) {
+                    console.warn('[LeadDetail] Could not load guarantee claims:', claimsError);
+                    setClaims([]);
+                }
             }
         } catch (error: any) {
             console.error('[LeadDetail] Error loading lead:', error);
@@ -213,21 +345,6 @@ export default function LeadDetailScreen() {
     };
 
 
-    const getStatusBadge = (status: string) => {
-        switch (status) {
-            case 'pending':
-                return <Badge variant="fast-response" label="Pendiente" />;
-            case 'accepted':
-                return <Badge variant="verified" label="Aceptado" />;
-            case 'completed':
-                return <Badge variant="guarantee" label="Completado" />;
-            case 'cancelled':
-                return <Badge variant="cancelled" label="Cancelado" />;
-            default:
-                return null;
-        }
-    };
-
     const handleEditLead = async (data: {
         service: string;
         description: string;
@@ -238,11 +355,13 @@ export default function LeadDetailScreen() {
         if (!lead || !user) return;
 
         try {
-            const updatedLead = await LeadsService.updateLead(lead.id, data);
-            if (updatedLead) {
+            const { lead: updatedLead, queued } = await LeadsService.updateLead(lead.id, data);
+            if (queued) {
+                showInfo('Guardamos tus cambios y se enviarán automáticamente cuando recuperes la conexión.', 'Sin conexión');
+            } else if (updatedLead) {
                 // Recargar el lead actualizado
                 await loadLead();
-                Alert.alert('Éxito', 'Los cambios se guardaron correctamente.');
+                showSuccess('Los cambios se guardaron correctamente.');
             }
         } catch (error: any) {
             console.error('[LeadDetail] Error updating lead:', error);
@@ -265,31 +384,245 @@ export default function LeadDetailScreen() {
         }
     };
 
-    const handleCancelLead = async (reason?: string) => {
+    const handleCancelLead = async (reasonCode: CancellationReasonCode, reason?: string) => {
+        if (!lead || !user) return;
+
+        try {
+            const { queued } = await LeadsService.cancelLead(lead.id, user.id, reason, reasonCode);
+            if (queued) {
+                showInfo(
+                    'No hay conexión. La cancelación se enviará automáticamente cuando vuelvas a estar en línea.',
+                    'Cancelación pendiente'
+                );
+            } else {
+                showSuccess('El servicio ha sido cancelado correctamente.', 'Servicio cancelado');
+            }
+            router.back();
+        } catch (error: any) {
+            console.error('[LeadDetail] Error cancelling lead:', error);
+            throw error;
+        }
+    };
+
+    const acceptQuote = async (quote: RankedLeadQuote) => {
+        if (!lead || !user) return;
+
+        try {
+            setAcceptingQuoteId(quote.id);
+            await LeadQuotesService.acceptLeadQuote(lead.id, quote.id, user.id);
+            showSuccess(`${quote.professional.name} atenderá tu solicitud.`, 'Cotización aceptada');
+            await loadLead();
+        } catch (error) {
+            showError(error, { context: 'LeadDetail', fallbackMessage: 'No se pudo aceptar la cotización' });
+            await loadLead();
+        } finally {
+            setAcceptingQuoteId(null);
+        }
+    };
+
+    const handleAcceptQuote = (quote: RankedLeadQuote) => {
+        Alert.alert(
+            'Aceptar cotización',
+            `¿Contratar a ${quote.professional.name} por ${formatPrice(quote.price)}? Las demás cotizaciones se declinarán.`,
+            [
+                { text: 'Cancelar', style: 'cancel' },
+                { text: 'Aceptar', onPress: () => acceptQuote(quote) },
+            ]
+        );
+    };
+
+    const handleRespondToRevision = async (revision: QuoteRevision, approved: boolean, note?: string) => {
+        if (!lead || !user) return;
+
+        try {
+            await QuoteRevisionsService.respondToRevision({
+                leadId: lead.id,
+                revisionId: revision.id,
+                clientId: user.id,
+                approved,
+                note,
+            });
+            showSuccess(
+                approved
+                    ? `El nuevo precio de ${formatPrice(revision.total_with_tax)} quedó acordado.`
+                    : 'Avisaremos al profesional que no aceptaste el cambio de precio.',
+                approved ? 'Cambio aprobado' : 'Cambio rechazado'
+            );
+        } catch (error) {
+            showError(error, { context: 'LeadDetail', fallbackMessage: 'No se pudo responder el cambio de precio' });
+        }
+        await loadLead();
+    };
+
+    const handleRespondToMaterials = async (materialIds: string[], approved: boolean) => {
         if (!lead || !user) return;
 
         try {
-            await LeadsService.cancelLead(lead.id, user.id, reason);
+            await MaterialsService.respondToMaterials({
+                leadId: lead.id,
+                clientId: user.id,
+                materialIds,
+                approved,
+            });
+            showSuccess(
+                approved
+                    ? 'El profesional ya puede comprar los materiales aprobados.'
+                    : 'Avisaremos al profesional que no aceptaste el material.',
+                approved ? 'Materiales aprobados' : 'Material rechazado'
+            );
+        } catch (error) {
+            showError(error, { context: 'LeadDetail', fallbackMessage: 'No se pudieron responder los materiales' });
+        }
+        await loadLead();
+    };
+
+    const handleProposeReschedule = async (slots: RescheduleSlot[], reason: string, counterTo?: string) => {
+        if (!lead || !user) return;
+
+        // Los errores se muestran dentro del modal
+        await RescheduleService.proposeReschedule({
+            leadId: lead.id,
+            clientId: user.id,
+            slots,
+            reason,
+            counterTo,
+        });
+        showSuccess('Le avisaremos al profesional para que elija un horario.', 'Propuesta enviada');
+        await loadLead();
+    };
+
+    const handleRespondToReschedule = async (rescheduleId: string, slotIndex: number | null) => {
+        if (!lead || !user) return;
+
+        try {
+            await RescheduleService.respondToReschedule({
+                leadId: lead.id,
+                clientId: user.id,
+                rescheduleId,
+                slotIndex,
+            });
+            showSuccess(
+                slotIndex !== null
+                    ? 'Actualizamos la fecha de tu cita.'
+                    : 'Avisaremos al profesional que la cita se mantiene.',
+                slotIndex !== null ? 'Cita reprogramada' : 'Propuesta rechazada'
+            );
+        } catch (error) {
+            showError(error, { context: 'LeadDetail', fallbackMessage: 'No se pudo responder el cambio de fecha' });
+        }
+        await loadLead();
+    };
+
+    const requestInvoice = async () => {
+        if (!lead || !user) return;
+
+        setRequestingInvoice(true);
+        try {
+            setInvoice(await InvoicesService.requestInvoice({ leadId: lead.id, clientId: user.id }));
+            showSuccess('Te avisaremos cuando tu factura esté lista.', 'Factura solicitada');
+        } catch (error) {
+            showError(error, { context: 'LeadDetail', fallbackMessage: 'No se pudo solicitar la factura' });
+        } finally {
+            setRequestingInvoice(false);
+        }
+    };
+
+    const handleRequestInvoice = async () => {
+        if (!user) return;
+
+        try {
+            const fiscalProfile = await InvoicesService.getFiscalProfile(user.id);
+            if (!fiscalProfile) {
+                Alert.alert(
+                    'Datos fiscales',
+                    'Para solicitar tu factura primero captura tu RFC y datos fiscales.',
+                    [
+                        { text: 'Cancelar', style: 'cancel' },
+                        { text: 'Capturar', onPress: () => router.push('/profile/fiscal') },
+                    ]
+                );
+                return;
+            }
+
             Alert.alert(
-                'Servicio cancelado',
-                'El servicio ha sido cancelado correctamente.',
+                'Solicitar factura',
+                `Se facturará a ${fiscalProfile.razon_social} (${fiscalProfile.rfc}).`,
                 [
-                    {
-                        text: 'OK',
-                        onPress: () => router.back(),
-                    },
+                    { text: 'Cambiar datos', onPress: () => router.push('/profile/fiscal') },
+                    { text: 'Solicitar', onPress: requestInvoice },
                 ]
             );
-        } catch (error: any) {
-            console.error('[LeadDetail] Error cancelling lead:', error);
-            throw error;
+        } catch (error) {
+            showError(error, { context: 'LeadDetail', fallbackMessage: 'No se pudieron obtener tus datos fiscales' });
         }
     };
 
-    // Verificar si el lead puede ser editado o cancelado
-    const canEdit = !!lead && lead.status !== 'completed' && lead.status !== 'cancelled';
-    const canCancel = !!lead && lead.status !== 'completed' && lead.status !== 'cancelled';
-    const canComplete = !!lead && lead.status === 'accepted';
+    const handleCreatePlan = async ({ frequency, timeWindow, firstDate }: ServicePlanSelection) => {
+        if (!lead || !user || !firstDate) return;
+
+        // Los errores se muestran dentro del modal
+        await ServicePlansService.createPlanFromLead({
+            leadId: lead.id,
+            clientId: user.id,
+            frequency,
+            timeWindow,
+            firstDate,
+        });
+        showSuccess('Verás las visitas en tu agenda. Puedes saltarlas o pausarlas desde tu perfil.', 'Mantenimiento programado');
+    };
+
+    const handleSubmitClaim = async ({ problemType, description, evidenceUrls }: GuaranteeClaimSubmission) => {
+        if (!lead || !user) return;
+
+        // Los errores se muestran dentro del modal
+        await GuaranteeService.submitClaim({
+            lead: toGuaranteeLead(lead),
+            clientId: user.id,
+            problemType,
+            description,
+            evidenceUrls,
+        });
+        showSuccess('Soporte revisará tu reclamo y te avisará cómo se resolverá.', 'Reclamo enviado');
+        await loadLead();
+    };
+
+    // Cotización (o recibo, si ya se completó) para compartir con quien comparte el gasto
+    const handleShareDocument = async () => {
+        if (!lead) return;
+
+        try {
+            const bindingRevision = getBindingRevision(revisions);
+            const paymentMethod = user ? await PaymentPreferenceService.getPreferredPaymentMethod(user.id) : null;
+            await DocumentsService.share({
+                kind: lead.status === 'completed' ? 'receipt' : 'quote',
+                quote: bindingRevision
+                    ? revisionToServiceQuote(bindingRevision)
+                    : buildLeadInvoiceQuote({
+                        agreed_price: lead.agreed_price ?? null,
+                        price: lead.price ?? null,
+                        servicio_solicitado: lead.servicio_solicitado ?? null,
+                    }),
+                serviceName: lead.servicio_solicitado || lead.servicio || 'Servicio',
+                discipline: lead.servicio || lead.disciplina_ia,
+                folio: lead.id.slice(0, 8).toUpperCase(),
+                address: lead.ubicacion_direccion,
+                professional: lead.profiles
+                    ? {
+                        name: lead.profiles.full_name,
+                        profession: lead.profiles.profession,
+                        rating: lead.profiles.calificacion_promedio,
+                    }
+                    : null,
+                materials,
+                paymentMethod,
+            });
+        } catch (error) {
+            showError(error, { context: 'LeadDetail', fallbackMessage: 'No se pudo compartir el documento' });
+        }
+    };
+
+    // Acciones disponibles según la máquina de estados del lead
+    const { canEdit, canCancel, canComplete } = getLeadActions(lead);
 
     if (loading) {
         return (
@@ -324,6 +657,14 @@ export default function LeadDetailScreen() {
     const resolvedProfessionalId = lead.professional_id || lead.profesional_asignado_id;
     const hasProfessional = !!resolvedProfessionalId;
     const whatsappNumber = lead.profiles?.whatsapp || lead.profiles?.phone || lead.whatsapp;
+    const pendingQuotes = quotes.filter(quote => quote.status === 'pending');
+    const serviceLat = lead.ubicacion_lat != null ? parseFloat(String(lead.ubicacion_lat)) : NaN;
+    const serviceLng = lead.ubicacion_lng != null ? parseFloat(String(lead.ubicacion_lng)) : NaN;
+    const serviceLocation = Number.isFinite(serviceLat) && Number.isFinite(serviceLng)
+        ? { lat: serviceLat, lng: serviceLng }
+        : null;
+    const guaranteeWindow = getGuaranteeWindow(toGuaranteeLead(lead));
+    const openClaim = claims.find(isOpenClaim);
 
     // Debug logging
     console.log('[LeadDetail] Render check:', {
@@ -355,6 +696,26 @@ export default function LeadDetailScreen() {
                     </Text>
                 </View>
 
+                {pendingChanges.length > 0 && (
+                    <View
+                        style={[
+                            styles.pendingBanner,
+                            { backgroundColor: (hasFailedChanges ? theme.error : theme.warning) + '15' },
+                        ]}
+                    >
+                        <Ionicons
+                            name={hasFailedChanges ? 'alert-circle-outline' : 'time-outline'}
+                            size={18}
+                            color={hasFailedChanges ? theme.error : theme.warning}
+                        />
+                        <Text variant="caption" style={{ flex: 1, color: theme.text }}>
+                            {hasFailedChanges
+                                ? 'Algunos cambios no se pudieron guardar. Revisa tu solicitud e inténtalo de nuevo.'
+                                : 'Tienes cambios pendientes de enviar. Se sincronizarán al recuperar la conexión.'}
+                        </Text>
+                    </View>
+                )}
+
                 {/* Información del Servicio */}
                 <View style={styles.section}>
                     <Card variant="elevated" style={styles.card}>
@@ -362,9 +723,24 @@ export default function LeadDetailScreen() {
                             <Text variant="h2" weight="bold" style={styles.serviceTitle}>
                                 {lead.servicio_solicitado || lead.servicio || 'Servicio'}
                             </Text>
-                            {getStatusBadge(lead.status)}
+                            <LeadStatusBadge status={lead.status} />
                         </View>
 
+                        {/* Servicio de un proyecto con varios servicios */}
+                        {!!lead.project_id && (
+                            <TouchableOpacity
+                                style={[styles.projectLink, { backgroundColor: theme.primary + '12' }]}
+                                onPress={() => router.push(`/project/${lead.project_id}`)}
+                                activeOpacity={0.7}
+                            >
+                                <Ionicons name="albums-outline" size={18} color={theme.primary} />
+                                <Text variant="caption" weight="medium" color={theme.primary} style={{ flex: 1 }}>
+                                    Parte de un proyecto · ver todos los servicios
+                                </Text>
+                                <Ionicons name="chevron-forward" size={16} color={theme.primary} />
+                            </TouchableOpacity>
+                        )}
+
                         {lead.descripcion_proyecto && (
                             <View style={styles.descriptionContainer}>
                                 <Text variant="body" color={theme.textSecondary}>
@@ -386,6 +762,49 @@ export default function LeadDetailScreen() {
                     </Card>
                 </View>
 
+                {/* Versiones de la cotización (cambios de precio del profesional) */}
+                {revisions.length > 0 && (
+                    <View style={styles.section}>
+                        <Text variant="h3" weight="bold" style={styles.sectionTitle}>
+                            Cambios de Precio
+                        </Text>
+                        <QuoteRevisionCard
+                            revisions={revisions}
+                            currentPrice={lead.agreed_price ?? lead.price}
+                            onRespond={handleRespondToRevision}
+                        />
+                    </View>
+                )}
+
+                {/* Fecha de la cita y reprogramaciones */}
+                {user && resolvedProfessionalId && (lead.status === 'accepted' || lead.status === 'scheduled') && (
+                    <View style={styles.section}>
+                        <Text variant="h3" weight="bold" style={styles.sectionTitle}>
+                            Fecha de la cita
+                        </Text>
+                        <RescheduleSection
+                            reschedules={reschedules}
+                            userId={user.id}
+                            currentSlot={getLeadAppointmentSlot(lead)}
+                            onPropose={handleProposeReschedule}
+                            onRespond={handleRespondToReschedule}
+                        />
+                    </View>
+                )}
+
+                {/* Materiales propuestos por el profesional */}
+                {materials.length > 0 && (
+                    <View style={styles.section}>
+                        <Text variant="h3" weight="bold" style={styles.sectionTitle}>
+                            Materiales
+                        </Text>
+                        <LeadMaterialsSection
+                            materials={materials}
+                            onRespond={handleRespondToMaterials}
+                        />
+                    </View>
+                )}
+
                 {/* Información del Profesional - Componente de Vanguardia */}
                 {hasProfessional && resolvedProfessionalId ? (
                     <View style={styles.section}>
@@ -403,6 +822,18 @@ export default function LeadDetailScreen() {
                             );
                         })()}
                     </View>
+                ) : pendingQuotes.length > 0 ? (
+                    <View style={styles.section}>
+                        <Text variant="h3" weight="bold" style={styles.sectionTitle}>
+                            Cotizaciones ({pendingQuotes.length})
+                        </Text>
+                        <LeadQuotesComparison
+                            quotes={pendingQuotes}
+                            origin={serviceLocation}
+                            onAccept={handleAcceptQuote}
+                            acceptingId={acceptingQuoteId}
+                        />
+                    </View>
                 ) : (
                     <View style={styles.section}>
                         <Card variant="elevated" style={styles.card}>
@@ -557,6 +988,182 @@ export default function LeadDetailScreen() {
                     </View>
                 )}
 
+                {/* Cotización o recibo imprimible */}
+                {!!(lead.agreed_price || lead.price) && (
+                    <View style={styles.section}>
+                        <Button
+                            title={lead.status === 'completed' ? 'Compartir recibo' : 'Compartir cotización'}
+                            variant="outline"
+                            onPress={handleShareDocument}
+                        />
+                    </View>
+                )}
+
+                {/* Repetir el servicio completado cada N semanas o meses */}
+                {lead.status === 'completed' && (
+                    <View style={styles.section}>
+                        <Button
+                            title="Programar mantenimiento recurrente"
+                            variant="outline"
+                            icon={<Ionicons name="repeat" size={18} color={theme.primary} />}
+                            onPress={() => setIsPlanModalVisible(true)}
+                        />
+                    </View>
+                )}
+
+                {/* Factura (CFDI) del servicio completado */}
+                {lead.status === 'completed' && (
+                    <View style={styles.section}>
+                        <Text variant="h3" weight="bold" style={styles.sectionTitle}>
+                            Factura
+                        </Text>
+                        <Card variant="elevated" style={styles.card}>
+                            {invoice ? (
+                                <View style={styles.invoiceContent}>
+                                    <View style={styles.invoiceRow}>
+                                        <Ionicons name="receipt-outline" size={22} color={theme.primary} />
+                                        <View style={{ flex: 1 }}>
+                                            <Text variant="body" weight="medium">
+                                                {invoice.payload.Receptor.Nombre}
+                                            </Text>
+                                            <Text variant="caption" color={theme.textSecondary}>
+                                                {invoice.rfc} · {formatPrice(invoice.payload.Total)}
+                                            </Text>
+                                        </View>
+                                        <Text
+                                            variant="caption"
+                                            weight="bold"
+                                            color={invoice.status === 'failed' ? theme.error : invoice.status === 'stamped' ? theme.success : theme.warning}
+                                        >
+                                            {INVOICE_STATUS_LABELS[invoice.status]}
+                                        </Text>
+                                    </View>
+                                    {invoice.status === 'failed' && !!invoice.error_message && (
+                                        <Text variant="caption" color={theme.error}>
+                                            {invoice.error_message}
+                                        </Text>
+                                    )}
+                                    {invoice.status === 'stamped' && (
+                                        <View style={styles.invoiceActions}>
+                                            {!!invoice.pdf_url && (
+                                                <Button
+                                                    title="Ver PDF"
+                                                    size="sm"
+                                                    variant="outline"
+                                                    onPress={() => Linking.openURL(invoice.pdf_url!)}
+                                                />
+                                            )}
+                                            {!!invoice.xml_url && (
+                                                <Button
+                                                    title="Descargar XML"
+                                                    size="sm"
+                                                    variant="ghost"
+                                                    onPress={() => Linking.openURL(invoice.xml_url!)}
+                                                />
+                                            )}
+                                        </View>
+                                    )}
+                                </View>
+                            ) : (
+                                <View style={styles.emptyReviewContent}>
+                                    <Text variant="body" color={theme.textSecondary} style={{ textAlign: 'center', marginBottom: 12 }}>
+                                        ¿Necesitas factura? Solicítala con tus datos fiscales guardados.
+                                    </Text>
+                                    <Button
+                                        title="Solicitar factura"
+                                        onPress={handleRequestInvoice}
+                                        loading={requestingInvoice}
+                                        variant="outline"
+                                        style={styles.reviewButton}
+                                    />
+                                </View>
+                            )}
+                        </Card>
+                    </View>
+                )}
+
+                {/* Garantía del servicio completado y reclamos */}
+                {!!guaranteeWindow && (
+                    <View style={styles.section}>
+                        <Text variant="h3" weight="bold" style={styles.sectionTitle}>
+                            Garantía
+                        </Text>
+                        <Card variant="elevated" style={styles.card}>
+                            <View style={styles.invoiceContent}>
+                                <View style={styles.invoiceRow}>
+                                    <Ionicons
+                                        name={guaranteeWindow.active ? 'shield-checkmark-outline' : 'shield-outline'}
+                                        size={22}
+                                        color={guaranteeWindow.active ? theme.success : theme.textSecondary}
+                                    />
+                                    <View style={{ flex: 1 }}>
+                                        <Text variant="body" weight="medium">
+                                            {formatGuaranteeRemaining(guaranteeWindow)}
+                                        </Text>
+                                        <Text variant="caption" color={theme.textSecondary}>
+                                            {guaranteeWindow.days} días desde que se completó el servicio
+                                        </Text>
+                                    </View>
+                                </View>
+
+                                {claims.map(claim => (
+                                    <View key={claim.id} style={[styles.claimRow, { borderTopColor: theme.border }]}>
+                                        <View style={styles.invoiceRow}>
+                                            <Text variant="body" weight="medium" style={{ flex: 1 }}>
+                                                {GUARANTEE_PROBLEM_TYPES[claim.problem_type].label}
+                                            </Text>
+                                            <Text
+                                                variant="caption"
+                                                weight="bold"
+                                                color={claim.status === 'rejected' ? theme.error : isOpenClaim(claim) ? theme.warning : theme.success}
+                                            >
+                                                {GUARANTEE_CLAIM_STATUS_LABELS[claim.status]}
+                                            </Text>
+                                        </View>
+                                        <Text variant="caption" color={theme.textSecondary} numberOfLines={3}>
+                                            {claim.description}
+                                        </Text>
+                                        {claim.status === 'revisit_scheduled' && !!claim.revisit_date && (
+                                            <Text variant="caption" weight="medium">
+                                                Visita de corrección: {new Date(`${claim.revisit_date}T12:00:00`).toLocaleDateString('es-MX', { weekday: 'long', day: 'numeric', month: 'long' })}
+                                            </Text>
+                                        )}
+                                        {claim.status === 'refunded' && claim.refund_amount !== null && (
+                                            <Text variant="caption" weight="medium">
+                                                Reembolso: {formatPrice(claim.refund_amount)}
+                                            </Text>
+                                        )}
+                                        {!!claim.resolution_note && (
+                                            <Text variant="caption" color={theme.textSecondary}>
+                                                {claim.resolution_note}
+                                            </Text>
+                                        )}
+                                    </View>
+                                ))}
+
+                                {guaranteeWindow.active && !openClaim && (
+                                    <Button
+                                        title="Reportar un problema"
+                                        variant="outline"
+                                        icon={<Ionicons name="alert-circle-outline" size={18} color={theme.primary} />}
+                                        onPress={() => setIsClaimModalVisible(true)}
+                                    />
+                                )}
+                            </View>
+                        </Card>
+                    </View>
+                )}
+
+                {/* Historial del lead */}
+                {events.length > 0 && (
+                    <View style={styles.section}>
+                        <Text variant="h3" weight="bold" style={styles.sectionTitle}>
+                            Historial
+                        </Text>
+                        <LeadTimeline events={events} />
+                    </View>
+                )}
+
                 {/* Botones de Acción */}
                 {!!(canEdit || canCancel || canComplete) && (
                     <View style={styles.section}>
@@ -619,6 +1226,21 @@ export default function LeadDetailScreen() {
                         onClose={() => setIsCompleteModalVisible(false)}
                         onConfirm={handleCompleteLead}
                     />
+                    <ServicePlanModal
+                        visible={isPlanModalVisible}
+                        mode="create"
+                        serviceName={lead.servicio_solicitado || lead.servicio || undefined}
+                        onClose={() => setIsPlanModalVisible(false)}
+                        onSubmit={handleCreatePlan}
+                    />
+                    <GuaranteeClaimModal
+                        visible={isClaimModalVisible}
+                        leadId={lead.id}
+                        serviceName={lead.servicio_solicitado || lead.servicio || undefined}
+                        remainingLabel={guaranteeWindow ? formatGuaranteeRemaining(guaranteeWindow) : undefined}
+                        onClose={() => setIsClaimModalVisible(false)}
+                        onSubmit={handleSubmitClaim}
+                    />
                     <ReviewModal
                         visible={isReviewModalVisible}
                         leadId={lead.id}
@@ -641,6 +1263,15 @@ const styles = StyleSheet.create({
     container: {
         flex: 1,
     },
+    pendingBanner: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        marginHorizontal: 16,
+        marginTop: 12,
+        padding: 12,
+        borderRadius: 12,
+    },
     loadingContainer: {
         flex: 1,
         justifyContent: 'center',
@@ -681,6 +1312,14 @@ const styles = StyleSheet.create({
         alignItems: 'flex-start',
         marginBottom: 16,
     },
+    projectLink: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        padding: 10,
+        borderRadius: 10,
+        marginBottom: 16,
+    },
     serviceTitle: {
         flex: 1,
         marginRight: 12,
@@ -814,5 +1453,22 @@ const styles = StyleSheet.create({
     reviewButton: {
         width: '100%',
     },
+    invoiceContent: {
+        gap: 8,
+    },
+    invoiceRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+    },
+    claimRow: {
+        borderTopWidth: 1,
+        paddingTop: 12,
+        gap: 4,
+    },
+    invoiceActions: {
+        flexDirection: 'row',
+        gap: 8,
+    },
 });
 
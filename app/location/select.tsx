@@ -13,6 +13,7 @@ import { useRouter } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '@/contexts/AuthContext';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useToast } from '@/contexts/ToastContext';
 import { Text } from '@/components/Text';
 import { Button } from '@/components/Button';
 import { Card } from '@/components/Card';
@@ -21,6 +22,7 @@ import { LocationService, LocationData } from '@/services/location';
 export default function SelectLocationScreen() {
     const { theme } = useTheme();
     const { user } = useAuth();
+    const { showError, showSuccess, showWarning } = useToast();
     const router = useRouter();
 
     const [currentLocation, setCurrentLocation] = useState<LocationData | null>(null);
@@ -52,24 +54,20 @@ export default function SelectLocationScreen() {
             if (location) {
                 setCurrentLocation(location);
                 setSavedLocation(location);
-                Alert.alert(
-                    'Ubicación actualizada',
-                    'Tu ubicación se ha guardado correctamente.',
-                    [
-                        {
-                            text: 'OK',
-                            onPress: () => router.back(),
-                        },
-                    ]
-                );
+                showSuccess('Tu ubicación se ha guardado correctamente.', 'Ubicación actualizada');
+                router.back();
             } else {
-                Alert.alert(
-                    'Error',
-                    'No se pudo obtener tu ubicación. Verifica que tengas los permisos de ubicación activados.'
+                showWarning(
+                    'No se pudo obtener tu ubicación. Verifica que tengas los permisos de ubicación activados.',
+                    'Ubicación no disponible'
                 );
             }
-        } catch (error: any) {
-            Alert.alert('Error', error.message || 'No se pudo obtener la ubicación');
+        } catch (error) {
+            showError(error, {
+                context: 'SelectLocation',
+                fallbackMessage: 'No se pudo obtener la ubicación',
+                onRetry: handleGetCurrentLocation,
+            });
         } finally {
             setGettingLocation(false);
         }
@@ -9,7 +9,6 @@ import {
     StyleSheet,
     ActivityIndicator,
     TouchableOpacity,
-    Alert,
     Platform,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
@@ -17,6 +16,7 @@ import { StatusBar } from 'expo-status-bar';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useToast } from '@/contexts/ToastContext';
 import { Text } from '@/components/Text';
 import { Linking } from 'react-native';
 import { trackMarketplaceEvent } from '@/services/marketplace';
@@ -30,6 +30,7 @@ const MARKETPLACE_URL = 'https://tulbox.pro/en/marketplace';
 
 export default function MarketplaceScreen() {
     const { theme } = useTheme();
+    const { showError } = useToast();
     const router = useRouter();
     const params = useLocalSearchParams<{ category?: string; search?: string; productId?: string }>();
     const [loading, setLoading] = useState(true);
@@ -105,8 +106,7 @@ export default function MarketplaceScreen() {
         });
 
         Linking.openURL(marketplaceUrl).catch((err) => {
-            console.error('[Marketplace] Error opening in browser:', err);
-            Alert.alert('Error', 'No se pudo abrir el marketplace en el navegador');
+            showError(err, { context: 'Marketplace', fallbackMessage: 'No se pudo abrir el marketplace en el navegador' });
         });
     };
 
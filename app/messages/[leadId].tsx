@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import {
     View,
     StyleSheet,
@@ -9,6 +9,7 @@ import {
     TouchableOpacity,
     ActivityIndicator,
     Image,
+    Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { StatusBar } from 'expo-status-bar';
@@ -19,6 +20,8 @@ import { useTheme } from '@/contexts/ThemeContext';
 import { Text } from '@/components/Text';
 import { MessagesService, Message } from '@/services/messages';
 import { supabase } from '@/lib/supabase';
+import { outbox, OutboxItem } from '@/services/outbox';
+import { useOutboxItems } from '@/hooks/useOutbox';
 
 type LeadHeaderInfo = {
     servicio_solicitado?: string | null;
@@ -39,6 +42,20 @@ export default function ChatScreen() {
     const [leadInfo, setLeadInfo] = useState<LeadHeaderInfo | null>(null);
     const scrollViewRef = useRef<ScrollView>(null);
 
+    // Mensajes propios aún no enviados (sin conexión o fallidos)
+    const outboxItems = useOutboxItems(
+        useCallback((item: OutboxItem) => item.type === 'message.send' && item.payload?.lead_id === leadId, [leadId])
+    );
+    const pendingMessages = useMemo(
+        () => (leadId ? MessagesService.getPendingMessages(outboxItems, leadId) : []),
+        [outboxItems, leadId]
+    );
+    const visibleMessages = useMemo(() => {
+        const deliveredIds = new Set(messages.map(m => m.id));
+        return [...messages, ...pendingMessages.filter(m => !deliveredIds.has(m.id))];
+    }, [messages, pendingMessages]);
+    const pendingCountRef = useRef(0);
+
     const refreshMessages = useCallback(async () => {
         if (!leadId || !user) return;
         const data = await MessagesService.getMessages(leadId, user.id);
@@ -120,6 +137,22 @@ export default function ChatScreen() {
         return unsubscribe;
     }, [leadId, user, refreshMessages]);
 
+    // Cuando el outbox entrega mensajes pendientes, recargar desde el servidor
+    useEffect(() => {
+        if (pendingMessages.length < pendingCountRef.current) {
+            refreshMessages();
+        }
+        pendingCountRef.current = pendingMessages.length;
+    }, [pendingMessages.length, refreshMessages]);
+
+    const handleFailedMessagePress = (message: Message) => {
+        Alert.alert('Mensaje no enviado', 'No pudimos enviar este mensaje.', [
+            { text: 'Eliminar', style: 'destructive', onPress: () => outbox.discard(message.id) },
+            { text: 'Reintentar', onPress: () => outbox.retry(message.id) },
+            { text: 'Cancelar', style: 'cancel' },
+        ]);
+    };
+
     const handleSend = async () => {
         if (!inputText.trim() || !leadId || !user || sending) return;
 
@@ -128,8 +161,11 @@ export default function ChatScreen() {
         setSending(true);
 
         try {
-            await MessagesService.sendMessage(leadId, user.id, text);
-            await refreshMessages();
+            const sent = await MessagesService.sendMessage(leadId, user.id, text);
+            // Si quedó pendiente se muestra desde el outbox con el ícono de reloj
+            if (sent?.delivery_status !== 'pending') {
+                await refreshMessages();
+            }
         } catch (error) {
             console.error('[Chat] Error sending message:', error);
             setInputText(text);
@@ -197,8 +233,10 @@ export default function ChatScreen() {
                         }}
                         keyboardShouldPersistTaps="handled"
                     >
-                        {messages.map((message) => {
+                        {visibleMessages.map((message) => {
                             const isMe = message.sender_id === user.id;
+                            const isPending = message.delivery_status === 'pending';
+                            const isFailed = message.delivery_status === 'failed';
                             return (
                                 <View
                                     key={message.id}
@@ -207,12 +245,16 @@ export default function ChatScreen() {
                                         isMe ? styles.messageWrapperMe : styles.messageWrapperOther,
                                     ]}
                                 >
-                                    <View
+                                    <TouchableOpacity
+                                        disabled={!isFailed}
+                                        onPress={() => handleFailedMessagePress(message)}
+                                        activeOpacity={0.7}
                                         style={[
                                             styles.messageBubble,
                                             isMe
                                                 ? { backgroundColor: theme.primary }
                                                 : { backgroundColor: theme.surface },
+                                            (isPending || isFailed) && styles.messageBubbleUnsent,
                                         ]}
                                     >
                                         {!isMe && message.sender_name ? (
@@ -229,16 +271,29 @@ export default function ChatScreen() {
                                         >
                                             {message.content}
                                         </Text>
-                                        <Text
-                                            variant="caption"
-                                            style={[
-                                                styles.messageTime,
-                                                isMe ? { color: 'rgba(255,255,255,0.7)' } : { color: theme.textSecondary },
-                                            ]}
-                                        >
-                                            {formatTime(message.created_at)}
+                                        <View style={styles.messageMeta}>
+                                            <Text
+                                                variant="caption"
+                                                style={[
+                                                    styles.messageTime,
+                                                    isMe ? { color: 'rgba(255,255,255,0.7)' } : { color: theme.textSecondary },
+                                                ]}
+                                            >
+                                                {formatTime(message.created_at)}
+                                            </Text>
+                                            {isPending && (
+                                                <Ionicons name="time-outline" size={12} color="rgba(255,255,255,0.7)" />
+                                            )}
+                                            {isFailed && (
+                                                <Ionicons name="alert-circle" size={14} color="#FFFFFF" />
+                                            )}
+                                        </View>
+                                    </TouchableOpacity>
+                                    {isFailed && (
+                                        <Text variant="caption" style={[styles.failedHint, { color: theme.error }]}>
+                                            No enviado · Toca para reintentar
                                         </Text>
-                                    </View>
+                                    )}
                                 </View>
                             );
                         })}
@@ -345,6 +400,19 @@ const styles = StyleSheet.create({
         fontSize: 10,
         alignSelf: 'flex-end',
     },
+    messageMeta: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        alignSelf: 'flex-end',
+        gap: 4,
+    },
+    messageBubbleUnsent: {
+        opacity: 0.75,
+    },
+    failedHint: {
+        fontSize: 11,
+        marginTop: 4,
+    },
     inputContainer: {
         padding: 12,
         borderTopWidth: 1,
@@ -18,7 +18,6 @@ import {
     KeyboardAvoidingView,
     ScrollView,
     ActivityIndicator,
-    Alert,
     Text as RNText,
     ImageBackground,
     type ImageSourcePropType,
@@ -30,6 +29,7 @@ import * as SecureStore from 'expo-secure-store';
 import * as ExpoLinking from 'expo-linking';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
 import { supabase } from '@/lib/supabase';
 import { Text } from '@/components/Text';
 import {
@@ -137,6 +137,7 @@ export default function WelcomeScreen() {
     const insets = useSafeAreaInsets();
     const router = useRouter();
     const { user, reloadProfile, setHasSeenWelcome, isLoading: authLoading, signInWithEmail } = useAuth();
+    const { showInfo } = useToast();
     const listRef = useRef<FlatList<Slide>>(null);
 
     const [phase, setPhase] = useState<Phase>('slides');
@@ -256,7 +257,7 @@ export default function WelcomeScreen() {
                 setFormError(mapAuthMessage(error.message));
                 return;
             }
-            Alert.alert('Revisa tu correo', 'Si hay una cuenta asociada, recibirás un enlace para restablecer la contraseña.');
+            showInfo('Si hay una cuenta asociada, recibirás un enlace para restablecer la contraseña.', 'Revisa tu correo');
         } catch (err: any) {
             setFormError(mapAuthMessage(err?.message));
         }
@@ -87,7 +87,7 @@ export default function ProfessionalsScreen() {
         }
     }, [profile]);
 
-    const loadProfessionals = useCallback(async () => {
+    const loadProfessionals = useCallback(async (signal?: AbortSignal) => {
         try {
             setLoading(true);
             console.log('[ProfessionalsScreen] Loading professionals...', {
@@ -101,8 +101,10 @@ export default function ProfessionalsScreen() {
                 userLocation?.lng,
                 filters,
                 sortBy,
-                100 // Más resultados para la lista completa
+                100, // Más resultados para la lista completa
+                signal
             );
+            if (signal?.aborted) return;
 
             console.log(`[ProfessionalsScreen] ✅ Loaded ${data.length} professionals`);
             setProfessionals(data || []);
@@ -110,7 +112,9 @@ export default function ProfessionalsScreen() {
             console.error('[ProfessionalsScreen] ❌ Error loading professionals:', error);
             setProfessionals([]); // Asegurar que siempre hay un array
         } finally {
-            setLoading(false);
+            if (!signal?.aborted) {
+                setLoading(false);
+            }
         }
     }, [sortBy, filters, userLocation]);
 
@@ -120,8 +124,11 @@ export default function ProfessionalsScreen() {
     }, [loadUserLocation]);
 
     // Cargar profesionales
+    // Cancelar la consulta anterior si cambian filtros/orden o se desmonta la pantalla
     useEffect(() => {
-        loadProfessionals();
+        const controller = new AbortController();
+        loadProfessionals(controller.signal);
+        return () => controller.abort();
     }, [loadProfessionals]);
 
     const onRefresh = useCallback(async () => {
@@ -5,6 +5,9 @@ export default function ProfileLayout() {
         <Stack screenOptions={{ headerShown: false }}>
             <Stack.Screen name="edit" options={{ title: 'Editar Perfil' }} />
             <Stack.Screen name="addresses" options={{ title: 'Mis Direcciones' }} />
+            <Stack.Screen name="fiscal" options={{ title: 'Datos Fiscales' }} />
+            <Stack.Screen name="plans" options={{ title: 'Mantenimientos' }} />
+            <Stack.Screen name="guarantees" options={{ title: 'Mis garantías' }} />
         </Stack>
     );
 }
@@ -15,6 +15,7 @@ import { useRouter } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '@/contexts/AuthContext';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useToast } from '@/contexts/ToastContext';
 import { Text } from '@/components/Text';
 import { Button } from '@/components/Button';
 import { Card } from '@/components/Card';
@@ -27,6 +28,7 @@ import { supabase } from '@/lib/supabase';
 export default function AddressesScreen() {
     const { theme } = useTheme();
     const { user } = useAuth();
+    const { showError, showSuccess, showWarning, showInfo } = useToast();
     const router = useRouter();
 
     const [addresses, setAddresses] = useState<Address[]>([]);
@@ -105,9 +107,9 @@ export default function AddressesScreen() {
                         try {
                             await ProfileService.deleteAddress(addressId);
                             await loadAddresses();
-                            Alert.alert('Éxito', 'Dirección eliminada');
-                        } catch (error: any) {
-                            Alert.alert('Error', error.message || 'No se pudo eliminar la dirección');
+                            showSuccess('Dirección eliminada');
+                        } catch (error) {
+                            showError(error, { context: 'Addresses', fallbackMessage: 'No se pudo eliminar la dirección' });
                         }
                     },
                 },
@@ -121,8 +123,12 @@ export default function AddressesScreen() {
         try {
             await ProfileService.setDefaultAddress(user.id, addressId);
             await loadAddresses();
-        } catch (error: any) {
-            Alert.alert('Error', error.message || 'No se pudo establecer como predeterminada');
+        } catch (error) {
+            showError(error, {
+                context: 'Addresses',
+                fallbackMessage: 'No se pudo establecer como predeterminada',
+                onRetry: () => handleSetDefault(addressId),
+            });
         }
     };
 
@@ -130,31 +136,35 @@ export default function AddressesScreen() {
         if (!user) return;
 
         if (!formData.name || !formData.address) {
-            Alert.alert('Error', 'Completa al menos el nombre y la dirección');
+            showWarning('Completa al menos el nombre y la dirección');
             return;
         }
 
         try {
             if (editingAddress) {
                 await ProfileService.updateAddress(editingAddress.id!, formData);
-                Alert.alert('Éxito', 'Dirección actualizada');
+                showSuccess('Dirección actualizada');
             } else {
                 await ProfileService.createAddress({
                     user_id: user.id,
                     ...formData,
                 });
-                Alert.alert('Éxito', 'Dirección agregada');
+                showSuccess('Dirección agregada');
             }
             setShowAddForm(false);
             await loadAddresses();
-        } catch (error: any) {
-            Alert.alert('Error', error.message || 'No se pudo guardar la dirección');
+        } catch (error) {
+            showError(error, {
+                context: 'Addresses',
+                fallbackMessage: 'No se pudo guardar la dirección',
+                onRetry: handleSaveAddress,
+            });
         }
     };
 
     const handleSelectLocation = () => {
         // TODO: Implementar selector de ubicación con mapa
-        Alert.alert('Próximamente', 'El selector de ubicación con mapa estará disponible pronto');
+        showInfo('El selector de ubicación con mapa estará disponible pronto', 'Próximamente');
     };
 
     if (loading) {
@@ -16,6 +16,7 @@ import { useRouter } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '@/contexts/AuthContext';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useToast } from '@/contexts/ToastContext';
 import { Text } from '@/components/Text';
 import { Button } from '@/components/Button';
 import { Card } from '@/components/Card';
@@ -26,6 +27,7 @@ import { TULBOX_COLORS } from '@/constants/Colors';
 export default function EditProfileScreen() {
     const { theme } = useTheme();
     const { user, profile, reloadProfile } = useAuth();
+    const { showError, showSuccess, showWarning } = useToast();
     const router = useRouter();
 
     const [loading, setLoading] = useState(false);
@@ -57,7 +59,7 @@ export default function EditProfileScreen() {
             const ImagePicker = await import('expo-image-picker');
             const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
             if (status !== 'granted') {
-                Alert.alert('Permisos', 'Necesitamos acceso a tu galería para cambiar la foto');
+                showWarning('Necesitamos acceso a tu galería para cambiar la foto', 'Permisos');
                 return;
             }
 
@@ -71,8 +73,8 @@ export default function EditProfileScreen() {
             if (!result.canceled && result.assets[0]) {
                 setAvatarUri(result.assets[0].uri);
             }
-        } catch (error: any) {
-            Alert.alert('Error', error.message || 'No se pudo seleccionar la imagen');
+        } catch (error) {
+            showError(error, { context: 'EditProfile', fallbackMessage: 'No se pudo seleccionar la imagen' });
         }
     };
 
@@ -81,7 +83,7 @@ export default function EditProfileScreen() {
             const ImagePicker = await import('expo-image-picker');
             const { status } = await ImagePicker.requestCameraPermissionsAsync();
             if (status !== 'granted') {
-                Alert.alert('Permisos', 'Necesitamos acceso a tu cámara para tomar una foto');
+                showWarning('Necesitamos acceso a tu cámara para tomar una foto', 'Permisos');
                 return;
             }
 
@@ -94,14 +96,14 @@ export default function EditProfileScreen() {
             if (!result.canceled && result.assets[0]) {
                 setAvatarUri(result.assets[0].uri);
             }
-        } catch (error: any) {
-            Alert.alert('Error', error.message || 'No se pudo tomar la foto');
+        } catch (error) {
+            showError(error, { context: 'EditProfile', fallbackMessage: 'No se pudo tomar la foto' });
         }
     };
 
     const handleSave = async () => {
         if (!user) {
-            Alert.alert('Error', 'No hay usuario autenticado');
+            showWarning('Inicia sesión para editar tu perfil', 'Sesión requerida');
             return;
         }
 
@@ -147,9 +149,12 @@ export default function EditProfileScreen() {
 
             // Actualizar perfil con datos del formulario
             await saveProfileData(avatarUrl);
-        } catch (error: any) {
-            console.error('[EditProfile] Error saving profile:', error);
-            Alert.alert('Error', error.message || 'No se pudo actualizar el perfil');
+        } catch (error) {
+            showError(error, {
+                context: 'EditProfile',
+                fallbackMessage: 'No se pudo actualizar el perfil',
+                onRetry: handleSave,
+            });
         } finally {
             setLoading(false);
             setUploadingPhoto(false);
@@ -187,12 +192,8 @@ export default function EditProfileScreen() {
                 await reloadProfile();
             }
 
-            Alert.alert('¡Éxito!', 'Tu perfil ha sido actualizado', [
-                {
-                    text: 'OK',
-                    onPress: () => router.back(),
-                },
-            ]);
+            showSuccess('Tu perfil ha sido actualizado', '¡Éxito!');
+            router.back();
         } catch (error: any) {
             console.error('[EditProfile] Error in saveProfileData:', error);
             throw error;
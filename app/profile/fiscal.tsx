@@ -0,0 +1,315 @@
+import React, { useState, useEffect } from 'react';
+import {
+    View,
+    StyleSheet,
+    ScrollView,
+    TouchableOpacity,
+    ActivityIndicator,
+    KeyboardAvoidingView,
+    Platform,
+    TextInput,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { StatusBar } from 'expo-status-bar';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useToast } from '@/contexts/ToastContext';
+import { Text } from '@/components/Text';
+import { Button } from '@/components/Button';
+import { Card } from '@/components/Card';
+import { InvoicesService } from '@/services/invoices';
+import { FiscalProfileInput, REGIMENES_FISCALES, USOS_CFDI, CfdiCatalogEntry, getRfcPersonType } from '@/services/cfdi';
+import { normalizeRFC, validateRFC } from '@/services/validation';
+
+const EMPTY_FORM: FiscalProfileInput = {
+    rfc: '',
+    razon_social: '',
+    regimen_fiscal: '',
+    uso_cfdi: 'G03',
+    codigo_postal: '',
+    email: '',
+};
+
+export default function FiscalProfileScreen() {
+    const { theme } = useTheme();
+    const { user } = useAuth();
+    const { showError, showSuccess } = useToast();
+    const router = useRouter();
+
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [formData, setFormData] = useState<FiscalProfileInput>(EMPTY_FORM);
+
+    useEffect(() => {
+        loadFiscalProfile();
+    }, [user]);
+
+    const loadFiscalProfile = async () => {
+        if (!user) return;
+
+        try {
+            setLoading(true);
+            const profile = await InvoicesService.getFiscalProfile(user.id);
+            if (profile) {
+                setFormData({
+                    rfc: profile.rfc,
+                    razon_social: profile.razon_social,
+                    regimen_fiscal: profile.regimen_fiscal,
+                    uso_cfdi: profile.uso_cfdi,
+                    codigo_postal: profile.codigo_postal,
+                    email: profile.email || '',
+                });
+            }
+        } catch (error) {
+            showError(error, { context: 'FiscalProfile', fallbackMessage: 'No se pudieron cargar tus datos fiscales' });
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleSave = async () => {
+        if (!user) return;
+
+        setSaving(true);
+        try {
+            await InvoicesService.saveFiscalProfile(user.id, formData);
+            showSuccess('Usaremos estos datos para tus facturas', 'Datos fiscales guardados');
+            router.back();
+        } catch (error) {
+            showError(error, { context: 'FiscalProfile', fallbackMessage: 'No se pudieron guardar tus datos fiscales' });
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    // Régimen y uso de CFDI dependen del tipo de persona (RFC de 12 o 13 caracteres)
+    const rfc = normalizeRFC(formData.rfc);
+    const rfcValidation = rfc.length >= 12 ? validateRFC(rfc) : null;
+    const personType = rfcValidation?.valid ? getRfcPersonType(rfc) : null;
+    const regimenes = personType ? REGIMENES_FISCALES.filter(entry => entry.applies.includes(personType)) : REGIMENES_FISCALES;
+    const usos = personType ? USOS_CFDI.filter(entry => entry.applies.includes(personType)) : USOS_CFDI;
+
+    const renderInput = (
+        label: string,
+        field: 'rfc' | 'razon_social' | 'codigo_postal' | 'email',
+        icon: keyof typeof Ionicons.glyphMap,
+        props: Partial<React.ComponentProps<typeof TextInput>> = {}
+    ) => (
+        <View style={styles.inputContainer}>
+            <Text variant="label" weight="medium" style={styles.label}>
+                {label}
+            </Text>
+            <View style={[styles.inputWrapper, { borderColor: theme.border }]}>
+                <Ionicons name={icon} size={20} color={theme.textSecondary} style={styles.inputIcon} />
+                <TextInput
+                    style={[styles.input, { color: theme.text }]}
+                    placeholderTextColor={theme.textSecondary}
+                    value={formData[field] || ''}
+                    onChangeText={(text) => setFormData({ ...formData, [field]: text })}
+                    {...props}
+                />
+            </View>
+        </View>
+    );
+
+    const renderOptions = (
+        label: string,
+        options: CfdiCatalogEntry[],
+        selected: string,
+        onSelect: (code: string) => void
+    ) => (
+        <View style={styles.inputContainer}>
+            <Text variant="label" weight="medium" style={styles.label}>
+                {label}
+            </Text>
+            <View style={styles.options}>
+                {options.map(option => {
+                    const isSelected = option.code === selected;
+                    return (
+                        <TouchableOpacity
+                            key={option.code}
+                            style={[
+                                styles.option,
+                                { borderColor: isSelected ? theme.primary : theme.border },
+                                isSelected && { backgroundColor: theme.primary + '15' },
+                            ]}
+                            onPress={() => onSelect(option.code)}
+                            activeOpacity={0.7}
+                        >
+                            <Text variant="caption" weight="bold" color={isSelected ? theme.primary : theme.textSecondary}>
+                                {option.code}
+                            </Text>
+                            <Text variant="caption" color={isSelected ? theme.primary : theme.text} style={{ flex: 1 }}>
+                                {option.label}
+                            </Text>
+                        </TouchableOpacity>
+                    );
+                })}
+            </View>
+        </View>
+    );
+
+    return (
+        <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={['top']}>
+            <StatusBar style="dark" />
+            <KeyboardAvoidingView
+                behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+                style={styles.keyboardView}
+            >
+                <ScrollView showsVerticalScrollIndicator={false}>
+                    {/* Header */}
+                    <View style={[styles.header, { backgroundColor: theme.card }]}>
+                        <TouchableOpacity
+                            onPress={() => router.back()}
+                            style={styles.backButton}
+                            activeOpacity={0.7}
+                        >
+                            <Ionicons name="arrow-back" size={24} color={theme.text} />
+                        </TouchableOpacity>
+                        <Text variant="h2" weight="bold">
+                            Datos Fiscales
+                        </Text>
+                    </View>
+
+                    {loading ? (
+                        <View style={styles.loadingContainer}>
+                            <ActivityIndicator size="large" color={theme.primary} />
+                        </View>
+                    ) : (
+                        <View style={styles.formSection}>
+                            <Text variant="body" color={theme.textSecondary} style={styles.intro}>
+                                Captura los datos tal como aparecen en tu Constancia de Situación Fiscal.
+                            </Text>
+
+                            <Card variant="elevated" style={styles.formCard}>
+                                {renderInput('RFC', 'rfc', 'card-outline', {
+                                    placeholder: 'XAXX010101000',
+                                    autoCapitalize: 'characters',
+                                    maxLength: 13,
+                                })}
+                                {rfcValidation && (
+                                    <Text
+                                        variant="caption"
+                                        color={rfcValidation.valid ? theme.success : theme.error}
+                                        style={styles.rfcHint}
+                                    >
+                                        {rfcValidation.valid
+                                            ? `RFC válido · Persona ${personType === 'moral' ? 'moral' : 'física'}`
+                                            : rfcValidation.error?.message}
+                                    </Text>
+                                )}
+                                {renderInput('Nombre o Razón Social', 'razon_social', 'business-outline', {
+                                    placeholder: 'Sin régimen societario (p. ej. sin "S.A. de C.V.")',
+                                    autoCapitalize: 'characters',
+                                })}
+                                {renderInput('Código Postal Fiscal', 'codigo_postal', 'location-outline', {
+                                    placeholder: '06600',
+                                    keyboardType: 'number-pad',
+                                    maxLength: 5,
+                                })}
+                                {renderInput('Correo para Facturas', 'email', 'mail-outline', {
+                                    placeholder: 'facturas@empresa.com',
+                                    keyboardType: 'email-address',
+                                    autoCapitalize: 'none',
+                                })}
+                            </Card>
+
+                            <Card variant="elevated" style={styles.formCard}>
+                                {renderOptions('Régimen Fiscal', regimenes, formData.regimen_fiscal, (code) =>
+                                    setFormData({ ...formData, regimen_fiscal: code })
+                                )}
+                                {renderOptions('Uso de CFDI', usos, formData.uso_cfdi, (code) =>
+                                    setFormData({ ...formData, uso_cfdi: code })
+                                )}
+                            </Card>
+
+                            <Button
+                                title="Guardar Datos Fiscales"
+                                onPress={handleSave}
+                                loading={saving}
+                                style={styles.saveButton}
+                            />
+                        </View>
+                    )}
+
+                    <View style={{ height: 20 }} />
+                </ScrollView>
+            </KeyboardAvoidingView>
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+    },
+    keyboardView: {
+        flex: 1,
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        padding: 20,
+        borderBottomWidth: 1,
+        borderBottomColor: '#E2E8F0',
+    },
+    backButton: {
+        marginRight: 16,
+    },
+    loadingContainer: {
+        padding: 40,
+        alignItems: 'center',
+    },
+    formSection: {
+        padding: 20,
+        gap: 16,
+    },
+    intro: {
+        marginBottom: 4,
+    },
+    formCard: {
+        padding: 16,
+    },
+    inputContainer: {
+        marginBottom: 20,
+    },
+    label: {
+        marginBottom: 8,
+    },
+    inputWrapper: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        borderWidth: 1,
+        borderRadius: 12,
+        paddingHorizontal: 12,
+    },
+    inputIcon: {
+        marginRight: 8,
+    },
+    input: {
+        flex: 1,
+        height: 48,
+        fontSize: 16,
+    },
+    rfcHint: {
+        marginTop: -12,
+        marginBottom: 16,
+    },
+    options: {
+        gap: 8,
+    },
+    option: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 10,
+        paddingHorizontal: 12,
+        paddingVertical: 10,
+        borderRadius: 12,
+        borderWidth: 1.5,
+    },
+    saveButton: {
+        marginTop: 4,
+    },
+});
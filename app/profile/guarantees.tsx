@@ -0,0 +1,193 @@
+import React, { useState, useEffect } from 'react';
+import {
+    View,
+    StyleSheet,
+    ScrollView,
+    TouchableOpacity,
+    ActivityIndicator,
+    RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { StatusBar } from 'expo-status-bar';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useToast } from '@/contexts/ToastContext';
+import { Text } from '@/components/Text';
+import { Card } from '@/components/Card';
+import {
+    GUARANTEE_CLAIM_STATUS_LABELS,
+    GuaranteeService,
+    GuaranteedService,
+    formatGuaranteeRemaining,
+    isOpenClaim,
+} from '@/services/guarantees';
+
+export default function GuaranteesScreen() {
+    const { theme } = useTheme();
+    const { user } = useAuth();
+    const { showError } = useToast();
+    const router = useRouter();
+
+    const [services, setServices] = useState<GuaranteedService[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [refreshing, setRefreshing] = useState(false);
+
+    useEffect(() => {
+        loadServices();
+    }, [user]);
+
+    const loadServices = async () => {
+        if (!user) return;
+
+        try {
+            setServices(await GuaranteeService.getGuaranteedServices(user.id));
+        } catch (error) {
+            showError(error, { context: 'Guarantees', fallbackMessage: 'No se pudieron cargar tus garantías' });
+        } finally {
+            setLoading(false);
+            setRefreshing(false);
+        }
+    };
+
+    const renderService = ({ lead, window, latestClaim }: GuaranteedService) => (
+        <TouchableOpacity key={lead.id} onPress={() => router.push(`/lead/${lead.id}`)} activeOpacity={0.8}>
+            <Card variant="elevated" style={[styles.serviceCard, !window.active && { opacity: 0.7 }]}>
+                <View style={styles.serviceHeader}>
+                    <Text variant="body" weight="bold" style={{ flex: 1 }} numberOfLines={1}>
+                        {lead.servicio_solicitado || lead.servicio || 'Servicio'}
+                    </Text>
+                    <Ionicons name="chevron-forward" size={18} color={theme.textSecondary} />
+                </View>
+
+                <View style={[styles.windowRow, { backgroundColor: theme.surface }]}>
+                    <Ionicons
+                        name={window.active ? 'shield-checkmark-outline' : 'shield-outline'}
+                        size={18}
+                        color={window.active ? theme.success : theme.textSecondary}
+                    />
+                    <Text variant="body" style={{ flex: 1 }}>
+                        {formatGuaranteeRemaining(window)}
+                    </Text>
+                    <Text variant="caption" color={theme.textSecondary}>
+                        {window.days} días
+                    </Text>
+                </View>
+
+                {latestClaim && (
+                    <Text
+                        variant="caption"
+                        weight="medium"
+                        color={latestClaim.status === 'rejected' ? theme.error : isOpenClaim(latestClaim) ? theme.warning : theme.success}
+                        style={styles.claimStatus}
+                    >
+                        Reclamo: {GUARANTEE_CLAIM_STATUS_LABELS[latestClaim.status]}
+                    </Text>
+                )}
+            </Card>
+        </TouchableOpacity>
+    );
+
+    return (
+        <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={['top']}>
+            <StatusBar style="dark" />
+            <ScrollView
+                showsVerticalScrollIndicator={false}
+                refreshControl={<RefreshControl refreshing={refreshing} onRefresh={() => { setRefreshing(true); loadServices(); }} />}
+            >
+                {/* Header */}
+                <View style={[styles.header, { backgroundColor: theme.card }]}>
+                    <TouchableOpacity
+                        onPress={() => router.back()}
+                        style={styles.backButton}
+                        activeOpacity={0.7}
+                    >
+                        <Ionicons name="arrow-back" size={24} color={theme.text} />
+                    </TouchableOpacity>
+                    <Text variant="h2" weight="bold">
+                        Mis garantías
+                    </Text>
+                </View>
+
+                {loading ? (
+                    <View style={styles.loadingContainer}>
+                        <ActivityIndicator size="large" color={theme.primary} />
+                    </View>
+                ) : services.length === 0 ? (
+                    <View style={styles.emptyContainer}>
+                        <Ionicons name="shield-checkmark-outline" size={64} color={theme.textSecondary} />
+                        <Text variant="h3" weight="bold" style={styles.emptyTitle}>
+                            Sin servicios completados
+                        </Text>
+                        <Text variant="body" color={theme.textSecondary} style={styles.emptyText}>
+                            Cada servicio completado tiene una garantía de 30 a 90 días según el tipo de trabajo.
+                        </Text>
+                    </View>
+                ) : (
+                    <View style={styles.listSection}>
+                        {services.map(renderService)}
+                    </View>
+                )}
+
+                <View style={{ height: 20 }} />
+            </ScrollView>
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        padding: 20,
+        borderBottomWidth: 1,
+        borderBottomColor: '#E2E8F0',
+    },
+    backButton: {
+        marginRight: 16,
+    },
+    loadingContainer: {
+        padding: 40,
+        alignItems: 'center',
+    },
+    emptyContainer: {
+        alignItems: 'center',
+        padding: 40,
+    },
+    emptyTitle: {
+        marginTop: 16,
+        marginBottom: 8,
+        textAlign: 'center',
+    },
+    emptyText: {
+        textAlign: 'center',
+    },
+    listSection: {
+        padding: 20,
+        gap: 16,
+    },
+    serviceCard: {
+        padding: 16,
+        gap: 4,
+    },
+    serviceHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+    },
+    windowRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        padding: 12,
+        borderRadius: 12,
+        marginTop: 8,
+    },
+    claimStatus: {
+        marginTop: 8,
+    },
+});
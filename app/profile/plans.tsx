@@ -0,0 +1,306 @@
+import React, { useState, useEffect } from 'react';
+import {
+    View,
+    StyleSheet,
+    ScrollView,
+    TouchableOpacity,
+    ActivityIndicator,
+    RefreshControl,
+    Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { StatusBar } from 'expo-status-bar';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useToast } from '@/contexts/ToastContext';
+import { Text } from '@/components/Text';
+import { Card } from '@/components/Card';
+import { Button } from '@/components/Button';
+import { ServicePlanModal } from '@/components/ServicePlanModal';
+import { formatPrice } from '@/services/priceFormatter';
+import {
+    PLAN_STATUS_LABELS,
+    PlanFrequency,
+    ServicePlan,
+    ServicePlansService,
+    describePlanSchedule,
+    formatOccurrenceDate,
+} from '@/services/servicePlans';
+
+export default function ServicePlansScreen() {
+    const { theme } = useTheme();
+    const { user } = useAuth();
+    const { showError, showSuccess } = useToast();
+    const router = useRouter();
+
+    const [plans, setPlans] = useState<ServicePlan[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [refreshing, setRefreshing] = useState(false);
+    // Plan con una acción en curso
+    const [busyPlanId, setBusyPlanId] = useState<string | null>(null);
+    const [frequencyPlan, setFrequencyPlan] = useState<ServicePlan | null>(null);
+
+    useEffect(() => {
+        loadPlans();
+    }, [user]);
+
+    const loadPlans = async () => {
+        if (!user) return;
+
+        try {
+            await ServicePlansService.generateDueLeads(user.id);
+            setPlans(await ServicePlansService.getPlans(user.id));
+        } catch (error) {
+            showError(error, { context: 'ServicePlans', fallbackMessage: 'No se pudieron cargar tus planes' });
+        } finally {
+            setLoading(false);
+            setRefreshing(false);
+        }
+    };
+
+    const runAction = async (plan: ServicePlan, action: () => Promise<unknown>, successMessage: string, fallbackMessage: string) => {
+        setBusyPlanId(plan.id);
+        try {
+            await action();
+            showSuccess(successMessage);
+        } catch (error) {
+            showError(error, { context: 'ServicePlans', fallbackMessage });
+        } finally {
+            setBusyPlanId(null);
+        }
+        await loadPlans();
+    };
+
+    const handleSkip = (plan: ServicePlan) => {
+        if (!user) return;
+        runAction(
+            plan,
+            () => ServicePlansService.skipNextOccurrence(plan, user.id),
+            `Saltamos la visita del ${formatOccurrenceDate(plan.next_occurrence)}`,
+            'No se pudo saltar la visita'
+        );
+    };
+
+    const handleTogglePause = (plan: ServicePlan) => {
+        if (!user) return;
+        const paused = plan.status === 'paused';
+        runAction(
+            plan,
+            () => paused ? ServicePlansService.resumePlan(plan, user.id) : ServicePlansService.pausePlan(plan, user.id),
+            paused ? 'Reanudamos tu plan' : 'Pausamos tu plan; no se crearán nuevas visitas',
+            paused ? 'No se pudo reanudar el plan' : 'No se pudo pausar el plan'
+        );
+    };
+
+    const handleCancel = (plan: ServicePlan) => {
+        if (!user) return;
+        Alert.alert(
+            'Cancelar plan',
+            `¿Dejar de programar "${plan.service_name}"? Las visitas que ya tienen solicitud no se cancelan.`,
+            [
+                { text: 'No', style: 'cancel' },
+                {
+                    text: 'Cancelar plan',
+                    style: 'destructive',
+                    onPress: () => runAction(
+                        plan,
+                        () => ServicePlansService.cancelPlan(plan, user.id),
+                        'Cancelamos tu plan',
+                        'No se pudo cancelar el plan'
+                    ),
+                },
+            ]
+        );
+    };
+
+    const handleChangeFrequency = async (frequency: PlanFrequency) => {
+        if (!user || !frequencyPlan) return;
+        await ServicePlansService.changeFrequency(frequencyPlan, user.id, frequency);
+        showSuccess('Actualizamos la frecuencia de tu plan');
+        await loadPlans();
+    };
+
+    const renderPlan = (plan: ServicePlan) => {
+        const active = plan.status === 'active';
+        const busy = busyPlanId === plan.id;
+
+        return (
+            <Card key={plan.id} variant="elevated" style={styles.planCard}>
+                <View style={styles.planHeader}>
+                    <Text variant="body" weight="bold" style={{ flex: 1 }}>
+                        {plan.service_name}
+                    </Text>
+                    <Text variant="caption" weight="medium" color={active ? theme.success : theme.warning}>
+                        {PLAN_STATUS_LABELS[plan.status]}
+                    </Text>
+                </View>
+                <Text variant="caption" color={theme.textSecondary}>
+                    {describePlanSchedule(plan)}
+                </Text>
+                {!!plan.address && (
+                    <Text variant="caption" color={theme.textSecondary} numberOfLines={1}>
+                        {plan.address}
+                    </Text>
+                )}
+
+                <View style={[styles.nextRow, { backgroundColor: theme.surface }]}>
+                    <Ionicons name="calendar-outline" size={18} color={theme.primary} />
+                    <Text variant="body" style={{ flex: 1 }}>
+                        {active ? `Próxima visita: ${formatOccurrenceDate(plan.next_occurrence)}` : 'Sin visitas mientras esté en pausa'}
+                    </Text>
+                    {plan.price !== null && (
+                        <Text variant="caption" weight="medium">{formatPrice(plan.price)}</Text>
+                    )}
+                </View>
+
+                {busy ? (
+                    <ActivityIndicator color={theme.primary} style={styles.busy} />
+                ) : (
+                    <View style={styles.actions}>
+                        {active && (
+                            <Button title="Saltar próxima" size="sm" variant="outline" onPress={() => handleSkip(plan)} style={styles.actionButton} />
+                        )}
+                        <Button
+                            title={active ? 'Pausar' : 'Reanudar'}
+                            size="sm"
+                            variant="outline"
+                            onPress={() => handleTogglePause(plan)}
+                            style={styles.actionButton}
+                        />
+                        <Button title="Frecuencia" size="sm" variant="outline" onPress={() => setFrequencyPlan(plan)} style={styles.actionButton} />
+                        <TouchableOpacity onPress={() => handleCancel(plan)} activeOpacity={0.7} style={styles.cancelLink}>
+                            <Text variant="caption" weight="medium" color={theme.error}>Cancelar plan</Text>
+                        </TouchableOpacity>
+                    </View>
+                )}
+            </Card>
+        );
+    };
+
+    return (
+        <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={['top']}>
+            <StatusBar style="dark" />
+            <ScrollView
+                showsVerticalScrollIndicator={false}
+                refreshControl={<RefreshControl refreshing={refreshing} onRefresh={() => { setRefreshing(true); loadPlans(); }} />}
+            >
+                {/* Header */}
+                <View style={[styles.header, { backgroundColor: theme.card }]}>
+                    <TouchableOpacity
+                        onPress={() => router.back()}
+                        style={styles.backButton}
+                        activeOpacity={0.7}
+                    >
+                        <Ionicons name="arrow-back" size={24} color={theme.text} />
+                    </TouchableOpacity>
+                    <Text variant="h2" weight="bold">
+                        Mantenimientos
+                    </Text>
+                </View>
+
+                {loading ? (
+                    <View style={styles.loadingContainer}>
+                        <ActivityIndicator size="large" color={theme.primary} />
+                    </View>
+                ) : plans.length === 0 ? (
+                    <View style={styles.emptyContainer}>
+                        <Ionicons name="repeat" size={64} color={theme.textSecondary} />
+                        <Text variant="h3" weight="bold" style={styles.emptyTitle}>
+                            Sin mantenimientos programados
+                        </Text>
+                        <Text variant="body" color={theme.textSecondary} style={styles.emptyText}>
+                            Desde un servicio completado puedes programar que se repita cada semana o cada mes.
+                        </Text>
+                    </View>
+                ) : (
+                    <View style={styles.listSection}>
+                        {plans.map(renderPlan)}
+                    </View>
+                )}
+
+                <View style={{ height: 20 }} />
+            </ScrollView>
+
+            <ServicePlanModal
+                visible={!!frequencyPlan}
+                mode="frequency"
+                serviceName={frequencyPlan?.service_name}
+                initialFrequency={frequencyPlan?.frequency}
+                onClose={() => setFrequencyPlan(null)}
+                onSubmit={({ frequency }) => handleChangeFrequency(frequency)}
+            />
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        padding: 20,
+        borderBottomWidth: 1,
+        borderBottomColor: '#E2E8F0',
+    },
+    backButton: {
+        marginRight: 16,
+    },
+    loadingContainer: {
+        padding: 40,
+        alignItems: 'center',
+    },
+    emptyContainer: {
+        alignItems: 'center',
+        padding: 40,
+    },
+    emptyTitle: {
+        marginTop: 16,
+        marginBottom: 8,
+        textAlign: 'center',
+    },
+    emptyText: {
+        textAlign: 'center',
+    },
+    listSection: {
+        padding: 20,
+        gap: 16,
+    },
+    planCard: {
+        padding: 16,
+        gap: 4,
+    },
+    planHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+    },
+    nextRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        padding: 12,
+        borderRadius: 12,
+        marginTop: 8,
+    },
+    busy: {
+        marginTop: 12,
+    },
+    actions: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        alignItems: 'center',
+        gap: 8,
+        marginTop: 12,
+    },
+    actionButton: {
+        flexGrow: 1,
+    },
+    cancelLink: {
+        paddingVertical: 6,
+        paddingHorizontal: 4,
+    },
+});
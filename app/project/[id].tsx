@@ -0,0 +1,242 @@
+import React, { useCallback, useState } from 'react';
+import {
+    View,
+    StyleSheet,
+    ScrollView,
+    TouchableOpacity,
+    ActivityIndicator,
+    RefreshControl,
+    Image,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { StatusBar } from 'expo-status-bar';
+import { useFocusEffect, useLocalSearchParams, useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTheme } from '@/contexts/ThemeContext';
+import { Text } from '@/components/Text';
+import { Card } from '@/components/Card';
+import { ErrorBanner } from '@/components/ErrorBanner';
+import { LeadStatusBadge } from '@/components/LeadStatusBadge';
+import { AppError, reportError } from '@/services/errors';
+import { formatPrice } from '@/services/priceFormatter';
+import {
+    PROJECT_STATUS_LABELS,
+    Project,
+    ProjectsService,
+    getProjectBudget,
+    getProjectProgress,
+} from '@/services/projects';
+
+export default function ProjectDetailScreen() {
+    const { id } = useLocalSearchParams<{ id: string }>();
+    const { theme } = useTheme();
+    const { user } = useAuth();
+    const router = useRouter();
+
+    const [project, setProject] = useState<Project | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [refreshing, setRefreshing] = useState(false);
+    const [error, setError] = useState<AppError | null>(null);
+
+    // Al volver del detalle de un servicio su estado pudo cambiar
+    useFocusEffect(
+        useCallback(() => {
+            loadProject();
+        }, [id, user])
+    );
+
+    const loadProject = async () => {
+        if (!user || !id) return;
+
+        try {
+            setProject(await ProjectsService.getProject(id, user.id));
+            setError(null);
+        } catch (err) {
+            setError(reportError('ProjectDetail', err, 'No se pudo cargar el proyecto'));
+        } finally {
+            setLoading(false);
+            setRefreshing(false);
+        }
+    };
+
+    const budget = project ? getProjectBudget(project.leads) : null;
+    const progress = project ? getProjectProgress(project.leads) : null;
+
+    return (
+        <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={['top']}>
+            <StatusBar style="dark" />
+            <ScrollView
+                showsVerticalScrollIndicator={false}
+                refreshControl={<RefreshControl refreshing={refreshing} onRefresh={() => { setRefreshing(true); loadProject(); }} />}
+            >
+                {/* Header */}
+                <View style={[styles.header, { backgroundColor: theme.card }]}>
+                    <TouchableOpacity
+                        onPress={() => router.back()}
+                        style={styles.backButton}
+                        activeOpacity={0.7}
+                    >
+                        <Ionicons name="arrow-back" size={24} color={theme.text} />
+                    </TouchableOpacity>
+                    <Text variant="h2" weight="bold" style={{ flex: 1 }} numberOfLines={1}>
+                        {project?.title || 'Proyecto'}
+                    </Text>
+                </View>
+
+                {loading ? (
+                    <View style={styles.loadingContainer}>
+                        <ActivityIndicator size="large" color={theme.primary} />
+                    </View>
+                ) : !project || !budget || !progress ? (
+                    <View style={styles.content}>
+                        {error && <ErrorBanner error={error} onRetry={loadProject} />}
+                    </View>
+                ) : (
+                    <View style={styles.content}>
+                        {error && <ErrorBanner error={error} onDismiss={() => setError(null)} />}
+
+                        {/* Avance */}
+                        <Card variant="elevated" style={styles.card}>
+                            <View style={styles.row}>
+                                <Text variant="body" weight="bold" style={{ flex: 1 }}>
+                                    {PROJECT_STATUS_LABELS[progress.status]}
+                                </Text>
+                                <Text variant="caption" color={theme.textSecondary}>
+                                    {progress.completed} de {progress.total} servicios terminados
+                                </Text>
+                            </View>
+                            <View style={[styles.progressTrack, { backgroundColor: theme.surface }]}>
+                                <View style={[styles.progressFill, { backgroundColor: theme.success, width: `${progress.percent}%` }]} />
+                            </View>
+                            {!!project.address && (
+                                <View style={styles.row}>
+                                    <Ionicons name="location-outline" size={16} color={theme.textSecondary} />
+                                    <Text variant="caption" color={theme.textSecondary} style={{ flex: 1 }} numberOfLines={2}>
+                                        {project.address}
+                                    </Text>
+                                </View>
+                            )}
+                            <Text variant="body" color={theme.textSecondary}>
+                                {project.description}
+                            </Text>
+                            {project.photos.length > 0 && (
+                                <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.photosRow}>
+                                    {project.photos.map(url => (
+                                        <Image key={url} source={{ uri: url }} style={styles.photo} />
+                                    ))}
+                                </ScrollView>
+                            )}
+                        </Card>
+
+                        {/* Servicios */}
+                        <Text variant="h3" weight="bold">Servicios</Text>
+                        {budget.lines.map(line => (
+                            <TouchableOpacity
+                                key={line.leadId}
+                                onPress={() => router.push(`/lead/${line.leadId}`)}
+                                activeOpacity={0.8}
+                            >
+                                <Card variant="elevated" style={[styles.card, line.status === 'cancelled' && { opacity: 0.6 }]}>
+                                    <View style={styles.row}>
+                                        <Text variant="body" weight="bold" style={{ flex: 1 }} numberOfLines={1}>
+                                            {line.service}
+                                        </Text>
+                                        <Ionicons name="chevron-forward" size={18} color={theme.textSecondary} />
+                                    </View>
+                                    <View style={styles.row}>
+                                        <LeadStatusBadge status={line.status} />
+                                        <View style={{ flex: 1 }} />
+                                        <Text variant="caption" color={theme.textSecondary}>
+                                            {line.committed ? 'Acordado' : 'Cotizado'}
+                                        </Text>
+                                        <Text variant="body" weight="medium">{formatPrice(line.amount)}</Text>
+                                    </View>
+                                </Card>
+                            </TouchableOpacity>
+                        ))}
+
+                        {/* Presupuesto combinado */}
+                        <Card variant="elevated" style={styles.card}>
+                            <Text variant="body" weight="bold">Presupuesto del proyecto</Text>
+                            <View style={styles.row}>
+                                <Text variant="caption" color={theme.textSecondary} style={{ flex: 1 }}>Acordado con profesionales</Text>
+                                <Text variant="caption">{formatPrice(budget.committed)}</Text>
+                            </View>
+                            <View style={styles.row}>
+                                <Text variant="caption" color={theme.textSecondary} style={{ flex: 1 }}>Servicios terminados</Text>
+                                <Text variant="caption">{formatPrice(budget.completed)}</Text>
+                            </View>
+                            <View style={[styles.row, styles.totalRow, { borderTopColor: theme.border }]}>
+                                <Text variant="body" weight="bold" style={{ flex: 1 }}>Total (IVA incluido)</Text>
+                                <Text variant="body" weight="bold" color={theme.primary}>{formatPrice(budget.total)}</Text>
+                            </View>
+                            {progress.cancelled > 0 && (
+                                <Text variant="caption" color={theme.textSecondary}>
+                                    No incluye servicios cancelados
+                                </Text>
+                            )}
+                        </Card>
+                    </View>
+                )}
+
+                <View style={{ height: 20 }} />
+            </ScrollView>
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        padding: 20,
+        borderBottomWidth: 1,
+        borderBottomColor: '#E2E8F0',
+    },
+    backButton: {
+        marginRight: 16,
+    },
+    loadingContainer: {
+        padding: 40,
+        alignItems: 'center',
+    },
+    content: {
+        padding: 20,
+        gap: 16,
+    },
+    card: {
+        padding: 16,
+        gap: 8,
+    },
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+    },
+    progressTrack: {
+        height: 8,
+        borderRadius: 4,
+        overflow: 'hidden',
+    },
+    progressFill: {
+        height: '100%',
+        borderRadius: 4,
+    },
+    photosRow: {
+        gap: 8,
+    },
+    photo: {
+        width: 72,
+        height: 72,
+        borderRadius: 8,
+    },
+    totalRow: {
+        borderTopWidth: 1,
+        paddingTop: 8,
+        marginTop: 4,
+    },
+});
@@ -0,0 +1,10 @@
+import { Stack } from 'expo-router';
+
+export default function ProjectLayout() {
+    return (
+        <Stack screenOptions={{ headerShown: false }}>
+            <Stack.Screen name="new" options={{ title: 'Nuevo Proyecto' }} />
+            <Stack.Screen name="[id]" options={{ title: 'Proyecto' }} />
+        </Stack>
+    );
+}
@@ -0,0 +1,382 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+    View,
+    StyleSheet,
+    ScrollView,
+    TouchableOpacity,
+    TextInput,
+    ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { StatusBar } from 'expo-status-bar';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useToast } from '@/contexts/ToastContext';
+import { Text } from '@/components/Text';
+import { Card } from '@/components/Card';
+import { Button } from '@/components/Button';
+import { ErrorBanner } from '@/components/ErrorBanner';
+import { IntakeForm } from '@/components/IntakeForm';
+import { ProjectServicePickerModal } from '@/components/ProjectServicePickerModal';
+import { AppError, reportError } from '@/services/errors';
+import { IntakeAnswers, IntakeAnswerValue, IntakeFormSchema, getIntakeFormSchema, validateIntakeAnswers } from '@/services/intakeForms';
+import { formatPrice } from '@/services/priceFormatter';
+import { QuoteService } from '@/services/quotes';
+import { ServiceItem } from '@/services/services';
+import { SmartLocationService } from '@/services/SmartLocationService';
+import {
+    PROJECT_MAX_ITEMS,
+    PROJECT_MIN_ITEMS,
+    PROJECT_TITLE_MAX_LENGTH,
+    ProjectsService,
+    validateProjectInput,
+} from '@/services/projects';
+
+/** Fotos compartidas por todos los servicios del proyecto */
+const PROJECT_PHOTOS_SCHEMA: IntakeFormSchema = {
+    questions: [{ id: 'photos', label: 'Fotos del espacio (opcional)', type: 'photo', max_photos: 8 }],
+};
+
+interface ProjectLine {
+    service: ServiceItem;
+    schema: IntakeFormSchema;
+    answers: IntakeAnswers;
+    errors: Record<string, string>;
+}
+
+/** Total con IVA de un renglón con las respuestas capturadas (sin servicio inmediato ni descuentos) */
+function estimateLine(line: ProjectLine): number {
+    const { formData } = validateIntakeAnswers(line.schema, line.answers);
+    return QuoteService.calculatePrice(
+        line.service.min_price,
+        formData,
+        false,
+        { rules: line.service.pricing_rules, unit: line.service.unit }
+    ).total_with_tax;
+}
+
+export default function NewProjectScreen() {
+    const { theme } = useTheme();
+    const { user } = useAuth();
+    const { showSuccess } = useToast();
+    const router = useRouter();
+
+    const [title, setTitle] = useState('');
+    const [description, setDescription] = useState('');
+    const [sharedAnswers, setSharedAnswers] = useState<IntakeAnswers>({});
+    const [lines, setLines] = useState<ProjectLine[]>([]);
+    const [pickerVisible, setPickerVisible] = useState(false);
+    const [location, setLocation] = useState<{ lat: number; lng: number; address: string } | null>(null);
+    const [locationLoading, setLocationLoading] = useState(false);
+    const [submitting, setSubmitting] = useState(false);
+    const [error, setError] = useState<AppError | null>(null);
+
+    useEffect(() => {
+        loadLocation();
+    }, [user]);
+
+    const loadLocation = async () => {
+        if (!user) return;
+
+        setLocationLoading(true);
+        try {
+            const result = await SmartLocationService.getAndSaveLocation(user.id);
+            const address = result.address ||
+                await SmartLocationService.reverseGeocode(result.location.latitude, result.location.longitude) ||
+                SmartLocationService.formatLocation(result.location);
+            setLocation({ lat: result.location.latitude, lng: result.location.longitude, address });
+        } catch (err) {
+            console.error('[NewProject] Error getting location:', err);
+        } finally {
+            setLocationLoading(false);
+        }
+    };
+
+    const estimates = useMemo(() => lines.map(estimateLine), [lines]);
+    const estimatedTotal = estimates.reduce((total, amount) => total + amount, 0);
+
+    const handleAddService = (service: ServiceItem) => {
+        setPickerVisible(false);
+        setLines(prev => [...prev, { service, schema: getIntakeFormSchema(service), answers: {}, errors: {} }]);
+    };
+
+    const handleRemoveService = (serviceId: string) => {
+        setLines(prev => prev.filter(line => line.service.id !== serviceId));
+    };
+
+    const handleLineChange = (serviceId: string, questionId: string, value: IntakeAnswerValue | undefined) => {
+        setLines(prev => prev.map(line => {
+            if (line.service.id !== serviceId) return line;
+            const { [questionId]: _cleared, ...errors } = line.errors;
+            return { ...line, answers: { ...line.answers, [questionId]: value }, errors };
+        }));
+    };
+
+    const handleSubmit = async () => {
+        if (!user) return;
+        setError(null);
+
+        const items = lines.map(line => ({ serviceId: line.service.id, answers: line.answers }));
+        const validation = validateProjectInput({ title, description, items });
+        if (!validation.valid) {
+            setError(new AppError('validation', { code: validation.error!.code, userMessage: validation.error!.message }));
+            return;
+        }
+        if (!location) {
+            setError(new AppError('validation', { code: 'project.missing_location', userMessage: 'Necesitamos la dirección del proyecto' }));
+            return;
+        }
+
+        // Marcar los formularios incompletos antes de enviar
+        const checked = lines.map(line => ({ ...line, errors: validateIntakeAnswers(line.schema, line.answers).errors }));
+        if (checked.some(line => Object.keys(line.errors).length > 0)) {
+            setLines(checked);
+            setError(new AppError('validation', { code: 'project.invalid_item', userMessage: 'Completa los datos marcados de cada servicio' }));
+            return;
+        }
+
+        setSubmitting(true);
+        try {
+            const photos = Array.isArray(sharedAnswers.photos) ? sharedAnswers.photos as string[] : [];
+            const project = await ProjectsService.createProject({
+                clientId: user.id,
+                title,
+                description,
+                photos,
+                location,
+                items,
+            });
+            showSuccess(`Creamos tu proyecto con ${items.length} servicios`);
+            router.replace(`/project/${project.id}`);
+        } catch (err) {
+            setError(reportError('NewProject', err, 'No se pudo crear el proyecto. Intenta de nuevo.'));
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    return (
+        <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={['top']}>
+            <StatusBar style="dark" />
+            <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+                {/* Header */}
+                <View style={[styles.header, { backgroundColor: theme.card }]}>
+                    <TouchableOpacity
+                        onPress={() => router.back()}
+                        style={styles.backButton}
+                        activeOpacity={0.7}
+                    >
+                        <Ionicons name="arrow-back" size={24} color={theme.text} />
+                    </TouchableOpacity>
+                    <Text variant="h2" weight="bold">
+                        Nuevo proyecto
+                    </Text>
+                </View>
+
+                <View style={styles.content}>
+                    <Text variant="body" color={theme.textSecondary}>
+                        Agrupa varios servicios en la misma dirección, por ejemplo una remodelación con electricidad,
+                        plomería y pintura. Cada servicio recibe su propio profesional.
+                    </Text>
+
+                    {error && (
+                        <ErrorBanner error={error} onDismiss={() => setError(null)} />
+                    )}
+
+                    {/* Datos compartidos */}
+                    <Card variant="elevated" style={styles.card}>
+                        <Text variant="body" weight="medium" style={styles.label}>Nombre del proyecto</Text>
+                        <TextInput
+                            style={[styles.input, { backgroundColor: theme.background, color: theme.text, borderColor: theme.border }]}
+                            value={title}
+                            onChangeText={setTitle}
+                            placeholder="Remodelación de baño"
+                            placeholderTextColor={theme.textSecondary}
+                            maxLength={PROJECT_TITLE_MAX_LENGTH}
+                        />
+
+                        <Text variant="body" weight="medium" style={styles.label}>Descripción para todos los profesionales</Text>
+                        <TextInput
+                            style={[styles.textArea, { backgroundColor: theme.background, color: theme.text, borderColor: theme.border }]}
+                            value={description}
+                            onChangeText={setDescription}
+                            placeholder="Qué quieres lograr, medidas, materiales que ya tienes..."
+                            placeholderTextColor={theme.textSecondary}
+                            multiline
+                            numberOfLines={4}
+                            textAlignVertical="top"
+                        />
+
+                        <IntakeForm
+                            schema={PROJECT_PHOTOS_SCHEMA}
+                            answers={sharedAnswers}
+                            onChange={(questionId, value) => setSharedAnswers(prev => ({ ...prev, [questionId]: value }))}
+                            photoFolder={user ? `intake/${user.id}` : undefined}
+                        />
+
+                        <View style={[styles.locationRow, { backgroundColor: theme.surface }]}>
+                            <Ionicons name="location-outline" size={18} color={theme.primary} />
+                            {locationLoading ? (
+                                <ActivityIndicator size="small" color={theme.primary} style={{ flex: 1 }} />
+                            ) : (
+                                <Text variant="caption" style={{ flex: 1 }} numberOfLines={2}>
+                                    {location?.address || 'Sin ubicación'}
+                                </Text>
+                            )}
+                            <TouchableOpacity onPress={loadLocation} activeOpacity={0.7} disabled={locationLoading}>
+                                <Text variant="caption" weight="bold" color={theme.primary}>Actualizar</Text>
+                            </TouchableOpacity>
+                        </View>
+                    </Card>
+
+                    {/* Servicios */}
+                    <Text variant="h3" weight="bold">
+                        Servicios ({lines.length}/{PROJECT_MAX_ITEMS})
+                    </Text>
+                    {lines.length < PROJECT_MIN_ITEMS && (
+                        <Text variant="caption" color={theme.textSecondary}>
+                            Agrega al menos {PROJECT_MIN_ITEMS} servicios
+                        </Text>
+                    )}
+
+                    {lines.map((line, index) => (
+                        <Card key={line.service.id} variant="elevated" style={styles.card}>
+                            <View style={styles.lineHeader}>
+                                <Text variant="body" weight="bold" style={{ flex: 1 }}>
+                                    {line.service.service_name}
+                                </Text>
+                                <Text variant="caption" weight="medium">
+                                    {formatPrice(estimates[index])}
+                                </Text>
+                                <TouchableOpacity
+                                    onPress={() => handleRemoveService(line.service.id)}
+                                    hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                                    activeOpacity={0.7}
+                                    accessibilityLabel={`Quitar ${line.service.service_name}`}
+                                >
+                                    <Ionicons name="trash-outline" size={18} color={theme.error} />
+                                </TouchableOpacity>
+                            </View>
+                            <IntakeForm
+                                schema={line.schema}
+                                answers={line.answers}
+                                onChange={(questionId, value) => handleLineChange(line.service.id, questionId, value)}
+                                errors={line.errors}
+                                photoFolder={user ? `intake/${user.id}` : undefined}
+                            />
+                        </Card>
+                    ))}
+
+                    {lines.length < PROJECT_MAX_ITEMS && (
+                        <Button
+                            title="Agregar servicio"
+                            variant="outline"
+                            onPress={() => setPickerVisible(true)}
+                        />
+                    )}
+
+                    {/* Presupuesto combinado */}
+                    {lines.length > 0 && (
+                        <Card variant="elevated" style={styles.card}>
+                            <Text variant="body" weight="bold" style={styles.label}>Presupuesto estimado</Text>
+                            {lines.map((line, index) => (
+                                <View key={line.service.id} style={styles.budgetRow}>
+                                    <Text variant="caption" color={theme.textSecondary} style={{ flex: 1 }} numberOfLines={1}>
+                                        {line.service.service_name}
+                                    </Text>
+                                    <Text variant="caption">{formatPrice(estimates[index])}</Text>
+                                </View>
+                            ))}
+                            <View style={[styles.budgetRow, styles.budgetTotal, { borderTopColor: theme.border }]}>
+                                <Text variant="body" weight="bold" style={{ flex: 1 }}>Total (IVA incluido)</Text>
+                                <Text variant="body" weight="bold" color={theme.primary}>{formatPrice(estimatedTotal)}</Text>
+                            </View>
+                            <Text variant="caption" color={theme.textSecondary}>
+                                Cada profesional confirma su precio al aceptar el servicio.
+                            </Text>
+                        </Card>
+                    )}
+
+                    <Button
+                        title="Crear proyecto"
+                        onPress={handleSubmit}
+                        loading={submitting}
+                        disabled={submitting || lines.length < PROJECT_MIN_ITEMS}
+                        size="lg"
+                    />
+                </View>
+            </ScrollView>
+
+            <ProjectServicePickerModal
+                visible={pickerVisible}
+                selectedIds={lines.map(line => line.service.id)}
+                onClose={() => setPickerVisible(false)}
+                onSelect={handleAddService}
+            />
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        padding: 20,
+        borderBottomWidth: 1,
+        borderBottomColor: '#E2E8F0',
+    },
+    backButton: {
+        marginRight: 16,
+    },
+    content: {
+        padding: 20,
+        gap: 16,
+    },
+    card: {
+        padding: 16,
+        gap: 8,
+    },
+    label: {
+        marginTop: 4,
+    },
+    input: {
+        borderWidth: 1,
+        borderRadius: 12,
+        padding: 12,
+        fontSize: 16,
+    },
+    textArea: {
+        borderWidth: 1,
+        borderRadius: 12,
+        padding: 12,
+        fontSize: 16,
+        minHeight: 100,
+    },
+    locationRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        padding: 12,
+        borderRadius: 12,
+    },
+    lineHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+    },
+    budgetRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+    },
+    budgetTotal: {
+        borderTopWidth: 1,
+        paddingTop: 8,
+        marginTop: 4,
+    },
+});
@@ -4,7 +4,7 @@ import {
     StyleSheet,
     ScrollView,
     TouchableOpacity,
-    Alert,
+    TextInput,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { StatusBar } from 'expo-status-bar';
@@ -12,10 +12,15 @@ import { useRouter, useLocalSearchParams } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '@/contexts/AuthContext';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useToast } from '@/contexts/ToastContext';
+import { toAppError } from '@/services/errors';
 import { Text } from '@/components/Text';
 import { Button } from '@/components/Button';
 import { Card } from '@/components/Card';
 import { QuoteService, ServiceQuote } from '@/services/quotes';
+import { parsePricingRules } from '@/services/pricingRules';
+import { DiscountService } from '@/services/discounts';
+import { getIntakeFormSchema, summarizeIntakeAnswers } from '@/services/intakeForms';
 import { supabase } from '@/lib/supabase';
 import { SmartLocationService } from '@/services/SmartLocationService';
 import { SmartServiceRequestButton } from '@/components/SmartServiceRequestButton';
@@ -23,10 +28,14 @@ import { useServiceRequestValidation } from '@/hooks/useServiceRequestValidation
 import { PaymentPreferenceService, PaymentMethod } from '@/services/paymentPreferences';
 import { PaymentMethodSelector } from '@/components/PaymentMethodSelector';
 import { UniversalMap } from '@/components/UniversalMap';
+import { DocumentsService } from '@/services/documents';
+import { DIAGNOSTIC_DRAFT_KEY, getServiceDraftKey, requestDrafts } from '@/services/requestDrafts';
+import { useRequestDraftAutosave } from '@/hooks/useRequestDraft';
 
 export default function ServiceConfirmationScreen() {
     const { theme } = useTheme();
-    const { user } = useAuth();
+    const { user, profile } = useAuth();
+    const { showError, showSuccess } = useToast();
     const router = useRouter();
     const params = useLocalSearchParams<{
         serviceId: string;
@@ -42,9 +51,16 @@ export default function ServiceConfirmationScreen() {
     const [locationLoading, setLocationLoading] = useState(false);
     const [locationError, setLocationError] = useState<string | null>(null);
     const [locationInfo, setLocationInfo] = useState<{ address: string; source: string } | null>(null);
+    const [promoInput, setPromoInput] = useState('');
+    const [promoError, setPromoError] = useState<string | null>(null);
+    const [applyingPromo, setApplyingPromo] = useState(false);
+    // Método de pago y ubicación del borrador ya aplicados (el selector de pago espera a esto)
+    const [draftChecked, setDraftChecked] = useState(false);
+    const serviceId = Array.isArray(params.serviceId) ? params.serviceId[0] : params.serviceId;
 
     // Refs para evitar loops infinitos
     const quoteDataParsed = useRef(false);
+    const discountsLoaded = useRef(false);
     const serviceLoaded = useRef<string | null>(null);
 
     // Validación
@@ -55,13 +71,39 @@ export default function ServiceConfirmationScreen() {
         selectedDate: params.selectedDate,
     });
 
-    // Cargar ubicación al inicio
+    // Retomar el borrador al inicio; sin ubicación guardada, obtenerla
     useEffect(() => {
         if (user) {
-            initLocation();
+            restoreDraft();
         }
     }, [user]);
 
+    const restoreDraft = async () => {
+        if (!user) return;
+
+        const draft = serviceId ? await requestDrafts.get(user.id, getServiceDraftKey(serviceId)) : null;
+        if (draft?.payment_method) {
+            setPaymentMethod(draft.payment_method);
+        }
+        setDraftChecked(true);
+
+        const savedLocation = draft?.location;
+        if (!savedLocation) {
+            initLocation();
+            return;
+        }
+
+        setLocationInfo({ address: savedLocation.address, source: savedLocation.source });
+        setQuote(prev => prev && {
+            ...prev,
+            form_data: {
+                ...prev.form_data,
+                lat: savedLocation.lat.toString(),
+                lng: savedLocation.lng.toString(),
+            },
+        });
+    };
+
     const initLocation = async () => {
         if (!user) return;
 
@@ -115,6 +157,58 @@ export default function ServiceConfirmationScreen() {
         }
     }, [params.quoteData]);
 
+    // Recalcular al obtener la ubicación: los recargos por zona dependen de form_data.lat/lng
+    useEffect(() => {
+        if (!service || !quote?.form_data.lat || !quote?.form_data.lng) return;
+
+        const rules = parsePricingRules(service.pricing_rules);
+        if (!rules?.zone_surcharges?.length) return;
+
+        setQuote(prev => prev && QuoteService.reprice(prev, { rules, unit: service.unit ?? undefined }));
+    }, [service, quote?.form_data.lat, quote?.form_data.lng]);
+
+    // Descuentos automáticos (primer servicio, referidos, lealtad) una vez que hay cotización y servicio
+    useEffect(() => {
+        if (user && service && quote && !discountsLoaded.current) {
+            discountsLoaded.current = true;
+            loadDiscounts();
+        }
+    }, [user, service, quote]);
+
+    /**
+     * Pedir al servidor los descuentos elegibles y recalcular la cotización
+     * Sin código se conservan solo los descuentos automáticos
+     */
+    const loadDiscounts = async (promoCode?: string) => {
+        if (!user || !service || !quote) return;
+
+        setApplyingPromo(!!promoCode);
+        try {
+            const result = await DiscountService.getQuoteDiscounts({
+                clientId: user.id,
+                discipline: service.discipline,
+                subtotal: quote.subtotal,
+                promoCode,
+            });
+
+            setPromoError(result.promoError || null);
+            const promoApplied = !!promoCode && !result.promoError;
+            setQuote(prev => prev && QuoteService.reprice(prev, {
+                rules: parsePricingRules(service.pricing_rules),
+                unit: service.unit ?? undefined,
+                discounts: result.discounts,
+                promoCode: promoApplied ? promoCode!.trim().toUpperCase() : undefined,
+            }));
+            if (promoApplied) {
+                setPromoInput('');
+            }
+        } catch (error) {
+            showError(error, { context: 'Confirm' });
+        } finally {
+            setApplyingPromo(false);
+        }
+    };
+
     // Cargar servicio solo una vez cuando cambia serviceId
     useEffect(() => {
         const sid = Array.isArray(params.serviceId) ? params.serviceId[0] : params.serviceId;
@@ -161,6 +255,47 @@ export default function ServiceConfirmationScreen() {
         return fromParam || fromQuote;
     };
 
+    const { discard: discardDraft } = useRequestDraftAutosave(
+        user?.id,
+        quote && service && draftChecked ? {
+            key: getServiceDraftKey(service.id),
+            step: 'confirm',
+            service_id: service.id,
+            service_name: service.service_name,
+            form_data: quote.form_data,
+            immediate_service: quote.immediate_service_fee > 0,
+            selected_date: resolveAppointmentDateString() || null,
+            quote,
+            payment_method: paymentMethod === 'pending' ? null : paymentMethod,
+            location: locationInfo && quote.form_data.lat && quote.form_data.lng ? {
+                lat: parseFloat(quote.form_data.lat),
+                lng: parseFloat(quote.form_data.lng),
+                address: locationInfo.address,
+                source: locationInfo.source,
+            } : null,
+        } : null
+    );
+
+    // Compartir la cotización (p. ej. con quien paga) antes de confirmar
+    const handleShareQuote = async () => {
+        if (!quote || !service) return;
+
+        try {
+            await DocumentsService.share({
+                kind: 'quote',
+                quote,
+                serviceName: service.service_name,
+                discipline: service.discipline,
+                clientName: profile?.full_name,
+                address: locationInfo?.address,
+                appointmentDate: resolveAppointmentDateString() || null,
+                paymentMethod,
+            });
+        } catch (error) {
+            showError(error, { context: 'Confirm', fallbackMessage: 'No se pudo compartir la cotización' });
+        }
+    };
+
     const handleConfirm = async () => {
         if (!user || !quote || !service || !validation.canSubmit) {
             console.warn('[Confirm] No se puede confirmar:', {
@@ -279,49 +414,21 @@ export default function ServiceConfirmationScreen() {
                 servicio: result.lead.servicio_solicitado,
             });
 
-            Alert.alert(
-                '¡Solicitud Creada!',
-                `Tu solicitud ha sido enviada desde ${address}. Los profesionales recibirán una notificación.`,
-                [
-                    {
-                        text: 'OK',
-                        onPress: () => {
-                            router.replace('/(tabs)/projects');
-                        },
-                    },
-                ]
-            );
-        } catch (error: any) {
-            console.error('[Confirm] ❌ Error confirming service:', {
-                message: error.message,
-                details: error.details,
-                hint: error.hint,
-                code: error.code,
-                fullError: error,
-            });
-
-            // Mensaje de error más descriptivo
-            let errorMessage = 'No se pudo crear la solicitud';
-            if (error.message) {
-                errorMessage = error.message;
-                // Traducir errores comunes de PostgreSQL
-                if (error.code === '22007') {
-                    errorMessage = 'Error en el formato de fecha. Por favor intenta de nuevo.';
-                } else if (error.code === '23502') {
-                    errorMessage = 'Faltan campos requeridos. Por favor completa todos los datos.';
-                } else if (error.code === '23505') {
-                    errorMessage = 'Ya existe una solicitud similar. Por favor verifica tus solicitudes.';
-                } else if (error.code === '42501') {
-                    errorMessage = 'No tienes permisos para crear esta solicitud.';
-                }
-            }
+            // La solicitud ya existe: su borrador y el del diagnóstico que la originó sobran
+            await Promise.all([
+                discardDraft(getServiceDraftKey(service.id)),
+                requestDrafts.discard(user.id, DIAGNOSTIC_DRAFT_KEY),
+            ]);
 
-            setLocationError(errorMessage);
-            Alert.alert(
-                'Error al crear solicitud',
-                errorMessage,
-                [{ text: 'OK' }]
+            showSuccess(
+                `Tu solicitud ha sido enviada desde ${address}. Los profesionales recibirán una notificación.`,
+                '¡Solicitud Creada!'
             );
+            router.replace('/(tabs)/projects');
+        } catch (error) {
+            const appError = toAppError(error, 'No se pudo crear la solicitud');
+            setLocationError(appError.userMessage);
+            showError(appError, { context: 'Confirm', onRetry: handleConfirm });
         } finally {
             setLoading(false);
             setLocationLoading(false);
@@ -365,11 +472,16 @@ export default function ServiceConfirmationScreen() {
                         <Text variant="body" weight="bold" style={styles.serviceName}>
                             {service.service_name}
                         </Text>
-                        {quote.form_data.service_type && (
-                            <Text variant="caption" color={theme.textSecondary}>
-                                Tipo: {quote.form_data.service_type}
-                            </Text>
-                        )}
+                        {summarizeIntakeAnswers(getIntakeFormSchema(service), quote.form_data).map((item) => (
+                            <View key={item.id} style={styles.summaryRow}>
+                                <Text variant="caption" color={theme.textSecondary} style={styles.summaryLabel}>
+                                    {item.label}
+                                </Text>
+                                <Text variant="caption" weight="medium">
+                                    {item.value}
+                                </Text>
+                            </View>
+                        ))}
                     </Card>
                 </View>
 
@@ -385,42 +497,14 @@ export default function ServiceConfirmationScreen() {
                                 SERVICIO
                             </Text>
                         </View>
-                        <View style={styles.paymentRow}>
-                            <Text variant="body">Precio Base</Text>
-                            <Text variant="body" weight="bold">
-                                ${quote.base_price.toFixed(2)}
-                            </Text>
-                        </View>
-                        {quote.immediate_service_fee > 0 && (
-                            <View style={styles.paymentRow}>
-                                <Text variant="body">Servicio Inmediato</Text>
+                        {QuoteService.getBreakdown(quote).map((line) => (
+                            <View key={line.id} style={styles.paymentRow}>
+                                <Text variant="body">{line.label}</Text>
                                 <Text variant="body" weight="bold">
-                                    ${quote.immediate_service_fee.toFixed(2)}
+                                    {line.amount < 0 ? '-' : ''}${Math.abs(line.amount).toFixed(2)}
                                 </Text>
                             </View>
-                        )}
-
-                        {/* Adicionales */}
-                        {quote.additional_services.filter(s => s.selected).length > 0 && (
-                            <>
-                                <View style={[styles.divider, { backgroundColor: theme.border }]} />
-                                <View style={styles.paymentRow}>
-                                    <Text variant="label" color={theme.textSecondary}>
-                                        ADICIONAL
-                                    </Text>
-                                </View>
-                                {quote.additional_services
-                                    .filter(s => s.selected)
-                                    .map((service) => (
-                                        <View key={service.id} style={styles.paymentRow}>
-                                            <Text variant="body">{service.name}</Text>
-                                            <Text variant="body" weight="bold">
-                                                ${service.price.toFixed(2)}
-                                            </Text>
-                                        </View>
-                                    ))}
-                            </>
-                        )}
+                        ))}
 
                         <View style={[styles.divider, { backgroundColor: theme.border }]} />
 
@@ -433,7 +517,6 @@ export default function ServiceConfirmationScreen() {
                                 ${quote.total.toFixed(2)}
                             </Text>
                         </View>
-                        {/* Descuentos eliminados - precio transparente */}
                         <View style={[styles.totalRow, { borderTopColor: theme.border }]}>
                             <Text variant="h3" weight="bold">
                                 Total más IVA
@@ -445,9 +528,57 @@ export default function ServiceConfirmationScreen() {
                     </Card>
                 </View>
 
+                {/* Código promocional */}
+                <View style={styles.section}>
+                    <Card variant="elevated" style={styles.paymentCard}>
+                        <Text variant="label" color={theme.textSecondary} style={styles.promoTitle}>
+                            CÓDIGO PROMOCIONAL
+                        </Text>
+                        {quote.promo_code ? (
+                            <View style={styles.paymentRow}>
+                                <Text variant="body" weight="medium" color={theme.success}>
+                                    {quote.promo_code} aplicado
+                                </Text>
+                                <TouchableOpacity onPress={() => loadDiscounts()} activeOpacity={0.7}>
+                                    <Text variant="body" color={theme.textSecondary}>
+                                        Quitar
+                                    </Text>
+                                </TouchableOpacity>
+                            </View>
+                        ) : (
+                            <View style={styles.promoRow}>
+                                <TextInput
+                                    style={[styles.promoInput, { color: theme.text, borderColor: promoError ? theme.error : theme.border }]}
+                                    value={promoInput}
+                                    onChangeText={(text) => {
+                                        setPromoInput(text);
+                                        setPromoError(null);
+                                    }}
+                                    placeholder="Ingresa tu código"
+                                    placeholderTextColor={theme.textSecondary}
+                                    autoCapitalize="characters"
+                                    autoCorrect={false}
+                                />
+                                <Button
+                                    title="Aplicar"
+                                    variant="outline"
+                                    onPress={() => loadDiscounts(promoInput)}
+                                    loading={applyingPromo}
+                                    disabled={!promoInput.trim() || applyingPromo}
+                                />
+                            </View>
+                        )}
+                        {promoError && (
+                            <Text variant="caption" color={theme.error} style={styles.promoError}>
+                                {promoError}
+                            </Text>
+                        )}
+                    </Card>
+                </View>
+
                 {/* Método de Pago - Componente Reutilizable */}
                 <View style={styles.section}>
-                    {quote && (
+                    {quote && draftChecked && (
                         <PaymentMethodSelector
                             servicePrice={quote.total_with_tax}
                             isUrgent={quote.immediate_service_fee > 0}
@@ -496,6 +627,12 @@ export default function ServiceConfirmationScreen() {
 
                 {/* Botón Confirmar */}
                 <View style={styles.confirmSection}>
+                    <Button
+                        title="Compartir cotización"
+                        variant="outline"
+                        onPress={handleShareQuote}
+                        style={styles.shareButton}
+                    />
                     <SmartServiceRequestButton
                         validation={validation}
                         loading={loading || locationLoading}
@@ -541,6 +678,34 @@ const styles = StyleSheet.create({
     serviceName: {
         marginBottom: 4,
     },
+    promoTitle: {
+        marginBottom: 12,
+    },
+    promoRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+    },
+    promoInput: {
+        flex: 1,
+        borderWidth: 1.5,
+        borderRadius: 12,
+        paddingHorizontal: 16,
+        paddingVertical: 10,
+        fontSize: 16,
+    },
+    promoError: {
+        marginTop: 8,
+    },
+    summaryRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        gap: 12,
+        marginTop: 4,
+    },
+    summaryLabel: {
+        flex: 1,
+    },
     paymentCard: {
         marginBottom: 8,
     },
@@ -607,6 +772,9 @@ const styles = StyleSheet.create({
         padding: 20,
         paddingBottom: 40,
     },
+    shareButton: {
+        marginBottom: 12,
+    },
     confirmButton: {
         marginTop: 8,
     },
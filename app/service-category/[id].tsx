@@ -15,7 +15,7 @@ import { Text } from '@/components/Text';
 import { Card } from '@/components/Card';
 import { Badge } from '@/components/Badge';
 import { CategoryService } from '@/services/categories';
-import { ServiceItem } from '@/services/services';
+import { ServiceItem, toServiceItem } from '@/services/services';
 import { TULBOX_COLORS } from '@/constants/Colors';
 
 export default function ServiceCategoryScreen() {
@@ -41,7 +41,7 @@ export default function ServiceCategoryScreen() {
 
             // Obtener servicios de la categoría
             const servicesData = await CategoryService.getServicesByDiscipline(id);
-            setServices(servicesData);
+            setServices(servicesData.map(toServiceItem));
         } catch (error) {
             console.error('[ServiceCategory] Error loading:', error);
         } finally {
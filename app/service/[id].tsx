@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
     View,
     StyleSheet,
@@ -7,7 +7,6 @@ import {
     KeyboardAvoidingView,
     Platform,
     ActivityIndicator,
-    Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { StatusBar } from 'expo-status-bar';
@@ -15,32 +14,31 @@ import { useRouter, useLocalSearchParams } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '@/contexts/AuthContext';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useToast } from '@/contexts/ToastContext';
 import { Text } from '@/components/Text';
 import { Button } from '@/components/Button';
 import { Card } from '@/components/Card';
 import { Badge } from '@/components/Badge';
 import { QuoteService, ServiceQuote, ServiceQuoteFormData } from '@/services/quotes';
+import { resolvePricingRules } from '@/services/pricingRules';
+import { getIntakeFormSchema, validateIntakeAnswers } from '@/services/intakeForms';
+import { AppError, isAbortError } from '@/services/errors';
 import { CategoryService } from '@/services/categories';
-import { supabase } from '@/lib/supabase';
+import { ServiceCatalogRepository } from '@/services/repositories/serviceCatalog';
+import { ServiceItem, toServiceItem } from '@/services/services';
+import { PriceEstimate, PriceEstimateService, describePriceEstimate } from '@/services/priceEstimates';
+import { QuantityCalculation, setQuantityCalculation } from '@/services/quantityCalculators';
 import { TULBOX_COLORS } from '@/constants/Colors';
 import { useServiceRequestValidation } from '@/hooks/useServiceRequestValidation';
+import { useRequestDraftAutosave } from '@/hooks/useRequestDraft';
+import { RequestDraft, formatDraftAge, getServiceDraftKey, requestDrafts } from '@/services/requestDrafts';
 import { SmartServiceRequestButton } from '@/components/SmartServiceRequestButton';
-
-interface ServiceCatalogItem {
-    id: string;
-    discipline: string;
-    service_name: string;
-    price_type: 'fixed' | 'range' | 'starting_at';
-    min_price: number;
-    max_price: number | null;
-    unit: string;
-    includes_materials: boolean;
-    description: string | null;
-}
+import { IntakeForm } from '@/components/IntakeForm';
 
 export default function ServiceDetailScreen() {
     const { theme } = useTheme();
-    const { user } = useAuth();
+    const { user, profile } = useAuth();
+    const { showError } = useToast();
     const router = useRouter();
     const { id, aiDetected, preFilled } = useLocalSearchParams<{ 
         id: string; 
@@ -48,7 +46,7 @@ export default function ServiceDetailScreen() {
         preFilled?: string;
     }>();
     
-    const [service, setService] = useState<ServiceCatalogItem | null>(null);
+    const [service, setService] = useState<ServiceItem | null>(null);
     const [loading, setLoading] = useState(true);
     const [formData, setFormData] = useState<ServiceQuoteFormData>({});
     const [aiPreFilled, setAiPreFilled] = useState<any>(null);
@@ -56,6 +54,25 @@ export default function ServiceDetailScreen() {
     const [quote, setQuote] = useState<ServiceQuote | null>(null);
     const [currentStep, setCurrentStep] = useState<'form' | 'quote' | 'schedule'>('form');
     const [selectedDate, setSelectedDate] = useState<string | undefined>(undefined);
+    const [intakeErrors, setIntakeErrors] = useState<Record<string, string>>({});
+    const [priceEstimate, setPriceEstimate] = useState<PriceEstimate | null>(null);
+    // Borrador retomado; hasta revisar si existe no se autoguarda para no pisarlo
+    const [resumedDraft, setResumedDraft] = useState<RequestDraft | null>(null);
+    const [draftChecked, setDraftChecked] = useState(false);
+    const intakeSchema = useMemo(() => getIntakeFormSchema(service), [service]);
+
+    const { discard: discardDraft } = useRequestDraftAutosave(
+        user?.id,
+        service && draftChecked ? {
+            key: getServiceDraftKey(service.id),
+            step: currentStep,
+            service_id: service.id,
+            service_name: service.service_name,
+            form_data: formData,
+            immediate_service: immediateService,
+            selected_date: selectedDate ?? null,
+        } : null
+    );
 
     // Validación en tiempo real
     const validation = useServiceRequestValidation({
@@ -104,17 +121,68 @@ export default function ServiceDetailScreen() {
         }
     }, [formData, immediateService, service]);
 
+    // Retomar la solicitud que el cliente dejó a medias (salvo que venga del diagnóstico con IA)
+    useEffect(() => {
+        if (!service || !user || draftChecked) return;
+
+        if (aiDetected === 'true') {
+            setDraftChecked(true);
+            return;
+        }
+
+        requestDrafts.get(user.id, getServiceDraftKey(service.id))
+            .then(draft => {
+                if (!draft) return;
+                setFormData(draft.form_data);
+                setImmediateService(!!draft.immediate_service);
+                setSelectedDate(draft.selected_date || undefined);
+                setCurrentStep(draft.step === 'form' || draft.step === 'quote' ? draft.step : 'schedule');
+                setResumedDraft(draft);
+            })
+            .finally(() => setDraftChecked(true));
+    }, [service, user]);
+
+    const handleStartOver = async () => {
+        if (!service) return;
+        await discardDraft(getServiceDraftKey(service.id));
+        setResumedDraft(null);
+        setFormData({});
+        setImmediateService(false);
+        setSelectedDate(undefined);
+        setIntakeErrors({});
+        setCurrentStep('form');
+    };
+
+    // Rango de lo que pagaron otros clientes (solo servicios sin precio fijo)
+    useEffect(() => {
+        if (!service || service.price_type === 'fixed') {
+            setPriceEstimate(null);
+            return;
+        }
+
+        const controller = new AbortController();
+        const location = profile?.ubicacion_lat != null && profile?.ubicacion_lng != null
+            ? { lat: profile.ubicacion_lat, lng: profile.ubicacion_lng }
+            : null;
+        PriceEstimateService.getEstimate(service, location, controller.signal)
+            .then(setPriceEstimate)
+            .catch(error => {
+                if (!isAbortError(error)) {
+                    console.warn('[ServiceDetail] Price estimate unavailable:', error?.message || error);
+                }
+            });
+
+        return () => controller.abort();
+    }, [service, profile?.ubicacion_lat, profile?.ubicacion_lng]);
+
     const loadService = async () => {
         try {
-            const { data, error } = await supabase
-                .from('service_catalog')
-                .select('*')
+            const { data, error } = await ServiceCatalogRepository.queryActive()
                 .eq('id', id)
-                .eq('is_active', true)
                 .single();
 
             if (error) throw error;
-            setService(data);
+            setService(toServiceItem(data));
         } catch (error) {
             console.error('[ServiceDetail] Error loading service:', error);
         } finally {
@@ -125,10 +193,13 @@ export default function ServiceDetailScreen() {
     const calculateQuote = () => {
         if (!service) return;
 
+        // Respuestas normalizadas (números, preguntas ocultas descartadas) para las reglas de precio
+        const { formData: answers } = validateIntakeAnswers(intakeSchema, formData);
         const calculatedQuote = QuoteService.calculatePrice(
             service.min_price,
-            formData,
-            immediateService
+            answers,
+            immediateService,
+            { rules: service.pricing_rules, unit: service.unit }
         );
         setQuote(calculatedQuote);
     };
@@ -138,10 +209,32 @@ export default function ServiceDetailScreen() {
             ...prev,
             [field]: value,
         }));
+        setIntakeErrors(prev => {
+            if (!prev[field]) return prev;
+            const { [field]: _removed, ...rest } = prev;
+            return rest;
+        });
+    };
+
+    const handleCalculationChange = (field: string, calculation: QuantityCalculation | null) => {
+        setFormData(prev => ({
+            ...prev,
+            calculations: setQuantityCalculation(prev, field, calculation),
+        }));
     };
 
     const handleContinue = () => {
         if (currentStep === 'form') {
+            const result = validateIntakeAnswers(intakeSchema, formData);
+            setIntakeErrors(result.errors);
+            if (!result.valid) {
+                showError(new AppError('validation', {
+                    code: 'intake.invalid_answers',
+                    userMessage: 'Revisa las respuestas marcadas antes de continuar',
+                }));
+                return;
+            }
+            setFormData(result.formData);
             setCurrentStep('quote');
         } else if (currentStep === 'quote') {
             setCurrentStep('schedule');
@@ -207,8 +300,11 @@ export default function ServiceDetailScreen() {
                 },
             });
         } catch (error) {
-            console.error('[ServiceDetail] Error requesting service:', error);
-            Alert.alert('Error', 'No se pudo procesar la solicitud. Por favor intenta de nuevo.');
+            showError(error, {
+                context: 'ServiceDetail',
+                fallbackMessage: 'No se pudo procesar la solicitud. Por favor intenta de nuevo.',
+                onRetry: handleRequestService,
+            });
         }
     };
 
@@ -275,9 +371,36 @@ export default function ServiceDetailScreen() {
                                     <Badge variant="fixed-price" label="Precio Fijo" />
                                 )}
                             </View>
+                            {priceEstimate && (
+                                <View style={styles.priceEstimate}>
+                                    <Ionicons
+                                        name={priceEstimate.source === 'history' ? 'people-outline' : 'pricetag-outline'}
+                                        size={14}
+                                        color={theme.textSecondary}
+                                    />
+                                    <Text variant="caption" color={theme.textSecondary}>
+                                        {describePriceEstimate(priceEstimate)}
+                                    </Text>
+                                </View>
+                            )}
                         </View>
                     </View>
 
+                    {/* Solicitud retomada */}
+                    {resumedDraft && (
+                        <View style={[styles.draftBanner, { backgroundColor: theme.primary + '12', borderColor: theme.primary + '40' }]}>
+                            <Ionicons name="document-text-outline" size={20} color={theme.primary} />
+                            <Text variant="caption" style={styles.draftBannerText}>
+                                Retomamos tu solicitud guardada {formatDraftAge(resumedDraft.updated_at)}
+                            </Text>
+                            <TouchableOpacity onPress={handleStartOver} activeOpacity={0.7}>
+                                <Text variant="caption" weight="bold" color={theme.primary}>
+                                    Empezar de nuevo
+                                </Text>
+                            </TouchableOpacity>
+                        </View>
+                    )}
+
                     {/* Formulario Dinámico (Similar a AORA) */}
                     {currentStep === 'form' && (
                         <View style={styles.formSection}>
@@ -285,39 +408,15 @@ export default function ServiceDetailScreen() {
                                 ¿Qué necesitas?
                             </Text>
 
-                            {/* Tipo de Servicio */}
-                            <Card variant="elevated" style={styles.formCard}>
-                                <Text variant="label" weight="medium" style={styles.fieldLabel}>
-                                    Tipo de servicio
-                                </Text>
-                                <View style={styles.optionsRow}>
-                                    {['Instalar', 'Mantenimiento', 'Reparar'].map((option) => (
-                                        <TouchableOpacity
-                                            key={option}
-                                            style={[
-                                                styles.optionButton,
-                                                formData.service_type === option && {
-                                                    backgroundColor: theme.primary,
-                                                    borderColor: theme.primary,
-                                                },
-                                                { borderColor: theme.border },
-                                            ]}
-                                            onPress={() => handleFormChange('service_type', option)}
-                                            activeOpacity={0.7}
-                                        >
-                                            <Text
-                                                variant="body"
-                                                weight="medium"
-                                                style={[
-                                                    formData.service_type === option && { color: '#FFFFFF' },
-                                                ]}
-                                            >
-                                                {option}
-                                            </Text>
-                                        </TouchableOpacity>
-                                    ))}
-                                </View>
-                            </Card>
+                            {/* Preguntas del servicio (service_catalog.form_schema) */}
+                            <IntakeForm
+                                schema={intakeSchema}
+                                answers={formData}
+                                onChange={handleFormChange}
+                                onCalculationChange={handleCalculationChange}
+                                errors={intakeErrors}
+                                photoFolder={user ? `intake/${user.id}` : undefined}
+                            />
 
                             {/* Servicio Inmediato */}
                             <Card variant="elevated" style={styles.formCard}>
@@ -378,7 +477,7 @@ export default function ServiceDetailScreen() {
                                                 immediateService && { color: '#FFFFFF' },
                                             ]}
                                         >
-                                            Inmediato (+$100)
+                                            Inmediato (+${resolvePricingRules(service.pricing_rules).urgency_fee ?? 0})
                                         </Text>
                                     </TouchableOpacity>
                                 </View>
@@ -392,77 +491,6 @@ export default function ServiceDetailScreen() {
                                 )}
                             </Card>
 
-                            {/* Preguntas específicas según el servicio */}
-                            {service.discipline === 'aire-acondicionado' && (
-                                <>
-                                    <Card variant="elevated" style={styles.formCard}>
-                                        <Text variant="label" weight="medium" style={styles.fieldLabel}>
-                                            ¿Necesitas que desinstalemos el A/C actual?
-                                        </Text>
-                                        <View style={styles.optionsRow}>
-                                            {['Sí', 'No'].map((option) => (
-                                                <TouchableOpacity
-                                                    key={option}
-                                                    style={[
-                                                        styles.optionButton,
-                                                        formData.needs_uninstall === (option === 'Sí') && {
-                                                            backgroundColor: theme.primary,
-                                                            borderColor: theme.primary,
-                                                        },
-                                                        { borderColor: theme.border },
-                                                    ]}
-                                                    onPress={() => handleFormChange('needs_uninstall', option === 'Sí')}
-                                                    activeOpacity={0.7}
-                                                >
-                                                    <Text
-                                                        variant="body"
-                                                        weight="medium"
-                                                        style={[
-                                                            formData.needs_uninstall === (option === 'Sí') && { color: '#FFFFFF' },
-                                                        ]}
-                                                    >
-                                                        {option}
-                                                    </Text>
-                                                </TouchableOpacity>
-                                            ))}
-                                        </View>
-                                    </Card>
-
-                                    <Card variant="elevated" style={styles.formCard}>
-                                        <Text variant="label" weight="medium" style={styles.fieldLabel}>
-                                            ¿Cuántos A/C necesitas instalar?
-                                        </Text>
-                                        <View style={styles.optionsRow}>
-                                            {[1, 2, 3, 4, '5+'].map((num) => (
-                                                <TouchableOpacity
-                                                    key={num}
-                                                    style={[
-                                                        styles.optionButton,
-                                                        formData.quantity === num && {
-                                                            backgroundColor: theme.primary,
-                                                            borderColor: theme.primary,
-                                                        },
-                                                        { borderColor: theme.border },
-                                                    ]}
-                                                    onPress={() => handleFormChange('quantity', num)}
-                                                    activeOpacity={0.7}
-                                                >
-                                                    <Text
-                                                        variant="body"
-                                                        weight="medium"
-                                                        style={[
-                                                            formData.quantity === num && { color: '#FFFFFF' },
-                                                        ]}
-                                                    >
-                                                        {num}
-                                                    </Text>
-                                                </TouchableOpacity>
-                                            ))}
-                                        </View>
-                                    </Card>
-                                </>
-                            )}
-
                             {/* Botón Continuar */}
                             <Button
                                 title="Continuar"
@@ -480,47 +508,17 @@ export default function ServiceDetailScreen() {
                             </Text>
 
                             <Card variant="elevated" style={styles.quoteCard}>
-                                {/* Servicio */}
-                                <View style={styles.quoteRow}>
-                                    <Text variant="label" color={theme.textSecondary}>
-                                        Precio Base
-                                    </Text>
-                                    <Text variant="body" weight="bold">
-                                        ${quote.base_price.toFixed(2)}
-                                    </Text>
-                                </View>
-
-                                {quote.immediate_service_fee > 0 && (
-                                    <View style={styles.quoteRow}>
+                                {/* Desglose generado por las reglas de precio del servicio */}
+                                {QuoteService.getBreakdown(quote).map((line) => (
+                                    <View key={line.id} style={styles.quoteRow}>
                                         <Text variant="label" color={theme.textSecondary}>
-                                            Servicio Inmediato
+                                            {line.label}
                                         </Text>
                                         <Text variant="body" weight="bold">
-                                            ${quote.immediate_service_fee.toFixed(2)}
+                                            {line.amount < 0 ? '-' : ''}${Math.abs(line.amount).toFixed(2)}
                                         </Text>
                                     </View>
-                                )}
-
-                                {quote.additional_services.filter(s => s.selected).length > 0 && (
-                                    <>
-                                        <View style={[styles.divider, { backgroundColor: theme.border }]} />
-                                        <Text variant="label" weight="bold" style={styles.subsectionTitle}>
-                                            Adicionales
-                                        </Text>
-                                        {quote.additional_services
-                                            .filter(s => s.selected)
-                                            .map((service) => (
-                                                <View key={service.id} style={styles.quoteRow}>
-                                                    <Text variant="label" color={theme.textSecondary}>
-                                                        {service.name}
-                                                    </Text>
-                                                    <Text variant="body" weight="bold">
-                                                        ${service.price.toFixed(2)}
-                                                    </Text>
-                                                </View>
-                                            ))}
-                                    </>
-                                )}
+                                ))}
 
                                 <View style={[styles.divider, { backgroundColor: theme.border }]} />
 
@@ -538,7 +536,7 @@ export default function ServiceDetailScreen() {
 
                                 <View style={styles.totalRow}>
                                     <Text variant="body" color={theme.textSecondary}>
-                                        Total + IVA (16%)
+                                        Total + IVA ({Math.round(quote.tax_rate * 100)}%)
                                     </Text>
                                     <Text variant="h2" weight="bold" color={theme.primary}>
                                         ${quote.total_with_tax.toFixed(2)}
@@ -686,6 +684,26 @@ const styles = StyleSheet.create({
         alignItems: 'center',
         gap: 8,
     },
+    priceEstimate: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        marginTop: 6,
+        paddingHorizontal: 16,
+    },
+    draftBanner: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        marginHorizontal: 20,
+        marginTop: 16,
+        padding: 12,
+        borderRadius: 12,
+        borderWidth: 1,
+    },
+    draftBannerText: {
+        flex: 1,
+    },
     formSection: {
         padding: 20,
     },
@@ -734,9 +752,6 @@ const styles = StyleSheet.create({
         height: 1,
         marginVertical: 12,
     },
-    subsectionTitle: {
-        marginBottom: 8,
-    },
     totalRow: {
         flexDirection: 'row',
         justifyContent: 'space-between',
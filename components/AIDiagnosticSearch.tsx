@@ -1,4 +1,4 @@
-import React, { useCallback, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
     View,
     TextInput,
@@ -11,11 +11,14 @@ import { Ionicons } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useAuth } from '@/contexts/AuthContext';
 import { Text } from '@/components/Text';
 import { Skeleton } from '@/components/Skeleton';
 import { hapticFeedback } from '@/utils/haptics';
 import { openWhatsApp } from '@/utils/whatsapp';
 import { TULBOX_CONFIG } from '@/constants/Config';
+import { useRequestDraftAutosave } from '@/hooks/useRequestDraft';
+import { DIAGNOSTIC_DRAFT_KEY, requestDrafts } from '@/services/requestDrafts';
 import {
     analyzeProblemWithAI,
     AIDiagnosticResult,
@@ -46,10 +49,36 @@ function urgencyColors(
 export function AIDiagnosticSearch() {
     const { theme } = useTheme();
     const router = useRouter();
+    const { user } = useAuth();
     const [text, setText] = useState('');
     const [isLoading, setIsLoading] = useState(false);
     const [result, setResult] = useState<AIDiagnosticResult | null>(null);
     const [error, setError] = useState<string | null>(null);
+    // Solo se guarda lo que el cliente cambió (restaurar el borrador no lo vuelve a guardar)
+    const [dirty, setDirty] = useState(false);
+
+    const { discard: discardDraft } = useRequestDraftAutosave(
+        user?.id,
+        dirty ? {
+            key: DIAGNOSTIC_DRAFT_KEY,
+            step: 'diagnostic',
+            service_id: null,
+            service_name: result ? categoriaToDisplayLabel(result.categoria_profesional) : null,
+            form_data: {},
+            diagnostic: { text, result },
+        } : null
+    );
+
+    // Retomar el diagnóstico que quedó a medias
+    useEffect(() => {
+        if (!user) return;
+        setDirty(false);
+        requestDrafts.get(user.id, DIAGNOSTIC_DRAFT_KEY).then(draft => {
+            if (!draft?.diagnostic) return;
+            setText(draft.diagnostic.text);
+            setResult(draft.diagnostic.result);
+        });
+    }, [user?.id]);
 
     const runAnalysis = useCallback(async () => {
         const q = text.trim();
@@ -64,6 +93,7 @@ export function AIDiagnosticSearch() {
         try {
             const data = await analyzeProblemWithAI(q);
             setResult(data);
+            setDirty(true);
             hapticFeedback.success();
         } catch (e: unknown) {
             const msg = e instanceof Error ? e.message : 'No pudimos analizar tu mensaje. Intenta de nuevo.';
@@ -129,6 +159,10 @@ export function AIDiagnosticSearch() {
                         setText(v);
                         setResult(null);
                         setError(null);
+                        setDirty(true);
+                        if (!v.trim()) {
+                            discardDraft(DIAGNOSTIC_DRAFT_KEY);
+                        }
                     }}
                     multiline
                     textAlignVertical="top"
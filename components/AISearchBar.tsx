@@ -3,9 +3,11 @@ import { View, TextInput, StyleSheet, TouchableOpacity, ActivityIndicator } from
 import { Ionicons } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useAuth } from '@/contexts/AuthContext';
 import { Text } from './Text';
 import { GeminiIcon } from './GeminiIcon';
 import { AISearchService, AISearchResult } from '@/services/aiSearch';
+import { describePriceEstimate } from '@/services/priceEstimates';
 import { findServiceByMapping } from '@/services/serviceMapping';
 import { MLTrackingService } from '@/services/ml/tracking';
 import { supabase } from '@/lib/supabase';
@@ -26,6 +28,7 @@ export function AISearchBar({
     minLength = 15,
 }: AISearchBarProps) {
     const { theme } = useTheme();
+    const { profile } = useAuth();
     const router = useRouter();
     const [query, setQuery] = useState('');
     const [analyzing, setAnalyzing] = useState(false);
@@ -54,7 +57,11 @@ export function AISearchBar({
 
         setAnalyzing(true);
         try {
-            const result = await AISearchService.analyzeProblem(problemDescription);
+            // Ubicación guardada del cliente para estimar con precios de su zona
+            const location = profile?.ubicacion_lat != null && profile?.ubicacion_lng != null
+                ? { lat: profile.ubicacion_lat, lng: profile.ubicacion_lng }
+                : null;
+            const result = await AISearchService.analyzeProblem(problemDescription, location);
             setAiResult(result);
             
             // 🆕 TRACKING: Guardar interacción ML
@@ -85,7 +92,7 @@ export function AISearchBar({
         } finally {
             setAnalyzing(false);
         }
-    }, [onServiceDetected, minLength]);
+    }, [onServiceDetected, minLength, profile?.ubicacion_lat, profile?.ubicacion_lng]);
 
     const handleManualAnalyze = () => {
         if (query.trim().length >= minLength) {
@@ -236,7 +243,11 @@ export function AISearchBar({
                     <Text variant="caption" color={theme.textSecondary} style={styles.reasoning}>
                         {aiResult.reasoning}
                     </Text>
-                    {aiResult.pre_filled_data.precio_estimado && (
+                    {aiResult.pre_filled_data.estimacion_precio ? (
+                        <Text variant="caption" color={theme.primary} weight="medium" style={styles.priceEstimate}>
+                            💰 {describePriceEstimate(aiResult.pre_filled_data.estimacion_precio)}
+                        </Text>
+                    ) : aiResult.pre_filled_data.precio_estimado && (
                         <Text variant="caption" color={theme.primary} weight="medium" style={styles.priceEstimate}>
                             💰 Precio estimado: ${aiResult.pre_filled_data.precio_estimado.min} - ${aiResult.pre_filled_data.precio_estimado.max} MXN
                         </Text>
@@ -1,11 +1,10 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
     View,
     StyleSheet,
     Modal,
     TouchableOpacity,
     ActivityIndicator,
-    Alert,
     TextInput,
     KeyboardAvoidingView,
     Platform,
@@ -16,46 +15,105 @@ import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '@/contexts/ThemeContext';
 import { Text } from '@/components/Text';
 import { Button } from '@/components/Button';
+import { ErrorBanner } from '@/components/ErrorBanner';
+import { AppError, fromValidation, reportError } from '@/services/errors';
+import { formatPrice } from '@/services/priceFormatter';
+import {
+    CANCELLATION_REASONS,
+    CLIENT_CANCELLATION_REASONS,
+    CancellableLead,
+    CancellationPolicy,
+    CancellationPolicyService,
+    CancellationReasonCode,
+    DEFAULT_CANCELLATION_POLICY,
+    calculateCancellationFee,
+    validateCancellationReason,
+} from '@/services/cancellations';
 
 interface CancelLeadModalProps {
     visible: boolean;
-    lead: {
+    lead: CancellableLead & {
         id: string;
         servicio_solicitado?: string | null;
+        servicio?: string | null;
+        disciplina_ia?: string | null;
         professional_id?: string | null;
         profesional_asignado_id?: string | null;
     };
     onClose: () => void;
-    onConfirm: (reason?: string) => Promise<void>;
+    onConfirm: (reasonCode: CancellationReasonCode, reason?: string) => Promise<void>;
 }
 
 export function CancelLeadModal({ visible, lead, onClose, onConfirm }: CancelLeadModalProps) {
     const { theme } = useTheme();
     const [isCancelling, setIsCancelling] = useState(false);
+    const [reasonCode, setReasonCode] = useState<CancellationReasonCode | null>(null);
     const [reason, setReason] = useState('');
+    const [error, setError] = useState<AppError | null>(null);
+    const [policy, setPolicy] = useState<CancellationPolicy | null>(null);
+    // Sin conexión se estima con la política por defecto; el cargo final se calcula al enviar
+    const [policyUnavailable, setPolicyUnavailable] = useState(false);
 
     const hasProfessional = !!(lead.professional_id || lead.profesional_asignado_id);
 
+    useEffect(() => {
+        if (!visible) return;
+
+        let active = true;
+        setPolicy(null);
+        setPolicyUnavailable(false);
+        CancellationPolicyService.getPolicy(lead.servicio || lead.disciplina_ia)
+            .then(result => {
+                if (active) setPolicy(result);
+            })
+            .catch(err => {
+                console.warn('[CancelLeadModal] Could not load cancellation policy:', err);
+                if (active) {
+                    setPolicy(DEFAULT_CANCELLATION_POLICY);
+                    setPolicyUnavailable(true);
+                }
+            });
+        return () => {
+            active = false;
+        };
+    }, [visible, lead.servicio, lead.disciplina_ia]);
+
+    // Vista previa del cargo con el motivo elegido
+    const preview = useMemo(
+        () => policy ? calculateCancellationFee(lead, policy, { reasonCode }) : null,
+        [policy, lead, reasonCode]
+    );
+
     const handleConfirm = async () => {
+        const validation = validateCancellationReason({
+            reasonCode,
+            detail: reason,
+            lead,
+            policy: policy || DEFAULT_CANCELLATION_POLICY,
+        });
+        if (!validation.valid) {
+            setError(fromValidation(validation));
+            return;
+        }
+
         try {
             setIsCancelling(true);
-            await onConfirm(reason.trim() || undefined);
+            setError(null);
+            await onConfirm(reasonCode!, reason.trim() || undefined);
             onClose();
+            setReasonCode(null);
             setReason('');
-        } catch (error: any) {
-            console.error('[CancelLeadModal] Error cancelling:', error);
-            Alert.alert(
-                'Error',
-                error.message || 'No se pudo cancelar el servicio. Intenta de nuevo.',
-                [{ text: 'OK' }]
-            );
+        } catch (err) {
+            setError(reportError('CancelLeadModal', err, 'No se pudo cancelar el servicio. Intenta de nuevo.'));
         } finally {
             setIsCancelling(false);
         }
     };
 
     const handleCancel = () => {
+        setReasonCode(null);
         setReason('');
+        setError(null);
         onClose();
     };
 
@@ -102,6 +160,15 @@ export function CancelLeadModal({ visible, lead, onClose, onConfirm }: CancelLea
                                     </View>
                                 )}
 
+                                {error && (
+                                    <ErrorBanner
+                                        error={error}
+                                        onRetry={handleConfirm}
+                                        onDismiss={() => setError(null)}
+                                        style={styles.errorBanner}
+                                    />
+                                )}
+
                                 {/* Mensaje principal */}
                                 <Text variant="body" style={styles.message}>
                                     {!!hasProfessional
@@ -109,16 +176,50 @@ export function CancelLeadModal({ visible, lead, onClose, onConfirm }: CancelLea
                                         : '¿Estás seguro de que deseas cancelar este servicio? Esta acción no se puede deshacer.'}
                                 </Text>
 
-                                {/* Campo opcional de razón */}
+                                {/* Motivo estructurado */}
+                                <Text variant="body" weight="medium" style={styles.reasonLabel}>
+                                    ¿Por qué cancelas?
+                                </Text>
+                                <View style={styles.reasonList}>
+                                    {CLIENT_CANCELLATION_REASONS.map(code => {
+                                        const selected = reasonCode === code;
+                                        return (
+                                            <TouchableOpacity
+                                                key={code}
+                                                style={[
+                                                    styles.reasonOption,
+                                                    { borderColor: selected ? theme.primary : theme.border },
+                                                    selected && { backgroundColor: theme.primary + '12' },
+                                                ]}
+                                                onPress={() => setReasonCode(code)}
+                                                activeOpacity={0.7}
+                                            >
+                                                <Ionicons
+                                                    name={CANCELLATION_REASONS[code].icon as keyof typeof Ionicons.glyphMap}
+                                                    size={18}
+                                                    color={selected ? theme.primary : theme.textSecondary}
+                                                />
+                                                <Text variant="body" style={{ flex: 1 }} color={selected ? theme.primary : theme.text}>
+                                                    {CANCELLATION_REASONS[code].label}
+                                                </Text>
+                                                {selected && <Ionicons name="checkmark-circle" size={18} color={theme.primary} />}
+                                            </TouchableOpacity>
+                                        );
+                                    })}
+                                </View>
+
+                                {/* Detalle (obligatorio en "Otro motivo") */}
                                 <View style={styles.reasonField}>
                                     <Text variant="body" weight="medium" style={styles.reasonLabel}>
-                                        Razón de cancelación (opcional):
+                                        {reasonCode && CANCELLATION_REASONS[reasonCode].requiresDetail
+                                            ? 'Cuéntanos el motivo:'
+                                            : 'Comentarios (opcional):'}
                                     </Text>
                                     <View style={[styles.reasonInputContainer, { borderColor: theme.border, backgroundColor: theme.surface }]}>
                                         <Ionicons name="chatbubble-outline" size={20} color={theme.textSecondary} style={styles.reasonIcon} />
                                         <TextInput
                                             style={[styles.reasonInput, { color: theme.text }]}
-                                            placeholder="Ej: Ya no necesito el servicio..."
+                                            placeholder="Ej: Me cambio de casa la próxima semana..."
                                             placeholderTextColor={theme.textSecondary}
                                             value={reason}
                                             onChangeText={setReason}
@@ -127,6 +228,37 @@ export function CancelLeadModal({ visible, lead, onClose, onConfirm }: CancelLea
                                         />
                                     </View>
                                 </View>
+
+                                {/* Vista previa del cargo según la política de cancelación */}
+                                {!preview ? (
+                                    <ActivityIndicator color={theme.primary} style={styles.feePreview} />
+                                ) : (
+                                    <View
+                                        style={[
+                                            styles.feePreview,
+                                            styles.feeBox,
+                                            preview.fee > 0
+                                                ? { backgroundColor: '#FEF3C7', borderColor: '#FCD34D' }
+                                                : { backgroundColor: theme.success + '12', borderColor: theme.success + '40' },
+                                        ]}
+                                    >
+                                        <Ionicons
+                                            name={preview.fee > 0 ? 'cash-outline' : 'checkmark-circle-outline'}
+                                            size={20}
+                                            color={preview.fee > 0 ? '#D97706' : theme.success}
+                                        />
+                                        <View style={{ flex: 1, marginLeft: 8 }}>
+                                            <Text variant="body" weight="medium" style={preview.fee > 0 ? { color: '#92400E' } : undefined}>
+                                                {preview.message}
+                                            </Text>
+                                            {policyUnavailable && (
+                                                <Text variant="caption" color={theme.textSecondary}>
+                                                    Cargo estimado: se confirmará al enviar la cancelación.
+                                                </Text>
+                                            )}
+                                        </View>
+                                    </View>
+                                )}
                             </View>
                         </ScrollView>
 
@@ -140,7 +272,9 @@ export function CancelLeadModal({ visible, lead, onClose, onConfirm }: CancelLea
                                 disabled={isCancelling}
                             />
                             <Button
-                                title={isCancelling ? 'Cancelando...' : 'Sí, cancelar'}
+                                title={isCancelling
+                                    ? 'Cancelando...'
+                                    : preview && preview.fee > 0 ? `Cancelar con cargo de ${formatPrice(preview.fee)}` : 'Sí, cancelar'}
                                 onPress={handleConfirm}
                                 variant="danger"
                                 style={styles.footerButton}
@@ -213,9 +347,32 @@ const styles = StyleSheet.create({
         lineHeight: 22,
         fontSize: 15,
     },
+    reasonList: {
+        gap: 8,
+        marginBottom: 16,
+    },
+    reasonOption: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 10,
+        paddingHorizontal: 12,
+        paddingVertical: 10,
+        borderRadius: 12,
+        borderWidth: 1.5,
+    },
     reasonField: {
         marginTop: 4,
     },
+    feePreview: {
+        marginTop: 16,
+    },
+    feeBox: {
+        flexDirection: 'row',
+        alignItems: 'flex-start',
+        padding: 12,
+        borderRadius: 12,
+        borderWidth: 1,
+    },
     reasonLabel: {
         marginBottom: 8,
     },
@@ -248,5 +405,8 @@ const styles = StyleSheet.create({
     footerButton: {
         flex: 1,
     },
+    errorBanner: {
+        marginBottom: 16,
+    },
 });
 
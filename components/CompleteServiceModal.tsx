@@ -5,7 +5,6 @@ import {
     Modal,
     TouchableOpacity,
     ActivityIndicator,
-    Alert,
     TextInput,
     KeyboardAvoidingView,
     Platform,
@@ -14,10 +13,13 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useToast } from '@/contexts/ToastContext';
 import { Text } from '@/components/Text';
 import { Button } from '@/components/Button';
+import { ErrorBanner } from '@/components/ErrorBanner';
 import { TULBOX_COLORS } from '@/constants/Colors';
 import { ReviewsService } from '@/services/reviews';
+import { AppError } from '@/services/errors';
 
 interface CompleteServiceModalProps {
     visible: boolean;
@@ -34,7 +36,9 @@ interface CompleteServiceModalProps {
 
 export function CompleteServiceModal({ visible, lead, onClose, onConfirm }: CompleteServiceModalProps) {
     const { theme } = useTheme();
+    const { showError, showSuccess, showWarning } = useToast();
     const [isCompleting, setIsCompleting] = useState(false);
+    const [error, setError] = useState<AppError | null>(null);
     const [rating, setRating] = useState(5);
     const [comment, setComment] = useState('');
 
@@ -42,7 +46,10 @@ export function CompleteServiceModal({ visible, lead, onClose, onConfirm }: Comp
         const profId = lead.professional_id;
 
         if (!profId) {
-            Alert.alert('Error', 'No se pudo identificar al profesional para calificarlo.');
+            setError(new AppError('not_found', {
+                code: 'review.missing_professional',
+                userMessage: 'No se pudo identificar al profesional para calificarlo.',
+            }));
             return;
         }
 
@@ -70,19 +77,20 @@ export function CompleteServiceModal({ visible, lead, onClose, onConfirm }: Comp
             });
 
             if (reviewResult.success) {
-                Alert.alert('¡Excelente!', 'El servicio ha sido completado y tu reseña ha sido enviada.');
-                onClose();
+                showSuccess(
+                    reviewResult.queued
+                        ? 'El servicio ha sido completado. Tu reseña se enviará cuando recuperes la conexión.'
+                        : 'El servicio ha sido completado y tu reseña ha sido enviada.',
+                    '¡Excelente!'
+                );
             } else {
-                // reviewResult.error ya es un string con el mensaje detallado gracias al cambio previo en ReviewsService
-                throw new Error(`Servicio completado, pero la reseña falló: ${reviewResult.error}`);
+                console.error('[CompleteServiceModal] Review failed:', reviewResult.error);
+                showWarning('Servicio completado, pero no pudimos enviar tu reseña.', 'Estado parcial');
             }
-        } catch (error: any) {
-            console.error('[CompleteServiceModal] Error:', error);
-            Alert.alert(
-                'Estado parcial',
-                error.message || 'Ocurrió un error al finalizar.',
-                [{ text: 'OK', onPress: onClose }]
-            );
+            onClose();
+        } catch (err) {
+            showError(err, { context: 'CompleteServiceModal', fallbackMessage: 'Ocurrió un error al finalizar.' });
+            onClose();
         } finally {
             setIsCompleting(false);
         }
@@ -182,6 +190,14 @@ export function CompleteServiceModal({ visible, lead, onClose, onConfirm }: Comp
                             </View>
                         </ScrollView>
 
+                        {error && (
+                            <ErrorBanner
+                                error={error}
+                                onDismiss={() => setError(null)}
+                                style={styles.errorBanner}
+                            />
+                        )}
+
                         {/* Footer con botones */}
                         <View style={[styles.footer, { borderTopColor: theme.border }]}>
                             <Button
@@ -269,6 +285,10 @@ const styles = StyleSheet.create({
         textAlignVertical: 'top',
         fontSize: 16,
     },
+    errorBanner: {
+        marginHorizontal: 20,
+        marginTop: 12,
+    },
     footer: {
         flexDirection: 'row',
         justifyContent: 'space-between',
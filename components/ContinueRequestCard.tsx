@@ -0,0 +1,89 @@
+import React from 'react';
+import { View, TouchableOpacity, StyleSheet, ViewStyle } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/contexts/ThemeContext';
+import { Text } from '@/components/Text';
+import { DRAFT_STEP_LABELS, RequestDraft, formatDraftAge } from '@/services/requestDrafts';
+
+interface ContinueRequestCardProps {
+    drafts: RequestDraft[];
+    onResume: (draft: RequestDraft) => void;
+    onDiscard: (draft: RequestDraft) => void;
+    style?: ViewStyle;
+}
+
+/**
+ * Solicitudes sin terminar en el inicio ("Continúa tu solicitud")
+ */
+export function ContinueRequestCard({ drafts, onResume, onDiscard, style }: ContinueRequestCardProps) {
+    const { theme } = useTheme();
+
+    if (drafts.length === 0) return null;
+
+    return (
+        <View style={[styles.container, style]}>
+            <Text variant="h3" weight="bold" style={styles.title}>
+                Continúa tu solicitud
+            </Text>
+            {drafts.map(draft => (
+                <TouchableOpacity
+                    key={draft.key}
+                    style={[styles.card, { backgroundColor: theme.card, borderColor: theme.primary + '40' }]}
+                    onPress={() => onResume(draft)}
+                    activeOpacity={0.8}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Continuar solicitud de ${draft.service_name || 'servicio'}`}
+                >
+                    <View style={[styles.iconContainer, { backgroundColor: theme.primary + '15' }]}>
+                        <Ionicons name="document-text-outline" size={22} color={theme.primary} />
+                    </View>
+                    <View style={styles.textContainer}>
+                        <Text variant="body" weight="bold" numberOfLines={1}>
+                            {draft.service_name || 'Solicitud de servicio'}
+                        </Text>
+                        <Text variant="caption" color={theme.textSecondary}>
+                            {DRAFT_STEP_LABELS[draft.step]} · {formatDraftAge(draft.updated_at)}
+                        </Text>
+                    </View>
+                    <TouchableOpacity
+                        onPress={() => onDiscard(draft)}
+                        hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                        activeOpacity={0.7}
+                        accessibilityLabel="Descartar borrador"
+                    >
+                        <Ionicons name="close" size={20} color={theme.textSecondary} />
+                    </TouchableOpacity>
+                </TouchableOpacity>
+            ))}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        paddingHorizontal: 20,
+        marginTop: 16,
+        gap: 10,
+    },
+    title: {
+        marginBottom: 2,
+    },
+    card: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        padding: 14,
+        borderRadius: 14,
+        borderWidth: 1,
+    },
+    iconContainer: {
+        width: 40,
+        height: 40,
+        borderRadius: 20,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    textContainer: {
+        flex: 1,
+    },
+});
@@ -16,11 +16,13 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import * as ImagePicker from 'expo-image-picker';
-import * as FileSystem from 'expo-file-system/legacy';
 import { useTheme } from '@/contexts/ThemeContext';
 import { Text } from '@/components/Text';
 import { Button } from '@/components/Button';
+import { ErrorBanner } from '@/components/ErrorBanner';
+import { AppError, reportError } from '@/services/errors';
 import { supabase } from '@/lib/supabase';
+import { LeadsService } from '@/services/leads';
 import { normalizeWhatsappNumber, formatWhatsappForDisplay } from '@/utils/whatsapp';
 import { getAddressSuggestions, formatAddressSuggestion, AddressSuggestion } from '@/services/addressAutocomplete';
 
@@ -60,6 +62,7 @@ export function EditLeadModal({ visible, lead, onClose, onSave }: EditLeadModalP
     const [isUploading, setIsUploading] = useState(false);
     const [isSaving, setIsSaving] = useState(false);
     const [uploadError, setUploadError] = useState<string | null>(null);
+    const [formError, setFormError] = useState<AppError | null>(null);
     
     // Estados para autocompletado de direcciones
     const [addressSuggestions, setAddressSuggestions] = useState<AddressSuggestion[]>([]);
@@ -78,6 +81,7 @@ export function EditLeadModal({ visible, lead, onClose, onSave }: EditLeadModalP
             setWhatsappError(null);
             setPhotos(lead.photos_urls || []);
             setUploadError(null);
+            setFormError(null);
             setAddressSuggestions([]);
             setShowAddressSuggestions(false);
         }
@@ -164,11 +168,11 @@ export function EditLeadModal({ visible, lead, onClose, onSave }: EditLeadModalP
             // Solicitar permisos
             const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
             if (status !== 'granted') {
-                Alert.alert(
-                    'Permisos necesarios',
-                    'Necesitamos acceso a tus fotos para subir evidencias del servicio.',
-                    [{ text: 'OK' }]
-                );
+                setFormError(new AppError('permission', {
+                    code: 'device.photos_permission',
+                    title: 'Permisos necesarios',
+                    userMessage: 'Necesitamos acceso a tus fotos para subir evidencias del servicio.',
+                }));
                 return;
             }
 
@@ -186,11 +190,11 @@ export function EditLeadModal({ visible, lead, onClose, onSave }: EditLeadModalP
 
             // Verificar límite de fotos
             if (photos.length + result.assets.length > 10) {
-                Alert.alert(
-                    'Límite de fotos',
-                    'Puedes subir máximo 10 fotos. Elimina algunas antes de agregar más.',
-                    [{ text: 'OK' }]
-                );
+                setFormError(new AppError('validation', {
+                    code: 'lead.photos_limit',
+                    title: 'Límite de fotos',
+                    userMessage: 'Puedes subir máximo 10 fotos. Elimina algunas antes de agregar más.',
+                }));
                 return;
             }
 
@@ -201,42 +205,7 @@ export function EditLeadModal({ visible, lead, onClose, onSave }: EditLeadModalP
 
             for (const asset of result.assets) {
                 try {
-                    // Leer el archivo como base64
-                    const base64 = await FileSystem.readAsStringAsync(asset.uri, {
-                        encoding: 'base64' as FileSystem.EncodingType,
-                    });
-
-                    // Convertir base64 a ArrayBuffer
-                    const binaryString = atob(base64);
-                    const bytes = new Uint8Array(binaryString.length);
-                    for (let i = 0; i < binaryString.length; i++) {
-                        bytes[i] = binaryString.charCodeAt(i);
-                    }
-                    const arrayBuffer = bytes.buffer;
-
-                    // Determinar extensión
-                    const fileExt = asset.uri.split('.').pop()?.toLowerCase() || 'jpg';
-                    const filePath = `${lead.id}/${Date.now()}-${Math.random().toString(36).slice(2)}.${fileExt}`;
-
-                    // Subir a Supabase Storage
-                    const { error: uploadError } = await supabase.storage
-                        .from('lead-photos')
-                        .upload(filePath, arrayBuffer, {
-                            contentType: `image/${fileExt}`,
-                            cacheControl: '3600',
-                            upsert: false,
-                        });
-
-                    if (uploadError) {
-                        throw uploadError;
-                    }
-
-                    // Obtener URL pública
-                    const { data: { publicUrl } } = supabase.storage
-                        .from('lead-photos')
-                        .getPublicUrl(filePath);
-
-                    newUrls.push(publicUrl);
+                    newUrls.push(await LeadsService.uploadLeadPhoto(lead.id, asset.uri));
                 } catch (error: any) {
                     console.error('[EditLeadModal] Error uploading photo:', error);
                     setUploadError('No se pudo subir una o más imágenes. Intenta de nuevo.');
@@ -274,13 +243,9 @@ export function EditLeadModal({ visible, lead, onClose, onSave }: EditLeadModalP
                                 }
                             }
                             setPhotos((prev) => prev.filter((photo) => photo !== url));
-                        } catch (error: any) {
-                            console.error('[EditLeadModal] Error removing photo:', error);
-                            Alert.alert(
-                                'Error',
-                                'No se pudo eliminar la foto. Intenta de nuevo.',
-                                [{ text: 'OK' }]
-                            );
+                        } catch (error) {
+                            reportError('EditLeadModal', error);
+                            setUploadError('No se pudo eliminar la foto. Intenta de nuevo.');
                         }
                     },
                 },
@@ -298,20 +263,26 @@ export function EditLeadModal({ visible, lead, onClose, onSave }: EditLeadModalP
 
         // Validar campos requeridos
         if (!service.trim()) {
-            Alert.alert('Campo requerido', 'El servicio es requerido.');
+            setFormError(new AppError('validation', {
+                code: 'lead.missing_service',
+                title: 'Campo requerido',
+                userMessage: 'El servicio es requerido.',
+            }));
             return;
         }
 
         if (!description.trim() || description.trim().length < 20) {
-            Alert.alert(
-                'Descripción muy corta',
-                'La descripción debe tener al menos 20 caracteres.'
-            );
+            setFormError(new AppError('validation', {
+                code: 'lead.description_too_short',
+                title: 'Descripción muy corta',
+                userMessage: 'La descripción debe tener al menos 20 caracteres.',
+            }));
             return;
         }
 
         try {
             setIsSaving(true);
+            setFormError(null);
             await onSave({
                 service: service.trim(),
                 description: description.trim(),
@@ -320,13 +291,8 @@ export function EditLeadModal({ visible, lead, onClose, onSave }: EditLeadModalP
                 photos,
             });
             onClose();
-        } catch (error: any) {
-            console.error('[EditLeadModal] Error saving:', error);
-            Alert.alert(
-                'Error',
-                error.message || 'No se pudieron guardar los cambios. Intenta de nuevo.',
-                [{ text: 'OK' }]
-            );
+        } catch (error) {
+            setFormError(reportError('EditLeadModal', error, 'No se pudieron guardar los cambios. Intenta de nuevo.'));
         } finally {
             setIsSaving(false);
         }
@@ -570,6 +536,15 @@ export function EditLeadModal({ visible, lead, onClose, onSave }: EditLeadModalP
                         </View>
                                 </ScrollView>
 
+                                {formError && (
+                                    <ErrorBanner
+                                        error={formError}
+                                        onRetry={handleSave}
+                                        onDismiss={() => setFormError(null)}
+                                        style={styles.formError}
+                                    />
+                                )}
+
                                 {/* Footer con botones */}
                                 <View style={[styles.footer, { borderTopColor: theme.border }]}>
                                     <Button
@@ -688,6 +663,10 @@ const styles = StyleSheet.create({
         padding: 16,
         marginTop: 8,
     },
+    formError: {
+        marginHorizontal: 20,
+        marginTop: 12,
+    },
     footer: {
         flexDirection: 'row',
         justifyContent: 'space-between',
@@ -0,0 +1,97 @@
+import React from 'react';
+import { View, StyleSheet, TouchableOpacity, ViewStyle } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Text } from './Text';
+import { useTheme } from '@/contexts/ThemeContext';
+import type { AppError } from '@/services/errors';
+
+export type BannerVariant = 'error' | 'warning' | 'success' | 'info';
+
+interface ErrorBannerProps {
+    /** Toma título, mensaje y variante del AppError; `onRetry` solo se muestra si es reintentable */
+    error?: AppError;
+    variant?: BannerVariant;
+    title?: string;
+    message?: string;
+    onRetry?: () => void;
+    onDismiss?: () => void;
+    style?: ViewStyle;
+}
+
+const VARIANT_ICONS: Record<BannerVariant, keyof typeof Ionicons.glyphMap> = {
+    error: 'alert-circle',
+    warning: 'warning',
+    success: 'checkmark-circle',
+    info: 'information-circle',
+};
+
+/**
+ * Banner para errores y avisos; se usa como toast (ToastProvider) e inline dentro de
+ * modales, donde el toast queda detrás del Modal nativo
+ */
+export function ErrorBanner({ error, variant, title, message, onRetry, onDismiss, style }: ErrorBannerProps) {
+    const { theme } = useTheme();
+    const resolvedVariant: BannerVariant = variant || (error?.kind === 'validation' ? 'warning' : 'error');
+    const color = theme[resolvedVariant];
+    const resolvedTitle = title ?? error?.title;
+    const resolvedMessage = message ?? error?.userMessage ?? '';
+    const showRetry = onRetry && (!error || error.retryable);
+
+    return (
+        <View
+            style={[styles.container, { backgroundColor: theme.card, borderLeftColor: color }, style]}
+            accessibilityRole="alert"
+        >
+            <Ionicons name={VARIANT_ICONS[resolvedVariant]} size={22} color={color} style={styles.icon} />
+            <View style={styles.content}>
+                {resolvedTitle ? (
+                    <Text variant="label" weight="bold">
+                        {resolvedTitle}
+                    </Text>
+                ) : null}
+                <Text variant="caption" color={theme.textSecondary}>
+                    {resolvedMessage}
+                </Text>
+            </View>
+            {showRetry && (
+                <TouchableOpacity onPress={onRetry} style={styles.action}>
+                    <Text variant="label" weight="bold" color={theme.primary}>
+                        Reintentar
+                    </Text>
+                </TouchableOpacity>
+            )}
+            {onDismiss && (
+                <TouchableOpacity onPress={onDismiss} style={styles.action} accessibilityLabel="Cerrar">
+                    <Ionicons name="close" size={18} color={theme.textSecondary} />
+                </TouchableOpacity>
+            )}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        borderRadius: 12,
+        borderLeftWidth: 4,
+        paddingVertical: 12,
+        paddingHorizontal: 14,
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.15,
+        shadowRadius: 8,
+        elevation: 4,
+    },
+    icon: {
+        marginRight: 10,
+    },
+    content: {
+        flex: 1,
+        gap: 2,
+    },
+    action: {
+        marginLeft: 12,
+        paddingVertical: 4,
+    },
+});
@@ -0,0 +1,365 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, Modal, TouchableOpacity, ScrollView, TextInput, Image, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
+import { useTheme } from '@/contexts/ThemeContext';
+import { Text } from '@/components/Text';
+import { Button } from '@/components/Button';
+import { ErrorBanner } from '@/components/ErrorBanner';
+import { AppError, reportError } from '@/services/errors';
+import { LeadsService } from '@/services/leads';
+import {
+    GUARANTEE_PROBLEM_TYPES,
+    GuaranteeProblemType,
+    MAX_CLAIM_EVIDENCE,
+    MIN_CLAIM_DESCRIPTION_LENGTH,
+    validateGuaranteeClaim,
+} from '@/services/guarantees';
+
+export interface GuaranteeClaimSubmission {
+    problemType: GuaranteeProblemType;
+    description: string;
+    evidenceUrls: string[];
+}
+
+interface GuaranteeClaimModalProps {
+    visible: boolean;
+    leadId: string;
+    serviceName?: string;
+    /** Texto de la garantía restante (formatGuaranteeRemaining) */
+    remainingLabel?: string;
+    onClose: () => void;
+    onSubmit: (claim: GuaranteeClaimSubmission) => Promise<void>;
+}
+
+const PROBLEM_KEYS = Object.keys(GUARANTEE_PROBLEM_TYPES) as GuaranteeProblemType[];
+
+/** Los videos se muestran con un ícono en lugar de miniatura */
+const isVideoUrl = (url: string) => /\.(mp4|mov)$/i.test(url);
+
+/**
+ * Reportar una falla de un servicio completado: problema, evidencia y descripción
+ */
+export function GuaranteeClaimModal({
+    visible,
+    leadId,
+    serviceName,
+    remainingLabel,
+    onClose,
+    onSubmit,
+}: GuaranteeClaimModalProps) {
+    const { theme } = useTheme();
+    const [problemType, setProblemType] = useState<GuaranteeProblemType | null>(null);
+    const [description, setDescription] = useState('');
+    const [evidenceUrls, setEvidenceUrls] = useState<string[]>([]);
+    const [uploading, setUploading] = useState(false);
+    const [submitting, setSubmitting] = useState(false);
+    const [error, setError] = useState<AppError | null>(null);
+
+    useEffect(() => {
+        if (visible) {
+            setProblemType(null);
+            setDescription('');
+            setEvidenceUrls([]);
+            setError(null);
+        }
+    }, [visible]);
+
+    const handlePickEvidence = async () => {
+        const remaining = MAX_CLAIM_EVIDENCE - evidenceUrls.length;
+        if (remaining <= 0) return;
+
+        const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+        if (status !== 'granted') return;
+
+        const result = await ImagePicker.launchImageLibraryAsync({
+            mediaTypes: ImagePicker.MediaTypeOptions.All,
+            allowsMultipleSelection: true,
+            selectionLimit: remaining,
+            videoMaxDuration: 30,
+            quality: 0.8,
+        });
+        if (result.canceled || !result.assets?.length) return;
+
+        setUploading(true);
+        const uploaded: string[] = [];
+        try {
+            for (const asset of result.assets.slice(0, remaining)) {
+                try {
+                    uploaded.push(await LeadsService.uploadLeadPhoto(leadId, asset.uri));
+                } catch (err) {
+                    console.error('[GuaranteeClaimModal] Error uploading evidence:', err);
+                }
+            }
+            if (uploaded.length < Math.min(result.assets.length, remaining)) {
+                setError(new AppError('network', {
+                    code: 'guarantee.evidence_upload_failed',
+                    userMessage: 'Algunos archivos no se pudieron subir. Intenta de nuevo.',
+                }));
+            }
+            setEvidenceUrls(prev => [...prev, ...uploaded]);
+        } finally {
+            setUploading(false);
+        }
+    };
+
+    const handleSubmit = async () => {
+        const validation = validateGuaranteeClaim({ problemType: problemType || '', description, evidenceUrls });
+        if (!validation.valid) {
+            setError(new AppError('validation', { code: validation.error!.code, userMessage: validation.error!.message }));
+            return;
+        }
+
+        try {
+            setSubmitting(true);
+            setError(null);
+            await onSubmit({ problemType: problemType!, description, evidenceUrls });
+            onClose();
+        } catch (err) {
+            setError(reportError('GuaranteeClaimModal', err, 'No se pudo enviar el reclamo. Intenta de nuevo.'));
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    return (
+        <Modal
+            visible={visible}
+            animationType="fade"
+            transparent={true}
+            onRequestClose={onClose}
+        >
+            <SafeAreaView style={styles.overlay}>
+                <View style={[styles.modalContent, { backgroundColor: theme.card }]}>
+                    <View style={[styles.header, { backgroundColor: theme.primary + '15' }]}>
+                        <Ionicons name="shield-checkmark" size={32} color={theme.primary} />
+                        <Text variant="h2" weight="bold" style={{ color: theme.primary, marginTop: 12 }}>
+                            Reclamar garantía
+                        </Text>
+                        {!!serviceName && (
+                            <Text variant="caption" color={theme.textSecondary} style={styles.headerHint}>
+                                {serviceName}{remainingLabel ? ` · ${remainingLabel}` : ''}
+                            </Text>
+                        )}
+                    </View>
+
+                    <ScrollView style={styles.scrollView} bounces={false} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+                        <View style={styles.content}>
+                            {error && (
+                                <ErrorBanner
+                                    error={error}
+                                    onDismiss={() => setError(null)}
+                                    style={styles.errorBanner}
+                                />
+                            )}
+
+                            <Text variant="body" weight="medium" style={styles.label}>¿Qué problema tiene?</Text>
+                            <View style={styles.chipGrid}>
+                                {PROBLEM_KEYS.map(key => {
+                                    const selected = problemType === key;
+                                    return (
+                                        <TouchableOpacity
+                                            key={key}
+                                            style={[
+                                                styles.chip,
+                                                { borderColor: selected ? theme.primary : theme.border },
+                                                selected && { backgroundColor: theme.primary },
+                                            ]}
+                                            onPress={() => setProblemType(key)}
+                                            activeOpacity={0.7}
+                                        >
+                                            <Ionicons
+                                                name={GUARANTEE_PROBLEM_TYPES[key].icon as keyof typeof Ionicons.glyphMap}
+                                                size={16}
+                                                color={selected ? '#FFFFFF' : theme.textSecondary}
+                                            />
+                                            <Text variant="caption" weight="medium" color={selected ? '#FFFFFF' : theme.text}>
+                                                {GUARANTEE_PROBLEM_TYPES[key].label}
+                                            </Text>
+                                        </TouchableOpacity>
+                                    );
+                                })}
+                            </View>
+
+                            <Text variant="body" weight="medium" style={styles.label}>Fotos o video del problema</Text>
+                            <View style={styles.evidenceRow}>
+                                {evidenceUrls.map(url => (
+                                    <TouchableOpacity
+                                        key={url}
+                                        onPress={() => setEvidenceUrls(prev => prev.filter(item => item !== url))}
+                                        activeOpacity={0.8}
+                                        accessibilityLabel="Quitar archivo"
+                                    >
+                                        {isVideoUrl(url) ? (
+                                            <View style={[styles.evidence, styles.videoEvidence, { backgroundColor: theme.surface }]}>
+                                                <Ionicons name="videocam" size={24} color={theme.textSecondary} />
+                                            </View>
+                                        ) : (
+                                            <Image source={{ uri: url }} style={styles.evidence} />
+                                        )}
+                                        <View style={styles.removeBadge}>
+                                            <Ionicons name="close-circle" size={18} color={theme.error} />
+                                        </View>
+                                    </TouchableOpacity>
+                                ))}
+                                {evidenceUrls.length < MAX_CLAIM_EVIDENCE && (
+                                    <TouchableOpacity
+                                        style={[styles.evidence, styles.addEvidence, { borderColor: theme.border }]}
+                                        onPress={handlePickEvidence}
+                                        disabled={uploading}
+                                        activeOpacity={0.7}
+                                        accessibilityLabel="Agregar fotos o video"
+                                    >
+                                        {uploading ? (
+                                            <ActivityIndicator color={theme.primary} />
+                                        ) : (
+                                            <Ionicons name="camera-outline" size={24} color={theme.textSecondary} />
+                                        )}
+                                    </TouchableOpacity>
+                                )}
+                            </View>
+
+                            <Text variant="body" weight="medium" style={styles.label}>¿Qué falló?</Text>
+                            <TextInput
+                                style={[styles.textArea, { backgroundColor: theme.background, color: theme.text, borderColor: theme.border }]}
+                                value={description}
+                                onChangeText={setDescription}
+                                placeholder="Cuándo empezó, qué pasa y qué parte del trabajo está afectada"
+                                placeholderTextColor={theme.textSecondary}
+                                multiline
+                                numberOfLines={4}
+                                textAlignVertical="top"
+                            />
+                            <Text variant="caption" color={theme.textSecondary} style={styles.hint}>
+                                Mínimo {MIN_CLAIM_DESCRIPTION_LENGTH} caracteres. Soporte revisará tu reclamo y te propondrá una
+                                visita de corrección o un reembolso.
+                            </Text>
+                        </View>
+                    </ScrollView>
+
+                    <View style={[styles.footer, { borderTopColor: theme.border }]}>
+                        <Button
+                            title="Cancelar"
+                            onPress={onClose}
+                            variant="outline"
+                            style={styles.footerButton}
+                            disabled={submitting}
+                        />
+                        <Button
+                            title="Enviar reclamo"
+                            onPress={handleSubmit}
+                            loading={submitting}
+                            style={styles.footerButton}
+                            disabled={submitting || uploading}
+                        />
+                    </View>
+                </View>
+            </SafeAreaView>
+        </Modal>
+    );
+}
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0,0,0,0.6)',
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: 20,
+    },
+    modalContent: {
+        borderRadius: 24,
+        width: '100%',
+        maxWidth: 500,
+        maxHeight: '85%',
+        overflow: 'hidden',
+        elevation: 5,
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 4 },
+        shadowOpacity: 0.25,
+        shadowRadius: 10,
+    },
+    header: {
+        alignItems: 'center',
+        padding: 24,
+    },
+    headerHint: {
+        marginTop: 8,
+        textAlign: 'center',
+    },
+    scrollView: {
+        maxHeight: 440,
+    },
+    content: {
+        padding: 24,
+    },
+    label: {
+        marginBottom: 8,
+        marginTop: 4,
+    },
+    chipGrid: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 8,
+        marginBottom: 16,
+    },
+    chip: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+        paddingHorizontal: 14,
+        paddingVertical: 8,
+        borderRadius: 16,
+        borderWidth: 1.5,
+    },
+    evidenceRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 8,
+        marginBottom: 16,
+    },
+    evidence: {
+        width: 72,
+        height: 72,
+        borderRadius: 8,
+    },
+    videoEvidence: {
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    addEvidence: {
+        borderWidth: 1.5,
+        borderStyle: 'dashed',
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    removeBadge: {
+        position: 'absolute',
+        top: -6,
+        right: -6,
+    },
+    textArea: {
+        borderWidth: 1,
+        borderRadius: 12,
+        padding: 12,
+        fontSize: 16,
+        minHeight: 100,
+    },
+    hint: {
+        marginTop: 4,
+    },
+    footer: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        padding: 20,
+        borderTopWidth: 1,
+        gap: 12,
+    },
+    footerButton: {
+        flex: 1,
+    },
+    errorBanner: {
+        marginBottom: 16,
+    },
+});
@@ -0,0 +1,322 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, TouchableOpacity, TextInput, Image, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
+import { useTheme } from '@/contexts/ThemeContext';
+import { Text } from '@/components/Text';
+import { Card } from '@/components/Card';
+import { QuantityCalculatorModal } from '@/components/QuantityCalculatorModal';
+import { LeadsService } from '@/services/leads';
+import {
+    DEFAULT_MAX_PHOTOS,
+    IntakeAnswers,
+    IntakeAnswerValue,
+    IntakeFormSchema,
+    IntakeQuestion,
+    getCalculatedAnswer,
+    isQuestionVisible,
+} from '@/services/intakeForms';
+import { QuantityCalculation, describeQuantityCalculation, getQuantityCalculations } from '@/services/quantityCalculators';
+
+interface IntakeFormProps {
+    schema: IntakeFormSchema;
+    answers: IntakeAnswers;
+    onChange: (field: string, value: IntakeAnswerValue | undefined) => void;
+    /** Errores por id de pregunta (validateIntakeAnswers) */
+    errors?: Record<string, string>;
+    /** Carpeta de `lead-photos` para las preguntas de foto (p. ej. intake/<clientId>) */
+    photoFolder?: string;
+    /** Guardar (o quitar, con null) el cálculo de una pregunta en `form_data.calculations` */
+    onCalculationChange?: (field: string, calculation: QuantityCalculation | null) => void;
+}
+
+/**
+ * Formulario de solicitud generado a partir del esquema del servicio
+ */
+export function IntakeForm({ schema, answers, onChange, errors = {}, photoFolder, onCalculationChange }: IntakeFormProps) {
+    const { theme } = useTheme();
+    const [uploadingField, setUploadingField] = useState<string | null>(null);
+    const [calculatorQuestion, setCalculatorQuestion] = useState<IntakeQuestion | null>(null);
+    const calculations = getQuantityCalculations(answers);
+
+    // Editar a mano una cantidad calculada descarta el cálculo (ya no explica el valor)
+    const handleChange = (question: IntakeQuestion, value: IntakeAnswerValue | undefined) => {
+        onChange(question.id, value);
+        if (calculations[question.id]) {
+            onCalculationChange?.(question.id, null);
+        }
+    };
+
+    const handleApplyCalculation = (calculation: QuantityCalculation) => {
+        if (!calculatorQuestion) return;
+        onChange(calculatorQuestion.id, getCalculatedAnswer(calculatorQuestion, calculation.quantity));
+        onCalculationChange?.(calculatorQuestion.id, calculation);
+        setCalculatorQuestion(null);
+    };
+
+    const handlePickPhotos = async (question: IntakeQuestion) => {
+        if (!photoFolder) return;
+
+        const current = Array.isArray(answers[question.id]) ? answers[question.id] as string[] : [];
+        const remaining = (question.max_photos ?? DEFAULT_MAX_PHOTOS) - current.length;
+        if (remaining <= 0) return;
+
+        const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+        if (status !== 'granted') return;
+
+        const result = await ImagePicker.launchImageLibraryAsync({
+            mediaTypes: ImagePicker.MediaTypeOptions.Images,
+            allowsMultipleSelection: true,
+            selectionLimit: remaining,
+            quality: 0.8,
+        });
+        if (result.canceled || !result.assets?.length) return;
+
+        setUploadingField(question.id);
+        const uploaded: string[] = [];
+        try {
+            for (const asset of result.assets.slice(0, remaining)) {
+                try {
+                    uploaded.push(await LeadsService.uploadLeadPhoto(photoFolder, asset.uri));
+                } catch (error) {
+                    console.error('[IntakeForm] Error uploading photo:', error);
+                }
+            }
+            onChange(question.id, [...current, ...uploaded]);
+        } finally {
+            setUploadingField(null);
+        }
+    };
+
+    const renderOption = (question: IntakeQuestion, label: string, value: IntakeAnswerValue) => {
+        const selected = answers[question.id] === value;
+        return (
+            <TouchableOpacity
+                key={label}
+                style={[
+                    styles.optionButton,
+                    { borderColor: theme.border },
+                    selected && { backgroundColor: theme.primary, borderColor: theme.primary },
+                ]}
+                onPress={() => handleChange(question, selected && !question.required ? undefined : value)}
+                activeOpacity={0.7}
+            >
+                <Text variant="body" weight="medium" style={[selected && { color: '#FFFFFF' }]}>
+                    {label}
+                </Text>
+            </TouchableOpacity>
+        );
+    };
+
+    const renderInput = (question: IntakeQuestion) => {
+        const value = answers[question.id];
+
+        switch (question.type) {
+            case 'choice':
+                return (
+                    <View style={styles.optionsRow}>
+                        {question.options!.map(option => renderOption(question, String(option), option))}
+                    </View>
+                );
+
+            case 'boolean':
+                return (
+                    <View style={styles.optionsRow}>
+                        {renderOption(question, 'Sí', true)}
+                        {renderOption(question, 'No', false)}
+                    </View>
+                );
+
+            case 'number':
+                return (
+                    <View style={[styles.inputRow, { borderColor: theme.border }]}>
+                        <TextInput
+                            style={[styles.input, { color: theme.text }]}
+                            value={value === undefined ? '' : String(value)}
+                            onChangeText={text => handleChange(question, text.trim() ? text : undefined)}
+                            keyboardType="decimal-pad"
+                            placeholder={question.placeholder || '0'}
+                            placeholderTextColor={theme.textSecondary}
+                        />
+                        {question.unit && (
+                            <Text variant="body" color={theme.textSecondary}>
+                                {question.unit}
+                            </Text>
+                        )}
+                    </View>
+                );
+
+            case 'text':
+                return (
+                    <TextInput
+                        style={[styles.input, styles.textArea, { color: theme.text, borderColor: theme.border }]}
+                        value={typeof value === 'string' ? value : ''}
+                        onChangeText={text => onChange(question.id, text)}
+                        placeholder={question.placeholder}
+                        placeholderTextColor={theme.textSecondary}
+                        multiline
+                    />
+                );
+
+            case 'photo': {
+                const photos = Array.isArray(value) ? value : [];
+                const isUploading = uploadingField === question.id;
+                return (
+                    <View style={styles.photosRow}>
+                        {photos.map(url => (
+                            <TouchableOpacity
+                                key={url}
+                                onPress={() => onChange(question.id, photos.filter(photo => photo !== url))}
+                                activeOpacity={0.7}
+                            >
+                                <Image source={{ uri: url }} style={styles.photo} />
+                                <View style={styles.removeBadge}>
+                                    <Ionicons name="close" size={12} color="#FFFFFF" />
+                                </View>
+                            </TouchableOpacity>
+                        ))}
+                        {photos.length < (question.max_photos ?? DEFAULT_MAX_PHOTOS) && (
+                            <TouchableOpacity
+                                style={[styles.photo, styles.addPhoto, { borderColor: theme.border }]}
+                                onPress={() => handlePickPhotos(question)}
+                                disabled={isUploading || !photoFolder}
+                                activeOpacity={0.7}
+                            >
+                                {isUploading
+                                    ? <ActivityIndicator color={theme.primary} />
+                                    : <Ionicons name="camera-outline" size={24} color={theme.textSecondary} />}
+                            </TouchableOpacity>
+                        )}
+                    </View>
+                );
+            }
+        }
+    };
+
+    return (
+        <>
+            {schema.questions
+                .filter(question => isQuestionVisible(question, answers))
+                .map(question => (
+                    <Card key={question.id} variant="elevated" style={styles.formCard}>
+                        <Text variant="label" weight="medium" style={styles.fieldLabel}>
+                            {question.label}{question.required ? ' *' : ''}
+                        </Text>
+                        {renderInput(question)}
+                        {question.calculator && onCalculationChange && (
+                            <TouchableOpacity
+                                style={styles.calculatorButton}
+                                onPress={() => setCalculatorQuestion(question)}
+                                activeOpacity={0.7}
+                            >
+                                <Ionicons name="calculator-outline" size={18} color={theme.primary} />
+                                <Text variant="caption" weight="medium" color={theme.primary}>
+                                    {calculations[question.id] ? 'Editar medidas' : 'No sé la cantidad, calcular'}
+                                </Text>
+                            </TouchableOpacity>
+                        )}
+                        {calculations[question.id] && (
+                            <Text variant="caption" color={theme.textSecondary} style={styles.calculationText}>
+                                {describeQuantityCalculation(calculations[question.id])}
+                            </Text>
+                        )}
+                        {errors[question.id] && (
+                            <Text variant="caption" color={theme.error} style={styles.errorText}>
+                                {errors[question.id]}
+                            </Text>
+                        )}
+                    </Card>
+                ))}
+            {calculatorQuestion?.calculator && (
+                <QuantityCalculatorModal
+                    visible
+                    type={calculatorQuestion.calculator}
+                    initial={calculations[calculatorQuestion.id]}
+                    onClose={() => setCalculatorQuestion(null)}
+                    onApply={handleApplyCalculation}
+                />
+            )}
+        </>
+    );
+}
+
+const styles = StyleSheet.create({
+    formCard: {
+        marginBottom: 16,
+    },
+    calculatorButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+        marginTop: 12,
+    },
+    calculationText: {
+        marginTop: 6,
+    },
+    fieldLabel: {
+        marginBottom: 12,
+    },
+    optionsRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 12,
+    },
+    optionButton: {
+        flex: 1,
+        minWidth: 100,
+        paddingVertical: 12,
+        paddingHorizontal: 16,
+        borderRadius: 12,
+        borderWidth: 1.5,
+        alignItems: 'center',
+    },
+    inputRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        borderWidth: 1.5,
+        borderRadius: 12,
+        paddingHorizontal: 16,
+    },
+    input: {
+        flex: 1,
+        paddingVertical: 12,
+        fontSize: 16,
+    },
+    textArea: {
+        borderWidth: 1.5,
+        borderRadius: 12,
+        paddingHorizontal: 16,
+        minHeight: 96,
+        textAlignVertical: 'top',
+    },
+    photosRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 8,
+    },
+    photo: {
+        width: 72,
+        height: 72,
+        borderRadius: 8,
+    },
+    addPhoto: {
+        borderWidth: 1.5,
+        borderStyle: 'dashed',
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    removeBadge: {
+        position: 'absolute',
+        top: 4,
+        right: 4,
+        width: 18,
+        height: 18,
+        borderRadius: 9,
+        backgroundColor: 'rgba(0, 0, 0, 0.6)',
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    errorText: {
+        marginTop: 8,
+    },
+});
@@ -0,0 +1,225 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, TouchableOpacity, Image, Linking, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/contexts/ThemeContext';
+import { Text } from '@/components/Text';
+import { Card } from '@/components/Card';
+import { Button } from '@/components/Button';
+import { formatPrice } from '@/services/priceFormatter';
+import { ServiceMaterial } from '@/services/quotes';
+import { MATERIAL_STATUS_LABELS, getMaterialLineTotal, summarizeMaterials } from '@/services/materials';
+
+interface LeadMaterialsSectionProps {
+    materials: ServiceMaterial[];
+    /** Aprobar o rechazar renglones; `ids` vacío no hace nada */
+    onRespond: (ids: string[], approved: boolean) => Promise<void>;
+}
+
+/**
+ * Materiales propuestos por el profesional: aprobación por renglón o en bloque, totales y tickets de compra
+ */
+export function LeadMaterialsSection({ materials, onRespond }: LeadMaterialsSectionProps) {
+    const { theme } = useTheme();
+    // Renglón en proceso ('all' para aprobar todo)
+    const [busy, setBusy] = useState<string | null>(null);
+
+    const summary = summarizeMaterials(materials);
+    const pendingIds = materials.filter(m => m.status === 'pending' && m.id).map(m => m.id!);
+
+    const respond = async (key: string, ids: string[], approved: boolean) => {
+        setBusy(key);
+        try {
+            await onRespond(ids, approved);
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const statusColor = (material: ServiceMaterial) => {
+        switch (material.status) {
+            case 'approved': return theme.primary;
+            case 'purchased': return theme.success;
+            case 'rejected': return theme.error;
+            default: return theme.warning;
+        }
+    };
+
+    const renderMaterial = (material: ServiceMaterial) => {
+        const status = material.status || 'pending';
+        const attachments = [...(material.receipt_urls || []), ...(material.photo_urls || [])];
+        const isBusy = busy === material.id;
+
+        return (
+            <View key={material.id} style={[styles.materialRow, { borderTopColor: theme.border }]}>
+                <View style={styles.materialHeader}>
+                    <View style={{ flex: 1 }}>
+                        <Text
+                            variant="body"
+                            weight="medium"
+                            style={status === 'rejected' ? styles.rejected : undefined}
+                        >
+                            {material.material_name}
+                        </Text>
+                        <Text variant="caption" color={theme.textSecondary}>
+                            {material.quantity} {material.unit} × {formatPrice(material.unit_price)}
+                            {material.purchase_service_fee > 0 ? ` + ${formatPrice(material.purchase_service_fee)} por compra` : ''}
+                        </Text>
+                    </View>
+                    <View style={styles.materialAmount}>
+                        <Text variant="body" weight="bold">
+                            {formatPrice(getMaterialLineTotal(material))}
+                        </Text>
+                        <Text variant="caption" weight="medium" color={statusColor(material)}>
+                            {MATERIAL_STATUS_LABELS[status]}
+                        </Text>
+                    </View>
+                </View>
+
+                {!!material.notes && (
+                    <Text variant="caption" color={theme.textSecondary} style={styles.notes}>
+                        {material.notes}
+                    </Text>
+                )}
+
+                {status === 'pending' && material.id && (
+                    <View style={styles.lineActions}>
+                        {isBusy ? (
+                            <ActivityIndicator color={theme.primary} />
+                        ) : (
+                            <>
+                                <TouchableOpacity
+                                    style={[styles.lineButton, { borderColor: theme.error }]}
+                                    onPress={() => respond(material.id!, [material.id!], false)}
+                                    disabled={!!busy}
+                                    activeOpacity={0.7}
+                                >
+                                    <Ionicons name="close" size={16} color={theme.error} />
+                                    <Text variant="caption" weight="medium" color={theme.error}>Rechazar</Text>
+                                </TouchableOpacity>
+                                <TouchableOpacity
+                                    style={[styles.lineButton, { borderColor: theme.success }]}
+                                    onPress={() => respond(material.id!, [material.id!], true)}
+                                    disabled={!!busy}
+                                    activeOpacity={0.7}
+                                >
+                                    <Ionicons name="checkmark" size={16} color={theme.success} />
+                                    <Text variant="caption" weight="medium" color={theme.success}>Aprobar</Text>
+                                </TouchableOpacity>
+                            </>
+                        )}
+                    </View>
+                )}
+
+                {status === 'purchased' && attachments.length > 0 && (
+                    <View style={styles.attachments}>
+                        {attachments.map(url => (
+                            <TouchableOpacity key={url} onPress={() => Linking.openURL(url)} activeOpacity={0.7}>
+                                <Image source={{ uri: url }} style={styles.attachment} />
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+                )}
+            </View>
+        );
+    };
+
+    return (
+        <Card variant="elevated" style={styles.card}>
+            {materials.map(renderMaterial)}
+
+            <View style={[styles.totals, { borderTopColor: theme.border }]}>
+                {summary.pending.count > 0 && (
+                    <View style={styles.totalRow}>
+                        <Text variant="caption" color={theme.textSecondary}>
+                            Por aprobar ({summary.pending.count})
+                        </Text>
+                        <Text variant="caption" color={theme.textSecondary}>{formatPrice(summary.pending.total)}</Text>
+                    </View>
+                )}
+                {summary.purchased.count > 0 && (
+                    <View style={styles.totalRow}>
+                        <Text variant="caption" color={theme.textSecondary}>
+                            Comprado ({summary.purchased.count})
+                        </Text>
+                        <Text variant="caption" color={theme.textSecondary}>{formatPrice(summary.purchased.total)}</Text>
+                    </View>
+                )}
+                <View style={styles.totalRow}>
+                    <Text variant="body" weight="bold">Total aprobado</Text>
+                    <Text variant="body" weight="bold" color={theme.primary}>{formatPrice(summary.committed)}</Text>
+                </View>
+            </View>
+
+            {pendingIds.length > 1 && (
+                <Button
+                    title={`Aprobar todo (${formatPrice(summary.pending.total)})`}
+                    onPress={() => respond('all', pendingIds, true)}
+                    loading={busy === 'all'}
+                    disabled={!!busy}
+                    style={styles.approveAll}
+                />
+            )}
+        </Card>
+    );
+}
+
+const styles = StyleSheet.create({
+    card: {
+        padding: 16,
+    },
+    materialRow: {
+        paddingVertical: 12,
+        borderTopWidth: 1,
+    },
+    materialHeader: {
+        flexDirection: 'row',
+        gap: 12,
+    },
+    materialAmount: {
+        alignItems: 'flex-end',
+    },
+    rejected: {
+        textDecorationLine: 'line-through',
+    },
+    notes: {
+        marginTop: 4,
+    },
+    lineActions: {
+        flexDirection: 'row',
+        justifyContent: 'flex-end',
+        gap: 8,
+        marginTop: 8,
+    },
+    lineButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 12,
+        borderWidth: 1.5,
+    },
+    attachments: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 8,
+        marginTop: 8,
+    },
+    attachment: {
+        width: 56,
+        height: 56,
+        borderRadius: 8,
+    },
+    totals: {
+        paddingTop: 12,
+        borderTopWidth: 1,
+        gap: 4,
+    },
+    totalRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+    },
+    approveAll: {
+        marginTop: 12,
+    },
+});
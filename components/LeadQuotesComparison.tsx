@@ -0,0 +1,307 @@
+import React, { useMemo, useState } from 'react';
+import { View, StyleSheet, TouchableOpacity, Image } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/contexts/ThemeContext';
+import { Text } from '@/components/Text';
+import { Card } from '@/components/Card';
+import { Button } from '@/components/Button';
+import { resolveAvatarUrl } from '@/utils/avatar';
+import { formatPrice } from '@/services/priceFormatter';
+import {
+    LEAD_QUOTE_SORT_LABELS,
+    LeadQuote,
+    LeadQuoteHighlight,
+    LeadQuoteSort,
+    RankedLeadQuote,
+    getMaterialsTotal,
+    rankLeadQuotes,
+} from '@/services/leadQuotes';
+
+interface LeadQuotesComparisonProps {
+    /** Cotizaciones pendientes del lead */
+    quotes: LeadQuote[];
+    /** Ubicación del servicio para calcular distancias */
+    origin?: { lat: number; lng: number } | null;
+    onAccept: (quote: RankedLeadQuote) => void;
+    /** Cotización que se está aceptando (deshabilita las demás) */
+    acceptingId?: string | null;
+}
+
+const SORT_OPTIONS: LeadQuoteSort[] = ['best', 'price', 'rating', 'distance'];
+
+const HIGHLIGHT_LABELS: Record<LeadQuoteHighlight, { label: string; icon: keyof typeof Ionicons.glyphMap }> = {
+    cheapest: { label: 'Mejor precio', icon: 'pricetag' },
+    top_rated: { label: 'Mejor calificado', icon: 'star' },
+    closest: { label: 'Más cercano', icon: 'navigate' },
+};
+
+function formatDuration(minutes: number): string {
+    if (minutes < 60) return `${minutes} min`;
+    const hours = Math.floor(minutes / 60);
+    const rest = minutes % 60;
+    return rest > 0 ? `${hours} h ${rest} min` : `${hours} h`;
+}
+
+function formatAvailability(date: string): string {
+    return new Date(date).toLocaleDateString('es-MX', { weekday: 'short', day: 'numeric', month: 'short' });
+}
+
+/**
+ * Comparación lado a lado de las cotizaciones de varios profesionales
+ */
+export function LeadQuotesComparison({ quotes, origin, onAccept, acceptingId }: LeadQuotesComparisonProps) {
+    const { theme } = useTheme();
+    const [sortBy, setSortBy] = useState<LeadQuoteSort>('best');
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+
+    const ranked = useMemo(() => rankLeadQuotes(quotes, origin, sortBy), [quotes, origin, sortBy]);
+
+    const renderQuote = (quote: RankedLeadQuote, index: number) => {
+        const { professional } = quote;
+        const isExpanded = expandedId === quote.id;
+        const materialsTotal = getMaterialsTotal(quote.materials);
+
+        return (
+            <Card
+                key={quote.id}
+                variant="elevated"
+                style={[styles.quoteCard, index === 0 && { borderWidth: 1.5, borderColor: theme.primary }]}
+            >
+                <View style={styles.quoteHeader}>
+                    {professional.avatar_url ? (
+                        <Image source={{ uri: resolveAvatarUrl(professional.avatar_url) }} style={styles.avatar} />
+                    ) : (
+                        <View style={[styles.avatar, styles.avatarPlaceholder, { backgroundColor: theme.primary + '15' }]}>
+                            <Ionicons name="person" size={22} color={theme.primary} />
+                        </View>
+                    )}
+                    <View style={styles.professionalInfo}>
+                        <Text variant="body" weight="bold" numberOfLines={1}>
+                            {professional.name}
+                        </Text>
+                        <View style={styles.metaRow}>
+                            <Ionicons name="star" size={14} color="#FBBF24" />
+                            <Text variant="caption" color={theme.textSecondary}>
+                                {professional.rating !== null ? professional.rating.toFixed(1) : 'Nuevo'}
+                            </Text>
+                            {quote.distance_km !== null && (
+                                <>
+                                    <Ionicons name="location-outline" size={14} color={theme.textSecondary} />
+                                    <Text variant="caption" color={theme.textSecondary}>
+                                        {quote.distance_km.toFixed(1)} km
+                                    </Text>
+                                </>
+                            )}
+                        </View>
+                    </View>
+                    <Text variant="h3" weight="bold" color={theme.primary}>
+                        {formatPrice(quote.price)}
+                    </Text>
+                </View>
+
+                {quote.highlights.length > 0 && (
+                    <View style={styles.highlightsRow}>
+                        {quote.highlights.map(highlight => (
+                            <View key={highlight} style={[styles.highlight, { backgroundColor: theme.success + '15' }]}>
+                                <Ionicons name={HIGHLIGHT_LABELS[highlight].icon} size={12} color={theme.success} />
+                                <Text variant="caption" weight="medium" color={theme.success}>
+                                    {HIGHLIGHT_LABELS[highlight].label}
+                                </Text>
+                            </View>
+                        ))}
+                    </View>
+                )}
+
+                <View style={styles.detailsRow}>
+                    <View style={styles.detailItem}>
+                        <Ionicons name="time-outline" size={16} color={theme.textSecondary} />
+                        <Text variant="caption" color={theme.textSecondary}>
+                            {quote.estimated_duration_minutes ? formatDuration(quote.estimated_duration_minutes) : 'Duración por definir'}
+                        </Text>
+                    </View>
+                    <View style={styles.detailItem}>
+                        <Ionicons name="calendar-outline" size={16} color={theme.textSecondary} />
+                        <Text variant="caption" color={theme.textSecondary}>
+                            {quote.available_from ? `Desde ${formatAvailability(quote.available_from)}` : 'Disponibilidad por confirmar'}
+                        </Text>
+                    </View>
+                </View>
+
+                {(quote.materials.length > 0 || !!quote.notes) && (
+                    <TouchableOpacity
+                        style={styles.toggleDetails}
+                        onPress={() => setExpandedId(isExpanded ? null : quote.id)}
+                        activeOpacity={0.7}
+                    >
+                        <Text variant="caption" weight="medium" color={theme.primary}>
+                            {isExpanded ? 'Ocultar detalle' : 'Ver materiales y notas'}
+                        </Text>
+                        <Ionicons name={isExpanded ? 'chevron-up' : 'chevron-down'} size={14} color={theme.primary} />
+                    </TouchableOpacity>
+                )}
+
+                {isExpanded && (
+                    <View style={[styles.expanded, { borderTopColor: theme.border }]}>
+                        {quote.materials.map((material, materialIndex) => (
+                            <View key={`${material.name}-${materialIndex}`} style={styles.materialRow}>
+                                <Text variant="caption" style={{ flex: 1 }}>
+                                    {material.quantity} × {material.name}
+                                </Text>
+                                {material.unit_price !== undefined && (
+                                    <Text variant="caption" color={theme.textSecondary}>
+                                        {formatPrice(material.unit_price * material.quantity)}
+                                    </Text>
+                                )}
+                            </View>
+                        ))}
+                        {materialsTotal > 0 && (
+                            <Text variant="caption" color={theme.textSecondary} style={styles.materialsTotal}>
+                                Incluye {formatPrice(materialsTotal)} en materiales
+                            </Text>
+                        )}
+                        {!!quote.notes && (
+                            <Text variant="caption" color={theme.textSecondary} style={styles.notes}>
+                                "{quote.notes}"
+                            </Text>
+                        )}
+                    </View>
+                )}
+
+                <Button
+                    title="Aceptar cotización"
+                    onPress={() => onAccept(quote)}
+                    variant={index === 0 ? 'primary' : 'outline'}
+                    size="sm"
+                    loading={acceptingId === quote.id}
+                    disabled={!!acceptingId}
+                    style={styles.acceptButton}
+                />
+            </Card>
+        );
+    };
+
+    return (
+        <View>
+            <View style={styles.sortRow}>
+                {SORT_OPTIONS.map(option => {
+                    const selected = option === sortBy;
+                    return (
+                        <TouchableOpacity
+                            key={option}
+                            style={[
+                                styles.sortChip,
+                                { borderColor: theme.border },
+                                selected && { backgroundColor: theme.primary, borderColor: theme.primary },
+                            ]}
+                            onPress={() => setSortBy(option)}
+                            activeOpacity={0.7}
+                        >
+                            <Text variant="caption" weight="medium" style={[selected && { color: '#FFFFFF' }]}>
+                                {LEAD_QUOTE_SORT_LABELS[option]}
+                            </Text>
+                        </TouchableOpacity>
+                    );
+                })}
+            </View>
+            <Text variant="caption" color={theme.textSecondary} style={styles.hint}>
+                Al aceptar una cotización, las demás se declinan automáticamente.
+            </Text>
+            {ranked.map(renderQuote)}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    sortRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 8,
+        marginBottom: 8,
+    },
+    sortChip: {
+        paddingVertical: 6,
+        paddingHorizontal: 12,
+        borderRadius: 16,
+        borderWidth: 1.5,
+    },
+    hint: {
+        marginBottom: 12,
+    },
+    quoteCard: {
+        padding: 16,
+        marginBottom: 12,
+    },
+    quoteHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+    },
+    avatar: {
+        width: 44,
+        height: 44,
+        borderRadius: 22,
+    },
+    avatarPlaceholder: {
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    professionalInfo: {
+        flex: 1,
+    },
+    metaRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        marginTop: 2,
+    },
+    highlightsRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 6,
+        marginTop: 12,
+    },
+    highlight: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        paddingHorizontal: 8,
+        paddingVertical: 4,
+        borderRadius: 10,
+    },
+    detailsRow: {
+        marginTop: 12,
+        gap: 6,
+    },
+    detailItem: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+    },
+    toggleDetails: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        marginTop: 12,
+    },
+    expanded: {
+        marginTop: 8,
+        paddingTop: 8,
+        borderTopWidth: 1,
+        gap: 4,
+    },
+    materialRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        gap: 8,
+    },
+    materialsTotal: {
+        marginTop: 4,
+    },
+    notes: {
+        marginTop: 8,
+        fontStyle: 'italic',
+    },
+    acceptButton: {
+        marginTop: 16,
+    },
+});
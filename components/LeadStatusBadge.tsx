@@ -0,0 +1,34 @@
+import React from 'react';
+import { ViewStyle } from 'react-native';
+import { Badge } from './Badge';
+import { LeadStatus, LEAD_STATUS_LABELS } from '@/services/leadLifecycle';
+
+type BadgeVariant = React.ComponentProps<typeof Badge>['variant'];
+
+const STATUS_VARIANTS: Record<LeadStatus, BadgeVariant> = {
+    pending: 'fast-response',
+    accepted: 'verified',
+    scheduled: 'verified',
+    in_progress: 'new',
+    completed: 'guarantee',
+    cancelled: 'cancelled',
+    disputed: 'danger',
+};
+
+interface LeadStatusBadgeProps {
+    status: LeadStatus;
+    style?: ViewStyle;
+}
+
+/**
+ * Badge del estado de una solicitud (misma etiqueta/color en todas las pantallas)
+ */
+export function LeadStatusBadge({ status, style }: LeadStatusBadgeProps) {
+    return (
+        <Badge
+            variant={STATUS_VARIANTS[status]}
+            label={LEAD_STATUS_LABELS[status]}
+            style={style}
+        />
+    );
+}
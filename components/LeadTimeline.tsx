@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/contexts/ThemeContext';
+import { Text } from '@/components/Text';
+import { Card } from '@/components/Card';
+import {
+    LEAD_EVENT_ACTOR_LABELS,
+    LeadEvent,
+    LeadEventType,
+    describeLeadEvent,
+} from '@/services/leadEvents';
+
+interface LeadTimelineProps {
+    /** Eventos en orden cronológico (ver buildLeadTimeline) */
+    events: LeadEvent[];
+}
+
+/** Eventos visibles antes de "Ver todo" (los más recientes) */
+const COLLAPSED_COUNT = 6;
+
+const EVENT_ICONS: Record<LeadEventType, keyof typeof Ionicons.glyphMap> = {
+    created: 'add-circle-outline',
+    edited: 'create-outline',
+    status_changed: 'flag-outline',
+    appointment_changed: 'calendar-outline',
+    price_changed: 'cash-outline',
+    message: 'chatbubble-outline',
+    photos_added: 'images-outline',
+    guarantee_claim: 'shield-checkmark-outline',
+};
+
+function formatEventDate(date: string | null): string {
+    if (!date) return '';
+    return new Date(date).toLocaleString('es-MX', {
+        day: 'numeric',
+        month: 'short',
+        hour: '2-digit',
+        minute: '2-digit',
+    });
+}
+
+/**
+ * Historial de actividad del lead: quién hizo qué y cuándo
+ */
+export function LeadTimeline({ events }: LeadTimelineProps) {
+    const { theme } = useTheme();
+    const [expanded, setExpanded] = useState(false);
+
+    const hiddenCount = expanded ? 0 : Math.max(0, events.length - COLLAPSED_COUNT);
+    const visible = events.slice(hiddenCount);
+
+    const iconColor = (event: LeadEvent) => {
+        if (event.type === 'status_changed' && event.payload.to) {
+            const to = String(event.payload.to).toLowerCase();
+            if (to.startsWith('cancel')) return theme.error;
+            if (to.startsWith('complet')) return theme.success;
+        }
+        if (event.type === 'price_changed') return theme.warning;
+        return theme.primary;
+    };
+
+    return (
+        <Card variant="elevated" style={styles.card}>
+            {hiddenCount > 0 && (
+                <TouchableOpacity style={styles.showAll} onPress={() => setExpanded(true)} activeOpacity={0.7}>
+                    <Ionicons name="chevron-up" size={16} color={theme.primary} />
+                    <Text variant="caption" weight="medium" color={theme.primary}>
+                        Ver {hiddenCount} evento(s) anterior(es)
+                    </Text>
+                </TouchableOpacity>
+            )}
+
+            {visible.map((event, index) => {
+                const { title, detail } = describeLeadEvent(event);
+                const isLast = index === visible.length - 1;
+                const color = iconColor(event);
+
+                return (
+                    <View key={event.id} style={styles.row}>
+                        <View style={styles.rail}>
+                            <View style={[styles.iconCircle, { backgroundColor: color + '1A' }]}>
+                                <Ionicons name={EVENT_ICONS[event.type]} size={16} color={color} />
+                            </View>
+                            {!isLast && <View style={[styles.line, { backgroundColor: theme.border }]} />}
+                        </View>
+                        <View style={[styles.content, !isLast && styles.contentSpacing]}>
+                            <Text variant="body" weight="medium">{title}</Text>
+                            {!!detail && (
+                                <Text variant="caption" color={theme.textSecondary} numberOfLines={3}>
+                                    {detail}
+                                </Text>
+                            )}
+                            <Text variant="caption" color={theme.textSecondary} style={styles.meta}>
+                                {LEAD_EVENT_ACTOR_LABELS[event.actor_role]} · {formatEventDate(event.created_at)}
+                            </Text>
+                        </View>
+                    </View>
+                );
+            })}
+        </Card>
+    );
+}
+
+const styles = StyleSheet.create({
+    card: {
+        padding: 16,
+    },
+    showAll: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        marginBottom: 12,
+    },
+    row: {
+        flexDirection: 'row',
+        gap: 12,
+    },
+    rail: {
+        alignItems: 'center',
+    },
+    iconCircle: {
+        width: 32,
+        height: 32,
+        borderRadius: 16,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    line: {
+        width: 2,
+        flex: 1,
+        marginVertical: 4,
+    },
+    content: {
+        flex: 1,
+        paddingTop: 4,
+    },
+    contentSpacing: {
+        paddingBottom: 16,
+    },
+    meta: {
+        marginTop: 2,
+    },
+});
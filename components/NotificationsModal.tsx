@@ -14,22 +14,30 @@ import {
     KeyboardAvoidingView,
     Platform,
     Switch,
-    Alert,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '@/contexts/ThemeContext';
 import { Text } from '@/components/Text';
 import { Card } from '@/components/Card';
+import { ErrorBanner } from '@/components/ErrorBanner';
 import { TULBOX_COLORS } from '@/constants/Colors';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/contexts/AuthContext';
+import { AppError, reportError, isMissingColumnError, isNoRowsError } from '@/services/errors';
+import {
+    DEFAULT_DRAFT_REMINDER_SETTINGS,
+    DRAFT_REMINDER_HOURS_OPTIONS,
+    DraftReminderSettings,
+    requestDrafts,
+} from '@/services/requestDrafts';
 
 interface NotificationsModalProps {
     visible: boolean;
     onClose: () => void;
 }
 
-interface NotificationSettings {
+// Alias de tipo (no interface) para que sea asignable a la columna JSON `notification_settings`
+type NotificationSettings = {
     push_enabled: boolean;
     professional_communication: boolean; // Avisos del profesional
     platform_notifications: boolean; // Avisos de plataforma
@@ -38,7 +46,7 @@ interface NotificationSettings {
     quiet_hours_enabled: boolean;
     quiet_hours_start: string;
     quiet_hours_end: string;
-}
+};
 
 const DEFAULT_SETTINGS: NotificationSettings = {
     push_enabled: true,
@@ -57,6 +65,9 @@ export function NotificationsModal({ visible, onClose }: NotificationsModalProps
     const [settings, setSettings] = useState<NotificationSettings>(DEFAULT_SETTINGS);
     const [loading, setLoading] = useState(false);
     const [saving, setSaving] = useState(false);
+    const [saveError, setSaveError] = useState<AppError | null>(null);
+    // Recordatorio de solicitudes sin terminar (se guarda en el dispositivo)
+    const [draftReminder, setDraftReminder] = useState<DraftReminderSettings>(DEFAULT_DRAFT_REMINDER_SETTINGS);
 
     // Cargar configuración del usuario
     useEffect(() => {
@@ -70,6 +81,8 @@ export function NotificationsModal({ visible, onClose }: NotificationsModalProps
 
         try {
             setLoading(true);
+            setSaveError(null);
+            setDraftReminder(await requestDrafts.getReminderSettings());
             const { data, error } = await supabase
                 .from('profiles')
                 .select('notification_settings')
@@ -78,12 +91,12 @@ export function NotificationsModal({ visible, onClose }: NotificationsModalProps
 
             // Si la columna no existe (42703) o no hay datos (PGRST116), usar valores por defecto
             if (error) {
-                if (error.code === '42703') {
+                if (isMissingColumnError(error)) {
                     // Columna no existe - usar valores por defecto
                     console.log('[NotificationsModal] Columna notification_settings no existe, usando valores por defecto');
                     console.log('[NotificationsModal] Ejecuta CREAR_COLUMNA_NOTIFICATION_SETTINGS.sql en Supabase');
                     setSettings(DEFAULT_SETTINGS);
-                } else if (error.code === 'PGRST116') {
+                } else if (isNoRowsError(error)) {
                     // No hay datos - usar valores por defecto
                     setSettings(DEFAULT_SETTINGS);
                 } else {
@@ -98,7 +111,7 @@ export function NotificationsModal({ visible, onClose }: NotificationsModalProps
             if (data?.notification_settings) {
                 setSettings({
                     ...DEFAULT_SETTINGS,
-                    ...data.notification_settings,
+                    ...(data.notification_settings as Partial<NotificationSettings>),
                 });
             } else {
                 // Si no hay notification_settings, usar valores por defecto
@@ -118,6 +131,8 @@ export function NotificationsModal({ visible, onClose }: NotificationsModalProps
 
         try {
             setSaving(true);
+            setSaveError(null);
+            await requestDrafts.setReminderSettings(user.id, draftReminder);
             const { error } = await supabase
                 .from('profiles')
                 .update({
@@ -127,36 +142,17 @@ export function NotificationsModal({ visible, onClose }: NotificationsModalProps
                 .eq('user_id', user.id);
 
             if (error) {
-                if (error.code === '42703') {
-                    // Columna no existe
-                    console.error('[NotificationsModal] Error: La columna notification_settings no existe');
+                if (isMissingColumnError(error)) {
                     console.error('[NotificationsModal] Por favor ejecuta CREAR_COLUMNA_NOTIFICATION_SETTINGS.sql en Supabase');
-                    // TODO: Mostrar alerta al usuario
-                    Alert.alert(
-                        'Configuración Pendiente',
-                        'La columna de notificaciones no está configurada en la base de datos. Por favor ejecuta el script SQL en Supabase o contacta a soporte.',
-                        [{ text: 'OK' }]
-                    );
-                } else {
-                    console.error('[NotificationsModal] Error saving settings:', error);
-                    Alert.alert(
-                        'Error',
-                        'Error al guardar la configuración. Intenta de nuevo.',
-                        [{ text: 'OK' }]
-                    );
                 }
+                setSaveError(reportError('NotificationsModal', error, 'Error al guardar la configuración. Intenta de nuevo.'));
                 return;
             }
 
             // Cerrar modal después de guardar exitosamente
             onClose();
         } catch (error) {
-            console.error('[NotificationsModal] Error saving settings:', error);
-            Alert.alert(
-                'Error',
-                'Error al guardar la configuración. Intenta de nuevo.',
-                [{ text: 'OK' }]
-            );
+            setSaveError(reportError('NotificationsModal', error, 'Error al guardar la configuración. Intenta de nuevo.'));
         } finally {
             setSaving(false);
         }
@@ -323,6 +319,55 @@ export function NotificationsModal({ visible, onClose }: NotificationsModalProps
                                     </>
                                 )}
 
+                                {/* Solicitudes sin terminar (recordatorio local, no depende de push) */}
+                                <View style={styles.section}>
+                                    <Text variant="body" weight="bold" style={styles.sectionTitle}>
+                                        Solicitudes sin Terminar
+                                    </Text>
+                                    <Card variant="elevated" style={[styles.sectionCard, { backgroundColor: theme.surface }]}>
+                                        <NotificationToggle
+                                            icon="document-text-outline"
+                                            title="Recordarme terminarlas"
+                                            description="Al abrir la app te avisamos si dejaste una solicitud a medias"
+                                            value={draftReminder.enabled}
+                                            onToggle={() => setDraftReminder(prev => ({ ...prev, enabled: !prev.enabled }))}
+                                            theme={theme}
+                                        />
+                                        {draftReminder.enabled && (
+                                            <View style={styles.reminderOptions}>
+                                                {DRAFT_REMINDER_HOURS_OPTIONS.map(hours => {
+                                                    const selected = draftReminder.after_hours === hours;
+                                                    return (
+                                                        <TouchableOpacity
+                                                            key={hours}
+                                                            style={[
+                                                                styles.reminderChip,
+                                                                { borderColor: selected ? TULBOX_COLORS.PURPLE : theme.border },
+                                                                selected && { backgroundColor: TULBOX_COLORS.PURPLE },
+                                                            ]}
+                                                            onPress={() => setDraftReminder(prev => ({ ...prev, after_hours: hours }))}
+                                                            activeOpacity={0.7}
+                                                        >
+                                                            <Text variant="caption" weight="medium" color={selected ? '#FFFFFF' : theme.text}>
+                                                                {hours === 24 ? 'Después de 1 día' : `Después de ${hours / 24} días`}
+                                                            </Text>
+                                                        </TouchableOpacity>
+                                                    );
+                                                })}
+                                            </View>
+                                        )}
+                                    </Card>
+                                </View>
+
+                                {saveError && (
+                                    <ErrorBanner
+                                        error={saveError}
+                                        onRetry={saveSettings}
+                                        onDismiss={() => setSaveError(null)}
+                                        style={styles.saveError}
+                                    />
+                                )}
+
                                 {/* Botón Guardar */}
                                 <TouchableOpacity
                                     style={[styles.saveButton, { backgroundColor: TULBOX_COLORS.PURPLE }]}
@@ -463,6 +508,21 @@ const styles = StyleSheet.create({
         paddingHorizontal: 16,
         paddingBottom: 16,
     },
+    reminderOptions: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 8,
+        marginTop: 12,
+    },
+    reminderChip: {
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 16,
+        borderWidth: 1.5,
+    },
+    saveError: {
+        marginTop: 16,
+    },
     saveButton: {
         flexDirection: 'row',
         alignItems: 'center',
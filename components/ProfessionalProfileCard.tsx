@@ -20,6 +20,7 @@ import { useTheme } from '@/contexts/ThemeContext';
 import { useRouter } from 'expo-router';
 import { TULBOX_COLORS } from '@/constants/Colors';
 import { supabase } from '@/lib/supabase';
+import { isNoRowsError } from '@/services/errors';
 import { resolveAvatarUrl } from '@/utils/avatar';
 import { openWhatsApp } from '@/utils/whatsapp';
 
@@ -119,7 +120,7 @@ export function ProfessionalProfileCard({
                 console.error('[ProfessionalProfileCard] Error hint:', profileError.hint);
 
                 // Si es un error de "no encontrado", intentar sin .single() para ver si hay datos
-                if (profileError.code === 'PGRST116') {
+                if (isNoRowsError(profileError)) {
                     console.log('[ProfessionalProfileCard] Trying without .single()...');
                     const { data: altData, error: altError } = await supabase
                         .from('profiles')
@@ -250,7 +251,7 @@ export function ProfessionalProfileCard({
                 jobs_completed_count: statsData?.jobs_completed_count || 0,
                 total_points: statsData?.total_points || 0,
                 current_level_id: statsData?.current_level_id || 1,
-                expediente_status: statsData?.expediente_status,
+                expediente_status: statsData?.expediente_status ?? undefined,
                 top_badges: (badgesData || []).map((b: any) => {
                     // Mapear badge_id a información conocida
                     const badgeMap: Record<string, { name: string; icon: string; level: string }> = {
@@ -0,0 +1,182 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, StyleSheet, Modal, TouchableOpacity, ScrollView, TextInput, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/contexts/ThemeContext';
+import { Text } from '@/components/Text';
+import { CategoryGroup, ServiceItem, ServicesService } from '@/services/services';
+import { formatPrice } from '@/services/priceFormatter';
+
+interface ProjectServicePickerModalProps {
+    visible: boolean;
+    /** Servicios que ya están en el proyecto (no se pueden repetir) */
+    selectedIds: string[];
+    onClose: () => void;
+    onSelect: (service: ServiceItem) => void;
+}
+
+/**
+ * Elegir un servicio del catálogo para agregarlo como renglón de un proyecto
+ */
+export function ProjectServicePickerModal({ visible, selectedIds, onClose, onSelect }: ProjectServicePickerModalProps) {
+    const { theme } = useTheme();
+    const [groups, setGroups] = useState<CategoryGroup[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [search, setSearch] = useState('');
+
+    useEffect(() => {
+        if (!visible || groups.length > 0) return;
+        setLoading(true);
+        ServicesService.getAllServicesGrouped()
+            .then(setGroups)
+            .finally(() => setLoading(false));
+    }, [visible]);
+
+    const filteredGroups = useMemo(() => {
+        const term = search.trim().toLowerCase();
+        if (!term) return groups;
+        return groups
+            .map(group => ({
+                ...group,
+                services: group.services.filter(service =>
+                    service.service_name.toLowerCase().includes(term) || group.name.toLowerCase().includes(term)
+                ),
+            }))
+            .filter(group => group.services.length > 0);
+    }, [groups, search]);
+
+    const handleSelect = (service: ServiceItem) => {
+        onSelect(service);
+        setSearch('');
+    };
+
+    return (
+        <Modal
+            visible={visible}
+            animationType="fade"
+            transparent={true}
+            onRequestClose={onClose}
+        >
+            <SafeAreaView style={styles.overlay}>
+                <View style={[styles.modalContent, { backgroundColor: theme.card }]}>
+                    <View style={styles.header}>
+                        <Text variant="h3" weight="bold" style={{ flex: 1 }}>
+                            Agregar servicio
+                        </Text>
+                        <TouchableOpacity onPress={onClose} activeOpacity={0.7} accessibilityLabel="Cerrar">
+                            <Ionicons name="close" size={24} color={theme.text} />
+                        </TouchableOpacity>
+                    </View>
+
+                    <TextInput
+                        style={[styles.search, { backgroundColor: theme.background, color: theme.text, borderColor: theme.border }]}
+                        value={search}
+                        onChangeText={setSearch}
+                        placeholder="Buscar: pintura, contactos, fuga..."
+                        placeholderTextColor={theme.textSecondary}
+                    />
+
+                    {loading ? (
+                        <ActivityIndicator color={theme.primary} style={styles.loading} />
+                    ) : (
+                        <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+                            {filteredGroups.length === 0 && (
+                                <Text variant="body" color={theme.textSecondary} style={styles.empty}>
+                                    No encontramos servicios con ese nombre
+                                </Text>
+                            )}
+                            {filteredGroups.map(group => (
+                                <View key={group.id} style={styles.group}>
+                                    <Text variant="caption" weight="bold" color={theme.textSecondary} style={styles.groupTitle}>
+                                        {group.name.toUpperCase()}
+                                    </Text>
+                                    {group.services.map(service => {
+                                        const added = selectedIds.includes(service.id);
+                                        return (
+                                            <TouchableOpacity
+                                                key={service.id}
+                                                style={[styles.serviceRow, { borderColor: theme.border }, added && { opacity: 0.5 }]}
+                                                onPress={() => handleSelect(service)}
+                                                disabled={added}
+                                                activeOpacity={0.7}
+                                            >
+                                                <Text variant="body" style={{ flex: 1 }} numberOfLines={1}>
+                                                    {service.service_name}
+                                                </Text>
+                                                {added ? (
+                                                    <Ionicons name="checkmark" size={18} color={theme.success} />
+                                                ) : (
+                                                    <Text variant="caption" color={theme.textSecondary}>
+                                                        desde {formatPrice(service.min_price)}
+                                                    </Text>
+                                                )}
+                                            </TouchableOpacity>
+                                        );
+                                    })}
+                                </View>
+                            ))}
+                        </ScrollView>
+                    )}
+                </View>
+            </SafeAreaView>
+        </Modal>
+    );
+}
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0,0,0,0.6)',
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: 20,
+    },
+    modalContent: {
+        borderRadius: 24,
+        width: '100%',
+        maxWidth: 500,
+        maxHeight: '85%',
+        overflow: 'hidden',
+        padding: 20,
+        elevation: 5,
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 4 },
+        shadowOpacity: 0.25,
+        shadowRadius: 10,
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        marginBottom: 12,
+    },
+    search: {
+        borderWidth: 1,
+        borderRadius: 12,
+        padding: 12,
+        fontSize: 16,
+        marginBottom: 12,
+    },
+    loading: {
+        padding: 40,
+    },
+    scrollView: {
+        maxHeight: 440,
+    },
+    empty: {
+        textAlign: 'center',
+        padding: 20,
+    },
+    group: {
+        marginBottom: 12,
+    },
+    groupTitle: {
+        marginBottom: 4,
+    },
+    serviceRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        paddingVertical: 12,
+        borderBottomWidth: 1,
+    },
+});
@@ -0,0 +1,447 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+    View,
+    StyleSheet,
+    Modal,
+    TouchableOpacity,
+    TextInput,
+    KeyboardAvoidingView,
+    Platform,
+    ScrollView,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/contexts/ThemeContext';
+import { Text } from '@/components/Text';
+import { Button } from '@/components/Button';
+import {
+    CameraInputs,
+    DEFAULT_WALL_HEIGHT,
+    QUANTITY_CALCULATORS,
+    QuantityCalculation,
+    QuantityCalculatorType,
+    describeQuantityCalculation,
+    runQuantityCalculator,
+} from '@/services/quantityCalculators';
+
+interface QuantityCalculatorModalProps {
+    visible: boolean;
+    type: QuantityCalculatorType;
+    /** Cálculo previo para editar las mismas medidas */
+    initial?: QuantityCalculation | null;
+    onClose: () => void;
+    onApply: (calculation: QuantityCalculation) => void;
+}
+
+interface RoomDraft {
+    length: string;
+    width: string;
+    height: string;
+    sunny: boolean;
+}
+
+interface OpeningDraft {
+    label: string;
+    width: string;
+    height: string;
+    quantity: string;
+}
+
+const EMPTY_ROOM: RoomDraft = { length: '', width: '', height: String(DEFAULT_WALL_HEIGHT), sunny: false };
+
+const OPENING_PRESETS: OpeningDraft[] = [
+    { label: 'Puerta', width: '0.9', height: '2.1', quantity: '1' },
+    { label: 'Ventana', width: '1.2', height: '1.2', quantity: '1' },
+];
+
+const CAMERA_FIELDS: Array<{ key: keyof CameraInputs; label: string }> = [
+    { key: 'entrances', label: 'Accesos (puertas, cochera)' },
+    { key: 'exterior_sides', label: 'Lados del exterior' },
+    { key: 'interior_areas', label: 'Cuartos o pasillos interiores' },
+    { key: 'parking', label: 'Estacionamiento o patio' },
+];
+
+const EMPTY_CAMERAS: CameraInputs = { entrances: 0, exterior_sides: 0, interior_areas: 0, parking: 0 };
+
+function toNumber(text: string): number {
+    const parsed = parseFloat(text.replace(',', '.'));
+    return Number.isFinite(parsed) ? parsed : 0;
+}
+
+/**
+ * Calculadora de cantidad del formulario de solicitud (m² de muros o piso, cámaras, minisplits)
+ */
+export function QuantityCalculatorModal({ visible, type, initial, onClose, onApply }: QuantityCalculatorModalProps) {
+    const { theme } = useTheme();
+    const info = QUANTITY_CALCULATORS[type];
+    const [rooms, setRooms] = useState<RoomDraft[]>([EMPTY_ROOM]);
+    const [openings, setOpenings] = useState<OpeningDraft[]>([]);
+    const [includeCeiling, setIncludeCeiling] = useState(false);
+    const [cameras, setCameras] = useState<CameraInputs>(EMPTY_CAMERAS);
+
+    // Al abrir, partir de las medidas guardadas (si el cálculo es del mismo tipo)
+    useEffect(() => {
+        if (!visible) return;
+
+        const previous = initial?.type === type ? initial : null;
+        if (previous?.type === 'cameras') {
+            setCameras(previous.inputs);
+            return;
+        }
+        if (previous && 'rooms' in previous.inputs) {
+            setRooms(previous.inputs.rooms.map(room => ({
+                length: String(room.length),
+                width: String(room.width),
+                height: String(room.height ?? DEFAULT_WALL_HEIGHT),
+                sunny: !!room.sunny,
+            })));
+        } else {
+            setRooms([EMPTY_ROOM]);
+            setCameras(EMPTY_CAMERAS);
+        }
+        if (previous?.type === 'wall_area') {
+            setOpenings(previous.inputs.openings.map(opening => ({
+                label: 'Abertura',
+                width: String(opening.width),
+                height: String(opening.height),
+                quantity: String(opening.quantity),
+            })));
+            setIncludeCeiling(!!previous.inputs.include_ceiling);
+        } else {
+            setOpenings([]);
+            setIncludeCeiling(false);
+        }
+    }, [visible, type]);
+
+    const calculation = useMemo(() => {
+        const parsedRooms = rooms.map(room => ({
+            length: toNumber(room.length),
+            width: toNumber(room.width),
+            ...(type === 'wall_area' ? { height: toNumber(room.height) || DEFAULT_WALL_HEIGHT } : {}),
+            ...(type === 'minisplits' ? { sunny: room.sunny } : {}),
+        }));
+
+        switch (type) {
+            case 'wall_area':
+                return runQuantityCalculator('wall_area', {
+                    rooms: parsedRooms,
+                    openings: openings.map(opening => ({
+                        width: toNumber(opening.width),
+                        height: toNumber(opening.height),
+                        quantity: toNumber(opening.quantity),
+                    })),
+                    include_ceiling: includeCeiling,
+                });
+            case 'floor_area':
+                return runQuantityCalculator('floor_area', { rooms: parsedRooms });
+            case 'minisplits':
+                return runQuantityCalculator('minisplits', { rooms: parsedRooms });
+            case 'cameras':
+                return runQuantityCalculator('cameras', cameras);
+        }
+    }, [type, rooms, openings, includeCeiling, cameras]);
+
+    const updateRoom = (index: number, changes: Partial<RoomDraft>) => {
+        setRooms(prev => prev.map((room, i) => i === index ? { ...room, ...changes } : room));
+    };
+
+    const updateOpening = (index: number, changes: Partial<OpeningDraft>) => {
+        setOpenings(prev => prev.map((opening, i) => i === index ? { ...opening, ...changes } : opening));
+    };
+
+    const renderNumberInput = (label: string, value: string, onChangeText: (text: string) => void) => (
+        <View style={styles.numberField}>
+            <Text variant="caption" color={theme.textSecondary}>
+                {label}
+            </Text>
+            <TextInput
+                style={[styles.numberInput, { color: theme.text, borderColor: theme.border }]}
+                value={value}
+                onChangeText={onChangeText}
+                keyboardType="decimal-pad"
+                placeholder="0"
+                placeholderTextColor={theme.textSecondary}
+            />
+        </View>
+    );
+
+    const renderRooms = () => (
+        <View style={styles.group}>
+            {rooms.map((room, index) => (
+                <View key={index} style={[styles.row, { borderColor: theme.border }]}>
+                    <View style={styles.rowHeader}>
+                        <Text variant="body" weight="medium">
+                            {type === 'floor_area' ? 'Espacio' : 'Cuarto'} {index + 1}
+                        </Text>
+                        {rooms.length > 1 && (
+                            <TouchableOpacity onPress={() => setRooms(prev => prev.filter((_, i) => i !== index))}>
+                                <Ionicons name="trash-outline" size={18} color={theme.error} />
+                            </TouchableOpacity>
+                        )}
+                    </View>
+                    <View style={styles.fieldsRow}>
+                        {renderNumberInput('Largo (m)', room.length, text => updateRoom(index, { length: text }))}
+                        {renderNumberInput('Ancho (m)', room.width, text => updateRoom(index, { width: text }))}
+                        {type === 'wall_area' && renderNumberInput('Altura (m)', room.height, text => updateRoom(index, { height: text }))}
+                    </View>
+                    {type === 'minisplits' && (
+                        <TouchableOpacity
+                            style={styles.toggle}
+                            onPress={() => updateRoom(index, { sunny: !room.sunny })}
+                            activeOpacity={0.7}
+                        >
+                            <Ionicons
+                                name={room.sunny ? 'checkbox' : 'square-outline'}
+                                size={20}
+                                color={room.sunny ? theme.primary : theme.textSecondary}
+                            />
+                            <Text variant="caption">Le da el sol directo buena parte del día</Text>
+                        </TouchableOpacity>
+                    )}
+                </View>
+            ))}
+            <TouchableOpacity style={styles.addButton} onPress={() => setRooms(prev => [...prev, EMPTY_ROOM])}>
+                <Ionicons name="add-circle-outline" size={20} color={theme.primary} />
+                <Text variant="body" weight="medium" color={theme.primary}>
+                    Agregar {type === 'floor_area' ? 'espacio' : 'cuarto'}
+                </Text>
+            </TouchableOpacity>
+        </View>
+    );
+
+    const renderOpenings = () => (
+        <View style={styles.group}>
+            <Text variant="label" weight="medium">
+                Puertas y ventanas (se restan)
+            </Text>
+            {openings.map((opening, index) => (
+                <View key={index} style={[styles.row, { borderColor: theme.border }]}>
+                    <View style={styles.rowHeader}>
+                        <Text variant="body" weight="medium">
+                            {opening.label}
+                        </Text>
+                        <TouchableOpacity onPress={() => setOpenings(prev => prev.filter((_, i) => i !== index))}>
+                            <Ionicons name="trash-outline" size={18} color={theme.error} />
+                        </TouchableOpacity>
+                    </View>
+                    <View style={styles.fieldsRow}>
+                        {renderNumberInput('Ancho (m)', opening.width, text => updateOpening(index, { width: text }))}
+                        {renderNumberInput('Alto (m)', opening.height, text => updateOpening(index, { height: text }))}
+                        {renderNumberInput('Cantidad', opening.quantity, text => updateOpening(index, { quantity: text }))}
+                    </View>
+                </View>
+            ))}
+            <View style={styles.presetsRow}>
+                {OPENING_PRESETS.map(preset => (
+                    <TouchableOpacity
+                        key={preset.label}
+                        style={styles.addButton}
+                        onPress={() => setOpenings(prev => [...prev, preset])}
+                    >
+                        <Ionicons name="add-circle-outline" size={20} color={theme.primary} />
+                        <Text variant="body" weight="medium" color={theme.primary}>
+                            {preset.label}
+                        </Text>
+                    </TouchableOpacity>
+                ))}
+            </View>
+            <TouchableOpacity style={styles.toggle} onPress={() => setIncludeCeiling(!includeCeiling)} activeOpacity={0.7}>
+                <Ionicons
+                    name={includeCeiling ? 'checkbox' : 'square-outline'}
+                    size={20}
+                    color={includeCeiling ? theme.primary : theme.textSecondary}
+                />
+                <Text variant="caption">Incluir techo</Text>
+            </TouchableOpacity>
+        </View>
+    );
+
+    const renderCameras = () => (
+        <View style={styles.group}>
+            {CAMERA_FIELDS.map(field => (
+                <View key={field.key} style={styles.stepperRow}>
+                    <Text variant="body" style={styles.stepperLabel}>
+                        {field.label}
+                    </Text>
+                    <TouchableOpacity
+                        onPress={() => setCameras(prev => ({ ...prev, [field.key]: Math.max(0, prev[field.key] - 1) }))}
+                        disabled={cameras[field.key] === 0}
+                    >
+                        <Ionicons name="remove-circle-outline" size={28} color={cameras[field.key] === 0 ? theme.border : theme.primary} />
+                    </TouchableOpacity>
+                    <Text variant="body" weight="bold" style={styles.stepperValue}>
+                        {cameras[field.key]}
+                    </Text>
+                    <TouchableOpacity onPress={() => setCameras(prev => ({ ...prev, [field.key]: prev[field.key] + 1 }))}>
+                        <Ionicons name="add-circle-outline" size={28} color={theme.primary} />
+                    </TouchableOpacity>
+                </View>
+            ))}
+        </View>
+    );
+
+    return (
+        <Modal visible={visible} animationType="fade" transparent={true} onRequestClose={onClose}>
+            <SafeAreaView style={styles.overlay}>
+                <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : 'height'} style={styles.keyboardView}>
+                    <View style={[styles.modalContent, { backgroundColor: theme.card }]}>
+                        <View style={[styles.header, { borderBottomColor: theme.border }]}>
+                            <Ionicons name="calculator-outline" size={24} color={theme.primary} />
+                            <View style={styles.headerText}>
+                                <Text variant="h3" weight="bold">
+                                    {info.title}
+                                </Text>
+                                <Text variant="caption" color={theme.textSecondary}>
+                                    {info.description}
+                                </Text>
+                            </View>
+                        </View>
+
+                        <ScrollView style={styles.scrollView} keyboardShouldPersistTaps="handled">
+                            <View style={styles.content}>
+                                {type === 'cameras' ? renderCameras() : renderRooms()}
+                                {type === 'wall_area' && renderOpenings()}
+                            </View>
+                        </ScrollView>
+
+                        <View style={[styles.result, { backgroundColor: theme.primary + '15' }]}>
+                            <Text variant="body" weight="bold" color={theme.primary}>
+                                {calculation
+                                    ? `Cotizaremos ${calculation.quantity} ${info.unit}`
+                                    : 'Captura las medidas para calcular'}
+                            </Text>
+                            {calculation && (
+                                <Text variant="caption" color={theme.textSecondary}>
+                                    {describeQuantityCalculation(calculation)}
+                                </Text>
+                            )}
+                        </View>
+
+                        <View style={[styles.footer, { borderTopColor: theme.border }]}>
+                            <Button title="Cancelar" onPress={onClose} variant="outline" style={styles.footerButton} />
+                            <Button
+                                title="Usar cantidad"
+                                onPress={() => calculation && onApply(calculation)}
+                                disabled={!calculation}
+                                style={styles.footerButton}
+                            />
+                        </View>
+                    </View>
+                </KeyboardAvoidingView>
+            </SafeAreaView>
+        </Modal>
+    );
+}
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0,0,0,0.6)',
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: 20,
+    },
+    keyboardView: {
+        width: '100%',
+        maxWidth: 500,
+    },
+    modalContent: {
+        borderRadius: 24,
+        width: '100%',
+        maxHeight: '90%',
+        overflow: 'hidden',
+        elevation: 5,
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 4 },
+        shadowOpacity: 0.25,
+        shadowRadius: 10,
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'flex-start',
+        gap: 12,
+        padding: 20,
+        borderBottomWidth: 1,
+    },
+    headerText: {
+        flex: 1,
+        gap: 4,
+    },
+    scrollView: {
+        maxHeight: 420,
+    },
+    content: {
+        padding: 20,
+        gap: 20,
+    },
+    group: {
+        gap: 12,
+    },
+    row: {
+        borderWidth: 1,
+        borderRadius: 12,
+        padding: 12,
+        gap: 8,
+    },
+    rowHeader: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+    },
+    fieldsRow: {
+        flexDirection: 'row',
+        gap: 8,
+    },
+    numberField: {
+        flex: 1,
+        gap: 4,
+    },
+    numberInput: {
+        borderWidth: 1.5,
+        borderRadius: 10,
+        paddingHorizontal: 10,
+        paddingVertical: 8,
+        fontSize: 16,
+    },
+    toggle: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+    },
+    addButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+        paddingVertical: 4,
+    },
+    presetsRow: {
+        flexDirection: 'row',
+        gap: 16,
+    },
+    stepperRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+    },
+    stepperLabel: {
+        flex: 1,
+    },
+    stepperValue: {
+        minWidth: 28,
+        textAlign: 'center',
+    },
+    result: {
+        padding: 16,
+        gap: 4,
+    },
+    footer: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        padding: 20,
+        borderTopWidth: 1,
+        gap: 12,
+    },
+    footerButton: {
+        flex: 1,
+    },
+});
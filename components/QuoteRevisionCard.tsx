@@ -0,0 +1,284 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, TouchableOpacity, TextInput } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/contexts/ThemeContext';
+import { Text } from '@/components/Text';
+import { Card } from '@/components/Card';
+import { Button } from '@/components/Button';
+import { formatPrice } from '@/services/priceFormatter';
+import {
+    AmountChange,
+    QUOTE_REVISION_STATUS_LABELS,
+    QuoteRevision,
+    QuoteRevisionItemChange,
+    diffQuoteRevisions,
+    getBindingRevision,
+    getPendingRevision,
+} from '@/services/quoteRevisions';
+
+interface QuoteRevisionCardProps {
+    /** Revisiones del lead (más reciente primero) */
+    revisions: QuoteRevision[];
+    /** Precio acordado vigente (para comparar la primera revisión) */
+    currentPrice?: number | null;
+    onRespond: (revision: QuoteRevision, approved: boolean, note?: string) => Promise<void>;
+}
+
+function formatDelta(delta: number): string {
+    if (delta === 0) return 'Sin cambio';
+    return `${delta > 0 ? '+' : '-'}${formatPrice(Math.abs(delta))}`;
+}
+
+/**
+ * Cambio de precio pendiente (diferencia contra la versión vigente) e historial de versiones
+ */
+export function QuoteRevisionCard({ revisions, currentPrice, onRespond }: QuoteRevisionCardProps) {
+    const { theme } = useTheme();
+    const [note, setNote] = useState('');
+    const [responding, setResponding] = useState<'approve' | 'reject' | null>(null);
+    const [showHistory, setShowHistory] = useState(false);
+
+    const pending = getPendingRevision(revisions);
+    const binding = pending ? getBindingRevision(revisions, pending.version) : null;
+    const diff = pending ? diffQuoteRevisions(binding, pending, currentPrice) : null;
+
+    const respond = async (approved: boolean) => {
+        if (!pending) return;
+        setResponding(approved ? 'approve' : 'reject');
+        try {
+            await onRespond(pending, approved, note);
+            setNote('');
+        } finally {
+            setResponding(null);
+        }
+    };
+
+    const deltaColor = (delta: number) => delta > 0 ? theme.error : delta < 0 ? theme.success : theme.textSecondary;
+
+    const renderChange = (change: QuoteRevisionItemChange) => {
+        const { item, previous, type } = change;
+        const icon = type === 'added' ? 'add-circle-outline' : type === 'removed' ? 'remove-circle-outline' : 'swap-horizontal';
+        return (
+            <View key={`${type}-${item.id}`} style={styles.changeRow}>
+                <Ionicons name={icon} size={16} color={deltaColor(change.delta)} />
+                <View style={styles.changeText}>
+                    <Text
+                        variant="caption"
+                        weight="medium"
+                        style={type === 'removed' ? styles.removed : undefined}
+                    >
+                        {item.quantity !== 1 ? `${item.quantity} × ` : ''}{item.label}
+                    </Text>
+                    {previous && (
+                        <Text variant="caption" color={theme.textSecondary}>
+                            Antes: {previous.quantity !== 1 ? `${previous.quantity} × ` : ''}{formatPrice(previous.amount)}
+                        </Text>
+                    )}
+                </View>
+                <Text variant="caption" weight="medium" color={deltaColor(change.delta)}>
+                    {formatDelta(change.delta)}
+                </Text>
+            </View>
+        );
+    };
+
+    const renderAmountRow = (label: string, change: AmountChange, bold?: boolean) => (
+        <View style={styles.amountRow}>
+            <Text variant={bold ? 'body' : 'caption'} weight={bold ? 'bold' : 'normal'} style={{ flex: 1 }}>
+                {label}
+            </Text>
+            <Text variant="caption" color={theme.textSecondary} style={styles.removed}>
+                {formatPrice(change.before)}
+            </Text>
+            <Text variant={bold ? 'body' : 'caption'} weight="bold" style={styles.afterAmount}>
+                {formatPrice(change.after)}
+            </Text>
+        </View>
+    );
+
+    return (
+        <Card variant="elevated" style={styles.card}>
+            {pending && diff ? (
+                <>
+                    <View style={[styles.pendingHeader, { backgroundColor: theme.warning + '15' }]}>
+                        <Ionicons name="alert-circle-outline" size={18} color={theme.warning} />
+                        <Text variant="caption" style={{ flex: 1, color: theme.text }}>
+                            {pending.author_name || 'El profesional'} actualizó la cotización (versión {pending.version}).
+                            El nuevo precio solo aplica si lo apruebas.
+                        </Text>
+                    </View>
+
+                    {!!pending.reason && (
+                        <Text variant="body" color={theme.textSecondary} style={styles.reason}>
+                            "{pending.reason}"
+                        </Text>
+                    )}
+
+                    {diff.changes.length > 0 && (
+                        <View style={styles.changes}>
+                            {diff.changes.map(renderChange)}
+                        </View>
+                    )}
+
+                    <View style={[styles.totals, { borderTopColor: theme.border }]}>
+                        {(diff.labor.delta !== 0 || diff.labor.after > 0) && renderAmountRow('Mano de obra', diff.labor)}
+                        {(diff.materials.delta !== 0 || diff.materials.after > 0) && renderAmountRow('Materiales', diff.materials)}
+                        {renderAmountRow(`Total con IVA (${Math.round(pending.tax_rate * 100)}%)`, diff.total_with_tax, true)}
+                        <Text variant="caption" weight="medium" color={deltaColor(diff.total_with_tax.delta)} style={styles.totalDelta}>
+                            {formatDelta(diff.total_with_tax.delta)}
+                        </Text>
+                    </View>
+
+                    <TextInput
+                        style={[styles.noteInput, { color: theme.text, borderColor: theme.border }]}
+                        value={note}
+                        onChangeText={setNote}
+                        placeholder="Comentario para el profesional (opcional)"
+                        placeholderTextColor={theme.textSecondary}
+                        multiline
+                    />
+
+                    <View style={styles.actions}>
+                        <Button
+                            title="Rechazar"
+                            variant="outline"
+                            onPress={() => respond(false)}
+                            loading={responding === 'reject'}
+                            disabled={!!responding}
+                            style={styles.actionButton}
+                        />
+                        <Button
+                            title="Aprobar"
+                            onPress={() => respond(true)}
+                            loading={responding === 'approve'}
+                            disabled={!!responding}
+                            style={styles.actionButton}
+                        />
+                    </View>
+                </>
+            ) : (
+                <Text variant="caption" color={theme.textSecondary}>
+                    No hay cambios de precio pendientes.
+                </Text>
+            )}
+
+            {revisions.length > 0 && (
+                <TouchableOpacity
+                    style={styles.historyToggle}
+                    onPress={() => setShowHistory(!showHistory)}
+                    activeOpacity={0.7}
+                >
+                    <Text variant="caption" weight="medium" color={theme.primary}>
+                        {showHistory ? 'Ocultar historial' : `Ver historial (${revisions.length})`}
+                    </Text>
+                    <Ionicons name={showHistory ? 'chevron-up' : 'chevron-down'} size={14} color={theme.primary} />
+                </TouchableOpacity>
+            )}
+
+            {showHistory && revisions.map(revision => (
+                <View key={revision.id} style={[styles.historyRow, { borderTopColor: theme.border }]}>
+                    <View style={{ flex: 1 }}>
+                        <Text variant="caption" weight="medium">
+                            Versión {revision.version} · {QUOTE_REVISION_STATUS_LABELS[revision.status]}
+                        </Text>
+                        <Text variant="caption" color={theme.textSecondary}>
+                            {revision.created_at
+                                ? new Date(revision.created_at).toLocaleDateString('es-MX', { day: 'numeric', month: 'short', year: 'numeric' })
+                                : ''}
+                            {revision.author_name ? ` · ${revision.author_name}` : ''}
+                        </Text>
+                        {!!revision.response_note && (
+                            <Text variant="caption" color={theme.textSecondary}>
+                                Tu comentario: {revision.response_note}
+                            </Text>
+                        )}
+                    </View>
+                    <Text variant="caption" weight="bold">
+                        {formatPrice(revision.total_with_tax)}
+                    </Text>
+                </View>
+            ))}
+        </Card>
+    );
+}
+
+const styles = StyleSheet.create({
+    card: {
+        padding: 16,
+    },
+    pendingHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        padding: 12,
+        borderRadius: 12,
+    },
+    reason: {
+        marginTop: 12,
+        fontStyle: 'italic',
+    },
+    changes: {
+        marginTop: 12,
+        gap: 8,
+    },
+    changeRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+    },
+    changeText: {
+        flex: 1,
+    },
+    removed: {
+        textDecorationLine: 'line-through',
+    },
+    totals: {
+        marginTop: 12,
+        paddingTop: 12,
+        borderTopWidth: 1,
+        gap: 6,
+    },
+    amountRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+    },
+    afterAmount: {
+        minWidth: 90,
+        textAlign: 'right',
+    },
+    totalDelta: {
+        textAlign: 'right',
+    },
+    noteInput: {
+        marginTop: 12,
+        borderWidth: 1.5,
+        borderRadius: 12,
+        paddingHorizontal: 12,
+        paddingVertical: 10,
+        minHeight: 60,
+        textAlignVertical: 'top',
+    },
+    actions: {
+        flexDirection: 'row',
+        gap: 12,
+        marginTop: 12,
+    },
+    actionButton: {
+        flex: 1,
+    },
+    historyToggle: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        marginTop: 12,
+    },
+    historyRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        paddingVertical: 8,
+        borderTopWidth: 1,
+        marginTop: 8,
+    },
+});
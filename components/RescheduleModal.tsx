@@ -0,0 +1,317 @@
+import React, { useMemo, useState } from 'react';
+import {
+    View,
+    StyleSheet,
+    Modal,
+    TouchableOpacity,
+    TextInput,
+    KeyboardAvoidingView,
+    Platform,
+    ScrollView,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/contexts/ThemeContext';
+import { Text } from '@/components/Text';
+import { Button } from '@/components/Button';
+import { ErrorBanner } from '@/components/ErrorBanner';
+import { AppError, fromValidation, reportError } from '@/services/errors';
+import {
+    MAX_RESCHEDULE_SLOTS,
+    RESCHEDULE_TIME_OPTIONS,
+    RescheduleProposal,
+    RescheduleSlot,
+    formatRescheduleSlot,
+    getRescheduleDayOptions,
+    validateRescheduleProposal,
+} from '@/services/reschedules';
+
+interface RescheduleModalProps {
+    visible: boolean;
+    /** Propuesta del profesional a la que se contrapropone */
+    counterTo?: RescheduleProposal | null;
+    /** Reprogramaciones que quedan (incluida esta) */
+    remaining: number;
+    onClose: () => void;
+    onSubmit: (slots: RescheduleSlot[], reason: string) => Promise<void>;
+}
+
+/**
+ * Proponer de 1 a 3 horarios alternativos con el motivo del cambio
+ */
+export function RescheduleModal({ visible, counterTo, remaining, onClose, onSubmit }: RescheduleModalProps) {
+    const { theme } = useTheme();
+    const dayOptions = useMemo(() => getRescheduleDayOptions(), [visible]);
+    const [selectedDate, setSelectedDate] = useState<string | null>(null);
+    const [slots, setSlots] = useState<RescheduleSlot[]>([]);
+    const [reason, setReason] = useState('');
+    const [submitting, setSubmitting] = useState(false);
+    const [error, setError] = useState<AppError | null>(null);
+
+    const reset = () => {
+        setSelectedDate(null);
+        setSlots([]);
+        setReason('');
+        setError(null);
+    };
+
+    const handleClose = () => {
+        reset();
+        onClose();
+    };
+
+    const addSlot = (time: string) => {
+        if (!selectedDate || slots.length >= MAX_RESCHEDULE_SLOTS) return;
+        if (slots.some(slot => slot.date === selectedDate && slot.time === time)) return;
+        setSlots([...slots, { date: selectedDate, time }]);
+    };
+
+    const removeSlot = (index: number) => {
+        setSlots(slots.filter((_, i) => i !== index));
+    };
+
+    const handleSubmit = async () => {
+        const validation = validateRescheduleProposal({ slots, reason });
+        if (!validation.valid) {
+            setError(fromValidation(validation));
+            return;
+        }
+
+        try {
+            setSubmitting(true);
+            setError(null);
+            await onSubmit(slots, reason.trim());
+            reset();
+            onClose();
+        } catch (err) {
+            setError(reportError('RescheduleModal', err, 'No se pudo proponer el cambio de fecha. Intenta de nuevo.'));
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    return (
+        <Modal
+            visible={visible}
+            animationType="fade"
+            transparent={true}
+            onRequestClose={handleClose}
+        >
+            <SafeAreaView style={styles.overlay}>
+                <KeyboardAvoidingView
+                    behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+                    style={styles.keyboardView}
+                >
+                    <View style={[styles.modalContent, { backgroundColor: theme.card }]}>
+                        <View style={[styles.header, { backgroundColor: theme.primary + '15' }]}>
+                            <Ionicons name="calendar" size={32} color={theme.primary} />
+                            <Text variant="h2" weight="bold" style={{ color: theme.primary, marginTop: 12 }}>
+                                {counterTo ? 'Proponer otra fecha' : 'Cambiar fecha'}
+                            </Text>
+                            <Text variant="caption" color={theme.textSecondary} style={styles.headerHint}>
+                                Propón hasta {MAX_RESCHEDULE_SLOTS} horarios; el profesional elegirá uno.
+                                {remaining <= 1 ? ' Es el último cambio de fecha disponible.' : ''}
+                            </Text>
+                        </View>
+
+                        <ScrollView style={styles.scrollView} bounces={false} showsVerticalScrollIndicator={false}>
+                            <View style={styles.content}>
+                                {error && (
+                                    <ErrorBanner
+                                        error={error}
+                                        onDismiss={() => setError(null)}
+                                        style={styles.errorBanner}
+                                    />
+                                )}
+
+                                <Text variant="body" weight="medium" style={styles.label}>Día</Text>
+                                <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+                                    {dayOptions.map(day => {
+                                        const selected = selectedDate === day.date;
+                                        return (
+                                            <TouchableOpacity
+                                                key={day.date}
+                                                style={[
+                                                    styles.chip,
+                                                    { borderColor: selected ? theme.primary : theme.border },
+                                                    selected && { backgroundColor: theme.primary },
+                                                ]}
+                                                onPress={() => setSelectedDate(day.date)}
+                                                activeOpacity={0.7}
+                                            >
+                                                <Text variant="caption" weight="medium" color={selected ? '#FFFFFF' : theme.text}>
+                                                    {day.label}
+                                                </Text>
+                                            </TouchableOpacity>
+                                        );
+                                    })}
+                                </ScrollView>
+
+                                <Text variant="body" weight="medium" style={styles.label}>Hora</Text>
+                                <View style={styles.timeGrid}>
+                                    {RESCHEDULE_TIME_OPTIONS.map(time => (
+                                        <TouchableOpacity
+                                            key={time}
+                                            style={[styles.chip, { borderColor: theme.border, opacity: selectedDate ? 1 : 0.4 }]}
+                                            onPress={() => addSlot(time)}
+                                            disabled={!selectedDate || slots.length >= MAX_RESCHEDULE_SLOTS}
+                                            activeOpacity={0.7}
+                                        >
+                                            <Ionicons name="add" size={14} color={theme.primary} />
+                                            <Text variant="caption" weight="medium">{time}</Text>
+                                        </TouchableOpacity>
+                                    ))}
+                                </View>
+
+                                {slots.length > 0 && (
+                                    <View style={styles.slots}>
+                                        {slots.map((slot, index) => (
+                                            <View
+                                                key={`${slot.date} ${slot.time}`}
+                                                style={[styles.slotRow, { backgroundColor: theme.surface }]}
+                                            >
+                                                <Ionicons name="time-outline" size={18} color={theme.primary} />
+                                                <Text variant="body" style={{ flex: 1 }}>{formatRescheduleSlot(slot)}</Text>
+                                                <TouchableOpacity onPress={() => removeSlot(index)} activeOpacity={0.7}>
+                                                    <Ionicons name="close-circle" size={20} color={theme.textSecondary} />
+                                                </TouchableOpacity>
+                                            </View>
+                                        ))}
+                                    </View>
+                                )}
+
+                                <Text variant="body" weight="medium" style={styles.label}>Motivo del cambio</Text>
+                                <View style={[styles.reasonInputContainer, { borderColor: theme.border, backgroundColor: theme.surface }]}>
+                                    <TextInput
+                                        style={[styles.reasonInput, { color: theme.text }]}
+                                        placeholder="Ej: Tengo un compromiso de trabajo ese día..."
+                                        placeholderTextColor={theme.textSecondary}
+                                        value={reason}
+                                        onChangeText={setReason}
+                                        multiline
+                                        maxLength={200}
+                                    />
+                                </View>
+                            </View>
+                        </ScrollView>
+
+                        <View style={[styles.footer, { borderTopColor: theme.border }]}>
+                            <Button
+                                title="Cancelar"
+                                onPress={handleClose}
+                                variant="outline"
+                                style={styles.footerButton}
+                                disabled={submitting}
+                            />
+                            <Button
+                                title="Enviar propuesta"
+                                onPress={handleSubmit}
+                                loading={submitting}
+                                style={styles.footerButton}
+                                disabled={submitting || slots.length === 0}
+                            />
+                        </View>
+                    </View>
+                </KeyboardAvoidingView>
+            </SafeAreaView>
+        </Modal>
+    );
+}
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0,0,0,0.6)',
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: 20,
+    },
+    keyboardView: {
+        width: '100%',
+        maxWidth: 500,
+    },
+    modalContent: {
+        borderRadius: 24,
+        width: '100%',
+        maxHeight: '85%',
+        overflow: 'hidden',
+        elevation: 5,
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 4 },
+        shadowOpacity: 0.25,
+        shadowRadius: 10,
+    },
+    header: {
+        alignItems: 'center',
+        padding: 24,
+    },
+    headerHint: {
+        marginTop: 8,
+        textAlign: 'center',
+    },
+    scrollView: {
+        maxHeight: 440,
+    },
+    content: {
+        padding: 24,
+    },
+    label: {
+        marginBottom: 8,
+        marginTop: 4,
+    },
+    chips: {
+        gap: 8,
+        paddingBottom: 16,
+    },
+    chip: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        paddingHorizontal: 14,
+        paddingVertical: 8,
+        borderRadius: 16,
+        borderWidth: 1.5,
+    },
+    timeGrid: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 8,
+        marginBottom: 16,
+    },
+    slots: {
+        gap: 8,
+        marginBottom: 16,
+    },
+    slotRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        padding: 12,
+        borderRadius: 12,
+    },
+    reasonInputContainer: {
+        borderWidth: 1,
+        borderRadius: 16,
+        padding: 12,
+        minHeight: 80,
+    },
+    reasonInput: {
+        fontSize: 15,
+        textAlignVertical: 'top',
+        paddingTop: 0,
+        minHeight: 60,
+    },
+    footer: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        padding: 20,
+        borderTopWidth: 1,
+        gap: 12,
+    },
+    footerButton: {
+        flex: 1,
+    },
+    errorBanner: {
+        marginBottom: 16,
+    },
+});
@@ -0,0 +1,239 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/contexts/ThemeContext';
+import { Text } from '@/components/Text';
+import { Card } from '@/components/Card';
+import { Button } from '@/components/Button';
+import { RescheduleModal } from '@/components/RescheduleModal';
+import {
+    RESCHEDULE_STATUS_LABELS,
+    RescheduleProposal,
+    RescheduleSlot,
+    formatRescheduleSlot,
+    getRescheduleState,
+} from '@/services/reschedules';
+
+interface RescheduleSectionProps {
+    reschedules: RescheduleProposal[];
+    userId: string;
+    /** Cita vigente del lead, si ya hay una */
+    currentSlot: RescheduleSlot | null;
+    onPropose: (slots: RescheduleSlot[], reason: string, counterTo?: string) => Promise<void>;
+    /** Aceptar un horario (índice) o rechazar (null) */
+    onRespond: (rescheduleId: string, slotIndex: number | null) => Promise<void>;
+}
+
+/**
+ * Cita vigente, propuesta de cambio pendiente e historial de reprogramaciones
+ */
+export function RescheduleSection({ reschedules, userId, currentSlot, onPropose, onRespond }: RescheduleSectionProps) {
+    const { theme } = useTheme();
+    const [modalVisible, setModalVisible] = useState(false);
+    const [countering, setCountering] = useState(false);
+    // Horario en proceso ('decline' para rechazar)
+    const [busy, setBusy] = useState<string | null>(null);
+
+    const state = getRescheduleState(reschedules, userId);
+    const { pending } = state;
+    const history = reschedules.filter(reschedule => reschedule.status !== 'pending');
+
+    const respond = async (key: string, slotIndex: number | null) => {
+        if (!pending) return;
+        setBusy(key);
+        try {
+            await onRespond(pending.id, slotIndex);
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const openModal = (counter: boolean) => {
+        setCountering(counter);
+        setModalVisible(true);
+    };
+
+    const statusColor = (reschedule: RescheduleProposal) => {
+        switch (reschedule.status) {
+            case 'accepted': return theme.success;
+            case 'declined': return theme.error;
+            default: return theme.textSecondary;
+        }
+    };
+
+    return (
+        <Card variant="elevated" style={styles.card}>
+            <View style={styles.currentRow}>
+                <Ionicons name="calendar-outline" size={20} color={theme.primary} />
+                <Text variant="body" weight="medium" style={{ flex: 1 }}>
+                    {currentSlot ? formatRescheduleSlot(currentSlot) : 'Sin fecha agendada'}
+                </Text>
+            </View>
+
+            {pending && (
+                <View style={[styles.pending, { backgroundColor: theme.warning + '15', borderColor: theme.warning }]}>
+                    <Text variant="body" weight="bold" color={theme.warning}>
+                        {state.awaitingResponse ? 'El profesional propone otra fecha' : 'Propusiste otra fecha'}
+                    </Text>
+                    <Text variant="caption" color={theme.textSecondary} style={styles.reason}>
+                        Motivo: {pending.reason}
+                    </Text>
+
+                    {pending.slots.map(slot => (
+                        <View key={`${slot.date} ${slot.time}`} style={[styles.slotRow, { borderTopColor: theme.border }]}>
+                            <Text variant="body" style={{ flex: 1 }}>{formatRescheduleSlot(slot)}</Text>
+                            {state.awaitingResponse && (
+                                busy === String(slot.index) ? (
+                                    <ActivityIndicator color={theme.primary} />
+                                ) : (
+                                    <TouchableOpacity
+                                        style={[styles.lineButton, { borderColor: theme.success }]}
+                                        onPress={() => respond(String(slot.index), slot.index)}
+                                        disabled={!!busy}
+                                        activeOpacity={0.7}
+                                    >
+                                        <Ionicons name="checkmark" size={16} color={theme.success} />
+                                        <Text variant="caption" weight="medium" color={theme.success}>Aceptar</Text>
+                                    </TouchableOpacity>
+                                )
+                            )}
+                        </View>
+                    ))}
+
+                    {state.awaitingResponse ? (
+                        <View style={styles.actions}>
+                            <Button
+                                title="Rechazar"
+                                variant="outline"
+                                size="sm"
+                                onPress={() => respond('decline', null)}
+                                loading={busy === 'decline'}
+                                disabled={!!busy}
+                                style={styles.actionButton}
+                            />
+                            {state.canCounter && (
+                                <Button
+                                    title="Proponer otras fechas"
+                                    size="sm"
+                                    onPress={() => openModal(true)}
+                                    disabled={!!busy}
+                                    style={styles.actionButton}
+                                />
+                            )}
+                        </View>
+                    ) : (
+                        <Text variant="caption" color={theme.textSecondary} style={styles.reason}>
+                            Esperando respuesta del profesional
+                        </Text>
+                    )}
+                </View>
+            )}
+
+            {history.length > 0 && (
+                <View style={styles.history}>
+                    {history.map(reschedule => (
+                        <View key={reschedule.id} style={[styles.historyRow, { borderTopColor: theme.border }]}>
+                            <View style={{ flex: 1 }}>
+                                <Text variant="caption" weight="medium">
+                                    {reschedule.proposer_role === 'client' ? 'Tú' : 'Profesional'}: {reschedule.reason}
+                                </Text>
+                                <Text variant="caption" color={theme.textSecondary}>
+                                    {reschedule.accepted_slot
+                                        ? formatRescheduleSlot(reschedule.accepted_slot)
+                                        : reschedule.slots.map(formatRescheduleSlot).join(' · ')}
+                                </Text>
+                            </View>
+                            <Text variant="caption" weight="medium" color={statusColor(reschedule)}>
+                                {RESCHEDULE_STATUS_LABELS[reschedule.status]}
+                            </Text>
+                        </View>
+                    ))}
+                </View>
+            )}
+
+            <Text variant="caption" color={theme.textSecondary} style={styles.remaining}>
+                {state.remaining > 0
+                    ? `Te quedan ${state.remaining} ${state.remaining === 1 ? 'cambio' : 'cambios'} de fecha`
+                    : 'Ya no quedan cambios de fecha para esta cita'}
+            </Text>
+
+            {state.canPropose && (
+                <Button
+                    title="Cambiar fecha"
+                    variant="outline"
+                    icon={<Ionicons name="calendar" size={18} color={theme.primary} />}
+                    onPress={() => openModal(false)}
+                    style={styles.proposeButton}
+                />
+            )}
+
+            <RescheduleModal
+                visible={modalVisible}
+                counterTo={countering ? pending : null}
+                remaining={state.remaining}
+                onClose={() => setModalVisible(false)}
+                onSubmit={(slots, reason) => onPropose(slots, reason, countering ? pending?.id : undefined)}
+            />
+        </Card>
+    );
+}
+
+const styles = StyleSheet.create({
+    card: {
+        padding: 16,
+    },
+    currentRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+    },
+    pending: {
+        marginTop: 12,
+        padding: 12,
+        borderRadius: 12,
+        borderWidth: 1,
+    },
+    reason: {
+        marginTop: 4,
+        marginBottom: 4,
+    },
+    slotRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: 8,
+        borderTopWidth: 1,
+    },
+    lineButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 12,
+        borderWidth: 1.5,
+    },
+    actions: {
+        flexDirection: 'row',
+        gap: 8,
+        marginTop: 8,
+    },
+    actionButton: {
+        flex: 1,
+    },
+    history: {
+        marginTop: 12,
+    },
+    historyRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        paddingVertical: 8,
+        borderTopWidth: 1,
+    },
+    remaining: {
+        marginTop: 12,
+    },
+    proposeButton: {
+        marginTop: 12,
+    },
+});
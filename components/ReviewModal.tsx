@@ -18,6 +18,7 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useToast } from '@/contexts/ToastContext';
 import { Text } from '@/components/Text';
 import { Button } from '@/components/Button';
 import { TULBOX_COLORS } from '@/constants/Colors';
@@ -49,6 +50,7 @@ export function ReviewModal({
     onSave
 }: ReviewModalProps) {
     const { theme } = useTheme();
+    const { showError, showInfo } = useToast();
     const [rating, setRating] = useState(5);
     const [comment, setComment] = useState('');
     const [isSaving, setIsSaving] = useState(false);
@@ -85,9 +87,14 @@ export function ReviewModal({
             if (result.success && result.data) {
                 onSave(result.data);
                 onClose();
+            } else if (result.success && 'queued' in result && result.queued) {
+                showInfo('Tu reseña se enviará automáticamente cuando recuperes la conexión.', 'Sin conexión');
+                onClose();
+            } else {
+                showError(result.error, { context: 'ReviewModal', fallbackMessage: 'No se pudo guardar tu reseña', onRetry: handleSave });
             }
         } catch (error) {
-            console.error('[ReviewModal] Error saving review:', error);
+            showError(error, { context: 'ReviewModal', fallbackMessage: 'No se pudo guardar tu reseña', onRetry: handleSave });
         } finally {
             setIsSaving(false);
         }
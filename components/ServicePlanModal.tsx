@@ -0,0 +1,270 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, StyleSheet, Modal, TouchableOpacity, ScrollView } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/contexts/ThemeContext';
+import { Text } from '@/components/Text';
+import { Button } from '@/components/Button';
+import { ErrorBanner } from '@/components/ErrorBanner';
+import { AppError, reportError } from '@/services/errors';
+import { getRescheduleDayOptions } from '@/services/reschedules';
+import {
+    PLAN_FREQUENCY_OPTIONS,
+    PLAN_LEAD_DAYS_AHEAD,
+    PLAN_TIME_WINDOWS,
+    PlanFrequency,
+    PlanTimeWindow,
+    formatPlanFrequency,
+} from '@/services/servicePlans';
+
+export interface ServicePlanSelection {
+    frequency: PlanFrequency;
+    timeWindow: PlanTimeWindow;
+    /** Solo al crear el plan */
+    firstDate?: string;
+}
+
+interface ServicePlanModalProps {
+    visible: boolean;
+    /** 'create' pide frecuencia, franja y primera visita; 'frequency' solo la frecuencia */
+    mode: 'create' | 'frequency';
+    serviceName?: string;
+    initialFrequency?: PlanFrequency;
+    onClose: () => void;
+    onSubmit: (selection: ServicePlanSelection) => Promise<void>;
+}
+
+const TIME_WINDOW_KEYS = Object.keys(PLAN_TIME_WINDOWS) as PlanTimeWindow[];
+
+const isSameFrequency = (a: PlanFrequency, b?: PlanFrequency) =>
+    !!b && a.unit === b.unit && a.interval === b.interval;
+
+/**
+ * Programar un mantenimiento recurrente o cambiar su frecuencia
+ */
+export function ServicePlanModal({
+    visible,
+    mode,
+    serviceName,
+    initialFrequency,
+    onClose,
+    onSubmit,
+}: ServicePlanModalProps) {
+    const { theme } = useTheme();
+    // La primera visita puede ser en un mes: se ofrecen 5 semanas
+    const dayOptions = useMemo(() => getRescheduleDayOptions(new Date(), 35), [visible]);
+    const [frequency, setFrequency] = useState<PlanFrequency>(initialFrequency || PLAN_FREQUENCY_OPTIONS[2]);
+    const [timeWindow, setTimeWindow] = useState<PlanTimeWindow>('morning');
+    const [firstDate, setFirstDate] = useState<string | null>(null);
+    const [submitting, setSubmitting] = useState(false);
+    const [error, setError] = useState<AppError | null>(null);
+
+    useEffect(() => {
+        if (visible) {
+            setFrequency(initialFrequency || PLAN_FREQUENCY_OPTIONS[2]);
+            setTimeWindow('morning');
+            setFirstDate(null);
+            setError(null);
+        }
+    }, [visible]);
+
+    const canSubmit = mode === 'frequency' ? !isSameFrequency(frequency, initialFrequency) : !!firstDate;
+
+    const handleSubmit = async () => {
+        try {
+            setSubmitting(true);
+            setError(null);
+            await onSubmit({ frequency, timeWindow, firstDate: firstDate || undefined });
+            onClose();
+        } catch (err) {
+            setError(reportError('ServicePlanModal', err, 'No se pudo guardar el plan. Intenta de nuevo.'));
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+        <TouchableOpacity
+            key={key}
+            style={[
+                styles.chip,
+                { borderColor: selected ? theme.primary : theme.border },
+                selected && { backgroundColor: theme.primary },
+            ]}
+            onPress={onPress}
+            activeOpacity={0.7}
+        >
+            <Text variant="caption" weight="medium" color={selected ? '#FFFFFF' : theme.text}>
+                {label}
+            </Text>
+        </TouchableOpacity>
+    );
+
+    return (
+        <Modal
+            visible={visible}
+            animationType="fade"
+            transparent={true}
+            onRequestClose={onClose}
+        >
+            <SafeAreaView style={styles.overlay}>
+                <View style={[styles.modalContent, { backgroundColor: theme.card }]}>
+                    <View style={[styles.header, { backgroundColor: theme.primary + '15' }]}>
+                        <Ionicons name="repeat" size={32} color={theme.primary} />
+                        <Text variant="h2" weight="bold" style={{ color: theme.primary, marginTop: 12 }}>
+                            {mode === 'create' ? 'Mantenimiento recurrente' : 'Cambiar frecuencia'}
+                        </Text>
+                        {!!serviceName && (
+                            <Text variant="caption" color={theme.textSecondary} style={styles.headerHint}>
+                                {serviceName}
+                            </Text>
+                        )}
+                    </View>
+
+                    <ScrollView style={styles.scrollView} bounces={false} showsVerticalScrollIndicator={false}>
+                        <View style={styles.content}>
+                            {error && (
+                                <ErrorBanner
+                                    error={error}
+                                    onDismiss={() => setError(null)}
+                                    style={styles.errorBanner}
+                                />
+                            )}
+
+                            <Text variant="body" weight="medium" style={styles.label}>Frecuencia</Text>
+                            <View style={styles.chipGrid}>
+                                {PLAN_FREQUENCY_OPTIONS.map(option => renderChip(
+                                    `${option.unit}:${option.interval}`,
+                                    formatPlanFrequency(option),
+                                    isSameFrequency(option, frequency),
+                                    () => setFrequency(option)
+                                ))}
+                            </View>
+
+                            {mode === 'create' && (
+                                <>
+                                    <Text variant="body" weight="medium" style={styles.label}>Primera visita</Text>
+                                    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+                                        {dayOptions.map(day => renderChip(
+                                            day.date,
+                                            day.label,
+                                            firstDate === day.date,
+                                            () => setFirstDate(day.date)
+                                        ))}
+                                    </ScrollView>
+
+                                    <Text variant="body" weight="medium" style={styles.label}>Horario preferido</Text>
+                                    <View style={styles.chipGrid}>
+                                        {TIME_WINDOW_KEYS.map(key => renderChip(
+                                            key,
+                                            PLAN_TIME_WINDOWS[key].label,
+                                            timeWindow === key,
+                                            () => setTimeWindow(key)
+                                        ))}
+                                    </View>
+
+                                    <Text variant="caption" color={theme.textSecondary}>
+                                        Crearemos la solicitud de cada visita {PLAN_LEAD_DAYS_AHEAD} días antes con el mismo
+                                        profesional y dirección. Puedes saltar, pausar o cambiar la frecuencia desde tu perfil.
+                                    </Text>
+                                </>
+                            )}
+
+                            {mode === 'frequency' && (
+                                <Text variant="caption" color={theme.textSecondary}>
+                                    La próxima visita se mantiene; las siguientes se calculan con la nueva frecuencia.
+                                </Text>
+                            )}
+                        </View>
+                    </ScrollView>
+
+                    <View style={[styles.footer, { borderTopColor: theme.border }]}>
+                        <Button
+                            title="Cancelar"
+                            onPress={onClose}
+                            variant="outline"
+                            style={styles.footerButton}
+                            disabled={submitting}
+                        />
+                        <Button
+                            title={mode === 'create' ? 'Programar' : 'Guardar'}
+                            onPress={handleSubmit}
+                            loading={submitting}
+                            style={styles.footerButton}
+                            disabled={submitting || !canSubmit}
+                        />
+                    </View>
+                </View>
+            </SafeAreaView>
+        </Modal>
+    );
+}
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0,0,0,0.6)',
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: 20,
+    },
+    modalContent: {
+        borderRadius: 24,
+        width: '100%',
+        maxWidth: 500,
+        maxHeight: '85%',
+        overflow: 'hidden',
+        elevation: 5,
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 4 },
+        shadowOpacity: 0.25,
+        shadowRadius: 10,
+    },
+    header: {
+        alignItems: 'center',
+        padding: 24,
+    },
+    headerHint: {
+        marginTop: 8,
+        textAlign: 'center',
+    },
+    scrollView: {
+        maxHeight: 440,
+    },
+    content: {
+        padding: 24,
+    },
+    label: {
+        marginBottom: 8,
+        marginTop: 4,
+    },
+    chipGrid: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 8,
+        marginBottom: 16,
+    },
+    chipRow: {
+        gap: 8,
+        paddingBottom: 16,
+    },
+    chip: {
+        paddingHorizontal: 14,
+        paddingVertical: 8,
+        borderRadius: 16,
+        borderWidth: 1.5,
+    },
+    footer: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        padding: 20,
+        borderTopWidth: 1,
+        gap: 12,
+    },
+    footerButton: {
+        flex: 1,
+    },
+    errorBanner: {
+        marginBottom: 16,
+    },
+});
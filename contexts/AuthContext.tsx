@@ -2,6 +2,11 @@ import React, { createContext, useContext, useState, useEffect, useMemo } from '
 import { useRouter, useSegments } from 'expo-router';
 import { Session, User } from '@supabase/supabase-js';
 import { supabase } from '@/lib/supabase';
+import { cache } from '@/services/cache';
+import { outbox } from '@/services/outbox';
+import { requestDrafts } from '@/services/requestDrafts';
+import { requestExecutor } from '@/services/requestExecutor';
+import { isDuplicateError, isNoRowsError } from '@/services/errors';
 import { UserRole, isClientProfileForClientApp } from '@/constants/roles';
 import { profileNeedsServiceArea } from '@/lib/profileSetup';
 
@@ -229,7 +234,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
                 });
 
                 // Si hay un error real (no solo que no existe), manejar
-                if (profileError.code !== 'PGRST116') {
+                if (!isNoRowsError(profileError)) {
                     // Error diferente a "no rows", podría ser RLS u otro problema
                     setProfile(null);
                     return;
@@ -410,7 +415,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
 
             if (profileError) {
                 // Perfil duplicado (reintento): cargar el existente
-                if (profileError.code === '23505') {
+                if (isDuplicateError(profileError)) {
                     await loadUserProfile(data.user, data.session);
                     router.replace('/onboarding/service-area');
                     return { error: null };
@@ -467,6 +472,11 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
         try {
             console.log('[Auth] Signing out...');
             await supabase.auth.signOut();
+            // Borrar datos cacheados en disco (leads, etc.), mutaciones pendientes y borradores del usuario anterior
+            requestExecutor.abortAll();
+            await cache.clear();
+            await outbox.clear();
+            await requestDrafts.clear();
             setUser(null);
             setSession(null);
             setProfile(null);
@@ -0,0 +1,117 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { StyleSheet, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { ErrorBanner, BannerVariant } from '@/components/ErrorBanner';
+import { reportError } from '@/services/errors';
+
+/**
+ * Toasts de la app: reemplazan los Alert.alert de error/aviso en pantallas
+ * Los errores pasan por toAppError, así que el texto y el botón "Reintentar" salen de la taxonomía
+ */
+
+interface Toast {
+    id: number;
+    variant: BannerVariant;
+    title?: string;
+    message: string;
+    onRetry?: () => void;
+}
+
+interface ShowErrorOptions {
+    /** Texto para errores sin un mensaje más preciso (p. ej. 'No se pudo guardar la dirección') */
+    fallbackMessage?: string;
+    /** Contexto para el log de telemetría */
+    context?: string;
+    /** Solo se muestra si el error es reintentable */
+    onRetry?: () => void;
+}
+
+interface ToastContextType {
+    showError: (error: unknown, options?: ShowErrorOptions) => void;
+    showSuccess: (message: string, title?: string) => void;
+    showInfo: (message: string, title?: string) => void;
+    showWarning: (message: string, title?: string) => void;
+    dismiss: () => void;
+}
+
+const TOAST_DURATION_MS = 4000;
+const TOAST_WITH_ACTION_DURATION_MS = 7000;
+
+const ToastContext = createContext<ToastContextType | null>(null);
+
+export const ToastProvider = ({ children }: { children: React.ReactNode }) => {
+    const insets = useSafeAreaInsets();
+    const [toast, setToast] = useState<Toast | null>(null);
+    const nextId = useRef(0);
+
+    const dismiss = useCallback(() => setToast(null), []);
+
+    const show = useCallback((next: Omit<Toast, 'id'>) => {
+        nextId.current += 1;
+        setToast({ ...next, id: nextId.current });
+    }, []);
+
+    // Ocultar automáticamente; cada toast nuevo reinicia el temporizador
+    useEffect(() => {
+        if (!toast) return;
+        const timer = setTimeout(
+            () => setToast(current => (current?.id === toast.id ? null : current)),
+            toast.onRetry ? TOAST_WITH_ACTION_DURATION_MS : TOAST_DURATION_MS
+        );
+        return () => clearTimeout(timer);
+    }, [toast]);
+
+    const showError = useCallback((error: unknown, options: ShowErrorOptions = {}) => {
+        const appError = reportError(options.context || 'Toast', error, options.fallbackMessage);
+        if (appError.kind === 'cancelled') return;
+        show({
+            variant: appError.kind === 'validation' ? 'warning' : 'error',
+            title: appError.title,
+            message: appError.userMessage,
+            onRetry: appError.retryable ? options.onRetry : undefined,
+        });
+    }, [show]);
+
+    const value = useMemo<ToastContextType>(() => ({
+        showError,
+        showSuccess: (message, title) => show({ variant: 'success', title, message }),
+        showInfo: (message, title) => show({ variant: 'info', title, message }),
+        showWarning: (message, title) => show({ variant: 'warning', title, message }),
+        dismiss,
+    }), [showError, show, dismiss]);
+
+    return (
+        <ToastContext.Provider value={value}>
+            {children}
+            {toast && (
+                <View style={[styles.overlay, { top: insets.top + 8 }]} pointerEvents="box-none">
+                    <ErrorBanner
+                        key={toast.id}
+                        variant={toast.variant}
+                        title={toast.title}
+                        message={toast.message}
+                        onRetry={toast.onRetry ? () => { dismiss(); toast.onRetry?.(); } : undefined}
+                        onDismiss={dismiss}
+                    />
+                </View>
+            )}
+        </ToastContext.Provider>
+    );
+};
+
+export const useToast = () => {
+    const context = useContext(ToastContext);
+    if (!context) {
+        throw new Error('useToast must be used within ToastProvider');
+    }
+    return context;
+};
+
+const styles = StyleSheet.create({
+    overlay: {
+        position: 'absolute',
+        left: 16,
+        right: 16,
+        zIndex: 1000,
+    },
+});
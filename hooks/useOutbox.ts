@@ -0,0 +1,14 @@
+import { useEffect, useMemo, useState } from 'react';
+import { outbox, OutboxItem } from '@/services/outbox';
+
+/**
+ * Elementos del outbox (mutaciones pendientes o fallidas), filtrados opcionalmente.
+ * Se actualiza cada vez que cambia la cola.
+ */
+export function useOutboxItems(filter?: (item: OutboxItem) => boolean): OutboxItem[] {
+    const [items, setItems] = useState<OutboxItem[]>([]);
+
+    useEffect(() => outbox.subscribe(setItems), []);
+
+    return useMemo(() => (filter ? items.filter(filter) : items), [items, filter]);
+}
@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { AppState } from 'react-native';
+import { requestDrafts, RequestDraftInput, isDraftEmpty } from '@/services/requestDrafts';
+
+/** Espera tras el último cambio antes de guardar el borrador */
+const DRAFT_SAVE_DELAY_MS = 800;
+
+/**
+ * Guardar automáticamente el borrador de una solicitud mientras el cliente la captura.
+ * Guarda de inmediato si la app pasa a segundo plano o la pantalla se cierra con cambios
+ * pendientes. `discard` cancela lo pendiente y borra el borrador (solicitud enviada).
+ */
+export function useRequestDraftAutosave(userId: string | undefined, draft: RequestDraftInput | null) {
+    const pending = useRef<RequestDraftInput | null>(null);
+    const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const userRef = useRef(userId);
+    userRef.current = userId;
+    const serialized = draft ? JSON.stringify(draft) : null;
+
+    const flush = useCallback(() => {
+        if (timer.current) {
+            clearTimeout(timer.current);
+            timer.current = null;
+        }
+        const next = pending.current;
+        pending.current = null;
+        if (next && userRef.current) {
+            requestDrafts.save(userRef.current, next);
+        }
+    }, []);
+
+    useEffect(() => {
+        if (!userId || !draft || isDraftEmpty(draft)) return;
+
+        pending.current = draft;
+        if (timer.current) clearTimeout(timer.current);
+        timer.current = setTimeout(flush, DRAFT_SAVE_DELAY_MS);
+    }, [userId, serialized]);
+
+    useEffect(() => {
+        // En segundo plano la app puede cerrarse sin aviso
+        const subscription = AppState.addEventListener('change', state => {
+            if (state !== 'active') flush();
+        });
+        return () => {
+            subscription.remove();
+            flush();
+        };
+    }, [flush]);
+
+    const discard = useCallback(async (key: string) => {
+        if (timer.current) {
+            clearTimeout(timer.current);
+            timer.current = null;
+        }
+        pending.current = null;
+        if (userRef.current) {
+            await requestDrafts.discard(userRef.current, key);
+        }
+    }, []);
+
+    return { discard };
+}
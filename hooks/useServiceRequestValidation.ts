@@ -1,5 +1,6 @@
 import { useMemo } from 'react';
 import { ServiceQuoteFormData, ServiceQuote } from '@/services/quotes';
+import { getIntakeFormSchema, validateIntakeAnswers } from '@/services/intakeForms';
 
 export interface ValidationState {
     isValid: boolean;
@@ -79,9 +80,10 @@ export function useServiceRequestValidation({
             errors.descripcion = 'Completa la descripción del servicio';
         }
 
-        // Validar tipo de servicio (si aplica)
-        if (formData.service_type && !['Instalar', 'Mantenimiento', 'Reparar'].includes(formData.service_type)) {
-            errors.service_type = 'Tipo de servicio inválido';
+        // Validar respuestas contra el formulario del servicio (incluye tipo de servicio)
+        if (service) {
+            const intake = validateIntakeAnswers(getIntakeFormSchema(service), formData);
+            Object.assign(errors, intake.errors);
         }
 
         const isValid = missingFields.length === 0 && Object.keys(errors).length === 0;
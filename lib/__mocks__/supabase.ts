@@ -0,0 +1,10 @@
+import { fakeSupabase } from '@/test/fakeSupabase';
+
+/**
+ * Mock manual de lib/supabase para Jest (`jest.mock('@/lib/supabase')`)
+ * Los servicios reciben el cliente en memoria; las pruebas lo controlan con `fakeSupabase`
+ */
+
+export const supabaseUrl = 'http://localhost:54321';
+
+export const supabase = fakeSupabase;
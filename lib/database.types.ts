@@ -0,0 +1,1712 @@
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      addresses: {
+        Row: {
+          address: string
+          city: string | null
+          created_at: string | null
+          id: string
+          is_default: boolean | null
+          latitude: number | null
+          longitude: number | null
+          name: string
+          state: string | null
+          updated_at: string | null
+          user_id: string
+          zip_code: string | null
+        }
+        Insert: {
+          address: string
+          city?: string | null
+          created_at?: string | null
+          id?: string
+          is_default?: boolean | null
+          latitude?: number | null
+          longitude?: number | null
+          name: string
+          state?: string | null
+          updated_at?: string | null
+          user_id: string
+          zip_code?: string | null
+        }
+        Update: {
+          address?: string
+          city?: string | null
+          created_at?: string | null
+          id?: string
+          is_default?: boolean | null
+          latitude?: number | null
+          longitude?: number | null
+          name?: string
+          state?: string | null
+          updated_at?: string | null
+          user_id?: string
+          zip_code?: string | null
+        }
+        Relationships: []
+      }
+      appointment_reschedules: {
+        Row: {
+          accepted_slot: Json | null
+          counter_to: string | null
+          created_at: string | null
+          id: string
+          lead_id: string
+          previous_slot: Json | null
+          proposed_by: string
+          proposer_role: string
+          reason: string
+          responded_at: string | null
+          responded_by: string | null
+          slots: Json
+          status: string
+        }
+        Insert: {
+          accepted_slot?: Json | null
+          counter_to?: string | null
+          created_at?: string | null
+          id?: string
+          lead_id: string
+          previous_slot?: Json | null
+          proposed_by: string
+          proposer_role: string
+          reason: string
+          responded_at?: string | null
+          responded_by?: string | null
+          slots: Json
+          status?: string
+        }
+        Update: {
+          accepted_slot?: Json | null
+          counter_to?: string | null
+          created_at?: string | null
+          id?: string
+          lead_id?: string
+          previous_slot?: Json | null
+          proposed_by?: string
+          proposer_role?: string
+          reason?: string
+          responded_at?: string | null
+          responded_by?: string | null
+          slots?: Json
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "appointment_reschedules_counter_to_fkey"
+            columns: ["counter_to"]
+            isOneToOne: false
+            referencedRelation: "appointment_reschedules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointment_reschedules_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointment_reschedules_proposed_by_fkey"
+            columns: ["proposed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      cancellation_policies: {
+        Row: {
+          key: string
+          rules: Json
+          updated_at: string | null
+        }
+        Insert: {
+          key: string
+          rules?: Json
+          updated_at?: string | null
+        }
+        Update: {
+          key?: string
+          rules?: Json
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      fiscal_profiles: {
+        Row: {
+          codigo_postal: string
+          created_at: string | null
+          email: string | null
+          razon_social: string
+          regimen_fiscal: string
+          rfc: string
+          updated_at: string | null
+          user_id: string
+          uso_cfdi: string
+        }
+        Insert: {
+          codigo_postal: string
+          created_at?: string | null
+          email?: string | null
+          razon_social: string
+          regimen_fiscal: string
+          rfc: string
+          updated_at?: string | null
+          user_id: string
+          uso_cfdi?: string
+        }
+        Update: {
+          codigo_postal?: string
+          created_at?: string | null
+          email?: string | null
+          razon_social?: string
+          regimen_fiscal?: string
+          rfc?: string
+          updated_at?: string | null
+          user_id?: string
+          uso_cfdi?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fiscal_profiles_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      guarantee_claims: {
+        Row: {
+          client_id: string
+          created_at: string | null
+          description: string
+          evidence_urls: string[]
+          guarantee_expires_at: string
+          id: string
+          lead_id: string
+          problem_type: string
+          professional_id: string | null
+          refund_amount: number | null
+          resolution_note: string | null
+          resolved_at: string | null
+          revisit_date: string | null
+          status: string
+          updated_at: string | null
+        }
+        Insert: {
+          client_id: string
+          created_at?: string | null
+          description: string
+          evidence_urls: string[]
+          guarantee_expires_at: string
+          id?: string
+          lead_id: string
+          problem_type: string
+          professional_id?: string | null
+          refund_amount?: number | null
+          resolution_note?: string | null
+          resolved_at?: string | null
+          revisit_date?: string | null
+          status?: string
+          updated_at?: string | null
+        }
+        Update: {
+          client_id?: string
+          created_at?: string | null
+          description?: string
+          evidence_urls?: string[]
+          guarantee_expires_at?: string
+          id?: string
+          lead_id?: string
+          problem_type?: string
+          professional_id?: string | null
+          refund_amount?: number | null
+          resolution_note?: string | null
+          resolved_at?: string | null
+          revisit_date?: string | null
+          status?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "guarantee_claims_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "guarantee_claims_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "guarantee_claims_professional_id_fkey"
+            columns: ["professional_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      invoice_requests: {
+        Row: {
+          cfdi_uuid: string | null
+          client_id: string
+          created_at: string | null
+          error_message: string | null
+          id: string
+          lead_id: string
+          payload: Json
+          pdf_url: string | null
+          rfc: string
+          stamped_at: string | null
+          status: string
+          updated_at: string | null
+          xml_url: string | null
+        }
+        Insert: {
+          cfdi_uuid?: string | null
+          client_id: string
+          created_at?: string | null
+          error_message?: string | null
+          id?: string
+          lead_id: string
+          payload: Json
+          pdf_url?: string | null
+          rfc: string
+          stamped_at?: string | null
+          status?: string
+          updated_at?: string | null
+          xml_url?: string | null
+        }
+        Update: {
+          cfdi_uuid?: string | null
+          client_id?: string
+          created_at?: string | null
+          error_message?: string | null
+          id?: string
+          lead_id?: string
+          payload?: Json
+          pdf_url?: string | null
+          rfc?: string
+          stamped_at?: string | null
+          status?: string
+          updated_at?: string | null
+          xml_url?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_requests_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "invoice_requests_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: true
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lead_events: {
+        Row: {
+          actor_id: string | null
+          actor_role: string
+          created_at: string | null
+          event_type: string
+          id: string
+          lead_id: string
+          payload: Json
+        }
+        Insert: {
+          actor_id?: string | null
+          actor_role?: string
+          created_at?: string | null
+          event_type: string
+          id?: string
+          lead_id: string
+          payload?: Json
+        }
+        Update: {
+          actor_id?: string | null
+          actor_role?: string
+          created_at?: string | null
+          event_type?: string
+          id?: string
+          lead_id?: string
+          payload?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lead_events_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "lead_events_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lead_quote_revisions: {
+        Row: {
+          author_id: string | null
+          created_at: string | null
+          id: string
+          lead_id: string
+          line_items: Json
+          reason: string | null
+          responded_at: string | null
+          response_note: string | null
+          status: string
+          subtotal: number
+          tax_rate: number
+          total_with_tax: number
+          version: number
+        }
+        Insert: {
+          author_id?: string | null
+          created_at?: string | null
+          id?: string
+          lead_id: string
+          line_items?: Json
+          reason?: string | null
+          responded_at?: string | null
+          response_note?: string | null
+          status?: string
+          subtotal: number
+          tax_rate?: number
+          total_with_tax: number
+          version: number
+        }
+        Update: {
+          author_id?: string | null
+          created_at?: string | null
+          id?: string
+          lead_id?: string
+          line_items?: Json
+          reason?: string | null
+          responded_at?: string | null
+          response_note?: string | null
+          status?: string
+          subtotal?: number
+          tax_rate?: number
+          total_with_tax?: number
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lead_quote_revisions_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "lead_quote_revisions_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lead_quotes: {
+        Row: {
+          available_from: string | null
+          created_at: string | null
+          estimated_duration_minutes: number | null
+          id: string
+          lead_id: string
+          materials: Json | null
+          notes: string | null
+          price: number
+          professional_id: string
+          responded_at: string | null
+          status: string
+          updated_at: string | null
+        }
+        Insert: {
+          available_from?: string | null
+          created_at?: string | null
+          estimated_duration_minutes?: number | null
+          id?: string
+          lead_id: string
+          materials?: Json | null
+          notes?: string | null
+          price: number
+          professional_id: string
+          responded_at?: string | null
+          status?: string
+          updated_at?: string | null
+        }
+        Update: {
+          available_from?: string | null
+          created_at?: string | null
+          estimated_duration_minutes?: number | null
+          id?: string
+          lead_id?: string
+          materials?: Json | null
+          notes?: string | null
+          price?: number
+          professional_id?: string
+          responded_at?: string | null
+          status?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lead_quotes_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_quotes_professional_id_fkey"
+            columns: ["professional_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      leads: {
+        Row: {
+          agreed_price: number | null
+          ai_suggested_price_max: number | null
+          ai_suggested_price_min: number | null
+          appointment_date: string | null
+          appointment_status: string | null
+          appointment_time: string | null
+          cancellation_fee: number | null
+          cancellation_reason: string | null
+          cancellation_reason_code: string | null
+          cancelled_at: string | null
+          cancelled_by: string | null
+          cliente_id: string | null
+          completed_at: string | null
+          created_at: string
+          descripcion_proyecto: string | null
+          diagnostico_ia: string | null
+          disciplina_ia: string | null
+          estado: string | null
+          id: string
+          imagen_url: string | null
+          nombre_cliente: string | null
+          photos_urls: Json | null
+          price: number | null
+          professional_id: string | null
+          profesional_asignado_id: string | null
+          project_id: string | null
+          servicio: string | null
+          servicio_solicitado: string | null
+          status: string | null
+          ubicacion_direccion: string | null
+          ubicacion_lat: number | null
+          ubicacion_lng: number | null
+          updated_at: string
+          urgencia_ia: number | null
+          whatsapp: string | null
+        }
+        Insert: {
+          agreed_price?: number | null
+          ai_suggested_price_max?: number | null
+          ai_suggested_price_min?: number | null
+          appointment_date?: string | null
+          appointment_status?: string | null
+          appointment_time?: string | null
+          cancellation_fee?: number | null
+          cancellation_reason?: string | null
+          cancellation_reason_code?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          cliente_id?: string | null
+          completed_at?: string | null
+          created_at?: string
+          descripcion_proyecto?: string | null
+          diagnostico_ia?: string | null
+          disciplina_ia?: string | null
+          estado?: string | null
+          id?: string
+          imagen_url?: string | null
+          nombre_cliente?: string | null
+          photos_urls?: Json | null
+          price?: number | null
+          professional_id?: string | null
+          profesional_asignado_id?: string | null
+          project_id?: string | null
+          servicio?: string | null
+          servicio_solicitado?: string | null
+          status?: string | null
+          ubicacion_direccion?: string | null
+          ubicacion_lat?: number | null
+          ubicacion_lng?: number | null
+          updated_at?: string
+          urgencia_ia?: number | null
+          whatsapp?: string | null
+        }
+        Update: {
+          agreed_price?: number | null
+          ai_suggested_price_max?: number | null
+          ai_suggested_price_min?: number | null
+          appointment_date?: string | null
+          appointment_status?: string | null
+          appointment_time?: string | null
+          cancellation_fee?: number | null
+          cancellation_reason?: string | null
+          cancellation_reason_code?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          cliente_id?: string | null
+          completed_at?: string | null
+          created_at?: string
+          descripcion_proyecto?: string | null
+          diagnostico_ia?: string | null
+          disciplina_ia?: string | null
+          estado?: string | null
+          id?: string
+          imagen_url?: string | null
+          nombre_cliente?: string | null
+          photos_urls?: Json | null
+          price?: number | null
+          professional_id?: string | null
+          profesional_asignado_id?: string | null
+          project_id?: string | null
+          servicio?: string | null
+          servicio_solicitado?: string | null
+          status?: string | null
+          ubicacion_direccion?: string | null
+          ubicacion_lat?: number | null
+          ubicacion_lng?: number | null
+          updated_at?: string
+          urgencia_ia?: number | null
+          whatsapp?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leads_cliente_id_fkey"
+            columns: ["cliente_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "leads_professional_id_fkey"
+            columns: ["professional_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "leads_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      messages: {
+        Row: {
+          content: string
+          created_at: string
+          id: string
+          lead_id: string
+          read_at: string | null
+          sender_id: string
+          updated_at: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          id?: string
+          lead_id: string
+          read_at?: string | null
+          sender_id: string
+          updated_at?: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          id?: string
+          lead_id?: string
+          read_at?: string | null
+          sender_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "messages_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ml_feedback: {
+        Row: {
+          correct_service_id: string | null
+          correct_service_name: string | null
+          created_at: string | null
+          feedback_text: string | null
+          id: string
+          interaction_id: string | null
+          rating: number | null
+          user_id: string | null
+          was_correct: boolean
+        }
+        Insert: {
+          correct_service_id?: string | null
+          correct_service_name?: string | null
+          created_at?: string | null
+          feedback_text?: string | null
+          id?: string
+          interaction_id?: string | null
+          rating?: number | null
+          user_id?: string | null
+          was_correct: boolean
+        }
+        Update: {
+          correct_service_id?: string | null
+          correct_service_name?: string | null
+          created_at?: string | null
+          feedback_text?: string | null
+          id?: string
+          interaction_id?: string | null
+          rating?: number | null
+          user_id?: string | null
+          was_correct?: boolean
+        }
+        Relationships: []
+      }
+      ml_interactions: {
+        Row: {
+          actual_service_id: string | null
+          actual_service_name: string | null
+          conversion: boolean | null
+          created_at: string | null
+          day_of_week: number | null
+          features: Json | null
+          id: string
+          lead_id: string | null
+          predicted_confidence: number | null
+          predicted_service_id: string | null
+          predicted_service_name: string | null
+          query: string
+          query_embedding: string | null
+          time_of_day: number | null
+          timestamp: string | null
+          user_feedback: string | null
+          user_id: string | null
+          user_location_lat: number | null
+          user_location_lng: number | null
+          was_correct: boolean | null
+        }
+        Insert: {
+          actual_service_id?: string | null
+          actual_service_name?: string | null
+          conversion?: boolean | null
+          created_at?: string | null
+          day_of_week?: number | null
+          features?: Json | null
+          id?: string
+          lead_id?: string | null
+          predicted_confidence?: number | null
+          predicted_service_id?: string | null
+          predicted_service_name?: string | null
+          query: string
+          query_embedding?: string | null
+          time_of_day?: number | null
+          timestamp?: string | null
+          user_feedback?: string | null
+          user_id?: string | null
+          user_location_lat?: number | null
+          user_location_lng?: number | null
+          was_correct?: boolean | null
+        }
+        Update: {
+          actual_service_id?: string | null
+          actual_service_name?: string | null
+          conversion?: boolean | null
+          created_at?: string | null
+          day_of_week?: number | null
+          features?: Json | null
+          id?: string
+          lead_id?: string | null
+          predicted_confidence?: number | null
+          predicted_service_id?: string | null
+          predicted_service_name?: string | null
+          query?: string
+          query_embedding?: string | null
+          time_of_day?: number | null
+          timestamp?: string | null
+          user_feedback?: string | null
+          user_id?: string | null
+          user_location_lat?: number | null
+          user_location_lng?: number | null
+          was_correct?: boolean | null
+        }
+        Relationships: []
+      }
+      professional_stats: {
+        Row: {
+          average_rating: number | null
+          current_level_id: number | null
+          expediente_status: string | null
+          is_online: boolean | null
+          jobs_completed_count: number | null
+          review_count: number | null
+          specialty: string | null
+          total_points: number | null
+          user_id: string
+        }
+        Insert: {
+          average_rating?: number | null
+          current_level_id?: number | null
+          expediente_status?: string | null
+          is_online?: boolean | null
+          jobs_completed_count?: number | null
+          review_count?: number | null
+          specialty?: string | null
+          total_points?: number | null
+          user_id: string
+        }
+        Update: {
+          average_rating?: number | null
+          current_level_id?: number | null
+          expediente_status?: string | null
+          is_online?: boolean | null
+          jobs_completed_count?: number | null
+          review_count?: number | null
+          specialty?: string | null
+          total_points?: number | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "professional_stats_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          antecedentes_no_penales_url: string | null
+          areas_servicio: string[] | null
+          avatar_url: string | null
+          bio: string | null
+          calificacion_promedio: number | null
+          certificaciones_urls: string[] | null
+          city: string | null
+          created_at: string | null
+          descripcion_perfil: string | null
+          email: string | null
+          experience: number | null
+          full_name: string | null
+          notification_settings: Json | null
+          numero_imss: string | null
+          onboarding_completed: boolean | null
+          onboarding_status: string | null
+          payment_preference: string | null
+          phone: string | null
+          portfolio: Json | null
+          profession: string | null
+          role: string | null
+          state: string | null
+          ubicacion_lat: number | null
+          ubicacion_lng: number | null
+          updated_at: string | null
+          user_id: string
+          user_type: string | null
+          whatsapp: string | null
+          work_photos_urls: string | null
+          work_zones: string[] | null
+        }
+        Insert: {
+          antecedentes_no_penales_url?: string | null
+          areas_servicio?: string[] | null
+          avatar_url?: string | null
+          bio?: string | null
+          calificacion_promedio?: number | null
+          certificaciones_urls?: string[] | null
+          city?: string | null
+          created_at?: string | null
+          descripcion_perfil?: string | null
+          email?: string | null
+          experience?: number | null
+          full_name?: string | null
+          notification_settings?: Json | null
+          numero_imss?: string | null
+          onboarding_completed?: boolean | null
+          onboarding_status?: string | null
+          payment_preference?: string | null
+          phone?: string | null
+          portfolio?: Json | null
+          profession?: string | null
+          role?: string | null
+          state?: string | null
+          ubicacion_lat?: number | null
+          ubicacion_lng?: number | null
+          updated_at?: string | null
+          user_id: string
+          user_type?: string | null
+          whatsapp?: string | null
+          work_photos_urls?: string | null
+          work_zones?: string[] | null
+        }
+        Update: {
+          antecedentes_no_penales_url?: string | null
+          areas_servicio?: string[] | null
+          avatar_url?: string | null
+          bio?: string | null
+          calificacion_promedio?: number | null
+          certificaciones_urls?: string[] | null
+          city?: string | null
+          created_at?: string | null
+          descripcion_perfil?: string | null
+          email?: string | null
+          experience?: number | null
+          full_name?: string | null
+          notification_settings?: Json | null
+          numero_imss?: string | null
+          onboarding_completed?: boolean | null
+          onboarding_status?: string | null
+          payment_preference?: string | null
+          phone?: string | null
+          portfolio?: Json | null
+          profession?: string | null
+          role?: string | null
+          state?: string | null
+          ubicacion_lat?: number | null
+          ubicacion_lng?: number | null
+          updated_at?: string | null
+          user_id?: string
+          user_type?: string | null
+          whatsapp?: string | null
+          work_photos_urls?: string | null
+          work_zones?: string[] | null
+        }
+        Relationships: []
+      }
+      projects: {
+        Row: {
+          address: string | null
+          client_id: string
+          created_at: string | null
+          description: string
+          estimated_total: number | null
+          id: string
+          lat: number | null
+          lng: number | null
+          photos_urls: string[]
+          title: string
+          updated_at: string | null
+        }
+        Insert: {
+          address?: string | null
+          client_id: string
+          created_at?: string | null
+          description: string
+          estimated_total?: number | null
+          id?: string
+          lat?: number | null
+          lng?: number | null
+          photos_urls?: string[]
+          title: string
+          updated_at?: string | null
+        }
+        Update: {
+          address?: string | null
+          client_id?: string
+          created_at?: string | null
+          description?: string
+          estimated_total?: number | null
+          id?: string
+          lat?: number | null
+          lng?: number | null
+          photos_urls?: string[]
+          title?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "projects_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      request_drafts: {
+        Row: {
+          client_id: string
+          draft_key: string
+          id: string
+          payload: Json
+          updated_at: string
+        }
+        Insert: {
+          client_id: string
+          draft_key: string
+          id?: string
+          payload: Json
+          updated_at?: string
+        }
+        Update: {
+          client_id?: string
+          draft_key?: string
+          id?: string
+          payload?: Json
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "request_drafts_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      reviews: {
+        Row: {
+          client_id: string | null
+          comment: string | null
+          created_at: string | null
+          id: string
+          lead_id: string | null
+          professional_id: string | null
+          rating: number | null
+        }
+        Insert: {
+          client_id?: string | null
+          comment?: string | null
+          created_at?: string | null
+          id?: string
+          lead_id?: string | null
+          professional_id?: string | null
+          rating?: number | null
+        }
+        Update: {
+          client_id?: string | null
+          comment?: string | null
+          created_at?: string | null
+          id?: string
+          lead_id?: string | null
+          professional_id?: string | null
+          rating?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reviews_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "reviews_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reviews_professional_id_fkey"
+            columns: ["professional_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      service_catalog: {
+        Row: {
+          badge_tags: string[] | null
+          category_group: string | null
+          completed_count: number | null
+          created_at: string | null
+          description: string | null
+          discipline: string
+          display_order: number | null
+          form_schema: Json | null
+          hero_image_url: string | null
+          id: string
+          includes_materials: boolean | null
+          is_active: boolean | null
+          is_popular: boolean | null
+          max_price: number | null
+          min_price: number | null
+          price_type: string | null
+          pricing_rules: Json | null
+          service_name: string
+          service_type: string | null
+          unit: string | null
+        }
+        Insert: {
+          badge_tags?: string[] | null
+          category_group?: string | null
+          completed_count?: number | null
+          created_at?: string | null
+          description?: string | null
+          discipline: string
+          display_order?: number | null
+          form_schema?: Json | null
+          hero_image_url?: string | null
+          id?: string
+          includes_materials?: boolean | null
+          is_active?: boolean | null
+          is_popular?: boolean | null
+          max_price?: number | null
+          min_price?: number | null
+          price_type?: string | null
+          pricing_rules?: Json | null
+          service_name: string
+          service_type?: string | null
+          unit?: string | null
+        }
+        Update: {
+          badge_tags?: string[] | null
+          category_group?: string | null
+          completed_count?: number | null
+          created_at?: string | null
+          description?: string | null
+          discipline?: string
+          display_order?: number | null
+          form_schema?: Json | null
+          hero_image_url?: string | null
+          id?: string
+          includes_materials?: boolean | null
+          is_active?: boolean | null
+          is_popular?: boolean | null
+          max_price?: number | null
+          min_price?: number | null
+          price_type?: string | null
+          pricing_rules?: Json | null
+          service_name?: string
+          service_type?: string | null
+          unit?: string | null
+        }
+        Relationships: []
+      }
+      service_categories: {
+        Row: {
+          id: string
+          name: string
+          popularity: number | null
+        }
+        Insert: {
+          id?: string
+          name: string
+          popularity?: number | null
+        }
+        Update: {
+          id?: string
+          name?: string
+          popularity?: number | null
+        }
+        Relationships: []
+      }
+      service_embeddings: {
+        Row: {
+          created_at: string | null
+          discipline: string
+          embedding: string | null
+          id: string
+          service_id: string
+          service_name: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          discipline: string
+          embedding?: string | null
+          id?: string
+          service_id: string
+          service_name: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          discipline?: string
+          embedding?: string | null
+          id?: string
+          service_id?: string
+          service_name?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      service_materials: {
+        Row: {
+          client_approved: boolean | null
+          created_at: string | null
+          id: string
+          lead_id: string
+          material_name: string
+          notes: string | null
+          photo_urls: string[] | null
+          professional_id: string
+          purchase_service_fee: number
+          purchased_at: string | null
+          quantity: number
+          receipt_urls: string[] | null
+          responded_at: string | null
+          status: string
+          total_price: number
+          unit: string
+          unit_price: number
+          updated_at: string | null
+        }
+        Insert: {
+          client_approved?: boolean | null
+          created_at?: string | null
+          id?: string
+          lead_id: string
+          material_name: string
+          notes?: string | null
+          photo_urls?: string[] | null
+          professional_id: string
+          purchase_service_fee?: number
+          purchased_at?: string | null
+          quantity: number
+          receipt_urls?: string[] | null
+          responded_at?: string | null
+          status?: string
+          total_price?: never
+          unit?: string
+          unit_price: number
+          updated_at?: string | null
+        }
+        Update: {
+          client_approved?: boolean | null
+          created_at?: string | null
+          id?: string
+          lead_id?: string
+          material_name?: string
+          notes?: string | null
+          photo_urls?: string[] | null
+          professional_id?: string
+          purchase_service_fee?: number
+          purchased_at?: string | null
+          quantity?: number
+          receipt_urls?: string[] | null
+          responded_at?: string | null
+          status?: string
+          total_price?: never
+          unit?: string
+          unit_price?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "service_materials_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "service_materials_professional_id_fkey"
+            columns: ["professional_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      service_plan_occurrences: {
+        Row: {
+          created_at: string | null
+          id: string
+          lead_id: string | null
+          occurrence_date: string
+          plan_id: string
+          status: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          lead_id?: string | null
+          occurrence_date: string
+          plan_id: string
+          status: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          lead_id?: string | null
+          occurrence_date?: string
+          plan_id?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "service_plan_occurrences_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "service_plan_occurrences_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "service_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      service_plans: {
+        Row: {
+          address: string | null
+          anchor_date: string
+          client_id: string
+          created_at: string | null
+          description: string
+          discipline: string | null
+          frequency_interval: number
+          frequency_unit: string
+          id: string
+          last_generated_at: string | null
+          lat: number | null
+          lead_days_ahead: number
+          lng: number | null
+          next_occurrence: string
+          preferred_professional_id: string | null
+          price: number | null
+          service_name: string
+          source_lead_id: string | null
+          status: string
+          time_window: string
+          updated_at: string | null
+          whatsapp: string | null
+        }
+        Insert: {
+          address?: string | null
+          anchor_date: string
+          client_id: string
+          created_at?: string | null
+          description: string
+          discipline?: string | null
+          frequency_interval: number
+          frequency_unit: string
+          id?: string
+          last_generated_at?: string | null
+          lat?: number | null
+          lead_days_ahead?: number
+          lng?: number | null
+          next_occurrence: string
+          preferred_professional_id?: string | null
+          price?: number | null
+          service_name: string
+          source_lead_id?: string | null
+          status?: string
+          time_window?: string
+          updated_at?: string | null
+          whatsapp?: string | null
+        }
+        Update: {
+          address?: string | null
+          anchor_date?: string
+          client_id?: string
+          created_at?: string | null
+          description?: string
+          discipline?: string | null
+          frequency_interval?: number
+          frequency_unit?: string
+          id?: string
+          last_generated_at?: string | null
+          lat?: number | null
+          lead_days_ahead?: number
+          lng?: number | null
+          next_occurrence?: string
+          preferred_professional_id?: string | null
+          price?: number | null
+          service_name?: string
+          source_lead_id?: string | null
+          status?: string
+          time_window?: string
+          updated_at?: string | null
+          whatsapp?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "service_plans_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "service_plans_preferred_professional_id_fkey"
+            columns: ["preferred_professional_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "service_plans_source_lead_id_fkey"
+            columns: ["source_lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_badges: {
+        Row: {
+          badge_id: string
+          id: string
+          unlocked_at: string | null
+          user_id: string
+        }
+        Insert: {
+          badge_id: string
+          id?: string
+          unlocked_at?: string | null
+          user_id: string
+        }
+        Update: {
+          badge_id?: string
+          id?: string
+          unlocked_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      user_features: {
+        Row: {
+          average_budget: number | null
+          created_at: string | null
+          embedding: string | null
+          last_updated: string | null
+          location_cluster: string | null
+          most_common_lat: number | null
+          most_common_lng: number | null
+          preferred_disciplines: Json | null
+          preferred_services: Json | null
+          preferred_time_slots: Json | null
+          total_services_completed: number | null
+          total_spent: number | null
+          user_id: string
+          user_segment: string | null
+        }
+        Insert: {
+          average_budget?: number | null
+          created_at?: string | null
+          embedding?: string | null
+          last_updated?: string | null
+          location_cluster?: string | null
+          most_common_lat?: number | null
+          most_common_lng?: number | null
+          preferred_disciplines?: Json | null
+          preferred_services?: Json | null
+          preferred_time_slots?: Json | null
+          total_services_completed?: number | null
+          total_spent?: number | null
+          user_id: string
+          user_segment?: string | null
+        }
+        Update: {
+          average_budget?: number | null
+          created_at?: string | null
+          embedding?: string | null
+          last_updated?: string | null
+          location_cluster?: string | null
+          most_common_lat?: number | null
+          most_common_lng?: number | null
+          preferred_disciplines?: Json | null
+          preferred_services?: Json | null
+          preferred_time_slots?: Json | null
+          total_services_completed?: number | null
+          total_spent?: number | null
+          user_id?: string
+          user_segment?: string | null
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      accept_lead_quote: {
+        Args: {
+          p_quote_id: string
+        }
+        Returns: undefined
+      }
+      cancel_lead: {
+        Args: {
+          p_lead_id: string
+          p_reason?: string | null
+          p_reason_code?: string | null
+        }
+        Returns: number
+      }
+      create_service_plan: {
+        Args: {
+          p_first_date: string
+          p_frequency_interval: number
+          p_frequency_unit: string
+          p_lead_id: string
+          p_time_window: string
+        }
+        Returns: {
+          address: string | null
+          anchor_date: string
+          client_id: string
+          created_at: string | null
+          description: string
+          discipline: string | null
+          frequency_interval: number
+          frequency_unit: string
+          id: string
+          last_generated_at: string | null
+          lat: number | null
+          lead_days_ahead: number
+          lng: number | null
+          next_occurrence: string
+          preferred_professional_id: string | null
+          price: number | null
+          service_name: string
+          source_lead_id: string | null
+          status: string
+          time_window: string
+          updated_at: string | null
+          whatsapp: string | null
+        }
+      }
+      find_similar_services: {
+        Args: {
+          discipline_filter?: string | null
+          limit_count?: number
+          query_embedding: number[] | string
+        }
+        Returns: {
+          discipline: string
+          min_price: number
+          service_id: string
+          service_name: string
+          similarity: number
+        }[]
+      }
+      generate_service_plan_leads: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      get_client_conversations: {
+        Args: {
+          p_client_id: string
+        }
+        Returns: {
+          appointment_status: string | null
+          estado: string | null
+          last_message_content: string | null
+          last_message_created_at: string | null
+          last_message_id: string | null
+          last_message_sender_id: string | null
+          last_message_updated_at: string | null
+          lead_id: string
+          professional_id: string | null
+          profesional_asignado_id: string | null
+          servicio: string | null
+          servicio_solicitado: string | null
+          status: string | null
+          unread_count: number
+          updated_at: string
+        }[]
+      }
+      get_quote_discounts: {
+        Args: {
+          p_client_id: string
+          p_discipline: string
+          p_promo_code?: string | null
+          p_subtotal: number
+        }
+        Returns: {
+          amount: number
+          discount_id: string
+          discount_type: string
+          max_amount: number | null
+          name: string
+          rejection_reason: string | null
+          source: string
+        }[]
+      }
+      get_service_price_history: {
+        Args: {
+          p_discipline: string
+          p_lat?: number | null
+          p_lng?: number | null
+          p_months?: number
+          p_radius_km?: number
+          p_service_name: string
+        }
+        Returns: {
+          p25: number
+          p50: number
+          p75: number
+          sample_size: number
+          scope: string
+        }[]
+      }
+      guarantee_days: {
+        Args: {
+          p_discipline: string
+        }
+        Returns: number
+      }
+      propose_reschedule: {
+        Args: {
+          p_counter_to?: string | null
+          p_lead_id: string
+          p_reason: string
+          p_slots: Json
+        }
+        Returns: string
+      }
+      purge_stale_request_drafts: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      redeem_quote_discounts: {
+        Args: {
+          p_client_id: string
+          p_discount_ids: string[]
+          p_lead_id: string
+          p_promo_code?: string | null
+        }
+        Returns: undefined
+      }
+      respond_quote_revision: {
+        Args: {
+          p_approved: boolean
+          p_note?: string | null
+          p_revision_id: string
+        }
+        Returns: undefined
+      }
+      respond_reschedule: {
+        Args: {
+          p_reschedule_id: string
+          p_slot_index?: number | null
+        }
+        Returns: undefined
+      }
+      respond_service_materials: {
+        Args: {
+          p_approved: boolean
+          p_lead_id: string
+          p_material_ids: string[]
+        }
+        Returns: undefined
+      }
+      resume_service_plan: {
+        Args: {
+          p_plan_id: string
+        }
+        Returns: {
+          address: string | null
+          anchor_date: string
+          client_id: string
+          created_at: string | null
+          description: string
+          discipline: string | null
+          frequency_interval: number
+          frequency_unit: string
+          id: string
+          last_generated_at: string | null
+          lat: number | null
+          lead_days_ahead: number
+          lng: number | null
+          next_occurrence: string
+          preferred_professional_id: string | null
+          price: number | null
+          service_name: string
+          source_lead_id: string | null
+          status: string
+          time_window: string
+          updated_at: string | null
+          whatsapp: string | null
+        }
+      }
+      skip_service_plan_occurrence: {
+        Args: {
+          p_plan_id: string
+        }
+        Returns: string
+      }
+      submit_guarantee_claim: {
+        Args: {
+          p_description: string
+          p_evidence_urls: string[]
+          p_lead_id: string
+          p_problem_type: string
+        }
+        Returns: string
+      }
+      update_lead_details: {
+        Args: {
+          descripcion_proyecto_in?: string | null
+          lead_id: string
+          photos_urls_in?: Json | null
+          servicio_solicitado_in?: string | null
+          ubicacion_direccion_in?: string | null
+          whatsapp_in?: string | null
+        }
+        Returns: undefined
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database["public"]
+
+export type Tables<T extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][T]["Row"]
+
+export type TablesInsert<T extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][T]["Insert"]
+
+export type TablesUpdate<T extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][T]["Update"]
+
+export type Functions<T extends keyof PublicSchema["Functions"]> =
+  PublicSchema["Functions"][T]
@@ -71,7 +71,7 @@ async function generateAllServiceEmbeddings(): Promise<GenerationStats> {
                     service.id,
                     service.service_name,
                     service.discipline,
-                    service.description
+                    service.description ?? undefined
                 );
 
                 successCount++;
@@ -0,0 +1,161 @@
+import { fakeSupabase, pgError } from '@/test/fakeSupabase';
+import {
+    CancellationPolicyService,
+    DEFAULT_CANCELLATION_POLICY,
+    calculateCancellationFee,
+    parseCancellationPolicy,
+    validateCancellationReason,
+} from '../cancellations';
+import { LeadsService } from '../leads';
+import { LeadEventsService, describeLeadEvent } from '../leadEvents';
+import { cache } from '../cache';
+import { outbox } from '../outbox';
+
+const CLIENT_ID = '11111111-1111-4111-8111-111111111111';
+const PRO_ID = '33333333-3333-4333-8333-333333333333';
+const LEAD_ID = '55555555-5555-4555-8555-555555555555';
+
+// Cita el 10 de mayo de 2030 a las 10:00 (hora local)
+const APPOINTMENT = new Date(2030, 4, 10, 10, 0);
+
+function lead(overrides: Record<string, any> = {}) {
+    return {
+        id: LEAD_ID,
+        cliente_id: CLIENT_ID,
+        servicio: 'plomeria',
+        servicio_solicitado: 'Reparación de fuga',
+        status: 'scheduled',
+        estado: 'agendado',
+        appointment_status: 'scheduled',
+        appointment_date: '2030-05-10',
+        appointment_time: '2030-05-10T10:00:00',
+        agreed_price: 1000,
+        price: 900,
+        professional_id: PRO_ID,
+        profesional_asignado_id: null,
+        updated_at: '2030-05-01T10:00:00Z',
+        ...overrides,
+    };
+}
+
+const hoursBefore = (hours: number) => new Date(APPOINTMENT.getTime() - hours * 60 * 60 * 1000);
+
+describe('Cancellations', () => {
+    beforeEach(async () => {
+        fakeSupabase.reset();
+        await cache.clear();
+        await outbox.clear();
+    });
+
+    afterAll(() => {
+        outbox.stop();
+    });
+
+    it('la política de la disciplina sobrescribe a la general e ignora valores inválidos', () => {
+        const policy = parseCancellationPolicy(
+            { late_window_hours: 12, late_fee_min: 100 },
+            { late_window_hours: 48, late_fee_percent: -5, no_show_grace_minutes: 'quince' }
+        );
+
+        expect(policy).toEqual({
+            ...DEFAULT_CANCELLATION_POLICY,
+            late_window_hours: 48,
+            late_fee_min: 100,
+        });
+        expect(parseCancellationPolicy(null, [1, 2])).toEqual(DEFAULT_CANCELLATION_POLICY);
+    });
+
+    it('cancelar es gratis antes de la aceptación y fuera de la ventana previa a la cita', () => {
+        const policy = DEFAULT_CANCELLATION_POLICY;
+
+        expect(calculateCancellationFee(lead({ status: 'pending', estado: 'Nuevo' }), policy, { now: hoursBefore(2) }))
+            .toMatchObject({ fee: 0, rule: 'before_acceptance' });
+
+        const early = calculateCancellationFee(lead(), policy, { now: hoursBefore(30) });
+        expect(early).toMatchObject({ fee: 0, rule: 'outside_window' });
+        expect(early.lateFrom?.getTime()).toBe(hoursBefore(24).getTime());
+
+        expect(calculateCancellationFee(lead({ appointment_date: null, appointment_time: null }), policy, { now: hoursBefore(2) }))
+            .toMatchObject({ fee: 0, rule: 'outside_window', lateFrom: null });
+    });
+
+    it('dentro de la ventana se cobra un porcentaje del precio con mínimo y sin pasar del precio', () => {
+        const policy = DEFAULT_CANCELLATION_POLICY;
+        const now = hoursBefore(6);
+
+        expect(calculateCancellationFee(lead(), policy, { now })).toMatchObject({ fee: 200, rule: 'late' });
+        expect(calculateCancellationFee(lead({ agreed_price: 400, price: null }), policy, { now }).fee).toBe(150);
+        expect(calculateCancellationFee(lead({ agreed_price: 100 }), policy, { now }).fee).toBe(100);
+        expect(calculateCancellationFee(lead({ agreed_price: null, price: null }), policy, { now }).fee).toBe(150);
+        // Con el servicio en progreso siempre hay cargo
+        expect(calculateCancellationFee(lead({ status: 'in_progress' }), policy, { now: hoursBefore(72) }))
+            .toMatchObject({ fee: 200, rule: 'late' });
+    });
+
+    it('las inasistencias no cobran al cliente si el profesional no llegó y sí si el cliente no se presentó', () => {
+        const policy = DEFAULT_CANCELLATION_POLICY;
+        const now = hoursBefore(-1);
+
+        expect(calculateCancellationFee(lead(), policy, { reasonCode: 'professional_no_show', now }))
+            .toMatchObject({ fee: 0, rule: 'professional_no_show' });
+        expect(calculateCancellationFee(lead(), policy, { actor: 'professional', reasonCode: 'client_no_show', now }))
+            .toMatchObject({ fee: 500, rule: 'client_no_show' });
+        expect(calculateCancellationFee(lead(), policy, { actor: 'professional', reasonCode: 'professional_unavailable', now }))
+            .toMatchObject({ fee: 0, rule: 'professional_cancelled' });
+    });
+
+    it('valida el motivo, el detalle de "Otro motivo" y la tolerancia de inasistencia', () => {
+        const base = { lead: lead(), policy: DEFAULT_CANCELLATION_POLICY, now: hoursBefore(-0.25) };
+
+        expect(validateCancellationReason({ ...base, reasonCode: null }).error?.code).toBe('MISSING_CANCELLATION_REASON');
+        expect(validateCancellationReason({ ...base, reasonCode: 'client_no_show' }).error?.code).toBe('INVALID_CANCELLATION_REASON');
+        expect(validateCancellationReason({ ...base, reasonCode: 'other', detail: ' ' }).error?.code).toBe('MISSING_CANCELLATION_DETAIL');
+        expect(validateCancellationReason({ ...base, reasonCode: 'professional_no_show' }).error?.code).toBe('NO_SHOW_TOO_EARLY');
+        expect(validateCancellationReason({ ...base, reasonCode: 'professional_no_show', now: hoursBefore(-1) }).valid).toBe(true);
+        expect(validateCancellationReason({ ...base, reasonCode: 'other', detail: 'Me mudo de casa' }).valid).toBe(true);
+    });
+
+    it('lee la política configurada y sin la tabla usa la de por defecto', async () => {
+        fakeSupabase.seed('cancellation_policies', [
+            { key: 'default', rules: { late_window_hours: 12 } },
+            { key: 'plomeria', rules: { late_fee_percent: 30 } },
+        ]);
+
+        expect(await CancellationPolicyService.getPolicy('Plomeria')).toMatchObject({ late_window_hours: 12, late_fee_percent: 30 });
+        expect(await CancellationPolicyService.getPolicy('pintura')).toMatchObject({ late_window_hours: 12, late_fee_percent: 20 });
+
+        await cache.clear();
+        fakeSupabase.failNext('cancellation_policies', 'select', pgError('42P01', 'relation "public.cancellation_policies" does not exist'));
+        expect(await CancellationPolicyService.getPolicy('plomeria')).toEqual(DEFAULT_CANCELLATION_POLICY);
+    });
+
+    it('la cancelación tardía guarda motivo, cargo y quién canceló, y queda en el historial', async () => {
+        // Cita ya pasada: cualquier cancelación cae dentro de la ventana
+        fakeSupabase.seed('leads', [lead({ appointment_date: '2020-01-10', appointment_time: '10:00:00' })]);
+
+        await LeadsService.cancelLead(LEAD_ID, CLIENT_ID, ' Tengo un viaje ', 'schedule_conflict');
+
+        expect(fakeSupabase.getRow('leads', LEAD_ID)).toMatchObject({
+            status: 'cancelled',
+            cancellation_reason_code: 'schedule_conflict',
+            cancellation_reason: 'Tengo un viaje',
+            cancellation_fee: 200,
+            cancelled_by: 'client',
+        });
+
+        const [cancelled] = await LeadEventsService.getLeadEvents(LEAD_ID);
+        expect(cancelled.payload).toMatchObject({ reason_code: 'schedule_conflict', fee: 200 });
+        expect(describeLeadEvent(cancelled)).toEqual({
+            title: 'Solicitud cancelada',
+            detail: 'Antes: Agendado · Motivo: No puedo en la fecha de la cita (Tengo un viaje) · Cargo por cancelación: $200.00',
+        });
+    });
+
+    it('reportar que el profesional no llegó antes de la tolerancia no cancela el servicio', async () => {
+        fakeSupabase.seed('leads', [lead()]);
+
+        await expect(LeadsService.cancelLead(LEAD_ID, CLIENT_ID, undefined, 'professional_no_show'))
+            .rejects.toMatchObject({ code: 'validation.no_show_too_early' });
+        expect(fakeSupabase.getRow('leads', LEAD_ID)?.status).toBe('scheduled');
+    });
+});
@@ -0,0 +1,159 @@
+import { fakeSupabase, pgError } from '@/test/fakeSupabase';
+import { DiscountService } from '../discounts';
+import { Discount, QuoteService } from '../quotes';
+import { cache } from '../cache';
+import { AppError } from '../errors';
+
+const CLIENT_ID = '11111111-1111-4111-8111-111111111111';
+const SERVICE_ID = '44444444-4444-4444-8444-444444444444';
+
+const FIRST_SERVICE: Discount = {
+    id: 'first_service',
+    name: 'Descuento primer servicio',
+    amount: 10,
+    type: 'percentage',
+    source: 'first_service',
+    max_amount: 200,
+};
+
+const FIRST_SERVICE_ROW = {
+    discount_id: 'first_service',
+    name: 'Descuento primer servicio',
+    source: 'first_service',
+    discount_type: 'percentage',
+    amount: 10,
+    max_amount: 200,
+    rejection_reason: null,
+};
+
+function seedCatalogAndClient() {
+    fakeSupabase.seed('service_catalog', [{
+        id: SERVICE_ID,
+        service_name: 'Reparación de fuga',
+        discipline: 'plomeria',
+        min_price: 1000,
+        is_active: true,
+    }]);
+    fakeSupabase.seed('profiles', [{ user_id: CLIENT_ID, full_name: 'Laura Cliente', phone: '5512345678' }]);
+}
+
+describe('Discounts', () => {
+    beforeEach(async () => {
+        fakeSupabase.reset();
+        await cache.clear();
+    });
+
+    describe('calculatePrice con descuentos', () => {
+        it('aplica porcentajes con tope y montos fijos como renglones negativos', () => {
+            const quote = QuoteService.calculatePrice(3000, {}, false, {
+                discounts: [
+                    FIRST_SERVICE,
+                    { id: 'referral', name: 'Créditos por referidos', amount: 150, type: 'fixed', source: 'referral' },
+                ],
+            });
+
+            expect(quote.subtotal).toBe(3000);
+            expect(quote.total).toBe(2650);
+            expect(quote.total_with_tax).toBeCloseTo(3074);
+            expect(quote.discounts.map(d => d.applied_amount)).toEqual([200, 150]);
+            expect(quote.breakdown?.filter(line => line.kind === 'discount').map(line => line.amount)).toEqual([-200, -150]);
+        });
+
+        it('el total nunca queda negativo', () => {
+            const quote = QuoteService.calculatePrice(100, {}, false, {
+                discounts: [{ id: 'referral', name: 'Créditos', amount: 500, type: 'fixed' }],
+            });
+
+            expect(quote.total).toBe(0);
+            expect(quote.discounts[0].applied_amount).toBe(100);
+        });
+
+        it('solo conserva el código si el descuento promocional aplica', () => {
+            const promo: Discount = { id: 'promo:1', name: 'BIENVENIDA', amount: 15, type: 'percentage', source: 'promo' };
+
+            expect(QuoteService.calculatePrice(1000, {}, false, { discounts: [promo], promoCode: 'BIENVENIDA' }).promo_code).toBe('BIENVENIDA');
+            expect(QuoteService.calculatePrice(1000, {}, false, { promoCode: 'BIENVENIDA' }).promo_code).toBeUndefined();
+        });
+
+        it('reprice conserva descuentos y código', () => {
+            const promo: Discount = { id: 'promo:1', name: 'BIENVENIDA', amount: 100, type: 'fixed', source: 'promo' };
+            const quote = QuoteService.calculatePrice(1000, {}, false, { discounts: [promo], promoCode: 'BIENVENIDA' });
+
+            const repriced = QuoteService.reprice(quote, { rules: { minimum_total: 2000 } });
+
+            expect(repriced.total).toBe(1900);
+            expect(repriced.promo_code).toBe('BIENVENIDA');
+        });
+    });
+
+    describe('getQuoteDiscounts', () => {
+        it('separa descuentos válidos del código rechazado', async () => {
+            fakeSupabase.registerRpc('get_quote_discounts', args => {
+                expect(args).toEqual({ p_client_id: CLIENT_ID, p_discipline: 'plomeria', p_subtotal: 1000, p_promo_code: 'VERANO' });
+                return [
+                    FIRST_SERVICE_ROW,
+                    { ...FIRST_SERVICE_ROW, discount_id: 'promo:VERANO', source: 'promo', rejection_reason: 'expired' },
+                ];
+            });
+
+            const result = await DiscountService.getQuoteDiscounts({
+                clientId: CLIENT_ID,
+                discipline: 'plomeria',
+                subtotal: 1000,
+                promoCode: ' verano ',
+            });
+
+            expect(result.discounts).toEqual([FIRST_SERVICE]);
+            expect(result.promoError).toBe('El código expiró');
+        });
+    });
+
+    describe('createQuoteAndLead', () => {
+        it('revalida y registra los descuentos aplicados', async () => {
+            seedCatalogAndClient();
+            fakeSupabase.registerRpc('get_quote_discounts', () => [FIRST_SERVICE_ROW]);
+            const redeemed: any[] = [];
+            fakeSupabase.registerRpc('redeem_quote_discounts', args => {
+                redeemed.push(args);
+                return null;
+            });
+
+            const quote = QuoteService.calculatePrice(1000, {}, false, { discounts: [FIRST_SERVICE] });
+            const { lead } = await QuoteService.createQuoteAndLead(CLIENT_ID, SERVICE_ID, quote);
+
+            expect(fakeSupabase.getTable('leads')[0].agreed_price).toBeCloseTo(900 * 1.16);
+            expect(redeemed).toEqual([{
+                p_lead_id: lead.id,
+                p_client_id: CLIENT_ID,
+                p_discount_ids: ['first_service'],
+                p_promo_code: null,
+            }]);
+        });
+
+        it('no crea el lead si un descuento dejó de ser válido', async () => {
+            seedCatalogAndClient();
+            fakeSupabase.registerRpc('get_quote_discounts', () => []);
+
+            const quote = QuoteService.calculatePrice(1000, {}, false, { discounts: [FIRST_SERVICE] });
+            const error = await QuoteService.createQuoteAndLead(CLIENT_ID, SERVICE_ID, quote).catch(e => e);
+
+            expect(error).toBeInstanceOf(AppError);
+            expect(error.code).toBe('quote.discounts_changed');
+            expect(fakeSupabase.getTable('leads')).toHaveLength(0);
+        });
+
+        it('elimina el lead si el código se agotó al canjearlo', async () => {
+            seedCatalogAndClient();
+            fakeSupabase.registerRpc('get_quote_discounts', () => [FIRST_SERVICE_ROW]);
+            fakeSupabase.registerRpc('redeem_quote_discounts', () => {
+                throw pgError('23514', 'El código promocional ya se agotó');
+            });
+
+            const quote = QuoteService.calculatePrice(1000, {}, false, { discounts: [FIRST_SERVICE] });
+            const error = await QuoteService.createQuoteAndLead(CLIENT_ID, SERVICE_ID, quote).catch(e => e);
+
+            expect(error).toMatchObject({ kind: 'validation', sourceCode: '23514' });
+            expect(fakeSupabase.getTable('leads')).toHaveLength(0);
+        });
+    });
+});
@@ -0,0 +1,129 @@
+import {
+    ServiceDocumentData,
+    getDocumentMaterials,
+    getDocumentTotals,
+    renderServiceDocumentHtml,
+    renderServiceDocumentText,
+} from '../documents';
+import { revisionToServiceQuote } from '../quoteRevisions';
+import { ServiceMaterial, ServiceQuote } from '../quotes';
+
+function material(overrides: Partial<ServiceMaterial>): ServiceMaterial {
+    return {
+        id: 'm1',
+        material_name: 'Tubo PVC',
+        quantity: 2,
+        unit: 'pza',
+        unit_price: 50,
+        total_price: 100,
+        purchase_service_fee: 10,
+        status: 'approved',
+        ...overrides,
+    };
+}
+
+const QUOTE: ServiceQuote = {
+    form_data: {},
+    base_price: 800,
+    immediate_service_fee: 100,
+    additional_services: [],
+    discounts: [],
+    breakdown: [
+        { id: 'base', kind: 'base', label: 'Precio Base', amount: 800 },
+        { id: 'urgency', kind: 'urgency', label: 'Servicio Inmediato', amount: 100 },
+        { id: 'discount:promo', kind: 'discount', label: 'Promo <BIENVENIDA>', amount: -50 },
+    ],
+    subtotal: 900,
+    total: 850,
+    total_with_tax: 986,
+    tax_rate: 0.16,
+};
+
+function documentData(overrides: Partial<ServiceDocumentData> = {}): ServiceDocumentData {
+    return {
+        kind: 'quote',
+        quote: QUOTE,
+        serviceName: 'Reparación de fuga',
+        folio: 'AB12CD34',
+        issuedAt: new Date(2026, 2, 5),
+        professional: { name: 'Ana Plomera', profession: 'Plomería' },
+        materials: [
+            material({ id: 'm1', status: 'approved' }),
+            material({ id: 'm2', material_name: 'Llave de paso', status: 'pending', total_price: 200, purchase_service_fee: 0 }),
+            material({ id: 'm3', material_name: 'Silicón', status: 'rejected' }),
+        ],
+        paymentMethod: 'debit',
+        ...overrides,
+    };
+}
+
+describe('Documents', () => {
+    it('la cotización incluye materiales por aprobar y el recibo solo los aprobados', () => {
+        expect(getDocumentMaterials(documentData()).map(m => m.id)).toEqual(['m1', 'm2']);
+        expect(getDocumentMaterials(documentData({ kind: 'receipt' })).map(m => m.id)).toEqual(['m1']);
+    });
+
+    it('suma el servicio con IVA y los materiales con su cargo por compra', () => {
+        expect(getDocumentTotals(documentData())).toEqual({ service: 986, materials: 310, total: 1296 });
+        expect(getDocumentTotals(documentData({ kind: 'receipt' }))).toEqual({ service: 986, materials: 110, total: 1096 });
+    });
+
+    it('el HTML desglosa renglones, IVA, pago y garantía y escapa el texto', () => {
+        const html = renderServiceDocumentHtml(documentData());
+
+        expect(html).toContain('Cotización');
+        expect(html).toContain('Folio AB12CD34');
+        expect(html).toContain('Servicio Inmediato');
+        expect(html).toContain('Promo &lt;BIENVENIDA&gt;');
+        expect(html).not.toContain('<BIENVENIDA>');
+        expect(html).toContain('-$50.00');
+        expect(html).toContain('IVA (16%)');
+        expect(html).toContain('Tarjeta de débito');
+        expect(html).toContain('Ana Plomera · Plomería');
+        expect(html).toContain('Llave de paso');
+        expect(html).not.toContain('Silicón');
+        expect(html).toContain('Garantía TulBox');
+    });
+
+    it('el resumen en texto muestra el total pagado del recibo', () => {
+        const text = renderServiceDocumentText(documentData({ kind: 'receipt', paymentMethod: null }));
+
+        expect(text.split('\n')[0]).toBe('*Recibo de servicio TulBox #AB12CD34*');
+        expect(text).toContain('Total pagado: $1,096.00');
+        expect(text).toContain('Método de pago: Por definir');
+    });
+
+    it('la garantía usa los días de la disciplina o el rango general', () => {
+        expect(renderServiceDocumentHtml(documentData({ discipline: 'plomeria' })))
+            .toContain('Garantía de 90 días: reparación o reembolso.');
+        expect(renderServiceDocumentText(documentData({ discipline: 'limpieza' })))
+            .toContain('Incluye Garantía TulBox de 30 días.');
+        expect(renderServiceDocumentText(documentData()))
+            .toContain('Incluye Garantía TulBox de 30 a 90 días según el tipo de servicio.');
+    });
+
+    it('una revisión aprobada se convierte en cotización con sus renglones', () => {
+        const quote = revisionToServiceQuote({
+            id: 'r1',
+            lead_id: 'lead',
+            version: 2,
+            author_id: null,
+            author_name: null,
+            reason: null,
+            items: [
+                { id: 'mano-obra', kind: 'labor', label: 'Mano de obra', quantity: 1, unit_price: 1200, amount: 1200 },
+                { id: 'tubo', kind: 'material', label: 'Tubo de cobre', quantity: 2, unit_price: 150, amount: 300 },
+            ],
+            subtotal: 1500,
+            tax_rate: 0.16,
+            total_with_tax: 1740,
+            status: 'approved',
+            response_note: null,
+            responded_at: null,
+            created_at: null,
+        });
+
+        expect(quote.breakdown?.map(line => [line.kind, line.amount])).toEqual([['base', 1200], ['addon', 300]]);
+        expect(quote).toMatchObject({ base_price: 1200, total: 1500, total_with_tax: 1740 });
+    });
+});
@@ -0,0 +1,213 @@
+import { fakeSupabase, pgError } from '@/test/fakeSupabase';
+import {
+    GuaranteeService,
+    formatGuaranteeRemaining,
+    getGuaranteeDays,
+    getGuaranteeWindow,
+    validateGuaranteeClaim,
+} from '../guarantees';
+import { LeadEventsService, describeLeadEvent } from '../leadEvents';
+import { cache } from '../cache';
+
+const CLIENT_ID = '11111111-1111-4111-8111-111111111111';
+const OTHER_CLIENT_ID = '22222222-2222-4222-8222-222222222222';
+const PRO_ID = '33333333-3333-4333-8333-333333333333';
+const LEAD_ID = '55555555-5555-4555-8555-555555555555';
+const OLD_LEAD_ID = '66666666-6666-4666-8666-666666666666';
+
+const NOW = new Date('2030-05-20T12:00:00Z');
+const EVIDENCE = ['https://cdn.example.com/leads/fuga.jpg', 'https://cdn.example.com/leads/fuga.mp4'];
+
+function lead(overrides: Record<string, any> = {}) {
+    return {
+        id: LEAD_ID,
+        cliente_id: CLIENT_ID,
+        servicio: 'plomeria',
+        disciplina_ia: null,
+        servicio_solicitado: 'Reparación de fuga',
+        status: 'completed',
+        estado: 'completado',
+        professional_id: PRO_ID,
+        profesional_asignado_id: null,
+        completed_at: '2030-05-01T12:00:00Z',
+        created_at: '2030-04-20T12:00:00Z',
+        updated_at: '2030-05-02T12:00:00Z',
+        ...overrides,
+    };
+}
+
+function claimInput(overrides: Record<string, any> = {}) {
+    return {
+        lead: lead(),
+        clientId: CLIENT_ID,
+        problemType: 'leak' as const,
+        description: 'La conexión del lavabo volvió a gotear',
+        evidenceUrls: EVIDENCE,
+        ...overrides,
+    };
+}
+
+// Réplica en memoria de submit_guarantee_claim (SCHEMA_GARANTIAS.sql)
+// El fake no tiene sesión: la RPC actúa como el cliente
+function registerClaimRpc() {
+    fakeSupabase.registerRpc('submit_guarantee_claim', ({ p_lead_id, p_problem_type, p_description, p_evidence_urls }, db) => {
+        const target = db.rows('leads').find(row => row.id === p_lead_id);
+        if (!target) throw pgError('P0002', 'Solicitud no encontrada');
+        if (db.rows('guarantee_claims').some(row => row.lead_id === p_lead_id && ['submitted', 'under_review'].includes(row.status))) {
+            throw pgError('23505', 'Ya hay un reclamo abierto para este servicio');
+        }
+        const id = db.insertRow('guarantee_claims', {
+            lead_id: p_lead_id,
+            client_id: CLIENT_ID,
+            professional_id: target.professional_id,
+            problem_type: p_problem_type,
+            description: p_description,
+            evidence_urls: p_evidence_urls,
+            status: 'submitted',
+            resolution_note: null,
+            revisit_date: null,
+            refund_amount: null,
+            guarantee_expires_at: '2030-07-30T12:00:00Z',
+            created_at: NOW.toISOString(),
+            updated_at: NOW.toISOString(),
+            resolved_at: null,
+        }).id;
+        db.insertRow('lead_events', {
+            lead_id: p_lead_id,
+            actor_id: CLIENT_ID,
+            actor_role: 'client',
+            event_type: 'guarantee_claim',
+            payload: { claim_id: id, status: 'submitted', problem_type: p_problem_type },
+            created_at: NOW.toISOString(),
+        });
+        return id;
+    });
+}
+
+describe('Guarantees', () => {
+    beforeEach(async () => {
+        fakeSupabase.reset();
+        await cache.clear();
+        registerClaimRpc();
+    });
+
+    it('la garantía depende de la disciplina y cuenta desde que se completó', () => {
+        expect(getGuaranteeDays('plomeria')).toBe(90);
+        expect(getGuaranteeDays('Pintura')).toBe(60);
+        expect(getGuaranteeDays('limpieza')).toBe(30);
+        expect(getGuaranteeDays(null)).toBe(30);
+
+        const window = getGuaranteeWindow(lead(), NOW)!;
+        expect(window).toMatchObject({ days: 90, remainingDays: 71, active: true });
+        expect(window.endsAt.toISOString()).toBe('2030-07-30T12:00:00.000Z');
+        expect(formatGuaranteeRemaining(window)).toBe('Quedan 71 días de garantía');
+
+        // Servicios anteriores a la migración: cuenta desde la última actualización
+        expect(getGuaranteeWindow(lead({ completed_at: null }), NOW)!.startsAt.toISOString()).toBe('2030-05-02T12:00:00.000Z');
+        expect(getGuaranteeWindow(lead({ status: 'scheduled', estado: 'agendado' }), NOW)).toBeNull();
+    });
+
+    it('el texto de la garantía cubre el último día y el vencimiento', () => {
+        const lastDay = getGuaranteeWindow(lead({ servicio: 'limpieza', completed_at: '2030-04-20T18:00:00Z' }), NOW)!;
+        expect(lastDay).toMatchObject({ remainingDays: 0, active: true });
+        expect(formatGuaranteeRemaining(lastDay)).toBe('La garantía vence hoy');
+
+        const expired = getGuaranteeWindow(lead({ servicio: 'limpieza', completed_at: '2030-03-01T12:00:00Z' }), NOW)!;
+        expect(expired.active).toBe(false);
+        expect(formatGuaranteeRemaining(expired)).toMatch(/^Garantía vencida el /);
+    });
+
+    it('valida problema, descripción y evidencia', () => {
+        const valid = { problemType: 'leak', description: 'La conexión del lavabo volvió a gotear', evidenceUrls: EVIDENCE };
+
+        expect(validateGuaranteeClaim({ ...valid, problemType: '' }).error?.code).toBe('MISSING_CLAIM_PROBLEM');
+        expect(validateGuaranteeClaim({ ...valid, description: ' Gotea ' }).error?.code).toBe('SHORT_CLAIM_DESCRIPTION');
+        expect(validateGuaranteeClaim({ ...valid, evidenceUrls: [] }).error?.code).toBe('MISSING_CLAIM_EVIDENCE');
+        expect(validateGuaranteeClaim({ ...valid, evidenceUrls: Array(7).fill(EVIDENCE[0]) }).error?.code).toBe('TOO_MUCH_CLAIM_EVIDENCE');
+        expect(validateGuaranteeClaim(valid).valid).toBe(true);
+    });
+
+    it('enviar un reclamo lo guarda con su evidencia y queda en el historial', async () => {
+        fakeSupabase.seed('leads', [lead()]);
+
+        const id = await GuaranteeService.submitClaim(claimInput({ description: '  La conexión del lavabo volvió a gotear  ' }), NOW);
+
+        const [saved] = await GuaranteeService.getLeadClaims(LEAD_ID);
+        expect(saved).toMatchObject({
+            id,
+            problem_type: 'leak',
+            description: 'La conexión del lavabo volvió a gotear',
+            evidence_urls: EVIDENCE,
+            status: 'submitted',
+        });
+
+        const events = await LeadEventsService.getLeadEvents(LEAD_ID);
+        const claimEvent = events.find(event => event.type === 'guarantee_claim')!;
+        expect(describeLeadEvent(claimEvent)).toMatchObject({
+            title: 'Reclamo de garantía enviado',
+            detail: 'Fuga o filtración',
+        });
+    });
+
+    it('solo se reclama un servicio propio, completado y con garantía vigente', async () => {
+        await expect(GuaranteeService.submitClaim(claimInput({ clientId: OTHER_CLIENT_ID }), NOW))
+            .rejects.toMatchObject({ kind: 'permission', code: 'guarantee.not_owner' });
+        await expect(GuaranteeService.submitClaim(claimInput({ lead: lead({ status: 'in_progress', estado: 'en_progreso' }) }), NOW))
+            .rejects.toMatchObject({ kind: 'transition', code: 'guarantee.not_completed' });
+        await expect(GuaranteeService.submitClaim(claimInput({ lead: lead({ completed_at: '2030-01-01T12:00:00Z' }) }), NOW))
+            .rejects.toMatchObject({ kind: 'transition', code: 'guarantee.expired' });
+        expect(fakeSupabase.getTable('guarantee_claims')).toHaveLength(0);
+    });
+
+    it('no permite un segundo reclamo mientras el primero está abierto', async () => {
+        fakeSupabase.seed('leads', [lead()]);
+        await GuaranteeService.submitClaim(claimInput(), NOW);
+
+        await expect(GuaranteeService.submitClaim(claimInput({ problemType: 'not_working' }), NOW))
+            .rejects.toMatchObject({ kind: 'conflict', code: 'guarantee.open_claim_exists' });
+    });
+
+    it('si la garantía vence en el servidor el error lo explica', async () => {
+        fakeSupabase.seed('leads', [lead()]);
+        fakeSupabase.registerRpc('submit_guarantee_claim', () => {
+            throw pgError('23514', 'La garantía de este servicio ya venció');
+        });
+
+        await expect(GuaranteeService.submitClaim(claimInput(), NOW))
+            .rejects.toMatchObject({ kind: 'transition', code: 'guarantee.not_allowed' });
+    });
+
+    it('lista los servicios completados con su garantía y el último reclamo, vigentes primero', async () => {
+        fakeSupabase.seed('leads', [
+            lead({ id: OLD_LEAD_ID, servicio: 'limpieza', completed_at: '2030-02-01T12:00:00Z' }),
+            lead(),
+            lead({ id: '77777777-7777-4777-8777-777777777777', status: 'pending', estado: 'pendiente', completed_at: null }),
+        ]);
+        fakeSupabase.seed('guarantee_claims', [{
+            id: '88888888-8888-4888-8888-888888888888',
+            lead_id: LEAD_ID,
+            client_id: CLIENT_ID,
+            professional_id: PRO_ID,
+            problem_type: 'leak',
+            description: 'La conexión del lavabo volvió a gotear',
+            evidence_urls: EVIDENCE,
+            status: 'revisit_scheduled',
+            resolution_note: 'El profesional regresará a cambiar el empaque',
+            revisit_date: '2030-05-25',
+            refund_amount: null,
+            guarantee_expires_at: '2030-07-30T12:00:00Z',
+            created_at: '2030-05-10T12:00:00Z',
+            updated_at: '2030-05-11T12:00:00Z',
+            resolved_at: '2030-05-11T12:00:00Z',
+        }]);
+
+        const services = await GuaranteeService.getGuaranteedServices(CLIENT_ID, NOW);
+
+        expect(services.map(service => [service.lead.id, service.window.active])).toEqual([
+            [LEAD_ID, true],
+            [OLD_LEAD_ID, false],
+        ]);
+        expect(services[0].latestClaim).toMatchObject({ status: 'revisit_scheduled', revisit_date: '2030-05-25' });
+        expect(services[1].latestClaim).toBeNull();
+    });
+});
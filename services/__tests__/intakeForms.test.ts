@@ -0,0 +1,110 @@
+import {
+    IntakeFormSchema,
+    collectIntakePhotos,
+    formatIntakeSummary,
+    getIntakeFormSchema,
+    isQuestionVisible,
+    parseIntakeFormSchema,
+    summarizeIntakeAnswers,
+    validateIntakeAnswers,
+} from '../intakeForms';
+
+const LEAK_SCHEMA: IntakeFormSchema = {
+    questions: [
+        { id: 'leak_location', label: '¿Dónde está la fuga?', type: 'choice', options: ['Baño', 'Cocina', 'Otro'], required: true },
+        { id: 'leak_other', label: 'Describe la ubicación', type: 'text', required: true, visible_if: { field: 'leak_location', equals: 'Otro' } },
+        { id: 'area', label: 'Área afectada', type: 'number', unit: 'm2', min: 1, max: 50 },
+        { id: 'water_shutoff', label: '¿Puedes cerrar la llave de paso?', type: 'boolean' },
+        { id: 'leak_photos', label: 'Fotos', type: 'photo', max_photos: 2 },
+    ],
+};
+
+describe('intakeForms', () => {
+    describe('getIntakeFormSchema', () => {
+        it('usa el formulario por defecto de la disciplina sin form_schema', () => {
+            const ids = getIntakeFormSchema({ discipline: 'aire-acondicionado', form_schema: null }).questions.map(q => q.id);
+            expect(ids).toEqual(['service_type', 'needs_uninstall', 'quantity']);
+
+            expect(getIntakeFormSchema({ discipline: 'plomeria' }).questions.map(q => q.id)).toEqual(['service_type']);
+        });
+
+        it('prefiere el esquema del servicio y descarta preguntas mal formadas', () => {
+            const schema = getIntakeFormSchema({
+                discipline: 'plomeria',
+                form_schema: {
+                    questions: [
+                        { id: 'ok', label: 'Válida', type: 'boolean' },
+                        { id: 'sin-opciones', label: 'Inválida', type: 'choice' },
+                        { id: 'tipo', label: 'Inválida', type: 'fecha' },
+                    ],
+                },
+            });
+
+            expect(schema.questions.map(q => q.id)).toEqual(['ok']);
+            expect(parseIntakeFormSchema({ questions: [] })).toBeUndefined();
+        });
+    });
+
+    describe('validateIntakeAnswers', () => {
+        it('exige preguntas obligatorias visibles', () => {
+            expect(validateIntakeAnswers(LEAK_SCHEMA, {}).errors).toEqual({
+                leak_location: 'Este campo es obligatorio',
+            });
+
+            const other = validateIntakeAnswers(LEAK_SCHEMA, { leak_location: 'Otro' });
+            expect(other.valid).toBe(false);
+            expect(other.errors.leak_other).toBe('Este campo es obligatorio');
+        });
+
+        it('normaliza números y descarta respuestas de preguntas ocultas', () => {
+            const result = validateIntakeAnswers(LEAK_SCHEMA, {
+                leak_location: 'Baño',
+                leak_other: 'texto viejo',
+                area: '12,5',
+                selected_date: '2026-03-01',
+            });
+
+            expect(result.valid).toBe(true);
+            expect(result.formData).toEqual({ leak_location: 'Baño', area: 12.5, selected_date: '2026-03-01' });
+        });
+
+        it('valida opciones, rangos y límite de fotos', () => {
+            const result = validateIntakeAnswers(LEAK_SCHEMA, {
+                leak_location: 'Jardín',
+                area: 80,
+                water_shutoff: 'sí',
+                leak_photos: ['a', 'b', 'c'],
+            });
+
+            expect(result.errors).toEqual({
+                leak_location: 'Selecciona una opción válida',
+                area: 'El máximo es 50 m2',
+                water_shutoff: 'Responde sí o no',
+                leak_photos: 'Máximo 2 fotos',
+            });
+        });
+    });
+
+    it('isQuestionVisible acepta una lista de valores', () => {
+        const question = { id: 'x', label: 'X', type: 'text' as const, visible_if: { field: 'y', equals: ['a', 'b'] } };
+        expect(isQuestionVisible(question, { y: 'b' })).toBe(true);
+        expect(isQuestionVisible(question, { y: 'c' })).toBe(false);
+    });
+
+    it('resume las respuestas para el profesional', () => {
+        const answers = {
+            leak_location: 'Cocina',
+            area: 3,
+            water_shutoff: false,
+            leak_photos: ['https://cdn/1.jpg', 'https://cdn/2.jpg'],
+        };
+
+        expect(formatIntakeSummary(summarizeIntakeAnswers(LEAK_SCHEMA, answers))).toBe([
+            '• ¿Dónde está la fuga?: Cocina',
+            '• Área afectada: 3 m2',
+            '• ¿Puedes cerrar la llave de paso?: No',
+            '• Fotos: 2 fotos',
+        ].join('\n'));
+        expect(collectIntakePhotos(LEAK_SCHEMA, answers)).toEqual(['https://cdn/1.jpg', 'https://cdn/2.jpg']);
+    });
+});
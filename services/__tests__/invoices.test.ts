@@ -0,0 +1,179 @@
+import { fakeSupabase } from '@/test/fakeSupabase';
+import { InvoicesService, buildLeadInvoiceQuote } from '../invoices';
+import { FiscalProfile, buildCfdiPayload, validateFiscalProfile } from '../cfdi';
+import { ServiceQuote } from '../quotes';
+import { cache } from '../cache';
+
+const CLIENT_ID = '11111111-1111-4111-8111-111111111111';
+const OTHER_CLIENT_ID = '22222222-2222-4222-8222-222222222222';
+const PRO_ID = '33333333-3333-4333-8333-333333333333';
+const LEAD_ID = '55555555-5555-4555-8555-555555555555';
+
+const FISCAL_PROFILE: FiscalProfile = {
+    user_id: CLIENT_ID,
+    rfc: 'EKU9003173C9',
+    razon_social: 'ESCUELA KEMPER URGATE',
+    regimen_fiscal: '601',
+    uso_cfdi: 'G03',
+    codigo_postal: '42501',
+};
+
+function quoteWithDiscount(): ServiceQuote {
+    return {
+        form_data: {},
+        base_price: 1000,
+        immediate_service_fee: 0,
+        additional_services: [],
+        discounts: [],
+        breakdown: [
+            { id: 'base', kind: 'base', label: 'Precio Base', amount: 1000 },
+            { id: 'desinstalacion', kind: 'addon', label: 'Desinstalación', amount: 200, quantity: 2, unit_price: 100 },
+            { id: 'discount:promo', kind: 'discount', label: 'Promo 10%', amount: -120 },
+        ],
+        subtotal: 1200,
+        total: 1080,
+        total_with_tax: 1252.8,
+        tax_rate: 0.16,
+    };
+}
+
+function seedCompletedLead(leadOverrides: Record<string, any> = {}) {
+    fakeSupabase.seed('leads', [{
+        id: LEAD_ID,
+        cliente_id: CLIENT_ID,
+        professional_id: PRO_ID,
+        servicio_solicitado: 'Instalación de minisplit',
+        status: 'completed',
+        estado: 'completado',
+        agreed_price: 1160,
+        ...leadOverrides,
+    }]);
+}
+
+describe('Invoices', () => {
+    beforeEach(async () => {
+        fakeSupabase.reset({
+            primaryKeys: { fiscal_profiles: 'user_id' },
+            uniqueColumns: { invoice_requests: ['lead_id'] },
+        });
+        await cache.clear();
+    });
+
+    describe('validateFiscalProfile', () => {
+        it('el régimen debe corresponder al tipo de persona del RFC', () => {
+            expect(validateFiscalProfile(FISCAL_PROFILE)).toEqual({ valid: true });
+            expect(validateFiscalProfile({ ...FISCAL_PROFILE, regimen_fiscal: '612' }).error?.code)
+                .toBe('INVALID_REGIMEN_FISCAL');
+            expect(validateFiscalProfile({ ...FISCAL_PROFILE, rfc: 'GODE561231GR8', regimen_fiscal: '612' }))
+                .toEqual({ valid: true });
+        });
+
+        it('valida código postal y uso del RFC genérico', () => {
+            expect(validateFiscalProfile({ ...FISCAL_PROFILE, codigo_postal: '4250' }).error?.code)
+                .toBe('INVALID_POSTAL_CODE');
+            expect(validateFiscalProfile({ ...FISCAL_PROFILE, rfc: 'XAXX010101000', regimen_fiscal: '616' }).error?.code)
+                .toBe('INVALID_GENERIC_RFC_USE');
+        });
+    });
+
+    it('buildCfdiPayload reparte el descuento entre conceptos y calcula el IVA', () => {
+        const payload = buildCfdiPayload(quoteWithDiscount(), FISCAL_PROFILE, {
+            folio: 'ABC123',
+            serviceName: 'Instalación de minisplit',
+            paymentMethod: 'debit',
+            date: new Date(2026, 2, 5, 9, 30, 0),
+        });
+
+        expect(payload).toMatchObject({
+            Version: '4.0',
+            Fecha: '2026-03-05T09:30:00',
+            FormaPago: '28',
+            MetodoPago: 'PUE',
+            SubTotal: 1200,
+            Descuento: 120,
+            Total: 1252.8,
+            Receptor: { Rfc: 'EKU9003173C9', DomicilioFiscalReceptor: '42501', RegimenFiscalReceptor: '601', UsoCFDI: 'G03' },
+            Impuestos: { TotalImpuestosTrasladados: 172.8 },
+        });
+        expect(payload.Conceptos.map(c => [c.Descripcion, c.Cantidad, c.ValorUnitario, c.Importe, c.Descuento])).toEqual([
+            ['Instalación de minisplit', 1, 1000, 1000, 100],
+            ['Desinstalación', 2, 100, 200, 20],
+        ]);
+        expect(payload.Conceptos[1].Impuestos.Traslados[0]).toMatchObject({ Base: 180, TasaOCuota: '0.160000', Importe: 28.8 });
+    });
+
+    it('sin método de pago se emite como pago por definir', () => {
+        const payload = buildCfdiPayload(buildLeadInvoiceQuote({ agreed_price: 1160, price: null, servicio_solicitado: 'Plomería' }), FISCAL_PROFILE, {
+            folio: 'ABC123',
+        });
+
+        expect(payload).toMatchObject({ FormaPago: '99', MetodoPago: 'PPD', SubTotal: 1000, Total: 1160 });
+        expect(payload.Descuento).toBeUndefined();
+    });
+
+    describe('InvoicesService', () => {
+        it('guarda los datos fiscales normalizados', async () => {
+            fakeSupabase.seed('profiles', [{ user_id: CLIENT_ID, full_name: 'Cliente' }]);
+
+            const saved = await InvoicesService.saveFiscalProfile(CLIENT_ID, {
+                ...FISCAL_PROFILE,
+                rfc: ' eku-900317-3c9 ',
+                razon_social: 'Escuela  Kemper Urgate',
+            });
+
+            expect(saved).toMatchObject({ rfc: 'EKU9003173C9', razon_social: 'ESCUELA KEMPER URGATE' });
+            expect(await InvoicesService.getFiscalProfile(CLIENT_ID)).toMatchObject({ rfc: 'EKU9003173C9' });
+        });
+
+        it('rechaza un RFC con homoclave inválida', async () => {
+            const error = await InvoicesService.saveFiscalProfile(CLIENT_ID, { ...FISCAL_PROFILE, rfc: 'EKU9003173C8' })
+                .catch(e => e);
+
+            expect(error.kind).toBe('validation');
+            expect(fakeSupabase.queries.some(q => q.target === 'fiscal_profiles')).toBe(false);
+        });
+
+        it('solicita la factura de un servicio completado', async () => {
+            seedCompletedLead();
+            fakeSupabase.seed('fiscal_profiles', [FISCAL_PROFILE]);
+
+            const invoice = await InvoicesService.requestInvoice({ leadId: LEAD_ID, clientId: CLIENT_ID });
+
+            expect(invoice).toMatchObject({ status: 'requested', rfc: 'EKU9003173C9' });
+            expect(invoice.payload.Conceptos[0].Descripcion).toBe('Instalación de minisplit');
+            expect(invoice.payload.Total).toBe(1160);
+            expect((await InvoicesService.getLeadInvoice(LEAD_ID))?.id).toBe(invoice.id);
+        });
+
+        it('no se factura un servicio sin completar', async () => {
+            seedCompletedLead({ status: 'in_progress', estado: 'en_proceso' });
+            fakeSupabase.seed('fiscal_profiles', [FISCAL_PROFILE]);
+
+            const error = await InvoicesService.requestInvoice({ leadId: LEAD_ID, clientId: CLIENT_ID }).catch(e => e);
+
+            expect(error.kind).toBe('transition');
+            expect(error.code).toBe('invoice.lead_not_completed');
+        });
+
+        it('pide capturar datos fiscales y solo el cliente puede solicitar', async () => {
+            seedCompletedLead();
+
+            const missing = await InvoicesService.requestInvoice({ leadId: LEAD_ID, clientId: CLIENT_ID }).catch(e => e);
+            const notOwner = await InvoicesService.requestInvoice({ leadId: LEAD_ID, clientId: OTHER_CLIENT_ID }).catch(e => e);
+
+            expect(missing.code).toBe('invoice.missing_fiscal_profile');
+            expect(notOwner.kind).toBe('permission');
+        });
+
+        it('una segunda solicitud para el mismo lead es un conflicto', async () => {
+            seedCompletedLead();
+            fakeSupabase.seed('fiscal_profiles', [FISCAL_PROFILE]);
+            await InvoicesService.requestInvoice({ leadId: LEAD_ID, clientId: CLIENT_ID });
+
+            const error = await InvoicesService.requestInvoice({ leadId: LEAD_ID, clientId: CLIENT_ID }).catch(e => e);
+
+            expect(error.kind).toBe('conflict');
+            expect(error.code).toBe('invoice.already_requested');
+        });
+    });
+});
@@ -0,0 +1,171 @@
+import { fakeSupabase, pgError } from '@/test/fakeSupabase';
+import {
+    LeadEvent,
+    LeadEventsService,
+    buildLeadTimeline,
+    describeLeadEvent,
+    diffLeadFields,
+    getAddedPhotos,
+} from '../leadEvents';
+import { LeadsService } from '../leads';
+import { MessagesService } from '../messages';
+import { QuoteService } from '../quotes';
+import { cache } from '../cache';
+import { outbox } from '../outbox';
+
+const CLIENT_ID = '11111111-1111-4111-8111-111111111111';
+const PRO_ID = '33333333-3333-4333-8333-333333333333';
+const LEAD_ID = '55555555-5555-4555-8555-555555555555';
+const MESSAGE_ID = '99999999-9999-4999-8999-999999999999';
+
+function lead(overrides: Record<string, any> = {}) {
+    return {
+        id: LEAD_ID,
+        cliente_id: CLIENT_ID,
+        servicio_solicitado: 'Reparación de fuga',
+        descripcion_proyecto: 'Fuga bajo el lavabo',
+        ubicacion_direccion: 'Av. Reforma 100',
+        whatsapp: '5512345678',
+        photos_urls: ['https://cdn/antes.jpg'],
+        status: 'pending',
+        estado: 'Nuevo',
+        professional_id: null,
+        profesional_asignado_id: null,
+        agreed_price: 1160,
+        created_at: '2026-03-01T10:00:00Z',
+        ...overrides,
+    };
+}
+
+function event(overrides: Partial<LeadEvent>): LeadEvent {
+    return {
+        id: 'e1',
+        lead_id: LEAD_ID,
+        type: 'status_changed',
+        actor_id: PRO_ID,
+        actor_role: 'professional',
+        payload: {},
+        created_at: '2026-03-02T10:00:00Z',
+        ...overrides,
+    };
+}
+
+describe('LeadEvents', () => {
+    beforeEach(async () => {
+        fakeSupabase.reset();
+        await cache.clear();
+        await outbox.clear();
+    });
+
+    it('detecta campos editados y fotos nuevas', () => {
+        const changes = diffLeadFields(lead(), {
+            servicio_solicitado: 'Reparación de fuga',
+            descripcion_proyecto: 'La fuga está en la cocina',
+            ubicacion_direccion: '  Av. Reforma 100 ',
+            whatsapp: null,
+        });
+
+        expect(changes).toEqual([
+            { field: 'descripcion_proyecto', label: 'Descripción', from: 'Fuga bajo el lavabo', to: 'La fuga está en la cocina' },
+            { field: 'whatsapp', label: 'WhatsApp', from: '5512345678', to: null },
+        ]);
+        expect(getAddedPhotos(['https://cdn/antes.jpg'], ['https://cdn/antes.jpg', 'https://cdn/nueva.jpg']))
+            .toEqual(['https://cdn/nueva.jpg']);
+    });
+
+    it('la línea de tiempo ordena los eventos y agrega la creación de leads anteriores al historial', () => {
+        const timeline = buildLeadTimeline(lead(), [
+            event({ id: 'e2', created_at: '2026-03-03T09:00:00Z', payload: { from: 'accepted', to: 'cancelled', reason: 'Ya no lo necesito' } }),
+            event({ id: 'e1', created_at: '2026-03-02T09:00:00Z', payload: { from: 'pending', to: 'accepted' } }),
+        ]);
+
+        expect(timeline.map(e => e.id)).toEqual([`created:${LEAD_ID}`, 'e1', 'e2']);
+        expect(describeLeadEvent(timeline[0])).toEqual({ title: 'Solicitud creada', detail: 'Reparación de fuga · $1,160.00' });
+        expect(describeLeadEvent(timeline[2])).toEqual({
+            title: 'Solicitud cancelada',
+            detail: 'Antes: Aceptado · Motivo: Ya no lo necesito',
+        });
+    });
+
+    it('describe cambios de cita y de precio', () => {
+        expect(describeLeadEvent(event({
+            type: 'appointment_changed',
+            payload: { from: { date: '2026-03-10', time: '10:00:00' }, to: { date: '2026-03-12', time: '16:30:00' } },
+        }))).toEqual({ title: 'Cita reprogramada', detail: '10/03/2026 10:00 → 12/03/2026 16:30' });
+
+        expect(describeLeadEvent(event({
+            type: 'price_changed',
+            payload: { version: 2, to: 1392, approved: true },
+        }))).toEqual({ title: 'Cambio de precio aprobado', detail: 'Versión 2 · $1,392.00' });
+    });
+
+    it('editar la solicitud registra los campos cambiados y las fotos agregadas', async () => {
+        fakeSupabase.seed('leads', [lead()]);
+
+        await LeadsService.updateLead(LEAD_ID, {
+            service: 'Reparación de fuga',
+            description: 'La fuga está en la cocina',
+            whatsapp: '5512345678',
+            address: 'Av. Reforma 100',
+            photos: ['https://cdn/antes.jpg', 'https://cdn/nueva.jpg'],
+        });
+
+        const events = await LeadEventsService.getLeadEvents(LEAD_ID);
+        expect(events.map(e => [e.type, e.actor_id, e.actor_role])).toEqual([
+            ['edited', CLIENT_ID, 'client'],
+            ['photos_added', CLIENT_ID, 'client'],
+        ]);
+        expect(events[0].payload.changes.map((change: any) => change.field)).toEqual(['descripcion_proyecto']);
+        expect(events[1].payload).toEqual({ count: 1, urls: ['https://cdn/nueva.jpg'] });
+    });
+
+    it('la cancelación con profesional asignado guarda el motivo', async () => {
+        fakeSupabase.seed('leads', [
+            lead({ status: 'accepted', estado: 'asignado', professional_id: PRO_ID }),
+        ]);
+
+        await LeadsService.cancelLead(LEAD_ID, CLIENT_ID, ' Encontré otro profesional ');
+
+        const [cancelled] = await LeadEventsService.getLeadEvents(LEAD_ID);
+        expect(cancelled).toMatchObject({
+            type: 'status_changed',
+            actor_id: CLIENT_ID,
+            payload: { from: 'accepted', to: 'cancelled', reason: 'Encontré otro profesional' },
+        });
+    });
+
+    it('aceptar o rechazar la cotización queda en el historial', async () => {
+        fakeSupabase.seed('leads', [lead()]);
+
+        await QuoteService.respondToQuote(LEAD_ID, CLIENT_ID, true, PRO_ID);
+
+        const [accepted] = await LeadEventsService.getLeadEvents(LEAD_ID);
+        expect(accepted).toMatchObject({
+            type: 'status_changed',
+            actor_id: CLIENT_ID,
+            payload: { from: 'pending', to: 'accepted' },
+        });
+        expect(describeLeadEvent(accepted).title).toBe('Solicitud aceptada');
+    });
+
+    it('un reintento del mensaje no lo registra dos veces', async () => {
+        fakeSupabase.seed('leads', [lead({ professional_id: PRO_ID })]);
+        const payload = { id: MESSAGE_ID, lead_id: LEAD_ID, sender_id: CLIENT_ID, content: 'Llego a las 5', created_at: new Date().toISOString() };
+
+        await MessagesService.deliverMessage(payload);
+        await MessagesService.deliverMessage(payload);
+
+        const events = await LeadEventsService.getLeadEvents(LEAD_ID);
+        expect(events).toHaveLength(1);
+        expect(events[0].payload).toEqual({ message_id: MESSAGE_ID, preview: 'Llego a las 5' });
+    });
+
+    it('sin la tabla el historial queda vacío y la acción del cliente no falla', async () => {
+        fakeSupabase.seed('leads', [lead({ status: 'in_progress', estado: 'en progreso', professional_id: PRO_ID })]);
+        fakeSupabase.failNext('lead_events', 'insert', pgError('42P01', 'relation "public.lead_events" does not exist'));
+        fakeSupabase.failNext('lead_events', 'select', pgError('42P01', 'relation "public.lead_events" does not exist'));
+
+        await expect(LeadsService.completeLead(LEAD_ID, CLIENT_ID)).resolves.toMatchObject({ status: 'completed' });
+        await expect(LeadEventsService.getLeadEvents(LEAD_ID)).resolves.toEqual([]);
+    });
+});
@@ -0,0 +1,228 @@
+import { fakeSupabase, pgError } from '@/test/fakeSupabase';
+import { LeadQuote, LeadQuotesService, parseQuoteMaterials, rankLeadQuotes } from '../leadQuotes';
+import { cache } from '../cache';
+import { AppError } from '../errors';
+
+const CLIENT_ID = '11111111-1111-4111-8111-111111111111';
+const OTHER_CLIENT_ID = '22222222-2222-4222-8222-222222222222';
+const PRO_A = '33333333-3333-4333-8333-333333333333';
+const PRO_B = '44444444-4444-4444-8444-444444444444';
+const LEAD_ID = '55555555-5555-4555-8555-555555555555';
+const QUOTE_A = '77777777-7777-4777-8777-777777777777';
+const QUOTE_B = '88888888-8888-4888-8888-888888888888';
+
+// Zócalo, CDMX
+const ORIGIN = { lat: 19.4326, lng: -99.1332 };
+
+function quote(overrides: Partial<Omit<LeadQuote, 'professional'>> & { professional?: Partial<LeadQuote['professional']> } = {}): LeadQuote {
+    const { professional, ...rest } = overrides;
+    return {
+        id: QUOTE_A,
+        lead_id: LEAD_ID,
+        professional_id: PRO_A,
+        price: 1000,
+        materials: [],
+        estimated_duration_minutes: 120,
+        available_from: null,
+        notes: null,
+        status: 'pending',
+        created_at: '2026-03-01T10:00:00Z',
+        ...rest,
+        professional: {
+            name: 'Pro',
+            avatar_url: null,
+            profession: 'Plomero',
+            rating: 4.5,
+            lat: ORIGIN.lat,
+            lng: ORIGIN.lng,
+            ...professional,
+        },
+    };
+}
+
+function seedLeadWithQuotes(leadOverrides: Record<string, any> = {}) {
+    fakeSupabase.seed('leads', [{
+        id: LEAD_ID,
+        cliente_id: CLIENT_ID,
+        status: 'pending',
+        estado: 'Nuevo',
+        appointment_status: null,
+        professional_id: null,
+        profesional_asignado_id: null,
+        ...leadOverrides,
+    }]);
+    fakeSupabase.seed('profiles', [
+        { user_id: PRO_A, full_name: 'Ana Plomera', calificacion_promedio: 4.8, ubicacion_lat: 19.43, ubicacion_lng: -99.13 },
+        { user_id: PRO_B, full_name: 'Beto Plomero', calificacion_promedio: null, ubicacion_lat: null, ubicacion_lng: null },
+    ]);
+    fakeSupabase.seed('lead_quotes', [
+        {
+            id: QUOTE_A,
+            lead_id: LEAD_ID,
+            professional_id: PRO_A,
+            price: '1200.00',
+            materials: [{ name: 'Tubo PVC', quantity: 2, unit_price: 85 }, { name: '' }],
+            estimated_duration_minutes: 90,
+            available_from: '2026-03-05T09:00:00Z',
+            notes: 'Incluye garantía de 30 días',
+            status: 'pending',
+            created_at: '2026-03-01T10:00:00Z',
+        },
+        {
+            id: QUOTE_B,
+            lead_id: LEAD_ID,
+            professional_id: PRO_B,
+            price: 950,
+            materials: null,
+            estimated_duration_minutes: null,
+            available_from: null,
+            notes: null,
+            status: 'pending',
+            created_at: '2026-03-01T11:00:00Z',
+        },
+    ]);
+}
+
+// Réplica en memoria de accept_lead_quote (SCHEMA_COTIZACIONES_PROFESIONALES.sql)
+function registerAcceptRpc() {
+    fakeSupabase.registerRpc('accept_lead_quote', ({ p_quote_id }, db) => {
+        const accepted = db.rows('lead_quotes').find(row => row.id === p_quote_id);
+        if (!accepted || accepted.status !== 'pending') {
+            throw pgError('23514', 'La cotización ya no está disponible');
+        }
+        db.updateRows('lead_quotes', row => row.id === p_quote_id, { status: 'accepted' });
+        db.updateRows('lead_quotes', row => row.lead_id === accepted.lead_id && row.id !== p_quote_id && row.status === 'pending', { status: 'declined' });
+        db.updateRows('leads', row => row.id === accepted.lead_id, {
+            status: 'accepted',
+            estado: 'asignado',
+            professional_id: accepted.professional_id,
+            agreed_price: accepted.price,
+        });
+        return null;
+    });
+}
+
+describe('LeadQuotes', () => {
+    beforeEach(async () => {
+        fakeSupabase.reset();
+        await cache.clear();
+    });
+
+    describe('rankLeadQuotes', () => {
+        const cheapFar = quote({ id: 'cheap', price: 800, professional: { rating: 4.0, lat: 19.60, lng: -99.30 } });
+        const pricyNear = quote({ id: 'near', price: 1500, professional: { rating: 4.9 } });
+        const balanced = quote({ id: 'balanced', price: 900, professional: { rating: 4.8, lat: 19.44, lng: -99.14 } });
+
+        it('combina precio, calificación y distancia en "Mejor opción"', () => {
+            const ranked = rankLeadQuotes([cheapFar, pricyNear, balanced], ORIGIN);
+
+            expect(ranked.map(q => q.id)).toEqual(['balanced', 'cheap', 'near']);
+            expect(ranked[0].score).toBeGreaterThan(ranked[1].score);
+        });
+
+        it('ordena por un solo criterio y marca al mejor de cada uno', () => {
+            expect(rankLeadQuotes([pricyNear, balanced, cheapFar], ORIGIN, 'price').map(q => q.id)).toEqual(['cheap', 'balanced', 'near']);
+            expect(rankLeadQuotes([cheapFar, balanced, pricyNear], ORIGIN, 'rating').map(q => q.id)).toEqual(['near', 'balanced', 'cheap']);
+
+            const byDistance = rankLeadQuotes([cheapFar, balanced, pricyNear], ORIGIN, 'distance');
+            expect(byDistance.map(q => q.id)).toEqual(['near', 'balanced', 'cheap']);
+            expect(byDistance[0].distance_km).toBeCloseTo(0);
+            expect(byDistance[0].highlights).toEqual(['top_rated', 'closest']);
+            expect(byDistance[2].highlights).toEqual(['cheapest']);
+        });
+
+        it('deja al final a los profesionales sin calificación o ubicación', () => {
+            const unknown = quote({ id: 'unknown', price: 1000, professional: { rating: null, lat: null, lng: null } });
+
+            expect(rankLeadQuotes([unknown, balanced], ORIGIN, 'rating')[1].id).toBe('unknown');
+            const byDistance = rankLeadQuotes([unknown, balanced], ORIGIN, 'distance');
+            expect(byDistance[1].id).toBe('unknown');
+            expect(byDistance[1].distance_km).toBeNull();
+        });
+
+        it('sin ubicación del servicio no calcula distancias', () => {
+            const ranked = rankLeadQuotes([cheapFar, balanced], null);
+
+            expect(ranked.every(q => q.distance_km === null)).toBe(true);
+            expect(ranked.flatMap(q => q.highlights)).not.toContain('closest');
+        });
+    });
+
+    it('parseQuoteMaterials descarta renglones sin nombre', () => {
+        expect(parseQuoteMaterials([{ name: ' Silicón ', quantity: '3' }, { quantity: 1 }, 'tubo'])).toEqual([
+            { name: 'Silicón', quantity: 3, unit_price: undefined },
+        ]);
+        expect(parseQuoteMaterials(null)).toEqual([]);
+    });
+
+    describe('getLeadQuotes', () => {
+        it('incluye el perfil del profesional y normaliza precio y materiales', async () => {
+            seedLeadWithQuotes();
+
+            const quotes = await LeadQuotesService.getLeadQuotes(LEAD_ID);
+
+            expect(quotes.map(q => q.id)).toEqual([QUOTE_A, QUOTE_B]);
+            expect(quotes[0]).toMatchObject({
+                price: 1200,
+                materials: [{ name: 'Tubo PVC', quantity: 2, unit_price: 85 }],
+                professional: { name: 'Ana Plomera', rating: 4.8, lat: 19.43, lng: -99.13 },
+            });
+            expect(quotes[1].professional).toMatchObject({ name: 'Beto Plomero', rating: null, lat: null });
+        });
+
+        it('sin la tabla (migración pendiente) regresa una lista vacía', async () => {
+            fakeSupabase.failNext('lead_quotes', 'select', pgError('42P01', 'relation "lead_quotes" does not exist'));
+
+            await expect(LeadQuotesService.getLeadQuotes(LEAD_ID)).resolves.toEqual([]);
+        });
+    });
+
+    describe('acceptLeadQuote', () => {
+        it('asigna al profesional con el precio cotizado y declina las demás', async () => {
+            seedLeadWithQuotes();
+            registerAcceptRpc();
+
+            await LeadQuotesService.acceptLeadQuote(LEAD_ID, QUOTE_B, CLIENT_ID);
+
+            expect(fakeSupabase.getRow('leads', LEAD_ID)).toMatchObject({
+                status: 'accepted',
+                professional_id: PRO_B,
+                agreed_price: 950,
+            });
+            expect(fakeSupabase.getRow('lead_quotes', QUOTE_B)?.status).toBe('accepted');
+            expect(fakeSupabase.getRow('lead_quotes', QUOTE_A)?.status).toBe('declined');
+        });
+
+        it('rechaza a quien no es dueño del lead', async () => {
+            seedLeadWithQuotes();
+            registerAcceptRpc();
+
+            const error = await LeadQuotesService.acceptLeadQuote(LEAD_ID, QUOTE_A, OTHER_CLIENT_ID).catch(e => e);
+
+            expect(error).toBeInstanceOf(AppError);
+            expect(error.kind).toBe('permission');
+            expect(fakeSupabase.getRow('lead_quotes', QUOTE_A)?.status).toBe('pending');
+        });
+
+        it('valida la transición antes de llamar a la RPC', async () => {
+            seedLeadWithQuotes({ status: 'cancelled', estado: 'cancelado' });
+            registerAcceptRpc();
+
+            const error = await LeadQuotesService.acceptLeadQuote(LEAD_ID, QUOTE_A, CLIENT_ID).catch(e => e);
+
+            expect(error.kind).toBe('transition');
+            expect(fakeSupabase.queries.some(q => q.target === 'accept_lead_quote')).toBe(false);
+        });
+
+        it('una cotización que ya no está pendiente es un conflicto', async () => {
+            seedLeadWithQuotes();
+            registerAcceptRpc();
+            fakeSupabase.updateRows('lead_quotes', row => row.id === QUOTE_A, { status: 'withdrawn' });
+
+            const error = await LeadQuotesService.acceptLeadQuote(LEAD_ID, QUOTE_A, CLIENT_ID).catch(e => e);
+
+            expect(error.kind).toBe('conflict');
+            expect(error.code).toBe('lead_quote.unavailable');
+        });
+    });
+});
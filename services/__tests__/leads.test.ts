@@ -0,0 +1,296 @@
+import { fakeSupabase, pgError } from '@/test/fakeSupabase';
+import { LeadsService, ClientLead } from '../leads';
+import { cache, CacheKeys } from '../cache';
+import { outbox } from '../outbox';
+import { LeadTransitionError } from '../leadLifecycle';
+
+const CLIENT_ID = '11111111-1111-4111-8111-111111111111';
+const OTHER_CLIENT_ID = '22222222-2222-4222-8222-222222222222';
+const PRO_ID = '33333333-3333-4333-8333-333333333333';
+const LEAD_ID = '55555555-5555-4555-8555-555555555555';
+const SECOND_LEAD_ID = '66666666-6666-4666-8666-666666666666';
+
+function lead(overrides: Record<string, any> = {}) {
+    return {
+        id: LEAD_ID,
+        cliente_id: CLIENT_ID,
+        servicio_solicitado: 'Reparación de fuga',
+        descripcion_proyecto: 'Fuga bajo el lavabo',
+        ubicacion_direccion: 'Av. Reforma 100',
+        whatsapp: '5512345678',
+        photos_urls: null,
+        status: 'pending',
+        estado: 'Nuevo',
+        appointment_status: null,
+        professional_id: null,
+        profesional_asignado_id: null,
+        updated_at: '2026-03-01T10:00:00Z',
+        ...overrides,
+    };
+}
+
+const UPDATE_DATA = {
+    service: 'Reparación de fuga en cocina',
+    description: 'La fuga está bajo el fregadero',
+    whatsapp: '5587654321',
+    address: ' Calle 5 #20 ',
+    photos: ['https://example.com/foto.jpg'],
+};
+
+describe('LeadsService', () => {
+    beforeEach(async () => {
+        fakeSupabase.reset();
+        await cache.clear();
+        await outbox.clear();
+    });
+
+    afterAll(() => {
+        outbox.stop();
+    });
+
+    describe('getClientLeads', () => {
+        it('excluye cancelados y resuelve el estado de cada lead', async () => {
+            fakeSupabase.seed('leads', [
+                lead({ id: LEAD_ID, status: 'asignado', estado: 'asignado', appointment_status: 'scheduled', updated_at: '2026-03-02T00:00:00Z' }),
+                lead({ id: SECOND_LEAD_ID, status: 'pending', estado: 'Nuevo', updated_at: '2026-03-01T00:00:00Z' }),
+                lead({ id: 'cancelled-lead', status: 'cancelled', estado: 'cancelado' }),
+                lead({ id: 'other-client', cliente_id: OTHER_CLIENT_ID }),
+            ]);
+
+            const leads = await LeadsService.getClientLeads(CLIENT_ID, 'all', true);
+
+            expect(leads.map(l => [l.id, l.status])).toEqual([
+                [LEAD_ID, 'scheduled'],
+                [SECOND_LEAD_ID, 'pending'],
+            ]);
+        });
+
+        it('"accepted" incluye leads agendados', async () => {
+            fakeSupabase.seed('leads', [
+                lead({ id: LEAD_ID, status: 'accepted', estado: 'asignado', appointment_status: 'scheduled' }),
+                lead({ id: SECOND_LEAD_ID }),
+            ]);
+
+            const leads = await LeadsService.getClientLeads(CLIENT_ID, 'accepted', true);
+
+            expect(leads.map(l => l.id)).toEqual([LEAD_ID]);
+        });
+
+        it('sirve la lista cacheada sin volver a consultar', async () => {
+            fakeSupabase.seed('leads', [lead()]);
+
+            await LeadsService.getClientLeads(CLIENT_ID);
+            await LeadsService.getClientLeads(CLIENT_ID);
+
+            expect(fakeSupabase.queries.filter(q => q.target === 'leads')).toHaveLength(1);
+        });
+
+        it('rechaza un ID de cliente inválido', async () => {
+            await expect(LeadsService.getClientLeads('abc')).rejects.toThrow('Formato de ID inválido');
+        });
+
+        it('propaga errores definitivos sin reintentar', async () => {
+            fakeSupabase.failNext('leads', 'select', pgError('42501', 'permission denied for table leads'));
+
+            await expect(LeadsService.getClientLeads(CLIENT_ID, 'all', true)).rejects.toMatchObject({ code: '42501' });
+            expect(fakeSupabase.queries).toHaveLength(1);
+        });
+    });
+
+    describe('getLeadById', () => {
+        it('comparte una sola consulta entre llamadas simultáneas', async () => {
+            fakeSupabase.seed('leads', [lead()]);
+
+            const [first, second] = await Promise.all([
+                LeadsService.getLeadById(LEAD_ID),
+                LeadsService.getLeadById(LEAD_ID),
+            ]);
+
+            expect(first?.id).toBe(LEAD_ID);
+            expect(second).toEqual(first);
+            expect(fakeSupabase.queries).toHaveLength(1);
+        });
+
+        it('lanza el error de PostgREST si el lead no existe', async () => {
+            await expect(LeadsService.getLeadById(LEAD_ID)).rejects.toMatchObject({ code: 'PGRST116' });
+        });
+    });
+
+    describe('verifyLeadAccess', () => {
+        it('indica si el lead pertenece al cliente', async () => {
+            fakeSupabase.seed('leads', [lead()]);
+
+            await expect(LeadsService.verifyLeadAccess(CLIENT_ID, LEAD_ID)).resolves.toMatchObject({
+                exists: true,
+                belongsToClient: true,
+            });
+            await expect(LeadsService.verifyLeadAccess(OTHER_CLIENT_ID, LEAD_ID)).resolves.toMatchObject({
+                exists: true,
+                belongsToClient: false,
+            });
+            await expect(LeadsService.verifyLeadAccess(CLIENT_ID, SECOND_LEAD_ID)).resolves.toEqual({
+                exists: false,
+                belongsToClient: false,
+            });
+        });
+    });
+
+    describe('updateLead', () => {
+        it('actualiza el lead directamente', async () => {
+            fakeSupabase.seed('leads', [lead()]);
+
+            const { lead: updated, queued } = await LeadsService.updateLead(LEAD_ID, UPDATE_DATA);
+
+            expect(queued).toBe(false);
+            expect(updated).toMatchObject({
+                servicio_solicitado: 'Reparación de fuga en cocina',
+                ubicacion_direccion: 'Calle 5 #20',
+                photos_urls: ['https://example.com/foto.jpg'],
+            });
+            expect(fakeSupabase.queries.some(q => q.operation === 'rpc')).toBe(false);
+        });
+
+        it('usa la RPC update_lead_details cuando RLS bloquea el UPDATE', async () => {
+            fakeSupabase.seed('leads', [lead()]);
+            fakeSupabase.failNext('leads', 'update', pgError('42501', 'new row violates row-level security policy'));
+
+            const { lead: updated } = await LeadsService.updateLead(LEAD_ID, UPDATE_DATA);
+
+            // La primera lectura es la versión anterior para el historial (edición y foto nueva)
+            expect(fakeSupabase.queries.map(q => `${q.target}:${q.operation}`)).toEqual([
+                'leads:select',
+                'leads:update',
+                'update_lead_details:rpc',
+                'lead_events:insert',
+                'lead_events:insert',
+                'leads:select',
+            ]);
+            expect(updated?.descripcion_proyecto).toBe('La fuga está bajo el fregadero');
+            expect(fakeSupabase.getRow('leads', LEAD_ID)?.whatsapp).toBe('5587654321');
+        });
+
+        it('sin conexión encola el cambio y lo aplica al reconectar', async () => {
+            fakeSupabase.seed('leads', [lead()]);
+            fakeSupabase.goOffline();
+
+            const result = await LeadsService.updateLead(LEAD_ID, UPDATE_DATA);
+
+            expect(result).toEqual({ lead: null, queued: true });
+            expect(await outbox.getItems()).toHaveLength(1);
+            expect(fakeSupabase.getRow('leads', LEAD_ID)?.servicio_solicitado).toBe('Reparación de fuga');
+
+            fakeSupabase.goOnline();
+            await outbox.flush();
+
+            expect(await outbox.getItems()).toHaveLength(0);
+            expect(fakeSupabase.getRow('leads', LEAD_ID)?.servicio_solicitado).toBe('Reparación de fuga en cocina');
+        });
+
+        it('un rechazo del servidor se lanza y no queda en la cola', async () => {
+            fakeSupabase.seed('leads', [lead()]);
+            fakeSupabase.failNext('leads', 'update', pgError('23514', 'new row violates check constraint'));
+
+            await expect(LeadsService.updateLead(LEAD_ID, UPDATE_DATA)).rejects.toMatchObject({ code: '23514' });
+            expect(await outbox.getItems()).toHaveLength(0);
+        });
+    });
+
+    describe('cancelLead', () => {
+        it('elimina el lead si no tiene profesional asignado', async () => {
+            fakeSupabase.seed('leads', [lead()]);
+
+            await expect(LeadsService.cancelLead(LEAD_ID, CLIENT_ID)).resolves.toEqual({ queued: false });
+
+            expect(fakeSupabase.getRow('leads', LEAD_ID)).toBeUndefined();
+        });
+
+        it('cancela sin borrar si ya hay profesional asignado', async () => {
+            fakeSupabase.seed('leads', [lead({ status: 'accepted', estado: 'asignado', profesional_asignado_id: PRO_ID })]);
+
+            await LeadsService.cancelLead(LEAD_ID, CLIENT_ID);
+
+            expect(fakeSupabase.getRow('leads', LEAD_ID)).toMatchObject({ status: 'cancelled', estado: 'cancelado' });
+        });
+
+        it('no permite cancelar un lead completado', async () => {
+            fakeSupabase.seed('leads', [lead({ status: 'completed', estado: 'completado', professional_id: PRO_ID })]);
+
+            // El outbox relanza el error original del primer intento
+            const error = await LeadsService.cancelLead(LEAD_ID, CLIENT_ID).catch(e => e);
+            expect(error).toBeInstanceOf(LeadTransitionError);
+            expect(error).toMatchObject({ code: 'INVALID_LEAD_TRANSITION', from: 'completed', to: 'cancelled' });
+            expect(fakeSupabase.getRow('leads', LEAD_ID)?.status).toBe('completed');
+        });
+
+        it('valida la transición con el lead cacheado antes de encolar', async () => {
+            cache.set(CacheKeys.lead(LEAD_ID), { ...lead(), status: 'completed' } as ClientLead);
+
+            await expect(LeadsService.cancelLead(LEAD_ID, CLIENT_ID)).rejects.toBeInstanceOf(LeadTransitionError);
+            expect(fakeSupabase.queries).toHaveLength(0);
+        });
+
+        it('no permite cancelar el lead de otro cliente', async () => {
+            fakeSupabase.seed('leads', [lead({ cliente_id: OTHER_CLIENT_ID })]);
+
+            await expect(LeadsService.cancelLead(LEAD_ID, CLIENT_ID)).rejects.toThrow('No tienes permisos');
+            expect(fakeSupabase.getRow('leads', LEAD_ID)).toBeDefined();
+        });
+
+        it('un reintento sobre un lead ya eliminado termina sin error', async () => {
+            fakeSupabase.seed('leads', [lead()]);
+            fakeSupabase.failNext('leads', 'delete', { code: '', message: 'TypeError: Network request failed' });
+
+            await expect(LeadsService.cancelLead(LEAD_ID, CLIENT_ID)).resolves.toEqual({ queued: true });
+
+            // Otro dispositivo eliminó el lead antes del reintento (y el lead cacheado expiró)
+            await fakeSupabase.from('leads').delete().eq('id', LEAD_ID);
+            cache.invalidate(CacheKeys.lead(LEAD_ID));
+            await outbox.flush();
+
+            expect(await outbox.getItems()).toHaveLength(0);
+        });
+    });
+
+    describe('completeLead', () => {
+        it('marca como completado un lead en progreso', async () => {
+            fakeSupabase.seed('leads', [lead({ status: 'in_progress', estado: 'en progreso', professional_id: PRO_ID })]);
+
+            const completed = await LeadsService.completeLead(LEAD_ID, CLIENT_ID);
+
+            expect(completed?.status).toBe('completed');
+            expect(fakeSupabase.getRow('leads', LEAD_ID)?.estado).toBe('completado');
+        });
+
+        it('no permite completar un lead pendiente', async () => {
+            fakeSupabase.seed('leads', [lead()]);
+
+            await expect(LeadsService.completeLead(LEAD_ID, CLIENT_ID)).rejects.toBeInstanceOf(LeadTransitionError);
+        });
+    });
+
+    describe('subscribeToClientLeads', () => {
+        it('recarga la lista cuando cambia un lead del cliente', async () => {
+            const received = new Promise<ClientLead[]>(resolve => {
+                LeadsService.subscribeToClientLeads(CLIENT_ID, resolve);
+            });
+
+            await fakeSupabase.from('leads').insert(lead());
+
+            const leads = await received;
+            expect(leads.map(l => l.id)).toEqual([LEAD_ID]);
+        });
+
+        it('ignora leads de otros clientes y libera el canal', async () => {
+            const callback = jest.fn();
+            const unsubscribe = LeadsService.subscribeToClientLeads(CLIENT_ID, callback);
+            expect(fakeSupabase.getChannels()).toHaveLength(1);
+
+            await fakeSupabase.from('leads').insert(lead({ cliente_id: OTHER_CLIENT_ID }));
+            unsubscribe();
+            await fakeSupabase.from('leads').insert(lead({ id: SECOND_LEAD_ID }));
+
+            expect(callback).not.toHaveBeenCalled();
+            expect(fakeSupabase.getChannels()).toHaveLength(0);
+        });
+    });
+});
@@ -0,0 +1,186 @@
+import { fakeSupabase, pgError } from '@/test/fakeSupabase';
+import { MaterialsService, summarizeMaterials } from '../materials';
+import { cache } from '../cache';
+
+const CLIENT_ID = '11111111-1111-4111-8111-111111111111';
+const OTHER_CLIENT_ID = '22222222-2222-4222-8222-222222222222';
+const PRO_ID = '33333333-3333-4333-8333-333333333333';
+const LEAD_ID = '55555555-5555-4555-8555-555555555555';
+const CEMENT_ID = '77777777-7777-4777-8777-777777777777';
+const PIPE_ID = '88888888-8888-4888-8888-888888888888';
+const PAINT_ID = '99999999-9999-4999-8999-999999999999';
+
+function seedLeadWithMaterials(leadOverrides: Record<string, any> = {}) {
+    fakeSupabase.seed('leads', [{
+        id: LEAD_ID,
+        cliente_id: CLIENT_ID,
+        professional_id: PRO_ID,
+        status: 'accepted',
+        estado: 'asignado',
+        ...leadOverrides,
+    }]);
+    fakeSupabase.seed('service_materials', [
+        {
+            id: CEMENT_ID,
+            lead_id: LEAD_ID,
+            professional_id: PRO_ID,
+            material_name: 'Cemento gris 50kg',
+            quantity: '2.00',
+            unit: 'bulto',
+            unit_price: '210.50',
+            total_price: '421.00',
+            purchase_service_fee: '30.00',
+            status: 'purchased',
+            client_approved: true,
+            receipt_urls: ['https://cdn.example.com/ticket.jpg'],
+            created_at: '2026-03-01T10:00:00Z',
+        },
+        {
+            id: PIPE_ID,
+            lead_id: LEAD_ID,
+            professional_id: PRO_ID,
+            material_name: 'Tubo PVC 1/2"',
+            quantity: 3,
+            unit: 'pza',
+            unit_price: 85,
+            total_price: 255,
+            purchase_service_fee: 0,
+            status: 'pending',
+            created_at: '2026-03-01T10:05:00Z',
+        },
+        {
+            id: PAINT_ID,
+            lead_id: LEAD_ID,
+            professional_id: PRO_ID,
+            material_name: 'Pintura vinílica 4L',
+            quantity: 1,
+            unit: 'galón',
+            unit_price: 640,
+            total_price: 640,
+            purchase_service_fee: 20,
+            status: 'pending',
+            created_at: '2026-03-01T10:10:00Z',
+        },
+    ]);
+}
+
+// Réplica en memoria de respond_service_materials (SCHEMA_MATERIALES.sql)
+function registerRespondRpc() {
+    fakeSupabase.registerRpc('respond_service_materials', ({ p_lead_id, p_material_ids, p_approved }, db) => {
+        const targets = db.rows('service_materials').filter(row =>
+            row.lead_id === p_lead_id && p_material_ids.includes(row.id) && row.status === 'pending'
+        );
+        if (targets.length !== p_material_ids.length) {
+            throw pgError('23514', 'Algunos materiales ya no están pendientes');
+        }
+        db.updateRows('service_materials', row => p_material_ids.includes(row.id), {
+            status: p_approved ? 'approved' : 'rejected',
+            client_approved: p_approved,
+        });
+        return null;
+    });
+}
+
+describe('Materials', () => {
+    beforeEach(async () => {
+        fakeSupabase.reset();
+        await cache.clear();
+    });
+
+    it('obtiene los materiales con montos numéricos y tickets', async () => {
+        seedLeadWithMaterials();
+
+        const materials = await MaterialsService.getLeadMaterials(LEAD_ID);
+
+        expect(materials.map(m => m.id)).toEqual([CEMENT_ID, PIPE_ID, PAINT_ID]);
+        expect(materials[0]).toMatchObject({
+            quantity: 2,
+            unit_price: 210.5,
+            total_price: 421,
+            purchase_service_fee: 30,
+            status: 'purchased',
+            receipt_urls: ['https://cdn.example.com/ticket.jpg'],
+            photo_urls: [],
+        });
+    });
+
+    it('summarizeMaterials suma por estado incluyendo el cargo por compra', async () => {
+        seedLeadWithMaterials();
+
+        const summary = summarizeMaterials(await MaterialsService.getLeadMaterials(LEAD_ID));
+
+        expect(summary.pending).toEqual({ count: 2, total: 915 });
+        expect(summary.purchased).toEqual({ count: 1, total: 451 });
+        expect(summary.committed).toBe(451);
+    });
+
+    it('aprobar y rechazar renglones individuales', async () => {
+        seedLeadWithMaterials();
+        registerRespondRpc();
+
+        await MaterialsService.respondToMaterials({ leadId: LEAD_ID, clientId: CLIENT_ID, materialIds: [PIPE_ID], approved: true });
+        await MaterialsService.respondToMaterials({ leadId: LEAD_ID, clientId: CLIENT_ID, materialIds: [PAINT_ID], approved: false });
+
+        expect(fakeSupabase.getRow('service_materials', PIPE_ID)).toMatchObject({ status: 'approved', client_approved: true });
+        expect(fakeSupabase.getRow('service_materials', PAINT_ID)).toMatchObject({ status: 'rejected', client_approved: false });
+    });
+
+    it('aprobar todo solo envía los pendientes', async () => {
+        seedLeadWithMaterials();
+        registerRespondRpc();
+        const materials = await MaterialsService.getLeadMaterials(LEAD_ID);
+
+        await MaterialsService.approveAllPending(LEAD_ID, CLIENT_ID, materials);
+
+        const summary = summarizeMaterials(await MaterialsService.getLeadMaterials(LEAD_ID));
+        expect(summary.pending.count).toBe(0);
+        expect(summary.approved).toEqual({ count: 2, total: 915 });
+        expect(summary.committed).toBe(1366);
+    });
+
+    it('solo el cliente del lead puede responder', async () => {
+        seedLeadWithMaterials();
+        registerRespondRpc();
+
+        const error = await MaterialsService.respondToMaterials({
+            leadId: LEAD_ID,
+            clientId: OTHER_CLIENT_ID,
+            materialIds: [PIPE_ID],
+            approved: true,
+        }).catch(e => e);
+
+        expect(error.kind).toBe('permission');
+        expect(fakeSupabase.getRow('service_materials', PIPE_ID)?.status).toBe('pending');
+    });
+
+    it('no se responden materiales en solicitudes cerradas', async () => {
+        seedLeadWithMaterials({ status: 'cancelled', estado: 'cancelado' });
+        registerRespondRpc();
+
+        const error = await MaterialsService.respondToMaterials({
+            leadId: LEAD_ID,
+            clientId: CLIENT_ID,
+            materialIds: [PIPE_ID],
+            approved: true,
+        }).catch(e => e);
+
+        expect(error.kind).toBe('transition');
+        expect(fakeSupabase.queries.some(q => q.target === 'respond_service_materials')).toBe(false);
+    });
+
+    it('un material ya respondido es un conflicto', async () => {
+        seedLeadWithMaterials();
+        registerRespondRpc();
+
+        const error = await MaterialsService.respondToMaterials({
+            leadId: LEAD_ID,
+            clientId: CLIENT_ID,
+            materialIds: [PIPE_ID, CEMENT_ID],
+            approved: false,
+        }).catch(e => e);
+
+        expect(error.kind).toBe('conflict');
+        expect(error.code).toBe('materials.not_pending');
+        expect(fakeSupabase.getRow('service_materials', PIPE_ID)?.status).toBe('pending');
+    });
+});
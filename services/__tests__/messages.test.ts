@@ -0,0 +1,246 @@
+import { fakeSupabase, pgError } from '@/test/fakeSupabase';
+import { MessagesService, Conversation } from '../messages';
+import { cache } from '../cache';
+import { outbox } from '../outbox';
+
+const CLIENT_ID = '11111111-1111-4111-8111-111111111111';
+const PRO_ID = '33333333-3333-4333-8333-333333333333';
+const LEAD_ID = '55555555-5555-4555-8555-555555555555';
+const SECOND_LEAD_ID = '66666666-6666-4666-8666-666666666666';
+const MESSAGE_ID = '77777777-7777-4777-8777-777777777777';
+
+function seedInbox() {
+    fakeSupabase.seed('leads', [
+        {
+            id: LEAD_ID,
+            cliente_id: CLIENT_ID,
+            servicio_solicitado: 'Reparación de fuga',
+            status: 'accepted',
+            estado: 'asignado',
+            professional_id: PRO_ID,
+            updated_at: '2026-03-01T10:00:00Z',
+        },
+        {
+            id: SECOND_LEAD_ID,
+            cliente_id: CLIENT_ID,
+            servicio_solicitado: 'Pintura de recámara',
+            status: 'pending',
+            estado: 'Nuevo',
+            updated_at: '2026-03-05T10:00:00Z',
+        },
+    ]);
+    fakeSupabase.seed('profiles', [
+        { user_id: CLIENT_ID, full_name: 'Laura Cliente', role: 'client', user_type: 'client' },
+        { user_id: PRO_ID, full_name: 'Pedro Plomero', avatar_url: 'pedro.jpg', role: 'professional', user_type: 'professional' },
+    ]);
+    fakeSupabase.seed('messages', [
+        { id: 'm1', lead_id: LEAD_ID, sender_id: CLIENT_ID, content: 'Hola', created_at: '2026-03-02T10:00:00Z', updated_at: '2026-03-02T10:00:00Z', read_at: null },
+        { id: 'm2', lead_id: LEAD_ID, sender_id: PRO_ID, content: '¿A qué hora?', created_at: '2026-03-02T11:00:00Z', updated_at: '2026-03-02T11:00:00Z', read_at: '2026-03-02T11:05:00Z' },
+        { id: 'm3', lead_id: LEAD_ID, sender_id: PRO_ID, content: 'Llego a las 5', created_at: '2026-03-02T12:00:00Z', updated_at: '2026-03-02T12:00:00Z', read_at: null },
+    ]);
+}
+
+describe('MessagesService', () => {
+    beforeEach(async () => {
+        fakeSupabase.reset();
+        await cache.clear();
+        await outbox.clear();
+    });
+
+    afterAll(() => {
+        outbox.stop();
+    });
+
+    describe('getConversations', () => {
+        it('sin la RPC arma la bandeja con consultas en batch', async () => {
+            seedInbox();
+
+            const conversations = await MessagesService.getConversations(CLIENT_ID, true);
+
+            // El lead sin profesional ni mensajes no aparece
+            expect(conversations).toHaveLength(1);
+            expect(conversations[0]).toMatchObject({
+                lead_id: LEAD_ID,
+                lead_title: 'Reparación de fuga',
+                lead_status: 'accepted',
+                professional_name: 'Pedro Plomero',
+                professional_avatar: 'pedro.jpg',
+                unread_count: 1,
+            });
+            expect(conversations[0].last_message?.id).toBe('m3');
+            expect(fakeSupabase.queries.map(q => q.target)).toEqual([
+                'get_client_conversations',
+                'leads',
+                'messages',
+                'profiles',
+            ]);
+        });
+
+        it('usa la RPC agregada cuando existe', async () => {
+            seedInbox();
+            fakeSupabase.registerRpc('get_client_conversations', ({ p_client_id }) => [{
+                lead_id: LEAD_ID,
+                servicio_solicitado: 'Reparación de fuga',
+                servicio: null,
+                status: 'in_progress',
+                estado: 'en progreso',
+                appointment_status: null,
+                professional_id: PRO_ID,
+                profesional_asignado_id: null,
+                updated_at: '2026-03-01T10:00:00Z',
+                last_message_id: 'm3',
+                last_message_sender_id: PRO_ID,
+                last_message_content: 'Llego a las 5',
+                last_message_created_at: '2026-03-02T12:00:00Z',
+                last_message_updated_at: '2026-03-02T12:00:00Z',
+                unread_count: p_client_id === CLIENT_ID ? 4 : 0,
+            }]);
+
+            const [conversation] = await MessagesService.getConversations(CLIENT_ID, true);
+
+            expect(conversation).toMatchObject({ lead_status: 'in_progress', unread_count: 4 });
+            expect(conversation.last_message?.content).toBe('Llego a las 5');
+            expect(fakeSupabase.queries.map(q => q.target)).toEqual(['get_client_conversations', 'profiles']);
+        });
+
+        it('sin la columna read_at cuenta como no leídos todos los mensajes del profesional', async () => {
+            seedInbox();
+            fakeSupabase.failNext('messages', 'select', pgError('42703', 'column messages.read_at does not exist'));
+
+            const [conversation] = await MessagesService.getConversations(CLIENT_ID, true);
+
+            expect(conversation.unread_count).toBe(2);
+        });
+
+        it('devuelve [] si la bandeja no se puede cargar', async () => {
+            fakeSupabase.failNext('get_client_conversations', 'rpc', pgError('42501', 'permission denied'));
+
+            await expect(MessagesService.getConversations(CLIENT_ID, true)).resolves.toEqual([]);
+        });
+    });
+
+    describe('getMessages', () => {
+        it('agrega nombre y tipo del remitente', async () => {
+            seedInbox();
+
+            const messages = await MessagesService.getMessages(LEAD_ID, CLIENT_ID);
+
+            expect(messages.map(m => [m.id, m.sender_type, m.sender_name])).toEqual([
+                ['m1', 'client', 'Laura Cliente'],
+                ['m2', 'professional', 'Pedro Plomero'],
+                ['m3', 'professional', 'Pedro Plomero'],
+            ]);
+        });
+    });
+
+    describe('sendMessage', () => {
+        it('inserta el mensaje con el ID del cliente y actualiza el lead', async () => {
+            seedInbox();
+
+            const message = await MessagesService.sendMessage(LEAD_ID, CLIENT_ID, '  Perfecto, gracias  ', MESSAGE_ID);
+
+            expect(message).toMatchObject({ id: MESSAGE_ID, content: 'Perfecto, gracias', delivery_status: 'sent' });
+            expect(fakeSupabase.getRow('messages', MESSAGE_ID)?.sender_id).toBe(CLIENT_ID);
+            expect(fakeSupabase.getRow('leads', LEAD_ID)?.updated_at).not.toBe('2026-03-01T10:00:00Z');
+        });
+
+        it('actualiza la bandeja cacheada sin volver a consultarla', async () => {
+            seedInbox();
+            await MessagesService.getConversations(CLIENT_ID, true);
+            fakeSupabase.queries = [];
+
+            await MessagesService.sendMessage(LEAD_ID, CLIENT_ID, 'Nos vemos', MESSAGE_ID);
+
+            const cached = cache.get<Conversation[]>(`conversations:${CLIENT_ID}`);
+            expect(cached?.[0].last_message?.id).toBe(MESSAGE_ID);
+            expect(cached?.[0].unread_count).toBe(1);
+            expect(fakeSupabase.queries.some(q => q.target === 'get_client_conversations')).toBe(false);
+        });
+
+        it('un reintento de un mensaje ya insertado no lo duplica', async () => {
+            seedInbox();
+            fakeSupabase.seed('messages', [{ id: MESSAGE_ID, lead_id: LEAD_ID, sender_id: CLIENT_ID, content: 'Hola de nuevo' }]);
+
+            const message = await MessagesService.deliverMessage({
+                id: MESSAGE_ID,
+                lead_id: LEAD_ID,
+                sender_id: CLIENT_ID,
+                content: 'Hola de nuevo',
+                created_at: new Date().toISOString(),
+            });
+
+            expect(message.id).toBe(MESSAGE_ID);
+            expect(fakeSupabase.getTable('messages').filter(m => m.id === MESSAGE_ID)).toHaveLength(1);
+        });
+
+        it('sin conexión devuelve el mensaje pendiente y lo envía al reconectar', async () => {
+            seedInbox();
+            fakeSupabase.goOffline();
+
+            const pending = await MessagesService.sendMessage(LEAD_ID, CLIENT_ID, 'Sin señal', MESSAGE_ID);
+
+            expect(pending?.delivery_status).toBe('pending');
+            const items = await outbox.getItems();
+            expect(MessagesService.getPendingMessages(items, LEAD_ID).map(m => m.id)).toEqual([MESSAGE_ID]);
+            expect(MessagesService.getPendingMessages(items, SECOND_LEAD_ID)).toEqual([]);
+
+            fakeSupabase.goOnline();
+            await outbox.flush();
+
+            expect(fakeSupabase.getRow('messages', MESSAGE_ID)?.content).toBe('Sin señal');
+        });
+    });
+
+    describe('markAsRead', () => {
+        it('marca como leídos solo los mensajes del otro participante', async () => {
+            seedInbox();
+
+            await expect(MessagesService.markAsRead(LEAD_ID, CLIENT_ID)).resolves.toBe(true);
+
+            expect(fakeSupabase.getRow('messages', 'm1')?.read_at).toBeNull();
+            expect(fakeSupabase.getRow('messages', 'm2')?.read_at).toBe('2026-03-02T11:05:00Z');
+            expect(fakeSupabase.getRow('messages', 'm3')?.read_at).not.toBeNull();
+        });
+
+        it('devuelve false si falla', async () => {
+            fakeSupabase.failNext('messages', 'update', pgError('42501', 'permission denied'));
+
+            await expect(MessagesService.markAsRead(LEAD_ID, CLIENT_ID)).resolves.toBe(false);
+        });
+    });
+
+    describe('realtime', () => {
+        it('entrega los mensajes nuevos del lead', async () => {
+            const callback = jest.fn();
+            const unsubscribe = MessagesService.subscribeToMessages(LEAD_ID, callback);
+
+            await fakeSupabase.from('messages').insert({ id: 'm9', lead_id: LEAD_ID, sender_id: PRO_ID, content: 'Ya llegué' });
+            await fakeSupabase.from('messages').insert({ id: 'm10', lead_id: SECOND_LEAD_ID, sender_id: PRO_ID, content: 'Otro lead' });
+            unsubscribe();
+
+            expect(callback).toHaveBeenCalledTimes(1);
+            expect(callback.mock.calls[0][0]).toMatchObject({ id: 'm9', content: 'Ya llegué' });
+            expect(fakeSupabase.getChannels()).toHaveLength(0);
+        });
+
+        it('parchea la bandeja cacheada con un mensaje nuevo', async () => {
+            seedInbox();
+            await MessagesService.getConversations(CLIENT_ID, true);
+
+            const updated = new Promise<Conversation[]>(resolve => {
+                MessagesService.subscribeToConversations(CLIENT_ID, resolve);
+            });
+            await fakeSupabase.from('messages').insert({
+                id: 'm9',
+                lead_id: LEAD_ID,
+                sender_id: PRO_ID,
+                content: 'Ya llegué',
+                created_at: '2026-03-06T10:00:00Z',
+            });
+
+            const [conversation] = await updated;
+            expect(conversation.last_message?.id).toBe('m9');
+            expect(conversation.unread_count).toBe(2);
+        });
+    });
+});
@@ -0,0 +1,138 @@
+import { fakeSupabase } from '@/test/fakeSupabase';
+import {
+    PriceEstimateService,
+    describePriceEstimate,
+    selectPriceEstimate,
+} from '../priceEstimates';
+import { AISearchService } from '../aiSearch';
+import { cache } from '../cache';
+
+const SERVICE = {
+    id: 'svc-fuga',
+    service_name: 'Reparación de fuga',
+    discipline: 'plomeria',
+    min_price: 500,
+    max_price: 900,
+};
+
+const CDMX = { lat: 19.4326, lng: -99.1332 };
+const MONTERREY = { lat: 25.6866, lng: -100.3161 };
+
+/** percentile_cont de Postgres (interpolación lineal) */
+function percentile(sorted: number[], p: number): number {
+    const index = (sorted.length - 1) * p;
+    const lower = Math.floor(index);
+    const upper = Math.ceil(index);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+function distanceKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+    const toRad = (deg: number) => deg * Math.PI / 180;
+    const a = Math.sin(toRad(lat2 - lat1) / 2) ** 2
+        + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(toRad(lng2 - lng1) / 2) ** 2;
+    return 6371 * 2 * Math.asin(Math.sqrt(a));
+}
+
+function seedCompletedLeads(prices: number[], overrides: Record<string, any> = {}) {
+    fakeSupabase.seed('leads', prices.map(price => ({
+        servicio_solicitado: SERVICE.service_name,
+        disciplina_ia: SERVICE.discipline,
+        status: 'completed',
+        estado: 'completado',
+        agreed_price: price,
+        ubicacion_lat: CDMX.lat,
+        ubicacion_lng: CDMX.lng,
+        ...overrides,
+    })));
+}
+
+describe('PriceEstimates', () => {
+    beforeEach(async () => {
+        fakeSupabase.reset();
+        await cache.clear();
+
+        // Réplica de get_service_price_history (SCHEMA_ESTIMADOR_PRECIOS.sql)
+        fakeSupabase.registerRpc('get_service_price_history', (args, db) => {
+            const completed = db.rows('leads')
+                .filter(lead => lead.agreed_price > 0 && (lead.status === 'completed' || lead.estado === 'completado'))
+                .map(lead => ({
+                    price: Number(lead.agreed_price),
+                    sameService: lead.servicio_solicitado === args.p_service_name,
+                    sameDiscipline: (lead.disciplina_ia ?? lead.servicio) === args.p_discipline,
+                    nearby: args.p_lat != null && args.p_lng != null && lead.ubicacion_lat != null
+                        && distanceKm(args.p_lat, args.p_lng, lead.ubicacion_lat, lead.ubicacion_lng) <= (args.p_radius_km ?? 15),
+                }));
+
+            const scopes: Record<string, typeof completed> = {
+                service_zone: completed.filter(row => row.sameService && row.nearby),
+                service: completed.filter(row => row.sameService),
+                discipline_zone: completed.filter(row => row.sameDiscipline && row.nearby),
+                discipline: completed.filter(row => row.sameDiscipline),
+            };
+
+            return Object.entries(scopes)
+                .filter(([, rows]) => rows.length > 0)
+                .map(([scope, rows]) => {
+                    const sorted = rows.map(row => row.price).sort((a, b) => a - b);
+                    return {
+                        scope,
+                        sample_size: sorted.length,
+                        p25: percentile(sorted, 0.25),
+                        p50: percentile(sorted, 0.5),
+                        p75: percentile(sorted, 0.75),
+                    };
+                });
+        });
+    });
+
+    it('elige el alcance más específico con suficientes muestras', () => {
+        const estimate = selectPriceEstimate([
+            { scope: 'service_zone', sample_size: 3, p25: 100, p50: 200, p75: 300 },
+            { scope: 'service', sample_size: 12, p25: 804, p50: 996, p75: 1196 },
+            { scope: 'discipline', sample_size: 40, p25: 400, p50: 600, p75: 900 },
+        ], SERVICE);
+
+        expect(estimate).toEqual({ min: 800, max: 1200, median: 1000, sampleSize: 12, scope: 'service', source: 'history' });
+        expect(describePriceEstimate(estimate)).toBe('La mayoría de los clientes pagó $800–$1,200 por este servicio');
+    });
+
+    it('con pocas muestras usa el rango del catálogo', () => {
+        const estimate = selectPriceEstimate([{ scope: 'discipline', sample_size: 2, p25: 100, p50: 200, p75: 300 }], SERVICE);
+
+        expect(estimate).toMatchObject({ min: 500, max: 900, source: 'catalog', scope: null });
+        expect(describePriceEstimate(estimate)).toBe('Rango de referencia: $500–$900');
+        expect(selectPriceEstimate([], { min_price: 400 })).toMatchObject({ min: 400, max: 600 });
+    });
+
+    it('prefiere lo que pagaron los clientes cerca de la ubicación', async () => {
+        seedCompletedLeads([800, 900, 1000, 1100, 1200]);
+        seedCompletedLeads([2000, 2200, 2400, 2600, 2800], { ubicacion_lat: MONTERREY.lat, ubicacion_lng: MONTERREY.lng });
+        seedCompletedLeads([5000], { status: 'cancelled', estado: 'cancelado' });
+
+        const nearby = await PriceEstimateService.getEstimate(SERVICE, CDMX);
+        const anywhere = await PriceEstimateService.getEstimate(SERVICE);
+
+        expect(nearby).toMatchObject({ scope: 'service_zone', min: 900, max: 1100, sampleSize: 5 });
+        expect(describePriceEstimate(nearby)).toBe('La mayoría de los clientes pagó $900–$1,100 cerca de ti');
+        expect(anywhere).toMatchObject({ scope: 'service', sampleSize: 10 });
+    });
+
+    it('sin la RPC instalada se usa el catálogo', async () => {
+        fakeSupabase.unregisterRpc('get_service_price_history');
+
+        const estimate = await PriceEstimateService.getEstimate(SERVICE, CDMX);
+
+        expect(estimate).toMatchObject({ source: 'catalog', min: 500, max: 900 });
+    });
+
+    it('la búsqueda con IA muestra el rango histórico del servicio detectado', async () => {
+        seedCompletedLeads([800, 900, 1000, 1100, 1200]);
+        const result = { detected_service: SERVICE, alternatives: [], confidence: 0.9, reasoning: '', pre_filled_data: { precio_estimado: { min: 500, max: 900 } } };
+        jest.spyOn(AISearchService as any, 'detectService').mockResolvedValue(result);
+
+        const enriched = await AISearchService.analyzeProblem('Tengo una fuga en el baño', CDMX);
+
+        expect(enriched.pre_filled_data.precio_estimado).toEqual({ min: 900, max: 1100 });
+        expect(enriched.pre_filled_data.estimacion_precio?.scope).toBe('service_zone');
+    });
+});
@@ -0,0 +1,95 @@
+import {
+    formatPrice,
+    formatPriceNoDecimals,
+    formatPriceRange,
+    parsePriceValue,
+    getLeadPrice,
+    getLeadPriceFormatted,
+    getLeadPriceInfo,
+} from '../priceFormatter';
+
+describe('formatPrice', () => {
+    it('usa separador de miles y 2 decimales', () => {
+        expect(formatPrice(1234.5)).toBe('$1,234.50');
+        expect(formatPrice(350)).toBe('$350.00');
+    });
+
+    it('muestra "Precio a cotizar" sin precio válido', () => {
+        expect(formatPrice(null)).toBe('Precio a cotizar');
+        expect(formatPrice(0)).toBe('Precio a cotizar');
+        expect(formatPrice(NaN)).toBe('Precio a cotizar');
+    });
+
+    it('redondea sin decimales', () => {
+        expect(formatPriceNoDecimals(1234.56)).toBe('$1,235');
+    });
+});
+
+describe('formatPriceRange', () => {
+    it('muestra el rango cuando max > min', () => {
+        expect(formatPriceRange(500, 900)).toBe('$500.00 - $900.00');
+    });
+
+    it('muestra solo el mínimo si no hay máximo mayor', () => {
+        expect(formatPriceRange(500)).toBe('$500.00');
+        expect(formatPriceRange(500, 400)).toBe('$500.00');
+    });
+});
+
+describe('parsePriceValue', () => {
+    it('parsea texto con símbolo y separadores', () => {
+        expect(parsePriceValue('$1,250.75')).toBe(1250.75);
+        expect(parsePriceValue(' 800 MXN')).toBe(800);
+    });
+
+    it('devuelve null para vacíos, ceros y negativos', () => {
+        expect(parsePriceValue('')).toBeNull();
+        expect(parsePriceValue('-')).toBeNull();
+        expect(parsePriceValue(0)).toBeNull();
+        expect(parsePriceValue('-20')).toBeNull();
+        expect(parsePriceValue({})).toBeNull();
+    });
+});
+
+describe('getLeadPrice', () => {
+    it('prefiere agreed_price sobre price', () => {
+        expect(getLeadPrice({ agreed_price: 1160, price: 1000 })).toBe(1160);
+    });
+
+    it('usa price cuando agreed_price no es válido', () => {
+        expect(getLeadPrice({ agreed_price: '', price: '950' })).toBe(950);
+        expect(getLeadPrice({ agreed_price: 0, price: 950 })).toBe(950);
+    });
+
+    it('corrige el precio de $5000 de servicios de contactos', () => {
+        expect(getLeadPrice({ price: 5000, servicio_solicitado: 'Instalación de contactos' })).toBe(350);
+        expect(getLeadPrice({ price: 5000, servicio_solicitado: 'Pintura' })).toBe(5000);
+    });
+
+    it('devuelve null sin lead ni precios', () => {
+        expect(getLeadPrice(null)).toBeNull();
+        expect(getLeadPriceFormatted({})).toBe('Precio a cotizar');
+    });
+});
+
+describe('getLeadPriceInfo', () => {
+    it('marca agreed_price como precio final', () => {
+        const info = getLeadPriceInfo({ agreed_price: '1,160', price: 1000 });
+        expect(info).toMatchObject({
+            value: 1160,
+            source: 'agreed_price',
+            isEstimated: false,
+            display: '$1,160.00',
+        });
+    });
+
+    it('marca price como estimado', () => {
+        const info = getLeadPriceInfo({ price: 1000 });
+        expect(info).toMatchObject({ source: 'price', isEstimated: true, display: '$1,000.00 (estimado)' });
+    });
+
+    it('sin precio no agrega la marca de estimado', () => {
+        expect(getLeadPriceInfo({}).display).toBe('Precio a cotizar');
+        expect(getLeadPriceInfo(undefined).source).toBe('none');
+    });
+});
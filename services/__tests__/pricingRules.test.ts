@@ -0,0 +1,119 @@
+import {
+    DEFAULT_PRICING_RULES,
+    evaluatePricingRules,
+    parsePricingRules,
+    parseQuantity,
+    resolvePricingRules,
+} from '../pricingRules';
+import { QuoteService } from '../quotes';
+
+describe('pricingRules', () => {
+    describe('evaluatePricingRules', () => {
+        it('reglas por defecto: urgencia y desinstalación', () => {
+            const result = evaluatePricingRules(DEFAULT_PRICING_RULES, {
+                basePrice: 1000,
+                formData: { needs_uninstall: true },
+                immediateService: true,
+            });
+
+            expect(result.lines.map(line => [line.kind, line.amount])).toEqual([
+                ['base', 1000],
+                ['urgency', 100],
+                ['addon', 30],
+            ]);
+            expect(result.total).toBe(1130);
+            expect(result.tax_rate).toBe(0.16);
+        });
+
+        it('cobra unidades adicionales y adicionales por unidad', () => {
+            const rules = resolvePricingRules({
+                per_unit: { price: 900, included_units: 1, max_units: 4 },
+                addons: [{ id: 'uninstall', name: 'Desinstalación', field: 'needs_uninstall', price: 30, per_unit: true }],
+            });
+
+            const result = evaluatePricingRules(rules, {
+                basePrice: 1500,
+                formData: { quantity: '5+', needs_uninstall: true },
+                immediateService: false,
+                unit: 'equipos',
+            });
+
+            const perUnit = result.lines.find(line => line.kind === 'per_unit');
+            expect(perUnit).toEqual(expect.objectContaining({ quantity: 3, amount: 2700, label: '3 equipos adicional(es)' }));
+            expect(result.lines.find(line => line.kind === 'addon')?.amount).toBe(120);
+            expect(result.total).toBe(1500 + 2700 + 120);
+        });
+
+        it('aplica recargo por zona fuera del radio solo con ubicación', () => {
+            const rules = resolvePricingRules({
+                zone_surcharges: [{
+                    id: 'fuera-cdmx',
+                    name: 'Traslado',
+                    amount: 150,
+                    center: { lat: 19.4326, lng: -99.1332 },
+                    radius_km: 35,
+                    outside: true,
+                }],
+            });
+            const context = { basePrice: 500, immediateService: false };
+
+            expect(evaluatePricingRules(rules, { ...context, formData: {} }).total).toBe(500);
+            expect(evaluatePricingRules(rules, { ...context, formData: { lat: '19.43', lng: '-99.13' } }).total).toBe(500);
+            expect(evaluatePricingRules(rules, { ...context, formData: { lat: '20.67', lng: '-103.35' } }).total).toBe(650);
+        });
+
+        it('ajusta a mínimo y tope sin alterar el subtotal', () => {
+            const minimum = evaluatePricingRules(resolvePricingRules({ minimum_total: 450 }), {
+                basePrice: 300,
+                formData: {},
+                immediateService: false,
+            });
+            expect(minimum.subtotal).toBe(300);
+            expect(minimum.total).toBe(450);
+            expect(minimum.lines.at(-1)).toEqual(expect.objectContaining({ kind: 'minimum', amount: 150 }));
+
+            const cap = evaluatePricingRules(resolvePricingRules({ maximum_total: 1000, urgency_fee: 500 }), {
+                basePrice: 800,
+                formData: {},
+                immediateService: true,
+            });
+            expect(cap.subtotal).toBe(1300);
+            expect(cap.total).toBe(1000);
+            expect(cap.lines.at(-1)).toEqual(expect.objectContaining({ kind: 'cap', amount: -300 }));
+        });
+    });
+
+    describe('parsePricingRules', () => {
+        it('descarta reglas mal formadas', () => {
+            const rules = parsePricingRules({
+                urgency_fee: 150,
+                tax_rate: 16,
+                addons: [
+                    { id: 'ok', name: 'Válido', field: 'x', price: 10 },
+                    { id: 'bad', name: 'Sin precio', field: 'y' },
+                ],
+                per_unit: { price: 'mucho' },
+            });
+
+            expect(rules).toEqual({
+                urgency_fee: 150,
+                addons: [expect.objectContaining({ id: 'ok', price: 10 })],
+            });
+            expect(parsePricingRules(null)).toBeUndefined();
+            expect(parsePricingRules([1, 2])).toBeUndefined();
+        });
+    });
+
+    it('parseQuantity interpreta respuestas del formulario', () => {
+        expect(parseQuantity(3)).toBe(3);
+        expect(parseQuantity('5+')).toBe(5);
+        expect(parseQuantity(undefined)).toBe(1);
+        expect(parseQuantity('abc')).toBe(1);
+    });
+
+    it('QuoteService.getBreakdown reconstruye cotizaciones sin desglose', () => {
+        const { breakdown, ...legacy } = QuoteService.calculatePrice(1000, { needs_uninstall: true }, true);
+
+        expect(QuoteService.getBreakdown(legacy)).toEqual(breakdown);
+    });
+});
@@ -0,0 +1,210 @@
+import { fakeSupabase, pgError } from '@/test/fakeSupabase';
+import {
+    CreateProjectInput,
+    ProjectsService,
+    getProjectBudget,
+    getProjectProgress,
+    validateProjectInput,
+} from '../projects';
+import { cache } from '../cache';
+import type { LeadRow } from '../repositories/leads';
+
+const CLIENT_ID = '11111111-1111-4111-8111-111111111111';
+const OTHER_CLIENT_ID = '22222222-2222-4222-8222-222222222222';
+const PLUMBING_ID = '33333333-3333-4333-8333-333333333333';
+const ELECTRIC_ID = '44444444-4444-4444-8444-444444444444';
+const PROJECT_ID = '55555555-5555-4555-8555-555555555555';
+const DRAIN_ID = '66666666-6666-4666-8666-666666666666';
+
+function seedCatalog() {
+    fakeSupabase.seed('service_catalog', [
+        { id: PLUMBING_ID, service_name: 'Cambio de tubería', discipline: 'plomeria', min_price: 1000, is_active: true },
+        {
+            id: ELECTRIC_ID,
+            service_name: 'Instalación de contactos',
+            discipline: 'electricidad',
+            min_price: 500,
+            is_active: true,
+            form_schema: {
+                questions: [{ id: 'outlets', label: '¿Cuántos contactos?', type: 'number', min: 1, required: true }],
+            },
+        },
+    ]);
+    fakeSupabase.seed('profiles', [{ user_id: CLIENT_ID, full_name: 'Laura Cliente', phone: '5512345678' }]);
+}
+
+function projectInput(overrides: Partial<CreateProjectInput> = {}): CreateProjectInput {
+    return {
+        clientId: CLIENT_ID,
+        title: 'Remodelación de baño',
+        description: 'Cambiamos el baño completo: regadera, lavabo y contactos nuevos',
+        photos: ['https://cdn/bano.jpg'],
+        location: { lat: 19.43, lng: -99.13, address: 'Av. Reforma 100' },
+        items: [
+            { serviceId: PLUMBING_ID, answers: { service_type: 'Instalar' } },
+            { serviceId: ELECTRIC_ID, answers: { outlets: 3 } },
+        ],
+        ...overrides,
+    };
+}
+
+function lead(overrides: Partial<LeadRow>): LeadRow {
+    return {
+        id: 'lead',
+        cliente_id: CLIENT_ID,
+        project_id: PROJECT_ID,
+        servicio_solicitado: 'Servicio',
+        status: 'pending',
+        estado: 'Nuevo',
+        price: 1000,
+        agreed_price: 1160,
+        ...overrides,
+    } as LeadRow;
+}
+
+describe('Projects', () => {
+    beforeEach(async () => {
+        fakeSupabase.reset();
+        await cache.clear();
+    });
+
+    it('valida nombre, descripción y número de servicios', () => {
+        expect(validateProjectInput(projectInput()).valid).toBe(true);
+        expect(validateProjectInput(projectInput({ title: '  ' })).error?.code).toBe('project.missing_title');
+        expect(validateProjectInput(projectInput({ title: 'x'.repeat(81) })).error?.code).toBe('project.title_too_long');
+        expect(validateProjectInput(projectInput({ description: 'Baño' })).error?.code).toBe('project.missing_description');
+        expect(validateProjectInput(projectInput({ items: [{ serviceId: PLUMBING_ID, answers: {} }] })).error?.code)
+            .toBe('project.too_few_items');
+        expect(validateProjectInput(projectInput({
+            items: [{ serviceId: PLUMBING_ID, answers: {} }, { serviceId: PLUMBING_ID, answers: {} }],
+        })).error?.code).toBe('project.duplicate_service');
+    });
+
+    it('crea un lead por oficio con la descripción, fotos y dirección compartidas', async () => {
+        seedCatalog();
+
+        const project = await ProjectsService.createProject(projectInput());
+
+        const leads = fakeSupabase.getTable('leads');
+        expect(leads).toHaveLength(2);
+        expect(leads.map(row => [row.servicio_solicitado, row.servicio, row.project_id])).toEqual([
+            ['Cambio de tubería', 'plomeria', project.id],
+            ['Instalación de contactos', 'electricidad', project.id],
+        ]);
+        expect(leads[1]).toMatchObject({
+            nombre_cliente: 'Laura Cliente',
+            ubicacion_direccion: 'Av. Reforma 100',
+            photos_urls: ['https://cdn/bano.jpg'],
+            status: 'pending',
+        });
+        // El resumen del formulario de cada servicio se agrega a la descripción compartida
+        expect(leads[1].descripcion_proyecto).toContain('Cambiamos el baño completo');
+        expect(leads[1].descripcion_proyecto).toContain('¿Cuántos contactos?');
+        expect(fakeSupabase.getTable('lead_events')).toEqual([
+            expect.objectContaining({ event_type: 'created', payload: expect.objectContaining({ project_id: project.id }) }),
+            expect.objectContaining({ event_type: 'created', payload: expect.objectContaining({ project_id: project.id }) }),
+        ]);
+    });
+
+    it('junta los servicios del mismo oficio en un solo lead', async () => {
+        seedCatalog();
+        fakeSupabase.seed('service_catalog', [
+            { id: DRAIN_ID, service_name: 'Destape de drenaje', discipline: 'plomeria', min_price: 400, is_active: true },
+        ]);
+
+        const project = await ProjectsService.createProject(projectInput({
+            items: [
+                { serviceId: PLUMBING_ID, answers: { service_type: 'Instalar' } },
+                { serviceId: ELECTRIC_ID, answers: { outlets: 3 } },
+                { serviceId: DRAIN_ID, answers: {} },
+            ],
+        }));
+
+        expect(project.leads.map(row => [row.servicio, row.servicio_solicitado, row.agreed_price])).toEqual([
+            ['plomeria', 'Cambio de tubería, Destape de drenaje', 1624],
+            ['electricidad', 'Instalación de contactos', 580],
+        ]);
+        expect(project.estimated_total).toBe(2204);
+        expect(fakeSupabase.getTable('lead_events')).toHaveLength(2);
+    });
+
+    it('cotiza cada servicio con el precio del catálogo y guarda el total estimado', async () => {
+        seedCatalog();
+
+        const project = await ProjectsService.createProject(projectInput());
+
+        expect(project.leads.map(row => row.agreed_price)).toEqual([1160, 580]);
+        expect(project.estimated_total).toBe(1740);
+        expect(fakeSupabase.getTable('projects')).toEqual([
+            expect.objectContaining({ title: 'Remodelación de baño', estimated_total: 1740, photos_urls: ['https://cdn/bano.jpg'] }),
+        ]);
+    });
+
+    it('no crea nada si falta completar el formulario de un servicio', async () => {
+        seedCatalog();
+
+        await expect(ProjectsService.createProject(projectInput({
+            items: [
+                { serviceId: PLUMBING_ID, answers: {} },
+                { serviceId: ELECTRIC_ID, answers: {} },
+            ],
+        }))).rejects.toMatchObject({ code: 'project.invalid_item', userMessage: 'Completa los datos de Instalación de contactos' });
+
+        expect(fakeSupabase.getTable('projects')).toEqual([]);
+        expect(fakeSupabase.getTable('leads')).toEqual([]);
+    });
+
+    it('elimina el proyecto si no se pudieron crear sus leads', async () => {
+        seedCatalog();
+        fakeSupabase.failNext('leads', 'insert', pgError('23514', 'new row violates check constraint'));
+
+        await expect(ProjectsService.createProject(projectInput())).rejects.toMatchObject({ kind: 'validation' });
+
+        expect(fakeSupabase.getTable('projects')).toEqual([]);
+        expect(fakeSupabase.getTable('leads')).toEqual([]);
+    });
+
+    it('lista los proyectos del cliente con sus servicios', async () => {
+        fakeSupabase.seed('projects', [
+            { id: PROJECT_ID, client_id: CLIENT_ID, title: 'Baño', description: 'Remodelación', photos_urls: [], address: null, lat: null, lng: null, estimated_total: '1740.00', created_at: '2030-01-10T12:00:00Z' },
+            { id: 'otro', client_id: OTHER_CLIENT_ID, title: 'Cocina', description: 'Otra', photos_urls: [], address: null, lat: null, lng: null, estimated_total: null, created_at: '2030-01-10T12:00:00Z' },
+        ]);
+        fakeSupabase.seed('leads', [
+            lead({ id: 'lead-1', created_at: '2030-01-10T12:00:00Z' }),
+            lead({ id: 'lead-2', created_at: '2030-01-10T12:00:01Z' }),
+            lead({ id: 'suelto', project_id: null }),
+        ]);
+
+        const projects = await ProjectsService.getProjects(CLIENT_ID);
+
+        expect(projects).toHaveLength(1);
+        expect(projects[0]).toMatchObject({ title: 'Baño', estimated_total: 1740 });
+        expect(projects[0].leads.map(row => row.id)).toEqual(['lead-1', 'lead-2']);
+        await expect(ProjectsService.getProject('66666666-6666-4666-8666-666666666666', CLIENT_ID))
+            .rejects.toMatchObject({ kind: 'not_found' });
+    });
+
+    it('sin la migración no hay proyectos', async () => {
+        fakeSupabase.failNext('projects', 'select', pgError('42P01', 'relation "public.projects" does not exist'));
+
+        await expect(ProjectsService.getProjects(CLIENT_ID)).resolves.toEqual([]);
+    });
+
+    it('suma el presupuesto y el avance sin contar servicios cancelados', () => {
+        const leads = [
+            lead({ id: 'plomeria', agreed_price: 1160, status: 'completed', estado: 'completado' }),
+            lead({ id: 'electricidad', agreed_price: 580, status: 'scheduled', estado: 'Aceptado' }),
+            lead({ id: 'pintura', agreed_price: 2320, status: 'pending' }),
+            lead({ id: 'tablaroca', agreed_price: 900, status: 'cancelled', estado: 'cancelado' }),
+        ];
+
+        const budget = getProjectBudget(leads);
+        expect(budget).toMatchObject({ total: 4060, committed: 1740, completed: 1160 });
+        expect(budget.lines.map(line => line.status)).toEqual(['completed', 'scheduled', 'pending', 'cancelled']);
+
+        expect(getProjectProgress(leads)).toMatchObject({ status: 'in_progress', total: 3, completed: 1, active: 1, pending: 1, percent: 33 });
+        expect(getProjectProgress(leads.slice(2, 3)).status).toBe('pending');
+        expect(getProjectProgress(leads.slice(3)).status).toBe('cancelled');
+        expect(getProjectProgress(leads.slice(0, 1)).status).toBe('completed');
+    });
+});
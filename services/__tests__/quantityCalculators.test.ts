@@ -0,0 +1,81 @@
+import {
+    calculateWallArea,
+    describeQuantityCalculation,
+    getQuantityCalculations,
+    runQuantityCalculator,
+    setQuantityCalculation,
+} from '../quantityCalculators';
+import { getCalculatedAnswer, getIntakeFormSchema, summarizeIntakeAnswers } from '../intakeForms';
+import { QuoteService } from '../quotes';
+
+describe('quantityCalculators', () => {
+    it('área de muros: perímetro por altura menos puertas y ventanas', () => {
+        const inputs = {
+            rooms: [{ length: 4, width: 3, height: 2.5 }, { length: 3, width: 3 }],
+            openings: [{ width: 0.9, height: 2.1, quantity: 2 }, { width: 1.2, height: 1.2, quantity: 1 }],
+        };
+
+        // 35 + 30 (altura por defecto 2.5) - 3.78 - 1.44
+        expect(calculateWallArea(inputs)).toBe(59.78);
+        expect(calculateWallArea({ ...inputs, include_ceiling: true })).toBe(80.78);
+
+        const calculation = runQuantityCalculator('wall_area', inputs);
+        expect(calculation).toMatchObject({ result: 59.78, quantity: 60, unit: 'm²' });
+        expect(describeQuantityCalculation(calculation!)).toBe(
+            '59.78 m² de muros (4×3 m, altura 2.5 m; 3×3 m, altura 2.5 m; menos 3 puerta(s)/ventana(s))'
+        );
+    });
+
+    it('cámaras y minisplits cuentan unidades; sin medidas no hay resultado', () => {
+        expect(runQuantityCalculator('cameras', { entrances: 2, exterior_sides: 3, interior_areas: 0, parking: 1 }))
+            .toMatchObject({ quantity: 6, unit: 'cámaras' });
+
+        const minisplits = runQuantityCalculator('minisplits', {
+            rooms: [{ length: 4, width: 4 }, { length: 5, width: 5, sunny: true }, { length: 0, width: 3 }],
+        });
+        expect(minisplits?.quantity).toBe(2);
+        expect(minisplits?.capacities?.map(capacity => capacity.tons)).toEqual([1, 1.5]);
+
+        expect(runQuantityCalculator('floor_area', { rooms: [{ length: 0, width: 4 }] })).toBeNull();
+    });
+
+    it('la cantidad calculada alimenta la cotización y queda en form_data', () => {
+        const calculation = runQuantityCalculator('floor_area', { rooms: [{ length: 5, width: 4.2 }] })!;
+        const formData = {
+            quantity: calculation.quantity,
+            calculations: setQuantityCalculation({}, 'quantity', calculation),
+        };
+
+        const quote = QuoteService.calculatePrice(300, formData, false, {
+            rules: { per_unit: { price: 15, included_units: 10 } },
+            unit: 'm²',
+        });
+
+        expect(quote.breakdown?.find(line => line.kind === 'per_unit')).toMatchObject({ quantity: 11, amount: 165 });
+        expect(getQuantityCalculations(quote.form_data).quantity.inputs).toEqual({ rooms: [{ length: 5, width: 4.2 }] });
+        expect(setQuantityCalculation(formData, 'quantity', null)).toBeUndefined();
+    });
+
+    it('el resumen para el profesional explica la cantidad calculada', () => {
+        const schema = getIntakeFormSchema({ discipline: 'limpieza' });
+        const calculation = runQuantityCalculator('floor_area', { rooms: [{ length: 5, width: 4 }] })!;
+
+        expect(schema.questions.find(question => question.id === 'quantity')?.calculator).toBe('floor_area');
+        expect(summarizeIntakeAnswers(schema, {
+            quantity: 20,
+            calculations: { quantity: calculation } as any,
+        })).toContainEqual({ id: 'quantity', label: '¿Cuántos m² hay que limpiar?', value: '20 m² · 20 m² de piso (5×4 m)' });
+    });
+
+    it('en preguntas de opción elige la opción que corresponde a la cantidad', () => {
+        const question = getIntakeFormSchema({ discipline: 'aire-acondicionado' }).questions.find(q => q.id === 'quantity')!;
+
+        expect(question.calculator).toBe('minisplits');
+        expect(getCalculatedAnswer(question, 3)).toBe(3);
+        expect(getCalculatedAnswer(question, 7)).toBe('5+');
+        expect(getIntakeFormSchema({
+            discipline: 'pintura',
+            form_schema: { questions: [{ id: 'quantity', label: 'm²', type: 'number' }] },
+        }).questions[0].calculator).toBe('wall_area');
+    });
+});
@@ -0,0 +1,255 @@
+import { fakeSupabase, pgError } from '@/test/fakeSupabase';
+import {
+    QuoteRevision,
+    QuoteRevisionsService,
+    diffQuoteRevisions,
+    getBindingRevision,
+    getPendingRevision,
+    parseRevisionItems,
+} from '../quoteRevisions';
+import { cache } from '../cache';
+
+const CLIENT_ID = '11111111-1111-4111-8111-111111111111';
+const OTHER_CLIENT_ID = '22222222-2222-4222-8222-222222222222';
+const PRO_ID = '33333333-3333-4333-8333-333333333333';
+const LEAD_ID = '55555555-5555-4555-8555-555555555555';
+const REVISION_1 = '77777777-7777-4777-8777-777777777777';
+const REVISION_2 = '88888888-8888-4888-8888-888888888888';
+
+function revision(overrides: Partial<QuoteRevision> = {}): QuoteRevision {
+    return {
+        id: REVISION_1,
+        lead_id: LEAD_ID,
+        version: 1,
+        author_id: PRO_ID,
+        author_name: 'Ana Plomera',
+        reason: null,
+        items: [],
+        subtotal: 0,
+        tax_rate: 0.16,
+        total_with_tax: 0,
+        status: 'approved',
+        response_note: null,
+        responded_at: null,
+        created_at: '2026-03-01T10:00:00Z',
+        ...overrides,
+    };
+}
+
+function seedLeadWithRevisions(leadOverrides: Record<string, any> = {}) {
+    fakeSupabase.seed('leads', [{
+        id: LEAD_ID,
+        cliente_id: CLIENT_ID,
+        professional_id: PRO_ID,
+        status: 'accepted',
+        estado: 'asignado',
+        agreed_price: 1160,
+        ...leadOverrides,
+    }]);
+    fakeSupabase.seed('profiles', [{ user_id: PRO_ID, full_name: 'Ana Plomera' }]);
+    fakeSupabase.seed('lead_quote_revisions', [
+        {
+            id: REVISION_1,
+            lead_id: LEAD_ID,
+            version: 1,
+            author_id: PRO_ID,
+            line_items: [{ id: 'mano-obra', kind: 'labor', label: 'Mano de obra', quantity: 1, unit_price: 1000 }],
+            subtotal: 1000,
+            tax_rate: 0.16,
+            total_with_tax: 1160,
+            status: 'approved',
+        },
+        {
+            id: REVISION_2,
+            lead_id: LEAD_ID,
+            version: 2,
+            author_id: PRO_ID,
+            reason: 'La tubería está dañada, hay que cambiar un tramo',
+            line_items: [
+                { id: 'mano-obra', kind: 'labor', label: 'Mano de obra', quantity: 1, unit_price: 1200 },
+                { id: 'tubo', kind: 'material', label: 'Tubo de cobre', quantity: 2, unit_price: 150 },
+            ],
+            subtotal: '1500.00',
+            tax_rate: '0.160',
+            total_with_tax: '1740.00',
+            status: 'pending',
+        },
+    ]);
+}
+
+// Réplica en memoria de respond_quote_revision (SCHEMA_REVISIONES_COTIZACION.sql)
+function registerRespondRpc() {
+    fakeSupabase.registerRpc('respond_quote_revision', ({ p_revision_id, p_approved, p_note }, db) => {
+        const target = db.rows('lead_quote_revisions').find(row => row.id === p_revision_id);
+        if (!target || target.status !== 'pending') {
+            throw pgError('23514', 'La revisión ya no está pendiente');
+        }
+        db.updateRows('lead_quote_revisions', row => row.id === p_revision_id, {
+            status: p_approved ? 'approved' : 'rejected',
+            response_note: p_note,
+        });
+        if (p_approved) {
+            db.updateRows('leads', row => row.id === target.lead_id, { agreed_price: Number(target.total_with_tax) });
+        }
+        return null;
+    });
+}
+
+describe('QuoteRevisions', () => {
+    beforeEach(async () => {
+        fakeSupabase.reset();
+        await cache.clear();
+    });
+
+    it('parseRevisionItems calcula montos y usa negativos para descuentos', () => {
+        expect(parseRevisionItems([
+            { id: 'a', kind: 'material', label: 'Silicón', quantity: '3', unit_price: 45 },
+            { kind: 'discount', label: 'Cliente frecuente', amount: 100 },
+            { kind: 'labor', label: '' },
+        ])).toEqual([
+            { id: 'a', kind: 'material', label: 'Silicón', quantity: 3, unit_price: 45, amount: 135 },
+            { id: 'discount:1', kind: 'discount', label: 'Cliente frecuente', quantity: 1, unit_price: 100, amount: -100 },
+        ]);
+    });
+
+    describe('diffQuoteRevisions', () => {
+        const labor = { id: 'mano-obra', kind: 'labor' as const, label: 'Mano de obra', quantity: 1, unit_price: 1000, amount: 1000 };
+        const visit = { id: 'visita', kind: 'fee' as const, label: 'Visita técnica', quantity: 1, unit_price: 200, amount: 200 };
+        const pipe = { id: 'tubo', kind: 'material' as const, label: 'Tubo de cobre', quantity: 2, unit_price: 150, amount: 300 };
+
+        it('detecta renglones agregados, eliminados y modificados', () => {
+            const previous = revision({ items: [labor, visit], subtotal: 1200, total_with_tax: 1392 });
+            const current = revision({
+                id: REVISION_2,
+                version: 2,
+                status: 'pending',
+                items: [{ ...labor, unit_price: 1200, amount: 1200 }, pipe],
+                subtotal: 1500,
+                total_with_tax: 1740,
+            });
+
+            const diff = diffQuoteRevisions(previous, current);
+
+            expect(diff.changes.map(change => [change.type, change.item.id, change.delta])).toEqual([
+                ['changed', 'mano-obra', 200],
+                ['added', 'tubo', 300],
+                ['removed', 'visita', -200],
+            ]);
+            expect(diff.labor).toEqual({ before: 1000, after: 1200, delta: 200 });
+            expect(diff.materials).toEqual({ before: 0, after: 300, delta: 300 });
+            expect(diff.total_with_tax).toEqual({ before: 1392, after: 1740, delta: 348 });
+        });
+
+        it('sin versión anterior compara contra el precio acordado', () => {
+            const diff = diffQuoteRevisions(null, revision({ items: [labor], subtotal: 1000, total_with_tax: 1160 }), 999);
+
+            expect(diff.changes).toHaveLength(1);
+            expect(diff.changes[0].type).toBe('added');
+            expect(diff.total_with_tax.delta).toBe(161);
+        });
+    });
+
+    it('la versión vigente es la aprobada más reciente anterior a la pendiente', () => {
+        const revisions = [
+            revision({ id: 'v3', version: 3, status: 'pending' }),
+            revision({ id: 'v2', version: 2, status: 'rejected' }),
+            revision({ id: 'v1', version: 1, status: 'approved' }),
+        ];
+
+        expect(getPendingRevision(revisions)?.id).toBe('v3');
+        expect(getBindingRevision(revisions, 3)?.id).toBe('v1');
+        expect(getBindingRevision(revisions.slice(1))?.id).toBe('v1');
+    });
+
+    describe('QuoteRevisionsService', () => {
+        it('obtiene el historial con el autor, más reciente primero', async () => {
+            seedLeadWithRevisions();
+
+            const revisions = await QuoteRevisionsService.getRevisions(LEAD_ID);
+
+            expect(revisions.map(r => r.version)).toEqual([2, 1]);
+            expect(revisions[0]).toMatchObject({
+                author_name: 'Ana Plomera',
+                subtotal: 1500,
+                tax_rate: 0.16,
+                total_with_tax: 1740,
+                status: 'pending',
+            });
+            expect(revisions[0].items.map(item => item.amount)).toEqual([1200, 300]);
+        });
+
+        it('aprobar hace vinculante el nuevo total', async () => {
+            seedLeadWithRevisions();
+            registerRespondRpc();
+
+            await QuoteRevisionsService.respondToRevision({ leadId: LEAD_ID, revisionId: REVISION_2, clientId: CLIENT_ID, approved: true });
+
+            expect(fakeSupabase.getRow('lead_quote_revisions', REVISION_2)?.status).toBe('approved');
+            expect(fakeSupabase.getRow('leads', LEAD_ID)?.agreed_price).toBe(1740);
+        });
+
+        it('rechazar conserva el precio vigente y guarda el comentario', async () => {
+            seedLeadWithRevisions();
+            registerRespondRpc();
+
+            await QuoteRevisionsService.respondToRevision({
+                leadId: LEAD_ID,
+                revisionId: REVISION_2,
+                clientId: CLIENT_ID,
+                approved: false,
+                note: '  Prefiero conservar la tubería actual ',
+            });
+
+            expect(fakeSupabase.getRow('lead_quote_revisions', REVISION_2)).toMatchObject({
+                status: 'rejected',
+                response_note: 'Prefiero conservar la tubería actual',
+            });
+            expect(fakeSupabase.getRow('leads', LEAD_ID)?.agreed_price).toBe(1160);
+        });
+
+        it('solo el cliente del lead puede responder', async () => {
+            seedLeadWithRevisions();
+            registerRespondRpc();
+
+            const error = await QuoteRevisionsService.respondToRevision({
+                leadId: LEAD_ID,
+                revisionId: REVISION_2,
+                clientId: OTHER_CLIENT_ID,
+                approved: true,
+            }).catch(e => e);
+
+            expect(error.kind).toBe('permission');
+            expect(fakeSupabase.getRow('leads', LEAD_ID)?.agreed_price).toBe(1160);
+        });
+
+        it('no se responden cambios en solicitudes cerradas', async () => {
+            seedLeadWithRevisions({ status: 'completed', estado: 'completado' });
+            registerRespondRpc();
+
+            const error = await QuoteRevisionsService.respondToRevision({
+                leadId: LEAD_ID,
+                revisionId: REVISION_2,
+                clientId: CLIENT_ID,
+                approved: true,
+            }).catch(e => e);
+
+            expect(error.kind).toBe('transition');
+            expect(fakeSupabase.queries.some(q => q.target === 'respond_quote_revision')).toBe(false);
+        });
+
+        it('una versión ya respondida es un conflicto', async () => {
+            seedLeadWithRevisions();
+            registerRespondRpc();
+
+            const error = await QuoteRevisionsService.respondToRevision({
+                leadId: LEAD_ID,
+                revisionId: REVISION_1,
+                clientId: CLIENT_ID,
+                approved: true,
+            }).catch(e => e);
+
+            expect(error.kind).toBe('conflict');
+            expect(error.code).toBe('quote_revision.not_pending');
+        });
+    });
+});
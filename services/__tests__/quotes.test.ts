@@ -0,0 +1,291 @@
+import { fakeSupabase, pgError } from '@/test/fakeSupabase';
+import { QuoteService } from '../quotes';
+import { cache } from '../cache';
+import { AppError } from '../errors';
+import { LeadTransitionError } from '../leadLifecycle';
+
+const CLIENT_ID = '11111111-1111-4111-8111-111111111111';
+const PRO_ID = '33333333-3333-4333-8333-333333333333';
+const SERVICE_ID = '44444444-4444-4444-8444-444444444444';
+const LEAD_ID = '55555555-5555-4555-8555-555555555555';
+
+function seedCatalogAndClient(catalog: Record<string, unknown> = {}) {
+    fakeSupabase.seed('service_catalog', [{
+        id: SERVICE_ID,
+        service_name: 'Instalación de minisplit',
+        discipline: 'aire-acondicionado',
+        description: 'Instalación de equipo de 1 a 2 toneladas',
+        min_price: 1000,
+        is_active: true,
+        ...catalog,
+    }]);
+    fakeSupabase.seed('profiles', [{
+        user_id: CLIENT_ID,
+        full_name: 'Laura Cliente',
+        whatsapp: null,
+        phone: '5512345678',
+    }]);
+}
+
+describe('QuoteService', () => {
+    beforeEach(async () => {
+        fakeSupabase.reset();
+        await cache.clear();
+    });
+
+    describe('calculatePrice', () => {
+        it('suma servicio inmediato, adicionales e IVA', () => {
+            const quote = QuoteService.calculatePrice(1000, { needs_uninstall: true }, true);
+
+            expect(quote.immediate_service_fee).toBe(100);
+            expect(quote.additional_services).toEqual([
+                expect.objectContaining({ id: 'uninstall', price: 30, selected: true }),
+            ]);
+            expect(quote.subtotal).toBe(1130);
+            expect(quote.total).toBe(1130);
+            expect(quote.tax_rate).toBe(0.16);
+            expect(quote.total_with_tax).toBeCloseTo(1310.8);
+        });
+
+        it('sin respuestas adicionales solo aplica IVA', () => {
+            const quote = QuoteService.calculatePrice(500, {});
+
+            expect(quote.subtotal).toBe(500);
+            expect(quote.additional_services).toEqual([]);
+            expect(quote.discounts).toEqual([]);
+            expect(quote.total_with_tax).toBeCloseTo(580);
+        });
+    });
+
+    describe('createQuoteAndLead', () => {
+        it('crea el lead pendiente con datos del servicio, cliente, ubicación y cita', async () => {
+            seedCatalogAndClient();
+            const quote = QuoteService.calculatePrice(1000, { description: 'Equipo de 1.5 toneladas en recámara' });
+            const appointment = new Date(2026, 2, 14, 10, 30);
+
+            const { lead } = await QuoteService.createQuoteAndLead(
+                CLIENT_ID,
+                SERVICE_ID,
+                quote,
+                appointment,
+                { lat: 19.4326, lng: -99.1332, address: 'Av. Reforma 100' }
+            );
+
+            const [stored] = fakeSupabase.getTable('leads');
+            expect(stored.id).toBe(lead.id);
+            expect(stored).toMatchObject({
+                cliente_id: CLIENT_ID,
+                nombre_cliente: 'Laura Cliente',
+                whatsapp: '5512345678',
+                servicio: 'aire-acondicionado',
+                servicio_solicitado: 'Instalación de minisplit',
+                descripcion_proyecto: 'Equipo de 1.5 toneladas en recámara',
+                status: 'pending',
+                estado: 'Nuevo',
+                price: 1000,
+                agreed_price: quote.total_with_tax,
+                ubicacion_lat: 19.4326,
+                ubicacion_lng: -99.1332,
+                ubicacion_direccion: 'Av. Reforma 100',
+                appointment_date: '2026-03-14',
+                appointment_status: 'scheduled',
+            });
+            expect(stored).not.toHaveProperty('appointment_time');
+        });
+
+        it('usa el nombre del servicio si la descripción es muy corta', async () => {
+            seedCatalogAndClient();
+
+            await QuoteService.createQuoteAndLead(CLIENT_ID, SERVICE_ID, QuoteService.calculatePrice(1000, { description: 'AC' }));
+
+            expect(fakeSupabase.getTable('leads')[0].descripcion_proyecto).toBe('Instalación de minisplit');
+        });
+
+        it('agrega el resumen del formulario y las fotos del esquema del servicio', async () => {
+            seedCatalogAndClient({
+                form_schema: {
+                    questions: [
+                        { id: 'quantity', label: '¿Cuántos equipos?', type: 'number', unit: 'equipos' },
+                        { id: 'site_photos', label: 'Fotos del lugar', type: 'photo' },
+                    ],
+                },
+            });
+
+            await QuoteService.createQuoteAndLead(CLIENT_ID, SERVICE_ID, QuoteService.calculatePrice(1000, {
+                description: 'Equipo de 1.5 toneladas en recámara',
+                quantity: 2,
+                site_photos: ['https://cdn/sala.jpg'],
+            }));
+
+            const [stored] = fakeSupabase.getTable('leads');
+            expect(stored.descripcion_proyecto).toBe(
+                'Equipo de 1.5 toneladas en recámara\n\n• ¿Cuántos equipos?: 2 equipos\n• Fotos del lugar: 1 foto'
+            );
+            expect(stored.photos_urls).toEqual(['https://cdn/sala.jpg']);
+        });
+
+        it('reutiliza el servicio y el perfil cacheados', async () => {
+            seedCatalogAndClient();
+            const quote = QuoteService.calculatePrice(1000, {});
+
+            await QuoteService.createQuoteAndLead(CLIENT_ID, SERVICE_ID, quote);
+            await QuoteService.createQuoteAndLead(CLIENT_ID, SERVICE_ID, quote);
+
+            const reads = fakeSupabase.queries.filter(q => q.operation === 'select');
+            expect(reads.map(q => q.target)).toEqual(['service_catalog', 'profiles']);
+            expect(fakeSupabase.getTable('leads')).toHaveLength(2);
+        });
+
+        it('rechaza IDs inválidos antes de consultar', async () => {
+            const error = await QuoteService
+                .createQuoteAndLead('no-es-uuid', SERVICE_ID, QuoteService.calculatePrice(1000, {}))
+                .catch(e => e);
+
+            expect(error).toBeInstanceOf(AppError);
+            expect(error.kind).toBe('validation');
+            expect(fakeSupabase.queries).toHaveLength(0);
+        });
+
+        it('rechaza coordenadas fuera de rango', async () => {
+            seedCatalogAndClient();
+            const error = await QuoteService
+                .createQuoteAndLead(CLIENT_ID, SERVICE_ID, QuoteService.calculatePrice(1000, {}), undefined, {
+                    lat: 120,
+                    lng: -99,
+                    address: 'X',
+                })
+                .catch(e => e);
+
+            expect(error.code).toBe('validation.invalid_latitude');
+        });
+
+        it('lanza not_found si el servicio no existe', async () => {
+            const error = await QuoteService
+                .createQuoteAndLead(CLIENT_ID, SERVICE_ID, QuoteService.calculatePrice(1000, {}))
+                .catch(e => e);
+
+            expect(error).toBeInstanceOf(AppError);
+            expect(error.kind).toBe('not_found');
+            expect(error.code).toBe('quote.service_not_found');
+        });
+
+        it('continúa sin perfil del cliente', async () => {
+            seedCatalogAndClient();
+            fakeSupabase.failNext('profiles', 'select', pgError('42501', 'permission denied for table profiles'));
+
+            await QuoteService.createQuoteAndLead(CLIENT_ID, SERVICE_ID, QuoteService.calculatePrice(1000, {}));
+
+            expect(fakeSupabase.getTable('leads')[0]).toMatchObject({ nombre_cliente: null, whatsapp: null });
+        });
+
+        it('traduce un INSERT duplicado a un AppError de conflicto', async () => {
+            seedCatalogAndClient();
+            fakeSupabase.failNext('leads', 'insert', pgError('23505', 'duplicate key value violates unique constraint'));
+
+            const error = await QuoteService
+                .createQuoteAndLead(CLIENT_ID, SERVICE_ID, QuoteService.calculatePrice(1000, {}))
+                .catch(e => e);
+
+            expect(error.kind).toBe('conflict');
+            expect(error.userMessage).toMatch(/Ya existe una solicitud similar/);
+        });
+
+        it('no reintenta el INSERT cuando falla la red', async () => {
+            seedCatalogAndClient();
+            fakeSupabase.failNext('leads', 'insert', { code: '', message: 'TypeError: Network request failed' });
+
+            const error = await QuoteService
+                .createQuoteAndLead(CLIENT_ID, SERVICE_ID, QuoteService.calculatePrice(1000, {}))
+                .catch(e => e);
+
+            expect(error.kind).toBe('network');
+            expect(fakeSupabase.queries.filter(q => q.operation === 'insert')).toHaveLength(1);
+            expect(fakeSupabase.getTable('leads')).toHaveLength(0);
+        });
+    });
+
+    describe('createQuoteAndLeadWithAI', () => {
+        it('usa la descripción sugerida por la IA', async () => {
+            seedCatalogAndClient();
+
+            await QuoteService.createQuoteAndLeadWithAI(CLIENT_ID, SERVICE_ID, QuoteService.calculatePrice(1000, {}), {
+                descripcion: 'El minisplit gotea agua por la parte frontal',
+            });
+
+            expect(fakeSupabase.getTable('leads')[0].descripcion_proyecto).toBe('El minisplit gotea agua por la parte frontal');
+        });
+    });
+
+    describe('getClientQuotes', () => {
+        it('devuelve los leads del cliente del más reciente al más antiguo', async () => {
+            fakeSupabase.seed('leads', [
+                { id: 'a', cliente_id: CLIENT_ID, created_at: '2026-01-01T00:00:00Z' },
+                { id: 'b', cliente_id: CLIENT_ID, created_at: '2026-02-01T00:00:00Z' },
+                { id: 'c', cliente_id: PRO_ID, created_at: '2026-03-01T00:00:00Z' },
+            ]);
+
+            const quotes = await QuoteService.getClientQuotes(CLIENT_ID);
+
+            expect(quotes.map(q => q.id)).toEqual(['b', 'a']);
+        });
+
+        it('devuelve [] si la consulta falla', async () => {
+            fakeSupabase.failNext('leads', 'select', pgError('42501', 'permission denied'));
+
+            await expect(QuoteService.getClientQuotes(CLIENT_ID)).resolves.toEqual([]);
+        });
+    });
+
+    describe('respondToQuote', () => {
+        it('acepta la cotización y asigna el profesional', async () => {
+            fakeSupabase.seed('leads', [{ id: LEAD_ID, cliente_id: CLIENT_ID, status: 'pending', estado: 'Nuevo' }]);
+
+            const updated = await QuoteService.respondToQuote(LEAD_ID, CLIENT_ID, true, PRO_ID);
+
+            expect(updated).toMatchObject({ status: 'accepted', estado: 'asignado', professional_id: PRO_ID });
+        });
+
+        it('rechazar cancela la solicitud y solo lo puede hacer su cliente', async () => {
+            fakeSupabase.seed('leads', [{ id: LEAD_ID, cliente_id: CLIENT_ID, status: 'pending', estado: 'Nuevo' }]);
+
+            await expect(QuoteService.respondToQuote(LEAD_ID, PRO_ID, false)).rejects.toThrow('No tienes permisos');
+            expect(fakeSupabase.getRow('leads', LEAD_ID)?.status).toBe('pending');
+
+            await QuoteService.respondToQuote(LEAD_ID, CLIENT_ID, false);
+            expect(fakeSupabase.getRow('leads', LEAD_ID)).toMatchObject({ status: 'cancelled', estado: 'cancelado' });
+        });
+
+        it('rechazar un lead con profesional pasa por la política de cancelación', async () => {
+            const soon = new Date(Date.now() + 2 * 60 * 60 * 1000);
+            const pad = (value: number) => String(value).padStart(2, '0');
+            fakeSupabase.seed('leads', [{
+                id: LEAD_ID,
+                cliente_id: CLIENT_ID,
+                professional_id: PRO_ID,
+                status: 'scheduled',
+                estado: 'asignado',
+                agreed_price: 1000,
+                appointment_date: `${soon.getFullYear()}-${pad(soon.getMonth() + 1)}-${pad(soon.getDate())}`,
+                appointment_time: `${pad(soon.getHours())}:${pad(soon.getMinutes())}`,
+            }]);
+
+            const cancelled = await QuoteService.respondToQuote(LEAD_ID, CLIENT_ID, false);
+
+            expect(cancelled).toMatchObject({ status: 'cancelled', cancellation_fee: 200, cancelled_by: 'client' });
+            expect(fakeSupabase.getTable('lead_events')).toEqual([
+                expect.objectContaining({ event_type: 'status_changed', payload: expect.objectContaining({ to: 'cancelled', fee: 200 }) }),
+            ]);
+        });
+
+        it('no permite aceptar un lead cancelado', async () => {
+            fakeSupabase.seed('leads', [{ id: LEAD_ID, cliente_id: CLIENT_ID, status: 'cancelled', estado: 'cancelado' }]);
+
+            await expect(QuoteService.respondToQuote(LEAD_ID, CLIENT_ID, true, PRO_ID)).rejects.toBeInstanceOf(LeadTransitionError);
+            expect(fakeSupabase.getRow('leads', LEAD_ID)?.status).toBe('cancelled');
+        });
+
+        it('falla si el lead no existe', async () => {
+            await expect(QuoteService.respondToQuote(LEAD_ID, CLIENT_ID, false)).rejects.toThrow('Lead no encontrado');
+        });
+    });
+});
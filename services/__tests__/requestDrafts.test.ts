@@ -0,0 +1,185 @@
+import { fakeSupabase, pgError } from '@/test/fakeSupabase';
+import type { StorageAdapter } from '../persistentCache';
+import { DraftReminderScheduler, getDraftReminderDate } from '../draftReminders';
+import {
+    DEFAULT_DRAFT_REMINDER_SETTINGS,
+    RequestDraftInput,
+    RequestDraftStore,
+    formatDraftAge,
+    getDraftsToRemind,
+    getServiceDraftKey,
+    isDraftEmpty,
+} from '../requestDrafts';
+
+const CLIENT_ID = '11111111-1111-4111-8111-111111111111';
+const SERVICE_ID = '22222222-2222-4222-8222-222222222222';
+const OTHER_SERVICE_ID = '33333333-3333-4333-8333-333333333333';
+
+const NOW = new Date('2030-01-10T12:00:00Z');
+const hoursAgo = (hours: number) => new Date(NOW.getTime() - hours * 60 * 60 * 1000);
+
+function memoryStorage(): StorageAdapter {
+    const items = new Map<string, string>();
+    return {
+        getItem: async name => items.get(name) ?? null,
+        setItem: async (name, value) => { items.set(name, value); },
+        removeItem: async name => { items.delete(name); },
+        clear: async () => items.clear(),
+    };
+}
+
+function serviceDraft(overrides: Partial<RequestDraftInput> = {}): RequestDraftInput {
+    return {
+        key: getServiceDraftKey(SERVICE_ID),
+        step: 'form',
+        service_id: SERVICE_ID,
+        service_name: 'Reparación de fuga',
+        form_data: { description: 'Gotea la llave del lavabo', photos: ['https://cdn/foto.jpg'] },
+        immediate_service: false,
+        selected_date: null,
+        ...overrides,
+    };
+}
+
+/**
+ * Notificaciones programadas en memoria: key del borrador → fecha del recordatorio
+ */
+function memoryReminders(scheduled: Map<string, Date>): DraftReminderScheduler {
+    return {
+        isAvailable: async () => true,
+        schedule: async (draft, settings, now) => {
+            scheduled.delete(draft.key);
+            const date = getDraftReminderDate(draft, settings, now);
+            if (date) scheduled.set(draft.key, date);
+        },
+        cancel: async key => { scheduled.delete(key); },
+        cancelAll: async () => scheduled.clear(),
+    };
+}
+
+describe('RequestDrafts', () => {
+    let store: RequestDraftStore;
+    let scheduled: Map<string, Date>;
+
+    beforeEach(() => {
+        fakeSupabase.reset();
+        scheduled = new Map();
+        store = new RequestDraftStore(memoryStorage(), memoryReminders(scheduled));
+    });
+
+    it('no guarda borradores sin nada capturado', () => {
+        expect(isDraftEmpty(serviceDraft({ form_data: { lat: '19.4', lng: '-99.1', description: '  ' } }))).toBe(true);
+        expect(isDraftEmpty(serviceDraft())).toBe(false);
+        // Pasado el formulario la cotización ya es progreso
+        expect(isDraftEmpty(serviceDraft({ step: 'quote', form_data: {} }))).toBe(false);
+        expect(isDraftEmpty({
+            key: 'diagnostic',
+            step: 'diagnostic',
+            service_id: null,
+            service_name: null,
+            form_data: {},
+            diagnostic: { text: ' ', result: null },
+        })).toBe(true);
+    });
+
+    it('guarda un borrador por servicio en el dispositivo y su copia remota', async () => {
+        await store.save(CLIENT_ID, serviceDraft(), hoursAgo(2));
+        await store.save(CLIENT_ID, serviceDraft({ step: 'schedule', selected_date: '2030-01-12' }), hoursAgo(1));
+        await store.save(CLIENT_ID, serviceDraft({ key: getServiceDraftKey(OTHER_SERVICE_ID), service_id: OTHER_SERVICE_ID }), hoursAgo(3));
+
+        const drafts = await store.list(CLIENT_ID, NOW);
+
+        expect(drafts.map(d => [d.service_id, d.step])).toEqual([
+            [SERVICE_ID, 'schedule'],
+            [OTHER_SERVICE_ID, 'form'],
+        ]);
+        await expect(store.get(CLIENT_ID, getServiceDraftKey(SERVICE_ID), NOW))
+            .resolves.toMatchObject({ selected_date: '2030-01-12', form_data: { photos: ['https://cdn/foto.jpg'] } });
+        expect(fakeSupabase.getTable('request_drafts')).toHaveLength(2);
+    });
+
+    it('retoma el borrador más reciente guardado en otro dispositivo', async () => {
+        await store.save(CLIENT_ID, serviceDraft(), hoursAgo(5));
+        fakeSupabase.seed('request_drafts', [{
+            id: 'remote-1',
+            client_id: CLIENT_ID,
+            draft_key: getServiceDraftKey(SERVICE_ID),
+            payload: { ...serviceDraft({ step: 'confirm', payment_method: 'debit' }) },
+            updated_at: hoursAgo(1).toISOString(),
+        }]);
+
+        const [draft] = await store.list(CLIENT_ID, NOW);
+
+        expect(draft).toMatchObject({ step: 'confirm', payment_method: 'debit', updated_at: hoursAgo(1).toISOString() });
+        await expect(store.get(CLIENT_ID, draft.key, NOW)).resolves.toMatchObject({ step: 'confirm' });
+    });
+
+    it('sin la migración los borradores siguen en el dispositivo', async () => {
+        fakeSupabase.failNext('request_drafts', 'upsert', pgError('42P01', 'relation "public.request_drafts" does not exist'));
+
+        await store.save(CLIENT_ID, serviceDraft(), hoursAgo(1));
+        await store.save(CLIENT_ID, serviceDraft({ step: 'quote' }), hoursAgo(1));
+
+        await expect(store.list(CLIENT_ID, NOW)).resolves.toEqual([expect.objectContaining({ step: 'quote' })]);
+        // Tras detectar la tabla faltante no se vuelve a intentar la copia remota
+        expect(fakeSupabase.getTable('request_drafts')).toEqual([]);
+    });
+
+    it('descarta borradores enviados y los abandonados hace más de dos semanas', async () => {
+        await store.save(CLIENT_ID, serviceDraft(), hoursAgo(1));
+        await store.save(CLIENT_ID, serviceDraft({ key: getServiceDraftKey(OTHER_SERVICE_ID), service_id: OTHER_SERVICE_ID }), hoursAgo(15 * 24));
+
+        await store.discard(CLIENT_ID, getServiceDraftKey(SERVICE_ID));
+
+        await expect(store.list(CLIENT_ID, NOW)).resolves.toEqual([]);
+        expect(fakeSupabase.getTable('request_drafts')).toEqual([
+            expect.objectContaining({ draft_key: getServiceDraftKey(OTHER_SERVICE_ID) }),
+        ]);
+    });
+
+    it('recuerda una sola vez los borradores abandonados más del tiempo configurado', async () => {
+        await store.save(CLIENT_ID, serviceDraft(), hoursAgo(30));
+        await store.save(CLIENT_ID, serviceDraft({ key: getServiceDraftKey(OTHER_SERVICE_ID), service_id: OTHER_SERVICE_ID }), hoursAgo(3));
+
+        let drafts = await store.list(CLIENT_ID, NOW);
+        const due = getDraftsToRemind(drafts, DEFAULT_DRAFT_REMINDER_SETTINGS, NOW);
+        expect(due.map(d => d.service_id)).toEqual([SERVICE_ID]);
+        expect(getDraftsToRemind(drafts, { enabled: true, after_hours: 48 }, NOW)).toEqual([]);
+        expect(getDraftsToRemind(drafts, { enabled: false, after_hours: 24 }, NOW)).toEqual([]);
+
+        await store.markReminded(CLIENT_ID, due.map(d => d.key), NOW);
+        drafts = await store.list(CLIENT_ID, NOW);
+        expect(getDraftsToRemind(drafts, DEFAULT_DRAFT_REMINDER_SETTINGS, NOW)).toEqual([]);
+        expect(formatDraftAge(hoursAgo(30).toISOString(), NOW)).toBe('hace 1 día');
+    });
+
+    it('cada guardado reprograma la notificación del borrador y descartarlo la cancela', async () => {
+        const key = getServiceDraftKey(SERVICE_ID);
+
+        await store.save(CLIENT_ID, serviceDraft(), hoursAgo(5));
+        expect(scheduled.get(key)).toEqual(new Date(hoursAgo(5).getTime() + 24 * 60 * 60 * 1000));
+
+        await store.save(CLIENT_ID, serviceDraft({ step: 'quote' }), hoursAgo(1));
+        expect(scheduled.get(key)).toEqual(new Date(hoursAgo(1).getTime() + 24 * 60 * 60 * 1000));
+
+        await store.discard(CLIENT_ID, key);
+        expect(scheduled.size).toBe(0);
+    });
+
+    it('conserva la configuración del recordatorio y reprograma con ella', async () => {
+        await expect(store.getReminderSettings()).resolves.toEqual(DEFAULT_DRAFT_REMINDER_SETTINGS);
+        await store.save(CLIENT_ID, serviceDraft(), hoursAgo(30));
+
+        await store.setReminderSettings(CLIENT_ID, { enabled: true, after_hours: 72 }, NOW);
+
+        await expect(store.getReminderSettings()).resolves.toEqual({ enabled: true, after_hours: 72 });
+        expect(scheduled.get(getServiceDraftKey(SERVICE_ID))).toEqual(new Date(hoursAgo(30).getTime() + 72 * 60 * 60 * 1000));
+
+        await store.setReminderSettings(CLIENT_ID, { enabled: false, after_hours: 72 }, NOW);
+        expect(scheduled.size).toBe(0);
+
+        // Con 24 h el recordatorio ya habría pasado: no se programa en el pasado
+        await store.setReminderSettings(CLIENT_ID, { enabled: true, after_hours: 24 }, NOW);
+        expect(scheduled.size).toBe(0);
+    });
+});
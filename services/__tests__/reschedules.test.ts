@@ -0,0 +1,263 @@
+import { fakeSupabase, pgError } from '@/test/fakeSupabase';
+import {
+    MAX_RESCHEDULES,
+    RescheduleProposal,
+    RescheduleService,
+    getLeadAppointmentSlot,
+    getRescheduleState,
+    validateRescheduleProposal,
+} from '../reschedules';
+import { LeadEventsService } from '../leadEvents';
+import { getClientScheduledServices } from '../scheduling';
+import { cache } from '../cache';
+
+const CLIENT_ID = '11111111-1111-4111-8111-111111111111';
+const PRO_ID = '33333333-3333-4333-8333-333333333333';
+const LEAD_ID = '55555555-5555-4555-8555-555555555555';
+const RESCHEDULE_ID = '77777777-7777-4777-8777-777777777777';
+
+const SLOT_A = { date: '2030-05-10', time: '10:00' };
+const SLOT_B = { date: '2030-05-11', time: '16:00' };
+
+function lead(overrides: Record<string, any> = {}) {
+    return {
+        id: LEAD_ID,
+        cliente_id: CLIENT_ID,
+        servicio_solicitado: 'Instalación de lámpara',
+        status: 'scheduled',
+        estado: 'agendado',
+        appointment_status: 'scheduled',
+        appointment_date: '2030-05-08',
+        appointment_time: '2030-05-08T12:00:00',
+        professional_id: PRO_ID,
+        profesional_asignado_id: null,
+        ...overrides,
+    };
+}
+
+function proposal(overrides: Partial<RescheduleProposal> = {}): RescheduleProposal {
+    return {
+        id: RESCHEDULE_ID,
+        lead_id: LEAD_ID,
+        proposed_by: PRO_ID,
+        proposer_role: 'professional',
+        reason: 'Se me cruzó otra obra',
+        slots: [{ ...SLOT_A, index: 0 }, { ...SLOT_B, index: 1 }],
+        previous_slot: { date: '2030-05-08', time: '12:00' },
+        accepted_slot: null,
+        status: 'pending',
+        counter_to: null,
+        responded_at: null,
+        created_at: '2030-05-01T10:00:00Z',
+        ...overrides,
+    };
+}
+
+// Réplica en memoria de propose_reschedule / respond_reschedule (SCHEMA_REPROGRAMACION_CITAS.sql)
+// El fake no tiene sesión: las RPCs actúan como el cliente
+function registerRescheduleRpcs() {
+    fakeSupabase.registerRpc('propose_reschedule', ({ p_lead_id, p_slots, p_reason, p_counter_to }, db) => {
+        const rows = db.rows('appointment_reschedules').filter(row => row.lead_id === p_lead_id);
+        if (rows.filter(row => row.status === 'accepted').length >= MAX_RESCHEDULES) {
+            throw pgError('23514', 'Se alcanzó el límite de reprogramaciones');
+        }
+        const pending = rows.find(row => row.status === 'pending');
+        if (pending) {
+            if (pending.id !== p_counter_to || pending.proposed_by === CLIENT_ID) {
+                throw pgError('23514', 'Ya hay una propuesta de cambio pendiente');
+            }
+            db.updateRows('appointment_reschedules', row => row.id === pending.id, { status: 'countered' });
+        }
+        const target = db.rows('leads').find(row => row.id === p_lead_id)!;
+        return db.insertRow('appointment_reschedules', {
+            lead_id: p_lead_id,
+            proposed_by: CLIENT_ID,
+            proposer_role: 'client',
+            reason: p_reason,
+            slots: p_slots,
+            previous_slot: getLeadAppointmentSlot(target),
+            accepted_slot: null,
+            status: 'pending',
+            counter_to: p_counter_to,
+            responded_by: null,
+            responded_at: null,
+        }).id;
+    });
+
+    fakeSupabase.registerRpc('respond_reschedule', ({ p_reschedule_id, p_slot_index }, db) => {
+        const target = db.rows('appointment_reschedules').find(row => row.id === p_reschedule_id);
+        if (!target || target.status !== 'pending') {
+            throw pgError('23514', 'La propuesta ya no está pendiente');
+        }
+        if (p_slot_index === null) {
+            db.updateRows('appointment_reschedules', row => row.id === p_reschedule_id, { status: 'declined' });
+            return null;
+        }
+        const slot = target.slots[p_slot_index];
+        db.updateRows('appointment_reschedules', row => row.id === p_reschedule_id, {
+            status: 'accepted',
+            accepted_slot: slot,
+        });
+        db.updateRows('leads', row => row.id === target.lead_id, {
+            appointment_date: slot.date,
+            appointment_time: `${slot.date}T${slot.time}:00`,
+            appointment_status: 'scheduled',
+        });
+        return null;
+    });
+}
+
+function seedPending() {
+    fakeSupabase.seed('appointment_reschedules', [{ ...proposal() }]);
+}
+
+describe('Reschedules', () => {
+    beforeEach(async () => {
+        fakeSupabase.reset();
+        await cache.clear();
+        registerRescheduleRpcs();
+    });
+
+    it('valida motivo, cantidad, fechas futuras y horarios repetidos', () => {
+        const now = new Date(2030, 4, 10, 12, 0);
+
+        expect(validateRescheduleProposal({ slots: [SLOT_B], reason: '  ' }, now).error?.code).toBe('MISSING_RESCHEDULE_REASON');
+        expect(validateRescheduleProposal({ slots: [], reason: 'Viaje' }, now).error?.code).toBe('MISSING_RESCHEDULE_SLOTS');
+        expect(validateRescheduleProposal({ slots: [SLOT_A], reason: 'Viaje' }, now).error?.code).toBe('PAST_RESCHEDULE_SLOT');
+        expect(validateRescheduleProposal({ slots: [SLOT_B, SLOT_B], reason: 'Viaje' }, now).error?.code).toBe('DUPLICATE_RESCHEDULE_SLOT');
+        expect(validateRescheduleProposal({ slots: [{ date: '2030-05-12', time: '25:00' }], reason: 'Viaje' }, now).error?.code)
+            .toBe('INVALID_RESCHEDULE_SLOT');
+        expect(validateRescheduleProposal({ slots: [SLOT_B], reason: 'Viaje' }, now).valid).toBe(true);
+    });
+
+    it('el estado de la negociación respeta el turno y el límite', () => {
+        const accepted = [1, 2, 3].map(n => proposal({ id: `r${n}`, status: 'accepted' }));
+
+        expect(getRescheduleState([proposal()], CLIENT_ID)).toMatchObject({
+            awaitingResponse: true, canPropose: false, canCounter: true, remaining: MAX_RESCHEDULES,
+        });
+        expect(getRescheduleState([proposal({ proposed_by: CLIENT_ID })], CLIENT_ID)).toMatchObject({
+            awaitingResponse: false, canPropose: false, canCounter: false,
+        });
+        expect(getRescheduleState(accepted, CLIENT_ID)).toMatchObject({ used: 3, remaining: 0, canPropose: false });
+        expect(getLeadAppointmentSlot({ appointment_date: '2030-05-08', appointment_time: '09:30:00' }))
+            .toEqual({ date: '2030-05-08', time: '09:30' });
+    });
+
+    it('proponer guarda los horarios con la cita vigente', async () => {
+        fakeSupabase.seed('leads', [lead()]);
+
+        const id = await RescheduleService.proposeReschedule({
+            leadId: LEAD_ID,
+            clientId: CLIENT_ID,
+            slots: [SLOT_A, SLOT_B],
+            reason: ' Voy a estar de viaje ',
+        });
+
+        const [saved] = await RescheduleService.getReschedules(LEAD_ID);
+        expect(saved).toMatchObject({
+            id,
+            status: 'pending',
+            reason: 'Voy a estar de viaje',
+            slots: [SLOT_A, SLOT_B],
+            previous_slot: { date: '2030-05-08', time: '12:00' },
+        });
+        await expect(RescheduleService.proposeReschedule({
+            leadId: LEAD_ID, clientId: CLIENT_ID, slots: [SLOT_B], reason: 'Otra vez',
+        })).rejects.toMatchObject({ kind: 'conflict', code: 'reschedule.pending_exists' });
+    });
+
+    it('aceptar un horario mueve la cita, la muestra en el calendario y queda en el historial', async () => {
+        fakeSupabase.seed('leads', [lead()]);
+        seedPending();
+
+        await RescheduleService.respondToReschedule({
+            leadId: LEAD_ID, clientId: CLIENT_ID, rescheduleId: RESCHEDULE_ID, slotIndex: 1,
+        });
+
+        expect(fakeSupabase.getRow('leads', LEAD_ID)).toMatchObject({
+            appointment_date: '2030-05-11',
+            appointment_time: '2030-05-11T16:00:00',
+            appointment_status: 'scheduled',
+        });
+        const [changed] = await LeadEventsService.getLeadEvents(LEAD_ID);
+        expect(changed).toMatchObject({
+            type: 'appointment_changed',
+            actor_id: CLIENT_ID,
+            payload: {
+                from: { date: '2030-05-08', time: '2030-05-08T12:00:00' },
+                to: { date: '2030-05-11', time: '2030-05-11T16:00:00' },
+            },
+        });
+
+        const [service] = await getClientScheduledServices(CLIENT_ID, new Date('2030-05-01T00:00:00Z'), new Date('2030-05-31T00:00:00Z'));
+        expect(service).toMatchObject({ id: LEAD_ID, appointment_date: '2030-05-11' });
+        expect(service.pending_reschedule).toBeUndefined();
+    });
+
+    it('un horario ilegible no corre el índice del que acepta el cliente', async () => {
+        fakeSupabase.seed('leads', [lead()]);
+        fakeSupabase.seed('appointment_reschedules', [{ ...proposal(), slots: [{ date: 'mañana' }, SLOT_B] }]);
+
+        const [pending] = await RescheduleService.getReschedules(LEAD_ID);
+        expect(pending.slots).toEqual([{ ...SLOT_B, index: 1 }]);
+
+        await expect(RescheduleService.respondToReschedule({
+            leadId: LEAD_ID, clientId: CLIENT_ID, rescheduleId: RESCHEDULE_ID, slotIndex: 0,
+        })).rejects.toMatchObject({ code: 'reschedule.invalid_slot' });
+
+        await RescheduleService.respondToReschedule({
+            leadId: LEAD_ID, clientId: CLIENT_ID, rescheduleId: RESCHEDULE_ID, slotIndex: pending.slots[0].index,
+        });
+        expect(fakeSupabase.getRow('leads', LEAD_ID)?.appointment_date).toBe('2030-05-11');
+    });
+
+    it('contraproponer cierra la propuesta del profesional y el calendario muestra la nueva', async () => {
+        fakeSupabase.seed('leads', [lead()]);
+        seedPending();
+
+        await RescheduleService.proposeReschedule({
+            leadId: LEAD_ID,
+            clientId: CLIENT_ID,
+            slots: [{ date: '2030-05-12', time: '08:00' }],
+            reason: 'Esos días trabajo',
+            counterTo: RESCHEDULE_ID,
+        });
+
+        const reschedules = await RescheduleService.getReschedules(LEAD_ID);
+        expect(reschedules.map(r => [r.proposer_role, r.status, r.counter_to])).toEqual(
+            expect.arrayContaining([
+                ['professional', 'countered', null],
+                ['client', 'pending', RESCHEDULE_ID],
+            ])
+        );
+
+        const [service] = await getClientScheduledServices(CLIENT_ID, new Date('2030-05-01T00:00:00Z'), new Date('2030-05-31T00:00:00Z'));
+        expect(service.pending_reschedule).toMatchObject({ proposed_by: CLIENT_ID, reason: 'Esos días trabajo' });
+    });
+
+    it('no permite más cambios al llegar al límite ni reprogramar leads sin cita activa', async () => {
+        fakeSupabase.seed('leads', [lead()]);
+        fakeSupabase.seed('appointment_reschedules', [1, 2, 3].map(n => ({
+            ...proposal(),
+            id: `8888888${n}-8888-4888-8888-888888888888`,
+            status: 'accepted',
+        })));
+
+        await expect(RescheduleService.proposeReschedule({
+            leadId: LEAD_ID, clientId: CLIENT_ID, slots: [SLOT_A], reason: 'Viaje',
+        })).rejects.toMatchObject({ kind: 'conflict', code: 'reschedule.limit_reached' });
+
+        fakeSupabase.reset();
+        fakeSupabase.seed('leads', [lead({ status: 'completed', estado: 'completado' })]);
+        await expect(RescheduleService.proposeReschedule({
+            leadId: LEAD_ID, clientId: CLIENT_ID, slots: [SLOT_A], reason: 'Viaje',
+        })).rejects.toMatchObject({ kind: 'transition', code: 'reschedule.not_allowed' });
+    });
+
+    it('sin la tabla el lead no muestra negociación', async () => {
+        fakeSupabase.failNext('appointment_reschedules', 'select', pgError('42P01', 'relation "public.appointment_reschedules" does not exist'));
+
+        await expect(RescheduleService.getReschedules(LEAD_ID)).resolves.toEqual([]);
+    });
+});
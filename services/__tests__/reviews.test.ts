@@ -0,0 +1,134 @@
+import { fakeSupabase, pgError } from '@/test/fakeSupabase';
+import { ReviewsService } from '../reviews';
+import { cache } from '../cache';
+import { outbox } from '../outbox';
+
+const CLIENT_ID = '11111111-1111-4111-8111-111111111111';
+const PRO_ID = '33333333-3333-4333-8333-333333333333';
+const LEAD_ID = '55555555-5555-4555-8555-555555555555';
+const SECOND_LEAD_ID = '66666666-6666-4666-8666-666666666666';
+
+const REVIEW = {
+    lead_id: LEAD_ID,
+    client_id: CLIENT_ID,
+    professional_id: PRO_ID,
+    rating: 5,
+    comment: 'Excelente trabajo',
+};
+
+describe('ReviewsService', () => {
+    beforeEach(async () => {
+        // Una reseña por lead (SCHEMA_REVIEWS.sql)
+        fakeSupabase.reset({ uniqueColumns: { reviews: ['lead_id'] } });
+        await cache.clear();
+        await outbox.clear();
+    });
+
+    afterAll(() => {
+        fakeSupabase.reset();
+        outbox.stop();
+    });
+
+    describe('getProfessionalReviews', () => {
+        it('incluye el nombre del cliente y ordena de la más reciente a la más antigua', async () => {
+            fakeSupabase.seed('profiles', [{ user_id: CLIENT_ID, full_name: 'Laura Cliente' }]);
+            fakeSupabase.seed('reviews', [
+                { ...REVIEW, id: 'r1', created_at: '2026-01-01T00:00:00Z' },
+                { ...REVIEW, id: 'r2', lead_id: SECOND_LEAD_ID, client_id: null, rating: 3, created_at: '2026-02-01T00:00:00Z' },
+            ]);
+
+            const reviews = await ReviewsService.getProfessionalReviews(PRO_ID);
+
+            expect(reviews.map(r => [r.id, r.client_name])).toEqual([
+                ['r2', 'Cliente de TulBox'],
+                ['r1', 'Laura Cliente'],
+            ]);
+        });
+
+        it('devuelve [] para un ID inválido o si la consulta falla', async () => {
+            await expect(ReviewsService.getProfessionalReviews('abc')).resolves.toEqual([]);
+
+            fakeSupabase.failNext('reviews', 'select', pgError('42P01', 'relation "reviews" does not exist'));
+            await expect(ReviewsService.getProfessionalReviews(PRO_ID)).resolves.toEqual([]);
+        });
+    });
+
+    describe('createReview', () => {
+        it('guarda la reseña e invalida el cache del profesional', async () => {
+            fakeSupabase.seed('reviews', [{ ...REVIEW, id: 'r1', lead_id: SECOND_LEAD_ID, rating: 3 }]);
+            expect(await ReviewsService.getProfessionalAverageRating(PRO_ID)).toBe(3);
+
+            const result = await ReviewsService.createReview(REVIEW);
+
+            expect(result).toMatchObject({ success: true, data: { lead_id: LEAD_ID, rating: 5 } });
+            expect(await ReviewsService.getProfessionalAverageRating(PRO_ID)).toBe(4);
+        });
+
+        it('un reintento para el mismo lead devuelve la reseña existente', async () => {
+            fakeSupabase.seed('reviews', [{ ...REVIEW, id: 'r1' }]);
+
+            const result = await ReviewsService.createReview({ ...REVIEW, comment: 'Duplicada' });
+
+            expect(result).toMatchObject({ success: true, data: { id: 'r1', comment: 'Excelente trabajo' } });
+            expect(fakeSupabase.getTable('reviews')).toHaveLength(1);
+        });
+
+        it('sin conexión queda en cola', async () => {
+            fakeSupabase.goOffline();
+
+            await expect(ReviewsService.createReview(REVIEW)).resolves.toEqual({ success: true, queued: true });
+            expect(fakeSupabase.getTable('reviews')).toHaveLength(0);
+
+            fakeSupabase.goOnline();
+            await outbox.flush();
+            expect(fakeSupabase.getTable('reviews')).toHaveLength(1);
+        });
+
+        it('devuelve el error si el servidor la rechaza', async () => {
+            fakeSupabase.failNext('reviews', 'insert', pgError('23514', 'new row violates check constraint "reviews_rating_check"'));
+
+            const result = await ReviewsService.createReview({ ...REVIEW, rating: 9 });
+
+            expect(result.success).toBe(false);
+            expect(result.error).toMatchObject({ kind: 'validation', sourceCode: '23514' });
+        });
+    });
+
+    describe('getReviewByLeadId', () => {
+        it('devuelve null si el lead no tiene reseña', async () => {
+            await expect(ReviewsService.getReviewByLeadId(LEAD_ID)).resolves.toBeNull();
+        });
+    });
+
+    describe('updateReview', () => {
+        it('actualiza calificación y comentario', async () => {
+            fakeSupabase.seed('reviews', [{ ...REVIEW, id: 'r1' }]);
+
+            const result = await ReviewsService.updateReview('r1', { rating: 4, comment: 'Muy bien' });
+
+            expect(result).toMatchObject({ success: true, data: { rating: 4, comment: 'Muy bien' } });
+            expect(fakeSupabase.getRow('reviews', 'r1')?.rating).toBe(4);
+        });
+
+        it('falla si la reseña no existe', async () => {
+            const result = await ReviewsService.updateReview('r1', { rating: 4, comment: 'Muy bien' });
+
+            expect(result.success).toBe(false);
+        });
+    });
+
+    describe('getProfessionalAverageRating', () => {
+        it('redondea a un decimal y devuelve 0 sin reseñas', async () => {
+            await expect(ReviewsService.getProfessionalAverageRating(PRO_ID)).resolves.toBe(0);
+
+            cache.invalidate(`reviews:professional:${PRO_ID}`);
+            fakeSupabase.seed('reviews', [
+                { ...REVIEW, id: 'r1', rating: 5 },
+                { ...REVIEW, id: 'r2', lead_id: SECOND_LEAD_ID, rating: 4 },
+                { ...REVIEW, id: 'r3', lead_id: 'lead-3', rating: 4 },
+            ]);
+
+            await expect(ReviewsService.getProfessionalAverageRating(PRO_ID)).resolves.toBe(4.3);
+        });
+    });
+});
@@ -0,0 +1,123 @@
+import { fakeSupabase } from '@/test/fakeSupabase';
+import {
+    getClientAppointments,
+    getClientScheduledServices,
+    formatTimeRange,
+    calculateDuration,
+} from '../scheduling';
+
+const CLIENT_ID = '11111111-1111-4111-8111-111111111111';
+const OTHER_CLIENT_ID = '22222222-2222-4222-8222-222222222222';
+const PRO_ID = '33333333-3333-4333-8333-333333333333';
+
+const RANGE_START = new Date('2026-03-01T00:00:00Z');
+const RANGE_END = new Date('2026-03-31T00:00:00Z');
+
+function lead(overrides: Record<string, any>) {
+    return {
+        id: overrides.id,
+        cliente_id: CLIENT_ID,
+        servicio_solicitado: 'Instalación de lámpara',
+        servicio: 'electricidad',
+        descripcion_proyecto: 'Lámpara en sala',
+        ubicacion_direccion: 'Av. Reforma 100',
+        status: 'accepted',
+        estado: 'asignado',
+        appointment_status: 'scheduled',
+        appointment_time: null,
+        professional_id: null,
+        profesional_asignado_id: null,
+        agreed_price: null,
+        price: 500,
+        updated_at: '2026-02-20T10:00:00Z',
+        ...overrides,
+    };
+}
+
+describe('scheduling', () => {
+    beforeEach(() => {
+        fakeSupabase.reset();
+    });
+
+    describe('getClientAppointments', () => {
+        it('devuelve solo las citas del cliente dentro del rango, ordenadas por fecha', async () => {
+            fakeSupabase.seed('leads', [
+                lead({ id: 'lead-2', appointment_date: '2026-03-20', professional_id: PRO_ID, agreed_price: '1160' }),
+                lead({ id: 'lead-1', appointment_date: '2026-03-05' }),
+                lead({ id: 'lead-out', appointment_date: '2026-04-02' }),
+                lead({ id: 'lead-none', appointment_date: null }),
+                lead({ id: 'lead-other', cliente_id: OTHER_CLIENT_ID, appointment_date: '2026-03-10' }),
+            ]);
+            fakeSupabase.seed('profiles', [{ user_id: PRO_ID, full_name: 'Ana Electricista' }]);
+
+            const appointments = await getClientAppointments(CLIENT_ID, RANGE_START, RANGE_END);
+
+            expect(appointments.map(a => a.lead_id)).toEqual(['lead-1', 'lead-2']);
+            expect(appointments[0]).toMatchObject({
+                professional_name: 'Profesional',
+                price: 500,
+                service_name: 'Instalación de lámpara',
+            });
+            expect(appointments[1]).toMatchObject({
+                professional_id: PRO_ID,
+                professional_name: 'Ana Electricista',
+                price: 1160,
+            });
+        });
+
+        it('consulta los perfiles en una sola llamada', async () => {
+            fakeSupabase.seed('leads', [
+                lead({ id: 'lead-1', appointment_date: '2026-03-05', professional_id: PRO_ID }),
+                lead({ id: 'lead-2', appointment_date: '2026-03-06', profesional_asignado_id: PRO_ID }),
+            ]);
+            fakeSupabase.seed('profiles', [{ user_id: PRO_ID, full_name: 'Ana Electricista' }]);
+
+            await getClientAppointments(CLIENT_ID, RANGE_START, RANGE_END);
+
+            expect(fakeSupabase.queries.filter(q => q.target === 'profiles')).toHaveLength(1);
+        });
+
+        it('devuelve [] si la consulta falla', async () => {
+            fakeSupabase.failNext('leads', 'select', { code: '42501', message: 'permission denied' });
+
+            await expect(getClientAppointments(CLIENT_ID, RANGE_START, RANGE_END)).resolves.toEqual([]);
+        });
+    });
+
+    describe('getClientScheduledServices', () => {
+        it('agrega el profesional asignado (moderno o legacy)', async () => {
+            fakeSupabase.seed('leads', [
+                lead({ id: 'lead-1', appointment_date: '2026-03-05', profesional_asignado_id: PRO_ID }),
+            ]);
+            fakeSupabase.seed('profiles', [{ user_id: PRO_ID, full_name: 'Ana Electricista' }]);
+
+            const [service] = await getClientScheduledServices(CLIENT_ID, RANGE_START, RANGE_END);
+
+            expect(service.professional).toEqual({ full_name: 'Ana Electricista', user_id: PRO_ID });
+        });
+
+        it('no falla si la consulta de perfiles falla', async () => {
+            fakeSupabase.seed('leads', [
+                lead({ id: 'lead-1', appointment_date: '2026-03-05', professional_id: PRO_ID }),
+            ]);
+            fakeSupabase.failNext('profiles', 'select', { code: '42501', message: 'permission denied' });
+
+            const services = await getClientScheduledServices(CLIENT_ID, RANGE_START, RANGE_END);
+
+            expect(services).toHaveLength(1);
+            expect(services[0].professional).toBeUndefined();
+        });
+    });
+
+    describe('formato', () => {
+        it('calcula la duración en horas', () => {
+            expect(calculateDuration('2026-03-05T10:00:00Z', '2026-03-05T13:00:00Z')).toBe('3h');
+            expect(calculateDuration('2026-03-05T10:00:00Z')).toBe('');
+        });
+
+        it('formatea un rango de horas', () => {
+            const range = formatTimeRange('2026-03-05T10:00:00Z', '2026-03-05T13:00:00Z');
+            expect(range).toContain(' - ');
+        });
+    });
+});
@@ -0,0 +1,237 @@
+import { fakeSupabase, pgError } from '@/test/fakeSupabase';
+import {
+    ServicePlan,
+    ServicePlansService,
+    describePlanSchedule,
+    getNextOccurrenceAfter,
+    getOccurrenceDate,
+    getUpcomingOccurrences,
+    toServicePlan,
+} from '../servicePlans';
+import { cache } from '../cache';
+
+const CLIENT_ID = '11111111-1111-4111-8111-111111111111';
+const PRO_ID = '33333333-3333-4333-8333-333333333333';
+const LEAD_ID = '55555555-5555-4555-8555-555555555555';
+const PLAN_ID = '66666666-6666-4666-8666-666666666666';
+
+const NOW = new Date(2030, 0, 10, 12, 0);
+
+function lead(overrides: Record<string, any> = {}) {
+    return {
+        id: LEAD_ID,
+        cliente_id: CLIENT_ID,
+        servicio_solicitado: 'Mantenimiento de minisplit',
+        servicio: 'aire-acondicionado',
+        descripcion_proyecto: 'Limpieza de 2 equipos',
+        ubicacion_direccion: 'Av. Reforma 100',
+        ubicacion_lat: 19.43,
+        ubicacion_lng: -99.13,
+        whatsapp: '5512345678',
+        status: 'completed',
+        estado: 'completado',
+        professional_id: null,
+        profesional_asignado_id: PRO_ID,
+        agreed_price: 1160,
+        price: 1000,
+        ...overrides,
+    };
+}
+
+function planRow(overrides: Record<string, any> = {}) {
+    return {
+        id: PLAN_ID,
+        client_id: CLIENT_ID,
+        source_lead_id: LEAD_ID,
+        service_name: 'Mantenimiento de minisplit',
+        discipline: 'aire-acondicionado',
+        description: 'Limpieza de 2 equipos',
+        address: 'Av. Reforma 100',
+        lat: null,
+        lng: null,
+        whatsapp: null,
+        price: 1160,
+        preferred_professional_id: PRO_ID,
+        frequency_unit: 'month',
+        frequency_interval: 1,
+        time_window: 'morning',
+        anchor_date: '2030-01-31',
+        next_occurrence: '2030-01-31',
+        lead_days_ahead: 7,
+        status: 'active',
+        last_generated_at: null,
+        created_at: '2030-01-01T10:00:00Z',
+        updated_at: null,
+        ...overrides,
+    };
+}
+
+function plan(overrides: Record<string, any> = {}): ServicePlan {
+    return toServicePlan(planRow(overrides));
+}
+
+// Réplica en memoria de skip_service_plan_occurrence (SCHEMA_PLANES_MANTENIMIENTO.sql)
+function registerSkipRpc() {
+    fakeSupabase.registerRpc('skip_service_plan_occurrence', ({ p_plan_id }, db) => {
+        const target = db.rows('service_plans').find(row => row.id === p_plan_id)!;
+        db.insertRow('service_plan_occurrences', {
+            plan_id: p_plan_id,
+            occurrence_date: target.next_occurrence,
+            status: 'skipped',
+        });
+        const next = getNextOccurrenceAfter(
+            target.anchor_date,
+            { unit: target.frequency_unit, interval: target.frequency_interval },
+            target.next_occurrence
+        );
+        db.updateRows('service_plans', row => row.id === p_plan_id, { next_occurrence: next });
+        return next;
+    });
+}
+
+// Réplicas en memoria de create_service_plan y resume_service_plan (SCHEMA_PLANES_MANTENIMIENTO.sql)
+function registerPlanRpcs(today: string) {
+    fakeSupabase.registerRpc('create_service_plan', (args, db) => {
+        const source = db.rows('leads').find(row => row.id === args.p_lead_id)!;
+        return db.insertRow('service_plans', planRow({
+            id: undefined,
+            source_lead_id: source.id,
+            service_name: source.servicio_solicitado,
+            discipline: source.servicio,
+            description: source.descripcion_proyecto,
+            address: source.ubicacion_direccion,
+            price: source.agreed_price ?? source.price,
+            preferred_professional_id: source.professional_id || source.profesional_asignado_id,
+            frequency_unit: args.p_frequency_unit,
+            frequency_interval: args.p_frequency_interval,
+            time_window: args.p_time_window,
+            anchor_date: args.p_first_date,
+            next_occurrence: args.p_first_date,
+        }));
+    });
+    fakeSupabase.registerRpc('resume_service_plan', ({ p_plan_id }, db) => {
+        const target = db.rows('service_plans').find(row => row.id === p_plan_id)!;
+        const next = target.next_occurrence > today
+            ? target.next_occurrence
+            : getNextOccurrenceAfter(target.anchor_date, { unit: target.frequency_unit, interval: target.frequency_interval }, today);
+        db.updateRows('service_plans', row => row.id === p_plan_id, { status: 'active', next_occurrence: next });
+        return db.rows('service_plans').find(row => row.id === p_plan_id);
+    });
+}
+
+describe('ServicePlans', () => {
+    beforeEach(async () => {
+        fakeSupabase.reset();
+        await cache.clear();
+    });
+
+    it('calcula las visitas desde la fecha ancla sin recorrer el día en meses cortos', () => {
+        const monthly = { unit: 'month' as const, interval: 1 };
+        expect([0, 1, 2, 3].map(index => getOccurrenceDate('2030-01-31', monthly, index)))
+            .toEqual(['2030-01-31', '2030-02-28', '2030-03-31', '2030-04-30']);
+
+        const biweekly = { unit: 'week' as const, interval: 2 };
+        expect(getOccurrenceDate('2030-01-08', biweekly, 2)).toBe('2030-02-05');
+        expect(getNextOccurrenceAfter('2030-01-08', biweekly, '2030-01-22')).toBe('2030-02-05');
+    });
+
+    it('lista las visitas sin solicitud de los planes activos dentro del rango', () => {
+        const weekly = plan({ id: 'semanal', frequency_unit: 'week', anchor_date: '2030-01-08', next_occurrence: '2030-01-15' });
+        const paused = plan({ id: 'pausado', status: 'paused', next_occurrence: '2030-01-16' });
+        const monthly = plan({ id: 'mensual', anchor_date: '2029-12-31', next_occurrence: '2030-01-31' });
+
+        const occurrences = getUpcomingOccurrences([weekly, paused, monthly], new Date(2030, 0, 20), new Date(2030, 1, 5));
+
+        expect(occurrences.map(o => [o.plan.id, o.date])).toEqual([
+            ['semanal', '2030-01-22'],
+            ['semanal', '2030-01-29'],
+            ['mensual', '2030-01-31'],
+            ['semanal', '2030-02-05'],
+        ]);
+        expect(describePlanSchedule(monthly)).toBe('Cada mes · día 31 · Mañana (9 a 13 h)');
+    });
+
+    it('crea el plan con el servicio, la dirección y el profesional del lead completado', async () => {
+        registerPlanRpcs('2030-01-10');
+        fakeSupabase.seed('leads', [lead()]);
+
+        const created = await ServicePlansService.createPlanFromLead({
+            leadId: LEAD_ID,
+            clientId: CLIENT_ID,
+            frequency: { unit: 'month', interval: 3 },
+            timeWindow: 'afternoon',
+            firstDate: '2030-02-15',
+        }, NOW);
+
+        expect(created).toMatchObject({
+            service_name: 'Mantenimiento de minisplit',
+            address: 'Av. Reforma 100',
+            price: 1160,
+            preferred_professional_id: PRO_ID,
+            frequency: { unit: 'month', interval: 3 },
+            time_window: 'afternoon',
+            anchor_date: '2030-02-15',
+            next_occurrence: '2030-02-15',
+            status: 'active',
+        });
+        await expect(ServicePlansService.getPlans(CLIENT_ID)).resolves.toHaveLength(1);
+    });
+
+    it('solo programa servicios completados y a partir de mañana', async () => {
+        fakeSupabase.seed('leads', [lead({ status: 'accepted', estado: 'asignado' })]);
+        const params = {
+            leadId: LEAD_ID,
+            clientId: CLIENT_ID,
+            frequency: { unit: 'month' as const, interval: 1 },
+            timeWindow: 'morning' as const,
+            firstDate: '2030-02-01',
+        };
+
+        await expect(ServicePlansService.createPlanFromLead(params, NOW))
+            .rejects.toMatchObject({ kind: 'transition', code: 'service_plan.lead_not_completed' });
+        await expect(ServicePlansService.createPlanFromLead({ ...params, firstDate: '2030-01-10' }, NOW))
+            .rejects.toMatchObject({ kind: 'validation', code: 'service_plan.invalid_first_date' });
+        await expect(ServicePlansService.createPlanFromLead({ ...params, frequency: { unit: 'week', interval: 0 } }, NOW))
+            .rejects.toMatchObject({ kind: 'validation' });
+    });
+
+    it('saltar la próxima visita la deja registrada y avanza a la siguiente', async () => {
+        registerSkipRpc();
+        fakeSupabase.seed('service_plans', [planRow()]);
+
+        const next = await ServicePlansService.skipNextOccurrence(plan(), CLIENT_ID);
+
+        expect(next).toBe('2030-02-28');
+        expect(fakeSupabase.getRow('service_plans', PLAN_ID)).toMatchObject({ next_occurrence: '2030-02-28' });
+        expect(fakeSupabase.getTable('service_plan_occurrences')).toEqual([
+            expect.objectContaining({ plan_id: PLAN_ID, occurrence_date: '2030-01-31', status: 'skipped' }),
+        ]);
+    });
+
+    it('reanudar no recupera visitas pasadas y cambiar la frecuencia conserva la próxima visita', async () => {
+        registerPlanRpcs('2030-01-10');
+        fakeSupabase.seed('service_plans', [planRow({ status: 'paused', next_occurrence: '2029-12-31', anchor_date: '2029-10-31' })]);
+
+        const resumed = await ServicePlansService.resumePlan(plan({ status: 'paused', next_occurrence: '2029-12-31', anchor_date: '2029-10-31' }), CLIENT_ID);
+        expect(resumed).toMatchObject({ status: 'active', next_occurrence: '2030-01-31' });
+
+        const changed = await ServicePlansService.changeFrequency(resumed, CLIENT_ID, { unit: 'week', interval: 2 });
+        expect(changed).toMatchObject({
+            frequency: { unit: 'week', interval: 2 },
+            anchor_date: '2030-01-31',
+            next_occurrence: '2030-01-31',
+        });
+
+        const cancelled = await ServicePlansService.cancelPlan(changed, CLIENT_ID);
+        await expect(ServicePlansService.pausePlan(cancelled, CLIENT_ID))
+            .rejects.toMatchObject({ kind: 'transition', code: 'service_plan.cancelled' });
+        await expect(ServicePlansService.getPlans(CLIENT_ID)).resolves.toEqual([]);
+    });
+
+    it('sin la migración no hay planes y la generación de visitas no falla', async () => {
+        fakeSupabase.failNext('service_plans', 'select', pgError('42P01', 'relation "public.service_plans" does not exist'));
+
+        await expect(ServicePlansService.getPlans(CLIENT_ID)).resolves.toEqual([]);
+        await expect(ServicePlansService.generateDueLeads(CLIENT_ID)).resolves.toBe(0);
+    });
+});
@@ -0,0 +1,130 @@
+import {
+    validateUUID,
+    validateCoordinates,
+    validateJobStatus,
+    validatePhoneNumber,
+    validatePrice,
+    validateRFC,
+    withTimeout,
+} from '../validation';
+
+const VALID_UUID = '3f2b8c1e-9a4d-4e6f-8b7a-1c2d3e4f5a6b';
+
+describe('validateUUID', () => {
+    it('acepta un UUID v4', () => {
+        expect(validateUUID(VALID_UUID)).toEqual({ valid: true });
+    });
+
+    it('rechaza un ID vacío', () => {
+        expect(validateUUID(undefined).error?.code).toBe('MISSING_ID');
+        expect(validateUUID('').error?.code).toBe('MISSING_ID');
+    });
+
+    it('rechaza formatos que no son UUID v4', () => {
+        expect(validateUUID('123').error?.code).toBe('INVALID_UUID_FORMAT');
+        // Versión 1 en el tercer grupo
+        expect(validateUUID('3f2b8c1e-9a4d-1e6f-8b7a-1c2d3e4f5a6b').valid).toBe(false);
+    });
+});
+
+describe('validateCoordinates', () => {
+    it('acepta coordenadas dentro de rango', () => {
+        expect(validateCoordinates(19.4326, -99.1332).valid).toBe(true);
+    });
+
+    it('distingue faltantes, NaN y fuera de rango', () => {
+        expect(validateCoordinates(null, -99).error?.code).toBe('MISSING_COORDINATES');
+        expect(validateCoordinates(NaN, -99).error?.code).toBe('NAN_COORDINATES');
+        expect(validateCoordinates(91, 0).error?.code).toBe('INVALID_LATITUDE');
+        expect(validateCoordinates(0, -181).error?.code).toBe('INVALID_LONGITUDE');
+    });
+
+    it('acepta los límites exactos', () => {
+        expect(validateCoordinates(-90, 180).valid).toBe(true);
+    });
+});
+
+describe('validateJobStatus', () => {
+    it('acepta estados modernos y legacy', () => {
+        expect(validateJobStatus('pending').valid).toBe(true);
+        expect(validateJobStatus('nuevo').valid).toBe(true);
+    });
+
+    it('rechaza estados desconocidos', () => {
+        expect(validateJobStatus('archivado').error?.code).toBe('INVALID_STATUS');
+        expect(validateJobStatus(null).error?.code).toBe('MISSING_STATUS');
+    });
+
+    it('respeta la lista de estados recibida', () => {
+        expect(validateJobStatus('pending', ['completed']).valid).toBe(false);
+    });
+});
+
+describe('validatePhoneNumber', () => {
+    it('ignora espacios y símbolos al contar dígitos', () => {
+        expect(validatePhoneNumber('+52 55 1234 5678').valid).toBe(true);
+        expect(validatePhoneNumber('(55) 1234-5678').valid).toBe(true);
+    });
+
+    it('exige al menos 10 dígitos', () => {
+        expect(validatePhoneNumber('55 1234 567').error?.code).toBe('INVALID_PHONE_LENGTH');
+        expect(validatePhoneNumber('').error?.code).toBe('MISSING_PHONE');
+    });
+});
+
+describe('validatePrice', () => {
+    it('acepta cero y positivos', () => {
+        expect(validatePrice(0).valid).toBe(true);
+        expect(validatePrice(1250.5).valid).toBe(true);
+    });
+
+    it('rechaza faltantes, NaN y negativos', () => {
+        expect(validatePrice(undefined).error?.code).toBe('MISSING_PRICE');
+        expect(validatePrice(NaN).error?.code).toBe('NAN_PRICE');
+        expect(validatePrice(-1).error?.code).toBe('NEGATIVE_PRICE');
+    });
+});
+
+describe('validateRFC', () => {
+    it('acepta RFC de persona moral, física y genéricos', () => {
+        expect(validateRFC('EKU9003173C9')).toEqual({ valid: true });
+        expect(validateRFC('gode-561231-gr8')).toEqual({ valid: true });
+        expect(validateRFC('XAXX010101000')).toEqual({ valid: true });
+    });
+
+    it('distingue formato, fecha y dígito verificador', () => {
+        expect(validateRFC('').error?.code).toBe('MISSING_RFC');
+        expect(validateRFC('EKU90031').error?.code).toBe('INVALID_RFC_FORMAT');
+        expect(validateRFC('EKU9013173C9').error?.code).toBe('INVALID_RFC_DATE');
+        expect(validateRFC('EKU9003173C8').error?.code).toBe('INVALID_RFC_CHECKSUM');
+    });
+});
+
+describe('withTimeout', () => {
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('devuelve la respuesta de Supabase si llega a tiempo', async () => {
+        const result = await withTimeout(Promise.resolve({ data: [1], error: null }), 1000);
+        expect(result).toEqual({ data: [1], error: null });
+    });
+
+    it('devuelve un error TIMEOUT en formato Supabase', async () => {
+        jest.useFakeTimers();
+        const never = new Promise<{ data: any; error: any }>(() => {});
+        const pending = withTimeout(never, 5000, 'Tardó demasiado');
+        jest.advanceTimersByTime(5000);
+
+        await expect(pending).resolves.toEqual({
+            data: null,
+            error: { message: 'Tardó demasiado', code: 'TIMEOUT' },
+        });
+    });
+
+    it('convierte una promesa rechazada en { data: null, error }', async () => {
+        const failing = Promise.reject(Object.assign(new Error('boom'), { code: 'X1' }));
+        const result = await withTimeout(failing, 1000);
+        expect(result).toEqual({ data: null, error: { message: 'boom', code: 'X1' } });
+    });
+});
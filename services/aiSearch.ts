@@ -1,7 +1,9 @@
 import { supabase } from '@/lib/supabase';
-import { ServiceItem } from './services';
+import { ServiceItem, toServiceItem } from './services';
+import { ServiceCatalogRepository, ServiceCatalogRow } from './repositories/serviceCatalog';
 import { findServiceByMapping, findServiceBySynonyms, ServiceMapping } from './serviceMapping';
 import { EmbeddingService } from './ml/embeddings';
+import { PriceEstimate, PriceEstimateLocation, PriceEstimateService } from './priceEstimates';
 
 export interface AISearchResult {
     detected_service: ServiceItem | null;
@@ -14,6 +16,50 @@ export interface AISearchResult {
         descripcion?: string;
         urgencia?: 'baja' | 'media' | 'alta';
         precio_estimado?: { min: number; max: number };
+        /** Rango de lo que pagaron otros clientes (solo si hay historial suficiente) */
+        estimacion_precio?: PriceEstimate;
+    };
+}
+
+/** Columnas del catálogo que se envían a Gemini */
+type CatalogCandidate = Pick<ServiceCatalogRow,
+    'id' | 'service_name' | 'discipline' | 'min_price' | 'max_price' | 'description' | 'completed_count'
+>;
+
+/** Servicio tal como lo devuelve la API route de TulBoxapp-B */
+type APIRouteService = Pick<ServiceCatalogRow, 'id' | 'service_name' | 'discipline' | 'min_price'> & {
+    max_price?: number | null;
+};
+
+/** JSON que el prompt le pide a Gemini */
+interface GeminiServiceMatch {
+    service_name?: string;
+    discipline?: string;
+    confidence?: number;
+    reasoning?: string;
+    matched_keywords?: string[];
+    urgency?: 'baja' | 'media' | 'alta';
+    price_estimate?: { min: number; max: number };
+    alternatives?: string[];
+}
+
+/**
+ * Servicio detectado con precio fijo por servicio (capas de embeddings, Gemini y API route)
+ */
+function toMatchedService(
+    row: Pick<ServiceCatalogRow, 'id' | 'service_name' | 'discipline' | 'min_price'> &
+        Partial<Pick<ServiceCatalogRow, 'max_price' | 'description'>>
+): ServiceItem {
+    return {
+        id: row.id,
+        service_name: row.service_name,
+        discipline: row.discipline,
+        price_type: 'fixed',
+        min_price: row.min_price ?? 0,
+        max_price: row.max_price ?? undefined,
+        unit: 'servicio',
+        includes_materials: false,
+        description: row.description ?? undefined,
     };
 }
 
@@ -115,10 +161,49 @@ const URGENCY_KEYWORDS = {
  */
 export class AISearchService {
     /**
-     * Analizar descripción del problema usando Gemini API directamente o vía API route
+     * Analizar descripción del problema y estimar el precio con el historial de la zona
+     * `location` permite usar los precios pagados cerca del cliente
+     */
+    static async analyzeProblem(
+        problemDescription: string,
+        location?: PriceEstimateLocation | null
+    ): Promise<AISearchResult> {
+        const result = await this.detectService(problemDescription);
+        return this.withPriceHistory(result, location);
+    }
+
+    /**
+     * Reemplazar el precio estimado por el rango histórico cuando hay suficientes datos
+     */
+    private static async withPriceHistory(
+        result: AISearchResult,
+        location?: PriceEstimateLocation | null
+    ): Promise<AISearchResult> {
+        if (!result.detected_service) return result;
+
+        try {
+            const estimate = await PriceEstimateService.getEstimate(result.detected_service, location);
+            if (estimate.source !== 'history') return result;
+
+            return {
+                ...result,
+                pre_filled_data: {
+                    ...result.pre_filled_data,
+                    precio_estimado: { min: estimate.min, max: estimate.max },
+                    estimacion_precio: estimate,
+                },
+            };
+        } catch (error: any) {
+            console.log('[AISearchService] Historial de precios no disponible:', error?.message || error);
+            return result;
+        }
+    }
+
+    /**
+     * Detectar el servicio usando Gemini API directamente o vía API route
      * Con integración de Service Mapping para precisión máxima
      */
-    static async analyzeProblem(problemDescription: string): Promise<AISearchResult> {
+    private static async detectService(problemDescription: string): Promise<AISearchResult> {
         if (!problemDescription || problemDescription.trim().length < 5) {
             return {
                 detected_service: null,
@@ -136,30 +221,24 @@ export class AISearchService {
             console.log('[AISearchService] Service mapping encontrado:', mapping.service_name);
             
             // Buscar el servicio en la BD
-            const { data: mappedServices, error } = await supabase
-                .from('service_catalog')
-                .select('*')
+            const { data: mappedServices, error } = await ServiceCatalogRepository.queryActive()
                 .eq('service_name', mapping.service_name)
                 .eq('discipline', mapping.discipline)
-                .eq('is_active', true)
                 .limit(1);
 
             if (!error && mappedServices && mappedServices.length > 0) {
-                const mappedService = mappedServices[0] as ServiceItem;
+                const mappedService = toServiceItem(mappedServices[0]);
                 
                 // Obtener alternativas de la misma disciplina
-                const { data: alternatives } = await supabase
-                    .from('service_catalog')
-                    .select('*')
+                const { data: alternatives } = await ServiceCatalogRepository.queryActive()
                     .eq('discipline', mapping.discipline)
-                    .eq('is_active', true)
                     .neq('id', mappedService.id)
                     .order('completed_count', { ascending: false })
                     .limit(3);
 
                 return {
                     detected_service: mappedService,
-                    alternatives: (alternatives || []) as ServiceItem[],
+                    alternatives: (alternatives || []).map(toServiceItem),
                     confidence: mapping.confidence,
                     reasoning: `Detecté que necesitas "${mapping.service_name}" basado en tu descripción.`,
                     pre_filled_data: {
@@ -169,7 +248,7 @@ export class AISearchService {
                         urgencia: 'media' as const,
                         precio_estimado: {
                             min: mappedService.min_price || 0,
-                            max: mappedService.max_price || mappedService.min_price * 1.5 || 0,
+                            max: mappedService.max_price || (mappedService.min_price || 0) * 1.5 || 0,
                         },
                     },
                 };
@@ -184,42 +263,16 @@ export class AISearchService {
             );
             if (similar.length > 0 && similar[0].similarity >= 0.5) {
                 const top = similar[0];
-                const { data: fullService } = await supabase
-                    .from('service_catalog')
-                    .select('*')
+                const { data: fullService } = await ServiceCatalogRepository.queryActive()
                     .eq('id', top.service_id)
-                    .eq('is_active', true)
                     .single();
                 if (fullService) {
-                    const { data: alts } = await supabase
-                        .from('service_catalog')
-                        .select('*')
+                    const { data: alts } = await ServiceCatalogRepository.queryActive()
                         .eq('discipline', top.discipline)
-                        .eq('is_active', true)
                         .neq('id', top.service_id)
                         .limit(3);
-                    const detected: ServiceItem = {
-                        id: fullService.id,
-                        service_name: fullService.service_name,
-                        discipline: fullService.discipline,
-                        price_type: 'fixed',
-                        min_price: fullService.min_price,
-                        max_price: fullService.max_price ?? undefined,
-                        unit: 'servicio',
-                        includes_materials: false,
-                        description: fullService.description,
-                    } as ServiceItem;
-                    const alternativesList = (alts || []).map((s: any) => ({
-                        id: s.id,
-                        service_name: s.service_name,
-                        discipline: s.discipline,
-                        price_type: 'fixed' as const,
-                        min_price: s.min_price,
-                        max_price: s.max_price ?? null,
-                        unit: 'servicio' as const,
-                        includes_materials: false,
-                        description: s.description,
-                    })) as ServiceItem[];
+                    const detected = toMatchedService(fullService);
+                    const alternativesList = (alts || []).map(toMatchedService);
                     console.log('[AISearchService] Embeddings (Hugging Face):', top.service_name, 'similarity', top.similarity);
                     return {
                         detected_service: detected,
@@ -233,7 +286,7 @@ export class AISearchService {
                             urgencia: 'media',
                             precio_estimado: {
                                 min: fullService.min_price || 0,
-                                max: fullService.max_price || fullService.min_price * 1.5 || 0,
+                                max: fullService.max_price || (fullService.min_price || 0) * 1.5 || 0,
                             },
                         },
                     };
@@ -289,7 +342,7 @@ export class AISearchService {
         // 1. Obtener servicios de Supabase
         const { data: services, error: servicesError } = await supabase
             .from('service_catalog')
-            .select('id, service_name, discipline, min_price, max_price, description')
+            .select('id, service_name, discipline, min_price, max_price, description, completed_count')
             .eq('is_active', true)
             .order('completed_count', { ascending: false })
             .limit(50);
@@ -375,7 +428,7 @@ RESPONDE EN FORMATO JSON ESTRICTO (sin markdown, sin código, solo JSON):
         console.log('[AISearchService] Gemini response:', responseText);
 
         // 4. Parsear respuesta
-        let geminiResult: any;
+        let geminiResult: GeminiServiceMatch;
         try {
             const cleanedText = responseText.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
             geminiResult = JSON.parse(cleanedText);
@@ -396,8 +449,8 @@ RESPONDE EN FORMATO JSON ESTRICTO (sin markdown, sin código, solo JSON):
             detectedService = services.find((s) => {
                 const serviceNameLower = s.service_name.toLowerCase();
                 // Verificar si el nombre del servicio contiene palabras clave del query
-                const queryWords = queryLower.split(/\s+/).filter((w: string) => w.length > 3);
-                return queryWords.some((word: string) => serviceNameLower.includes(word)) &&
+                const queryWords = queryLower.split(/\s+/).filter((w) => w.length > 3);
+                return queryWords.some((word) => serviceNameLower.includes(word)) &&
                        s.discipline === geminiResult.discipline;
             });
         }
@@ -406,7 +459,7 @@ RESPONDE EN FORMATO JSON ESTRICTO (sin markdown, sin código, solo JSON):
         if (!detectedService) {
             const disciplineServices = services
                 .filter((s) => s.discipline === geminiResult.discipline)
-                .sort((a, b) => ((b as any).completed_count || 0) - ((a as any).completed_count || 0));
+                .sort((a, b) => (b.completed_count || 0) - (a.completed_count || 0));
             
             if (disciplineServices.length > 0) {
                 detectedService = disciplineServices[0];
@@ -446,33 +499,19 @@ RESPONDE EN FORMATO JSON ESTRICTO (sin markdown, sin código, solo JSON):
                 throw new Error(`API error: ${response.status}`);
             }
 
-        const result = await response.json();
+        const result: {
+            detected_service?: APIRouteService | null;
+            alternatives?: APIRouteService[];
+            confidence?: number;
+            reasoning?: string;
+            pre_filled_data?: AISearchResult['pre_filled_data'];
+        } = await response.json();
 
-        const detectedService: ServiceItem | null = result.detected_service
-            ? {
-                  id: result.detected_service.id,
-                  service_name: result.detected_service.service_name,
-                  discipline: result.detected_service.discipline,
-                  price_type: 'fixed' as const,
-                  min_price: result.detected_service.min_price,
-                  max_price: result.detected_service.max_price,
-                  unit: 'servicio',
-                  includes_materials: false,
-                  description: undefined,
-              }
-            : null;
-
-        const alternatives: ServiceItem[] = result.alternatives.map((alt: any) => ({
-            id: alt.id,
-            service_name: alt.service_name,
-            discipline: alt.discipline,
-            price_type: 'fixed' as const,
-            min_price: alt.min_price,
-            max_price: null,
-            unit: 'servicio',
-            includes_materials: false,
-            description: undefined,
-        }));
+        const detectedService = result.detected_service ? toMatchedService(result.detected_service) : null;
+
+        const alternatives = (result.alternatives || []).map((alt) =>
+            toMatchedService({ ...alt, max_price: null })
+        );
 
         return {
             detected_service: detectedService,
@@ -494,34 +533,15 @@ RESPONDE EN FORMATO JSON ESTRICTO (sin markdown, sin código, solo JSON):
      * Construir resultado final
      */
     private static buildResult(
-        detectedService: any,
-        alternatives: any[],
-        geminiResult: any,
+        detectedService: CatalogCandidate,
+        alternatives: CatalogCandidate[],
+        geminiResult: GeminiServiceMatch,
         problemDescription: string
     ): AISearchResult {
+        const minPrice = detectedService.min_price ?? 0;
         return {
-            detected_service: {
-                id: detectedService.id,
-                service_name: detectedService.service_name,
-                discipline: detectedService.discipline,
-                price_type: 'fixed' as const,
-                min_price: detectedService.min_price,
-                max_price: detectedService.max_price,
-                unit: 'servicio',
-                includes_materials: false,
-                description: undefined,
-            } as ServiceItem,
-            alternatives: alternatives.map((alt) => ({
-                id: alt.id,
-                service_name: alt.service_name,
-                discipline: alt.discipline,
-                price_type: 'fixed' as const,
-                min_price: alt.min_price,
-                max_price: alt.max_price,
-                unit: 'servicio',
-                includes_materials: false,
-                description: undefined,
-            })) as ServiceItem[],
+            detected_service: toMatchedService({ ...detectedService, description: null }),
+            alternatives: alternatives.map((alt) => toMatchedService({ ...alt, description: null })),
             confidence: geminiResult.confidence || 0.8,
             reasoning: geminiResult.reasoning || `Detecté que necesitas un servicio de ${detectedService.discipline}. "${detectedService.service_name}" es el más adecuado para tu problema.`,
             pre_filled_data: {
@@ -530,8 +550,8 @@ RESPONDE EN FORMATO JSON ESTRICTO (sin markdown, sin código, solo JSON):
                 descripcion: problemDescription,
                 urgencia: geminiResult.urgency || 'media',
                 precio_estimado: geminiResult.price_estimate || {
-                    min: detectedService.min_price,
-                    max: detectedService.max_price || detectedService.min_price * 1.5,
+                    min: minPrice,
+                    max: detectedService.max_price || minPrice * 1.5,
                 },
             },
         };
@@ -590,11 +610,8 @@ RESPONDE EN FORMATO JSON ESTRICTO (sin markdown, sin código, solo JSON):
         const confidence = Math.min(0.95, 0.5 + (score / 10)); // Normalizar a 0.5-0.95
 
         // 4. Buscar servicios en la disciplina detectada
-        const { data: services, error } = await supabase
-            .from('service_catalog')
-            .select('*')
+        const { data: services, error } = await ServiceCatalogRepository.queryActive()
             .eq('discipline', detectedDiscipline)
-            .eq('is_active', true)
             .order('completed_count', { ascending: false })
             .limit(10);
 
@@ -619,7 +636,7 @@ RESPONDE EN FORMATO JSON ESTRICTO (sin markdown, sin código, solo JSON):
         // 6. Estimar precio
         const estimatedPrice = {
             min: detectedService.min_price || 0,
-            max: detectedService.max_price || detectedService.min_price * 1.5 || 0,
+            max: detectedService.max_price || (detectedService.min_price || 0) * 1.5 || 0,
         };
 
         // 7. Generar reasoning
@@ -631,8 +648,8 @@ RESPONDE EN FORMATO JSON ESTRICTO (sin markdown, sin código, solo JSON):
         );
 
         return {
-            detected_service: detectedService as ServiceItem,
-            alternatives: alternatives as ServiceItem[],
+            detected_service: toServiceItem(detectedService),
+            alternatives: alternatives.map(toServiceItem),
             confidence,
             reasoning,
             pre_filled_data: {
@@ -655,10 +672,7 @@ RESPONDE EN FORMATO JSON ESTRICTO (sin markdown, sin código, solo JSON):
         // Buscar servicios que coincidan con palabras clave en el nombre
         const words = description.split(/\s+/).filter(w => w.length > 3);
         
-        const { data: services, error } = await supabase
-            .from('service_catalog')
-            .select('*')
-            .eq('is_active', true)
+        const { data: services, error } = await ServiceCatalogRepository.queryActive()
             .order('completed_count', { ascending: false })
             .limit(20);
 
@@ -683,8 +697,8 @@ RESPONDE EN FORMATO JSON ESTRICTO (sin markdown, sin código, solo JSON):
 
         if (matchingServices.length > 0) {
             return {
-                detected_service: matchingServices[0] as ServiceItem,
-                alternatives: matchingServices.slice(1, 4) as ServiceItem[],
+                detected_service: toServiceItem(matchingServices[0]),
+                alternatives: matchingServices.slice(1, 4).map(toServiceItem),
                 confidence: 0.6,
                 reasoning: `Encontré servicios relacionados con "${words.join(', ')}". Te sugiero el más popular.`,
                 pre_filled_data: {
@@ -694,7 +708,7 @@ RESPONDE EN FORMATO JSON ESTRICTO (sin markdown, sin código, solo JSON):
                     urgencia: urgency,
                     precio_estimado: {
                         min: matchingServices[0].min_price || 0,
-                        max: matchingServices[0].max_price || matchingServices[0].min_price * 1.5 || 0,
+                        max: matchingServices[0].max_price || (matchingServices[0].min_price || 0) * 1.5 || 0,
                     },
                 },
             };
@@ -702,8 +716,8 @@ RESPONDE EN FORMATO JSON ESTRICTO (sin markdown, sin código, solo JSON):
 
         // Si no hay coincidencias, retornar el servicio más popular
         return {
-            detected_service: services[0] as ServiceItem,
-            alternatives: services.slice(1, 4) as ServiceItem[],
+            detected_service: toServiceItem(services[0]),
+            alternatives: services.slice(1, 4).map(toServiceItem),
             confidence: 0.4,
             reasoning: 'No pude identificar exactamente el servicio que necesitas. Te muestro los servicios más populares.',
             pre_filled_data: {
@@ -713,7 +727,7 @@ RESPONDE EN FORMATO JSON ESTRICTO (sin markdown, sin código, solo JSON):
                 urgencia: urgency,
                 precio_estimado: {
                     min: services[0].min_price || 0,
-                    max: services[0].max_price || services[0].min_price * 1.5 || 0,
+                    max: services[0].max_price || (services[0].min_price || 0) * 1.5 || 0,
                 },
             },
         };
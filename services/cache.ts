@@ -1,18 +1,46 @@
 /**
  * Cache Service
- * Sistema de cache en memoria para optimizar performance
+ * Sistema de cache en dos niveles para optimizar performance:
+ * - Memoria (Map) para lecturas síncronas
+ * - Disco (PersistentCache) para mostrar datos al instante en cold starts
  * Alineado con TulBoxPros
  */
 
+import { PersistentCache } from './persistentCache';
+import { requestExecutor } from './requestExecutor';
+
 interface CacheEntry<T> {
     data: T;
     timestamp: number;
     expiresAt: number;
 }
 
+/**
+ * Política de cache por key
+ * - ttl: tiempo durante el cual el dato es fresco (no se revalida)
+ * - maxAge: tiempo máximo que se conserva en disco como dato "stale"
+ */
+export interface CachePolicy {
+    ttl: number;
+    maxAge: number;
+}
+
+export interface StaleWhileRevalidateOptions<T> extends CachePolicy {
+    /** Se llama con los datos frescos cuando termina una revalidación en segundo plano */
+    onRevalidate?: (data: T) => void;
+    /** Transformar datos leídos de disco antes de usarlos (p. ej. re-asociar imágenes locales) */
+    hydrate?: (data: T) => T;
+    /** Cancela la espera del llamador; el fetch compartido solo se aborta si nadie más lo espera */
+    signal?: AbortSignal;
+}
+
+/** Fetcher de cache; recibe la señal para abortar la consulta (ver requestExecutor) */
+export type CacheFetcher<T> = (signal: AbortSignal) => Promise<T>;
+
 class CacheService {
     private cache: Map<string, CacheEntry<any>> = new Map();
     private defaultTTL: number = 5 * 60 * 1000; // 5 minutos por defecto
+    private persistent = new PersistentCache();
 
     /**
      * Obtener datos del cache
@@ -52,6 +80,7 @@ class CacheService {
      */
     invalidate(key: string): void {
         this.cache.delete(key);
+        this.persistent.remove(key);
     }
 
     /**
@@ -65,13 +94,15 @@ class CacheService {
                 this.cache.delete(key);
             }
         }
+        this.persistent.removePattern(regex);
     }
 
     /**
-     * Limpiar todo el cache
+     * Limpiar todo el cache (memoria y disco)
      */
-    clear(): void {
+    async clear(): Promise<void> {
         this.cache.clear();
+        await this.persistent.clear();
     }
 
     /**
@@ -104,6 +135,66 @@ class CacheService {
         return data;
     }
 
+    /**
+     * Guardar datos en memoria y en disco
+     */
+    async setPersisted<T>(key: string, data: T, policy: CachePolicy): Promise<void> {
+        this.set(key, data, policy.ttl);
+        await this.persistent.set(key, data, policy.ttl, policy.maxAge);
+    }
+
+    /**
+     * Stale-while-revalidate con persistencia en disco
+     * 1. Si hay dato fresco en memoria, se devuelve
+     * 2. Si hay dato en disco, se devuelve al instante; si está stale se revalida en segundo plano
+     *    y se notifica por onRevalidate
+     * 3. Si no hay nada, se espera al fetcher
+     */
+    async staleWhileRevalidate<T>(
+        key: string,
+        fetcher: CacheFetcher<T>,
+        options: StaleWhileRevalidateOptions<T>
+    ): Promise<T> {
+        const inMemory = this.get<T>(key);
+        if (inMemory !== null) {
+            return inMemory;
+        }
+
+        const persisted = await this.persistent.get<T>(key);
+        if (persisted) {
+            const data = options.hydrate ? options.hydrate(persisted.data) : persisted.data;
+            const remaining = persisted.staleAt - Date.now();
+
+            if (remaining > 0) {
+                this.set(key, data, remaining);
+            } else {
+                console.log('[Cache] ♻️ Serving stale data, revalidating:', key);
+                // Sin señal: la revalidación en segundo plano sirve a cualquier pantalla
+                this.revalidate(key, fetcher, options)
+                    .then(fresh => options.onRevalidate?.(fresh))
+                    .catch(error => console.warn('[Cache] Background revalidation failed:', key, error));
+            }
+            return data;
+        }
+
+        return this.revalidate(key, fetcher, options, options.signal);
+    }
+
+    /**
+     * Ejecutar fetcher y guardar resultado (deduplicando revalidaciones concurrentes de la misma key)
+     */
+    private revalidate<T>(key: string, fetcher: CacheFetcher<T>, policy: CachePolicy, signal?: AbortSignal): Promise<T> {
+        return requestExecutor.coalesce(
+            `swr:${key}`,
+            async fetchSignal => {
+                const data = await fetcher(fetchSignal);
+                await this.setPersisted(key, data, policy);
+                return data;
+            },
+            signal
+        );
+    }
+
     /**
      * Obtener estadísticas del cache
      */
@@ -132,9 +223,11 @@ export const cache = new CacheService();
 
 // Limpiar cache expirado cada 5 minutos
 if (typeof setInterval !== 'undefined') {
-    setInterval(() => {
+    const cleanupTimer: any = setInterval(() => {
         cache.cleanup();
     }, 5 * 60 * 1000);
+    // En Node (Jest) el intervalo no debe mantener vivo el proceso
+    cleanupTimer?.unref?.();
 }
 
 // Helper functions para keys comunes
@@ -143,10 +236,44 @@ export const CacheKeys = {
     lead: (leadId: string) => `lead:${leadId}`,
     quotes: (leadId?: string) => leadId ? `quotes:${leadId}` : 'quotes:all',
     quote: (quoteId: string) => `quote:${quoteId}`,
+    quoteRevisions: (leadId: string) => `quote-revisions:${leadId}`,
+    leadEvents: (leadId: string) => `lead-events:${leadId}`,
+    reschedules: (leadId: string) => `reschedules:${leadId}`,
+    guaranteeClaims: (leadId: string) => `guarantee-claims:${leadId}`,
+    guarantees: (clientId: string) => `guarantees:${clientId}`,
+    cancellationPolicy: (discipline?: string | null) => discipline ? `cancellation-policy:${discipline}` : 'cancellation-policy:default',
+    materials: (leadId: string) => `materials:${leadId}`,
+    invoice: (leadId: string) => `invoice:${leadId}`,
     professionals: (serviceId?: string) => serviceId ? `professionals:${serviceId}` : 'professionals:all',
     professional: (professionalId: string) => `professional:${professionalId}`,
+    professionalsDirectory: (profession?: string, minRating?: number) =>
+        `professionals-directory:${profession?.trim().toLowerCase() || 'all'}:${minRating ?? 0}`,
     categories: () => 'categories:all',
     services: (categoryId?: string) => categoryId ? `services:${categoryId}` : 'services:all',
+    priceEstimate: (serviceId: string, lat?: number, lng?: number) =>
+        // Coordenadas redondeadas (~10 km): el rango se calcula por zona, no por calle
+        `price-estimate:${serviceId}:${lat !== undefined ? lat.toFixed(1) : 'none'},${lng !== undefined ? lng.toFixed(1) : 'none'}`,
     profile: (userId: string) => `profile:${userId}`,
+    fiscalProfile: (userId: string) => `fiscal-profile:${userId}`,
+    servicePlans: (clientId: string) => `service-plans:${clientId}`,
+    requestDrafts: (clientId: string) => `request-drafts:${clientId}`,
+    projects: (clientId: string) => `projects:${clientId}`,
     messages: (conversationId: string) => `messages:${conversationId}`,
+    conversations: (clientId: string) => `conversations:${clientId}`,
+    popularProjects: () => 'popular-projects:all',
+    featuredProfessionals: (lat?: number, lng?: number, limit?: number, sortBy?: string) =>
+        // Redondear coordenadas (~1 km) para no fragmentar el cache por pequeños movimientos
+        `featured-professionals:${lat !== undefined ? lat.toFixed(2) : 'none'},${lng !== undefined ? lng.toFixed(2) : 'none'}:${limit ?? 10}:${sortBy ?? 'hybrid'}`,
 };
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+// Políticas de cache persistente por tipo de dato
+export const CachePolicies = {
+    categories: { ttl: 10 * MINUTE, maxAge: 7 * DAY },
+    popularProjects: { ttl: 15 * MINUTE, maxAge: 7 * DAY },
+    featuredProfessionals: { ttl: 10 * MINUTE, maxAge: 3 * DAY },
+    leads: { ttl: 2 * MINUTE, maxAge: 1 * DAY },
+    conversations: { ttl: 1 * MINUTE, maxAge: 1 * DAY },
+} satisfies Record<string, CachePolicy>;
@@ -0,0 +1,289 @@
+import { ValidationResult } from './validation';
+import { cache, CacheKeys } from './cache';
+import { requestExecutor, RequestPolicies } from './requestExecutor';
+import { resolveLeadStatus, LeadStatusFields } from './leadLifecycle';
+import { isMissingTableError, toAppError } from './errors';
+import { formatPrice } from './priceFormatter';
+import { CancellationPoliciesRepository } from './repositories/cancellationPolicies';
+import type { Json } from '@/lib/database.types';
+
+/**
+ * Cancellations - Política de cancelación por tiempo y motivos estructurados
+ * Cancelar es gratis hasta que un profesional acepta; después, cancelar dentro de las N horas
+ * previas a la cita (o con el servicio en progreso) tiene cargo. Las inasistencias se reportan
+ * pasada una tolerancia: si el profesional no llegó no hay cargo; si el cliente no se presentó
+ * se cobra el cargo por inasistencia. La política vive en `cancellation_policies`
+ * (ver SCHEMA_CANCELACIONES.sql); sin la tabla se usa DEFAULT_CANCELLATION_POLICY.
+ */
+
+export type CancellationActor = 'client' | 'professional';
+
+/** Códigos estables: se guardan en leads.cancellation_reason_code para reportes */
+export type CancellationReasonCode =
+    | 'no_longer_needed'
+    | 'found_other_provider'
+    | 'price_too_high'
+    | 'schedule_conflict'
+    | 'solved_myself'
+    | 'professional_late'
+    | 'professional_no_show'
+    | 'other'
+    | 'client_no_show'
+    | 'professional_unavailable';
+
+export interface CancellationReason {
+    label: string;
+    icon: string;
+    /** Quién puede elegir el motivo */
+    actor: CancellationActor;
+    /** Pide explicar el motivo */
+    requiresDetail?: boolean;
+    /** Reporta que la otra parte no se presentó (solo pasada la tolerancia) */
+    noShow?: CancellationActor;
+}
+
+export interface CancellationPolicy {
+    /** Horas antes de la cita en las que cancelar tiene cargo */
+    late_window_hours: number;
+    /** Cargo por cancelación tardía: porcentaje del precio acordado... */
+    late_fee_percent: number;
+    /** ...con este mínimo (también aplica sin precio acordado) */
+    late_fee_min: number;
+    client_no_show_fee_percent: number;
+    client_no_show_fee_min: number;
+    /** Minutos después de la hora de la cita para reportar una inasistencia */
+    no_show_grace_minutes: number;
+}
+
+export type CancellationFeeRule =
+    | 'before_acceptance'
+    | 'outside_window'
+    | 'late'
+    | 'professional_no_show'
+    | 'client_no_show'
+    | 'professional_cancelled';
+
+export interface CancellationFee {
+    fee: number;
+    rule: CancellationFeeRule;
+    /** Desde cuándo cancelar tiene cargo (null sin cita) */
+    lateFrom: Date | null;
+    /** Explicación para mostrar antes de confirmar */
+    message: string;
+}
+
+/** Campos del lead que usa la política */
+export interface CancellableLead extends LeadStatusFields {
+    appointment_date?: string | null;
+    appointment_time?: string | null;
+    agreed_price?: number | null;
+    price?: number | null;
+}
+
+export const CANCELLATION_REASONS: Record<CancellationReasonCode, CancellationReason> = {
+    no_longer_needed: { label: 'Ya no necesito el servicio', icon: 'close-circle-outline', actor: 'client' },
+    found_other_provider: { label: 'Encontré a otro profesional', icon: 'people-outline', actor: 'client' },
+    price_too_high: { label: 'El precio es muy alto', icon: 'cash-outline', actor: 'client' },
+    schedule_conflict: { label: 'No puedo en la fecha de la cita', icon: 'calendar-outline', actor: 'client' },
+    solved_myself: { label: 'Lo resolví por mi cuenta', icon: 'construct-outline', actor: 'client' },
+    professional_late: { label: 'El profesional llegó muy tarde', icon: 'time-outline', actor: 'client' },
+    professional_no_show: { label: 'El profesional no llegó', icon: 'person-remove-outline', actor: 'client', noShow: 'professional' },
+    other: { label: 'Otro motivo', icon: 'help-circle-outline', actor: 'client', requiresDetail: true },
+    client_no_show: { label: 'El cliente no se presentó', icon: 'person-remove-outline', actor: 'professional', noShow: 'client' },
+    professional_unavailable: { label: 'El profesional no puede atender', icon: 'alert-circle-outline', actor: 'professional' },
+};
+
+/** Motivos que el cliente puede elegir, en el orden del selector */
+export const CLIENT_CANCELLATION_REASONS = (Object.keys(CANCELLATION_REASONS) as CancellationReasonCode[])
+    .filter(code => CANCELLATION_REASONS[code].actor === 'client');
+
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
+    late_window_hours: 24,
+    late_fee_percent: 20,
+    late_fee_min: 150,
+    client_no_show_fee_percent: 50,
+    client_no_show_fee_min: 300,
+    no_show_grace_minutes: 30,
+};
+
+export const MIN_CANCELLATION_DETAIL_LENGTH = 5;
+
+const POLICY_KEYS = Object.keys(DEFAULT_CANCELLATION_POLICY) as Array<keyof CancellationPolicy>;
+const POLICY_TTL = 30 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const TIME_PATTERN = /^\d{2}:\d{2}/;
+
+export function isCancellationReasonCode(value: unknown): value is CancellationReasonCode {
+    return typeof value === 'string' && value in CANCELLATION_REASONS;
+}
+
+/**
+ * Política a partir de las reglas JSON (las posteriores sobrescriben a las anteriores)
+ * Los valores inválidos se ignoran
+ */
+export function parseCancellationPolicy(...rules: Array<Json | null | undefined>): CancellationPolicy {
+    const policy = { ...DEFAULT_CANCELLATION_POLICY };
+    rules.forEach(rule => {
+        if (typeof rule !== 'object' || rule === null || Array.isArray(rule)) return;
+        POLICY_KEYS.forEach(key => {
+            const value = Number(rule[key]);
+            if (rule[key] !== undefined && rule[key] !== null && Number.isFinite(value) && value >= 0) {
+                policy[key] = value;
+            }
+        });
+    });
+    return policy;
+}
+
+/**
+ * Inicio de la cita en hora local (sin hora, cuenta desde el inicio del día)
+ */
+export function getAppointmentStart(lead: Pick<CancellableLead, 'appointment_date' | 'appointment_time'>): Date | null {
+    if (!lead.appointment_date) return null;
+    const time = (lead.appointment_time || '').split(/[T ]/).pop() || '';
+    const start = new Date(`${lead.appointment_date.slice(0, 10)}T${TIME_PATTERN.test(time) ? time.slice(0, 5) : '00:00'}:00`);
+    return Number.isNaN(start.getTime()) ? null : start;
+}
+
+function percentFee(lead: CancellableLead, percent: number, minimum: number): number {
+    const price = Number(lead.agreed_price ?? lead.price ?? 0) || 0;
+    const fee = Math.max(minimum, Math.round(price * percent) / 100);
+    // Nunca más que el servicio
+    return price > 0 ? Math.min(fee, price) : fee;
+}
+
+function formatDeadline(date: Date): string {
+    return date.toLocaleString('es-MX', { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+}
+
+/**
+ * Cargo por cancelar el lead en `now` según quién cancela y el motivo
+ */
+export function calculateCancellationFee(
+    lead: CancellableLead,
+    policy: CancellationPolicy,
+    options: { actor?: CancellationActor; reasonCode?: CancellationReasonCode | null; now?: Date } = {}
+): CancellationFee {
+    const { actor = 'client', reasonCode, now = new Date() } = options;
+    const reason = reasonCode ? CANCELLATION_REASONS[reasonCode] : null;
+    const status = resolveLeadStatus(lead);
+    const start = getAppointmentStart(lead);
+    const lateFrom = start ? new Date(start.getTime() - policy.late_window_hours * HOUR_MS) : null;
+
+    if (actor === 'professional') {
+        if (reason?.noShow === 'client') {
+            const fee = percentFee(lead, policy.client_no_show_fee_percent, policy.client_no_show_fee_min);
+            return { fee, rule: 'client_no_show', lateFrom, message: `Cargo por inasistencia de ${formatPrice(fee)}` };
+        }
+        return { fee: 0, rule: 'professional_cancelled', lateFrom, message: 'El profesional canceló; no tiene cargo para el cliente' };
+    }
+
+    if (status === 'pending') {
+        return { fee: 0, rule: 'before_acceptance', lateFrom, message: 'Sin cargo: ningún profesional ha aceptado tu solicitud' };
+    }
+    if (reason?.noShow === 'professional') {
+        return { fee: 0, rule: 'professional_no_show', lateFrom, message: 'Sin cargo: el profesional no se presentó a la cita' };
+    }
+
+    const started = status === 'in_progress' || status === 'disputed';
+    if (started || (lateFrom && now.getTime() >= lateFrom.getTime())) {
+        const fee = percentFee(lead, policy.late_fee_percent, policy.late_fee_min);
+        return {
+            fee,
+            rule: 'late',
+            lateFrom,
+            message: started
+                ? `Cargo de ${formatPrice(fee)} por cancelar un servicio en progreso`
+                : `Cargo de ${formatPrice(fee)} por cancelar con menos de ${policy.late_window_hours} horas de anticipación`,
+        };
+    }
+
+    return {
+        fee: 0,
+        rule: 'outside_window',
+        lateFrom,
+        message: lateFrom
+            ? `Sin cargo si cancelas antes del ${formatDeadline(lateFrom)}`
+            : 'Sin cargo: aún no hay una cita agendada',
+    };
+}
+
+/**
+ * Motivo elegido por el cliente: obligatorio, con detalle en "Otro motivo" y, si reporta que el
+ * profesional no llegó, después de la tolerancia
+ */
+export function validateCancellationReason(input: {
+    reasonCode?: string | null;
+    detail?: string | null;
+    lead: CancellableLead;
+    policy: CancellationPolicy;
+    now?: Date;
+}): ValidationResult {
+    const { reasonCode, detail, lead, policy, now = new Date() } = input;
+
+    if (!reasonCode) {
+        return {
+            valid: false,
+            error: { code: 'MISSING_CANCELLATION_REASON', message: 'Elige el motivo de la cancelación' },
+        };
+    }
+    if (!isCancellationReasonCode(reasonCode) || CANCELLATION_REASONS[reasonCode].actor !== 'client') {
+        return {
+            valid: false,
+            error: { code: 'INVALID_CANCELLATION_REASON', message: 'Motivo de cancelación no válido' },
+        };
+    }
+
+    const reason = CANCELLATION_REASONS[reasonCode];
+    if (reason.requiresDetail && (detail || '').trim().length < MIN_CANCELLATION_DETAIL_LENGTH) {
+        return {
+            valid: false,
+            error: { code: 'MISSING_CANCELLATION_DETAIL', message: 'Cuéntanos brevemente el motivo' },
+        };
+    }
+    if (reason.noShow) {
+        const start = getAppointmentStart(lead);
+        if (!start || now.getTime() < start.getTime() + policy.no_show_grace_minutes * 60 * 1000) {
+            return {
+                valid: false,
+                error: {
+                    code: 'NO_SHOW_TOO_EARLY',
+                    message: `Puedes reportar que el profesional no llegó ${policy.no_show_grace_minutes} minutos después de la hora de la cita`,
+                },
+            };
+        }
+    }
+    return { valid: true };
+}
+
+export class CancellationPolicyService {
+    /**
+     * Política vigente para una disciplina (la fila 'default' con lo que sobrescriba la disciplina)
+     */
+    static async getPolicy(discipline?: string | null, signal?: AbortSignal): Promise<CancellationPolicy> {
+        const normalized = discipline?.toLowerCase().trim() || null;
+        const key = CacheKeys.cancellationPolicy(normalized);
+
+        return cache.getOrSet(key, async () => {
+            const keys = normalized ? ['default', normalized] : ['default'];
+            const { data, error } = await requestExecutor.execute(
+                requestSignal => CancellationPoliciesRepository.listByKeys(keys, requestSignal),
+                { key, signal, policy: RequestPolicies.read, timeoutMessage: 'Timeout al obtener la política de cancelación' }
+            );
+
+            if (error) {
+                if (isMissingTableError(error)) {
+                    console.warn('[CancellationPolicyService] cancellation_policies table not found, run SCHEMA_CANCELACIONES.sql');
+                    return { ...DEFAULT_CANCELLATION_POLICY };
+                }
+                throw toAppError(error, 'No se pudo obtener la política de cancelación');
+            }
+
+            const rows = data || [];
+            return parseCancellationPolicy(
+                rows.find(row => row.key === 'default')?.rules,
+                normalized ? rows.find(row => row.key === normalized)?.rules : null
+            );
+        }, POLICY_TTL);
+    }
+}
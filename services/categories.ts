@@ -1,7 +1,7 @@
-import { supabase } from '@/lib/supabase';
 import { Ionicons } from '@expo/vector-icons';
-import { withTimeout } from './validation';
-import { cache, CacheKeys } from './cache';
+import { requestExecutor, RequestPolicies } from './requestExecutor';
+import { cache, CacheKeys, CachePolicies } from './cache';
+import { ServiceCatalogRepository, ServiceCatalogRow } from './repositories/serviceCatalog';
 
 export interface Category {
     id: string;
@@ -14,6 +14,13 @@ export interface Category {
     serviceCount?: number;
 }
 
+/** Servicios activos de una disciplina y su precio mínimo */
+interface DisciplineSummary {
+    discipline: string;
+    minPrice?: number;
+    serviceCount: number;
+}
+
 // Configuración de disciplinas (debe coincidir con Supabase)
 const DISCIPLINE_CONFIG: Record<string, Omit<Category, 'id' | 'minPrice' | 'serviceCount'>> = {
     'electricidad': {
@@ -170,166 +177,165 @@ export class CategoryService {
     /**
      * Obtener todas las disciplinas activas con información agregada
      */
-    static async getCategories(): Promise<Category[]> {
+    static async getCategories(onRevalidate?: (categories: Category[]) => void): Promise<Category[]> {
         try {
-            console.log('[CategoryService] 🚀 Fetching categories...');
-            const startTime = Date.now();
-
-            // ✅ Intentar obtener del cache primero
-            const cacheKey = CacheKeys.categories();
-            const cached = cache.get<Category[]>(cacheKey);
-            if (cached) {
-                console.log('[CategoryService] Using cached categories');
-                return cached;
-            }
-
-            // Optimización: Query más eficiente - solo campos necesarios y límite razonable
-            // Traer solo un registro por disciplina para obtener el precio mínimo
-            const { data, error } = await withTimeout(
-                Promise.resolve(supabase
-                    .from('service_catalog')
-                    .select('discipline, min_price')
-                    .eq('is_active', true)
-                    .order('min_price', { ascending: true })
-                    .limit(200)), // Reducido de 1000 a 200 - suficiente para todas las disciplinas
-                15000, // 15 segundos timeout
-                'Timeout al obtener categorías'
+            // ✅ Stale-while-revalidate: se muestra lo guardado en disco y se refresca en segundo plano
+            return await cache.staleWhileRevalidate(
+                CacheKeys.categories(),
+                signal => this.fetchCategories(signal),
+                {
+                    ...CachePolicies.categories,
+                    onRevalidate,
+                    // Las imágenes son require() locales: no confiar en el valor persistido
+                    hydrate: (categories) => categories.map(category => ({
+                        ...category,
+                        image: this.getDisciplineConfig(category.id)?.image,
+                    })),
+                }
             );
+        } catch (error) {
+            console.error('[CategoryService] Error getting categories:', error);
+            return this.getDefaultCategories();
+        }
+    }
 
-            if (error) {
-                console.warn('[CategoryService] ⚠️ Warning fetching categories (using fallback):', {
-                    message: error.message,
-                    details: error.details,
-                    hint: error.hint,
-                    code: error.code,
-                });
-                // Retornar categorías por defecto si hay error
-                console.log('[CategoryService] ⚠️ Returning default categories due to error');
-                return this.getDefaultCategories();
-            }
-
-            console.log('[CategoryService] 📊 Raw data received:', {
-                count: data?.length || 0,
-                sample: data?.slice(0, 3),
+    /**
+     * Consultar disciplinas en Supabase.
+     * Lanza error si no hay datos para que no se guarden en cache las categorías por defecto.
+     */
+    private static async fetchCategories(signal?: AbortSignal): Promise<Category[]> {
+        console.log('[CategoryService] 🚀 Fetching categories...');
+        const startTime = Date.now();
+
+        // Optimización: Query más eficiente - solo campos necesarios y límite razonable
+        // Traer solo un registro por disciplina para obtener el precio mínimo
+        const { data, error } = await requestExecutor.execute(
+            fetchSignal => ServiceCatalogRepository.listDisciplinePrices(200).abortSignal(fetchSignal), // Reducido de 1000 a 200 - suficiente para todas las disciplinas
+            { signal, policy: RequestPolicies.heavyRead, timeoutMessage: 'Timeout al obtener categorías' }
+        );
+
+        if (error) {
+            console.warn('[CategoryService] ⚠️ Warning fetching categories (using fallback):', {
+                message: error.message,
+                details: error.details,
+                hint: error.hint,
+                code: error.code,
             });
+            throw error;
+        }
 
-            if (!data || data.length === 0) {
-                console.warn('[CategoryService] ⚠️ No data returned, using default categories');
-                return this.getDefaultCategories();
-            }
+        console.log('[CategoryService] 📊 Raw data received:', {
+            count: data?.length || 0,
+            sample: data?.slice(0, 3),
+        });
 
-            // Agrupar por disciplina
-            const grouped = (data as any[]).reduce((acc: any, item: any) => {
-                const discipline = item.discipline?.toLowerCase().trim();
-                if (!discipline) return acc; // Saltar si no hay disciplina
-
-                if (!acc[discipline]) {
-                    acc[discipline] = {
-                        discipline: discipline,
-                        minPrice: item.min_price,
-                        serviceCount: 1,
-                    };
-                } else {
-                    acc[discipline].serviceCount++;
-                    if (item.min_price < acc[discipline].minPrice) {
-                        acc[discipline].minPrice = item.min_price;
-                    }
-                }
-                return acc;
-            }, {});
-
-            console.log('[CategoryService] 📦 Disciplines found:', Object.keys(grouped));
-
-            // Mapear a formato de categorías
-            const categories = Object.values(grouped).map((item: any) => {
-                const disciplineKey = item.discipline?.toLowerCase().trim();
-                const config = this.getDisciplineConfig(disciplineKey);
-
-                if (!config) {
-                    console.warn('[CategoryService] ⚠️ No config for discipline:', disciplineKey);
-                    // Si no hay configuración, usar valores por defecto
-                    return {
-                        id: disciplineKey,
-                        name: disciplineKey.charAt(0).toUpperCase() + disciplineKey.slice(1),
-                        icon: 'construct' as keyof typeof Ionicons.glyphMap,
-                        color: '#F3F4F6',
-                        iconColor: '#6B7280',
-                        minPrice: item.minPrice,
-                        serviceCount: item.serviceCount,
-                    };
+        if (!data || data.length === 0) {
+            throw new Error('No se encontraron disciplinas activas');
+        }
+
+        // Agrupar por disciplina
+        const rows: Pick<ServiceCatalogRow, 'discipline' | 'min_price'>[] = data;
+        const grouped = rows.reduce<Record<string, DisciplineSummary>>((acc, item) => {
+            const discipline = item.discipline?.toLowerCase().trim();
+            if (!discipline) return acc; // Saltar si no hay disciplina
+
+            const summary = acc[discipline];
+            if (!summary) {
+                acc[discipline] = {
+                    discipline,
+                    minPrice: item.min_price ?? undefined,
+                    serviceCount: 1,
+                };
+            } else {
+                summary.serviceCount++;
+                if (item.min_price != null && (summary.minPrice === undefined || item.min_price < summary.minPrice)) {
+                    summary.minPrice = item.min_price;
                 }
+            }
+            return acc;
+        }, {});
 
+        console.log('[CategoryService] 📦 Disciplines found:', Object.keys(grouped));
+
+        // Mapear a formato de categorías
+        const categories = Object.values(grouped).map(item => {
+            const disciplineKey = item.discipline;
+            const config = this.getDisciplineConfig(disciplineKey);
+
+            if (!config) {
+                console.warn('[CategoryService] ⚠️ No config for discipline:', disciplineKey);
+                // Si no hay configuración, usar valores por defecto
                 return {
                     id: disciplineKey,
-                    name: config.name,
-                    icon: config.icon,
-                    color: config.color,
-                    iconColor: config.iconColor,
-                    image: config.image,
+                    name: disciplineKey.charAt(0).toUpperCase() + disciplineKey.slice(1),
+                    icon: 'construct' as keyof typeof Ionicons.glyphMap,
+                    color: '#F3F4F6',
+                    iconColor: '#6B7280',
                     minPrice: item.minPrice,
                     serviceCount: item.serviceCount,
                 };
-            });
+            }
 
-            // Ordenar según el orden de prioridad
-            const sorted = categories.sort((a, b) => {
-                const indexA = CATEGORY_ORDER.indexOf(a.id.toLowerCase());
-                const indexB = CATEGORY_ORDER.indexOf(b.id.toLowerCase());
+            return {
+                id: disciplineKey,
+                name: config.name,
+                icon: config.icon,
+                color: config.color,
+                iconColor: config.iconColor,
+                image: config.image,
+                minPrice: item.minPrice,
+                serviceCount: item.serviceCount,
+            };
+        });
 
-                // Si ambas están en el orden, ordenar por índice
-                if (indexA !== -1 && indexB !== -1) {
-                    return indexA - indexB;
-                }
+        // Ordenar según el orden de prioridad
+        const sorted = categories.sort((a, b) => {
+            const indexA = CATEGORY_ORDER.indexOf(a.id.toLowerCase());
+            const indexB = CATEGORY_ORDER.indexOf(b.id.toLowerCase());
 
-                // Si solo una está en el orden, la que está va primero
-                if (indexA !== -1) return -1;
-                if (indexB !== -1) return 1;
+            // Si ambas están en el orden, ordenar por índice
+            if (indexA !== -1 && indexB !== -1) {
+                return indexA - indexB;
+            }
 
-                // Si ninguna está en el orden, ordenar alfabéticamente
-                return a.name.localeCompare(b.name);
-            });
+            // Si solo una está en el orden, la que está va primero
+            if (indexA !== -1) return -1;
+            if (indexB !== -1) return 1;
 
-            console.log('[CategoryService] ✅ Categories sorted:', sorted.map(c => `${c.name} (${c.id})`).join(', '));
+            // Si ninguna está en el orden, ordenar alfabéticamente
+            return a.name.localeCompare(b.name);
+        });
 
-            // Log detallado de qué falta
-            const missingDisciplines = CATEGORY_ORDER.filter(
-                orderId => !sorted.some(c => c.id.toLowerCase() === orderId.toLowerCase())
-            );
+        console.log('[CategoryService] ✅ Categories sorted:', sorted.map(c => `${c.name} (${c.id})`).join(', '));
 
-            if (missingDisciplines.length > 0) {
-                console.warn('[CategoryService] ⚠️ Disciplinas faltantes en BD:', missingDisciplines.join(', '));
-                console.warn('[CategoryService] 💡 Ejecuta CREAR_SERVICIOS_DISCIPLINAS_FALTANTES.sql para agregarlas');
-            }
+        // Log detallado de qué falta
+        const missingDisciplines = CATEGORY_ORDER.filter(
+            orderId => !sorted.some(c => c.id.toLowerCase() === orderId.toLowerCase())
+        );
 
-            const loadTime = Date.now() - startTime;
-            console.log('[CategoryService] 📊 Resumen:', {
-                totalEnBD: sorted.length,
-                totalEsperadas: CATEGORY_ORDER.length,
-                faltantes: missingDisciplines.length,
-                ordenadas: sorted.filter(c => CATEGORY_ORDER.includes(c.id.toLowerCase())).length,
-                loadTime: `${loadTime}ms`,
-            });
+        if (missingDisciplines.length > 0) {
+            console.warn('[CategoryService] ⚠️ Disciplinas faltantes en BD:', missingDisciplines.join(', '));
+            console.warn('[CategoryService] 💡 Ejecuta CREAR_SERVICIOS_DISCIPLINAS_FALTANTES.sql para agregarlas');
+        }
 
-            // ✅ Guardar en cache (TTL: 10 minutos para categorías)
-            cache.set(cacheKey, sorted, 10 * 60 * 1000);
+        const loadTime = Date.now() - startTime;
+        console.log('[CategoryService] 📊 Resumen:', {
+            totalEnBD: sorted.length,
+            totalEsperadas: CATEGORY_ORDER.length,
+            faltantes: missingDisciplines.length,
+            ordenadas: sorted.filter(c => CATEGORY_ORDER.includes(c.id.toLowerCase())).length,
+            loadTime: `${loadTime}ms`,
+        });
 
-            return sorted;
-        } catch (error) {
-            console.error('[CategoryService] Error getting categories:', error);
-            return this.getDefaultCategories();
-        }
+        return sorted;
     }
 
     /**
      * Obtener servicios de una disciplina específica
      */
-    static async getServicesByDiscipline(discipline: string) {
+    static async getServicesByDiscipline(discipline: string): Promise<ServiceCatalogRow[]> {
         try {
-            const { data, error } = await supabase
-                .from('service_catalog')
-                .select('*')
-                .eq('discipline', discipline)
-                .eq('is_active', true)
+            const { data, error } = await ServiceCatalogRepository.listByDiscipline(discipline)
                 .order('service_name');
 
             if (error) {
@@ -349,14 +355,7 @@ export class CategoryService {
      */
     static async getMinPrice(discipline: string): Promise<number | null> {
         try {
-            const { data, error } = await supabase
-                .from('service_catalog')
-                .select('min_price')
-                .eq('discipline', discipline)
-                .eq('is_active', true)
-                .order('min_price', { ascending: true })
-                .limit(1)
-                .single();
+            const { data, error } = await ServiceCatalogRepository.findMinPrice(discipline);
 
             if (error || !data) return null;
             return data.min_price;
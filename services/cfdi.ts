@@ -0,0 +1,322 @@
+import { ValidationResult, GENERIC_RFCS, normalizeRFC, validatePostalCode, validateRFC } from './validation';
+import { QuoteService, ServiceQuote } from './quotes';
+import type { PaymentMethod } from './paymentPreferences';
+
+/**
+ * CFDI - Datos fiscales del cliente y comprobante CFDI 4.0
+ * El comprobante se arma desde el desglose de la cotización (QuoteService.getBreakdown):
+ * los renglones positivos son conceptos y los negativos (descuentos, topes) se reparten
+ * como Descuento entre los conceptos. Emisor y lugar de expedición los pone el servidor
+ * al guardar la solicitud (prepare_invoice_request), que además verifica los importes.
+ */
+
+export type RfcPersonType = 'moral' | 'fisica';
+
+export interface CfdiCatalogEntry {
+    code: string;
+    label: string;
+    /** Tipos de persona que pueden usar la clave */
+    applies: RfcPersonType[];
+}
+
+/**
+ * Catálogo c_RegimenFiscal (claves usadas por clientes de servicios)
+ */
+export const REGIMENES_FISCALES: CfdiCatalogEntry[] = [
+    { code: '601', label: 'General de Ley Personas Morales', applies: ['moral'] },
+    { code: '603', label: 'Personas Morales con Fines no Lucrativos', applies: ['moral'] },
+    { code: '605', label: 'Sueldos y Salarios', applies: ['fisica'] },
+    { code: '606', label: 'Arrendamiento', applies: ['fisica'] },
+    { code: '612', label: 'Actividades Empresariales y Profesionales', applies: ['fisica'] },
+    { code: '616', label: 'Sin obligaciones fiscales', applies: ['fisica'] },
+    { code: '621', label: 'Incorporación Fiscal', applies: ['fisica'] },
+    { code: '626', label: 'Régimen Simplificado de Confianza', applies: ['moral', 'fisica'] },
+];
+
+/**
+ * Catálogo c_UsoCFDI (claves aplicables a servicios del hogar y negocio)
+ */
+export const USOS_CFDI: CfdiCatalogEntry[] = [
+    { code: 'G03', label: 'Gastos en general', applies: ['moral', 'fisica'] },
+    { code: 'G01', label: 'Adquisición de mercancías', applies: ['moral', 'fisica'] },
+    { code: 'I01', label: 'Construcciones', applies: ['moral', 'fisica'] },
+    { code: 'I08', label: 'Otra maquinaria y equipo', applies: ['moral', 'fisica'] },
+    { code: 'S01', label: 'Sin efectos fiscales', applies: ['moral', 'fisica'] },
+];
+
+/**
+ * Datos fiscales del cliente (tabla `fiscal_profiles`)
+ */
+export interface FiscalProfile {
+    user_id: string;
+    rfc: string;
+    razon_social: string;
+    regimen_fiscal: string;
+    uso_cfdi: string;
+    codigo_postal: string;
+    email?: string | null;
+    updated_at?: string | null;
+}
+
+export type FiscalProfileInput = Omit<FiscalProfile, 'user_id' | 'updated_at'>;
+
+/** Clave de producto o servicio del SAT (servicios de apoyo para la construcción) */
+export const DEFAULT_CLAVE_PROD_SERV = '72101500';
+/** Clave de unidad del SAT para servicios */
+const CLAVE_UNIDAD_SERVICIO = 'E48';
+/** IVA trasladado */
+const IMPUESTO_IVA = '002';
+
+/** Catálogo c_FormaPago según el método de pago de la app */
+const FORMA_PAGO: Record<PaymentMethod, string> = {
+    cash: '01',
+    debit: '28',
+    credit: '04',
+};
+
+export interface CfdiTraslado {
+    Base: number;
+    Impuesto: string;
+    TipoFactor: 'Tasa';
+    /** Tasa con seis decimales, p. ej. '0.160000' */
+    TasaOCuota: string;
+    Importe: number;
+}
+
+export interface CfdiConcepto {
+    ClaveProdServ: string;
+    NoIdentificacion: string;
+    Cantidad: number;
+    ClaveUnidad: string;
+    Unidad: string;
+    Descripcion: string;
+    ValorUnitario: number;
+    Importe: number;
+    Descuento?: number;
+    /** '02': sí objeto de impuesto */
+    ObjetoImp: '02';
+    Impuestos: { Traslados: CfdiTraslado[] };
+}
+
+export interface CfdiPayload {
+    Version: '4.0';
+    Serie: string;
+    Folio: string;
+    /** Fecha local sin zona horaria (AAAA-MM-DDThh:mm:ss) */
+    Fecha: string;
+    FormaPago: string;
+    MetodoPago: 'PUE' | 'PPD';
+    SubTotal: number;
+    Descuento?: number;
+    Moneda: 'MXN';
+    Total: number;
+    TipoDeComprobante: 'I';
+    Exportacion: '01';
+    /** Código postal del emisor; lo completa el servidor (tabla `cfdi_issuer`) */
+    LugarExpedicion?: string;
+    /** Lo completa el servidor (tabla `cfdi_issuer`) */
+    Emisor?: {
+        Rfc: string;
+        Nombre: string;
+        RegimenFiscal: string;
+    };
+    Receptor: {
+        Rfc: string;
+        Nombre: string;
+        DomicilioFiscalReceptor: string;
+        RegimenFiscalReceptor: string;
+        UsoCFDI: string;
+    };
+    Conceptos: CfdiConcepto[];
+    Impuestos: {
+        TotalImpuestosTrasladados: number;
+        Traslados: CfdiTraslado[];
+    };
+}
+
+export interface CfdiPayloadOptions {
+    /** Folio interno (p. ej. id del lead) */
+    folio: string;
+    serie?: string;
+    /** Nombre del servicio; reemplaza la etiqueta del renglón de precio base */
+    serviceName?: string;
+    /** Método de pago del cliente; sin él se factura como pago en parcialidades o diferido */
+    paymentMethod?: PaymentMethod | null;
+    claveProdServ?: string;
+    date?: Date;
+}
+
+function roundCents(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+function formatCfdiDate(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+        `T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+/**
+ * Tipo de persona según la longitud del RFC (12 moral, 13 física)
+ */
+export function getRfcPersonType(rfc: string): RfcPersonType {
+    return normalizeRFC(rfc).length === 12 ? 'moral' : 'fisica';
+}
+
+/**
+ * Normaliza los datos capturados (RFC y razón social en mayúsculas, sin espacios sobrantes)
+ */
+export function normalizeFiscalProfile(input: FiscalProfileInput): FiscalProfileInput {
+    return {
+        rfc: normalizeRFC(input.rfc),
+        razon_social: input.razon_social.trim().replace(/\s+/g, ' ').toUpperCase(),
+        regimen_fiscal: input.regimen_fiscal,
+        uso_cfdi: input.uso_cfdi,
+        codigo_postal: input.codigo_postal.trim(),
+        email: input.email?.trim() || null,
+    };
+}
+
+/**
+ * Valida los datos fiscales y que régimen y uso de CFDI correspondan al tipo de persona
+ */
+export function validateFiscalProfile(input: FiscalProfileInput): ValidationResult {
+    const rfcResult = validateRFC(input.rfc);
+    if (!rfcResult.valid) return rfcResult;
+
+    if (!input.razon_social?.trim()) {
+        return {
+            valid: false,
+            error: { code: 'MISSING_RAZON_SOCIAL', message: 'La razón social es requerida' },
+        };
+    }
+
+    const postalResult = validatePostalCode(input.codigo_postal);
+    if (!postalResult.valid) return postalResult;
+
+    const rfc = normalizeRFC(input.rfc);
+    const personType = getRfcPersonType(rfc);
+    const regimen = REGIMENES_FISCALES.find(entry => entry.code === input.regimen_fiscal);
+    if (!regimen || !regimen.applies.includes(personType)) {
+        return {
+            valid: false,
+            error: {
+                code: 'INVALID_REGIMEN_FISCAL',
+                message: `El régimen fiscal no corresponde a una persona ${personType === 'moral' ? 'moral' : 'física'}`,
+            },
+        };
+    }
+
+    const uso = USOS_CFDI.find(entry => entry.code === input.uso_cfdi);
+    if (!uso || !uso.applies.includes(personType)) {
+        return {
+            valid: false,
+            error: { code: 'INVALID_USO_CFDI', message: 'El uso de CFDI no es válido para este RFC' },
+        };
+    }
+
+    // El RFC genérico solo admite régimen sin obligaciones y uso sin efectos fiscales
+    if (GENERIC_RFCS.includes(rfc) && (input.regimen_fiscal !== '616' || input.uso_cfdi !== 'S01')) {
+        return {
+            valid: false,
+            error: {
+                code: 'INVALID_GENERIC_RFC_USE',
+                message: 'Con RFC genérico el régimen debe ser 616 y el uso de CFDI S01',
+            },
+        };
+    }
+
+    return { valid: true };
+}
+
+/**
+ * Arma el comprobante CFDI 4.0 (sin timbrar) desde el desglose de la cotización
+ */
+export function buildCfdiPayload(
+    quote: ServiceQuote,
+    receptor: FiscalProfile,
+    options: CfdiPayloadOptions
+): CfdiPayload {
+    const taxRate = quote.tax_rate;
+    const lines = QuoteService.getBreakdown(quote);
+    const charges = lines.filter(line => line.amount > 0);
+    const subTotal = roundCents(charges.reduce((sum, line) => sum + line.amount, 0));
+    const discountTotal = Math.min(
+        subTotal,
+        roundCents(-lines.filter(line => line.amount < 0).reduce((sum, line) => sum + line.amount, 0))
+    );
+
+    // Reparto proporcional del descuento; el último concepto absorbe el redondeo
+    let discountLeft = discountTotal;
+    const conceptos: CfdiConcepto[] = charges.map((line, index) => {
+        const importe = roundCents(line.amount);
+        const descuento = index === charges.length - 1
+            ? discountLeft
+            : roundCents(subTotal > 0 ? discountTotal * (importe / subTotal) : 0);
+        discountLeft = roundCents(discountLeft - descuento);
+
+        const cantidad = line.quantity && line.quantity > 0 ? line.quantity : 1;
+        const base = roundCents(importe - descuento);
+        const concepto: CfdiConcepto = {
+            ClaveProdServ: options.claveProdServ || DEFAULT_CLAVE_PROD_SERV,
+            NoIdentificacion: line.id,
+            Cantidad: cantidad,
+            ClaveUnidad: CLAVE_UNIDAD_SERVICIO,
+            Unidad: 'Unidad de servicio',
+            Descripcion: line.kind === 'base' && options.serviceName ? options.serviceName : line.label,
+            ValorUnitario: roundCents(line.unit_price ?? importe / cantidad),
+            Importe: importe,
+            ObjetoImp: '02',
+            Impuestos: {
+                Traslados: [{
+                    Base: base,
+                    Impuesto: IMPUESTO_IVA,
+                    TipoFactor: 'Tasa',
+                    TasaOCuota: taxRate.toFixed(6),
+                    Importe: roundCents(base * taxRate),
+                }],
+            },
+        };
+        if (descuento > 0) concepto.Descuento = descuento;
+        return concepto;
+    });
+
+    const traslados = conceptos.map(concepto => concepto.Impuestos.Traslados[0]);
+    const taxTotal = roundCents(traslados.reduce((sum, traslado) => sum + traslado.Importe, 0));
+    const taxBase = roundCents(traslados.reduce((sum, traslado) => sum + traslado.Base, 0));
+    const formaPago = options.paymentMethod ? FORMA_PAGO[options.paymentMethod] : undefined;
+
+    const payload: CfdiPayload = {
+        Version: '4.0',
+        Serie: options.serie || 'TB',
+        Folio: options.folio,
+        Fecha: formatCfdiDate(options.date || new Date()),
+        FormaPago: formaPago || '99',
+        MetodoPago: formaPago ? 'PUE' : 'PPD',
+        SubTotal: subTotal,
+        Moneda: 'MXN',
+        Total: roundCents(subTotal - discountTotal + taxTotal),
+        TipoDeComprobante: 'I',
+        Exportacion: '01',
+        Receptor: {
+            Rfc: normalizeRFC(receptor.rfc),
+            Nombre: receptor.razon_social,
+            DomicilioFiscalReceptor: receptor.codigo_postal,
+            RegimenFiscalReceptor: receptor.regimen_fiscal,
+            UsoCFDI: receptor.uso_cfdi,
+        },
+        Conceptos: conceptos,
+        Impuestos: {
+            TotalImpuestosTrasladados: taxTotal,
+            Traslados: [{
+                Base: taxBase,
+                Impuesto: IMPUESTO_IVA,
+                TipoFactor: 'Tasa',
+                TasaOCuota: taxRate.toFixed(6),
+                Importe: taxTotal,
+            }],
+        },
+    };
+    if (discountTotal > 0) payload.Descuento = discountTotal;
+    return payload;
+}
@@ -0,0 +1,168 @@
+import { requestExecutor, RequestPolicies } from './requestExecutor';
+import { AppError, assertValid, toAppError } from './errors';
+import { validateUUID } from './validation';
+import { DiscountsRepository, QuoteDiscountRow } from './repositories/discounts';
+import type { Discount, DiscountSource } from './quotes';
+import type { QuoteLineItem } from './pricingRules';
+
+/**
+ * Discount Service - Descuentos de la cotización
+ * - Códigos promocionales (vigencia, límite de usos, disciplinas)
+ * - Descuento de primer servicio
+ * - Créditos por referidos
+ * - Niveles de lealtad según servicios completados
+ * El servidor decide la elegibilidad (RPC get_quote_discounts); la app solo aplica los montos.
+ */
+
+const DISCOUNT_SOURCES: DiscountSource[] = ['promo', 'first_service', 'referral', 'loyalty'];
+
+/** Motivos de rechazo de un código promocional (columna rejection_reason) */
+const PROMO_REJECTION_MESSAGES: Record<string, string> = {
+    not_found: 'El código no existe',
+    inactive: 'El código ya no está activo',
+    not_started: 'El código aún no está vigente',
+    expired: 'El código expiró',
+    exhausted: 'El código alcanzó su límite de usos',
+    client_limit: 'Ya usaste este código',
+    discipline: 'El código no aplica para este servicio',
+    min_subtotal: 'Tu cotización no alcanza el monto mínimo del código',
+    first_service_only: 'El código solo aplica en tu primer servicio',
+};
+
+export interface QuoteDiscountsResult {
+    discounts: Discount[];
+    /** Motivo por el que se rechazó el código promocional, si se envió uno */
+    promoError?: string;
+}
+
+function toDiscount(row: QuoteDiscountRow): Discount {
+    return {
+        id: row.discount_id,
+        name: row.name,
+        amount: Number(row.amount),
+        type: row.discount_type === 'percentage' ? 'percentage' : 'fixed',
+        source: DISCOUNT_SOURCES.includes(row.source as DiscountSource) ? row.source as DiscountSource : undefined,
+        max_amount: row.max_amount ?? undefined,
+    };
+}
+
+function roundCents(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+/**
+ * Aplicar descuentos sobre el total antes de IVA
+ * Los porcentajes se calculan sobre el total sin descuentos; el total nunca queda negativo
+ */
+export function applyDiscounts(
+    total: number,
+    discounts: Discount[]
+): { discounts: Discount[]; lines: QuoteLineItem[]; discountTotal: number } {
+    let remaining = total;
+    const applied: Discount[] = [];
+    const lines: QuoteLineItem[] = [];
+
+    for (const discount of discounts) {
+        let value = discount.type === 'percentage' ? total * (discount.amount / 100) : discount.amount;
+        if (discount.max_amount !== undefined) {
+            value = Math.min(value, discount.max_amount);
+        }
+        value = roundCents(Math.min(Math.max(value, 0), remaining));
+
+        applied.push({ ...discount, applied_amount: value });
+        if (value > 0) {
+            lines.push({ id: `discount:${discount.id}`, kind: 'discount', label: discount.name, amount: -value });
+            remaining -= value;
+        }
+    }
+
+    return { discounts: applied, lines, discountTotal: roundCents(total - remaining) };
+}
+
+export class DiscountService {
+    /**
+     * Descuentos elegibles para una cotización (validados en el servidor)
+     */
+    static async getQuoteDiscounts(params: {
+        clientId: string;
+        discipline: string;
+        subtotal: number;
+        promoCode?: string;
+        signal?: AbortSignal;
+    }): Promise<QuoteDiscountsResult> {
+        assertValid(validateUUID(params.clientId));
+        const promoCode = params.promoCode?.trim().toUpperCase() || null;
+
+        const { data, error } = await requestExecutor.execute(
+            signal => DiscountsRepository.listForQuote({
+                p_client_id: params.clientId,
+                p_discipline: params.discipline,
+                p_subtotal: params.subtotal,
+                p_promo_code: promoCode,
+            }, signal),
+            { signal: params.signal, policy: RequestPolicies.read, timeoutMessage: 'Timeout al obtener descuentos' }
+        );
+
+        if (error) {
+            throw toAppError(error, 'No se pudieron obtener los descuentos');
+        }
+
+        const rows = data || [];
+        const rejected = rows.find(row => row.rejection_reason);
+
+        return {
+            discounts: rows.filter(row => !row.rejection_reason).map(toDiscount),
+            promoError: rejected
+                ? PROMO_REJECTION_MESSAGES[rejected.rejection_reason!] || 'El código no es válido'
+                : undefined,
+        };
+    }
+
+    /**
+     * Confirmar en el servidor que los descuentos de la cotización siguen vigentes
+     * Lanza un AppError de validación si alguno cambió desde que se mostró la cotización
+     */
+    static async assertQuoteDiscounts(params: {
+        clientId: string;
+        discipline: string;
+        subtotal: number;
+        promoCode?: string;
+        discounts: Discount[];
+    }): Promise<void> {
+        const { discounts: current } = await this.getQuoteDiscounts(params);
+
+        const unchanged = params.discounts.every(discount => current.some(server =>
+            server.id === discount.id
+            && server.type === discount.type
+            && server.amount === discount.amount
+            && server.max_amount === discount.max_amount
+        ));
+
+        if (!unchanged) {
+            throw new AppError('validation', {
+                code: 'quote.discounts_changed',
+                title: 'Descuentos actualizados',
+                userMessage: 'Uno de tus descuentos ya no es válido. Revisa tu cotización antes de confirmar.',
+            });
+        }
+    }
+
+    /**
+     * Registrar el uso de los descuentos al crear el lead (usos del código, créditos consumidos)
+     */
+    static async redeemQuoteDiscounts(leadId: string, clientId: string, discounts: Discount[], promoCode?: string): Promise<void> {
+        const { error } = await requestExecutor.execute(
+            signal => DiscountsRepository.redeem({
+                p_lead_id: leadId,
+                p_client_id: clientId,
+                p_discount_ids: discounts.map(discount => discount.id),
+                p_promo_code: promoCode?.trim().toUpperCase() || null,
+            }, signal),
+            { policy: RequestPolicies.write, timeoutMessage: 'Timeout al registrar descuentos' }
+        );
+
+        if (error) {
+            throw toAppError(error, 'No se pudieron registrar los descuentos');
+        }
+    }
+}
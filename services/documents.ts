@@ -0,0 +1,305 @@
+import { Platform, Share } from 'react-native';
+import * as FileSystem from 'expo-file-system/legacy';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { QuoteService, ServiceMaterial, ServiceQuote } from './quotes';
+import { getMaterialLineTotal } from './materials';
+import { getGuaranteeDays, getGuaranteeDaysRange } from './guarantees';
+import { formatPrice } from './priceFormatter';
+import type { PaymentMethod } from './paymentPreferences';
+
+/**
+ * Documents Service - Cotización y recibo imprimibles
+ * Arma un documento HTML que en móvil se convierte a PDF para compartir (en web se abre la
+ * vista de impresión) y un resumen en texto para chat. Se comparte desde la confirmación
+ * de la solicitud y desde el detalle del lead.
+ */
+
+export type ServiceDocumentKind = 'quote' | 'receipt';
+
+export interface ServiceDocumentData {
+    kind: ServiceDocumentKind;
+    quote: ServiceQuote;
+    serviceName: string;
+    /** Disciplina del servicio: define los días de garantía */
+    discipline?: string | null;
+    /** Folio del documento (p. ej. primeros caracteres del id del lead) */
+    folio?: string;
+    issuedAt?: Date;
+    clientName?: string | null;
+    address?: string | null;
+    /** Fecha de la cita (YYYY-MM-DD) */
+    appointmentDate?: string | null;
+    professional?: {
+        name: string | null;
+        profession?: string | null;
+        rating?: number | null;
+    } | null;
+    /** Materiales propuestos; los rechazados no se incluyen */
+    materials?: ServiceMaterial[];
+    paymentMethod?: PaymentMethod | 'pending' | null;
+}
+
+export const DOCUMENT_TITLES: Record<ServiceDocumentKind, string> = {
+    quote: 'Cotización',
+    receipt: 'Recibo de servicio',
+};
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+    cash: 'Efectivo',
+    debit: 'Tarjeta de débito',
+    credit: 'Tarjeta de crédito',
+};
+
+/**
+ * Plazo de la garantía: el de la disciplina o, sin ella, el rango de services/guarantees.ts
+ */
+export function describeGuaranteePeriod(discipline?: string | null): string {
+    if (discipline) return `${getGuaranteeDays(discipline)} días`;
+    const { min, max } = getGuaranteeDaysRange();
+    return min === max ? `${min} días` : `${min} a ${max} días según el tipo de servicio`;
+}
+
+/**
+ * Términos de la Garantía TulBox (mismo contenido que GuaranteeModal)
+ */
+export function getGuaranteeTerms(discipline?: string | null): string[] {
+    return [
+        'Tu pago está protegido hasta que el trabajo esté terminado y verificado.',
+        `Garantía de ${describeGuaranteePeriod(discipline)}: reparación o reembolso.`,
+        'Todos los profesionales están verificados por TulBox.',
+        'La garantía aplica a servicios contratados y pagados a través de TulBoxApp; consulta los Términos y Condiciones.',
+    ];
+}
+
+export interface DocumentTotals {
+    /** Servicio con IVA */
+    service: number;
+    materials: number;
+    total: number;
+}
+
+function formatAmount(amount: number): string {
+    if (amount === 0) return '$0.00';
+    return `${amount < 0 ? '-' : ''}${formatPrice(Math.abs(amount))}`;
+}
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+function formatDate(date: Date): string {
+    return date.toLocaleDateString('es-MX', { day: 'numeric', month: 'long', year: 'numeric' });
+}
+
+/**
+ * Materiales que entran en el documento: en la cotización todo lo no rechazado,
+ * en el recibo solo lo aprobado o comprado
+ */
+export function getDocumentMaterials(data: ServiceDocumentData): ServiceMaterial[] {
+    return (data.materials || []).filter(material => data.kind === 'quote'
+        ? material.status !== 'rejected'
+        : material.status === 'approved' || material.status === 'purchased');
+}
+
+export function getDocumentTotals(data: ServiceDocumentData): DocumentTotals {
+    const service = Math.round(data.quote.total_with_tax * 100) / 100;
+    const materials = Math.round(
+        getDocumentMaterials(data).reduce((sum, material) => sum + getMaterialLineTotal(material), 0) * 100
+    ) / 100;
+    return { service, materials, total: Math.round((service + materials) * 100) / 100 };
+}
+
+function describePaymentMethod(method: ServiceDocumentData['paymentMethod']): string {
+    return method && method !== 'pending' ? PAYMENT_METHOD_LABELS[method] : 'Por definir';
+}
+
+/**
+ * Documento HTML imprimible (estilos en línea, sin recursos externos)
+ */
+export function renderServiceDocumentHtml(data: ServiceDocumentData): string {
+    const title = DOCUMENT_TITLES[data.kind];
+    const issuedAt = data.issuedAt || new Date();
+    const lines = QuoteService.getBreakdown(data.quote);
+    const materials = getDocumentMaterials(data);
+    const totals = getDocumentTotals(data);
+    const tax = data.quote.total_with_tax - data.quote.total;
+
+    const details: Array<[string, string | null | undefined]> = [
+        ['Servicio', data.serviceName],
+        ['Cliente', data.clientName],
+        ['Dirección', data.address],
+        ['Fecha de la cita', data.appointmentDate],
+        ['Profesional', data.professional?.name
+            ? [data.professional.name, data.professional.profession].filter(Boolean).join(' · ')
+            : null],
+        ['Método de pago', describePaymentMethod(data.paymentMethod)],
+    ];
+
+    const row = (label: string, amount: string, className = '') =>
+        `<tr class="${className}"><td>${escapeHtml(label)}</td><td class="amount">${amount}</td></tr>`;
+
+    const materialsTable = materials.length === 0 ? '' : `
+    <h2>Materiales</h2>
+    <table>
+      <thead><tr><th>Material</th><th>Cantidad</th><th class="amount">Precio unitario</th><th class="amount">Importe</th></tr></thead>
+      <tbody>
+        ${materials.map(material => `<tr>
+          <td>${escapeHtml(material.material_name)}${material.purchase_service_fee > 0
+            ? `<br><small>Incluye ${formatAmount(material.purchase_service_fee)} por compra</small>` : ''}${data.kind === 'quote' && material.status === 'pending'
+            ? '<br><small>Por aprobar</small>' : ''}</td>
+          <td>${material.quantity} ${escapeHtml(material.unit)}</td>
+          <td class="amount">${formatAmount(material.unit_price)}</td>
+          <td class="amount">${formatAmount(getMaterialLineTotal(material))}</td>
+        </tr>`).join('')}
+      </tbody>
+    </table>`;
+
+    return `<!DOCTYPE html>
+<html lang="es">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(`${title} ${data.folio || ''}`.trim())} · TulBox</title>
+<style>
+  body { font-family: -apple-system, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; color: #1E293B; margin: 32px; }
+  header { display: flex; justify-content: space-between; align-items: flex-start; border-bottom: 2px solid #6D28D9; padding-bottom: 12px; }
+  .brand { font-size: 24px; font-weight: 700; color: #6D28D9; }
+  h1 { font-size: 20px; margin: 0; text-align: right; }
+  h2 { font-size: 15px; margin: 24px 0 8px; }
+  .muted { color: #64748B; font-size: 12px; }
+  dl { display: grid; grid-template-columns: 140px 1fr; gap: 4px 12px; margin: 16px 0 0; font-size: 14px; }
+  dt { color: #64748B; }
+  dd { margin: 0; }
+  table { width: 100%; border-collapse: collapse; font-size: 14px; }
+  th { text-align: left; color: #64748B; font-weight: 600; border-bottom: 1px solid #E2E8F0; padding: 6px 0; }
+  td { padding: 6px 0; border-bottom: 1px solid #F1F5F9; vertical-align: top; }
+  .amount { text-align: right; white-space: nowrap; }
+  .discount td { color: #059669; }
+  .total td { font-weight: 700; font-size: 16px; border-top: 2px solid #1E293B; border-bottom: none; }
+  small { color: #64748B; }
+  ul { padding-left: 18px; font-size: 13px; color: #334155; }
+  footer { margin-top: 32px; font-size: 11px; color: #94A3B8; }
+  @media print { body { margin: 16mm; } }
+</style>
+</head>
+<body>
+  <header>
+    <div><div class="brand">TulBox</div><div class="muted">tulbox.pro</div></div>
+    <div>
+      <h1>${escapeHtml(title)}</h1>
+      <div class="muted" style="text-align: right">${data.folio ? `Folio ${escapeHtml(data.folio)} · ` : ''}${escapeHtml(formatDate(issuedAt))}</div>
+    </div>
+  </header>
+
+  <dl>
+    ${details.filter(([, value]) => !!value).map(([label, value]) =>
+        `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(String(value))}</dd>`).join('\n    ')}
+  </dl>
+
+  <h2>Servicio</h2>
+  <table>
+    <tbody>
+      ${lines.map(line => row(line.label, formatAmount(line.amount), line.amount < 0 ? 'discount' : '')).join('\n      ')}
+      ${row('Subtotal', formatAmount(data.quote.total))}
+      ${row(`IVA (${Math.round(data.quote.tax_rate * 100)}%)`, formatAmount(tax))}
+      ${row('Total del servicio', formatAmount(totals.service))}
+    </tbody>
+  </table>
+  ${materialsTable}
+
+  <table style="margin-top: 16px">
+    <tbody>
+      ${totals.materials > 0 ? row('Materiales', formatAmount(totals.materials)) : ''}
+      ${row(data.kind === 'quote' ? 'Total estimado' : 'Total pagado', formatAmount(totals.total), 'total')}
+    </tbody>
+  </table>
+
+  <h2>Garantía TulBox</h2>
+  <ul>
+    ${getGuaranteeTerms(data.discipline).map(term => `<li>${escapeHtml(term)}</li>`).join('\n    ')}
+  </ul>
+
+  <footer>
+    ${data.kind === 'quote'
+        ? 'Cotización informativa; el precio final se confirma al aceptar la solicitud y cualquier cambio requiere tu aprobación.'
+        : 'Este recibo no es un comprobante fiscal. Solicita tu factura desde el detalle del servicio.'}
+  </footer>
+</body>
+</html>`;
+}
+
+/**
+ * Resumen en texto para compartir por WhatsApp o correo
+ */
+export function renderServiceDocumentText(data: ServiceDocumentData): string {
+    const totals = getDocumentTotals(data);
+    const materials = getDocumentMaterials(data);
+    const lines = QuoteService.getBreakdown(data.quote);
+
+    const parts = [
+        `*${DOCUMENT_TITLES[data.kind]} TulBox${data.folio ? ` #${data.folio}` : ''}*`,
+        data.serviceName,
+        data.professional?.name ? `Profesional: ${data.professional.name}` : null,
+        data.appointmentDate ? `Cita: ${data.appointmentDate}` : null,
+        '',
+        ...lines.map(line => `• ${line.label}: ${formatAmount(line.amount)}`),
+        `IVA (${Math.round(data.quote.tax_rate * 100)}%): ${formatAmount(data.quote.total_with_tax - data.quote.total)}`,
+        ...(materials.length > 0
+            ? ['', 'Materiales:', ...materials.map(material =>
+                `• ${material.material_name} (${material.quantity} ${material.unit}): ${formatAmount(getMaterialLineTotal(material))}`)]
+            : []),
+        '',
+        `${data.kind === 'quote' ? 'Total estimado' : 'Total pagado'}: ${formatAmount(totals.total)}`,
+        `Método de pago: ${describePaymentMethod(data.paymentMethod)}`,
+        '',
+        `Incluye Garantía TulBox de ${describeGuaranteePeriod(data.discipline)}.`,
+    ];
+    return parts.filter(part => part !== null).join('\n');
+}
+
+export class DocumentsService {
+    /**
+     * Compartir el documento: en web abre la vista de impresión (Guardar como PDF);
+     * en móvil genera el PDF y abre el menú de compartir con el archivo
+     */
+    static async share(data: ServiceDocumentData): Promise<void> {
+        const html = renderServiceDocumentHtml(data);
+        const title = `${DOCUMENT_TITLES[data.kind]} TulBox`;
+
+        if (Platform.OS === 'web') {
+            const printWindow = typeof window !== 'undefined' ? window.open('', '_blank') : null;
+            if (printWindow) {
+                printWindow.document.write(html);
+                printWindow.document.close();
+                printWindow.focus();
+                printWindow.print();
+            } else {
+                // Ventanas emergentes bloqueadas: al menos el resumen en texto
+                await Share.share({ title, message: renderServiceDocumentText(data) });
+            }
+            return;
+        }
+
+        const { uri } = await Print.printToFileAsync({ html });
+
+        // Nombre legible para quien recibe el archivo
+        let fileUri = uri;
+        if (FileSystem.cacheDirectory) {
+            fileUri = `${FileSystem.cacheDirectory}${data.kind === 'quote' ? 'cotizacion' : 'recibo'}-${data.folio || Date.now()}.pdf`;
+            await FileSystem.deleteAsync(fileUri, { idempotent: true });
+            await FileSystem.moveAsync({ from: uri, to: fileUri });
+        }
+
+        await Sharing.shareAsync(fileUri, {
+            mimeType: 'application/pdf',
+            UTI: 'com.adobe.pdf',
+            dialogTitle: title,
+        });
+    }
+}
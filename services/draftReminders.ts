@@ -0,0 +1,144 @@
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import type { DraftReminderSettings, RequestDraft } from './requestDrafts';
+
+/**
+ * Draft Reminders - Notificación local para retomar una solicitud sin terminar
+ * Cada autoguardado reprograma la notificación del borrador a `after_hours` de su último
+ * cambio; descartarlo (o enviarlo) la cancela. En web o sin permiso de notificaciones el
+ * inicio muestra el recordatorio al abrir la app.
+ */
+
+export interface DraftReminderScheduler {
+    /** false en web o sin permiso de notificaciones */
+    isAvailable(): Promise<boolean>;
+    schedule(draft: RequestDraft, settings: DraftReminderSettings, now?: Date): Promise<void>;
+    cancel(key: string): Promise<void>;
+    /** Cancela los recordatorios de todos los borradores (al cerrar sesión) */
+    cancelAll(): Promise<void>;
+}
+
+const IDENTIFIER_PREFIX = 'draft-reminder:';
+const ANDROID_CHANNEL_ID = 'request-drafts';
+const HOUR_MS = 60 * 60 * 1000;
+
+export const getDraftReminderId = (key: string) => `${IDENTIFIER_PREFIX}${key}`;
+
+/**
+ * Cuándo recordar el borrador (null si los recordatorios están apagados o ya pasó la hora)
+ * El diagnóstico con IA no se recuerda: se retoma en su propio buscador
+ */
+export function getDraftReminderDate(
+    draft: RequestDraft,
+    settings: DraftReminderSettings,
+    now: Date = new Date()
+): Date | null {
+    if (!settings.enabled || draft.step === 'diagnostic') return null;
+
+    const date = new Date(new Date(draft.updated_at).getTime() + settings.after_hours * HOUR_MS);
+    return date.getTime() > now.getTime() ? date : null;
+}
+
+async function ensurePermission(): Promise<boolean> {
+    if (Platform.OS === 'android') {
+        // Android 13+ pide un canal antes de solicitar el permiso
+        await Notifications.setNotificationChannelAsync(ANDROID_CHANNEL_ID, {
+            name: 'Solicitudes sin terminar',
+            importance: Notifications.AndroidImportance.DEFAULT,
+        });
+    }
+
+    const current = await Notifications.getPermissionsAsync();
+    if (current.granted) return true;
+    if (!current.canAskAgain) return false;
+    return (await Notifications.requestPermissionsAsync()).granted;
+}
+
+/**
+ * Programador con expo-notifications; los errores no interrumpen el autoguardado
+ */
+export function createDraftReminderScheduler(): DraftReminderScheduler {
+    const supported = Platform.OS !== 'web';
+    let permission: Promise<boolean> | null = null;
+    const hasPermission = () => {
+        if (!permission) {
+            permission = ensurePermission().catch(error => {
+                console.warn('[DraftReminders] Error requesting notification permission:', error);
+                return false;
+            });
+        }
+        return permission;
+    };
+
+    const cancel = async (key: string) => {
+        if (!supported) return;
+        try {
+            await Notifications.cancelScheduledNotificationAsync(getDraftReminderId(key));
+        } catch (error) {
+            console.warn('[DraftReminders] Error cancelling reminder:', error);
+        }
+    };
+
+    return {
+        isAvailable: async () => supported && hasPermission(),
+
+        async schedule(draft, settings, now = new Date()) {
+            await cancel(draft.key);
+
+            const date = getDraftReminderDate(draft, settings, now);
+            if (!date || !supported || !(await hasPermission())) return;
+
+            try {
+                await Notifications.scheduleNotificationAsync({
+                    identifier: getDraftReminderId(draft.key),
+                    content: {
+                        title: '¿Terminamos tu solicitud?',
+                        body: `Dejaste pendiente "${draft.service_name || 'tu solicitud'}". Continúa donde te quedaste.`,
+                        data: { draftKey: draft.key },
+                    },
+                    trigger: {
+                        type: Notifications.SchedulableTriggerInputTypes.DATE,
+                        date,
+                        channelId: ANDROID_CHANNEL_ID,
+                    },
+                });
+            } catch (error) {
+                console.warn('[DraftReminders] Error scheduling reminder:', error);
+            }
+        },
+
+        cancel,
+
+        async cancelAll() {
+            if (!supported) return;
+            try {
+                const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+                await Promise.all(scheduled
+                    .filter(request => request.identifier.startsWith(IDENTIFIER_PREFIX))
+                    .map(request => Notifications.cancelScheduledNotificationAsync(request.identifier)));
+            } catch (error) {
+                console.warn('[DraftReminders] Error cancelling reminders:', error);
+            }
+        },
+    };
+}
+
+/**
+ * Avisar cuando el cliente abre un recordatorio (incluye el que abrió la app)
+ * Devuelve la función para dejar de escuchar
+ */
+export function onDraftReminderOpened(callback: (key: string) => void): () => void {
+    if (Platform.OS === 'web') return () => {};
+
+    const handle = (response: Notifications.NotificationResponse | null) => {
+        const key = response?.notification.request.content.data?.draftKey;
+        if (typeof key !== 'string') return;
+        // Se atiende una sola vez aunque la pantalla se vuelva a montar
+        Notifications.clearLastNotificationResponse();
+        callback(key);
+    };
+
+    handle(Notifications.getLastNotificationResponse());
+    const subscription = Notifications.addNotificationResponseReceivedListener(handle);
+    return () => subscription.remove();
+}
@@ -0,0 +1,336 @@
+/**
+ * Error Service - Taxonomía de errores de la app
+ * Convierte fallas de Supabase/PostgREST, red, timeout (withTimeout) y validación
+ * (ValidationResult) en un AppError con texto para el usuario, si se puede reintentar
+ * y un código estable para telemetría.
+ */
+
+import type { ValidationResult } from './validation';
+import { LeadTransitionError } from './leadLifecycle';
+
+export type AppErrorKind =
+    | 'network'
+    | 'timeout'
+    | 'not_found'
+    | 'permission'
+    | 'auth'
+    | 'schema'
+    | 'conflict'
+    | 'validation'
+    | 'transition'
+    | 'cancelled'
+    | 'unknown';
+
+/**
+ * Códigos de Postgres/PostgREST que la app distingue
+ */
+export const DB_ERROR_CODES = {
+    MISSING_COLUMN: '42703',
+    MISSING_TABLE: '42P01',
+    MISSING_FUNCTION: '42883',
+    MISSING_RPC: 'PGRST202',
+    NO_ROWS: 'PGRST116',
+    RLS_DENIED: '42501',
+    JWT_DENIED: 'PGRST301',
+    JWT_EXPIRED: 'PGRST303',
+    DUPLICATE: '23505',
+    NOT_NULL: '23502',
+    CHECK_VIOLATION: '23514',
+    FOREIGN_KEY: '23503',
+    INVALID_DATETIME: '22007',
+    INVALID_TEXT: '22P02',
+} as const;
+
+/** Código que usa withTimeout cuando la operación excede el tiempo límite */
+export const TIMEOUT_ERROR_CODE = 'TIMEOUT';
+
+/** Código que usa el executor cuando la solicitud se cancela (p. ej. la pantalla se desmontó) */
+export const ABORTED_ERROR_CODE = 'ABORTED';
+
+const ERROR_COPY: Record<AppErrorKind, { title: string; message: string }> = {
+    network: {
+        title: 'Sin conexión',
+        message: 'Revisa tu conexión a internet e intenta de nuevo.',
+    },
+    timeout: {
+        title: 'Tardó demasiado',
+        message: 'El servidor tardó en responder. Intenta de nuevo en unos segundos.',
+    },
+    not_found: {
+        title: 'No encontrado',
+        message: 'No encontramos la información solicitada.',
+    },
+    permission: {
+        title: 'Sin permisos',
+        message: 'No tienes permisos para realizar esta acción.',
+    },
+    auth: {
+        title: 'Sesión expirada',
+        message: 'Tu sesión expiró. Inicia sesión de nuevo.',
+    },
+    schema: {
+        title: 'Función no disponible',
+        message: 'Esta función aún no está disponible. Intenta más tarde.',
+    },
+    conflict: {
+        title: 'Ya existe',
+        message: 'Este registro ya existe. Revisa tus datos.',
+    },
+    validation: {
+        title: 'Revisa los datos',
+        message: 'Algunos datos no son válidos. Revísalos e intenta de nuevo.',
+    },
+    transition: {
+        title: 'Acción no permitida',
+        message: 'Esta acción no está disponible en el estado actual de la solicitud.',
+    },
+    cancelled: {
+        title: 'Cancelado',
+        message: 'La operación se canceló.',
+    },
+    unknown: {
+        title: 'Error',
+        message: 'Ocurrió un error inesperado. Intenta de nuevo.',
+    },
+};
+
+const RETRYABLE_KINDS: ReadonlySet<AppErrorKind> = new Set(['network', 'timeout', 'unknown']);
+
+export interface AppErrorOptions {
+    code: string;
+    title?: string;
+    userMessage?: string;
+    retryable?: boolean;
+    sourceCode?: string;
+    cause?: unknown;
+}
+
+export class AppError extends Error {
+    readonly kind: AppErrorKind;
+    /** Código estable para telemetría (p. ej. `db.missing_column`) */
+    readonly code: string;
+    readonly title: string;
+    /** Texto en español para mostrar al usuario */
+    readonly userMessage: string;
+    readonly retryable: boolean;
+    /** Código original (Postgres, PostgREST, ValidationResult) */
+    readonly sourceCode?: string;
+    readonly cause?: unknown;
+
+    constructor(kind: AppErrorKind, options: AppErrorOptions) {
+        const copy = ERROR_COPY[kind];
+        const userMessage = options.userMessage || copy.message;
+        super(userMessage);
+        this.name = 'AppError';
+        this.kind = kind;
+        this.code = options.code;
+        this.title = options.title || copy.title;
+        this.userMessage = userMessage;
+        this.retryable = options.retryable ?? RETRYABLE_KINDS.has(kind);
+        this.sourceCode = options.sourceCode;
+        this.cause = options.cause;
+    }
+}
+
+/**
+ * Campo de texto de un error de forma desconocida (Error, PostgrestError, objeto plano)
+ */
+export function errorField(error: unknown, field: 'code' | 'name' | 'message' | 'details' | 'hint'): string | undefined {
+    if (typeof error !== 'object' || error === null) return undefined;
+    const value = (error as Record<string, unknown>)[field];
+    return typeof value === 'string' ? value : undefined;
+}
+
+function errorCode(error: unknown): string | undefined {
+    return errorField(error, 'code');
+}
+
+/**
+ * La columna no existe (migración pendiente)
+ */
+export function isMissingColumnError(error: unknown): boolean {
+    return errorCode(error) === DB_ERROR_CODES.MISSING_COLUMN;
+}
+
+/**
+ * La tabla no existe (migración pendiente)
+ */
+export function isMissingTableError(error: unknown): boolean {
+    return errorCode(error) === DB_ERROR_CODES.MISSING_TABLE;
+}
+
+/**
+ * La función RPC no existe (migración pendiente)
+ */
+export function isMissingFunctionError(error: unknown): boolean {
+    const code = errorCode(error);
+    return code === DB_ERROR_CODES.MISSING_RPC || code === DB_ERROR_CODES.MISSING_FUNCTION;
+}
+
+/**
+ * `.single()` sin filas
+ */
+export function isNoRowsError(error: unknown): boolean {
+    return errorCode(error) === DB_ERROR_CODES.NO_ROWS;
+}
+
+/**
+ * Bloqueado por RLS / permisos
+ */
+export function isPermissionError(error: unknown): boolean {
+    const code = errorCode(error);
+    return code === DB_ERROR_CODES.RLS_DENIED || code === DB_ERROR_CODES.JWT_DENIED;
+}
+
+/**
+ * Error de Postgres por clave duplicada: en un replay significa que la mutación ya se aplicó
+ */
+export function isDuplicateError(error: unknown): boolean {
+    return errorCode(error) === DB_ERROR_CODES.DUPLICATE;
+}
+
+/**
+ * La solicitud se canceló (AbortController); no se debe mostrar al usuario
+ */
+export function isAbortError(error: unknown): boolean {
+    if (!error) return false;
+    if (error instanceof AppError) return error.kind === 'cancelled';
+    if (errorCode(error) === ABORTED_ERROR_CODE || errorField(error, 'name') === 'AbortError') return true;
+    return (errorField(error, 'message') || '').includes('AbortError');
+}
+
+/**
+ * Determinar si un error es de conectividad (reintentar más tarde)
+ * o definitivo (RLS, validación, etc.)
+ */
+export function isNetworkError(error: unknown): boolean {
+    if (!error) return false;
+    if (error instanceof AppError) return error.kind === 'network' || error.kind === 'timeout';
+    if (errorCode(error) === TIMEOUT_ERROR_CODE) return true;
+    const message = (errorField(error, 'message') || String(error)).toLowerCase();
+    return (
+        message.includes('network request failed') ||
+        message.includes('failed to fetch') ||
+        message.includes('network error') ||
+        message.includes('timeout') ||
+        message.includes('tiempo límite')
+    );
+}
+
+/**
+ * Convertir cualquier falla (Supabase, red, timeout, LeadTransitionError, Error) en AppError
+ * `fallbackMessage` se usa como texto para el usuario cuando el tipo de error no tiene uno más preciso
+ */
+export function toAppError(error: unknown, fallbackMessage?: string): AppError {
+    if (error instanceof AppError) return error;
+
+    const code = errorCode(error);
+
+    if (error instanceof LeadTransitionError) {
+        return new AppError('transition', {
+            code: 'lead.invalid_transition',
+            userMessage: error.message,
+            sourceCode: error.code,
+            cause: error,
+        });
+    }
+
+    if (isAbortError(error)) {
+        return new AppError('cancelled', { code: 'net.aborted', sourceCode: code, cause: error });
+    }
+
+    if (code === TIMEOUT_ERROR_CODE) {
+        return new AppError('timeout', { code: 'net.timeout', sourceCode: code, cause: error });
+    }
+
+    if (isNetworkError(error)) {
+        return new AppError('network', { code: 'net.unreachable', sourceCode: code, cause: error });
+    }
+
+    switch (code) {
+        case DB_ERROR_CODES.NO_ROWS:
+            return new AppError('not_found', { code: 'db.no_rows', userMessage: fallbackMessage, sourceCode: code, cause: error });
+        case DB_ERROR_CODES.RLS_DENIED:
+        case DB_ERROR_CODES.JWT_DENIED:
+            return new AppError('permission', { code: 'db.permission_denied', sourceCode: code, cause: error });
+        case DB_ERROR_CODES.JWT_EXPIRED:
+            return new AppError('auth', { code: 'auth.session_expired', sourceCode: code, cause: error });
+        case DB_ERROR_CODES.MISSING_COLUMN:
+            return new AppError('schema', { code: 'db.missing_column', sourceCode: code, cause: error });
+        case DB_ERROR_CODES.MISSING_TABLE:
+            return new AppError('schema', { code: 'db.missing_table', sourceCode: code, cause: error });
+        case DB_ERROR_CODES.MISSING_RPC:
+        case DB_ERROR_CODES.MISSING_FUNCTION:
+            return new AppError('schema', { code: 'db.missing_function', sourceCode: code, cause: error });
+        case DB_ERROR_CODES.DUPLICATE:
+            return new AppError('conflict', { code: 'db.duplicate', userMessage: fallbackMessage, sourceCode: code, cause: error });
+        case DB_ERROR_CODES.NOT_NULL:
+            return new AppError('validation', {
+                code: 'db.not_null',
+                userMessage: 'Faltan campos requeridos. Por favor completa todos los datos.',
+                sourceCode: code,
+                cause: error,
+            });
+        case DB_ERROR_CODES.INVALID_DATETIME:
+            return new AppError('validation', {
+                code: 'db.invalid_datetime',
+                userMessage: 'Error en el formato de fecha. Por favor intenta de nuevo.',
+                sourceCode: code,
+                cause: error,
+            });
+        case DB_ERROR_CODES.CHECK_VIOLATION:
+        case DB_ERROR_CODES.FOREIGN_KEY:
+        case DB_ERROR_CODES.INVALID_TEXT:
+            return new AppError('validation', { code: 'db.invalid_data', userMessage: fallbackMessage, sourceCode: code, cause: error });
+    }
+
+    return new AppError('unknown', {
+        code: code ? `db.${code.toLowerCase()}` : 'app.unknown',
+        userMessage: fallbackMessage,
+        sourceCode: code,
+        cause: error,
+    });
+}
+
+/**
+ * AppError a partir de un ValidationResult inválido (el mensaje ya está en español)
+ */
+export function fromValidation(result: ValidationResult): AppError {
+    const sourceCode = result.error?.code || 'INVALID';
+    return new AppError('validation', {
+        code: `validation.${sourceCode.toLowerCase()}`,
+        userMessage: result.error?.message,
+        sourceCode,
+    });
+}
+
+/**
+ * Lanzar AppError si la validación falló
+ */
+export function assertValid(result: ValidationResult): void {
+    if (!result.valid) {
+        throw fromValidation(result);
+    }
+}
+
+/**
+ * Registrar un error con su código de telemetría y devolverlo como AppError
+ * (las cancelaciones no se registran). Por ahora solo se escribe en la consola: la app
+ * no tiene un servicio de telemetría; el código estable es lo que habría que enviarle.
+ */
+export function reportError(context: string, error: unknown, fallbackMessage?: string): AppError {
+    const appError = toAppError(error, fallbackMessage);
+    if (appError.kind === 'cancelled') {
+        return appError;
+    }
+    const cause = appError.cause;
+    console.error(`[${context}] ${appError.code}`, {
+        kind: appError.kind,
+        sourceCode: appError.sourceCode,
+        retryable: appError.retryable,
+        message: errorField(cause, 'message') ?? appError.message,
+        details: errorField(cause, 'details'),
+        hint: errorField(cause, 'hint'),
+    });
+    return appError;
+}
@@ -0,0 +1,356 @@
+import { validateUUID, ValidationResult } from './validation';
+import { cache, CacheKeys } from './cache';
+import { requestExecutor, RequestPolicies } from './requestExecutor';
+import { resolveLeadStatus } from './leadLifecycle';
+import { AppError, DB_ERROR_CODES, assertValid, isMissingTableError, toAppError } from './errors';
+import { LeadsRepository, LeadRow } from './repositories/leads';
+import { GuaranteeClaimsRepository, GuaranteeClaimRow } from './repositories/guaranteeClaims';
+
+/**
+ * Guarantees - Reclamos de garantía de servicios completados (ver SCHEMA_GARANTIAS.sql)
+ * La garantía dura de 30 a 90 días según la disciplina, contados desde que se completó el
+ * servicio. El cliente reporta la falla con evidencia; soporte resuelve con una visita de
+ * corrección, un reembolso o rechaza el reclamo.
+ */
+
+export type GuaranteeClaimStatus = 'submitted' | 'under_review' | 'revisit_scheduled' | 'refunded' | 'rejected';
+
+export type GuaranteeProblemType = 'not_working' | 'leak' | 'poor_finish' | 'incomplete' | 'damage' | 'other';
+
+export interface GuaranteeClaim {
+    id: string;
+    lead_id: string;
+    problem_type: GuaranteeProblemType;
+    description: string;
+    evidence_urls: string[];
+    status: GuaranteeClaimStatus;
+    /** Explicación de soporte al resolver */
+    resolution_note: string | null;
+    /** Visita de corrección (YYYY-MM-DD) */
+    revisit_date: string | null;
+    refund_amount: number | null;
+    created_at: string | null;
+    resolved_at: string | null;
+}
+
+export interface GuaranteeWindow {
+    days: number;
+    startsAt: Date;
+    endsAt: Date;
+    /** Días completos restantes (0 el último día) */
+    remainingDays: number;
+    active: boolean;
+}
+
+export interface GuaranteedService {
+    lead: LeadRow;
+    window: GuaranteeWindow;
+    /** Reclamo más reciente del servicio */
+    latestClaim: GuaranteeClaim | null;
+}
+
+/** Días de garantía por disciplina (mismos valores que guarantee_days() en SQL) */
+export const GUARANTEE_DAYS_BY_DISCIPLINE: Record<string, number> = {
+    'electricidad': 90,
+    'plomeria': 90,
+    'aire-acondicionado': 90,
+    'paneles-solares': 90,
+    'cargadores-electricos': 90,
+    'tablaroca': 90,
+    'carpinteria': 90,
+    'arquitectos-ingenieros': 90,
+    'pintura': 60,
+    'cctv': 60,
+    'wifi': 60,
+    'montaje': 60,
+};
+
+export const DEFAULT_GUARANTEE_DAYS = 30;
+
+export const GUARANTEE_PROBLEM_TYPES: Record<GuaranteeProblemType, { label: string; icon: string }> = {
+    not_working: { label: 'Dejó de funcionar', icon: 'power-outline' },
+    leak: { label: 'Fuga o filtración', icon: 'water-outline' },
+    poor_finish: { label: 'Mal acabado', icon: 'color-palette-outline' },
+    incomplete: { label: 'Trabajo incompleto', icon: 'construct-outline' },
+    damage: { label: 'Daño causado en el servicio', icon: 'warning-outline' },
+    other: { label: 'Otro problema', icon: 'help-circle-outline' },
+};
+
+export const GUARANTEE_CLAIM_STATUS_LABELS: Record<GuaranteeClaimStatus, string> = {
+    submitted: 'Enviado',
+    under_review: 'En revisión',
+    revisit_scheduled: 'Visita de corrección agendada',
+    refunded: 'Reembolsado',
+    rejected: 'Rechazado',
+};
+
+/** Estados en los que el reclamo sigue abierto (solo puede haber uno por servicio) */
+export const OPEN_CLAIM_STATUSES: GuaranteeClaimStatus[] = ['submitted', 'under_review'];
+
+export const MIN_CLAIM_DESCRIPTION_LENGTH = 20;
+export const MAX_CLAIM_EVIDENCE = 6;
+
+const CLAIM_STATUSES: GuaranteeClaimStatus[] = ['submitted', 'under_review', 'revisit_scheduled', 'refunded', 'rejected'];
+const PROBLEM_TYPES = Object.keys(GUARANTEE_PROBLEM_TYPES) as GuaranteeProblemType[];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getGuaranteeDays(discipline?: string | null): number {
+    return GUARANTEE_DAYS_BY_DISCIPLINE[discipline?.toLowerCase().trim() || ''] ?? DEFAULT_GUARANTEE_DAYS;
+}
+
+/**
+ * Garantía más corta y más larga entre todas las disciplinas (para textos generales)
+ */
+export function getGuaranteeDaysRange(): { min: number; max: number } {
+    const days = [DEFAULT_GUARANTEE_DAYS, ...Object.values(GUARANTEE_DAYS_BY_DISCIPLINE)];
+    return { min: Math.min(...days), max: Math.max(...days) };
+}
+
+/**
+ * Ventana de garantía de un servicio completado (null si aún no se completa)
+ * Sin completed_at (servicios anteriores a la migración) cuenta desde la última actualización
+ */
+export function getGuaranteeWindow(
+    lead: Pick<LeadRow, 'status' | 'estado' | 'servicio' | 'disciplina_ia' | 'completed_at' | 'updated_at'>,
+    now: Date = new Date()
+): GuaranteeWindow | null {
+    if (resolveLeadStatus(lead) !== 'completed') return null;
+
+    const startsAt = new Date(lead.completed_at || lead.updated_at);
+    if (Number.isNaN(startsAt.getTime())) return null;
+
+    const days = getGuaranteeDays(lead.servicio || lead.disciplina_ia);
+    const endsAt = new Date(startsAt.getTime() + days * DAY_MS);
+    const remainingMs = endsAt.getTime() - now.getTime();
+
+    return {
+        days,
+        startsAt,
+        endsAt,
+        remainingDays: Math.max(0, Math.floor(remainingMs / DAY_MS)),
+        active: remainingMs > 0,
+    };
+}
+
+export function formatGuaranteeRemaining(window: GuaranteeWindow): string {
+    if (!window.active) {
+        const date = window.endsAt.toLocaleDateString('es-MX', { day: 'numeric', month: 'short', year: 'numeric' });
+        return `Garantía vencida el ${date}`;
+    }
+    if (window.remainingDays === 0) return 'La garantía vence hoy';
+    return window.remainingDays === 1
+        ? 'Queda 1 día de garantía'
+        : `Quedan ${window.remainingDays} días de garantía`;
+}
+
+export function isOpenClaim(claim: Pick<GuaranteeClaim, 'status'>): boolean {
+    return OPEN_CLAIM_STATUSES.includes(claim.status);
+}
+
+/**
+ * Problema, descripción y de 1 a 6 fotos o videos
+ */
+export function validateGuaranteeClaim(input: {
+    problemType: string;
+    description: string;
+    evidenceUrls: string[];
+}): ValidationResult {
+    if (!PROBLEM_TYPES.includes(input.problemType as GuaranteeProblemType)) {
+        return {
+            valid: false,
+            error: { code: 'MISSING_CLAIM_PROBLEM', message: 'Elige qué problema tiene el servicio' },
+        };
+    }
+    if (input.description.trim().length < MIN_CLAIM_DESCRIPTION_LENGTH) {
+        return {
+            valid: false,
+            error: {
+                code: 'SHORT_CLAIM_DESCRIPTION',
+                message: `Describe qué falló (mínimo ${MIN_CLAIM_DESCRIPTION_LENGTH} caracteres)`,
+            },
+        };
+    }
+    if (input.evidenceUrls.length === 0) {
+        return {
+            valid: false,
+            error: { code: 'MISSING_CLAIM_EVIDENCE', message: 'Agrega al menos una foto o video del problema' },
+        };
+    }
+    if (input.evidenceUrls.length > MAX_CLAIM_EVIDENCE) {
+        return {
+            valid: false,
+            error: { code: 'TOO_MUCH_CLAIM_EVIDENCE', message: `Puedes adjuntar hasta ${MAX_CLAIM_EVIDENCE} archivos` },
+        };
+    }
+    return { valid: true };
+}
+
+export function toGuaranteeClaim(row: GuaranteeClaimRow): GuaranteeClaim {
+    return {
+        id: row.id,
+        lead_id: row.lead_id,
+        problem_type: PROBLEM_TYPES.includes(row.problem_type as GuaranteeProblemType)
+            ? row.problem_type as GuaranteeProblemType
+            : 'other',
+        description: row.description,
+        evidence_urls: row.evidence_urls ?? [],
+        status: CLAIM_STATUSES.includes(row.status as GuaranteeClaimStatus) ? row.status as GuaranteeClaimStatus : 'submitted',
+        resolution_note: row.resolution_note,
+        revisit_date: row.revisit_date,
+        refund_amount: row.refund_amount === null ? null : Number(row.refund_amount),
+        created_at: row.created_at,
+        resolved_at: row.resolved_at,
+    };
+}
+
+export class GuaranteeService {
+    /**
+     * Reclamos de un servicio (más reciente primero)
+     */
+    static async getLeadClaims(leadId: string, signal?: AbortSignal): Promise<GuaranteeClaim[]> {
+        assertValid(validateUUID(leadId));
+
+        const { data, error } = await requestExecutor.execute(
+            requestSignal => GuaranteeClaimsRepository.listByLead(leadId, requestSignal),
+            {
+                key: CacheKeys.guaranteeClaims(leadId),
+                signal,
+                policy: RequestPolicies.read,
+                timeoutMessage: 'Timeout al obtener los reclamos de garantía',
+            }
+        );
+
+        if (error) {
+            // Migración pendiente: el servicio se muestra sin reclamos
+            if (isMissingTableError(error)) {
+                console.warn('[GuaranteeService] guarantee_claims table not found, run SCHEMA_GARANTIAS.sql');
+                return [];
+            }
+            throw toAppError(error, 'No se pudieron obtener los reclamos de garantía');
+        }
+
+        return (data || []).map(toGuaranteeClaim);
+    }
+
+    /**
+     * Servicios completados del cliente con su garantía y último reclamo (vigentes primero)
+     */
+    static async getGuaranteedServices(clientId: string, now: Date = new Date()): Promise<GuaranteedService[]> {
+        assertValid(validateUUID(clientId));
+
+        const [leadsResult, claimsResult] = await Promise.all([
+            requestExecutor.execute(
+                () => LeadsRepository.listByClient(clientId),
+                { policy: RequestPolicies.read, timeoutMessage: 'Timeout al obtener tus servicios' }
+            ),
+            requestExecutor.execute(
+                signal => GuaranteeClaimsRepository.listByClient(clientId, signal),
+                {
+                    key: CacheKeys.guarantees(clientId),
+                    policy: RequestPolicies.read,
+                    timeoutMessage: 'Timeout al obtener tus reclamos de garantía',
+                }
+            ),
+        ]);
+
+        if (leadsResult.error) {
+            throw toAppError(leadsResult.error, 'No se pudieron obtener tus servicios');
+        }
+        if (claimsResult.error && !isMissingTableError(claimsResult.error)) {
+            throw toAppError(claimsResult.error, 'No se pudieron obtener tus reclamos de garantía');
+        }
+
+        const claims = (claimsResult.data || []).map(toGuaranteeClaim);
+
+        return (leadsResult.data || [])
+            .map(lead => ({
+                lead,
+                window: getGuaranteeWindow(lead, now),
+                latestClaim: claims.find(claim => claim.lead_id === lead.id) || null,
+            }))
+            .filter((service): service is GuaranteedService => service.window !== null)
+            .sort((a, b) => Number(b.window.active) - Number(a.window.active) || b.window.endsAt.getTime() - a.window.endsAt.getTime());
+    }
+
+    /**
+     * Enviar un reclamo de garantía; devuelve el ID del reclamo
+     * La RPC vuelve a validar dueño, estado, ventana y reclamo abierto
+     */
+    static async submitClaim(params: {
+        lead: Pick<LeadRow, 'id' | 'cliente_id' | 'status' | 'estado' | 'servicio' | 'disciplina_ia' | 'completed_at' | 'updated_at'>;
+        clientId: string;
+        problemType: GuaranteeProblemType;
+        description: string;
+        evidenceUrls: string[];
+    }, now: Date = new Date()): Promise<string> {
+        const { lead, clientId, problemType, description, evidenceUrls } = params;
+        assertValid(validateUUID(lead.id));
+        assertValid(validateGuaranteeClaim({ problemType, description, evidenceUrls }));
+
+        if (lead.cliente_id !== clientId) {
+            throw new AppError('permission', {
+                code: 'guarantee.not_owner',
+                userMessage: 'No tienes permisos para reclamar la garantía de este servicio',
+            });
+        }
+
+        const window = getGuaranteeWindow(lead, now);
+        if (!window) {
+            throw new AppError('transition', {
+                code: 'guarantee.not_completed',
+                userMessage: 'La garantía aplica a servicios completados',
+            });
+        }
+        if (!window.active) {
+            throw new AppError('transition', {
+                code: 'guarantee.expired',
+                userMessage: formatGuaranteeRemaining(window),
+            });
+        }
+
+        if ((await this.getLeadClaims(lead.id)).some(isOpenClaim)) {
+            throw new AppError('conflict', {
+                code: 'guarantee.open_claim_exists',
+                userMessage: 'Ya tienes un reclamo abierto para este servicio',
+            });
+        }
+
+        // Sin reintentos: la RPC no es idempotente
+        const { data, error } = await requestExecutor.execute(
+            signal => GuaranteeClaimsRepository.submit({
+                p_lead_id: lead.id,
+                p_problem_type: problemType,
+                p_description: description.trim(),
+                p_evidence_urls: evidenceUrls,
+            }, signal),
+            { policy: RequestPolicies.write, timeoutMessage: 'Timeout al enviar el reclamo' }
+        );
+
+        if (error) {
+            if (error.code === DB_ERROR_CODES.DUPLICATE) {
+                throw new AppError('conflict', {
+                    code: 'guarantee.open_claim_exists',
+                    userMessage: 'Ya tienes un reclamo abierto para este servicio',
+                    sourceCode: error.code,
+                    cause: error,
+                });
+            }
+            // El servicio dejó de estar completado o la garantía venció mientras tanto
+            if (error.code === DB_ERROR_CODES.CHECK_VIOLATION) {
+                throw new AppError('transition', {
+                    code: 'guarantee.not_allowed',
+                    userMessage: 'La garantía de este servicio ya no está vigente',
+                    sourceCode: error.code,
+                    cause: error,
+                });
+            }
+            throw toAppError(error, 'No se pudo enviar el reclamo');
+        }
+
+        cache.invalidate(CacheKeys.guaranteeClaims(lead.id));
+        cache.invalidate(CacheKeys.guarantees(clientId));
+        cache.invalidate(CacheKeys.leadEvents(lead.id));
+        return data as string;
+    }
+}
@@ -0,0 +1,346 @@
+import {
+    DISCIPLINE_CALCULATORS,
+    QUANTITY_CALCULATORS,
+    QuantityCalculatorType,
+    describeQuantityCalculation,
+    getQuantityCalculations,
+} from './quantityCalculators';
+
+/**
+ * Intake Forms - Formularios de solicitud definidos por servicio
+ * Cada servicio declara su formulario en `service_catalog.form_schema` (JSON); sin esquema se usa
+ * el formulario por defecto de la disciplina. Las respuestas validadas forman `form_data`, alimentan
+ * las reglas de precio (el `id` de la pregunta es el campo que usan) y se resumen para el profesional.
+ */
+
+export type IntakeQuestionType = 'choice' | 'number' | 'boolean' | 'text' | 'photo';
+
+export type IntakeAnswerValue = string | number | boolean | string[];
+
+export type IntakeAnswers = Record<string, IntakeAnswerValue | undefined>;
+
+export interface IntakeVisibilityRule {
+    /** Pregunta de la que depende */
+    field: string;
+    /** Se muestra si la respuesta es igual a este valor (o a uno de la lista) */
+    equals: IntakeAnswerValue | Array<string | number | boolean>;
+}
+
+export interface IntakeQuestion {
+    /** Campo de `form_data` (también usado por las reglas de precio) */
+    id: string;
+    label: string;
+    type: IntakeQuestionType;
+    required?: boolean;
+    /** Opciones para `choice` */
+    options?: Array<string | number>;
+    /** Unidad para `number` (p. ej. 'm2', 'equipos') */
+    unit?: string;
+    min?: number;
+    max?: number;
+    placeholder?: string;
+    /** Máximo de fotos para `photo` (por defecto 5) */
+    max_photos?: number;
+    visible_if?: IntakeVisibilityRule;
+    /** Calculadora que llena la cantidad (`number` o `choice`, ver quantityCalculators) */
+    calculator?: QuantityCalculatorType;
+}
+
+export interface IntakeFormSchema {
+    questions: IntakeQuestion[];
+}
+
+export interface IntakeValidationResult {
+    valid: boolean;
+    /** Mensaje por id de pregunta */
+    errors: Record<string, string>;
+    /** Respuestas normalizadas; descarta las de preguntas ocultas y conserva campos ajenos al esquema */
+    formData: IntakeAnswers;
+}
+
+export interface IntakeSummaryItem {
+    id: string;
+    label: string;
+    value: string;
+}
+
+const QUESTION_TYPES: IntakeQuestionType[] = ['choice', 'number', 'boolean', 'text', 'photo'];
+
+export const DEFAULT_MAX_PHOTOS = 5;
+
+const SERVICE_TYPE_QUESTION: IntakeQuestion = {
+    id: 'service_type',
+    label: 'Tipo de servicio',
+    type: 'choice',
+    options: ['Instalar', 'Mantenimiento', 'Reparar'],
+};
+
+// Formularios por disciplina para servicios sin `form_schema`
+const DISCIPLINE_QUESTIONS: Record<string, IntakeQuestion[]> = {
+    'aire-acondicionado': [
+        {
+            id: 'needs_uninstall',
+            label: '¿Necesitas que desinstalemos el A/C actual?',
+            type: 'boolean',
+        },
+        {
+            id: 'quantity',
+            label: '¿Cuántos A/C necesitas instalar?',
+            type: 'choice',
+            options: [1, 2, 3, 4, '5+'],
+            calculator: 'minisplits',
+        },
+    ],
+    'pintura': [
+        { id: 'quantity', label: '¿Cuántos m² de muro vas a pintar?', type: 'number', unit: 'm²', min: 1, calculator: 'wall_area' },
+    ],
+    'tablaroca': [
+        { id: 'quantity', label: '¿Cuántos m² de tablaroca necesitas?', type: 'number', unit: 'm²', min: 1, calculator: 'wall_area' },
+    ],
+    'limpieza': [
+        { id: 'quantity', label: '¿Cuántos m² hay que limpiar?', type: 'number', unit: 'm²', min: 1, calculator: 'floor_area' },
+    ],
+    'cctv': [
+        { id: 'quantity', label: '¿Cuántas cámaras necesitas?', type: 'number', unit: 'cámaras', min: 1, calculator: 'cameras' },
+    ],
+};
+
+/**
+ * Formulario por defecto de una disciplina
+ */
+export function getDefaultIntakeFormSchema(discipline?: string | null): IntakeFormSchema {
+    return {
+        questions: [SERVICE_TYPE_QUESTION, ...(discipline ? DISCIPLINE_QUESTIONS[discipline] || [] : [])],
+    };
+}
+
+/**
+ * Formulario de un servicio (ServiceItem o fila de `service_catalog`)
+ * La pregunta `quantity` de un esquema propio usa la calculadora de la disciplina si no declara otra
+ */
+export function getIntakeFormSchema(service?: { discipline?: string | null; form_schema?: unknown } | null): IntakeFormSchema {
+    const schema = parseIntakeFormSchema(service?.form_schema);
+    if (!schema) return getDefaultIntakeFormSchema(service?.discipline);
+
+    const calculator = service?.discipline ? DISCIPLINE_CALCULATORS[service.discipline] : undefined;
+    if (!calculator) return schema;
+
+    return {
+        questions: schema.questions.map(question =>
+            question.id === 'quantity' && !question.calculator && (question.type === 'number' || question.type === 'choice')
+                ? { ...question, calculator }
+                : question),
+    };
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toNumber(value: unknown): number | undefined {
+    return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function parseQuestion(raw: Record<string, any>): IntakeQuestion | null {
+    if (typeof raw.id !== 'string' || typeof raw.label !== 'string' || !QUESTION_TYPES.includes(raw.type)) {
+        return null;
+    }
+
+    const options = Array.isArray(raw.options)
+        ? raw.options.filter((option: unknown) => typeof option === 'string' || typeof option === 'number')
+        : undefined;
+    if (raw.type === 'choice' && (!options || options.length === 0)) {
+        return null;
+    }
+
+    return {
+        id: raw.id,
+        label: raw.label,
+        type: raw.type,
+        required: raw.required === true,
+        options,
+        unit: typeof raw.unit === 'string' ? raw.unit : undefined,
+        min: toNumber(raw.min),
+        max: toNumber(raw.max),
+        placeholder: typeof raw.placeholder === 'string' ? raw.placeholder : undefined,
+        max_photos: toNumber(raw.max_photos),
+        visible_if: isRecord(raw.visible_if) && typeof raw.visible_if.field === 'string' && raw.visible_if.equals !== undefined
+            ? { field: raw.visible_if.field, equals: raw.visible_if.equals }
+            : undefined,
+        calculator: (raw.type === 'number' || raw.type === 'choice')
+            && typeof raw.calculator === 'string' && raw.calculator in QUANTITY_CALCULATORS
+            ? raw.calculator as QuantityCalculatorType
+            : undefined,
+    };
+}
+
+/**
+ * Leer `service_catalog.form_schema`; descarta preguntas mal formadas en lugar de fallar
+ */
+export function parseIntakeFormSchema(json: unknown): IntakeFormSchema | undefined {
+    if (!isRecord(json) || !Array.isArray(json.questions)) return undefined;
+
+    const questions = json.questions
+        .filter(isRecord)
+        .map(parseQuestion)
+        .filter((question): question is IntakeQuestion => question !== null);
+
+    return questions.length > 0 ? { questions } : undefined;
+}
+
+/**
+ * Una pregunta es visible si no tiene condición o si la respuesta de la que depende coincide
+ */
+export function isQuestionVisible(question: IntakeQuestion, answers: IntakeAnswers): boolean {
+    if (!question.visible_if) return true;
+
+    const { field, equals } = question.visible_if;
+    const answer = answers[field];
+    return Array.isArray(equals) ? equals.some(value => value === answer) : equals === answer;
+}
+
+function isEmptyAnswer(value: IntakeAnswerValue | undefined): boolean {
+    if (value === undefined || value === null) return true;
+    if (typeof value === 'string') return value.trim().length === 0;
+    if (Array.isArray(value)) return value.length === 0;
+    return false;
+}
+
+/**
+ * Normalizar y validar una respuesta; devuelve el valor tipado o un mensaje de error
+ */
+function validateAnswer(
+    question: IntakeQuestion,
+    value: IntakeAnswerValue
+): { value: IntakeAnswerValue } | { error: string } {
+    switch (question.type) {
+        case 'choice':
+            return question.options?.some(option => option === value)
+                ? { value }
+                : { error: 'Selecciona una opción válida' };
+
+        case 'boolean':
+            return typeof value === 'boolean' ? { value } : { error: 'Responde sí o no' };
+
+        case 'number': {
+            const parsed = typeof value === 'number' ? value : parseFloat(String(value).replace(',', '.'));
+            if (!Number.isFinite(parsed)) return { error: 'Ingresa un número válido' };
+            if (question.min !== undefined && parsed < question.min) {
+                return { error: `El mínimo es ${question.min}${question.unit ? ` ${question.unit}` : ''}` };
+            }
+            if (question.max !== undefined && parsed > question.max) {
+                return { error: `El máximo es ${question.max}${question.unit ? ` ${question.unit}` : ''}` };
+            }
+            return { value: parsed };
+        }
+
+        case 'photo': {
+            const photos = (Array.isArray(value) ? value : [value]).map(String);
+            const maxPhotos = question.max_photos ?? DEFAULT_MAX_PHOTOS;
+            return photos.length > maxPhotos ? { error: `Máximo ${maxPhotos} fotos` } : { value: photos };
+        }
+
+        case 'text':
+            return { value: String(value).trim() };
+    }
+}
+
+/**
+ * Respuesta de una pregunta con la cantidad calculada; en `choice` se elige la opción igual
+ * o, si la cantidad la rebasa, la última (p. ej. '5+')
+ */
+export function getCalculatedAnswer(question: IntakeQuestion, quantity: number): IntakeAnswerValue {
+    if (question.type !== 'choice' || !question.options) return quantity;
+
+    const exact = question.options.find(option => option === quantity || option === String(quantity));
+    if (exact !== undefined) return exact;
+
+    const numeric = question.options.map(option => parseInt(String(option), 10)).filter(Number.isFinite);
+    return quantity > Math.max(...numeric) ? question.options[question.options.length - 1] : quantity;
+}
+
+/**
+ * Validar las respuestas contra el esquema
+ */
+export function validateIntakeAnswers(schema: IntakeFormSchema, answers: IntakeAnswers): IntakeValidationResult {
+    const errors: Record<string, string> = {};
+    const formData: IntakeAnswers = { ...answers };
+
+    for (const question of schema.questions) {
+        const value = answers[question.id];
+
+        if (!isQuestionVisible(question, formData)) {
+            delete formData[question.id];
+            continue;
+        }
+
+        if (isEmptyAnswer(value)) {
+            delete formData[question.id];
+            if (question.required) {
+                errors[question.id] = 'Este campo es obligatorio';
+            }
+            continue;
+        }
+
+        const result = validateAnswer(question, value!);
+        if ('error' in result) {
+            errors[question.id] = result.error;
+        } else {
+            formData[question.id] = result.value;
+        }
+    }
+
+    return { valid: Object.keys(errors).length === 0, errors, formData };
+}
+
+/**
+ * Resumen legible de las respuestas (para el profesional); omite preguntas sin respuesta
+ */
+export function summarizeIntakeAnswers(schema: IntakeFormSchema, answers: IntakeAnswers): IntakeSummaryItem[] {
+    const items: IntakeSummaryItem[] = [];
+    const calculations = getQuantityCalculations(answers);
+
+    for (const question of schema.questions) {
+        const value = answers[question.id];
+        if (!isQuestionVisible(question, answers) || isEmptyAnswer(value)) continue;
+
+        let text: string;
+        if (question.type === 'boolean') {
+            text = value ? 'Sí' : 'No';
+        } else if (question.type === 'photo') {
+            const count = Array.isArray(value) ? value.length : 1;
+            text = `${count} foto${count === 1 ? '' : 's'}`;
+        } else {
+            text = question.unit ? `${value} ${question.unit}` : String(value);
+        }
+
+        // Cantidades calculadas: incluir las medidas de las que salieron
+        const calculation = calculations[question.id];
+        if (calculation) {
+            text = `${text} · ${describeQuantityCalculation(calculation)}`;
+        }
+
+        items.push({ id: question.id, label: question.label, value: text });
+    }
+
+    return items;
+}
+
+/**
+ * Resumen en texto plano para la descripción del lead
+ */
+export function formatIntakeSummary(items: IntakeSummaryItem[]): string {
+    return items.map(item => `• ${item.label}: ${item.value}`).join('\n');
+}
+
+/**
+ * URLs de las fotos respondidas en preguntas `photo`
+ */
+export function collectIntakePhotos(schema: IntakeFormSchema, answers: IntakeAnswers): string[] {
+    return schema.questions
+        .filter(question => question.type === 'photo' && isQuestionVisible(question, answers))
+        .flatMap(question => {
+            const value = answers[question.id];
+            return Array.isArray(value) ? value : typeof value === 'string' && value ? [value] : [];
+        });
+}
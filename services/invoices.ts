@@ -0,0 +1,255 @@
+import { validateUUID } from './validation';
+import { cache, CacheKeys } from './cache';
+import { requestExecutor, RequestPolicies } from './requestExecutor';
+import { LEAD_STATUS_LABELS, resolveLeadStatus } from './leadLifecycle';
+import { AppError, assertValid, isDuplicateError, isMissingTableError, toAppError } from './errors';
+import { LeadsRepository, LeadRow } from './repositories/leads';
+import { InvoicesRepository, FiscalProfileRow, InvoiceRequestRow } from './repositories/invoices';
+import { CfdiPayload, FiscalProfile, FiscalProfileInput, buildCfdiPayload, normalizeFiscalProfile, validateFiscalProfile } from './cfdi';
+import { DEFAULT_PRICING_RULES } from './pricingRules';
+import type { ServiceQuote } from './quotes';
+import type { PaymentMethod } from './paymentPreferences';
+import type { Json } from '@/lib/database.types';
+
+/**
+ * Invoices Service - Solicitudes de factura (CFDI 4.0) para servicios completados
+ * El cliente guarda sus datos fiscales una vez; al solicitar la factura se arma el
+ * comprobante desde la cotización y queda en `invoice_requests` para que el proveedor
+ * de facturación lo timbre.
+ */
+
+export type InvoiceRequestStatus = 'requested' | 'stamped' | 'failed' | 'cancelled';
+
+export interface InvoiceRequest {
+    id: string;
+    lead_id: string;
+    client_id: string;
+    rfc: string;
+    status: InvoiceRequestStatus;
+    payload: CfdiPayload;
+    /** Folio fiscal (UUID del SAT) una vez timbrada */
+    cfdi_uuid: string | null;
+    pdf_url: string | null;
+    xml_url: string | null;
+    error_message: string | null;
+    created_at: string | null;
+}
+
+export const INVOICE_STATUS_LABELS: Record<InvoiceRequestStatus, string> = {
+    requested: 'En proceso',
+    stamped: 'Emitida',
+    failed: 'Rechazada',
+    cancelled: 'Cancelada',
+};
+
+const INVOICE_STATUSES: InvoiceRequestStatus[] = ['requested', 'stamped', 'failed', 'cancelled'];
+
+function toFiscalProfile(row: FiscalProfileRow): FiscalProfile {
+    return {
+        user_id: row.user_id,
+        rfc: row.rfc,
+        razon_social: row.razon_social,
+        regimen_fiscal: row.regimen_fiscal,
+        uso_cfdi: row.uso_cfdi,
+        codigo_postal: row.codigo_postal,
+        email: row.email,
+        updated_at: row.updated_at,
+    };
+}
+
+function toInvoiceRequest(row: InvoiceRequestRow): InvoiceRequest {
+    return {
+        id: row.id,
+        lead_id: row.lead_id,
+        client_id: row.client_id,
+        rfc: row.rfc,
+        status: INVOICE_STATUSES.includes(row.status as InvoiceRequestStatus)
+            ? row.status as InvoiceRequestStatus
+            : 'requested',
+        payload: row.payload as unknown as CfdiPayload,
+        cfdi_uuid: row.cfdi_uuid,
+        pdf_url: row.pdf_url,
+        xml_url: row.xml_url,
+        error_message: row.error_message,
+        created_at: row.created_at,
+    };
+}
+
+/**
+ * Cotización de un lead ya completado: el precio acordado (con IVA) como un solo renglón
+ */
+export function buildLeadInvoiceQuote(
+    lead: Pick<LeadRow, 'agreed_price' | 'price' | 'servicio_solicitado'>,
+    taxRate: number = DEFAULT_PRICING_RULES.tax_rate ?? 0.16
+): ServiceQuote {
+    const totalWithTax = Number(lead.agreed_price ?? lead.price ?? 0);
+    const subtotal = Math.round((totalWithTax / (1 + taxRate)) * 100) / 100;
+    return {
+        form_data: {},
+        base_price: subtotal,
+        immediate_service_fee: 0,
+        additional_services: [],
+        discounts: [],
+        breakdown: [{ id: 'base', kind: 'base', label: lead.servicio_solicitado || 'Servicio', amount: subtotal }],
+        subtotal,
+        total: subtotal,
+        total_with_tax: totalWithTax,
+        tax_rate: taxRate,
+    };
+}
+
+export class InvoicesService {
+    /**
+     * Datos fiscales del usuario (null si aún no los captura)
+     */
+    static async getFiscalProfile(userId: string, signal?: AbortSignal): Promise<FiscalProfile | null> {
+        assertValid(validateUUID(userId));
+
+        const { data, error } = await requestExecutor.execute(
+            requestSignal => InvoicesRepository.findFiscalProfile(userId, requestSignal),
+            {
+                key: CacheKeys.fiscalProfile(userId),
+                signal,
+                policy: RequestPolicies.read,
+                timeoutMessage: 'Timeout al obtener datos fiscales',
+            }
+        );
+
+        if (error) {
+            if (isMissingTableError(error)) {
+                console.warn('[InvoicesService] fiscal_profiles table not found, run SCHEMA_FACTURACION.sql');
+                return null;
+            }
+            throw toAppError(error, 'No se pudieron obtener los datos fiscales');
+        }
+
+        return data ? toFiscalProfile(data) : null;
+    }
+
+    /**
+     * Guardar (o reemplazar) los datos fiscales del usuario
+     */
+    static async saveFiscalProfile(userId: string, input: FiscalProfileInput): Promise<FiscalProfile> {
+        assertValid(validateUUID(userId));
+        assertValid(validateFiscalProfile(input));
+        const normalized = normalizeFiscalProfile(input);
+
+        const { data, error } = await requestExecutor.execute(
+            signal => InvoicesRepository.upsertFiscalProfile({
+                ...normalized,
+                user_id: userId,
+                updated_at: new Date().toISOString(),
+            }, signal),
+            { policy: RequestPolicies.write, timeoutMessage: 'Timeout al guardar datos fiscales' }
+        );
+
+        if (error || !data) {
+            throw toAppError(error, 'No se pudieron guardar los datos fiscales');
+        }
+        return toFiscalProfile(data);
+    }
+
+    /**
+     * Solicitud de factura de un lead (null si no se ha pedido)
+     */
+    static async getLeadInvoice(leadId: string, signal?: AbortSignal): Promise<InvoiceRequest | null> {
+        assertValid(validateUUID(leadId));
+
+        const { data, error } = await requestExecutor.execute(
+            requestSignal => InvoicesRepository.findByLead(leadId, requestSignal),
+            {
+                key: CacheKeys.invoice(leadId),
+                signal,
+                policy: RequestPolicies.read,
+                timeoutMessage: 'Timeout al obtener la factura',
+            }
+        );
+
+        if (error) {
+            if (isMissingTableError(error)) {
+                console.warn('[InvoicesService] invoice_requests table not found, run SCHEMA_FACTURACION.sql');
+                return null;
+            }
+            throw toAppError(error, 'No se pudo obtener la factura');
+        }
+
+        return data ? toInvoiceRequest(data) : null;
+    }
+
+    /**
+     * Solicitar la factura de un servicio completado con los datos fiscales guardados
+     * Se factura el precio acordado del lead como un solo concepto; el servidor rechaza
+     * un total distinto y completa emisor y receptor
+     */
+    static async requestInvoice(params: {
+        leadId: string;
+        clientId: string;
+        paymentMethod?: PaymentMethod | null;
+    }): Promise<InvoiceRequest> {
+        const { leadId, clientId, paymentMethod } = params;
+        assertValid(validateUUID(leadId));
+        assertValid(validateUUID(clientId));
+
+        const { data: lead, error: fetchError } = await requestExecutor.execute(
+            signal => LeadsRepository.findById(leadId, signal),
+            { policy: RequestPolicies.read, timeoutMessage: 'Timeout al obtener la solicitud' }
+        );
+        if (fetchError || !lead) {
+            throw toAppError(fetchError, 'Solicitud no encontrada');
+        }
+        if (lead.cliente_id !== clientId) {
+            throw new AppError('permission', {
+                code: 'invoice.not_owner',
+                userMessage: 'Solo el cliente de la solicitud puede pedir su factura',
+            });
+        }
+
+        const status = resolveLeadStatus(lead);
+        if (status !== 'completed') {
+            throw new AppError('transition', {
+                code: 'invoice.lead_not_completed',
+                userMessage: `La solicitud está ${LEAD_STATUS_LABELS[status].toLowerCase()}; la factura se pide al completar el servicio`,
+            });
+        }
+
+        const fiscalProfile = await this.getFiscalProfile(clientId);
+        if (!fiscalProfile) {
+            throw new AppError('validation', {
+                code: 'invoice.missing_fiscal_profile',
+                userMessage: 'Captura tus datos fiscales para solicitar la factura',
+            });
+        }
+
+        const payload = buildCfdiPayload(buildLeadInvoiceQuote(lead), fiscalProfile, {
+            folio: leadId.slice(0, 8).toUpperCase(),
+            serviceName: lead.servicio_solicitado || undefined,
+            paymentMethod,
+        });
+
+        const { data, error } = await requestExecutor.execute(
+            signal => InvoicesRepository.insertRequest({
+                lead_id: leadId,
+                client_id: clientId,
+                rfc: fiscalProfile.rfc,
+                payload: payload as unknown as Json,
+                status: 'requested',
+            }, signal),
+            { policy: RequestPolicies.write, timeoutMessage: 'Timeout al solicitar la factura' }
+        );
+
+        if (error || !data) {
+            if (isDuplicateError(error)) {
+                throw new AppError('conflict', {
+                    code: 'invoice.already_requested',
+                    userMessage: 'Ya solicitaste la factura de este servicio',
+                    sourceCode: error?.code,
+                    cause: error,
+                });
+            }
+            throw toAppError(error, 'No se pudo solicitar la factura');
+        }
+
+        cache.invalidate(CacheKeys.invoice(leadId));
+        return toInvoiceRequest(data);
+    }
+}
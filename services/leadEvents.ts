@@ -0,0 +1,347 @@
+import { validateUUID } from './validation';
+import { CacheKeys } from './cache';
+import { requestExecutor, RequestPolicies } from './requestExecutor';
+import { LEAD_STATUS_LABELS, LeadStatus, resolveLeadStatus } from './leadLifecycle';
+import { assertValid, isMissingTableError, toAppError } from './errors';
+import { formatPrice } from './priceFormatter';
+import { CANCELLATION_REASONS, isCancellationReasonCode } from './cancellations';
+import { GUARANTEE_CLAIM_STATUS_LABELS, GUARANTEE_PROBLEM_TYPES, GuaranteeClaimStatus, GuaranteeProblemType } from './guarantees';
+import { LeadEventsRepository, LeadEventRow } from './repositories/leadEvents';
+import type { Json } from '@/lib/database.types';
+
+/**
+ * Lead Events - Historial de actividad de un lead (solo inserción)
+ * La creación y los cambios de estado, cita y precio los registran triggers y RPCs en la
+ * base para cualquier participante (ver SCHEMA_HISTORIAL_LEADS.sql); la app solo registra
+ * ediciones, fotos y mensajes del cliente. El detalle del lead los muestra como línea de tiempo.
+ */
+
+export type LeadEventType =
+    | 'created'
+    | 'edited'
+    | 'status_changed'
+    | 'appointment_changed'
+    | 'price_changed'
+    | 'message'
+    | 'photos_added'
+    | 'guarantee_claim';
+
+/** Tipos que la app puede insertar (la política de lead_events rechaza el resto) */
+export type ClientLeadEventType = Extract<LeadEventType, 'edited' | 'message' | 'photos_added'>;
+
+export type LeadEventActorRole = 'client' | 'professional' | 'system';
+
+export interface LeadFieldChange {
+    field: string;
+    label: string;
+    from: string | null;
+    to: string | null;
+}
+
+export interface LeadEvent {
+    id: string;
+    lead_id: string;
+    type: LeadEventType;
+    actor_id: string | null;
+    actor_role: LeadEventActorRole;
+    /** Detalle según el tipo (ver describeLeadEvent) */
+    payload: Record<string, any>;
+    created_at: string | null;
+}
+
+export interface LeadEventDescription {
+    title: string;
+    detail: string | null;
+}
+
+export const LEAD_EVENT_ACTOR_LABELS: Record<LeadEventActorRole, string> = {
+    client: 'Tú',
+    professional: 'Profesional',
+    system: 'Sistema',
+};
+
+/** Campos que el cliente puede editar (EditLeadModal) */
+export const LEAD_EDITABLE_FIELDS: Record<string, string> = {
+    servicio_solicitado: 'Servicio',
+    descripcion_proyecto: 'Descripción',
+    ubicacion_direccion: 'Dirección',
+    whatsapp: 'WhatsApp',
+};
+
+const EVENT_TYPES: LeadEventType[] = [
+    'created', 'edited', 'status_changed', 'appointment_changed', 'price_changed', 'message', 'photos_added',
+    'guarantee_claim',
+];
+const ACTOR_ROLES: LeadEventActorRole[] = ['client', 'professional', 'system'];
+
+const STATUS_TITLES: Record<LeadStatus, string> = {
+    pending: 'Solicitud pendiente',
+    accepted: 'Solicitud aceptada',
+    scheduled: 'Cita agendada',
+    in_progress: 'Servicio en progreso',
+    completed: 'Servicio completado',
+    cancelled: 'Solicitud cancelada',
+    disputed: 'Solicitud en disputa',
+};
+
+/** Texto máximo de un mensaje en el historial */
+const MESSAGE_PREVIEW_LENGTH = 120;
+
+function isRecord(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function normalizeText(value: unknown): string | null {
+    if (value === null || value === undefined) return null;
+    const text = String(value).trim();
+    return text.length > 0 ? text : null;
+}
+
+export function toLeadEvent(row: LeadEventRow): LeadEvent | null {
+    if (!EVENT_TYPES.includes(row.event_type as LeadEventType)) return null;
+
+    return {
+        id: row.id,
+        lead_id: row.lead_id,
+        type: row.event_type as LeadEventType,
+        actor_id: row.actor_id,
+        actor_role: ACTOR_ROLES.includes(row.actor_role as LeadEventActorRole)
+            ? row.actor_role as LeadEventActorRole
+            : 'system',
+        payload: isRecord(row.payload) ? row.payload : {},
+        created_at: row.created_at,
+    };
+}
+
+/**
+ * Campos editables que cambiaron entre dos versiones del lead
+ */
+export function diffLeadFields(
+    previous: Record<string, unknown> | null | undefined,
+    next: Record<string, unknown>
+): LeadFieldChange[] {
+    return Object.entries(LEAD_EDITABLE_FIELDS)
+        .filter(([field]) => field in next)
+        .map(([field, label]) => ({
+            field,
+            label,
+            from: normalizeText(previous?.[field]),
+            to: normalizeText(next[field]),
+        }))
+        .filter(change => change.from !== change.to);
+}
+
+/**
+ * Fotos nuevas respecto a las que ya tenía el lead
+ */
+export function getAddedPhotos(previous: unknown, next: string[] | null | undefined): string[] {
+    const existing = Array.isArray(previous) ? previous : [];
+    return (next || []).filter(url => !existing.includes(url));
+}
+
+/**
+ * Eventos en orden cronológico; los leads creados antes del historial reciben un
+ * evento de creación a partir de `created_at`
+ */
+export function buildLeadTimeline(
+    lead: {
+        id: string;
+        created_at: string | null;
+        cliente_id?: string | null;
+        servicio_solicitado?: string | null;
+        agreed_price?: number | null;
+        price?: number | null;
+    },
+    events: LeadEvent[]
+): LeadEvent[] {
+    const timeline = [...events];
+
+    if (lead.created_at && !events.some(event => event.type === 'created')) {
+        timeline.unshift({
+            id: `created:${lead.id}`,
+            lead_id: lead.id,
+            type: 'created',
+            actor_id: lead.cliente_id ?? null,
+            actor_role: 'client',
+            payload: {
+                service: lead.servicio_solicitado ?? null,
+                price: lead.agreed_price ?? lead.price ?? null,
+            },
+            created_at: lead.created_at,
+        });
+    }
+
+    // sort es estable: eventos con la misma hora conservan el orden de inserción
+    return timeline.sort((a, b) =>
+        new Date(a.created_at || 0).getTime() - new Date(b.created_at || 0).getTime());
+}
+
+function toStatus(value: unknown): LeadStatus | null {
+    const raw = normalizeText(value);
+    return raw ? resolveLeadStatus({ status: raw }) : null;
+}
+
+/**
+ * Fecha (YYYY-MM-DD) y hora (HH:MM:SS) de una cita como "DD/MM/YYYY HH:MM"
+ */
+function formatAppointment(value: unknown): string {
+    if (!isRecord(value) || !value.date) return 'sin fecha';
+
+    const [year, month, day] = String(value.date).slice(0, 10).split('-');
+    const date = `${day}/${month}/${year}`;
+    const time = value.time ? String(value.time).match(/\d{2}:\d{2}/)?.[0] : null;
+    return time ? `${date} ${time}` : date;
+}
+
+function formatAmount(value: unknown): string | null {
+    const amount = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+    return Number.isFinite(amount) && amount > 0 ? formatPrice(amount) : null;
+}
+
+/**
+ * Título y detalle de un evento para la línea de tiempo
+ */
+export function describeLeadEvent(event: LeadEvent): LeadEventDescription {
+    const { payload } = event;
+
+    switch (event.type) {
+        case 'created': {
+            // Visita de un plan de mantenimiento (generate_service_plan_leads)
+            if (payload.service_plan_id) {
+                return { title: 'Visita de mantenimiento programada', detail: 'Creada automáticamente por tu plan recurrente' };
+            }
+            const parts = [normalizeText(payload.service), formatAmount(payload.price)].filter(Boolean);
+            return { title: 'Solicitud creada', detail: parts.length > 0 ? parts.join(' · ') : null };
+        }
+        case 'edited': {
+            const changes: LeadFieldChange[] = Array.isArray(payload.changes) ? payload.changes : [];
+            return {
+                title: 'Solicitud editada',
+                detail: changes.length > 0 ? `Cambió: ${changes.map(change => change.label).join(', ')}` : null,
+            };
+        }
+        case 'status_changed': {
+            const to = toStatus(payload.to);
+            const from = toStatus(payload.from);
+            // Cancelación con motivo estructurado y cargo (SCHEMA_CANCELACIONES.sql)
+            const reasonCode = isCancellationReasonCode(payload.reason_code) ? payload.reason_code : null;
+            const reasonText = normalizeText(payload.reason);
+            const reason = reasonCode
+                ? `${CANCELLATION_REASONS[reasonCode].label}${reasonText ? ` (${reasonText})` : ''}`
+                : reasonText;
+            const fee = formatAmount(payload.fee);
+            const parts = [
+                from && from !== to ? `Antes: ${LEAD_STATUS_LABELS[from]}` : null,
+                reason ? `Motivo: ${reason}` : null,
+                fee ? `${reasonCode === 'client_no_show' ? 'Cargo por inasistencia' : 'Cargo por cancelación'}: ${fee}` : null,
+            ].filter(Boolean);
+            return {
+                title: to ? STATUS_TITLES[to] : 'Estado actualizado',
+                detail: parts.length > 0 ? parts.join(' · ') : null,
+            };
+        }
+        case 'appointment_changed': {
+            const hadAppointment = isRecord(payload.from) && !!payload.from.date;
+            const hasAppointment = isRecord(payload.to) && !!payload.to.date;
+            if (!hasAppointment) {
+                return { title: 'Cita cancelada', detail: hadAppointment ? `Era el ${formatAppointment(payload.from)}` : null };
+            }
+            return hadAppointment
+                ? { title: 'Cita reprogramada', detail: `${formatAppointment(payload.from)} → ${formatAppointment(payload.to)}` }
+                : { title: 'Cita agendada', detail: formatAppointment(payload.to) };
+        }
+        case 'price_changed': {
+            const from = formatAmount(payload.from);
+            const to = formatAmount(payload.to);
+            const amounts = from && to ? `${from} → ${to}` : to;
+            const version = typeof payload.version === 'number' ? `Versión ${payload.version}` : null;
+            const detail = [version, amounts].filter(Boolean).join(' · ') || null;
+            if (payload.approved === true) return { title: 'Cambio de precio aprobado', detail };
+            if (payload.approved === false) return { title: 'Cambio de precio rechazado', detail };
+            return { title: 'Precio actualizado', detail };
+        }
+        case 'message':
+            return { title: 'Mensaje enviado', detail: normalizeText(payload.preview) };
+        case 'photos_added': {
+            const count = typeof payload.count === 'number' ? payload.count : 0;
+            return { title: count === 1 ? '1 foto agregada' : `${count} fotos agregadas`, detail: null };
+        }
+        case 'guarantee_claim': {
+            // Reclamo enviado por el cliente o cambio de estado de soporte (SCHEMA_GARANTIAS.sql)
+            const status = payload.status as GuaranteeClaimStatus;
+            if (status === 'submitted' || !GUARANTEE_CLAIM_STATUS_LABELS[status]) {
+                const problem = GUARANTEE_PROBLEM_TYPES[payload.problem_type as GuaranteeProblemType];
+                return { title: 'Reclamo de garantía enviado', detail: problem?.label ?? null };
+            }
+            return { title: 'Reclamo de garantía actualizado', detail: GUARANTEE_CLAIM_STATUS_LABELS[status] };
+        }
+    }
+}
+
+export function toMessagePreview(content: string): string {
+    const text = content.trim().replace(/\s+/g, ' ');
+    return text.length > MESSAGE_PREVIEW_LENGTH ? `${text.slice(0, MESSAGE_PREVIEW_LENGTH - 1)}…` : text;
+}
+
+export class LeadEventsService {
+    /**
+     * Historial de un lead en orden cronológico (sin el evento sintético de creación)
+     */
+    static async getLeadEvents(leadId: string, signal?: AbortSignal): Promise<LeadEvent[]> {
+        assertValid(validateUUID(leadId));
+
+        const { data, error } = await requestExecutor.execute(
+            requestSignal => LeadEventsRepository.listByLead(leadId, requestSignal),
+            {
+                key: CacheKeys.leadEvents(leadId),
+                signal,
+                policy: RequestPolicies.read,
+                timeoutMessage: 'Timeout al obtener el historial de la solicitud',
+            }
+        );
+
+        if (error) {
+            // Migración pendiente: el lead se muestra sin historial
+            if (isMissingTableError(error)) {
+                console.warn('[LeadEventsService] lead_events table not found, run SCHEMA_HISTORIAL_LEADS.sql');
+                return [];
+            }
+            throw toAppError(error, 'No se pudo obtener el historial de la solicitud');
+        }
+
+        return (data || [])
+            .map(toLeadEvent)
+            .filter((event): event is LeadEvent => event !== null);
+    }
+
+    /**
+     * Registrar un evento del cliente
+     * No lanza: el historial es informativo y no debe revertir la acción que ya se guardó
+     */
+    static async record(event: {
+        leadId: string;
+        actorId: string | null;
+        type: ClientLeadEventType;
+        payload?: Record<string, unknown>;
+        actorRole?: LeadEventActorRole;
+    }): Promise<void> {
+        const { error } = await requestExecutor.execute(
+            signal => LeadEventsRepository.insert({
+                lead_id: event.leadId,
+                actor_id: event.actorId,
+                actor_role: event.actorRole ?? 'client',
+                event_type: event.type,
+                payload: (event.payload ?? {}) as Json,
+            }, signal),
+            { policy: RequestPolicies.write, timeoutMessage: 'Timeout al registrar el historial' }
+        ).catch(error => ({ error }));
+
+        if (!error) return;
+
+        if (isMissingTableError(error)) {
+            console.warn('[LeadEventsService] lead_events table not found, run SCHEMA_HISTORIAL_LEADS.sql');
+        } else {
+            console.warn('[LeadEventsService] ⚠️ Event not recorded (non-critical):', event.type, error);
+        }
+    }
+}
@@ -0,0 +1,233 @@
+/**
+ * Lead Lifecycle - Máquina de estados de una solicitud (lead)
+ * Fuente única para:
+ * - Mapear campos legacy (`estado`, `appointment_status`, estados de TulBoxPros) al estado moderno
+ * - Transiciones permitidas y guards (se validan antes de escribir en Supabase)
+ * - Acciones que la UI puede mostrar en cada estado
+ */
+
+export type LeadStatus =
+    | 'pending'
+    | 'accepted'
+    | 'scheduled'
+    | 'in_progress'
+    | 'completed'
+    | 'cancelled'
+    | 'disputed';
+
+export const LEAD_STATUSES: LeadStatus[] = [
+    'pending',
+    'accepted',
+    'scheduled',
+    'in_progress',
+    'completed',
+    'cancelled',
+    'disputed',
+];
+
+/**
+ * Transiciones permitidas desde cada estado
+ */
+export const LEAD_TRANSITIONS: Record<LeadStatus, LeadStatus[]> = {
+    pending: ['accepted', 'scheduled', 'cancelled'],
+    accepted: ['scheduled', 'in_progress', 'completed', 'cancelled'],
+    scheduled: ['accepted', 'in_progress', 'completed', 'cancelled'],
+    in_progress: ['completed', 'cancelled', 'disputed'],
+    completed: ['disputed'],
+    cancelled: [],
+    disputed: ['completed', 'cancelled'],
+};
+
+/** Estados en los que ya hay un profesional trabajando la solicitud */
+export const ACTIVE_LEAD_STATUSES: LeadStatus[] = ['accepted', 'scheduled', 'in_progress'];
+
+/** Estados finales (sin más acciones del cliente salvo reseña/disputa) */
+export const FINAL_LEAD_STATUSES: LeadStatus[] = ['completed', 'cancelled'];
+
+export const LEAD_STATUS_LABELS: Record<LeadStatus, string> = {
+    pending: 'Pendiente',
+    accepted: 'Aceptado',
+    scheduled: 'Agendado',
+    in_progress: 'En progreso',
+    completed: 'Completado',
+    cancelled: 'Cancelado',
+    disputed: 'En disputa',
+};
+
+// Valores de `status` usados por TulBoxPros / versiones anteriores
+const STATUS_ALIASES: Record<string, LeadStatus> = {
+    pending: 'pending',
+    nuevo: 'pending',
+    accepted: 'accepted',
+    asignado: 'accepted',
+    scheduled: 'scheduled',
+    agendado: 'scheduled',
+    en_camino: 'in_progress',
+    en_sitio: 'in_progress',
+    en_progreso: 'in_progress',
+    'en progreso': 'in_progress',
+    in_progress: 'in_progress',
+    completed: 'completed',
+    completado: 'completed',
+    cancelled: 'cancelled',
+    cancelado: 'cancelled',
+    rejected: 'cancelled',
+    disputed: 'disputed',
+    en_disputa: 'disputed',
+};
+
+// Valor legacy de `estado` que se escribe junto con `status`
+const LEGACY_ESTADO: Record<LeadStatus, string> = {
+    pending: 'Nuevo',
+    accepted: 'asignado',
+    scheduled: 'asignado',
+    in_progress: 'en progreso',
+    completed: 'completado',
+    cancelled: 'cancelado',
+    disputed: 'en disputa',
+};
+
+/**
+ * Todos los valores de estado reconocidos (modernos y legacy), para validación de entrada
+ */
+export const KNOWN_LEAD_STATUS_VALUES: string[] = Object.keys(STATUS_ALIASES);
+
+export interface LeadStatusFields {
+    status?: string | null;
+    estado?: string | null;
+    appointment_status?: string | null;
+}
+
+/**
+ * Resolver el estado de un lead a partir de sus campos crudos
+ * Prioridad: `status` moderno > `estado` legacy; `appointment_status` distingue accepted de scheduled
+ */
+export function resolveLeadStatus(lead: LeadStatusFields | null | undefined): LeadStatus {
+    if (!lead) return 'pending';
+
+    const raw = (lead.status || lead.estado || '').toLowerCase().trim();
+    const status = STATUS_ALIASES[raw] || 'pending';
+
+    // Un lead aceptado con cita confirmada se considera agendado
+    if (status === 'accepted') {
+        const appointment = (lead.appointment_status || '').toLowerCase();
+        if (appointment === 'scheduled' || appointment === 'confirmed') {
+            return 'scheduled';
+        }
+    }
+
+    return status;
+}
+
+/**
+ * Estado de la cita para el calendario (Appointment['status'])
+ */
+export function resolveAppointmentStatus(
+    lead: LeadStatusFields
+): 'pending' | 'confirmed' | 'cancelled' | 'completed' {
+    const status = resolveLeadStatus(lead);
+    if (status === 'cancelled') return 'cancelled';
+    if (status === 'completed') return 'completed';
+    if (status === 'pending') return 'pending';
+    return 'confirmed';
+}
+
+export function isActiveLeadStatus(status: LeadStatus): boolean {
+    return ACTIVE_LEAD_STATUSES.includes(status);
+}
+
+/**
+ * Filtros de la lista de proyectos: "accepted" agrupa todos los estados activos
+ */
+export type LeadListFilter = 'all' | 'pending' | 'accepted' | 'completed';
+
+export function matchesLeadFilter(status: LeadStatus, filter: LeadListFilter): boolean {
+    switch (filter) {
+        case 'all':
+            return true;
+        case 'accepted':
+            return isActiveLeadStatus(status);
+        default:
+            return status === filter;
+    }
+}
+
+export function canTransition(from: LeadStatus, to: LeadStatus): boolean {
+    return LEAD_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Error de transición inválida (se lanza antes de cualquier escritura)
+ */
+export class LeadTransitionError extends Error {
+    code = 'INVALID_LEAD_TRANSITION';
+
+    constructor(public from: LeadStatus, public to: LeadStatus) {
+        super(
+            from === to
+                ? `La solicitud ya está ${LEAD_STATUS_LABELS[to].toLowerCase()}`
+                : `No se puede pasar de "${LEAD_STATUS_LABELS[from]}" a "${LEAD_STATUS_LABELS[to]}"`
+        );
+        this.name = 'LeadTransitionError';
+    }
+}
+
+/**
+ * Validar una transición; lanza LeadTransitionError si no está permitida
+ */
+export function assertTransition(lead: LeadStatusFields, to: LeadStatus): LeadStatus {
+    const from = resolveLeadStatus(lead);
+    if (!canTransition(from, to)) {
+        throw new LeadTransitionError(from, to);
+    }
+    return from;
+}
+
+/**
+ * Campos a escribir en Supabase para un estado (mantiene `estado` legacy sincronizado)
+ */
+export function toLeadStatusColumns(status: LeadStatus): { status: LeadStatus; estado: string } {
+    return {
+        status,
+        estado: LEGACY_ESTADO[status],
+    };
+}
+
+export interface LeadActions {
+    canEdit: boolean;
+    canCancel: boolean;
+    canComplete: boolean;
+    canReview: boolean;
+    canDispute: boolean;
+    canMessage: boolean;
+}
+
+/**
+ * Acciones disponibles para el cliente según el estado del lead
+ */
+export function getLeadActions(
+    lead: (LeadStatusFields & { professional_id?: string | null; profesional_asignado_id?: string | null }) | null
+): LeadActions {
+    if (!lead) {
+        return {
+            canEdit: false,
+            canCancel: false,
+            canComplete: false,
+            canReview: false,
+            canDispute: false,
+            canMessage: false,
+        };
+    }
+
+    const status = resolveLeadStatus(lead);
+    const hasProfessional = !!(lead.professional_id || lead.profesional_asignado_id);
+
+    return {
+        canEdit: status === 'pending' || status === 'accepted' || status === 'scheduled',
+        canCancel: canTransition(status, 'cancelled') && status !== 'disputed',
+        canComplete: isActiveLeadStatus(status) && canTransition(status, 'completed'),
+        canReview: status === 'completed',
+        canDispute: canTransition(status, 'disputed'),
+        canMessage: hasProfessional && status !== 'cancelled',
+    };
+}
@@ -0,0 +1,297 @@
+import { validateUUID } from './validation';
+import { cache, CacheKeys } from './cache';
+import { requestExecutor, RequestPolicies } from './requestExecutor';
+import { assertTransition } from './leadLifecycle';
+import { AppError, DB_ERROR_CODES, assertValid, isMissingTableError, toAppError } from './errors';
+import { LeadsRepository } from './repositories/leads';
+import { LeadQuotesRepository, LeadQuoteRow, QuoteProfessional } from './repositories/leadQuotes';
+import { calculateDistance } from '@/utils/geo';
+
+/**
+ * Lead Quotes - Cotizaciones competidoras de varios profesionales sobre un mismo lead
+ * Cada profesional envía precio, materiales, duración estimada, disponibilidad y notas;
+ * el cliente las compara (precio, calificación y distancia) y acepta una. La RPC
+ * accept_lead_quote asigna al profesional y declina el resto en la misma transacción.
+ */
+
+export type LeadQuoteStatus = 'pending' | 'accepted' | 'declined' | 'withdrawn';
+
+export type LeadQuoteSort = 'best' | 'price' | 'rating' | 'distance';
+
+export type LeadQuoteHighlight = 'cheapest' | 'top_rated' | 'closest';
+
+export interface LeadQuoteMaterial {
+    name: string;
+    quantity: number;
+    unit_price?: number;
+}
+
+export interface LeadQuote {
+    id: string;
+    lead_id: string;
+    professional_id: string;
+    /** Precio total cotizado (incluye materiales) */
+    price: number;
+    materials: LeadQuoteMaterial[];
+    estimated_duration_minutes: number | null;
+    /** Primera fecha en que el profesional puede atender */
+    available_from: string | null;
+    notes: string | null;
+    status: LeadQuoteStatus;
+    created_at: string | null;
+    professional: {
+        name: string;
+        avatar_url: string | null;
+        profession: string | null;
+        rating: number | null;
+        lat: number | null;
+        lng: number | null;
+    };
+}
+
+export interface RankedLeadQuote extends LeadQuote {
+    /** Distancia del profesional a la ubicación del servicio (null si falta alguna coordenada) */
+    distance_km: number | null;
+    /** Puntaje combinado de 0 a 1 (mayor es mejor) */
+    score: number;
+    highlights: LeadQuoteHighlight[];
+}
+
+/** Peso de cada criterio en el orden "Mejor opción" */
+export const LEAD_QUOTE_WEIGHTS = {
+    price: 0.5,
+    rating: 0.3,
+    distance: 0.2,
+};
+
+export const LEAD_QUOTE_SORT_LABELS: Record<LeadQuoteSort, string> = {
+    best: 'Mejor opción',
+    price: 'Precio',
+    rating: 'Calificación',
+    distance: 'Distancia',
+};
+
+const LEAD_QUOTE_STATUSES: LeadQuoteStatus[] = ['pending', 'accepted', 'declined', 'withdrawn'];
+
+// Sin calificación cuenta como un profesional promedio (no se castiga a los nuevos)
+const NEUTRAL_RATING_SCORE = 0.5;
+
+function toNumberOrNull(value: unknown): number | null {
+    const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+    return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Leer `lead_quotes.materials`; descarta renglones sin nombre
+ */
+export function parseQuoteMaterials(json: unknown): LeadQuoteMaterial[] {
+    if (!Array.isArray(json)) return [];
+
+    return json
+        .filter((item): item is Record<string, any> =>
+            typeof item === 'object' && item !== null && typeof item.name === 'string' && item.name.trim().length > 0)
+        .map(item => {
+            const unitPrice = toNumberOrNull(item.unit_price);
+            return {
+                name: item.name.trim(),
+                quantity: toNumberOrNull(item.quantity) ?? 1,
+                unit_price: unitPrice ?? undefined,
+            };
+        });
+}
+
+/**
+ * Costo de los materiales desglosados (solo los que traen precio unitario)
+ */
+export function getMaterialsTotal(materials: LeadQuoteMaterial[]): number {
+    return materials.reduce((sum, material) => sum + (material.unit_price ?? 0) * material.quantity, 0);
+}
+
+export function toLeadQuote(row: LeadQuoteRow & { professional?: QuoteProfessional | null }): LeadQuote {
+    const professional = row.professional;
+    return {
+        id: row.id,
+        lead_id: row.lead_id,
+        professional_id: row.professional_id,
+        price: Number(row.price),
+        materials: parseQuoteMaterials(row.materials),
+        estimated_duration_minutes: row.estimated_duration_minutes,
+        available_from: row.available_from,
+        notes: row.notes,
+        status: LEAD_QUOTE_STATUSES.includes(row.status as LeadQuoteStatus) ? row.status as LeadQuoteStatus : 'pending',
+        created_at: row.created_at,
+        professional: {
+            name: professional?.full_name || 'Profesional',
+            avatar_url: professional?.avatar_url ?? null,
+            profession: professional?.profession ?? null,
+            rating: toNumberOrNull(professional?.calificacion_promedio),
+            lat: toNumberOrNull(professional?.ubicacion_lat),
+            lng: toNumberOrNull(professional?.ubicacion_lng),
+        },
+    };
+}
+
+/**
+ * Normalizar a 0..1 donde 1 es el mejor valor; si todos son iguales, todos obtienen 1
+ */
+function normalize(value: number, min: number, max: number, lowerIsBetter: boolean): number {
+    if (max === min) return 1;
+    const ratio = (value - min) / (max - min);
+    return lowerIsBetter ? 1 - ratio : ratio;
+}
+
+function compareNullable(a: number | null, b: number | null, ascending: boolean): number {
+    if (a === null && b === null) return 0;
+    if (a === null) return 1;
+    if (b === null) return -1;
+    return ascending ? a - b : b - a;
+}
+
+/**
+ * Ordenar cotizaciones para compararlas
+ * "best" combina precio, calificación y distancia con LEAD_QUOTE_WEIGHTS; los demás criterios
+ * ordenan por un solo valor (los faltantes al final). Los empates se resuelven por precio.
+ */
+export function rankLeadQuotes(
+    quotes: LeadQuote[],
+    origin?: { lat: number; lng: number } | null,
+    sortBy: LeadQuoteSort = 'best'
+): RankedLeadQuote[] {
+    const withDistance = quotes.map(quote => ({
+        quote,
+        distance_km: origin && quote.professional.lat !== null && quote.professional.lng !== null
+            ? calculateDistance(origin.lat, origin.lng, quote.professional.lat, quote.professional.lng)
+            : null,
+    }));
+
+    const prices = quotes.map(quote => quote.price);
+    const ratings = quotes.map(quote => quote.professional.rating).filter((r): r is number => r !== null);
+    const distances = withDistance.map(item => item.distance_km).filter((d): d is number => d !== null);
+
+    const minPrice = Math.min(...prices);
+    const maxPrice = Math.max(...prices);
+    const maxRating = ratings.length > 0 ? Math.max(...ratings) : null;
+    const minDistance = distances.length > 0 ? Math.min(...distances) : null;
+    const maxDistance = distances.length > 0 ? Math.max(...distances) : null;
+    const canHighlight = quotes.length > 1;
+
+    const ranked: RankedLeadQuote[] = withDistance.map(({ quote, distance_km }) => {
+        const rating = quote.professional.rating;
+        const priceScore = normalize(quote.price, minPrice, maxPrice, true);
+        const ratingScore = rating !== null ? Math.min(Math.max(rating / 5, 0), 1) : NEUTRAL_RATING_SCORE;
+        const distanceScore = distance_km !== null ? normalize(distance_km, minDistance!, maxDistance!, true) : 0;
+
+        const highlights: LeadQuoteHighlight[] = [];
+        if (canHighlight) {
+            if (quote.price === minPrice && minPrice !== maxPrice) highlights.push('cheapest');
+            if (rating !== null && rating === maxRating && ratings.length > 1) highlights.push('top_rated');
+            if (distance_km !== null && distance_km === minDistance && distances.length > 1) highlights.push('closest');
+        }
+
+        return {
+            ...quote,
+            distance_km,
+            score: LEAD_QUOTE_WEIGHTS.price * priceScore
+                + LEAD_QUOTE_WEIGHTS.rating * ratingScore
+                + LEAD_QUOTE_WEIGHTS.distance * distanceScore,
+            highlights,
+        };
+    });
+
+    return ranked.sort((a, b) => {
+        let result = 0;
+        switch (sortBy) {
+            case 'best':
+                result = b.score - a.score;
+                break;
+            case 'price':
+                result = a.price - b.price;
+                break;
+            case 'rating':
+                result = compareNullable(a.professional.rating, b.professional.rating, false);
+                break;
+            case 'distance':
+                result = compareNullable(a.distance_km, b.distance_km, true);
+                break;
+        }
+        return result || a.price - b.price;
+    });
+}
+
+export class LeadQuotesService {
+    /**
+     * Cotizaciones de un lead (todas: pendientes, aceptada y declinadas)
+     */
+    static async getLeadQuotes(leadId: string, signal?: AbortSignal): Promise<LeadQuote[]> {
+        assertValid(validateUUID(leadId));
+
+        const { data, error } = await requestExecutor.execute(
+            requestSignal => LeadQuotesRepository.listByLead(leadId, requestSignal),
+            {
+                key: CacheKeys.quotes(leadId),
+                signal,
+                policy: RequestPolicies.read,
+                timeoutMessage: 'Timeout al obtener cotizaciones',
+            }
+        );
+
+        if (error) {
+            // Migración pendiente: el lead sigue funcionando con un solo profesional
+            if (isMissingTableError(error)) {
+                console.warn('[LeadQuotesService] lead_quotes table not found, run SCHEMA_COTIZACIONES_PROFESIONALES.sql');
+                return [];
+            }
+            throw toAppError(error, 'No se pudieron obtener las cotizaciones');
+        }
+
+        return (data || []).map(toLeadQuote);
+    }
+
+    /**
+     * Aceptar una cotización: asigna al profesional con el precio cotizado y declina las demás
+     */
+    static async acceptLeadQuote(leadId: string, quoteId: string, clientId: string): Promise<void> {
+        assertValid(validateUUID(leadId));
+        assertValid(validateUUID(quoteId));
+
+        const { data: lead, error: fetchError } = await LeadsRepository.findOwnership(leadId);
+        if (fetchError || !lead) {
+            throw toAppError(fetchError, 'Solicitud no encontrada');
+        }
+        if (lead.cliente_id !== clientId) {
+            throw new AppError('permission', {
+                code: 'lead_quote.not_owner',
+                userMessage: 'No tienes permisos para aceptar cotizaciones de esta solicitud',
+            });
+        }
+
+        // ✅ Guard de la máquina de estados (solo leads pendientes reciben cotizaciones)
+        try {
+            assertTransition(lead, 'accepted');
+        } catch (error) {
+            throw toAppError(error);
+        }
+
+        const { error } = await requestExecutor.execute(
+            signal => LeadQuotesRepository.accept({ p_quote_id: quoteId }, signal),
+            { policy: RequestPolicies.write, timeoutMessage: 'Timeout al aceptar cotización' }
+        );
+
+        if (error) {
+            // Otra cotización se aceptó antes o el profesional la retiró
+            if (error.code === DB_ERROR_CODES.CHECK_VIOLATION) {
+                throw new AppError('conflict', {
+                    code: 'lead_quote.unavailable',
+                    userMessage: 'Esta cotización ya no está disponible. Actualiza la solicitud para ver las vigentes.',
+                    sourceCode: error.code,
+                    cause: error,
+                });
+            }
+            throw toAppError(error, 'No se pudo aceptar la cotización');
+        }
+
+        cache.invalidate(CacheKeys.lead(leadId));
+        cache.invalidate(CacheKeys.quotes(leadId));
+        cache.invalidatePattern(`^${CacheKeys.leads(clientId)}`);
+    }
+}
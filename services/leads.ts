@@ -8,71 +8,74 @@
  * - Manejo robusto de errores
  */
 
+import * as FileSystem from 'expo-file-system/legacy';
 import { supabase } from '@/lib/supabase';
-import { validateUUID, validateJobStatus, withTimeout } from './validation';
-import { cache, CacheKeys } from './cache';
-
-export interface ClientLead {
-    id: string;
-    servicio_solicitado?: string | null;
-    servicio?: string | null;
-    descripcion_proyecto?: string | null;
-    status: string;
-    estado?: string | null; // Legacy field
-    price?: number | null;
-    agreed_price?: number | null;
-    ubicacion_direccion?: string | null;
-    ubicacion_lat?: number | null;
-    ubicacion_lng?: number | null;
-    professional_id?: string | null;
-    profesional_asignado_id?: string | null; // Campo legacy
-    created_at: string;
-    updated_at: string;
-    // Campos adicionales
-    nombre_cliente?: string | null;
-    whatsapp?: string | null;
-    appointment_date?: string | null;
-    appointment_time?: string | null;
-    appointment_status?: string | null;
-    /** Slug de disciplina (p. ej. electricidad); alineado con `service_catalog.discipline` */
-    disciplina_ia?: string | null;
-}
+import { LeadsRepository, LeadRow, getAssignedProfessionalId } from './repositories/leads';
+import { assertValid, isNoRowsError, isPermissionError, toAppError } from './errors';
+import { validateUUID, validateJobStatus } from './validation';
+import { cache, CacheKeys, CachePolicies } from './cache';
+import { requestExecutor, RequestPolicies } from './requestExecutor';
+import { outbox, OutboxItem } from './outbox';
+import { LeadEventsService, diffLeadFields, getAddedPhotos } from './leadEvents';
+import {
+    CancellationPolicyService,
+    CancellationReasonCode,
+    isCancellationReasonCode,
+    validateCancellationReason,
+} from './cancellations';
+import {
+    LeadStatus,
+    LeadListFilter,
+    resolveLeadStatus,
+    matchesLeadFilter,
+    assertTransition,
+    toLeadStatusColumns,
+} from './leadLifecycle';
+
+/** Videos de evidencia (reclamos de garantía); el resto de archivos se sube como imagen */
+const VIDEO_CONTENT_TYPES: Record<string, string> = {
+    mp4: 'video/mp4',
+    mov: 'video/quicktime',
+};
 
-export class LeadsService {
-    /**
-     * Normalizar el estado del lead
-     * Maneja tanto el campo legacy 'estado' como el moderno 'status'
-     */
-    private static normalizeStatus(lead: any): string {
-        // Si tiene status moderno, usarlo
-        if (lead.status) {
-            return lead.status.toLowerCase();
-        }
+/**
+ * Lead del cliente: fila de `leads` con el estado ya resuelto (ver leadLifecycle.ts)
+ */
+export type ClientLead = Omit<LeadRow, 'status'> & {
+    status: LeadStatus;
+};
+
+export interface LeadUpdateData {
+    service: string;
+    description: string;
+    whatsapp: string;
+    address?: string;
+    photos: string[];
+}
 
-        // Si no, normalizar desde estado legacy
-        if (lead.estado) {
-            const estado = lead.estado.toLowerCase();
-            const statusMap: Record<string, string> = {
-                'nuevo': 'pending',
-                'asignado': 'accepted',
-                'en progreso': 'accepted',
-                'completado': 'completed',
-                'cancelado': 'cancelled',
-            };
-            return statusMap[estado] || 'pending';
-        }
+export interface LeadUpdatePayload {
+    lead_id: string;
+    data: LeadUpdateData;
+}
 
-        return 'pending';
-    }
+export interface LeadCancelPayload {
+    lead_id: string;
+    client_id: string;
+    /** Detalle escrito por el cliente */
+    reason?: string;
+    reason_code?: CancellationReasonCode;
+}
 
+export class LeadsService {
     /**
      * Obtener todos los leads de un cliente
      * Solución de vanguardia: maneja ambos campos de estado y filtra correctamente
      */
     static async getClientLeads(
         clientId: string,
-        filter?: 'all' | 'pending' | 'accepted' | 'completed',
-        bypassCache: boolean = false
+        filter?: LeadListFilter,
+        bypassCache: boolean = false,
+        onRevalidate?: (leads: ClientLead[]) => void
     ): Promise<ClientLead[]> {
         try {
             // ✅ Validar ID de cliente
@@ -93,83 +96,73 @@ export class LeadsService {
             console.log('[LeadsService] Fetching leads for client:', clientId);
             console.log('[LeadsService] Filter:', filter || 'all');
 
-            // ✅ Manejo de Cache
+            // ✅ Manejo de Cache (memoria + disco, stale-while-revalidate)
             const cacheKey = CacheKeys.leads(clientId) + (filter ? `:${filter}` : '');
-            if (!bypassCache) {
-                const cached = cache.get<ClientLead[]>(cacheKey);
-                if (cached) {
-                    console.log('[LeadsService] 📦 Using cached leads');
-                    return cached;
-                }
-            } else {
+            if (bypassCache) {
                 console.log('[LeadsService] 🔄 Bypassing cache for fresh data');
-                cache.invalidate(cacheKey);
+                const fresh = await this.fetchClientLeads(clientId, filter);
+                await cache.setPersisted(cacheKey, fresh, CachePolicies.leads);
+                return fresh;
             }
 
-            // Consulta base: obtener todos los leads del cliente
-            // EXCLUIR leads cancelados (tanto en estado legacy como moderno)
-            // ✅ OPTIMIZADO: Limitar a 200 leads más recientes para evitar timeouts
-            let query = supabase
-                .from('leads')
-                .select('*')
-                .eq('cliente_id', clientId)
-                // Excluir cancelados: ni 'cancelado' en estado legacy ni 'cancelled' en status moderno
-                .neq('estado', 'cancelado')
-                .neq('status', 'cancelled')
-                .order('updated_at', { ascending: false })
-                .limit(200); // ✅ Limitar resultados para mejor performance
-
-            // ✅ CORREGIDO: Cast para que withTimeout funcione con Supabase queries
-            const { data, error } = await withTimeout(
-                query as unknown as Promise<{ data: any; error: any }>,
-                15000, // ✅ Aumentado a 15 segundos (la query puede tardar con muchos leads)
-                'Timeout al obtener leads del cliente'
+            return await cache.staleWhileRevalidate(
+                cacheKey,
+                signal => this.fetchClientLeads(clientId, filter, signal),
+                { ...CachePolicies.leads, onRevalidate }
             );
+        } catch (error: any) {
+            console.error('[LeadsService] Error in getClientLeads:', error);
+            throw error;
+        }
+    }
 
-            if (error) {
-                console.error('[LeadsService] Error fetching leads:', error);
-                throw error;
-            }
+    /**
+     * Consultar leads del cliente en Supabase y normalizar estados
+     */
+    private static async fetchClientLeads(
+        clientId: string,
+        filter?: LeadListFilter,
+        signal?: AbortSignal
+    ): Promise<ClientLead[]> {
+        // Consulta base: obtener todos los leads del cliente
+        // EXCLUIR leads cancelados (tanto en estado legacy como moderno)
+        // ✅ OPTIMIZADO: Limitar a 200 leads más recientes para evitar timeouts
+        const { data, error } = await requestExecutor.execute(
+            fetchSignal => LeadsRepository.listActiveByClient(clientId, 200).abortSignal(fetchSignal), // ✅ Limitar resultados para mejor performance
+            { signal, policy: RequestPolicies.heavyRead, timeoutMessage: 'Timeout al obtener leads del cliente' }
+        );
 
-            console.log('[LeadsService] Raw leads from DB (excluding cancelled):', data?.length || 0);
+        if (error) {
+            console.error('[LeadsService] Error fetching leads:', error);
+            throw error;
+        }
 
-            if (!data || data.length === 0) {
-                console.log('[LeadsService] No leads found for client:', clientId);
-                return [];
-            }
+        console.log('[LeadsService] Raw leads from DB (excluding cancelled):', data?.length || 0);
 
-            // Normalizar estados y filtrar
-            let normalizedLeads = data.map((lead: any) => ({
-                ...lead,
-                status: this.normalizeStatus(lead),
-            })) as ClientLead[];
+        if (!data || data.length === 0) {
+            console.log('[LeadsService] No leads found for client:', clientId);
+            return [];
+        }
 
-            // Filtrar nuevamente por si acaso (doble verificación)
-            normalizedLeads = normalizedLeads.filter(lead => {
-                const status = lead.status.toLowerCase();
-                return status !== 'cancelled' && lead.estado?.toLowerCase() !== 'cancelado';
-            });
+        // Normalizar estados y filtrar
+        let normalizedLeads = data.map(toClientLead);
 
-            // Aplicar filtro adicional si es necesario
-            if (filter && filter !== 'all') {
-                normalizedLeads = normalizedLeads.filter(lead => lead.status === filter);
-            }
+        // Filtrar nuevamente por si acaso (doble verificación)
+        normalizedLeads = normalizedLeads.filter(lead => lead.status !== 'cancelled');
 
-            console.log('[LeadsService] Normalized leads:', normalizedLeads.length);
-            console.log('[LeadsService] Leads by status:', {
-                pending: normalizedLeads.filter(l => l.status === 'pending').length,
-                accepted: normalizedLeads.filter(l => l.status === 'accepted').length,
-                completed: normalizedLeads.filter(l => l.status === 'completed').length,
-            });
+        // Aplicar filtro adicional si es necesario ("accepted" incluye agendados y en progreso)
+        if (filter && filter !== 'all') {
+            normalizedLeads = normalizedLeads.filter(lead => matchesLeadFilter(lead.status, filter!));
+        }
 
-            // ✅ Guardar en cache (TTL: 2 minutos para leads)
-            cache.set(cacheKey, normalizedLeads, 2 * 60 * 1000);
+        console.log('[LeadsService] Normalized leads:', normalizedLeads.length);
+        console.log('[LeadsService] Leads by status:', {
+            pending: normalizedLeads.filter(l => matchesLeadFilter(l.status, 'pending')).length,
+            accepted: normalizedLeads.filter(l => matchesLeadFilter(l.status, 'accepted')).length,
+            completed: normalizedLeads.filter(l => matchesLeadFilter(l.status, 'completed')).length,
+        });
 
-            return normalizedLeads;
-        } catch (error: any) {
-            console.error('[LeadsService] Error in getClientLeads:', error);
-            throw error;
-        }
+        return normalizedLeads;
     }
 
     /**
@@ -191,15 +184,10 @@ export class LeadsService {
                 return cached;
             }
 
-            // ✅ CORREGIDO: Cast para que withTimeout funcione con Supabase queries
-            const { data, error } = await withTimeout(
-                supabase
-                    .from('leads')
-                    .select('*')
-                    .eq('id', leadId)
-                    .single() as unknown as Promise<{ data: any; error: any }>,
-                15000, // ✅ Aumentado a 15 segundos
-                'Timeout al obtener lead'
+            // Detalle, edición y cancelación pueden pedir el mismo lead a la vez
+            const { data, error } = await requestExecutor.execute(
+                signal => LeadsRepository.findById(leadId, signal),
+                { key: cacheKey, policy: RequestPolicies.heavyRead, timeoutMessage: 'Timeout al obtener lead' }
             );
 
             if (error) {
@@ -209,10 +197,7 @@ export class LeadsService {
 
             if (!data) return null;
 
-            const normalizedLead = {
-                ...data,
-                status: this.normalizeStatus(data),
-            } as ClientLead;
+            const normalizedLead = toClientLead(data);
 
             // ✅ Guardar en cache (TTL: 5 minutos para leads individuales)
             cache.set(cacheKey, normalizedLead, 5 * 60 * 1000);
@@ -269,11 +254,7 @@ export class LeadsService {
         lead?: ClientLead;
     }> {
         try {
-            const { data, error } = await supabase
-                .from('leads')
-                .select('*')
-                .eq('id', leadId)
-                .single();
+            const { data, error } = await LeadsRepository.findById(leadId);
 
             if (error || !data) {
                 return { exists: false, belongsToClient: false };
@@ -284,10 +265,7 @@ export class LeadsService {
             return {
                 exists: true,
                 belongsToClient,
-                lead: {
-                    ...data,
-                    status: this.normalizeStatus(data),
-                } as ClientLead,
+                lead: toClientLead(data),
             };
         } catch (error: any) {
             console.error('[LeadsService] Error in verifyLeadAccess:', error);
@@ -295,23 +273,74 @@ export class LeadsService {
         }
     }
 
+    /**
+     * Subir una foto (o video corto de evidencia) al bucket `lead-photos` y devolver su URL pública
+     * `folder` agrupa las fotos (id del lead, o `intake/<clientId>` antes de crear el lead)
+     */
+    static async uploadLeadPhoto(folder: string, imageUri: string): Promise<string> {
+        // fetch() no puede leer URIs locales en React Native: leer como base64
+        const base64 = await FileSystem.readAsStringAsync(imageUri, {
+            encoding: 'base64' as FileSystem.EncodingType,
+        });
+
+        const binaryString = atob(base64);
+        const bytes = new Uint8Array(binaryString.length);
+        for (let i = 0; i < binaryString.length; i++) {
+            bytes[i] = binaryString.charCodeAt(i);
+        }
+
+        const fileExt = imageUri.split('.').pop()?.toLowerCase() || 'jpg';
+        const filePath = `${folder}/${Date.now()}-${Math.random().toString(36).slice(2)}.${fileExt}`;
+
+        const { error } = await supabase.storage
+            .from('lead-photos')
+            .upload(filePath, bytes.buffer, {
+                contentType: VIDEO_CONTENT_TYPES[fileExt] ?? `image/${fileExt}`,
+                cacheControl: '3600',
+                upsert: false,
+            });
+
+        if (error) {
+            throw toAppError(error, 'No se pudo subir la foto');
+        }
+
+        const { data: { publicUrl } } = supabase.storage
+            .from('lead-photos')
+            .getPublicUrl(filePath);
+
+        return publicUrl;
+    }
+
     /**
      * Actualizar un lead
-     * Solución de vanguardia: fallback a RPC si RLS falla
+     * Pasa por el outbox: sin conexión el cambio queda pendiente (queued: true) y se aplica al reconectar
      */
     static async updateLead(
         leadId: string,
-        data: {
-            service: string;
-            description: string;
-            whatsapp: string;
-            address?: string;
-            photos: string[];
+        data: LeadUpdateData
+    ): Promise<{ lead: ClientLead | null; queued: boolean }> {
+        const submission = await outbox.submit<LeadUpdatePayload, ClientLead | null>(
+            'lead.update',
+            { lead_id: leadId, data }
+        );
+        if (submission.queued) {
+            console.log('[LeadsService] 📴 Lead update queued:', leadId);
+            return { lead: null, queued: true };
         }
-    ): Promise<ClientLead | null> {
+        return { lead: submission.result, queued: false };
+    }
+
+    /**
+     * Aplicar la actualización en Supabase (ejecutado por el outbox)
+     * Solución de vanguardia: fallback a RPC si RLS falla
+     */
+    static async applyLeadUpdate({ lead_id: leadId, data }: LeadUpdatePayload): Promise<ClientLead | null> {
         try {
             console.log('[LeadsService] Updating lead:', leadId);
 
+            // Versión anterior para el historial (normalmente ya está en cache desde el detalle)
+            const previous = await this.getLeadById(leadId).catch(() => null);
+
             const updatePayload = {
                 servicio_solicitado: data.service.trim() || null,
                 descripcion_proyecto: data.description.trim() || null,
@@ -322,21 +351,16 @@ export class LeadsService {
             };
 
             // Intentar UPDATE directo
-            const { data: updatedData, error } = await supabase
-                .from('leads')
-                .update(updatePayload)
-                .eq('id', leadId)
-                .select()
-                .single();
+            const { data: updatedData, error } = await LeadsRepository.update(leadId, updatePayload);
 
             if (error) {
                 console.error('[LeadsService] Direct update failed:', error);
 
                 // Si falla por RLS, intentar con RPC
-                if (error.code === '42501' || error.code === 'PGRST301') {
+                if (isPermissionError(error)) {
                     console.log('[LeadsService] Falling back to RPC update_lead_details');
 
-                    const { error: rpcError } = await supabase.rpc('update_lead_details', {
+                    const { error: rpcError } = await LeadsRepository.updateDetailsRpc({
                         lead_id: leadId,
                         servicio_solicitado_in: updatePayload.servicio_solicitado,
                         descripcion_proyecto_in: updatePayload.descripcion_proyecto,
@@ -351,6 +375,8 @@ export class LeadsService {
                     }
 
                     // Si RPC tuvo éxito, recargar el lead
+                    cache.invalidate(CacheKeys.lead(leadId));
+                    await this.recordLeadEdit(previous, updatePayload);
                     const reloaded = await this.getLeadById(leadId);
                     return reloaded;
                 }
@@ -362,61 +388,134 @@ export class LeadsService {
                 throw new Error('No se pudo actualizar la solicitud');
             }
 
-            return {
-                ...updatedData,
-                status: this.normalizeStatus(updatedData),
-            } as ClientLead;
+            cache.invalidate(CacheKeys.lead(leadId));
+            await this.recordLeadEdit(previous, updatePayload);
+
+            return toClientLead(updatedData);
         } catch (error: any) {
             console.error('[LeadsService] Error in updateLead:', error);
             throw error;
         }
     }
 
+    /**
+     * Registrar en el historial los campos editados y las fotos nuevas
+     */
+    private static async recordLeadEdit(
+        previous: ClientLead | null,
+        update: Pick<LeadRow, 'servicio_solicitado' | 'descripcion_proyecto' | 'ubicacion_direccion' | 'whatsapp' | 'photos_urls'>
+    ): Promise<void> {
+        // Sin la versión anterior no hay contra qué comparar
+        if (!previous) return;
+
+        const changes = diffLeadFields(previous, update);
+        if (changes.length > 0) {
+            await LeadEventsService.record({
+                leadId: previous.id,
+                actorId: previous.cliente_id,
+                type: 'edited',
+                payload: { changes },
+            });
+        }
+
+        const addedPhotos = getAddedPhotos(previous.photos_urls, update.photos_urls as string[] | null);
+        if (addedPhotos.length > 0) {
+            await LeadEventsService.record({
+                leadId: previous.id,
+                actorId: previous.cliente_id,
+                type: 'photos_added',
+                payload: { count: addedPhotos.length, urls: addedPhotos },
+            });
+        }
+    }
+
     /**
      * Cancelar un lead
-     * Solución de vanguardia: maneja diferentes escenarios según si hay profesional asignado
+     * Pasa por el outbox: sin conexión la cancelación queda pendiente (queued: true)
+     * Con profesional asignado el servidor guarda el motivo y el cargo de la política de cancelación
      */
     static async cancelLead(
         leadId: string,
         clientId: string,
-        reason?: string
+        reason?: string,
+        reasonCode?: CancellationReasonCode
+    ): Promise<{ queued: boolean }> {
+        // Validar la transición con el último estado conocido antes de encolar
+        const known = cache.get<ClientLead>(CacheKeys.lead(leadId));
+        if (known) {
+            assertTransition(known, 'cancelled');
+        }
+
+        const submission = await outbox.submit<LeadCancelPayload, void>(
+            'lead.cancel',
+            { lead_id: leadId, client_id: clientId, reason, reason_code: reasonCode }
+        );
+        if (submission.queued) {
+            console.log('[LeadsService] 📴 Lead cancellation queued:', leadId);
+        }
+        return { queued: submission.queued };
+    }
+
+    /**
+     * Aplicar la cancelación en Supabase (ejecutado por el outbox)
+     * Solución de vanguardia: maneja diferentes escenarios según si hay profesional asignado
+     */
+    static async applyLeadCancel(
+        { lead_id: leadId, client_id: clientId, reason, reason_code }: LeadCancelPayload,
+        item?: OutboxItem<LeadCancelPayload>
     ): Promise<void> {
         try {
             console.log('[LeadsService] Cancelling lead:', leadId);
 
             // Primero, obtener el lead para verificar si tiene profesional asignado
-            const lead = await this.getLeadById(leadId);
+            const lead = await this.getLeadById(leadId).catch(error => {
+                // En un reintento el lead pudo haberse eliminado ya (hard delete)
+                if (item && item.attempts > 1 && isNoRowsError(error)) return null;
+                throw error;
+            });
 
             if (!lead) {
+                if (item && item.attempts > 1) {
+                    console.log('[LeadsService] Lead already removed, nothing to cancel:', leadId);
+                    return;
+                }
                 throw new Error('Lead no encontrado');
             }
 
             // Verificar que el lead pertenece al cliente
-            const { data: leadData } = await supabase
-                .from('leads')
-                .select('cliente_id, profesional_asignado_id, professional_id')
-                .eq('id', leadId)
-                .single();
+            const { data: leadData } = await LeadsRepository.findOwnership(leadId);
 
             if (!leadData || leadData.cliente_id !== clientId) {
                 throw new Error('No tienes permisos para cancelar esta solicitud');
             }
 
-            const hasProfessional = !!(leadData.profesional_asignado_id || leadData.professional_id);
+            // ✅ Guard de la máquina de estados (p. ej. no cancelar después de completar)
+            if (item && item.attempts > 1 && resolveLeadStatus(leadData) === 'cancelled') {
+                console.log('[LeadsService] Lead already cancelled:', leadId);
+                return;
+            }
+            assertTransition(leadData, 'cancelled');
+
+            const hasProfessional = !!getAssignedProfessionalId(leadData);
 
             if (hasProfessional) {
                 // Si hay profesional asignado, cambiar estado a 'cancelado' (soft delete)
                 console.log('[LeadsService] Lead has professional, using soft delete');
 
-                const { error } = await supabase
-                    .from('leads')
-                    .update({
-                        estado: 'cancelado',
-                        status: 'cancelled',
-                        updated_at: new Date().toISOString(),
-                    })
-                    .eq('id', leadId)
-                    .eq('cliente_id', clientId);
+                // El motivo se valida antes de llamar al servidor para dar el mensaje exacto;
+                // cancel_lead lo vuelve a validar y calcula el cargo con su propia hora
+                const reasonCode = isCancellationReasonCode(reason_code) ? reason_code : null;
+                if (reasonCode) {
+                    const policy = await CancellationPolicyService.getPolicy(lead.servicio || lead.disciplina_ia);
+                    assertValid(validateCancellationReason({ reasonCode, detail: reason, lead, policy }));
+                }
+
+                // La RPC registra el evento en el historial (con hard delete se borraría con el lead)
+                const { error } = await LeadsRepository.cancel({
+                    p_lead_id: leadId,
+                    p_reason_code: reasonCode,
+                    p_reason: reason?.trim() || null,
+                });
 
                 if (error) {
                     console.error('[LeadsService] Error cancelling lead:', error);
@@ -426,11 +525,7 @@ export class LeadsService {
                 // Si NO hay profesional asignado, eliminar completamente (hard delete)
                 console.log('[LeadsService] Lead has no professional, using hard delete');
 
-                const { error } = await supabase
-                    .from('leads')
-                    .delete()
-                    .eq('id', leadId)
-                    .eq('cliente_id', clientId);
+                const { error } = await LeadsRepository.deleteForClient(leadId, clientId);
 
                 if (error) {
                     console.error('[LeadsService] Error deleting lead:', error);
@@ -438,6 +533,10 @@ export class LeadsService {
                 }
             }
 
+            // Invalidar cache (memoria y disco) para no mostrar el lead cancelado
+            cache.invalidate(CacheKeys.lead(leadId));
+            cache.invalidatePattern(`^${CacheKeys.leads(clientId)}`);
+
             console.log('[LeadsService] Lead cancelled successfully');
         } catch (error: any) {
             console.error('[LeadsService] Error in cancelLead:', error);
@@ -449,11 +548,7 @@ export class LeadsService {
      * Marcar lead como completado (cliente confirma fin del servicio).
      */
     static async completeLead(leadId: string, clientId: string): Promise<ClientLead | null> {
-        const { data: leadData, error: fetchError } = await supabase
-            .from('leads')
-            .select('cliente_id')
-            .eq('id', leadId)
-            .single();
+        const { data: leadData, error: fetchError } = await LeadsRepository.findOwnership(leadId);
 
         if (fetchError || !leadData) {
             throw new Error('Lead no encontrado');
@@ -462,17 +557,13 @@ export class LeadsService {
             throw new Error('No tienes permisos para completar esta solicitud');
         }
 
-        const { data: updated, error } = await supabase
-            .from('leads')
-            .update({
-                estado: 'completado',
-                status: 'completed',
-                updated_at: new Date().toISOString(),
-            })
-            .eq('id', leadId)
-            .eq('cliente_id', clientId)
-            .select()
-            .single();
+        // ✅ Guard de la máquina de estados (solo leads aceptados/agendados/en progreso)
+        assertTransition(leadData, 'completed');
+
+        const { data: updated, error } = await LeadsRepository.updateForClient(leadId, clientId, {
+            ...toLeadStatusColumns('completed'),
+            updated_at: new Date().toISOString(),
+        });
 
         if (error) {
             console.error('[LeadsService] Error in completeLead:', error);
@@ -480,10 +571,19 @@ export class LeadsService {
         }
         if (!updated) return null;
 
-        return {
-            ...updated,
-            status: this.normalizeStatus(updated),
-        } as ClientLead;
+        cache.invalidate(CacheKeys.lead(leadId));
+        cache.invalidatePattern(`^${CacheKeys.leads(clientId)}`);
+
+        return toClientLead(updated);
     }
 }
 
+function toClientLead(row: LeadRow): ClientLead {
+    return {
+        ...row,
+        status: resolveLeadStatus(row),
+    };
+}
+
+outbox.registerHandler<LeadUpdatePayload, ClientLead | null>('lead.update', (payload) => LeadsService.applyLeadUpdate(payload));
+outbox.registerHandler<LeadCancelPayload, void>('lead.cancel', (payload, item) => LeadsService.applyLeadCancel(payload, item));
@@ -1,5 +1,6 @@
 import * as Location from 'expo-location';
 import { supabase } from '@/lib/supabase';
+import { ProfilesRepository, ProfileUpdate } from './repositories/profiles';
 
 /**
  * Location Service - Gestión de ubicación del cliente
@@ -97,7 +98,7 @@ export class LocationService {
         try {
             // Construir objeto de actualización solo con campos que existen
             // NOTA: postal_code no se incluye porque puede no existir en la BD
-            const updateData: any = {
+            const updateData: ProfileUpdate = {
                 ubicacion_lat: location.latitude,
                 ubicacion_lng: location.longitude,
                 updated_at: new Date().toISOString(),
@@ -112,10 +113,7 @@ export class LocationService {
             // postal_code NO se incluye porque la columna puede no existir
             // Si necesitas postal_code, agrega la columna a la tabla profiles primero
 
-            const { error } = await supabase
-                .from('profiles')
-                .update(updateData)
-                .eq('user_id', userId);
+            const { error } = await ProfilesRepository.update(userId, updateData);
 
             if (error) {
                 console.error('[LocationService] Error saving location:', error);
@@ -0,0 +1,195 @@
+import { validateUUID } from './validation';
+import { cache, CacheKeys } from './cache';
+import { requestExecutor, RequestPolicies } from './requestExecutor';
+import { FINAL_LEAD_STATUSES, LEAD_STATUS_LABELS, resolveLeadStatus } from './leadLifecycle';
+import { AppError, DB_ERROR_CODES, assertValid, isMissingTableError, toAppError } from './errors';
+import { LeadsRepository } from './repositories/leads';
+import { MaterialsRepository, ServiceMaterialRow } from './repositories/materials';
+import type { ServiceMaterial, ServiceMaterialStatus } from './quotes';
+
+/**
+ * Materials Service - Aprobación de materiales del servicio
+ * El profesional propone materiales (ServiceMaterial); el cliente aprueba o rechaza cada
+ * renglón o todos los pendientes a la vez. Los aprobados se compran y el profesional sube
+ * tickets y fotos de la compra.
+ */
+
+export interface MaterialsTotals {
+    count: number;
+    /** Materiales más cargo por compra */
+    total: number;
+}
+
+export interface MaterialsSummary {
+    pending: MaterialsTotals;
+    approved: MaterialsTotals;
+    purchased: MaterialsTotals;
+    rejected: MaterialsTotals;
+    /** Lo que el cliente ya aceptó pagar (aprobados + comprados) */
+    committed: number;
+}
+
+export const MATERIAL_STATUS_LABELS: Record<ServiceMaterialStatus, string> = {
+    pending: 'Por aprobar',
+    approved: 'Aprobado',
+    rejected: 'Rechazado',
+    purchased: 'Comprado',
+};
+
+const MATERIAL_STATUSES: ServiceMaterialStatus[] = ['pending', 'approved', 'rejected', 'purchased'];
+
+function roundCents(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+export function toServiceMaterial(row: ServiceMaterialRow): ServiceMaterial {
+    const quantity = Number(row.quantity);
+    const unitPrice = Number(row.unit_price);
+    return {
+        id: row.id,
+        lead_id: row.lead_id,
+        professional_id: row.professional_id,
+        material_name: row.material_name,
+        quantity,
+        unit: row.unit,
+        unit_price: unitPrice,
+        total_price: row.total_price != null ? Number(row.total_price) : roundCents(quantity * unitPrice),
+        purchase_service_fee: Number(row.purchase_service_fee ?? 0),
+        status: MATERIAL_STATUSES.includes(row.status as ServiceMaterialStatus) ? row.status as ServiceMaterialStatus : 'pending',
+        client_approved: row.client_approved ?? undefined,
+        responded_at: row.responded_at ?? undefined,
+        purchased_at: row.purchased_at ?? undefined,
+        receipt_urls: row.receipt_urls || [],
+        photo_urls: row.photo_urls || [],
+        notes: row.notes ?? undefined,
+        created_at: row.created_at ?? undefined,
+    };
+}
+
+/**
+ * Costo de un renglón para el cliente (material + cargo por compra)
+ */
+export function getMaterialLineTotal(material: ServiceMaterial): number {
+    return roundCents(material.total_price + material.purchase_service_fee);
+}
+
+/**
+ * Totales por estado para mostrar mientras el cliente responde
+ */
+export function summarizeMaterials(materials: ServiceMaterial[]): MaterialsSummary {
+    const empty = (): MaterialsTotals => ({ count: 0, total: 0 });
+    const summary: MaterialsSummary = {
+        pending: empty(),
+        approved: empty(),
+        purchased: empty(),
+        rejected: empty(),
+        committed: 0,
+    };
+
+    for (const material of materials) {
+        const bucket = summary[material.status || 'pending'];
+        bucket.count += 1;
+        bucket.total = roundCents(bucket.total + getMaterialLineTotal(material));
+    }
+
+    summary.committed = roundCents(summary.approved.total + summary.purchased.total);
+    return summary;
+}
+
+export class MaterialsService {
+    /**
+     * Materiales propuestos para un lead
+     */
+    static async getLeadMaterials(leadId: string, signal?: AbortSignal): Promise<ServiceMaterial[]> {
+        assertValid(validateUUID(leadId));
+
+        const { data, error } = await requestExecutor.execute(
+            requestSignal => MaterialsRepository.listByLead(leadId, requestSignal),
+            {
+                key: CacheKeys.materials(leadId),
+                signal,
+                policy: RequestPolicies.read,
+                timeoutMessage: 'Timeout al obtener materiales',
+            }
+        );
+
+        if (error) {
+            // Migración pendiente: el lead se muestra sin materiales
+            if (isMissingTableError(error)) {
+                console.warn('[MaterialsService] service_materials table not found, run SCHEMA_MATERIALES.sql');
+                return [];
+            }
+            throw toAppError(error, 'No se pudieron obtener los materiales');
+        }
+
+        return (data || []).map(toServiceMaterial);
+    }
+
+    /**
+     * Aprobar o rechazar uno o varios materiales pendientes
+     */
+    static async respondToMaterials(params: {
+        leadId: string;
+        clientId: string;
+        materialIds: string[];
+        approved: boolean;
+    }): Promise<void> {
+        const { leadId, clientId, materialIds, approved } = params;
+        assertValid(validateUUID(leadId));
+        if (materialIds.length === 0) return;
+        materialIds.forEach(id => assertValid(validateUUID(id)));
+
+        const { data: lead, error: fetchError } = await LeadsRepository.findOwnership(leadId);
+        if (fetchError || !lead) {
+            throw toAppError(fetchError, 'Solicitud no encontrada');
+        }
+        if (lead.cliente_id !== clientId) {
+            throw new AppError('permission', {
+                code: 'materials.not_owner',
+                userMessage: 'No tienes permisos para responder materiales de esta solicitud',
+            });
+        }
+
+        const status = resolveLeadStatus(lead);
+        if (FINAL_LEAD_STATUSES.includes(status)) {
+            throw new AppError('transition', {
+                code: 'materials.lead_closed',
+                userMessage: `La solicitud ya está ${LEAD_STATUS_LABELS[status].toLowerCase()}; no se pueden cambiar los materiales`,
+            });
+        }
+
+        const { error } = await requestExecutor.execute(
+            signal => MaterialsRepository.respond({
+                p_lead_id: leadId,
+                p_material_ids: materialIds,
+                p_approved: approved,
+            }, signal),
+            { policy: RequestPolicies.write, timeoutMessage: 'Timeout al responder materiales' }
+        );
+
+        if (error) {
+            if (error.code === DB_ERROR_CODES.CHECK_VIOLATION) {
+                throw new AppError('conflict', {
+                    code: 'materials.not_pending',
+                    userMessage: 'Algunos materiales ya fueron respondidos. Actualiza la solicitud para ver su estado.',
+                    sourceCode: error.code,
+                    cause: error,
+                });
+            }
+            throw toAppError(error, 'No se pudieron responder los materiales');
+        }
+
+        cache.invalidate(CacheKeys.materials(leadId));
+    }
+
+    /**
+     * Aprobar todos los materiales pendientes
+     */
+    static async approveAllPending(leadId: string, clientId: string, materials: ServiceMaterial[]): Promise<void> {
+        const pendingIds = materials
+            .filter(material => material.status === 'pending' && material.id)
+            .map(material => material.id!);
+
+        await this.respondToMaterials({ leadId, clientId, materialIds: pendingIds, approved: true });
+    }
+}
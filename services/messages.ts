@@ -1,28 +1,40 @@
 import { supabase } from '@/lib/supabase';
 import { isProfessionalProfileRow } from '@/constants/roles';
+import { outbox, OutboxItem, generateClientId } from './outbox';
+import { isDuplicateError, isMissingColumnError, isMissingFunctionError } from './errors';
+import { LeadStatus, resolveLeadStatus } from './leadLifecycle';
+import { cache, CacheKeys, CachePolicies } from './cache';
+import { LeadEventsService, toMessagePreview } from './leadEvents';
+import { MessagesRepository, MessageRow } from './repositories/messages';
+import { LeadsRepository, LeadRow, getAssignedProfessionalId } from './repositories/leads';
+import { ProfilesRepository } from './repositories/profiles';
 
 /**
  * Messages Service - Gestión de mensajes para clientes
  * Alineado con TulBoxPros y Web
  */
 
-export interface Message {
+export interface Message extends Pick<MessageRow, 'id' | 'lead_id' | 'sender_id' | 'content' | 'created_at' | 'updated_at'> {
+    // Datos del remitente
+    sender_name?: string;
+    sender_avatar?: string;
+    sender_type?: 'professional' | 'client';
+    /** Estado de envío local (solo mensajes propios que pasan por el outbox) */
+    delivery_status?: 'sent' | 'pending' | 'failed';
+}
+
+export interface SendMessagePayload {
     id: string;
     lead_id: string;
     sender_id: string;
     content: string;
     created_at: string;
-    updated_at: string;
-    // Datos del remitente
-    sender_name?: string;
-    sender_avatar?: string;
-    sender_type?: 'professional' | 'client';
 }
 
 export interface Conversation {
     lead_id: string;
     lead_title: string;
-    lead_status: string;
+    lead_status: LeadStatus;
     professional_id?: string;
     professional_name?: string;
     professional_avatar?: string;
@@ -34,149 +46,237 @@ export interface Conversation {
 export class MessagesService {
     /**
      * Obtener conversaciones del cliente (agrupadas por lead)
+     * Stale-while-revalidate: la lista cacheada se muestra al instante y se parchea con realtime
      */
-    static async getConversations(clientId: string): Promise<Conversation[]> {
+    static async getConversations(
+        clientId: string,
+        bypassCache: boolean = false,
+        onRevalidate?: (conversations: Conversation[]) => void
+    ): Promise<Conversation[]> {
+        const cacheKey = CacheKeys.conversations(clientId);
+
         try {
-            // Obtener todos los leads del cliente
-            const { data: leadsWithMessages, error: leadsError } = await supabase
-                .from('leads')
-                .select(`
-                    id,
-                    servicio_solicitado,
-                    servicio,
-                    status,
-                    estado,
-                    professional_id,
-                    profesional_asignado_id,
-                    updated_at
-                `)
-                .eq('cliente_id', clientId)
-                .order('updated_at', { ascending: false });
-
-            if (leadsError) {
-                console.error('[MessagesService] Error fetching leads:', leadsError);
-                throw leadsError;
+            if (bypassCache) {
+                const conversations = await this.fetchConversations(clientId);
+                await cache.setPersisted(cacheKey, conversations, CachePolicies.conversations);
+                return conversations;
             }
 
-            if (!leadsWithMessages || leadsWithMessages.length === 0) {
-                return [];
-            }
+            return await cache.staleWhileRevalidate(
+                cacheKey,
+                () => this.fetchConversations(clientId),
+                { ...CachePolicies.conversations, onRevalidate }
+            );
+        } catch (error) {
+            console.error('[MessagesService] Error getting conversations:', error);
+            return [];
+        }
+    }
 
-            // Para cada lead, obtener el último mensaje y contar no leídos
-            const conversations: Conversation[] = [];
+    /**
+     * Cargar la bandeja en 2 requests: RPC agregada (o consulta en batch) + perfiles en bulk
+     */
+    private static async fetchConversations(clientId: string): Promise<Conversation[]> {
+        let rows = await this.fetchConversationRowsRpc(clientId);
+        if (!rows) {
+            rows = await this.fetchConversationRowsBatched(clientId);
+        }
 
-            for (const lead of leadsWithMessages) {
-                const resolvedProfessionalId =
-                    (lead as any).professional_id || (lead as any).profesional_asignado_id || null;
+        if (rows.length === 0) {
+            return [];
+        }
 
-                // Obtener último mensaje (sin .single() para evitar error si no hay mensajes)
-                const { data: lastMessages } = await supabase
-                    .from('messages')
-                    .select('*')
-                    .eq('lead_id', lead.id)
-                    .order('created_at', { ascending: false })
-                    .limit(1);
+        // Una sola consulta de perfiles para todos los profesionales
+        const professionalIds = [
+            ...new Set(
+                rows
+                    .map(row => getAssignedProfessionalId(row))
+                    .filter((id): id is string => !!id)
+            ),
+        ];
+
+        const profilesMap = new Map<string, { full_name?: string | null; avatar_url?: string | null }>();
+        if (professionalIds.length > 0) {
+            const { data: profilesData, error: profilesError } = await ProfilesRepository.findSummaries(professionalIds);
+
+            if (profilesError) {
+                console.warn('[MessagesService] Error fetching professionals:', profilesError);
+            }
+            (profilesData || []).forEach(profile => profilesMap.set(profile.user_id, profile));
+        }
 
-                const lastMessage = lastMessages && lastMessages.length > 0 ? lastMessages[0] : null;
+        const conversations = rows.map((row): Conversation => {
+            const professionalId = getAssignedProfessionalId(row) || undefined;
+            const professional = professionalId ? profilesMap.get(professionalId) : undefined;
 
-                /** Solo hilos con profesional asignado o con conversación ya iniciada */
-                if (!resolvedProfessionalId && !lastMessage) {
-                    continue;
-                }
+            return {
+                lead_id: row.lead_id,
+                lead_title: row.servicio_solicitado || row.servicio || 'Servicio',
+                lead_status: resolveLeadStatus(row),
+                professional_id: professionalId,
+                professional_name:
+                    professional?.full_name ||
+                    (professionalId ? 'Profesional' : 'Sin asignar'),
+                professional_avatar: professional?.avatar_url || undefined,
+                last_message: row.last_message,
+                unread_count: row.unread_count || 0,
+                updated_at: row.updated_at,
+            };
+        });
 
-                // Contar mensajes no leídos (mensajes del profesional que no ha leído el cliente)
-                let unreadCount = 0;
-                try {
-                    // Primero intentar con read_at si existe
-                    const { count: unreadWithReadAt, error: readAtError } = await supabase
-                        .from('messages')
-                        .select('*', { count: 'exact', head: true })
-                        .eq('lead_id', lead.id)
-                        .neq('sender_id', clientId)
-                        .is('read_at', null);
-                    
-                    if (!readAtError || readAtError.code !== '42703') {
-                        // Si no hay error o el error no es "columna no existe", usar este count
-                        unreadCount = unreadWithReadAt || 0;
-                    } else {
-                        // Si read_at no existe, contar todos los mensajes del profesional
-                        const { count } = await supabase
-                            .from('messages')
-                            .select('*', { count: 'exact', head: true })
-                            .eq('lead_id', lead.id)
-                            .neq('sender_id', clientId);
-                        unreadCount = count || 0;
-                    }
-                } catch (countError: any) {
-                    console.warn('[MessagesService] Error counting unread, using fallback:', countError);
-                    // Fallback: contar todos los mensajes del profesional
-                    try {
-                        const { count } = await supabase
-                            .from('messages')
-                            .select('*', { count: 'exact', head: true })
-                            .eq('lead_id', lead.id)
-                            .neq('sender_id', clientId);
-                        unreadCount = count || 0;
-                    } catch (fallbackError) {
-                        console.error('[MessagesService] Fallback count also failed:', fallbackError);
-                        unreadCount = 0;
-                    }
-                }
+        return sortConversations(conversations);
+    }
 
-                // Obtener información del profesional si existe
-                let professionalName: string | undefined;
-                let professionalAvatar: string | undefined;
-                
-                if (resolvedProfessionalId) {
-                    try {
-                        const { data: professionalData } = await supabase
-                            .from('profiles')
-                            .select('full_name, avatar_url')
-                            .eq('user_id', resolvedProfessionalId)
-                            .maybeSingle();
-                        
-                        if (professionalData) {
-                            professionalName = professionalData.full_name || undefined;
-                            professionalAvatar = professionalData.avatar_url || undefined;
-                        }
-                    } catch (profError) {
-                        console.warn('[MessagesService] Error fetching professional:', profError);
-                        // Continuar sin información del profesional
-                    }
-                }
+    /**
+     * RPC get_client_conversations (RPC_GET_CLIENT_CONVERSATIONS.sql)
+     * Devuelve null si la función aún no existe en la base de datos
+     */
+    private static async fetchConversationRowsRpc(clientId: string): Promise<ConversationRow[] | null> {
+        const { data, error } = await MessagesRepository.listConversationsRpc(clientId);
 
-                conversations.push({
-                    lead_id: lead.id,
-                    lead_title: lead.servicio_solicitado || lead.servicio || 'Servicio',
-                    lead_status: lead.status || lead.estado || 'pending',
-                    professional_id: resolvedProfessionalId || undefined,
-                    professional_name:
-                        professionalName ||
-                        (resolvedProfessionalId ? 'Profesional' : 'Sin asignar'),
-                    professional_avatar: professionalAvatar,
-                    last_message: lastMessage ? {
-                        id: lastMessage.id,
-                        lead_id: lastMessage.lead_id,
-                        sender_id: lastMessage.sender_id,
-                        content: lastMessage.content,
-                        created_at: lastMessage.created_at,
-                        updated_at: lastMessage.updated_at,
-                    } : undefined,
-                    unread_count: unreadCount || 0,
-                    updated_at: lead.updated_at,
-                });
+        if (error) {
+            if (isMissingFunctionError(error)) {
+                console.log('[MessagesService] get_client_conversations not available, using batched queries');
+                return null;
             }
+            console.error('[MessagesService] Error in get_client_conversations:', error);
+            throw error;
+        }
 
-            // Ordenar por último mensaje o última actualización
-            return conversations.sort((a, b) => {
-                const aTime = a.last_message?.created_at || a.updated_at;
-                const bTime = b.last_message?.created_at || b.updated_at;
-                return new Date(bTime).getTime() - new Date(aTime).getTime();
-            });
-        } catch (error) {
-            console.error('[MessagesService] Error getting conversations:', error);
+        return (data || []).map((row): ConversationRow => ({
+            lead_id: row.lead_id,
+            servicio_solicitado: row.servicio_solicitado,
+            servicio: row.servicio,
+            status: row.status,
+            estado: row.estado,
+            appointment_status: row.appointment_status,
+            professional_id: row.professional_id,
+            profesional_asignado_id: row.profesional_asignado_id,
+            updated_at: row.updated_at,
+            last_message: row.last_message_id && row.last_message_sender_id ? {
+                id: row.last_message_id,
+                lead_id: row.lead_id,
+                sender_id: row.last_message_sender_id,
+                content: row.last_message_content ?? '',
+                created_at: row.last_message_created_at ?? row.updated_at,
+                updated_at: row.last_message_updated_at ?? row.updated_at,
+            } : undefined,
+            unread_count: row.unread_count || 0,
+        }));
+    }
+
+    /**
+     * Fallback sin RPC: leads + los mensajes más recientes de todos los leads en una sola consulta
+     * Con el límite, un hilo sin mensajes recientes queda sin vista previa y el contador de
+     * no leídos solo cuenta los mensajes cargados
+     */
+    private static async fetchConversationRowsBatched(clientId: string): Promise<ConversationRow[]> {
+        const { data: leadsData, error: leadsError } = await LeadsRepository.listInboxByClient(clientId);
+
+        if (leadsError) {
+            console.error('[MessagesService] Error fetching leads:', leadsError);
+            throw leadsError;
+        }
+
+        if (!leadsData || leadsData.length === 0) {
             return [];
         }
+
+        const leadIds = leadsData.map(lead => lead.id);
+        let hasReadAt = true;
+
+        let messagesData: Array<Omit<MessageRow, 'read_at'> & { read_at?: string | null }> | null;
+        let { data: withReadAt, error: messagesError } = await MessagesRepository.listByLeads(leadIds);
+        messagesData = withReadAt;
+
+        if (isMissingColumnError(messagesError)) {
+            // Si read_at no existe, todos los mensajes del profesional cuentan como no leídos
+            hasReadAt = false;
+            const fallback = await MessagesRepository.listByLeadsWithoutReadAt(leadIds);
+            messagesData = fallback.data;
+            messagesError = fallback.error;
+        }
+
+        if (messagesError) {
+            console.error('[MessagesService] Error fetching messages:', messagesError);
+            throw messagesError;
+        }
+
+        // Agrupar en memoria: el primer mensaje de cada lead es el más reciente
+        const lastMessages = new Map<string, Message>();
+        const unreadCounts = new Map<string, number>();
+        for (const msg of messagesData || []) {
+            if (!lastMessages.has(msg.lead_id)) {
+                lastMessages.set(msg.lead_id, toMessage(msg));
+            }
+            if (msg.sender_id !== clientId && (!hasReadAt || !msg.read_at)) {
+                unreadCounts.set(msg.lead_id, (unreadCounts.get(msg.lead_id) || 0) + 1);
+            }
+        }
+
+        return leadsData
+            .map((lead): ConversationRow => ({
+                lead_id: lead.id,
+                servicio_solicitado: lead.servicio_solicitado,
+                servicio: lead.servicio,
+                status: lead.status,
+                estado: lead.estado,
+                appointment_status: lead.appointment_status,
+                professional_id: lead.professional_id,
+                profesional_asignado_id: lead.profesional_asignado_id,
+                updated_at: lead.updated_at,
+                last_message: lastMessages.get(lead.id),
+                unread_count: unreadCounts.get(lead.id) || 0,
+            }))
+            /** Solo hilos con profesional asignado o con conversación ya iniciada */
+            .filter(row => row.professional_id || row.profesional_asignado_id || row.last_message);
+    }
+
+    /**
+     * Aplicar un cambio a la bandeja cacheada (memoria + disco) sin volver a consultarla
+     * Devuelve la lista actualizada, o null si no hay bandeja en memoria
+     */
+    private static async patchConversations(
+        clientId: string,
+        patch: (conversations: Conversation[]) => Conversation[] | null
+    ): Promise<Conversation[] | null> {
+        const cacheKey = CacheKeys.conversations(clientId);
+        const current = cache.get<Conversation[]>(cacheKey);
+        if (!current) return null;
+
+        const updated = patch(current);
+        if (!updated) return null;
+
+        const sorted = sortConversations(updated);
+        await cache.setPersisted(cacheKey, sorted, CachePolicies.conversations);
+        return sorted;
+    }
+
+    /**
+     * Agregar un mensaje nuevo a la bandeja: último mensaje + contador de no leídos
+     * null si el lead no está en la bandeja (conversación nueva)
+     */
+    private static applyMessage(
+        conversations: Conversation[],
+        message: Message,
+        clientId: string
+    ): Conversation[] | null {
+        const index = conversations.findIndex(c => c.lead_id === message.lead_id);
+        if (index === -1) return null;
+
+        const conversation = conversations[index];
+        if (conversation.last_message?.id === message.id) {
+            return conversations;
+        }
+
+        const updated = [...conversations];
+        updated[index] = {
+            ...conversation,
+            last_message: message,
+            unread_count: conversation.unread_count + (message.sender_id !== clientId ? 1 : 0),
+            updated_at: message.created_at,
+        };
+        return updated;
     }
 
     /**
@@ -184,11 +284,7 @@ export class MessagesService {
      */
     static async getMessages(leadId: string, clientId: string): Promise<Message[]> {
         try {
-            const { data, error } = await supabase
-                .from('messages')
-                .select('*')
-                .eq('lead_id', leadId)
-                .order('created_at', { ascending: true });
+            const { data, error } = await MessagesRepository.listByLead(leadId);
 
             if (error) {
                 console.error('[MessagesService] Error fetching messages:', error);
@@ -198,31 +294,23 @@ export class MessagesService {
             if (!data || data.length === 0) return [];
 
             // Obtener información de los remitentes en batch
-            const senderIds = [...new Set(data.map((msg: any) => msg.sender_id))];
-            const { data: sendersData } = await supabase
-                .from('profiles')
-                .select('user_id, full_name, avatar_url, role, user_type')
-                .in('user_id', senderIds);
+            const senderIds = [...new Set(data.map(msg => msg.sender_id))];
+            const { data: sendersData } = await ProfilesRepository.findSummaries(senderIds);
 
             const sendersMap = new Map(
-                (sendersData || []).map((sender: any) => [sender.user_id, sender])
+                (sendersData || []).map(sender => [sender.user_id, sender])
             );
 
             // Mapear mensajes con información del remitente
-            return data.map((msg: any) => {
+            return data.map((msg): Message => {
                 const sender = sendersMap.get(msg.sender_id);
                 return {
-                    id: msg.id,
-                    lead_id: msg.lead_id,
-                    sender_id: msg.sender_id,
-                    content: msg.content,
-                    created_at: msg.created_at,
-                    updated_at: msg.updated_at,
+                    ...toMessage(msg),
                     sender_name: sender?.full_name || 'Usuario',
                     sender_avatar: sender?.avatar_url || undefined,
                     sender_type: isProfessionalProfileRow({
                         role: sender?.role,
-                        user_type: (sender as any)?.user_type,
+                        user_type: sender?.user_type,
                     })
                         ? 'professional'
                         : 'client',
@@ -236,58 +324,113 @@ export class MessagesService {
 
     /**
      * Enviar mensaje
+     * Pasa por el outbox: sin conexión el mensaje queda pendiente y se envía al reconectar
      */
     static async sendMessage(
         leadId: string,
         senderId: string,
-        content: string
+        content: string,
+        clientMessageId: string = generateClientId()
     ): Promise<Message | null> {
         try {
-            const { data, error } = await supabase
-                .from('messages')
-                .insert({
-                    lead_id: leadId,
-                    sender_id: senderId,
-                    content: content.trim(),
-                })
-                .select()
-                .single();
-
-            if (error) throw error;
-
-            // Actualizar updated_at del lead
-            await supabase
-                .from('leads')
-                .update({ updated_at: new Date().toISOString() })
-                .eq('id', leadId);
-
-            return {
-                id: data.id,
-                lead_id: data.lead_id,
-                sender_id: data.sender_id,
-                content: data.content,
-                created_at: data.created_at,
-                updated_at: data.updated_at,
+            const payload: SendMessagePayload = {
+                id: clientMessageId,
+                lead_id: leadId,
+                sender_id: senderId,
+                content: content.trim(),
+                created_at: new Date().toISOString(),
             };
+
+            const submission = await outbox.submit<SendMessagePayload, Message>('message.send', payload, payload.id);
+            if (submission.queued) {
+                console.log('[MessagesService] 📴 Message queued for later delivery:', payload.id);
+                return this.toPendingMessage(submission.item);
+            }
+            return submission.result;
         } catch (error) {
             console.error('[MessagesService] Error sending message:', error);
             throw error;
         }
     }
 
+    /**
+     * Insertar el mensaje en Supabase (ejecutado por el outbox)
+     * El ID generado en el cliente hace que un reintento no duplique el mensaje
+     */
+    static async deliverMessage(payload: SendMessagePayload): Promise<Message> {
+        let response = await MessagesRepository.insert({
+            id: payload.id,
+            lead_id: payload.lead_id,
+            sender_id: payload.sender_id,
+            content: payload.content,
+        });
+
+        const alreadyDelivered = !!response.error && isDuplicateError(response.error);
+        if (alreadyDelivered) {
+            // Ya se había insertado en un intento previo
+            console.log('[MessagesService] Message already delivered:', payload.id);
+            response = await MessagesRepository.findById(payload.id);
+        }
+
+        if (response.error) throw response.error;
+
+        // Actualizar updated_at del lead
+        await LeadsRepository.touch(payload.lead_id);
+
+        // Un reintento no vuelve a registrar el mensaje en el historial
+        if (!alreadyDelivered) {
+            await LeadEventsService.record({
+                leadId: payload.lead_id,
+                actorId: payload.sender_id,
+                type: 'message',
+                payload: { message_id: payload.id, preview: toMessagePreview(payload.content) },
+            });
+        }
+
+        const message: Message = {
+            ...toMessage(response.data),
+            delivery_status: 'sent',
+        };
+
+        await this.patchConversations(payload.sender_id, conversations =>
+            this.applyMessage(conversations, message, payload.sender_id)
+        );
+        return message;
+    }
+
+    /**
+     * Mensajes aún no enviados de un lead (pendientes o fallidos en el outbox)
+     */
+    static getPendingMessages(items: OutboxItem[], leadId: string): Message[] {
+        return items
+            .filter(item => item.type === 'message.send' && item.payload?.lead_id === leadId)
+            .map(item => this.toPendingMessage(item));
+    }
+
+    private static toPendingMessage(item: OutboxItem<SendMessagePayload>): Message {
+        return {
+            id: item.payload.id,
+            lead_id: item.payload.lead_id,
+            sender_id: item.payload.sender_id,
+            content: item.payload.content,
+            created_at: item.payload.created_at,
+            updated_at: item.payload.created_at,
+            delivery_status: item.status === 'failed' ? 'failed' : 'pending',
+        };
+    }
+
     /**
      * Marcar mensajes como leídos
      */
     static async markAsRead(leadId: string, clientId: string): Promise<boolean> {
         try {
-            const { error } = await supabase
-                .from('messages')
-                .update({ read_at: new Date().toISOString() })
-                .eq('lead_id', leadId)
-                .neq('sender_id', clientId)
-                .is('read_at', null);
+            const { error } = await MessagesRepository.markLeadAsRead(leadId, clientId);
 
             if (error) throw error;
+
+            await this.patchConversations(clientId, conversations =>
+                conversations.map(c => (c.lead_id === leadId ? { ...c, unread_count: 0 } : c))
+            );
             return true;
         } catch (error) {
             console.error('[MessagesService] Error marking as read:', error);
@@ -313,15 +456,7 @@ export class MessagesService {
                     filter: `lead_id=eq.${leadId}`,
                 },
                 (payload) => {
-                    const newMessage = payload.new as any;
-                    callback({
-                        id: newMessage.id,
-                        lead_id: newMessage.lead_id,
-                        sender_id: newMessage.sender_id,
-                        content: newMessage.content,
-                        created_at: newMessage.created_at,
-                        updated_at: newMessage.updated_at,
-                    });
+                    callback(toMessage(payload.new as MessageRow));
                 }
             )
             .subscribe();
@@ -333,27 +468,41 @@ export class MessagesService {
 
     /**
      * Suscribirse a conversaciones (para actualizar inbox)
+     * Los eventos parchean la bandeja cacheada; solo una conversación nueva provoca recarga completa.
+     * Realtime: Supabase solo permite filtros `eq` en postgres_changes, así que los mensajes
+     * se filtran en cliente contra los leads de la bandeja.
      */
-    /**
-     * Realtime: Supabase solo permite filtros `eq` en postgres_changes.
-     * Filtramos en cliente comprobando que el mensaje pertenezca a un lead del cliente.
-     */
-    static subscribeToConversations(clientId: string, callback: () => void) {
+    static subscribeToConversations(
+        clientId: string,
+        onChange: (conversations: Conversation[]) => void
+    ) {
+        const reload = async () => {
+            onChange(await this.getConversations(clientId, true));
+        };
+
         const channel = supabase
             .channel(`conversations:${clientId}`)
             .on(
                 'postgres_changes',
                 { event: 'INSERT', schema: 'public', table: 'messages' },
                 async (payload) => {
-                    const leadId = (payload.new as { lead_id?: string })?.lead_id;
-                    if (!leadId) return;
-                    const { data } = await supabase
-                        .from('leads')
-                        .select('cliente_id')
-                        .eq('id', leadId)
-                        .maybeSingle();
+                    const newMessage = payload.new as Partial<MessageRow>;
+                    if (!newMessage?.lead_id) return;
+
+                    const message = toMessage(newMessage as MessageRow);
+
+                    const patched = await this.patchConversations(clientId, conversations =>
+                        this.applyMessage(conversations, message, clientId)
+                    );
+                    if (patched) {
+                        onChange(patched);
+                        return;
+                    }
+
+                    // Lead fuera de la bandeja: comprobar que sea del cliente antes de recargar
+                    const { data } = await LeadsRepository.findOwnership(message.lead_id);
                     if (data?.cliente_id === clientId) {
-                        callback();
+                        await reload();
                     }
                 }
             )
@@ -365,8 +514,32 @@ export class MessagesService {
                     table: 'leads',
                     filter: `cliente_id=eq.${clientId}`,
                 },
-                () => {
-                    callback();
+                async (payload) => {
+                    const lead = payload.new as LeadRow;
+                    const professionalId = getAssignedProfessionalId(lead) || undefined;
+
+                    const patched = await this.patchConversations(clientId, conversations => {
+                        const index = conversations.findIndex(c => c.lead_id === lead?.id);
+                        // Conversación nueva o cambio de profesional: se necesita el perfil
+                        if (index === -1 || conversations[index].professional_id !== professionalId) {
+                            return null;
+                        }
+
+                        const updated = [...conversations];
+                        updated[index] = {
+                            ...conversations[index],
+                            lead_title: lead.servicio_solicitado || lead.servicio || conversations[index].lead_title,
+                            lead_status: resolveLeadStatus(lead),
+                            updated_at: lead.updated_at || conversations[index].updated_at,
+                        };
+                        return updated;
+                    });
+
+                    if (patched) {
+                        onChange(patched);
+                    } else if (professionalId) {
+                        await reload();
+                    }
                 }
             )
             .subscribe();
@@ -377,3 +550,46 @@ export class MessagesService {
     }
 }
 
+/**
+ * Fila de la bandeja antes de resolver el perfil del profesional
+ */
+interface ConversationRow {
+    lead_id: string;
+    servicio_solicitado?: string | null;
+    servicio?: string | null;
+    status?: string | null;
+    estado?: string | null;
+    appointment_status?: string | null;
+    professional_id?: string | null;
+    profesional_asignado_id?: string | null;
+    updated_at: string;
+    last_message?: Message;
+    unread_count: number;
+}
+
+/**
+ * Mensaje a partir de una fila de `messages` (sin datos del remitente)
+ */
+function toMessage(row: Pick<MessageRow, 'id' | 'lead_id' | 'sender_id' | 'content' | 'created_at' | 'updated_at'>): Message {
+    return {
+        id: row.id,
+        lead_id: row.lead_id,
+        sender_id: row.sender_id,
+        content: row.content,
+        created_at: row.created_at,
+        updated_at: row.updated_at,
+    };
+}
+
+/**
+ * Ordenar por último mensaje o última actualización
+ */
+function sortConversations(conversations: Conversation[]): Conversation[] {
+    return [...conversations].sort((a, b) => {
+        const aTime = a.last_message?.created_at || a.updated_at;
+        const bTime = b.last_message?.created_at || b.updated_at;
+        return new Date(bTime).getTime() - new Date(aTime).getTime();
+    });
+}
+
+outbox.registerHandler<SendMessagePayload, Message>('message.send', (payload) => MessagesService.deliverMessage(payload));
@@ -5,6 +5,7 @@
  */
 
 import { supabase } from '@/lib/supabase';
+import { toVectorLiteral } from '@/services/repositories/mlInteractions';
 
 const EMBEDDING_API_URL = process.env.EXPO_PUBLIC_SUPABASE_URL
     ? `${process.env.EXPO_PUBLIC_SUPABASE_URL}/functions/v1/generate-embedding`
@@ -146,8 +147,7 @@ export class EmbeddingService {
                 .join(' ');
             const embedding = await this.generateEmbedding(text);
 
-            // Supabase con pgvector espera el embedding como array de números directamente
-            // El cliente de Supabase lo convertirá automáticamente al tipo vector
+            // pgvector recibe el embedding como texto `[v1,v2,...]` (tipo generado: string)
 
             // Estructura real de service_embeddings:
             // - id (uuid, auto)
@@ -169,7 +169,7 @@ export class EmbeddingService {
                 service_id: serviceId,
                 service_name: serviceName,
                 discipline,
-                embedding: embedding, // Array de números directamente
+                embedding: toVectorLiteral(embedding),
             };
 
             // Guardar en Supabase (insert o update según exista)
@@ -275,7 +275,7 @@ export class EmbeddingService {
                 .from('user_features')
                 .upsert({
                     user_id: userId,
-                    embedding: embedding, // Array de números directamente
+                    embedding: toVectorLiteral(embedding),
                     last_updated: new Date().toISOString(),
                 }, {
                     onConflict: 'user_id',
@@ -6,6 +6,7 @@
 
 import { supabase } from '@/lib/supabase';
 import { EmbeddingService } from './embeddings';
+import { MLInteractionsRepository, toVectorLiteral } from '@/services/repositories/mlInteractions';
 
 export interface MLInteraction {
     query: string;
@@ -46,27 +47,23 @@ export class MLTrackingService {
             const dayOfWeek = now.getDay();
 
             // Insertar interacción
-            const { data, error } = await supabase
-                .from('ml_interactions')
-                .insert({
-                    user_id: userId,
-                    query: interaction.query,
-                    query_embedding: queryEmbedding ? `[${queryEmbedding.join(',')}]` : null,
-                    predicted_service_id: interaction.predicted_service_id || null,
-                    predicted_service_name: interaction.predicted_service_name || null,
-                    predicted_confidence: interaction.predicted_confidence || null,
-                    actual_service_id: interaction.actual_service_id || null,
-                    actual_service_name: interaction.actual_service_name || null,
-                    conversion: interaction.conversion || false,
-                    lead_id: interaction.lead_id || null,
-                    features: interaction.features || {},
-                    user_location_lat: interaction.user_location?.lat || null,
-                    user_location_lng: interaction.user_location?.lng || null,
-                    time_of_day: timeOfDay,
-                    day_of_week: dayOfWeek,
-                })
-                .select('id')
-                .single();
+            const { data, error } = await MLInteractionsRepository.insert({
+                user_id: userId,
+                query: interaction.query,
+                query_embedding: queryEmbedding ? toVectorLiteral(queryEmbedding) : null,
+                predicted_service_id: interaction.predicted_service_id || null,
+                predicted_service_name: interaction.predicted_service_name || null,
+                predicted_confidence: interaction.predicted_confidence || null,
+                actual_service_id: interaction.actual_service_id || null,
+                actual_service_name: interaction.actual_service_name || null,
+                conversion: interaction.conversion || false,
+                lead_id: interaction.lead_id || null,
+                features: interaction.features || {},
+                user_location_lat: interaction.user_location?.lat || null,
+                user_location_lng: interaction.user_location?.lng || null,
+                time_of_day: timeOfDay,
+                day_of_week: dayOfWeek,
+            });
 
             if (error) {
                 console.error('[MLTracking] Database error:', error);
@@ -97,15 +94,12 @@ export class MLTrackingService {
                 return;
             }
 
-            const { error } = await supabase
-                .from('ml_interactions')
-                .update({
-                    actual_service_id: actualServiceId,
-                    actual_service_name: actualServiceName,
-                    conversion: true,
-                    lead_id: leadId || null,
-                })
-                .eq('id', interactionId);
+            const { error } = await MLInteractionsRepository.update(interactionId, {
+                actual_service_id: actualServiceId,
+                actual_service_name: actualServiceName,
+                conversion: true,
+                lead_id: leadId || null,
+            });
 
             if (error) {
                 throw error;
@@ -138,30 +132,25 @@ export class MLTrackingService {
             const { data: { user } } = await supabase.auth.getUser();
             const userId = user?.id || null;
 
-            const { error } = await supabase
-                .from('ml_feedback')
-                .insert({
-                    interaction_id: interactionId,
-                    user_id: userId,
-                    was_correct: wasCorrect,
-                    feedback_text: feedbackText || null,
-                    rating: rating || null,
-                    correct_service_id: correctServiceId || null,
-                    correct_service_name: correctServiceName || null,
-                });
+            const { error } = await MLInteractionsRepository.insertFeedback({
+                interaction_id: interactionId,
+                user_id: userId,
+                was_correct: wasCorrect,
+                feedback_text: feedbackText || null,
+                rating: rating || null,
+                correct_service_id: correctServiceId || null,
+                correct_service_name: correctServiceName || null,
+            });
 
             if (error) {
                 throw error;
             }
 
             // También actualizar la interacción original
-            await supabase
-                .from('ml_interactions')
-                .update({
-                    was_correct: wasCorrect,
-                    user_feedback: feedbackText || null,
-                })
-                .eq('id', interactionId);
+            await MLInteractionsRepository.update(interactionId, {
+                was_correct: wasCorrect,
+                user_feedback: feedbackText || null,
+            });
 
             console.log('[MLTracking] ✅ Feedback tracked');
         } catch (error) {
@@ -0,0 +1,302 @@
+import { AppState, AppStateStatus } from 'react-native';
+import { createStorageAdapter, StorageAdapter } from './persistentCache';
+import { isNetworkError } from './errors';
+
+/**
+ * Outbox - Cola offline de mutaciones
+ * Registra localmente las escrituras (mensajes, edición/cancelación de leads, reseñas),
+ * las reproduce en orden cuando vuelve la conexión y deduplica con IDs generados en el cliente.
+ */
+
+export type OutboxMutationType =
+    | 'message.send'
+    | 'lead.update'
+    | 'lead.cancel'
+    | 'review.create';
+
+export type OutboxItemStatus = 'pending' | 'sending' | 'failed';
+
+export interface OutboxItem<P = any> {
+    /** ID generado en el cliente; se usa como ID de la fila para que el replay sea idempotente */
+    id: string;
+    type: OutboxMutationType;
+    payload: P;
+    status: OutboxItemStatus;
+    attempts: number;
+    created_at: string;
+    last_attempt_at?: string;
+    last_error?: {
+        code?: string;
+        message: string;
+    };
+}
+
+export type OutboxSubmitResult<R> =
+    | { queued: false; result: R }
+    | { queued: true; item: OutboxItem };
+
+type OutboxHandler<P = any, R = any> = (payload: P, item: OutboxItem<P>) => Promise<R>;
+type OutboxListener = (items: OutboxItem[]) => void;
+
+const STORAGE_KEY = 'queue';
+const RETRY_INTERVAL_MS = 30 * 1000;
+const MAX_ATTEMPTS = 8;
+
+/**
+ * Generar UUID v4 en el cliente (compatible con validateUUID)
+ */
+export function generateClientId(): string {
+    return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+        const r = (Math.random() * 16) | 0;
+        const v = c === 'x' ? r : (r & 0x3) | 0x8;
+        return v.toString(16);
+    });
+}
+
+class OutboxService {
+    private storage: StorageAdapter = createStorageAdapter('tulbox-outbox/', 'tulbox_outbox:');
+    private items: OutboxItem[] = [];
+    private handlers: Map<OutboxMutationType, OutboxHandler> = new Map();
+    private listeners: Set<OutboxListener> = new Set();
+    private results: Map<string, any> = new Map();
+    /** Error original de cada elemento fallido (solo en memoria) para relanzarlo tal cual */
+    private errors: Map<string, unknown> = new Map();
+    private loading: Promise<void> | null = null;
+    private flushing: Promise<void> | null = null;
+    private retryTimer: ReturnType<typeof setTimeout> | null = null;
+    private appStateSubscription: { remove: () => void } | null = null;
+
+    /**
+     * Registrar el ejecutor de un tipo de mutación
+     */
+    registerHandler<P, R>(type: OutboxMutationType, handler: OutboxHandler<P, R>): void {
+        this.handlers.set(type, handler as OutboxHandler);
+        // Elementos de este tipo pudieron quedar en espera si la cola arrancó antes del registro
+        if (this.appStateSubscription) {
+            this.flush();
+        }
+    }
+
+    /**
+     * Cargar la cola desde disco y reintentar al volver a primer plano
+     */
+    start(): void {
+        if (!this.appStateSubscription) {
+            this.appStateSubscription = AppState.addEventListener('change', (state: AppStateStatus) => {
+                if (state === 'active') {
+                    this.flush();
+                }
+            });
+        }
+        this.flush();
+    }
+
+    stop(): void {
+        this.appStateSubscription?.remove();
+        this.appStateSubscription = null;
+        if (this.retryTimer) {
+            clearTimeout(this.retryTimer);
+            this.retryTimer = null;
+        }
+    }
+
+    /**
+     * Registrar una mutación e intentar enviarla de inmediato.
+     * - Si se envía: { queued: false, result }
+     * - Si no hay conexión: { queued: true, item } y se reintenta después
+     * - Si el servidor la rechaza en el primer intento: se descarta y se lanza el error
+     */
+    async submit<P, R>(
+        type: OutboxMutationType,
+        payload: P,
+        id: string = generateClientId()
+    ): Promise<OutboxSubmitResult<R>> {
+        await this.load();
+
+        if (!this.items.some(item => item.id === id)) {
+            this.items.push({
+                id,
+                type,
+                payload,
+                status: 'pending',
+                attempts: 0,
+                created_at: new Date().toISOString(),
+            });
+            await this.persist();
+        }
+
+        await this.flush();
+
+        const item = this.items.find(i => i.id === id);
+        if (!item) {
+            const result = this.results.get(id) as R;
+            this.results.delete(id);
+            return { queued: false, result };
+        }
+
+        if (item.status === 'failed' && item.attempts <= 1) {
+            const error = this.errors.get(id)
+                ?? Object.assign(new Error(item.last_error?.message || 'No se pudo completar la operación'), {
+                    code: item.last_error?.code,
+                });
+            await this.discard(id);
+            throw error;
+        }
+
+        return { queued: true, item };
+    }
+
+    /**
+     * Reproducir la cola en orden. Se detiene en el primer error de conectividad
+     * para preservar el orden; los elementos fallidos no bloquean la cola.
+     */
+    flush(): Promise<void> {
+        if (!this.flushing) {
+            this.flushing = this.runFlush().finally(() => {
+                this.flushing = null;
+            });
+        }
+        return this.flushing;
+    }
+
+    /**
+     * Volver a intentar un elemento fallido
+     */
+    async retry(id: string): Promise<void> {
+        await this.load();
+        const item = this.items.find(i => i.id === id);
+        if (!item) return;
+        item.status = 'pending';
+        item.last_error = undefined;
+        this.errors.delete(id);
+        await this.persist();
+        await this.flush();
+    }
+
+    /**
+     * Descartar un elemento (p. ej. un mensaje fallido que el usuario elimina)
+     */
+    async discard(id: string): Promise<void> {
+        await this.load();
+        this.items = this.items.filter(i => i.id !== id);
+        this.errors.delete(id);
+        await this.persist();
+    }
+
+    /**
+     * Elementos pendientes/fallidos, opcionalmente filtrados
+     */
+    async getItems(filter?: (item: OutboxItem) => boolean): Promise<OutboxItem[]> {
+        await this.load();
+        return filter ? this.items.filter(filter) : [...this.items];
+    }
+
+    /**
+     * Suscribirse a cambios de la cola (para mostrar estado pendiente/fallido en la UI)
+     */
+    subscribe(listener: OutboxListener): () => void {
+        this.listeners.add(listener);
+        this.load().then(() => listener([...this.items]));
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Vaciar la cola (al cerrar sesión)
+     */
+    async clear(): Promise<void> {
+        this.items = [];
+        this.results.clear();
+        this.errors.clear();
+        await this.storage.clear();
+        this.notify();
+    }
+
+    private async runFlush(): Promise<void> {
+        await this.load();
+
+        // Se recorre la cola en cada vuelta para incluir elementos agregados durante el flush
+        const attempted = new Set<string>();
+        while (true) {
+            const item = this.items.find(i =>
+                i.status === 'pending' && !attempted.has(i.id) && this.handlers.has(i.type)
+            );
+            if (!item) break;
+            attempted.add(item.id);
+
+            const handler = this.handlers.get(item.type)!;
+            item.status = 'sending';
+            item.attempts += 1;
+            item.last_attempt_at = new Date().toISOString();
+            this.notify();
+
+            try {
+                const result = await handler(item.payload, item);
+                this.results.set(item.id, result);
+                this.items = this.items.filter(i => i.id !== item.id);
+                await this.persist();
+            } catch (error: any) {
+                item.last_error = { code: error?.code, message: error?.message || String(error) };
+
+                if (isNetworkError(error) && item.attempts < MAX_ATTEMPTS) {
+                    console.log('[Outbox] 📴 Offline, will retry later:', item.type, item.id);
+                    item.status = 'pending';
+                    await this.persist();
+                    this.scheduleRetry();
+                    return;
+                }
+
+                console.error('[Outbox] ❌ Mutation failed:', item.type, item.id, error);
+                item.status = 'failed';
+                this.errors.set(item.id, error);
+                await this.persist();
+            }
+        }
+    }
+
+    private scheduleRetry(): void {
+        if (this.retryTimer) return;
+        this.retryTimer = setTimeout(() => {
+            this.retryTimer = null;
+            this.flush();
+        }, RETRY_INTERVAL_MS);
+    }
+
+    private load(): Promise<void> {
+        if (!this.loading) {
+            this.loading = this.storage
+                .getItem(STORAGE_KEY)
+                .then(raw => {
+                    const stored: OutboxItem[] = raw ? JSON.parse(raw) : [];
+                    // Un envío interrumpido (app cerrada) vuelve a quedar pendiente
+                    const restored = stored.map(item => (
+                        item.status === 'sending' ? { ...item, status: 'pending' as const } : item
+                    ));
+                    const known = new Set(this.items.map(i => i.id));
+                    this.items = [...restored.filter(i => !known.has(i.id)), ...this.items];
+                })
+                .catch(error => {
+                    console.warn('[Outbox] Error loading queue:', error);
+                });
+        }
+        return this.loading;
+    }
+
+    private async persist(): Promise<void> {
+        this.notify();
+        try {
+            await this.storage.setItem(STORAGE_KEY, JSON.stringify(this.items));
+        } catch (error) {
+            console.warn('[Outbox] Error saving queue:', error);
+        }
+    }
+
+    private notify(): void {
+        const snapshot = [...this.items];
+        this.listeners.forEach(listener => listener(snapshot));
+    }
+}
+
+// Singleton instance
+export const outbox = new OutboxService();
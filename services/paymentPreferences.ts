@@ -1,5 +1,7 @@
 import { supabase } from '@/lib/supabase';
 import * as SecureStore from 'expo-secure-store';
+import { ProfilesRepository } from './repositories/profiles';
+import { isMissingColumnError } from './errors';
 
 export type PaymentMethod = 'cash' | 'debit' | 'credit';
 
@@ -39,7 +41,7 @@ export class PaymentPreferenceService {
 
             if (error) {
                 // Si la columna no existe, no es crítico - solo usar cache local
-                if (error.code === '42703' || error.message?.includes('does not exist')) {
+                if (isMissingColumnError(error) || error.message?.includes('does not exist')) {
                     console.log('[PaymentPreference] ℹ️ Column payment_preference does not exist yet. Run SCHEMA_PAYMENT_PREFERENCE.sql');
                     return null;
                 }
@@ -70,17 +72,14 @@ export class PaymentPreferenceService {
     ): Promise<boolean> {
         try {
             // Guardar en base de datos (si la columna existe)
-            const { error } = await supabase
-                .from('profiles')
-                .update({
-                    payment_preference: method,
-                    updated_at: new Date().toISOString(),
-                })
-                .eq('user_id', userId);
+            const { error } = await ProfilesRepository.update(userId, {
+                payment_preference: method,
+                updated_at: new Date().toISOString(),
+            });
 
             if (error) {
                 // Si la columna no existe, solo guardar en cache local
-                if (error.code === '42703' || error.message?.includes('does not exist')) {
+                if (isMissingColumnError(error) || error.message?.includes('does not exist')) {
                     console.log('[PaymentPreference] ℹ️ Column does not exist, saving only to cache. Run SCHEMA_PAYMENT_PREFERENCE.sql');
                     // Continuar para guardar en cache
                 } else {
@@ -0,0 +1,315 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system/legacy';
+
+/**
+ * Persistent Cache
+ * Capa de cache en disco (file system en nativo, localStorage en web)
+ * Usada por CacheService para sobrevivir a cold starts
+ */
+
+/**
+ * Versión del formato de las entradas persistidas.
+ * Incrementar cuando cambie la forma de los datos cacheados (ClientLead, Category, etc.)
+ * para invalidar automáticamente todo lo guardado con la versión anterior.
+ */
+export const CACHE_SCHEMA_VERSION = 1;
+
+const CACHE_DIRECTORY = 'tulbox-cache/';
+const WEB_PREFIX = 'tulbox_cache:';
+const INDEX_KEY = '__index__';
+
+export interface PersistedEntry<T> {
+    version: number;
+    key: string;
+    data: T;
+    timestamp: number;
+    /** A partir de este momento la entrada es "stale" y debe revalidarse */
+    staleAt: number;
+    /** A partir de este momento la entrada ya no se puede usar */
+    expiresAt: number;
+}
+
+interface IndexEntry {
+    size: number;
+    lastAccess: number;
+    expiresAt: number;
+}
+
+export interface StorageAdapter {
+    getItem: (name: string) => Promise<string | null>;
+    setItem: (name: string, value: string) => Promise<void>;
+    removeItem: (name: string) => Promise<void>;
+    clear: () => Promise<void>;
+}
+
+// Sanitizar key para usarla como nombre de archivo
+const toFileName = (key: string) => key.replace(/[^a-zA-Z0-9._-]/g, '_') + '.json';
+
+/**
+ * Storage adapter: file system para nativo, localStorage para web.
+ * Cada namespace usa su propio directorio/prefijo (cache, outbox, etc.)
+ */
+export const createStorageAdapter = (
+    directoryName: string = CACHE_DIRECTORY,
+    webPrefix: string = WEB_PREFIX
+): StorageAdapter => {
+    const isWeb = Platform.OS === 'web' || !FileSystem.documentDirectory;
+
+    if (isWeb) {
+        const hasLocalStorage = typeof localStorage !== 'undefined';
+        return {
+            getItem: async (name) => (hasLocalStorage ? localStorage.getItem(webPrefix + name) : null),
+            setItem: async (name, value) => {
+                if (hasLocalStorage) localStorage.setItem(webPrefix + name, value);
+            },
+            removeItem: async (name) => {
+                if (hasLocalStorage) localStorage.removeItem(webPrefix + name);
+            },
+            clear: async () => {
+                if (!hasLocalStorage) return;
+                Object.keys(localStorage)
+                    .filter(k => k.startsWith(webPrefix))
+                    .forEach(k => localStorage.removeItem(k));
+            },
+        };
+    }
+
+    const directory = FileSystem.documentDirectory + directoryName;
+    let directoryReady: Promise<void> | null = null;
+    const ensureDirectory = () => {
+        if (!directoryReady) {
+            directoryReady = FileSystem.getInfoAsync(directory)
+                .then(info => {
+                    if (!info.exists) {
+                        return FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+                    }
+                })
+                .catch(error => {
+                    directoryReady = null;
+                    throw error;
+                });
+        }
+        return directoryReady;
+    };
+
+    return {
+        getItem: async (name) => {
+            const uri = directory + toFileName(name);
+            const info = await FileSystem.getInfoAsync(uri);
+            if (!info.exists) return null;
+            return FileSystem.readAsStringAsync(uri);
+        },
+        setItem: async (name, value) => {
+            await ensureDirectory();
+            await FileSystem.writeAsStringAsync(directory + toFileName(name), value);
+        },
+        removeItem: async (name) => {
+            await FileSystem.deleteAsync(directory + toFileName(name), { idempotent: true });
+        },
+        clear: async () => {
+            directoryReady = null;
+            await FileSystem.deleteAsync(directory, { idempotent: true });
+        },
+    };
+};
+
+export class PersistentCache {
+    private storage: StorageAdapter;
+    private index: Record<string, IndexEntry> | null = null;
+    private indexLoading: Promise<Record<string, IndexEntry>> | null = null;
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    constructor(
+        private maxEntries: number = 60,
+        private maxBytes: number = 2 * 1024 * 1024, // 2 MB
+        storage?: StorageAdapter
+    ) {
+        this.storage = storage || createStorageAdapter();
+    }
+
+    /**
+     * Leer una entrada del disco.
+     * Devuelve null si no existe, si expiró o si fue guardada con otra versión del schema.
+     */
+    async get<T>(key: string): Promise<PersistedEntry<T> | null> {
+        try {
+            const index = await this.loadIndex();
+            if (!index[key]) return null;
+
+            const raw = await this.storage.getItem(key);
+            if (!raw) {
+                delete index[key];
+                return null;
+            }
+
+            const entry = JSON.parse(raw) as PersistedEntry<T>;
+            if (entry.version !== CACHE_SCHEMA_VERSION || entry.key !== key || Date.now() > entry.expiresAt) {
+                await this.remove(key);
+                return null;
+            }
+
+            index[key].lastAccess = Date.now();
+            this.persistIndex();
+            return entry;
+        } catch (error) {
+            console.warn('[PersistentCache] Error reading entry:', key, error);
+            return null;
+        }
+    }
+
+    /**
+     * Guardar una entrada en disco y aplicar límites de tamaño (LRU)
+     */
+    async set<T>(key: string, data: T, ttl: number, maxAge: number): Promise<void> {
+        const now = Date.now();
+        const entry: PersistedEntry<T> = {
+            version: CACHE_SCHEMA_VERSION,
+            key,
+            data,
+            timestamp: now,
+            staleAt: now + ttl,
+            expiresAt: now + Math.max(ttl, maxAge),
+        };
+
+        try {
+            const serialized = JSON.stringify(entry);
+            if (serialized.length > this.maxBytes) {
+                console.warn('[PersistentCache] Entry too large, skipping:', key, serialized.length);
+                return;
+            }
+
+            const index = await this.loadIndex();
+            await this.enqueue(() => this.storage.setItem(key, serialized));
+            index[key] = { size: serialized.length, lastAccess: now, expiresAt: entry.expiresAt };
+
+            await this.evict(key);
+            this.persistIndex();
+        } catch (error) {
+            console.warn('[PersistentCache] Error writing entry:', key, error);
+        }
+    }
+
+    /**
+     * Eliminar una entrada
+     */
+    async remove(key: string): Promise<void> {
+        try {
+            const index = await this.loadIndex();
+            delete index[key];
+            await this.enqueue(() => this.storage.removeItem(key));
+            this.persistIndex();
+        } catch (error) {
+            console.warn('[PersistentCache] Error removing entry:', key, error);
+        }
+    }
+
+    /**
+     * Eliminar todas las entradas cuya key coincida con el patrón
+     */
+    async removePattern(regex: RegExp): Promise<void> {
+        const index = await this.loadIndex();
+        const keys = Object.keys(index).filter(key => regex.test(key));
+        await Promise.all(keys.map(key => this.remove(key)));
+    }
+
+    /**
+     * Borrar todo el cache persistente
+     */
+    async clear(): Promise<void> {
+        try {
+            this.index = {};
+            await this.enqueue(() => this.storage.clear());
+        } catch (error) {
+            console.warn('[PersistentCache] Error clearing cache:', error);
+        }
+    }
+
+    /**
+     * Estadísticas del cache persistente
+     */
+    async getStats(): Promise<{ entries: number; bytes: number }> {
+        const index = await this.loadIndex();
+        const values = Object.values(index);
+        return {
+            entries: values.length,
+            bytes: values.reduce((sum, e) => sum + e.size, 0),
+        };
+    }
+
+    /**
+     * Desalojar entradas expiradas y, si se superan los límites, las menos usadas (LRU).
+     * La key recién escrita nunca se desaloja.
+     */
+    private async evict(protectedKey: string): Promise<void> {
+        const index = await this.loadIndex();
+        const now = Date.now();
+
+        const expired = Object.keys(index).filter(k => k !== protectedKey && index[k].expiresAt < now);
+        for (const key of expired) {
+            delete index[key];
+            await this.enqueue(() => this.storage.removeItem(key));
+        }
+
+        const byAccess = Object.keys(index)
+            .filter(k => k !== protectedKey)
+            .sort((a, b) => index[a].lastAccess - index[b].lastAccess);
+
+        let totalBytes = Object.values(index).reduce((sum, e) => sum + e.size, 0);
+        let totalEntries = Object.keys(index).length;
+
+        for (const key of byAccess) {
+            if (totalEntries <= this.maxEntries && totalBytes <= this.maxBytes) break;
+            totalBytes -= index[key].size;
+            totalEntries--;
+            delete index[key];
+            await this.enqueue(() => this.storage.removeItem(key));
+            console.log('[PersistentCache] 🧹 Evicted (LRU):', key);
+        }
+    }
+
+    private async loadIndex(): Promise<Record<string, IndexEntry>> {
+        if (this.index) return this.index;
+        if (!this.indexLoading) {
+            this.indexLoading = this.storage
+                .getItem(INDEX_KEY)
+                .then(raw => {
+                    const parsed = raw ? JSON.parse(raw) : null;
+                    // Un índice de otra versión del schema invalida todo el cache
+                    if (!parsed || parsed.version !== CACHE_SCHEMA_VERSION) {
+                        if (parsed) {
+                            console.log('[PersistentCache] Schema version changed, clearing cache');
+                            return this.storage.clear().then(() => ({}));
+                        }
+                        return {};
+                    }
+                    return parsed.entries as Record<string, IndexEntry>;
+                })
+                .catch(error => {
+                    console.warn('[PersistentCache] Error loading index, starting empty:', error);
+                    return {};
+                })
+                .then(entries => {
+                    this.index = entries;
+                    this.indexLoading = null;
+                    return entries;
+                });
+        }
+        return this.indexLoading;
+    }
+
+    private persistIndex(): void {
+        const snapshot = JSON.stringify({ version: CACHE_SCHEMA_VERSION, entries: this.index || {} });
+        this.enqueue(() => this.storage.setItem(INDEX_KEY, snapshot)).catch(error => {
+            console.warn('[PersistentCache] Error saving index:', error);
+        });
+    }
+
+    /**
+     * Serializar escrituras para que el índice y los archivos no se pisen
+     */
+    private enqueue(operation: () => Promise<void>): Promise<void> {
+        const next = this.writeQueue.then(operation, operation);
+        this.writeQueue = next.catch(() => {});
+        return next;
+    }
+}
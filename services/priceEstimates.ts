@@ -0,0 +1,137 @@
+import { cache, CacheKeys } from './cache';
+import { requestExecutor, RequestPolicies } from './requestExecutor';
+import { isMissingFunctionError, toAppError } from './errors';
+import { formatPriceNoDecimals, PriceRange } from './priceFormatter';
+import { PriceEstimatesRepository, PriceHistoryRow } from './repositories/priceEstimates';
+import type { ServiceItem } from './services';
+
+/**
+ * Price Estimates Service - Rangos de precio a partir de lo que pagaron otros clientes
+ * Para servicios sin precio fijo se usan los percentiles 25–75 del `agreed_price` de leads
+ * completados; se prefiere el mismo servicio cerca del cliente y, si hay pocas muestras,
+ * se amplía a todas las zonas y luego a la disciplina. Sin datos suficientes se usa el
+ * rango del catálogo.
+ */
+
+export type PriceEstimateScope = 'service_zone' | 'service' | 'discipline_zone' | 'discipline';
+
+export interface PriceEstimate extends PriceRange {
+    /** Mediana pagada (null cuando viene del catálogo) */
+    median: number | null;
+    sampleSize: number;
+    /** Alcance de los datos históricos; null = rango del catálogo */
+    scope: PriceEstimateScope | null;
+    source: 'history' | 'catalog';
+}
+
+export interface PriceEstimateLocation {
+    lat: number;
+    lng: number;
+}
+
+/** Muestras mínimas para confiar en un rango histórico (get_service_price_history no devuelve menos) */
+export const MIN_PRICE_SAMPLE_SIZE = 5;
+
+/** Radio (km) que se considera "cerca de ti" (el servidor lo limita a 5–50 km) */
+export const PRICE_ESTIMATE_RADIUS_KM = 15;
+
+/** Orden de preferencia: del alcance más específico al más general */
+export const PRICE_ESTIMATE_SCOPES: PriceEstimateScope[] = ['service_zone', 'service', 'discipline_zone', 'discipline'];
+
+const PRICE_ESTIMATE_TTL = 30 * 60 * 1000;
+
+function roundToTens(value: number): number {
+    return Math.round(value / 10) * 10;
+}
+
+/**
+ * Rango del catálogo: min_price a max_price (o 1.5× el mínimo si no hay máximo)
+ */
+export function getCatalogPriceRange(service: Pick<ServiceItem, 'min_price' | 'max_price'>): PriceRange {
+    const min = service.min_price || 0;
+    return { min, max: service.max_price || min * 1.5 || 0 };
+}
+
+/**
+ * Elegir el alcance más específico con suficientes muestras; sin ninguno, el rango del catálogo
+ */
+export function selectPriceEstimate(
+    rows: PriceHistoryRow[],
+    service: Pick<ServiceItem, 'min_price' | 'max_price'>,
+    minSampleSize: number = MIN_PRICE_SAMPLE_SIZE
+): PriceEstimate {
+    for (const scope of PRICE_ESTIMATE_SCOPES) {
+        const row = rows.find(candidate => candidate.scope === scope);
+        if (!row || row.sample_size < minSampleSize || !(Number(row.p25) > 0)) continue;
+
+        const min = roundToTens(Number(row.p25));
+        return {
+            min,
+            max: Math.max(min, roundToTens(Number(row.p75))),
+            median: roundToTens(Number(row.p50)),
+            sampleSize: row.sample_size,
+            scope,
+            source: 'history',
+        };
+    }
+
+    return { ...getCatalogPriceRange(service), median: null, sampleSize: 0, scope: null, source: 'catalog' };
+}
+
+/**
+ * Texto para mostrar el rango, p. ej. "La mayoría de los clientes pagó $800–$1,200 cerca de ti"
+ */
+export function describePriceEstimate(estimate: PriceEstimate): string {
+    const range = estimate.max > estimate.min
+        ? `${formatPriceNoDecimals(estimate.min)}–${formatPriceNoDecimals(estimate.max)}`
+        : formatPriceNoDecimals(estimate.min);
+
+    switch (estimate.scope) {
+        case 'service_zone':
+            return `La mayoría de los clientes pagó ${range} cerca de ti`;
+        case 'service':
+            return `La mayoría de los clientes pagó ${range} por este servicio`;
+        case 'discipline_zone':
+            return `En servicios similares cerca de ti, la mayoría pagó ${range}`;
+        case 'discipline':
+            return `En servicios similares, la mayoría pagó ${range}`;
+        default:
+            return `Rango de referencia: ${range}`;
+    }
+}
+
+export class PriceEstimateService {
+    /**
+     * Rango estimado para un servicio; con `location` se prefieren los precios de la zona
+     */
+    static async getEstimate(
+        service: Pick<ServiceItem, 'id' | 'service_name' | 'discipline' | 'min_price' | 'max_price'>,
+        location?: PriceEstimateLocation | null,
+        signal?: AbortSignal
+    ): Promise<PriceEstimate> {
+        const key = CacheKeys.priceEstimate(service.id, location?.lat, location?.lng);
+
+        return cache.getOrSet(key, async () => {
+            const { data, error } = await requestExecutor.execute(
+                requestSignal => PriceEstimatesRepository.getHistory({
+                    p_service_name: service.service_name,
+                    p_discipline: service.discipline,
+                    p_lat: location?.lat ?? null,
+                    p_lng: location?.lng ?? null,
+                    p_radius_km: PRICE_ESTIMATE_RADIUS_KM,
+                }, requestSignal),
+                { key, signal, policy: RequestPolicies.read, timeoutMessage: 'Timeout al obtener precios históricos' }
+            );
+
+            if (error) {
+                if (isMissingFunctionError(error)) {
+                    console.warn('[PriceEstimateService] get_service_price_history not found, run SCHEMA_ESTIMADOR_PRECIOS.sql');
+                    return selectPriceEstimate([], service);
+                }
+                throw toAppError(error, 'No se pudieron obtener los precios de referencia');
+            }
+
+            return selectPriceEstimate(data || [], service);
+        }, PRICE_ESTIMATE_TTL);
+    }
+}
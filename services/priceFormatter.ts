@@ -12,6 +12,8 @@
  * - Sin precio: "Precio a cotizar"
  */
 
+import type { LeadRow } from './repositories/leads';
+
 export interface UniversalPriceFormat {
   value: number | null;
   formatted: string;
@@ -21,6 +23,15 @@ export interface UniversalPriceFormat {
   rawValue?: any;
 }
 
+/**
+ * Campos de un lead usados para resolver su precio
+ * Los precios pueden llegar como texto desde datos legacy (TulBoxPros)
+ */
+export type LeadPriceSource = Partial<Pick<LeadRow, 'descripcion_proyecto' | 'servicio' | 'servicio_solicitado'>> & {
+  agreed_price?: LeadRow['agreed_price'] | string;
+  price?: LeadRow['price'] | string;
+};
+
 export interface PriceRange {
   min: number;
   max: number;
@@ -102,7 +113,7 @@ export function parsePriceValue(value: any): number | null {
 /**
  * Obtiene el precio de un objeto lead/job de manera segura
  */
-export function getLeadPrice(lead: any): number | null {
+export function getLeadPrice(lead: LeadPriceSource | null | undefined): number | null {
   if (!lead) return null;
 
   let finalPrice: number | null = null;
@@ -148,7 +159,7 @@ export function getLeadPrice(lead: any): number | null {
 /**
  * Obtiene el precio formateado de un lead/job
  */
-export function getLeadPriceFormatted(lead: any): string {
+export function getLeadPriceFormatted(lead: LeadPriceSource | null | undefined): string {
   const price = getLeadPrice(lead);
   return formatPrice(price);
 }
@@ -156,7 +167,7 @@ export function getLeadPriceFormatted(lead: any): string {
 /**
  * Obtiene información completa del precio de un lead/job
  */
-export function getLeadPriceInfo(lead: any): UniversalPriceFormat {
+export function getLeadPriceInfo(lead: LeadPriceSource | null | undefined): UniversalPriceFormat {
   if (!lead) {
     return {
       value: null,
@@ -0,0 +1,284 @@
+import { calculateDistance } from '@/utils/geo';
+
+/**
+ * Pricing Rules - Motor de reglas de precio por servicio
+ * Las reglas se guardan en `service_catalog.pricing_rules` (JSON) y se evalúan sobre las
+ * respuestas del formulario; QuoteService.calculatePrice arma el ServiceQuote con el desglose.
+ * Un servicio sin reglas usa DEFAULT_PRICING_RULES (urgencia $100, desinstalación $30, IVA 16%).
+ */
+
+export interface AddonRule {
+    id: string;
+    name: string;
+    /** Respuesta del formulario que activa el adicional */
+    field: string;
+    /** Valor esperado de la respuesta (por defecto: true) */
+    equals?: string | number | boolean;
+    price: number;
+    /** Cobrar el adicional por cada unidad solicitada */
+    per_unit?: boolean;
+}
+
+export interface PerUnitRule {
+    /** Precio de cada unidad adicional (usa ServiceItem.unit para la etiqueta) */
+    price: number;
+    /** Unidades cubiertas por el precio base (por defecto 1) */
+    included_units?: number;
+    /** Respuesta del formulario con la cantidad (por defecto 'quantity') */
+    field?: string;
+    max_units?: number;
+}
+
+export interface ZoneSurchargeRule {
+    id: string;
+    name: string;
+    amount: number;
+    /** Zona por radio: aplica dentro de `radius_km` del centro (o fuera, si `outside`) */
+    center?: { lat: number; lng: number };
+    radius_km?: number;
+    outside?: boolean;
+    /** Zona por respuesta: aplica si form_data[field] está en `values` (p. ej. alcaldía) */
+    field?: string;
+    values?: string[];
+}
+
+export interface PricingRuleSet {
+    /** Cargo por servicio inmediato */
+    urgency_fee?: number;
+    tax_rate?: number;
+    addons?: AddonRule[];
+    per_unit?: PerUnitRule;
+    zone_surcharges?: ZoneSurchargeRule[];
+    /** Total mínimo antes de IVA */
+    minimum_total?: number;
+    /** Total máximo antes de IVA */
+    maximum_total?: number;
+}
+
+export type QuoteLineKind = 'base' | 'urgency' | 'addon' | 'per_unit' | 'zone' | 'minimum' | 'cap' | 'discount';
+
+/**
+ * Renglón del desglose de la cotización (sin IVA)
+ */
+export interface QuoteLineItem {
+    id: string;
+    kind: QuoteLineKind;
+    label: string;
+    amount: number;
+    quantity?: number;
+    unit_price?: number;
+}
+
+export interface PricingContext {
+    basePrice: number;
+    formData: Record<string, any>;
+    immediateService: boolean;
+    /** Unidad del servicio (ServiceItem.unit), p. ej. 'equipo' o 'm2' */
+    unit?: string;
+}
+
+export interface PricingEvaluation {
+    lines: QuoteLineItem[];
+    /** Suma de cargos antes de mínimos y topes */
+    subtotal: number;
+    /** Total antes de IVA */
+    total: number;
+    tax_rate: number;
+}
+
+export const DEFAULT_PRICING_RULES: PricingRuleSet = {
+    urgency_fee: 100,
+    tax_rate: 0.16,
+    addons: [
+        {
+            id: 'uninstall',
+            name: 'Desinstalación de equipo actual',
+            field: 'needs_uninstall',
+            equals: true,
+            price: 30,
+        },
+    ],
+};
+
+/**
+ * Reglas efectivas: las del servicio sobrescriben cada sección de las reglas por defecto
+ */
+export function resolvePricingRules(rules?: PricingRuleSet | null): PricingRuleSet {
+    return { ...DEFAULT_PRICING_RULES, ...(rules || {}) };
+}
+
+/**
+ * Cantidad de unidades de una respuesta ('5+' → 5; inválida → 1)
+ */
+export function parseQuantity(value: unknown): number {
+    const parsed = typeof value === 'number' ? value : parseInt(String(value ?? ''), 10);
+    return Number.isFinite(parsed) && parsed > 0 ? Math.floor(parsed) : 1;
+}
+
+function matchesZone(zone: ZoneSurchargeRule, formData: Record<string, any>): boolean {
+    if (zone.field && zone.values) {
+        const answer = formData[zone.field];
+        return answer !== undefined && answer !== null && zone.values.includes(String(answer));
+    }
+
+    if (zone.center && zone.radius_km !== undefined) {
+        const lat = parseFloat(formData.lat);
+        const lng = parseFloat(formData.lng);
+        // Sin ubicación todavía (se obtiene en la confirmación): no se puede evaluar
+        if (!Number.isFinite(lat) || !Number.isFinite(lng)) return false;
+
+        const inside = calculateDistance(zone.center.lat, zone.center.lng, lat, lng) <= zone.radius_km;
+        return zone.outside ? !inside : inside;
+    }
+
+    return false;
+}
+
+/**
+ * Evaluar las reglas de precio sobre las respuestas del formulario
+ */
+export function evaluatePricingRules(rules: PricingRuleSet, context: PricingContext): PricingEvaluation {
+    const { basePrice, formData, immediateService, unit } = context;
+    const lines: QuoteLineItem[] = [{ id: 'base', kind: 'base', label: 'Precio Base', amount: basePrice }];
+
+    if (immediateService && rules.urgency_fee) {
+        lines.push({ id: 'urgency', kind: 'urgency', label: 'Servicio Inmediato', amount: rules.urgency_fee });
+    }
+
+    const perUnit = rules.per_unit;
+    const quantityField = perUnit?.field || 'quantity';
+    let quantity = parseQuantity(formData[quantityField]);
+    if (perUnit?.max_units) {
+        quantity = Math.min(quantity, perUnit.max_units);
+    }
+
+    if (perUnit) {
+        const extraUnits = Math.max(0, quantity - (perUnit.included_units ?? 1));
+        if (extraUnits > 0) {
+            lines.push({
+                id: 'per_unit',
+                kind: 'per_unit',
+                label: `${extraUnits} ${unit || 'unidad(es)'} adicional(es)`,
+                amount: extraUnits * perUnit.price,
+                quantity: extraUnits,
+                unit_price: perUnit.price,
+            });
+        }
+    }
+
+    for (const addon of rules.addons || []) {
+        const expected = addon.equals ?? true;
+        if (formData[addon.field] !== expected) continue;
+
+        if (!addon.per_unit) {
+            lines.push({ id: addon.id, kind: 'addon', label: addon.name, amount: addon.price });
+            continue;
+        }
+
+        lines.push({
+            id: addon.id,
+            kind: 'addon',
+            label: quantity > 1 ? `${addon.name} (x${quantity})` : addon.name,
+            amount: addon.price * quantity,
+            quantity,
+            unit_price: addon.price,
+        });
+    }
+
+    for (const zone of rules.zone_surcharges || []) {
+        if (matchesZone(zone, formData)) {
+            lines.push({ id: zone.id, kind: 'zone', label: zone.name, amount: zone.amount });
+        }
+    }
+
+    const subtotal = lines.reduce((sum, line) => sum + line.amount, 0);
+    let total = subtotal;
+
+    if (rules.minimum_total !== undefined && total < rules.minimum_total) {
+        lines.push({ id: 'minimum', kind: 'minimum', label: 'Ajuste a cargo mínimo', amount: rules.minimum_total - total });
+        total = rules.minimum_total;
+    }
+    if (rules.maximum_total !== undefined && total > rules.maximum_total) {
+        lines.push({ id: 'cap', kind: 'cap', label: 'Tope de precio', amount: rules.maximum_total - total });
+        total = rules.maximum_total;
+    }
+
+    return {
+        lines,
+        subtotal,
+        total,
+        tax_rate: rules.tax_rate ?? DEFAULT_PRICING_RULES.tax_rate!,
+    };
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toAmount(value: unknown): number | undefined {
+    return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+/**
+ * Leer `service_catalog.pricing_rules`; descarta reglas mal formadas en lugar de fallar
+ */
+export function parsePricingRules(json: unknown): PricingRuleSet | undefined {
+    if (!isRecord(json)) return undefined;
+
+    const rules: PricingRuleSet = {};
+
+    const urgencyFee = toAmount(json.urgency_fee);
+    if (urgencyFee !== undefined) rules.urgency_fee = urgencyFee;
+
+    const taxRate = toAmount(json.tax_rate);
+    if (taxRate !== undefined && taxRate < 1) rules.tax_rate = taxRate;
+
+    const minimum = toAmount(json.minimum_total);
+    if (minimum !== undefined) rules.minimum_total = minimum;
+
+    const maximum = toAmount(json.maximum_total);
+    if (maximum !== undefined) rules.maximum_total = maximum;
+
+    if (Array.isArray(json.addons)) {
+        rules.addons = json.addons
+            .filter(isRecord)
+            .filter(addon => typeof addon.id === 'string' && typeof addon.name === 'string'
+                && typeof addon.field === 'string' && toAmount(addon.price) !== undefined)
+            .map(addon => ({
+                id: addon.id,
+                name: addon.name,
+                field: addon.field,
+                equals: addon.equals ?? undefined,
+                price: addon.price,
+                per_unit: addon.per_unit === true,
+            }));
+    }
+
+    if (isRecord(json.per_unit) && toAmount(json.per_unit.price) !== undefined) {
+        rules.per_unit = {
+            price: json.per_unit.price,
+            included_units: toAmount(json.per_unit.included_units),
+            field: typeof json.per_unit.field === 'string' ? json.per_unit.field : undefined,
+            max_units: toAmount(json.per_unit.max_units),
+        };
+    }
+
+    if (Array.isArray(json.zone_surcharges)) {
+        rules.zone_surcharges = json.zone_surcharges
+            .filter(isRecord)
+            .filter(zone => typeof zone.id === 'string' && typeof zone.name === 'string'
+                && toAmount(zone.amount) !== undefined)
+            .map(zone => ({
+                id: zone.id,
+                name: zone.name,
+                amount: zone.amount,
+                center: isRecord(zone.center) ? { lat: Number(zone.center.lat), lng: Number(zone.center.lng) } : undefined,
+                radius_km: toAmount(zone.radius_km),
+                outside: zone.outside === true,
+                field: typeof zone.field === 'string' ? zone.field : undefined,
+                values: Array.isArray(zone.values) ? zone.values.map(String) : undefined,
+            }));
+    }
+
+    return rules;
+}
@@ -1,11 +1,11 @@
-import { supabase } from '@/lib/supabase';
-import {
-    DB_ROLE_VALUES_PROFESSIONAL,
-    isProfessionalListingRow,
-} from '@/constants/roles';
+import { isProfessionalListingRow } from '@/constants/roles';
 import { resolveAvatarUrl } from '@/utils/avatar';
+import { calculateDistance } from '@/utils/geo';
 import { validateUUID, validateCoordinates, withTimeout } from './validation';
-import { cache, CacheKeys } from './cache';
+import { cache, CacheKeys, CachePolicies } from './cache';
+import { requestExecutor, RequestPolicies } from './requestExecutor';
+import { isAbortError } from './errors';
+import { ProfilesRepository, ProfileRow, ProfessionalProfileRow } from './repositories/profiles';
 
 /**
  * Professionals Service - Gestión de profesionales destacados
@@ -27,6 +27,7 @@ export interface FeaturedProfessional {
     whatsapp?: string | null;
     verified: boolean; // Basado en verificaciones
     relevance_score?: number; // Score calculado para ranking
+    hybrid_score?: number; // Score híbrido (orden 'hybrid')
     profile_completeness?: number; // Porcentaje de completitud del perfil (0-100)
     created_at?: string;
     updated_at?: string;
@@ -54,33 +55,11 @@ export interface ProfessionalFilters {
 
 export type SortOption = 'hybrid' | 'distance' | 'completeness' | 'rating' | 'experience';
 
-/**
- * Calcular distancia entre dos puntos (Haversine)
- */
-function calculateDistance(
-    lat1: number,
-    lon1: number,
-    lat2: number,
-    lon2: number
-): number {
-    const R = 6371; // Radio de la Tierra en km
-    const dLat = ((lat2 - lat1) * Math.PI) / 180;
-    const dLon = ((lon2 - lon1) * Math.PI) / 180;
-    const a =
-        Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-        Math.cos((lat1 * Math.PI) / 180) *
-        Math.cos((lat2 * Math.PI) / 180) *
-        Math.sin(dLon / 2) *
-        Math.sin(dLon / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
-}
-
 /**
  * Calcular completitud del perfil (0-100%)
  * Basado en campos críticos e importantes del perfil
  */
-function calculateProfileCompleteness(professional: any): number {
+function calculateProfileCompleteness(professional: Partial<ProfileRow>): number {
     let completedFields = 0;
     let totalFields = 0;
 
@@ -251,146 +230,144 @@ function calculateRelevanceScore(
 
 /**
  * Obtener profesionales destacados (versión mejorada con ordenamiento híbrido)
+ * Stale-while-revalidate: se muestra lo guardado en disco y se refresca en segundo plano
+ * `signal` cancela la espera al desmontar la pantalla (la consulta se comparte entre pantallas)
  */
 export async function getFeaturedProfessionals(
     userLat?: number,
     userLng?: number,
     limit: number = 10,
-    sortBy: SortOption = 'hybrid'
+    sortBy: SortOption = 'hybrid',
+    onRevalidate?: (professionals: FeaturedProfessional[]) => void,
+    signal?: AbortSignal
 ): Promise<FeaturedProfessional[]> {
     try {
-        console.log('[ProfessionalsService] 🚀 Fetching featured professionals...');
-        const startTime = Date.now();
-        console.log('[ProfessionalsService] 📍 User location:', { userLat, userLng });
-        console.log('[ProfessionalsService] 🎯 Sort by:', sortBy);
+        return await cache.staleWhileRevalidate(
+            CacheKeys.featuredProfessionals(userLat, userLng, limit, sortBy),
+            fetchSignal => fetchFeaturedProfessionals(userLat, userLng, limit, sortBy, fetchSignal),
+            { ...CachePolicies.featuredProfessionals, onRevalidate, signal }
+        );
+    } catch (error) {
+        console.error('[ProfessionalsService] 💥 Exception:', error);
+        return [];
+    }
+}
 
-        const minimalSelect = `
-            user_id,
-            full_name,
-            avatar_url,
-            profession,
-            whatsapp,
-            calificacion_promedio,
-            ubicacion_lat,
-            ubicacion_lng,
-            areas_servicio,
-            experience,
-            role,
-            user_type
-        `;
-
-        // Diagnóstico: Intentar query EXACTA como el web
-        console.log('[ProfessionalsService] 📡 Enviando query a Supabase (Web Style)...');
-        
-        // ✅ MEJORADO: Query más flexible con múltiples variantes de role
-        // También excluir clientes explícitamente
-        let query = supabase
-            .from('profiles')
-            .select(minimalSelect)
-            .in('role', DB_ROLE_VALUES_PROFESSIONAL)
-            .neq('user_type', 'client') // ✅ Excluir clientes explícitamente
-            .not('profession', 'is', null) // ✅ Solo profesionales con profesión
-            .not('profession', 'eq', '') // ✅ Excluir profesiones vacías
-            .limit(30);
-
-        const { data, error } = await query;
+/**
+ * Consultar profesionales destacados en Supabase (lanza error para no cachear fallos)
+ */
+async function fetchFeaturedProfessionals(
+    userLat?: number,
+    userLng?: number,
+    limit: number = 10,
+    sortBy: SortOption = 'hybrid',
+    signal?: AbortSignal
+): Promise<FeaturedProfessional[]> {
+    console.log('[ProfessionalsService] 🚀 Fetching featured professionals...');
+    const startTime = Date.now();
+    console.log('[ProfessionalsService] 📍 User location:', { userLat, userLng });
+    console.log('[ProfessionalsService] 🎯 Sort by:', sortBy);
 
-        if (error) {
-            console.error('[ProfessionalsService] ❌ Error en query:', {
-                message: error.message,
-                code: error.code,
-                details: error.details,
-                hint: error.hint
-            });
-            
-            // ✅ FALLBACK: Intentar query más simple sin filtros de role
-            console.log('[ProfessionalsService] 🔄 Intentando fallback sin filtro de role...');
-            const { data: fallbackData, error: fallbackError } = await supabase
-                .from('profiles')
-                .select(minimalSelect)
-                .limit(50);
+    // Diagnóstico: Intentar query EXACTA como el web
+    console.log('[ProfessionalsService] 📡 Enviando query a Supabase (Web Style)...');
+    
+    // ✅ MEJORADO: Query más flexible con múltiples variantes de role
+    // También excluye clientes y perfiles sin profesión (ver ProfilesRepository.listProfessionals)
+    const { data, error } = await requestExecutor.execute(
+        fetchSignal => ProfilesRepository.listProfessionals(30).abortSignal(fetchSignal),
+        { signal, policy: RequestPolicies.read }
+    );
+
+    if (error) {
+        if (isAbortError(error)) throw error;
+        console.error('[ProfessionalsService] ❌ Error en query:', {
+            message: error.message,
+            code: error.code,
+            details: error.details,
+            hint: error.hint
+        });
+        
+        // ✅ FALLBACK: Intentar query más simple sin filtros de role
+        console.log('[ProfessionalsService] 🔄 Intentando fallback sin filtro de role...');
+        const { data: fallbackData, error: fallbackError } = await requestExecutor.execute(
+            fetchSignal => ProfilesRepository.listProfilesForListing(50).abortSignal(fetchSignal),
+            { signal, policy: RequestPolicies.read }
+        );
+        
+        if (fallbackError) {
+            console.error('[ProfessionalsService] ❌ Fallback también falló:', fallbackError);
+            throw fallbackError;
+        }
+        
+        if (fallbackData && fallbackData.length > 0) {
+            console.log(`[ProfessionalsService] ✅ Fallback exitoso: ${fallbackData.length} registros`);
+            // Filtrar manualmente después
+            // ✅ MEJORADO: Filtro que acepta múltiples variantes de role y user_type
+            const filtered = fallbackData.filter(p =>
+                isProfessionalListingRow(p)
+            );
+            console.log(`[ProfessionalsService] 🔍 Después de filtrar: ${filtered.length} profesionales`);
             
-            if (fallbackError) {
-                console.error('[ProfessionalsService] ❌ Fallback también falló:', fallbackError);
+            if (filtered.length === 0) {
+                console.warn('[ProfessionalsService] ⚠️ No se encontraron profesionales después del fallback');
                 return [];
             }
             
-            if (fallbackData && fallbackData.length > 0) {
-                console.log(`[ProfessionalsService] ✅ Fallback exitoso: ${fallbackData.length} registros`);
-                // Filtrar manualmente después
-                // ✅ MEJORADO: Filtro que acepta múltiples variantes de role y user_type
-                const filtered = fallbackData.filter((p: any) =>
-                    isProfessionalListingRow(p)
-                );
-                console.log(`[ProfessionalsService] 🔍 Después de filtrar: ${filtered.length} profesionales`);
-                
-                if (filtered.length === 0) {
-                    console.warn('[ProfessionalsService] ⚠️ No se encontraron profesionales después del fallback');
-                    return [];
-                }
-                
-                // Procesar datos del fallback
-                const professionals = processProfessionalsData(filtered, userLat, userLng, limit, sortBy);
-                const loadTime = Date.now() - startTime;
-                console.log(`[ProfessionalsService] 🎯 Processed ${professionals.length} professionals from fallback (${loadTime}ms)`);
-                return professionals;
-            }
-            
-            return [];
+            // Procesar datos del fallback
+            const professionals = processProfessionalsData(filtered, userLat, userLng, limit, sortBy);
+            const loadTime = Date.now() - startTime;
+            console.log(`[ProfessionalsService] 🎯 Processed ${professionals.length} professionals from fallback (${loadTime}ms)`);
+            return professionals;
         }
+        
+        return [];
+    }
 
-        if (!data || data.length === 0) {
-            console.warn('[ProfessionalsService] ⚠️ No se encontraron profesionales con el filtro actual');
-            console.log('[ProfessionalsService] 🔍 Intentando query sin filtros para diagnóstico...');
-            
-            // ✅ DIAGNÓSTICO: Query sin filtros para ver qué hay
-            const { data: allData } = await supabase
-                .from('profiles')
-                .select('user_id, full_name, role, user_type, profession')
-                .limit(10);
-            
-            console.log('[ProfessionalsService] 📊 Datos de diagnóstico (primeros 10):', allData?.map((p: any) => ({
-                user_id: p.user_id,
-                full_name: p.full_name,
-                role: p.role,
-                user_type: p.user_type,
-                profession: p.profession
-            })));
-            
-            return [];
-        }
+    if (!data || data.length === 0) {
+        console.warn('[ProfessionalsService] ⚠️ No se encontraron profesionales con el filtro actual');
+        console.log('[ProfessionalsService] 🔍 Intentando query sin filtros para diagnóstico...');
+        
+        // ✅ DIAGNÓSTICO: Query sin filtros para ver qué hay
+        const { data: allData } = await ProfilesRepository.sampleRoles(10);
+        
+        console.log('[ProfessionalsService] 📊 Datos de diagnóstico (primeros 10):', allData?.map(p => ({
+            user_id: p.user_id,
+            full_name: p.full_name,
+            role: p.role,
+            user_type: p.user_type,
+            profession: p.profession
+        })));
+        
+        return [];
+    }
 
-        console.log(`[ProfessionalsService] ✅ ${data.length} profesionales recibidos de Supabase`);
-
-        console.log('[ProfessionalsService] 📊 Raw data received:', {
-            count: data?.length || 0,
-            sample: data?.slice(0, 3)?.map((p: any) => ({
-                user_id: p.user_id,
-                full_name: p.full_name,
-                profession: p.profession,
-                role: p.role,
-                user_type: p.user_type,
-            })),
-        });
+    console.log(`[ProfessionalsService] ✅ ${data.length} profesionales recibidos de Supabase`);
 
-        if (!data || data.length === 0) {
-            console.warn('[ProfessionalsService] ⚠️ No professionals found in database');
-            return [];
-        }
+    console.log('[ProfessionalsService] 📊 Raw data received:', {
+        count: data?.length || 0,
+        sample: data?.slice(0, 3)?.map(p => ({
+            user_id: p.user_id,
+            full_name: p.full_name,
+            profession: p.profession,
+            role: p.role,
+            user_type: p.user_type,
+        })),
+    });
 
-        console.log(`[ProfessionalsService] ✅ Found ${data.length} professionals from query`);
+    if (!data || data.length === 0) {
+        console.warn('[ProfessionalsService] ⚠️ No professionals found in database');
+        return [];
+    }
 
-        // Procesar y ordenar
-        const professionals = processProfessionalsData(data, userLat, userLng, limit, sortBy);
+    console.log(`[ProfessionalsService] ✅ Found ${data.length} professionals from query`);
 
-        const loadTime = Date.now() - startTime;
-        console.log(`[ProfessionalsService] 🎯 Processed ${professionals.length} professionals (${loadTime}ms)`);
+    // Procesar y ordenar
+    const professionals = processProfessionalsData(data, userLat, userLng, limit, sortBy);
 
-        return professionals;
-    } catch (error) {
-        console.error('[ProfessionalsService] 💥 Exception:', error);
-        return [];
-    }
+    const loadTime = Date.now() - startTime;
+    console.log(`[ProfessionalsService] 🎯 Processed ${professionals.length} professionals (${loadTime}ms)`);
+
+    return professionals;
 }
 
 /**
@@ -402,7 +379,8 @@ export async function getAllProfessionals(
     userLng?: number,
     filters?: ProfessionalFilters,
     sortBy: SortOption = 'hybrid',
-    limit: number = 50
+    limit: number = 50,
+    signal?: AbortSignal
 ): Promise<FeaturedProfessional[]> {
     try {
         console.log('[ProfessionalsService] 🚀 Fetching all professionals...');
@@ -410,44 +388,28 @@ export async function getAllProfessionals(
         console.log('[ProfessionalsService] 🔍 Filters:', filters);
         console.log('[ProfessionalsService] 🎯 Sort by:', sortBy);
 
-        let query = supabase
-            .from('profiles')
-            .select(`
-                user_id,
-                full_name,
-                avatar_url,
-                profession,
-                calificacion_promedio,
-                ubicacion_lat,
-                ubicacion_lng,
-                areas_servicio,
-                experience,
-                whatsapp,
-                role,
-                user_type,
-                updated_at,
-            bio,
-                descripcion_perfil,
-                work_photos_urls,
-                portfolio,
-                certificaciones_urls,
-                antecedentes_no_penales_url,
-                numero_imss,
-                work_zones
-            `)
-            .in('role', DB_ROLE_VALUES_PROFESSIONAL)
-            .neq('user_type', 'client');
-
-        // Aplicar filtros
-        if (filters?.profession) {
-            query = query.ilike('profession', `%${filters.profession}%`);
-        }
+        // Misma consulta para cualquier ubicación/orden: se comparte entre llamadas concurrentes
+        const { data, error } = await requestExecutor.execute(
+            fetchSignal => {
+                let query = ProfilesRepository.queryProfessionalsDetailed();
 
-        if (filters?.minRating) {
-            query = query.gte('calificacion_promedio', filters.minRating);
-        }
+                // Aplicar filtros
+                if (filters?.profession) {
+                    query = query.ilike('profession', `%${filters.profession}%`);
+                }
+
+                if (filters?.minRating) {
+                    query = query.gte('calificacion_promedio', filters.minRating);
+                }
 
-        const { data, error } = await query.limit(200); // Más resultados para filtrar/ordenar
+                return query.limit(200).abortSignal(fetchSignal); // Más resultados para filtrar/ordenar
+            },
+            {
+                key: CacheKeys.professionalsDirectory(filters?.profession, filters?.minRating),
+                signal,
+                policy: RequestPolicies.heavyRead,
+            }
+        );
 
         if (error) {
             console.error('[ProfessionalsService] ❌ Error:', error);
@@ -497,7 +459,7 @@ export async function getAllProfessionals(
  * Procesar datos de profesionales y calcular scores
  */
 function processProfessionalsData(
-    data: any[],
+    data: ProfessionalProfileRow[],
     userLat?: number,
     userLng?: number,
     limit: number = 10,
@@ -506,7 +468,7 @@ function processProfessionalsData(
     console.log(`[ProfessionalsService] 🔍 Processing ${data.length} profiles...`);
     
     // ✅ MEJORADO: Filtrar solo profesionales (más flexible)
-    const onlyProfessionals = data.filter((prof: any) => {
+    const onlyProfessionals = data.filter(prof => {
         const isProfessional = isProfessionalListingRow(prof);
 
         if (!isProfessional) {
@@ -527,7 +489,7 @@ function processProfessionalsData(
     
     if (onlyProfessionals.length === 0) {
         console.warn('[ProfessionalsService] ⚠️ No professionals after filtering!');
-        console.log('[ProfessionalsService] 📊 Sample of filtered data:', data.slice(0, 3).map((p: any) => ({
+        console.log('[ProfessionalsService] 📊 Sample of filtered data:', data.slice(0, 3).map(p => ({
             user_id: p.user_id,
             full_name: p.full_name,
             role: p.role,
@@ -537,11 +499,11 @@ function processProfessionalsData(
     }
 
     // Calcular distancia, completitud y scores
-    const professionalsWithScore: FeaturedProfessional[] = onlyProfessionals.map((prof: any) => {
+    const professionalsWithScore: FeaturedProfessional[] = onlyProfessionals.map(prof => {
         let distance: number | undefined;
         // El join puede no venir si falló RLS o no se incluyó
         const stats = (prof.professional_stats && Array.isArray(prof.professional_stats))
-            ? prof.professional_stats[0]
+            ? prof.professional_stats[0] ?? {}
             : {};
 
         // Calcular distancia
@@ -567,7 +529,7 @@ function processProfessionalsData(
             user_id: prof.user_id,
             full_name: prof.full_name || 'Profesional',
             avatar_url: resolvedAvatarUrl,
-            updated_at: prof.updated_at,
+            updated_at: prof.updated_at ?? undefined,
             profession: prof.profession || stats.specialty || 'Profesional',
             calificacion_promedio: prof.calificacion_promedio || stats.average_rating || 5, // ✅ DEFAULT 5 ESTRELLAS
             review_count: stats.jobs_completed_count || 0,
@@ -578,11 +540,11 @@ function processProfessionalsData(
             whatsapp: prof.whatsapp,
             verified: Boolean(prof.numero_imss || prof.certificaciones_urls?.length),
             profile_completeness: profileCompleteness,
-            created_at: prof.created_at,
+            created_at: prof.created_at ?? undefined,
             bio: prof.bio,
             descripcion_perfil: prof.descripcion_perfil,
             work_photos_urls: prof.work_photos_urls,
-            portfolio: prof.portfolio,
+            portfolio: Array.isArray(prof.portfolio) ? prof.portfolio : null,
             certificaciones_urls: prof.certificaciones_urls,
             antecedentes_no_penales_url: prof.antecedentes_no_penales_url,
             numero_imss: prof.numero_imss,
@@ -594,8 +556,7 @@ function processProfessionalsData(
         professional.relevance_score = calculateRelevanceScore(professional, userLat, userLng);
 
         // Calcular score híbrido (nuevo)
-        const hybridScore = calculateHybridScore(professional);
-        (professional as any).hybrid_score = hybridScore;
+        professional.hybrid_score = calculateHybridScore(professional);
 
         return professional;
     });
@@ -607,8 +568,8 @@ function processProfessionalsData(
         case 'hybrid':
             // Ordenar por score híbrido (descendente), luego por distancia (ascendente)
             sorted = professionalsWithScore.sort((a, b) => {
-                const scoreA = (a as any).hybrid_score || 0;
-                const scoreB = (b as any).hybrid_score || 0;
+                const scoreA = a.hybrid_score || 0;
+                const scoreB = b.hybrid_score || 0;
 
                 if (Math.abs(scoreA - scoreB) < 0.01) {
                     // Desempate por distancia
@@ -705,14 +666,7 @@ export async function searchProfessionals(
     filters?: ProfessionalFilters
 ): Promise<FeaturedProfessional[]> {
     try {
-        let supabaseQuery = supabase
-            .from('profiles')
-            .select('*, professional_stats(is_online)')
-            .in('role', DB_ROLE_VALUES_PROFESSIONAL)
-            .neq('user_type', 'client')
-            .or(`full_name.ilike.%${query}%,profession.ilike.%${query}%`);
-
-        const { data, error } = await supabaseQuery.limit(50);
+        const { data, error } = await ProfilesRepository.searchProfessionals(query, 50);
 
         if (error) {
             console.error('[ProfessionalsService] Search error:', error);
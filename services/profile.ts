@@ -1,5 +1,8 @@
 import { supabase } from '@/lib/supabase';
 import * as FileSystem from 'expo-file-system/legacy';
+import { ProfilesRepository, ProfileUpdate as ProfileRowUpdate } from './repositories/profiles';
+import { AddressesRepository, AddressRow } from './repositories/addresses';
+import { isMissingTableError } from './errors';
 
 /**
  * Profile Service - Gestión de perfil de cliente
@@ -40,7 +43,7 @@ export class ProfileService {
             console.log('[ProfileService] Updates:', updates);
 
             // Construir objeto de actualización solo con campos definidos
-            const updateData: any = {
+            const updateData: ProfileRowUpdate = {
                 updated_at: new Date().toISOString(),
             };
 
@@ -54,12 +57,7 @@ export class ProfileService {
 
             console.log('[ProfileService] Update data:', updateData);
 
-            const { data, error } = await supabase
-                .from('profiles')
-                .update(updateData)
-                .eq('user_id', userId)
-                .select()
-                .single();
+            const { data, error } = await ProfilesRepository.updateReturning(userId, updateData);
 
             if (error) {
                 console.error('[ProfileService] Supabase error:', {
@@ -219,23 +217,18 @@ export class ProfileService {
     static async getAddresses(userId: string): Promise<Address[]> {
         try {
             // Intentar obtener de tabla 'addresses' si existe
-            const { data, error } = await supabase
-                .from('addresses')
-                .select('*')
-                .eq('user_id', userId)
-                .order('is_default', { ascending: false })
-                .order('created_at', { ascending: false });
+            const { data, error } = await AddressesRepository.listByUser(userId);
 
             if (error) {
                 // Si la tabla no existe, retornar array vacío
-                if (error.code === '42P01') {
+                if (isMissingTableError(error)) {
                     console.warn('[ProfileService] Addresses table does not exist');
                     return [];
                 }
                 throw error;
             }
 
-            return (data as Address[]) || [];
+            return (data || []).map(toAddress);
         } catch (error) {
             console.error('[ProfileService] Error getting addresses:', error);
             return [];
@@ -249,24 +242,17 @@ export class ProfileService {
         try {
             // Si es la dirección por defecto, desmarcar las demás
             if (address.is_default) {
-                await supabase
-                    .from('addresses')
-                    .update({ is_default: false })
-                    .eq('user_id', address.user_id);
+                await AddressesRepository.clearDefault(address.user_id);
             }
 
-            const { data, error } = await supabase
-                .from('addresses')
-                .insert({
-                    ...address,
-                    created_at: new Date().toISOString(),
-                    updated_at: new Date().toISOString(),
-                })
-                .select()
-                .single();
+            const { data, error } = await AddressesRepository.insert({
+                ...address,
+                created_at: new Date().toISOString(),
+                updated_at: new Date().toISOString(),
+            });
 
             if (error) throw error;
-            return data as Address;
+            return toAddress(data);
         } catch (error) {
             console.error('[ProfileService] Error creating address:', error);
             throw error;
@@ -282,26 +268,17 @@ export class ProfileService {
             if (updates.is_default) {
                 const address = await this.getAddressById(addressId);
                 if (address) {
-                    await supabase
-                        .from('addresses')
-                        .update({ is_default: false })
-                        .eq('user_id', address.user_id)
-                        .neq('id', addressId);
+                    await AddressesRepository.clearDefault(address.user_id, addressId);
                 }
             }
 
-            const { data, error } = await supabase
-                .from('addresses')
-                .update({
-                    ...updates,
-                    updated_at: new Date().toISOString(),
-                })
-                .eq('id', addressId)
-                .select()
-                .single();
+            const { data, error } = await AddressesRepository.update(addressId, {
+                ...updates,
+                updated_at: new Date().toISOString(),
+            });
 
             if (error) throw error;
-            return data as Address;
+            return toAddress(data);
         } catch (error) {
             console.error('[ProfileService] Error updating address:', error);
             throw error;
@@ -313,10 +290,7 @@ export class ProfileService {
      */
     static async deleteAddress(addressId: string): Promise<boolean> {
         try {
-            const { error } = await supabase
-                .from('addresses')
-                .delete()
-                .eq('id', addressId);
+            const { error } = await AddressesRepository.delete(addressId);
 
             if (error) throw error;
             return true;
@@ -331,14 +305,10 @@ export class ProfileService {
      */
     static async getAddressById(addressId: string): Promise<Address | null> {
         try {
-            const { data, error } = await supabase
-                .from('addresses')
-                .select('*')
-                .eq('id', addressId)
-                .single();
+            const { data, error } = await AddressesRepository.findById(addressId);
 
             if (error) throw error;
-            return data as Address;
+            return toAddress(data);
         } catch (error) {
             console.error('[ProfileService] Error getting address:', error);
             return null;
@@ -351,16 +321,10 @@ export class ProfileService {
     static async setDefaultAddress(userId: string, addressId: string): Promise<boolean> {
         try {
             // Desmarcar todas las direcciones
-            await supabase
-                .from('addresses')
-                .update({ is_default: false })
-                .eq('user_id', userId);
+            await AddressesRepository.clearDefault(userId);
 
             // Marcar la seleccionada como default
-            await supabase
-                .from('addresses')
-                .update({ is_default: true })
-                .eq('id', addressId);
+            await AddressesRepository.update(addressId, { is_default: true });
 
             return true;
         } catch (error) {
@@ -370,3 +334,22 @@ export class ProfileService {
     }
 }
 
+/**
+ * Normalizar una fila de `addresses` (coordenadas y marca por defecto nunca nulas)
+ */
+function toAddress(row: AddressRow): Address {
+    return {
+        id: row.id,
+        user_id: row.user_id,
+        name: row.name,
+        address: row.address,
+        latitude: row.latitude ?? 0,
+        longitude: row.longitude ?? 0,
+        city: row.city ?? undefined,
+        state: row.state ?? undefined,
+        zip_code: row.zip_code ?? undefined,
+        is_default: row.is_default ?? false,
+        created_at: row.created_at ?? undefined,
+        updated_at: row.updated_at ?? undefined,
+    };
+}
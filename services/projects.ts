@@ -0,0 +1,453 @@
+import { validateCoordinates, validateUUID, ValidationResult } from './validation';
+import { cache, CacheKeys } from './cache';
+import { requestExecutor, RequestPolicies } from './requestExecutor';
+import { AppError, assertValid, isMissingTableError, toAppError } from './errors';
+import { LeadStatus, resolveLeadStatus } from './leadLifecycle';
+import { LeadsRepository, LeadInsert, LeadRow } from './repositories/leads';
+import { ProfilesRepository, ProfileRow } from './repositories/profiles';
+import { ProjectsRepository, ProjectRow } from './repositories/projects';
+import { ServiceCatalogRepository } from './repositories/serviceCatalog';
+import {
+    IntakeAnswers,
+    collectIntakePhotos,
+    formatIntakeSummary,
+    getIntakeFormSchema,
+    summarizeIntakeAnswers,
+    validateIntakeAnswers,
+} from './intakeForms';
+import { QuoteService, ServiceQuote } from './quotes';
+import { toServiceItem } from './services';
+
+/**
+ * Proyectos con varios servicios (ver SCHEMA_PROYECTOS.sql)
+ * Un proyecto agrupa renglones de servicio en la misma dirección; los renglones de una
+ * misma disciplina comparten un lead (un profesional por oficio). Avance y presupuesto se
+ * derivan de esos leads.
+ */
+
+export const PROJECT_TITLE_MAX_LENGTH = 80;
+export const PROJECT_DESCRIPTION_MIN_LENGTH = 10;
+export const PROJECT_MIN_ITEMS = 2;
+export const PROJECT_MAX_ITEMS = 8;
+
+export type ProjectStatus = 'pending' | 'in_progress' | 'completed' | 'cancelled';
+
+export const PROJECT_STATUS_LABELS: Record<ProjectStatus, string> = {
+    pending: 'Buscando profesionales',
+    in_progress: 'En curso',
+    completed: 'Terminado',
+    cancelled: 'Cancelado',
+};
+
+/** Estados en los que el precio del renglón ya está acordado con un profesional */
+const COMMITTED_STATUSES: LeadStatus[] = ['accepted', 'scheduled', 'in_progress', 'completed', 'disputed'];
+
+export interface ProjectItemInput {
+    serviceId: string;
+    /** Respuestas del formulario del servicio (ver intakeForms) */
+    answers: IntakeAnswers;
+}
+
+export interface CreateProjectInput {
+    clientId: string;
+    title: string;
+    /** Descripción compartida por todos los servicios */
+    description: string;
+    /** Fotos compartidas por todos los servicios */
+    photos: string[];
+    location: { lat: number; lng: number; address: string };
+    items: ProjectItemInput[];
+}
+
+export interface Project {
+    id: string;
+    title: string;
+    description: string;
+    photos: string[];
+    address: string | null;
+    lat: number | null;
+    lng: number | null;
+    /** Suma de las cotizaciones al crear el proyecto */
+    estimated_total: number | null;
+    created_at: string | null;
+    /** Un lead por disciplina, en el orden en que se agregaron sus servicios */
+    leads: LeadRow[];
+}
+
+export interface ProjectBudgetLine {
+    leadId: string;
+    service: string;
+    status: LeadStatus;
+    amount: number;
+    /** Precio acordado con un profesional (no solo cotizado) */
+    committed: boolean;
+}
+
+export interface ProjectBudget {
+    lines: ProjectBudgetLine[];
+    /** Suma de los servicios no cancelados */
+    total: number;
+    /** Parte del total ya acordada con profesionales */
+    committed: number;
+    /** Parte del total de servicios terminados */
+    completed: number;
+}
+
+export interface ProjectProgress {
+    status: ProjectStatus;
+    /** Servicios no cancelados */
+    total: number;
+    completed: number;
+    active: number;
+    pending: number;
+    cancelled: number;
+    /** Porcentaje de servicios terminados (0-100) */
+    percent: number;
+}
+
+function leadAmount(lead: Pick<LeadRow, 'agreed_price' | 'price'>): number {
+    const amount = Number(lead.agreed_price ?? lead.price ?? 0);
+    return Number.isFinite(amount) ? amount : 0;
+}
+
+function roundAmount(amount: number): number {
+    return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Presupuesto combinado del proyecto; los servicios cancelados aparecen en el desglose
+ * pero no suman
+ */
+export function getProjectBudget(leads: LeadRow[]): ProjectBudget {
+    const lines = leads.map(lead => {
+        const status = resolveLeadStatus(lead);
+        return {
+            leadId: lead.id,
+            service: lead.servicio_solicitado || lead.servicio || 'Servicio',
+            status,
+            amount: leadAmount(lead),
+            committed: COMMITTED_STATUSES.includes(status),
+        };
+    });
+
+    const counted = lines.filter(line => line.status !== 'cancelled');
+    const sum = (items: ProjectBudgetLine[]) => roundAmount(items.reduce((total, line) => total + line.amount, 0));
+
+    return {
+        lines,
+        total: sum(counted),
+        committed: sum(counted.filter(line => line.committed)),
+        completed: sum(counted.filter(line => line.status === 'completed')),
+    };
+}
+
+/**
+ * Avance del proyecto a partir del estado de cada servicio
+ */
+export function getProjectProgress(leads: LeadRow[]): ProjectProgress {
+    const statuses = leads.map(lead => resolveLeadStatus(lead));
+    const cancelled = statuses.filter(status => status === 'cancelled').length;
+    const completed = statuses.filter(status => status === 'completed').length;
+    const pending = statuses.filter(status => status === 'pending').length;
+    const total = statuses.length - cancelled;
+    const active = total - completed - pending;
+
+    let status: ProjectStatus;
+    if (total === 0) {
+        status = 'cancelled';
+    } else if (completed === total) {
+        status = 'completed';
+    } else if (pending === total) {
+        status = 'pending';
+    } else {
+        status = 'in_progress';
+    }
+
+    return {
+        status,
+        total,
+        completed,
+        active,
+        pending,
+        cancelled,
+        percent: total > 0 ? Math.round((completed / total) * 100) : 0,
+    };
+}
+
+/**
+ * Título, descripción compartida y número de servicios del proyecto
+ */
+export function validateProjectInput(input: Pick<CreateProjectInput, 'title' | 'description' | 'items'>): ValidationResult {
+    const title = input.title.trim();
+    if (!title) {
+        return { valid: false, error: { code: 'project.missing_title', message: 'Ponle un nombre a tu proyecto' } };
+    }
+    if (title.length > PROJECT_TITLE_MAX_LENGTH) {
+        return {
+            valid: false,
+            error: { code: 'project.title_too_long', message: `El nombre admite hasta ${PROJECT_TITLE_MAX_LENGTH} caracteres` },
+        };
+    }
+    if (input.description.trim().length < PROJECT_DESCRIPTION_MIN_LENGTH) {
+        return {
+            valid: false,
+            error: { code: 'project.missing_description', message: 'Describe el proyecto para que los profesionales lo entiendan' },
+        };
+    }
+    if (input.items.length < PROJECT_MIN_ITEMS) {
+        return {
+            valid: false,
+            error: { code: 'project.too_few_items', message: `Agrega al menos ${PROJECT_MIN_ITEMS} servicios; para uno solo usa una solicitud normal` },
+        };
+    }
+    if (input.items.length > PROJECT_MAX_ITEMS) {
+        return {
+            valid: false,
+            error: { code: 'project.too_many_items', message: `Un proyecto admite hasta ${PROJECT_MAX_ITEMS} servicios` },
+        };
+    }
+    const serviceIds = input.items.map(item => item.serviceId);
+    if (new Set(serviceIds).size !== serviceIds.length) {
+        return {
+            valid: false,
+            error: { code: 'project.duplicate_service', message: 'Cada servicio solo puede agregarse una vez al proyecto' },
+        };
+    }
+    return { valid: true };
+}
+
+function toProject(row: ProjectRow, leads: LeadRow[]): Project {
+    return {
+        id: row.id,
+        title: row.title,
+        description: row.description,
+        photos: row.photos_urls ?? [],
+        address: row.address,
+        lat: row.lat,
+        lng: row.lng,
+        estimated_total: row.estimated_total === null ? null : Number(row.estimated_total),
+        created_at: row.created_at,
+        leads,
+    };
+}
+
+export class ProjectsService {
+    /**
+     * Proyectos del cliente con sus leads
+     */
+    static async getProjects(clientId: string, signal?: AbortSignal): Promise<Project[]> {
+        assertValid(validateUUID(clientId));
+
+        const { data: rows, error } = await requestExecutor.execute(
+            requestSignal => ProjectsRepository.listByClient(clientId, requestSignal),
+            {
+                key: CacheKeys.projects(clientId),
+                signal,
+                policy: RequestPolicies.read,
+                timeoutMessage: 'Timeout al obtener tus proyectos',
+            }
+        );
+
+        if (error) {
+            // Migración pendiente: la app funciona sin proyectos
+            if (isMissingTableError(error)) {
+                console.warn('[ProjectsService] projects table not found, run SCHEMA_PROYECTOS.sql');
+                return [];
+            }
+            throw toAppError(error, 'No se pudieron obtener tus proyectos');
+        }
+        if (!rows || rows.length === 0) return [];
+
+        const { data: leads, error: leadsError } = await requestExecutor.execute(
+            requestSignal => LeadsRepository.listByProjects(clientId, rows.map(row => row.id), requestSignal),
+            { signal, policy: RequestPolicies.read, timeoutMessage: 'Timeout al obtener los servicios de tus proyectos' }
+        );
+        if (leadsError) {
+            throw toAppError(leadsError, 'No se pudieron obtener los servicios de tus proyectos');
+        }
+
+        return rows.map(row => toProject(row, (leads || []).filter(lead => lead.project_id === row.id)));
+    }
+
+    /**
+     * Un proyecto del cliente con sus leads
+     */
+    static async getProject(projectId: string, clientId: string, signal?: AbortSignal): Promise<Project> {
+        assertValid(validateUUID(projectId));
+
+        const { data: row, error } = await requestExecutor.execute(
+            requestSignal => ProjectsRepository.findForClient(projectId, clientId, requestSignal),
+            { signal, policy: RequestPolicies.read, timeoutMessage: 'Timeout al obtener el proyecto' }
+        );
+        if (error || !row) {
+            throw error && !isMissingTableError(error)
+                ? toAppError(error, 'Proyecto no encontrado')
+                : new AppError('not_found', { code: 'project.not_found', userMessage: 'Proyecto no encontrado' });
+        }
+
+        const { data: leads, error: leadsError } = await requestExecutor.execute(
+            requestSignal => LeadsRepository.listByProjects(clientId, [projectId], requestSignal),
+            { signal, policy: RequestPolicies.read, timeoutMessage: 'Timeout al obtener los servicios del proyecto' }
+        );
+        if (leadsError) {
+            throw toAppError(leadsError, 'No se pudieron obtener los servicios del proyecto');
+        }
+
+        return toProject(row, leads || []);
+    }
+
+    /**
+     * Crear el proyecto y un lead por disciplina
+     * Precios y formularios se toman del catálogo, no de la pantalla. Los leads se insertan
+     * en un solo INSERT; si falla, el proyecto se elimina para no dejarlo vacío.
+     */
+    static async createProject(input: CreateProjectInput): Promise<Project> {
+        const { clientId, location } = input;
+        assertValid(validateUUID(clientId));
+        assertValid(validateProjectInput(input));
+        assertValid(validateCoordinates(location.lat, location.lng));
+        input.items.forEach(item => assertValid(validateUUID(item.serviceId)));
+
+        const serviceIds = input.items.map(item => item.serviceId);
+        const { data: catalog, error: catalogError } = await requestExecutor.execute(
+            signal => ServiceCatalogRepository.listByIds(serviceIds, signal),
+            { policy: RequestPolicies.read, timeoutMessage: 'Timeout al obtener los servicios' }
+        );
+        if (catalogError) {
+            throw toAppError(catalogError, 'No se pudieron obtener los servicios del proyecto');
+        }
+
+        const description = input.description.trim();
+        const photos = input.photos.filter(Boolean);
+
+        // Cotización y lead de cada renglón, en el orden elegido por el cliente
+        const lines = input.items.map(item => {
+            const row = (catalog || []).find(service => service.id === item.serviceId);
+            if (!row || row.is_active === false) {
+                throw new AppError('not_found', {
+                    code: 'project.service_not_found',
+                    userMessage: 'Uno de los servicios ya no está disponible; quítalo del proyecto',
+                });
+            }
+            const service = toServiceItem(row);
+            const schema = getIntakeFormSchema(service);
+            const answers = validateIntakeAnswers(schema, { ...item.answers, description });
+            if (!answers.valid) {
+                throw new AppError('validation', {
+                    code: 'project.invalid_item',
+                    userMessage: `Completa los datos de ${service.service_name}`,
+                });
+            }
+            const quote: ServiceQuote = QuoteService.calculatePrice(
+                service.min_price,
+                answers.formData,
+                false,
+                { rules: service.pricing_rules, unit: service.unit }
+            );
+            return {
+                service,
+                quote,
+                summary: formatIntakeSummary(summarizeIntakeAnswers(schema, answers.formData)),
+                photos: collectIntakePhotos(schema, answers.formData),
+            };
+        });
+
+        // Los renglones del mismo oficio van en un solo lead: un profesional cotiza todo el trabajo
+        const trades = new Map<string, typeof lines>();
+        lines.forEach(line => {
+            const trade = trades.get(line.service.discipline);
+            if (trade) {
+                trade.push(line);
+            } else {
+                trades.set(line.service.discipline, [line]);
+            }
+        });
+
+        const estimatedTotal = Math.round(
+            lines.reduce((total, line) => total + (line.quote.total_with_tax ?? line.quote.base_price ?? 0), 0) * 100
+        ) / 100;
+
+        // Contacto del cliente (con cache), igual que en una solicitud individual
+        const profileCacheKey = CacheKeys.profile(clientId);
+        let clientProfile = cache.get<Pick<ProfileRow, 'full_name' | 'whatsapp' | 'phone'>>(profileCacheKey);
+        if (!clientProfile) {
+            const { data } = await requestExecutor.execute(
+                signal => ProfilesRepository.findContact(clientId, signal),
+                { policy: RequestPolicies.read, timeoutMessage: 'Timeout al obtener perfil del cliente' }
+            ).catch(error => ({ data: null, error }));
+            if (data) {
+                clientProfile = data;
+                cache.set(profileCacheKey, data, 5 * 60 * 1000);
+            }
+        }
+
+        // Sin reintentos: el INSERT no es idempotente
+        const { data: project, error: projectError } = await requestExecutor.execute(
+            signal => ProjectsRepository.insert({
+                client_id: clientId,
+                title: input.title.trim(),
+                description,
+                photos_urls: photos,
+                address: location.address || null,
+                lat: location.lat,
+                lng: location.lng,
+                estimated_total: estimatedTotal,
+            }, signal),
+            { policy: RequestPolicies.write, timeoutMessage: 'Timeout al crear el proyecto' }
+        );
+        if (projectError || !project) {
+            throw toAppError(projectError, 'No se pudo crear el proyecto');
+        }
+
+        const leadRows: LeadInsert[] = Array.from(trades, ([discipline, tradeLines]) => {
+            const sum = (amount: (quote: ServiceQuote) => number) =>
+                roundAmount(tradeLines.reduce((total, line) => total + amount(line.quote), 0));
+            const basePrice = sum(quote => quote.base_price ?? 0);
+            const totalWithTax = sum(quote => quote.total_with_tax ?? quote.base_price ?? 0);
+            // Con un solo servicio el resumen va sin encabezado, como en una solicitud individual
+            const summaries = tradeLines
+                .filter(line => line.summary)
+                .map(line => (tradeLines.length > 1 ? `${line.service.service_name}:\n${line.summary}` : line.summary));
+            const tradePhotos = Array.from(new Set([...photos, ...tradeLines.flatMap(line => line.photos)]));
+
+            return {
+                cliente_id: clientId,
+                project_id: project.id,
+                nombre_cliente: clientProfile?.full_name || null,
+                whatsapp: clientProfile?.whatsapp || clientProfile?.phone || null,
+                servicio: discipline || null,
+                servicio_solicitado: tradeLines.map(line => line.service.service_name).join(', '),
+                descripcion_proyecto: [description, ...summaries].join('\n\n'),
+                ubicacion_lat: location.lat,
+                ubicacion_lng: location.lng,
+                ubicacion_direccion: location.address || null,
+                estado: 'Nuevo',
+                status: 'pending',
+                price: basePrice,
+                agreed_price: totalWithTax,
+                ai_suggested_price_min: basePrice,
+                ai_suggested_price_max: totalWithTax,
+                disciplina_ia: discipline || null,
+                ...(tradePhotos.length > 0 ? { photos_urls: tradePhotos } : {}),
+            };
+        });
+
+        const { data: leads, error: leadsError } = await requestExecutor.execute(
+            signal => LeadsRepository.insertMany(leadRows, signal),
+            { policy: RequestPolicies.write, timeoutMessage: 'Timeout al crear las solicitudes del proyecto' }
+        );
+
+        if (leadsError || !leads) {
+            const { error: cleanupError } = await ProjectsRepository.deleteForClient(project.id, clientId);
+            if (cleanupError) {
+                console.warn('[ProjectsService] ⚠️ Empty project not removed:', project.id, cleanupError);
+            }
+            throw toAppError(leadsError, 'No se pudieron crear las solicitudes del proyecto');
+        }
+
+        cache.invalidatePattern(`^${CacheKeys.leads(clientId)}`);
+        cache.invalidate(CacheKeys.projects(clientId));
+
+        return toProject(project, leads);
+    }
+}
@@ -0,0 +1,280 @@
+/**
+ * Quantity Calculators - Calculadoras de cantidad para servicios cobrados por m² o por unidad
+ * Convierten medidas del cliente (cuartos, puertas y ventanas, zonas a vigilar) en la cantidad
+ * que usan las reglas de precio. El cálculo se guarda en `form_data.calculations` (id de pregunta
+ * → entradas y resultado) para que el profesional vea de dónde salió la estimación.
+ */
+
+export type QuantityCalculatorType = 'wall_area' | 'floor_area' | 'cameras' | 'minisplits';
+
+export interface RoomDimensions {
+    /** Metros */
+    length: number;
+    width: number;
+    /** Altura de muros (solo área de muros) */
+    height?: number;
+    /** Recibe sol directo buena parte del día (solo minisplits) */
+    sunny?: boolean;
+}
+
+export interface WallOpening {
+    /** Metros */
+    width: number;
+    height: number;
+    quantity: number;
+}
+
+export interface WallAreaInputs {
+    rooms: RoomDimensions[];
+    /** Puertas y ventanas que no se pintan */
+    openings: WallOpening[];
+    include_ceiling?: boolean;
+}
+
+export interface FloorAreaInputs {
+    rooms: RoomDimensions[];
+}
+
+export interface CameraInputs {
+    /** Puertas de acceso (principal, servicio, cochera) */
+    entrances: number;
+    /** Lados del perímetro exterior a cubrir */
+    exterior_sides: number;
+    /** Cuartos o pasillos interiores */
+    interior_areas: number;
+    /** Estacionamiento o patio de maniobras */
+    parking: number;
+}
+
+export interface MinisplitInputs {
+    rooms: RoomDimensions[];
+}
+
+export interface QuantityCalculatorInputs {
+    wall_area: WallAreaInputs;
+    floor_area: FloorAreaInputs;
+    cameras: CameraInputs;
+    minisplits: MinisplitInputs;
+}
+
+export type QuantityCalculation<T extends QuantityCalculatorType = QuantityCalculatorType> = {
+    [K in T]: {
+        type: K;
+        inputs: QuantityCalculatorInputs[K];
+        /** Resultado exacto (m² con decimales o unidades) */
+        result: number;
+        /** Cantidad entera que se cotiza (m² redondeados hacia arriba) */
+        quantity: number;
+        unit: string;
+        /** Capacidad sugerida por cuarto (solo minisplits) */
+        capacities?: MinisplitCapacity[];
+    };
+}[T];
+
+export interface MinisplitCapacity {
+    area: number;
+    btu: number;
+    /** Toneladas de refrigeración (12,000 BTU = 1 ton) */
+    tons: number;
+}
+
+export interface QuantityCalculatorInfo {
+    title: string;
+    description: string;
+    unit: string;
+}
+
+export const QUANTITY_CALCULATORS: Record<QuantityCalculatorType, QuantityCalculatorInfo> = {
+    wall_area: {
+        title: 'Calcular área de muros',
+        description: 'Mide largo, ancho y altura de cada cuarto; restamos puertas y ventanas.',
+        unit: 'm²',
+    },
+    floor_area: {
+        title: 'Calcular área de piso',
+        description: 'Mide largo y ancho de cada espacio.',
+        unit: 'm²',
+    },
+    cameras: {
+        title: 'Calcular número de cámaras',
+        description: 'Cuenta los accesos y zonas que quieres vigilar; sugerimos una cámara por cada uno.',
+        unit: 'cámaras',
+    },
+    minisplits: {
+        title: 'Calcular minisplits',
+        description: 'Un equipo por cuarto; con las medidas sugerimos la capacidad de cada uno.',
+        unit: 'equipos',
+    },
+};
+
+/** Calculadora sugerida para la pregunta de cantidad de cada disciplina */
+export const DISCIPLINE_CALCULATORS: Record<string, QuantityCalculatorType> = {
+    'pintura': 'wall_area',
+    'tablaroca': 'wall_area',
+    'limpieza': 'floor_area',
+    'cctv': 'cameras',
+    'aire-acondicionado': 'minisplits',
+};
+
+export const DEFAULT_WALL_HEIGHT = 2.5;
+
+/** Regla de dedo para clima cálido: BTU por m² (más 15% con sol directo) */
+export const BTU_PER_M2 = 600;
+const SUNNY_FACTOR = 1.15;
+const MINISPLIT_SIZES_BTU = [12000, 18000, 24000, 36000];
+
+const CALCULATOR_TYPES = Object.keys(QUANTITY_CALCULATORS) as QuantityCalculatorType[];
+
+function positive(value: unknown): number {
+    const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? '').replace(',', '.'));
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+}
+
+function round2(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+/**
+ * Área de muros: perímetro × altura de cada cuarto (más techo si se pide) menos aberturas
+ */
+export function calculateWallArea(inputs: WallAreaInputs): number {
+    const walls = inputs.rooms.reduce((sum, room) => {
+        const length = positive(room.length);
+        const width = positive(room.width);
+        const height = positive(room.height) || DEFAULT_WALL_HEIGHT;
+        return sum + 2 * (length + width) * height + (inputs.include_ceiling ? length * width : 0);
+    }, 0);
+    const openings = inputs.openings.reduce((sum, opening) =>
+        sum + positive(opening.width) * positive(opening.height) * Math.floor(positive(opening.quantity)), 0);
+    return round2(Math.max(0, walls - openings));
+}
+
+export function calculateFloorArea(inputs: FloorAreaInputs): number {
+    return round2(inputs.rooms.reduce((sum, room) => sum + positive(room.length) * positive(room.width), 0));
+}
+
+export function calculateCameraCount(inputs: CameraInputs): number {
+    return [inputs.entrances, inputs.exterior_sides, inputs.interior_areas, inputs.parking]
+        .reduce((sum: number, count) => sum + Math.floor(positive(count)), 0);
+}
+
+/**
+ * Capacidad sugerida: BTU por m² redondeado al siguiente tamaño comercial
+ */
+export function getMinisplitCapacity(room: RoomDimensions): MinisplitCapacity {
+    const area = round2(positive(room.length) * positive(room.width));
+    const required = area * BTU_PER_M2 * (room.sunny ? SUNNY_FACTOR : 1);
+    const btu = MINISPLIT_SIZES_BTU.find(size => size >= required) ?? MINISPLIT_SIZES_BTU[MINISPLIT_SIZES_BTU.length - 1];
+    return { area, btu, tons: btu / 12000 };
+}
+
+/**
+ * Ejecutar una calculadora; devuelve null si las medidas no dan una cantidad positiva
+ */
+export function runQuantityCalculator<T extends QuantityCalculatorType>(
+    type: T,
+    inputs: QuantityCalculatorInputs[T]
+): QuantityCalculation<T> | null {
+    const unit = QUANTITY_CALCULATORS[type].unit;
+    let result: number;
+    let capacities: MinisplitCapacity[] | undefined;
+
+    switch (type) {
+        case 'wall_area':
+            result = calculateWallArea(inputs as WallAreaInputs);
+            break;
+        case 'floor_area':
+            result = calculateFloorArea(inputs as FloorAreaInputs);
+            break;
+        case 'cameras':
+            result = calculateCameraCount(inputs as CameraInputs);
+            break;
+        default: {
+            const rooms = (inputs as MinisplitInputs).rooms.filter(room => positive(room.length) * positive(room.width) > 0);
+            capacities = rooms.map(getMinisplitCapacity);
+            result = rooms.length;
+        }
+    }
+
+    if (!(result > 0)) return null;
+
+    return {
+        type,
+        inputs,
+        result,
+        quantity: Math.ceil(result),
+        unit,
+        ...(capacities ? { capacities } : {}),
+    } as QuantityCalculation<T>;
+}
+
+function formatMeters(value: number): string {
+    return String(round2(positive(value)));
+}
+
+/**
+ * Cómo se obtuvo la cantidad, en una línea (resumen del formulario para el profesional)
+ */
+export function describeQuantityCalculation(calculation: QuantityCalculation): string {
+    switch (calculation.type) {
+        case 'wall_area': {
+            const { rooms, openings, include_ceiling } = calculation.inputs;
+            const roomsText = rooms
+                .map(room => `${formatMeters(room.length)}×${formatMeters(room.width)} m, altura ${formatMeters(room.height || DEFAULT_WALL_HEIGHT)} m`)
+                .join('; ');
+            const openingCount = openings.reduce((sum, opening) => sum + Math.floor(positive(opening.quantity)), 0);
+            return `${calculation.result} m² de muros${include_ceiling ? ' y techo' : ''} (${roomsText}`
+                + `${openingCount > 0 ? `; menos ${openingCount} puerta(s)/ventana(s)` : ''})`;
+        }
+        case 'floor_area':
+            return `${calculation.result} m² de piso (${calculation.inputs.rooms
+                .map(room => `${formatMeters(room.length)}×${formatMeters(room.width)} m`).join('; ')})`;
+        case 'cameras': {
+            const { entrances, exterior_sides, interior_areas, parking } = calculation.inputs;
+            const parts = [
+                entrances > 0 ? `${entrances} acceso(s)` : null,
+                exterior_sides > 0 ? `${exterior_sides} lado(s) exterior(es)` : null,
+                interior_areas > 0 ? `${interior_areas} área(s) interior(es)` : null,
+                parking > 0 ? `${parking} estacionamiento(s)` : null,
+            ].filter(Boolean);
+            return `${calculation.result} cámaras (${parts.join(', ')})`;
+        }
+        case 'minisplits':
+            return `${calculation.result} equipo(s): ${(calculation.capacities || [])
+                .map(capacity => `${capacity.area} m² → ${capacity.tons} ton`).join('; ')}`;
+    }
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Cálculos guardados en `form_data.calculations`; descarta entradas mal formadas
+ */
+export function getQuantityCalculations(formData: Record<string, unknown> | null | undefined): Record<string, QuantityCalculation> {
+    const raw = formData?.calculations;
+    if (!isRecord(raw)) return {};
+
+    const calculations: Record<string, QuantityCalculation> = {};
+    for (const [field, value] of Object.entries(raw)) {
+        if (isRecord(value) && CALCULATOR_TYPES.includes(value.type) && isRecord(value.inputs)
+            && typeof value.result === 'number' && typeof value.quantity === 'number') {
+            calculations[field] = value as QuantityCalculation;
+        }
+    }
+    return calculations;
+}
+
+/**
+ * Guardar (o quitar, con null) el cálculo de una pregunta en `form_data.calculations`
+ */
+export function setQuantityCalculation(
+    formData: Record<string, unknown> | null | undefined,
+    field: string,
+    calculation: QuantityCalculation | null
+): Record<string, QuantityCalculation> | undefined {
+    const { [field]: _previous, ...rest } = getQuantityCalculations(formData);
+    const calculations = calculation ? { ...rest, [field]: calculation } : rest;
+    return Object.keys(calculations).length > 0 ? calculations : undefined;
+}
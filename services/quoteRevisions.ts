@@ -0,0 +1,324 @@
+import { validateUUID } from './validation';
+import { cache, CacheKeys } from './cache';
+import { requestExecutor, RequestPolicies } from './requestExecutor';
+import { FINAL_LEAD_STATUSES, LEAD_STATUS_LABELS, resolveLeadStatus } from './leadLifecycle';
+import { AppError, DB_ERROR_CODES, assertValid, isMissingTableError, toAppError } from './errors';
+import { LeadsRepository } from './repositories/leads';
+import { QuoteRevisionsRepository, QuoteRevisionRow } from './repositories/quoteRevisions';
+import type { QuoteLineKind } from './pricingRules';
+import type { ServiceQuote } from './quotes';
+
+/**
+ * Quote Revisions - Historial de versiones de la cotización de un lead
+ * Cuando el profesional cambia el precio (p. ej. después de la visita) registra una revisión
+ * con renglones, motivo y autor. El cliente ve la diferencia contra la versión vigente y la
+ * aprueba o rechaza; `agreed_price` solo cambia al aprobarse (RPC respond_quote_revision).
+ */
+
+export type QuoteRevisionStatus = 'pending' | 'approved' | 'rejected' | 'superseded';
+
+export type QuoteRevisionItemKind = 'labor' | 'material' | 'fee' | 'discount';
+
+export interface QuoteRevisionItem {
+    id: string;
+    kind: QuoteRevisionItemKind;
+    label: string;
+    quantity: number;
+    unit_price: number;
+    /** quantity × unit_price (negativo para descuentos) */
+    amount: number;
+}
+
+export interface QuoteRevision {
+    id: string;
+    lead_id: string;
+    version: number;
+    author_id: string | null;
+    author_name: string | null;
+    reason: string | null;
+    items: QuoteRevisionItem[];
+    subtotal: number;
+    tax_rate: number;
+    total_with_tax: number;
+    status: QuoteRevisionStatus;
+    response_note: string | null;
+    responded_at: string | null;
+    created_at: string | null;
+}
+
+export type QuoteRevisionChangeType = 'added' | 'removed' | 'changed';
+
+export interface QuoteRevisionItemChange {
+    type: QuoteRevisionChangeType;
+    /** Renglón en la revisión nueva (o el eliminado) */
+    item: QuoteRevisionItem;
+    /** Renglón en la versión anterior (solo 'changed') */
+    previous?: QuoteRevisionItem;
+    /** Diferencia en pesos (sin IVA) */
+    delta: number;
+}
+
+export interface AmountChange {
+    before: number;
+    after: number;
+    delta: number;
+}
+
+export interface QuoteRevisionDiff {
+    changes: QuoteRevisionItemChange[];
+    labor: AmountChange;
+    materials: AmountChange;
+    subtotal: AmountChange;
+    total_with_tax: AmountChange;
+}
+
+export const QUOTE_REVISION_STATUS_LABELS: Record<QuoteRevisionStatus, string> = {
+    pending: 'Por aprobar',
+    approved: 'Aprobada',
+    rejected: 'Rechazada',
+    superseded: 'Reemplazada',
+};
+
+const REVISION_STATUSES: QuoteRevisionStatus[] = ['pending', 'approved', 'rejected', 'superseded'];
+const ITEM_KINDS: QuoteRevisionItemKind[] = ['labor', 'material', 'fee', 'discount'];
+
+function roundCents(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+function toNumber(value: unknown, fallback: number): number {
+    const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+    return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+/**
+ * Leer `lead_quote_revisions.line_items`; descarta renglones sin etiqueta
+ */
+export function parseRevisionItems(json: unknown): QuoteRevisionItem[] {
+    if (!Array.isArray(json)) return [];
+
+    return json
+        .filter((item): item is Record<string, any> =>
+            typeof item === 'object' && item !== null && typeof item.label === 'string' && item.label.trim().length > 0)
+        .map((item, index) => {
+            const kind: QuoteRevisionItemKind = ITEM_KINDS.includes(item.kind) ? item.kind : 'labor';
+            const quantity = toNumber(item.quantity, 1);
+            const unitPrice = Math.abs(toNumber(item.unit_price, toNumber(item.amount, 0) / quantity));
+            const amount = roundCents(quantity * unitPrice);
+            return {
+                id: typeof item.id === 'string' && item.id ? item.id : `${kind}:${index}`,
+                kind,
+                label: item.label.trim(),
+                quantity,
+                unit_price: unitPrice,
+                amount: kind === 'discount' ? -amount : amount,
+            };
+        });
+}
+
+export function toQuoteRevision(row: QuoteRevisionRow & { author?: { full_name: string | null } | null }): QuoteRevision {
+    return {
+        id: row.id,
+        lead_id: row.lead_id,
+        version: row.version,
+        author_id: row.author_id,
+        author_name: row.author?.full_name ?? null,
+        reason: row.reason,
+        items: parseRevisionItems(row.line_items),
+        subtotal: Number(row.subtotal),
+        tax_rate: Number(row.tax_rate),
+        total_with_tax: Number(row.total_with_tax),
+        status: REVISION_STATUSES.includes(row.status as QuoteRevisionStatus) ? row.status as QuoteRevisionStatus : 'pending',
+        response_note: row.response_note,
+        responded_at: row.responded_at,
+        created_at: row.created_at,
+    };
+}
+
+function sumByKind(items: QuoteRevisionItem[], kind: QuoteRevisionItemKind): number {
+    return roundCents(items.filter(item => item.kind === kind).reduce((sum, item) => sum + item.amount, 0));
+}
+
+function amountChange(before: number, after: number): AmountChange {
+    return { before, after, delta: roundCents(after - before) };
+}
+
+/**
+ * Diferencia entre la versión vigente y una revisión
+ * Sin versión anterior (primera revisión) todos los renglones cuentan como agregados.
+ * `previousTotal` permite comparar contra el precio acordado cuando no hay versión anterior.
+ */
+export function diffQuoteRevisions(
+    previous: QuoteRevision | null,
+    current: QuoteRevision,
+    previousTotal?: number | null
+): QuoteRevisionDiff {
+    const previousItems = previous?.items || [];
+    const changes: QuoteRevisionItemChange[] = [];
+
+    for (const item of current.items) {
+        const before = previousItems.find(candidate => candidate.id === item.id);
+        if (!before) {
+            changes.push({ type: 'added', item, delta: item.amount });
+        } else if (before.amount !== item.amount || before.quantity !== item.quantity || before.label !== item.label) {
+            changes.push({ type: 'changed', item, previous: before, delta: roundCents(item.amount - before.amount) });
+        }
+    }
+
+    for (const item of previousItems) {
+        if (!current.items.some(candidate => candidate.id === item.id)) {
+            changes.push({ type: 'removed', item, delta: -item.amount });
+        }
+    }
+
+    return {
+        changes,
+        labor: amountChange(sumByKind(previousItems, 'labor'), sumByKind(current.items, 'labor')),
+        materials: amountChange(sumByKind(previousItems, 'material'), sumByKind(current.items, 'material')),
+        subtotal: amountChange(previous?.subtotal ?? 0, current.subtotal),
+        total_with_tax: amountChange(previous?.total_with_tax ?? previousTotal ?? 0, current.total_with_tax),
+    };
+}
+
+/**
+ * Revisión que espera respuesta del cliente (solo puede haber una)
+ */
+export function getPendingRevision(revisions: QuoteRevision[]): QuoteRevision | null {
+    return revisions.find(revision => revision.status === 'pending') || null;
+}
+
+/**
+ * Versión vigente: la aprobada más reciente anterior a `beforeVersion` (si se indica)
+ */
+export function getBindingRevision(revisions: QuoteRevision[], beforeVersion?: number): QuoteRevision | null {
+    return revisions
+        .filter(revision => revision.status === 'approved' && (beforeVersion === undefined || revision.version < beforeVersion))
+        .sort((a, b) => b.version - a.version)[0] || null;
+}
+
+const REVISION_LINE_KINDS: Record<QuoteRevisionItemKind, QuoteLineKind> = {
+    labor: 'base',
+    material: 'addon',
+    fee: 'addon',
+    discount: 'discount',
+};
+
+/**
+ * Cotización equivalente a una revisión (para documentos y facturas)
+ */
+export function revisionToServiceQuote(revision: QuoteRevision): ServiceQuote {
+    return {
+        lead_id: revision.lead_id,
+        form_data: {},
+        base_price: revision.items
+            .filter(item => item.kind === 'labor')
+            .reduce((sum, item) => sum + item.amount, 0),
+        immediate_service_fee: 0,
+        additional_services: [],
+        discounts: [],
+        breakdown: revision.items.map(item => ({
+            id: item.id,
+            kind: REVISION_LINE_KINDS[item.kind],
+            label: item.label,
+            amount: item.amount,
+            quantity: item.quantity,
+            unit_price: item.unit_price,
+        })),
+        subtotal: revision.subtotal,
+        total: revision.subtotal,
+        total_with_tax: revision.total_with_tax,
+        tax_rate: revision.tax_rate,
+    };
+}
+
+export class QuoteRevisionsService {
+    /**
+     * Historial de revisiones de un lead (más reciente primero)
+     */
+    static async getRevisions(leadId: string, signal?: AbortSignal): Promise<QuoteRevision[]> {
+        assertValid(validateUUID(leadId));
+
+        const { data, error } = await requestExecutor.execute(
+            requestSignal => QuoteRevisionsRepository.listByLead(leadId, requestSignal),
+            {
+                key: CacheKeys.quoteRevisions(leadId),
+                signal,
+                policy: RequestPolicies.read,
+                timeoutMessage: 'Timeout al obtener revisiones de la cotización',
+            }
+        );
+
+        if (error) {
+            // Migración pendiente: el lead se muestra sin historial
+            if (isMissingTableError(error)) {
+                console.warn('[QuoteRevisionsService] lead_quote_revisions table not found, run SCHEMA_REVISIONES_COTIZACION.sql');
+                return [];
+            }
+            throw toAppError(error, 'No se pudo obtener el historial de la cotización');
+        }
+
+        return (data || []).map(toQuoteRevision);
+    }
+
+    /**
+     * Aprobar (el nuevo total se vuelve el precio acordado) o rechazar una revisión
+     */
+    static async respondToRevision(params: {
+        leadId: string;
+        revisionId: string;
+        clientId: string;
+        approved: boolean;
+        note?: string;
+    }): Promise<void> {
+        const { leadId, revisionId, clientId, approved, note } = params;
+        assertValid(validateUUID(leadId));
+        assertValid(validateUUID(revisionId));
+
+        const { data: lead, error: fetchError } = await LeadsRepository.findOwnership(leadId);
+        if (fetchError || !lead) {
+            throw toAppError(fetchError, 'Solicitud no encontrada');
+        }
+        if (lead.cliente_id !== clientId) {
+            throw new AppError('permission', {
+                code: 'quote_revision.not_owner',
+                userMessage: 'No tienes permisos para responder cambios de precio de esta solicitud',
+            });
+        }
+
+        const status = resolveLeadStatus(lead);
+        if (FINAL_LEAD_STATUSES.includes(status)) {
+            throw new AppError('transition', {
+                code: 'quote_revision.lead_closed',
+                userMessage: `La solicitud ya está ${LEAD_STATUS_LABELS[status].toLowerCase()}; no se puede cambiar el precio`,
+            });
+        }
+
+        const { error } = await requestExecutor.execute(
+            signal => QuoteRevisionsRepository.respond({
+                p_revision_id: revisionId,
+                p_approved: approved,
+                p_note: note?.trim() || null,
+            }, signal),
+            { policy: RequestPolicies.write, timeoutMessage: 'Timeout al responder el cambio de precio' }
+        );
+
+        if (error) {
+            // Ya respondida o el profesional envió una versión más reciente
+            if (error.code === DB_ERROR_CODES.CHECK_VIOLATION) {
+                throw new AppError('conflict', {
+                    code: 'quote_revision.not_pending',
+                    userMessage: 'Esta versión de la cotización ya no está pendiente. Actualiza la solicitud para ver la más reciente.',
+                    sourceCode: error.code,
+                    cause: error,
+                });
+            }
+            throw toAppError(error, 'No se pudo responder el cambio de precio');
+        }
+
+        // respond_quote_revision registra el price_changed con la versión y la respuesta
+
+        cache.invalidate(CacheKeys.lead(leadId));
+        cache.invalidate(CacheKeys.quoteRevisions(leadId));
+        cache.invalidatePattern(`^${CacheKeys.leads(clientId)}`);
+    }
+}
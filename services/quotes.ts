@@ -1,14 +1,33 @@
-import { supabase } from '@/lib/supabase';
-import { validateUUID, validateCoordinates, validatePrice, withTimeout } from './validation';
+import { validateUUID, validateCoordinates, validatePrice } from './validation';
 import { cache, CacheKeys } from './cache';
+import { requestExecutor, RequestPolicies } from './requestExecutor';
+import { assertTransition, toLeadStatusColumns } from './leadLifecycle';
+import { AppError, DB_ERROR_CODES, assertValid, isDuplicateError, toAppError } from './errors';
+import { LeadsRepository, LeadInsert, LeadUpdate } from './repositories/leads';
+import { ProfilesRepository, ProfileRow } from './repositories/profiles';
+import { ServiceCatalogRepository, ServiceCatalogRow } from './repositories/serviceCatalog';
+import { collectIntakePhotos, formatIntakeSummary, getIntakeFormSchema, summarizeIntakeAnswers } from './intakeForms';
+import { applyDiscounts, DiscountService } from './discounts';
+import { PricingRuleSet, QuoteLineItem, evaluatePricingRules, resolvePricingRules } from './pricingRules';
 
 /**
  * Service Quote System - Alineado con TulBoxPros
  * Sistema de cotizaciones dinámicas similar a AORA
  */
 
+/**
+ * Respuestas del formulario del servicio (ver intakeForms) más datos de la solicitud
+ */
 export interface ServiceQuoteFormData {
-    [key: string]: any; // Respuestas del formulario dinámico
+    service_type?: string;
+    description?: string;
+    problem_description?: string;
+    additionalInfo?: string;
+    /** Fecha elegida (YYYY-MM-DD) */
+    selected_date?: string;
+    lat?: string;
+    lng?: string;
+    [key: string]: any; // Respuestas del formulario dinámico (id de pregunta → valor)
 }
 
 export interface ServiceQuote {
@@ -21,6 +40,9 @@ export interface ServiceQuote {
     immediate_service_fee: number;
     additional_services: AdditionalService[];
     discounts: Discount[];
+    promo_code?: string;
+    /** Desglose por renglón (sin IVA) generado por el motor de reglas */
+    breakdown?: QuoteLineItem[];
     subtotal: number;
     total: number;
     total_with_tax: number;
@@ -29,6 +51,17 @@ export interface ServiceQuote {
     updated_at?: string;
 }
 
+export interface CalculatePriceOptions {
+    /** Reglas del servicio (`service_catalog.pricing_rules`); sin reglas se usan las por defecto */
+    rules?: PricingRuleSet;
+    /** Unidad del servicio para el cobro por unidad */
+    unit?: string;
+    /** Descuentos validados por el servidor (DiscountService.getQuoteDiscounts) */
+    discounts?: Discount[];
+    /** Código promocional que originó el descuento 'promo' */
+    promoCode?: string;
+}
+
 export interface AdditionalService {
     id: string;
     name: string;
@@ -37,13 +70,26 @@ export interface AdditionalService {
     selected: boolean;
 }
 
+export type DiscountSource = 'promo' | 'first_service' | 'referral' | 'loyalty';
+
 export interface Discount {
     id: string;
     name: string;
+    /** Pesos si `type` es 'fixed'; porcentaje (0-100) si es 'percentage' */
     amount: number;
     type: 'fixed' | 'percentage';
+    source?: DiscountSource;
+    /** Tope en pesos para descuentos porcentuales */
+    max_amount?: number;
+    /** Monto descontado en la cotización (lo calcula calculatePrice) */
+    applied_amount?: number;
 }
 
+export type ServiceMaterialStatus = 'pending' | 'approved' | 'rejected' | 'purchased';
+
+/**
+ * Material propuesto por el profesional (tabla `service_materials`, ver services/materials.ts)
+ */
 export interface ServiceMaterial {
     id?: string;
     lead_id?: string;
@@ -53,49 +99,57 @@ export interface ServiceMaterial {
     unit: string;
     unit_price: number;
     total_price: number;
+    /** Cargo del profesional por comprar el material */
     purchase_service_fee: number;
-    status?: 'pending' | 'approved' | 'purchased';
+    status?: ServiceMaterialStatus;
+    /** Respuesta del cliente (sin definir mientras está pendiente) */
     client_approved?: boolean;
+    responded_at?: string;
+    purchased_at?: string;
+    /** Tickets/facturas de compra */
+    receipt_urls?: string[];
+    /** Fotos del material comprado */
+    photo_urls?: string[];
+    notes?: string;
+    created_at?: string;
 }
 
 export class QuoteService {
     /**
      * Calcular precio basado en respuestas del formulario
+     * Evalúa las reglas del servicio (`pricing_rules`) o las reglas por defecto
      */
     static calculatePrice(
         basePrice: number,
         formData: ServiceQuoteFormData,
-        immediateService: boolean = false
+        immediateService: boolean = false,
+        options: CalculatePriceOptions = {}
     ): ServiceQuote {
-        const immediateFee = immediateService ? 100 : 0;
-        const additionalServices: AdditionalService[] = [];
-        const discounts: Discount[] = [];
-
-        // Calcular servicios adicionales basados en respuestas
-        // Ejemplo: si necesita desinstalar A/C actual, agregar $30
-        if (formData.needs_uninstall === true) {
-            additionalServices.push({
-                id: 'uninstall',
-                name: 'Desinstalación de equipo actual',
-                price: 30,
+        const rules = resolvePricingRules(options.rules);
+        const evaluation = evaluatePricingRules(rules, {
+            basePrice,
+            formData,
+            immediateService,
+            unit: options.unit,
+        });
+
+        const immediateFee = evaluation.lines
+            .filter(line => line.kind === 'urgency')
+            .reduce((sum, line) => sum + line.amount, 0);
+
+        // Adicionales, unidades extra y recargos por zona se muestran como servicios adicionales
+        const additionalServices: AdditionalService[] = evaluation.lines
+            .filter(line => line.kind === 'addon' || line.kind === 'per_unit' || line.kind === 'zone')
+            .map(line => ({
+                id: line.id,
+                name: line.label,
+                price: line.amount,
                 selected: true,
-            });
-        }
-
-        // Calcular subtotal
-        const additionalTotal = additionalServices
-            .filter(s => s.selected)
-            .reduce((sum, s) => sum + s.price, 0);
-
-        const subtotal = basePrice + immediateFee + additionalTotal;
+            }));
 
-        // Descuentos eliminados - precio transparente sin descuentos promocionales
-        // Los descuentos pueden agregarse en el futuro mediante lógica de negocio específica
-        // (ej: descuentos por lealtad, referidos, etc.)
-
-        const total = subtotal;
-        const taxRate = 0.16; // IVA 16%
-        const totalWithTax = total * (1 + taxRate);
+        // Descuentos sobre el total ya ajustado a mínimos y topes
+        const { discounts, lines: discountLines, discountTotal } = applyDiscounts(evaluation.total, options.discounts || []);
+        const total = evaluation.total - discountTotal;
 
         return {
             form_data: formData,
@@ -103,13 +157,49 @@ export class QuoteService {
             immediate_service_fee: immediateFee,
             additional_services: additionalServices,
             discounts,
-            subtotal,
+            promo_code: discounts.some(discount => discount.source === 'promo') ? options.promoCode : undefined,
+            breakdown: [...evaluation.lines, ...discountLines],
+            subtotal: evaluation.subtotal,
             total,
-            total_with_tax: totalWithTax,
-            tax_rate: taxRate,
+            total_with_tax: total * (1 + evaluation.tax_rate),
+            tax_rate: evaluation.tax_rate,
+        };
+    }
+
+    /**
+     * Recalcular una cotización con las mismas respuestas (p. ej. al obtener ubicación o descuentos)
+     */
+    static reprice(quote: ServiceQuote, options: CalculatePriceOptions = {}): ServiceQuote {
+        return {
+            ...quote,
+            ...this.calculatePrice(quote.base_price, quote.form_data, quote.immediate_service_fee > 0, {
+                discounts: quote.discounts,
+                promoCode: quote.promo_code,
+                ...options,
+            }),
         };
     }
 
+    /**
+     * Desglose de una cotización; reconstruye los renglones si la cotización es anterior
+     * al motor de reglas (sin `breakdown`)
+     */
+    static getBreakdown(quote: ServiceQuote): QuoteLineItem[] {
+        if (quote.breakdown) return quote.breakdown;
+
+        const lines: QuoteLineItem[] = [{ id: 'base', kind: 'base', label: 'Precio Base', amount: quote.base_price }];
+        if (quote.immediate_service_fee > 0) {
+            lines.push({ id: 'urgency', kind: 'urgency', label: 'Servicio Inmediato', amount: quote.immediate_service_fee });
+        }
+        for (const service of quote.additional_services.filter(s => s.selected)) {
+            lines.push({ id: service.id, kind: 'addon', label: service.name, amount: service.price });
+        }
+        for (const discount of quote.discounts.filter(d => d.applied_amount)) {
+            lines.push({ id: `discount:${discount.id}`, kind: 'discount', label: discount.name, amount: -discount.applied_amount! });
+        }
+        return lines;
+    }
+
     /**
      * Crear cotización y lead
      */
@@ -159,46 +249,28 @@ export class QuoteService {
             });
             
             // ✅ Validar IDs de entrada
-            const clientIdValidation = validateUUID(clientId);
-            if (!clientIdValidation.valid) {
-                throw new Error(clientIdValidation.error?.message || 'ID de cliente inválido');
-            }
-
-            const serviceIdValidation = validateUUID(serviceId);
-            if (!serviceIdValidation.valid) {
-                throw new Error(serviceIdValidation.error?.message || 'ID de servicio inválido');
-            }
+            assertValid(validateUUID(clientId));
+            assertValid(validateUUID(serviceId));
 
             // ✅ Validar precio
-            const priceValidation = validatePrice(quote.total_with_tax ?? quote.base_price ?? 0);
-            if (!priceValidation.valid) {
-                throw new Error(priceValidation.error?.message || 'Precio inválido');
-            }
+            assertValid(validatePrice(quote.total_with_tax ?? quote.base_price ?? 0));
 
             // ✅ Validar coordenadas si están presentes
             if (location) {
-                const coordValidation = validateCoordinates(location.lat, location.lng);
-                if (!coordValidation.valid) {
-                    throw new Error(coordValidation.error?.message || 'Coordenadas inválidas');
-                }
+                assertValid(validateCoordinates(location.lat, location.lng));
             }
 
             // Obtener información del servicio (con cache)
             const serviceCacheKey = CacheKeys.services(serviceId);
-            const cachedService = cache.get<any>(serviceCacheKey);
+            const cachedService = cache.get<ServiceCatalogRow>(serviceCacheKey);
             
             let serviceData = cachedService;
             let serviceError = null;
 
             if (!serviceData) {
-                const result = await withTimeout(
-                    supabase
-                        .from('service_catalog')
-                        .select('*')
-                        .eq('id', serviceId)
-                        .single(),
-                    10000, // 10 segundos timeout
-                    'Timeout al obtener información del servicio'
+                const result = await requestExecutor.execute(
+                    signal => ServiceCatalogRepository.findById(serviceId, signal),
+                    { policy: RequestPolicies.read, timeoutMessage: 'Timeout al obtener información del servicio' }
                 );
                 serviceData = result.data;
                 serviceError = result.error;
@@ -214,7 +286,9 @@ export class QuoteService {
                     serviceId,
                     error: serviceError,
                 });
-                throw new Error('Servicio no encontrado');
+                throw serviceError && serviceError.code !== DB_ERROR_CODES.NO_ROWS
+                    ? toAppError(serviceError)
+                    : new AppError('not_found', { code: 'quote.service_not_found', userMessage: 'Servicio no encontrado' });
             }
 
             console.log('[QuoteService] ✅ Service found:', {
@@ -225,20 +299,15 @@ export class QuoteService {
 
             // Obtener información del cliente (nombre y WhatsApp) - con cache
             const profileCacheKey = CacheKeys.profile(clientId);
-            const cachedProfile = cache.get<any>(profileCacheKey);
+            const cachedProfile = cache.get<Pick<ProfileRow, 'full_name' | 'whatsapp' | 'phone'>>(profileCacheKey);
             
             let clientProfile = cachedProfile;
             let profileError = null;
 
             if (!clientProfile) {
-                const result = await withTimeout(
-                    supabase
-                        .from('profiles')
-                        .select('full_name, whatsapp, phone')
-                        .eq('user_id', clientId)
-                        .single(),
-                    10000, // 10 segundos timeout
-                    'Timeout al obtener perfil del cliente'
+                const result = await requestExecutor.execute(
+                    signal => ProfilesRepository.findContact(clientId, signal),
+                    { policy: RequestPolicies.read, timeoutMessage: 'Timeout al obtener perfil del cliente' }
                 );
                 clientProfile = result.data;
                 profileError = result.error;
@@ -281,6 +350,14 @@ export class QuoteService {
                 console.log('[QuoteService] Using form_data JSON as description fallback');
             }
             
+            // Resumen de las respuestas del formulario para el profesional
+            const intakeSchema = getIntakeFormSchema(serviceData);
+            const intakeSummary = formatIntakeSummary(summarizeIntakeAnswers(intakeSchema, quote.form_data));
+            const intakePhotos = collectIntakePhotos(intakeSchema, quote.form_data);
+            if (intakeSummary) {
+                problemDescription = `${problemDescription.trim()}\n\n${intakeSummary}`;
+            }
+
             console.log('[QuoteService] Final problem description:', {
                 length: problemDescription.length,
                 preview: problemDescription.substring(0, 100),
@@ -328,7 +405,7 @@ export class QuoteService {
             
             // Crear lead con toda la información
             // Asegurar que todos los valores sean válidos (no undefined)
-            const leadInsertData: any = {
+            const leadInsertData: LeadInsert = {
                 cliente_id: clientId,
                 nombre_cliente: clientProfile?.full_name || null,
                 whatsapp: clientProfile?.whatsapp || clientProfile?.phone || null,
@@ -348,16 +425,20 @@ export class QuoteService {
                 ai_suggested_price_max: quote.total_with_tax ?? quote.base_price ?? 0,
                 disciplina_ia: serviceData.discipline || null,
             };
+
+            if (intakePhotos.length > 0) {
+                leadInsertData.photos_urls = intakePhotos;
+            }
             
             // Validar campos críticos antes de insertar
             if (!leadInsertData.cliente_id) {
-                throw new Error('ID de cliente es requerido');
+                throw new AppError('validation', { code: 'quote.missing_client', userMessage: 'ID de cliente es requerido' });
             }
             if (!leadInsertData.servicio_solicitado) {
-                throw new Error('Nombre del servicio es requerido');
+                throw new AppError('validation', { code: 'quote.missing_service', userMessage: 'Nombre del servicio es requerido' });
             }
             if (!leadInsertData.descripcion_proyecto || leadInsertData.descripcion_proyecto.trim().length === 0) {
-                throw new Error('Descripción del proyecto es requerida');
+                throw new AppError('validation', { code: 'quote.missing_description', userMessage: 'Descripción del proyecto es requerida' });
             }
             
             // Agregar campos de cita si están disponibles
@@ -395,17 +476,25 @@ export class QuoteService {
                 hasAppointmentTime: 'appointment_time' in leadInsertData,
             });
             
+            // Los descuentos se validan de nuevo en el servidor: pudieron vencer desde la cotización
+            const appliedDiscounts = (quote.discounts || []).filter(discount => discount.applied_amount);
+            if (appliedDiscounts.length > 0) {
+                await DiscountService.assertQuoteDiscounts({
+                    clientId,
+                    discipline: serviceData.discipline,
+                    subtotal: quote.subtotal,
+                    promoCode: quote.promo_code,
+                    discounts: appliedDiscounts,
+                });
+            }
+
             // Invalidar cache de leads del cliente antes de insertar
             cache.invalidatePattern(`leads:${clientId}*`);
 
-            const { data: leadData, error: leadError } = await withTimeout(
-                supabase
-                    .from('leads')
-                    .insert(leadInsertData)
-                    .select()
-                    .single(),
-                15000, // 15 segundos timeout para inserción
-                'Timeout al crear lead'
+            // Sin reintentos: el INSERT no es idempotente
+            const { data: leadData, error: leadError } = await requestExecutor.execute(
+                signal => LeadsRepository.insert(leadInsertData, signal),
+                { policy: RequestPolicies.write, timeoutMessage: 'Timeout al crear lead' }
             );
 
             if (leadError) {
@@ -420,12 +509,12 @@ export class QuoteService {
                     },
                 });
                 
-                // Mejorar el mensaje de error para el usuario
-                const enhancedError = new Error(leadError.message);
-                (enhancedError as any).code = leadError.code;
-                (enhancedError as any).details = leadError.details;
-                (enhancedError as any).hint = leadError.hint;
-                throw enhancedError;
+                throw toAppError(
+                    leadError,
+                    isDuplicateError(leadError)
+                        ? 'Ya existe una solicitud similar. Por favor verifica tus solicitudes.'
+                        : 'No se pudo crear la solicitud'
+                );
             }
             
             console.log('[QuoteService] ✅ Lead created successfully:', {
@@ -434,14 +523,18 @@ export class QuoteService {
                 servicio: leadData.servicio_solicitado,
             });
 
-            // Guardar cotización en JSONB (o crear tabla service_quotes si existe)
-            const { error: updateError } = await supabase
-                .from('leads')
-                .update({
-                    // Guardar datos de cotización en un campo JSONB si existe
-                    // O crear tabla service_quotes separada
-                })
-                .eq('id', leadData.id);
+            if (appliedDiscounts.length > 0) {
+                try {
+                    await DiscountService.redeemQuoteDiscounts(leadData.id, clientId, appliedDiscounts, quote.promo_code);
+                } catch (redeemError) {
+                    // El precio del lead ya incluye el descuento: sin canje (código agotado) no se conserva
+                    const { error: cleanupError } = await LeadsRepository.deleteForClient(leadData.id, clientId);
+                    if (cleanupError) {
+                        console.warn('[QuoteService] ⚠️ Lead without redeemed discounts not removed:', leadData.id, cleanupError);
+                    }
+                    throw toAppError(redeemError, 'El descuento ya no está disponible. Vuelve a cotizar tu servicio.');
+                }
+            }
 
             return {
                 lead: leadData,
@@ -458,11 +551,7 @@ export class QuoteService {
      */
     static async getClientQuotes(clientId: string) {
         try {
-            const { data, error } = await supabase
-                .from('leads')
-                .select('*')
-                .eq('cliente_id', clientId)
-                .order('created_at', { ascending: false });
+            const { data, error } = await LeadsRepository.listByClient(clientId);
 
             if (error) throw error;
             return data || [];
@@ -474,29 +563,54 @@ export class QuoteService {
 
     /**
      * Aprobar o rechazar cotización
+     * Aceptar escribe status y `estado` legacy juntos; rechazar cancela la solicitud con cancel_lead
      */
     static async respondToQuote(
         leadId: string,
+        clientId: string,
         accepted: boolean,
         professionalId?: string
     ) {
         try {
-            const updateData: any = {
-                status: accepted ? 'accepted' : 'rejected',
+            // ✅ Validar transición antes de escribir (p. ej. no aceptar un lead cancelado)
+            const { data: current, error: fetchError } = await LeadsRepository.findOwnership(leadId);
+
+            if (fetchError || !current) {
+                throw new Error('Lead no encontrado');
+            }
+            if (current.cliente_id !== clientId) {
+                throw new Error('No tienes permisos para responder esta cotización');
+            }
+            assertTransition(current, accepted ? 'accepted' : 'cancelled');
+
+            if (!accepted) {
+                // Rechazar es cancelar: cancel_lead aplica la política (cargo si ya había
+                // profesional) y registra el evento en el historial
+                const { error: cancelError } = await LeadsRepository.cancel({
+                    p_lead_id: leadId,
+                    p_reason_code: null,
+                    p_reason: 'Cotización rechazada',
+                });
+                if (cancelError) throw cancelError;
+
+                const { data: cancelled, error: refetchError } = await LeadsRepository.findById(leadId);
+                if (refetchError) throw refetchError;
+                return cancelled;
+            }
+
+            const updateData: LeadUpdate = {
+                ...toLeadStatusColumns('accepted'),
+                updated_at: new Date().toISOString(),
             };
 
-            if (accepted && professionalId) {
+            if (professionalId) {
                 updateData.professional_id = professionalId;
             }
 
-            const { data, error } = await supabase
-                .from('leads')
-                .update(updateData)
-                .eq('id', leadId)
-                .select()
-                .single();
+            const { data, error } = await LeadsRepository.updateForClient(leadId, clientId, updateData);
 
             if (error) throw error;
+
             return data;
         } catch (error) {
             console.error('[QuoteService] Error responding to quote:', error);
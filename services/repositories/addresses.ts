@@ -0,0 +1,71 @@
+import { supabase } from '@/lib/supabase';
+import type { Tables, TablesInsert, TablesUpdate } from '@/lib/database.types';
+
+/**
+ * Addresses Repository - Acceso tipado a la tabla `addresses` (SCHEMA_ADDRESSES.sql)
+ */
+
+export type AddressRow = Tables<'addresses'>;
+export type AddressInsert = TablesInsert<'addresses'>;
+export type AddressUpdate = TablesUpdate<'addresses'>;
+
+export class AddressesRepository {
+    /**
+     * Direcciones del usuario, la predeterminada primero
+     */
+    static listByUser(userId: string) {
+        return supabase
+            .from('addresses')
+            .select('*')
+            .eq('user_id', userId)
+            .order('is_default', { ascending: false })
+            .order('created_at', { ascending: false });
+    }
+
+    static findById(addressId: string) {
+        return supabase
+            .from('addresses')
+            .select('*')
+            .eq('id', addressId)
+            .single();
+    }
+
+    static insert(address: AddressInsert) {
+        return supabase
+            .from('addresses')
+            .insert(address)
+            .select()
+            .single();
+    }
+
+    static update(addressId: string, changes: AddressUpdate) {
+        return supabase
+            .from('addresses')
+            .update(changes)
+            .eq('id', addressId)
+            .select()
+            .single();
+    }
+
+    /**
+     * Quitar la marca de predeterminada a las direcciones del usuario (opcionalmente excepto una)
+     */
+    static clearDefault(userId: string, exceptAddressId?: string) {
+        let query = supabase
+            .from('addresses')
+            .update({ is_default: false })
+            .eq('user_id', userId);
+
+        if (exceptAddressId) {
+            query = query.neq('id', exceptAddressId);
+        }
+        return query;
+    }
+
+    static delete(addressId: string) {
+        return supabase
+            .from('addresses')
+            .delete()
+            .eq('id', addressId);
+    }
+}
@@ -0,0 +1,19 @@
+import { supabase } from '@/lib/supabase';
+import type { Tables } from '@/lib/database.types';
+
+/**
+ * Cancellation Policies Repository - Reglas de cancelación configurables por soporte
+ * Fila 'default' más una opcional por disciplina (ver SCHEMA_CANCELACIONES.sql)
+ */
+
+export type CancellationPolicyRow = Tables<'cancellation_policies'>;
+
+export class CancellationPoliciesRepository {
+    static listByKeys(keys: string[], signal?: AbortSignal) {
+        const query = supabase
+            .from('cancellation_policies')
+            .select('*')
+            .in('key', keys);
+        return signal ? query.abortSignal(signal) : query;
+    }
+}
@@ -0,0 +1,21 @@
+import { supabase } from '@/lib/supabase';
+import type { Functions } from '@/lib/database.types';
+
+/**
+ * Discounts Repository - RPCs de descuentos (promociones, primer servicio, referidos y lealtad)
+ * La elegibilidad se calcula en el servidor (ver SCHEMA_DESCUENTOS.sql)
+ */
+
+export type QuoteDiscountRow = Functions<'get_quote_discounts'>['Returns'][number];
+
+export class DiscountsRepository {
+    static listForQuote(args: Functions<'get_quote_discounts'>['Args'], signal?: AbortSignal) {
+        const query = supabase.rpc('get_quote_discounts', args);
+        return signal ? query.abortSignal(signal) : query;
+    }
+
+    static redeem(args: Functions<'redeem_quote_discounts'>['Args'], signal?: AbortSignal) {
+        const query = supabase.rpc('redeem_quote_discounts', args);
+        return signal ? query.abortSignal(signal) : query;
+    }
+}
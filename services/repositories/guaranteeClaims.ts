@@ -0,0 +1,38 @@
+import { supabase } from '@/lib/supabase';
+import type { Tables, Functions } from '@/lib/database.types';
+
+/**
+ * Guarantee Claims Repository - Reclamos de garantía de servicios completados
+ * El cliente solo crea reclamos por RPC (valida la ventana de garantía); soporte los resuelve
+ * (ver SCHEMA_GARANTIAS.sql)
+ */
+
+export type GuaranteeClaimRow = Tables<'guarantee_claims'>;
+
+export class GuaranteeClaimsRepository {
+    /**
+     * Reclamos de un servicio (más reciente primero)
+     */
+    static listByLead(leadId: string, signal?: AbortSignal) {
+        const query = supabase
+            .from('guarantee_claims')
+            .select('*')
+            .eq('lead_id', leadId)
+            .order('created_at', { ascending: false });
+        return signal ? query.abortSignal(signal) : query;
+    }
+
+    static listByClient(clientId: string, signal?: AbortSignal) {
+        const query = supabase
+            .from('guarantee_claims')
+            .select('*')
+            .eq('client_id', clientId)
+            .order('created_at', { ascending: false });
+        return signal ? query.abortSignal(signal) : query;
+    }
+
+    static submit(args: Functions<'submit_guarantee_claim'>['Args'], signal?: AbortSignal) {
+        const query = supabase.rpc('submit_guarantee_claim', args);
+        return signal ? query.abortSignal(signal) : query;
+    }
+}
@@ -0,0 +1,45 @@
+import { supabase } from '@/lib/supabase';
+import type { Tables, TablesInsert } from '@/lib/database.types';
+
+/**
+ * Invoices Repository - Datos fiscales y solicitudes de factura (SCHEMA_FACTURACION.sql)
+ */
+
+export type FiscalProfileRow = Tables<'fiscal_profiles'>;
+export type FiscalProfileInsert = TablesInsert<'fiscal_profiles'>;
+export type InvoiceRequestRow = Tables<'invoice_requests'>;
+export type InvoiceRequestInsert = TablesInsert<'invoice_requests'>;
+
+export class InvoicesRepository {
+    static findFiscalProfile(userId: string, signal?: AbortSignal) {
+        const query = supabase
+            .from('fiscal_profiles')
+            .select('*')
+            .eq('user_id', userId);
+        return (signal ? query.abortSignal(signal) : query).maybeSingle();
+    }
+
+    static upsertFiscalProfile(profile: FiscalProfileInsert, signal?: AbortSignal) {
+        const query = supabase
+            .from('fiscal_profiles')
+            .upsert(profile, { onConflict: 'user_id' })
+            .select();
+        return (signal ? query.abortSignal(signal) : query).single();
+    }
+
+    static findByLead(leadId: string, signal?: AbortSignal) {
+        const query = supabase
+            .from('invoice_requests')
+            .select('*')
+            .eq('lead_id', leadId);
+        return (signal ? query.abortSignal(signal) : query).maybeSingle();
+    }
+
+    static insertRequest(request: InvoiceRequestInsert, signal?: AbortSignal) {
+        const query = supabase
+            .from('invoice_requests')
+            .insert(request)
+            .select();
+        return (signal ? query.abortSignal(signal) : query).single();
+    }
+}
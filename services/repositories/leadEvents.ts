@@ -0,0 +1,31 @@
+import { supabase } from '@/lib/supabase';
+import type { Tables, TablesInsert } from '@/lib/database.types';
+
+/**
+ * Lead Events Repository - Historial de solo-inserción de un lead
+ * Sin update/delete: la tabla no los permite (ver SCHEMA_HISTORIAL_LEADS.sql)
+ */
+
+export type LeadEventRow = Tables<'lead_events'>;
+export type LeadEventInsert = TablesInsert<'lead_events'>;
+
+export class LeadEventsRepository {
+    /**
+     * Eventos de un lead en orden cronológico
+     */
+    static listByLead(leadId: string, signal?: AbortSignal) {
+        const query = supabase
+            .from('lead_events')
+            .select('*')
+            .eq('lead_id', leadId)
+            .order('created_at', { ascending: true });
+        return signal ? query.abortSignal(signal) : query;
+    }
+
+    static insert(event: LeadEventInsert, signal?: AbortSignal) {
+        const query = supabase
+            .from('lead_events')
+            .insert(event);
+        return signal ? query.abortSignal(signal) : query;
+    }
+}
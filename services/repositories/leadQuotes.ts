@@ -0,0 +1,37 @@
+import { supabase } from '@/lib/supabase';
+import type { Tables, Functions } from '@/lib/database.types';
+import type { ProfileRow } from './profiles';
+
+/**
+ * Lead Quotes Repository - Cotizaciones que los profesionales envían sobre un lead
+ * Las escrituras del cliente pasan por la RPC accept_lead_quote (ver SCHEMA_COTIZACIONES_PROFESIONALES.sql)
+ */
+
+export type LeadQuoteRow = Tables<'lead_quotes'>;
+
+/** Datos del profesional para comparar cotizaciones (calificación y distancia) */
+export type QuoteProfessional = Pick<ProfileRow,
+    'user_id' | 'full_name' | 'avatar_url' | 'profession' | 'calificacion_promedio' | 'ubicacion_lat' | 'ubicacion_lng'
+>;
+
+export class LeadQuotesRepository {
+    /**
+     * Cotizaciones de un lead con el perfil del profesional (join por professional_id)
+     */
+    static listByLead(leadId: string, signal?: AbortSignal) {
+        const query = supabase
+            .from('lead_quotes')
+            .select(`
+                *,
+                professional:profiles!professional_id(user_id, full_name, avatar_url, profession, calificacion_promedio, ubicacion_lat, ubicacion_lng)
+            `)
+            .eq('lead_id', leadId)
+            .order('created_at', { ascending: true });
+        return signal ? query.abortSignal(signal) : query;
+    }
+
+    static accept(args: Functions<'accept_lead_quote'>['Args'], signal?: AbortSignal) {
+        const query = supabase.rpc('accept_lead_quote', args);
+        return signal ? query.abortSignal(signal) : query;
+    }
+}
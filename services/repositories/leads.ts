@@ -0,0 +1,213 @@
+import { supabase } from '@/lib/supabase';
+import type { Tables, TablesInsert, TablesUpdate, Functions } from '@/lib/database.types';
+
+/**
+ * Leads Repository - Acceso tipado a la tabla `leads`
+ * Las consultas devuelven la respuesta de Supabase ({ data, error }); el manejo de errores
+ * y la lógica de negocio quedan en LeadsService.
+ */
+
+export type LeadRow = Tables<'leads'>;
+export type LeadInsert = TablesInsert<'leads'>;
+export type LeadUpdate = TablesUpdate<'leads'>;
+
+/** Columnas necesarias para validar permisos y transiciones de estado */
+const LEAD_OWNERSHIP_COLUMNS = 'cliente_id, professional_id, profesional_asignado_id, status, estado, appointment_status';
+
+/** Columnas de un lead en la bandeja de mensajes */
+const LEAD_INBOX_COLUMNS = `
+    id,
+    servicio_solicitado,
+    servicio,
+    status,
+    estado,
+    appointment_status,
+    professional_id,
+    profesional_asignado_id,
+    updated_at
+`;
+
+/** Columnas de un lead agendado (calendario) */
+const LEAD_SCHEDULE_COLUMNS = `
+    id,
+    servicio_solicitado,
+    servicio,
+    descripcion_proyecto,
+    ubicacion_direccion,
+    agreed_price,
+    price,
+    appointment_date,
+    appointment_time,
+    appointment_status,
+    professional_id,
+    profesional_asignado_id,
+    status,
+    estado,
+    updated_at
+`;
+
+export type LeadScheduleRow = Pick<LeadRow,
+    | 'id' | 'servicio_solicitado' | 'servicio' | 'descripcion_proyecto' | 'ubicacion_direccion'
+    | 'agreed_price' | 'price' | 'appointment_date' | 'appointment_time' | 'appointment_status'
+    | 'professional_id' | 'profesional_asignado_id' | 'status' | 'estado' | 'updated_at'
+>;
+
+/**
+ * Profesional asignado a un lead
+ * `professional_id` es el campo moderno; `profesional_asignado_id` lo escribe TulBoxPros (legacy)
+ */
+export function getAssignedProfessionalId(
+    lead: Partial<Pick<LeadRow, 'professional_id' | 'profesional_asignado_id'>>
+): string | null {
+    return lead.professional_id || lead.profesional_asignado_id || null;
+}
+
+/**
+ * Los métodos que terminan en `.single()` reciben la señal aparte (ver requestExecutor),
+ * porque `.abortSignal()` ya no está disponible después de `.single()`
+ */
+export class LeadsRepository {
+    static findById(leadId: string, signal?: AbortSignal) {
+        const query = supabase
+            .from('leads')
+            .select('*')
+            .eq('id', leadId);
+        return (signal ? query.abortSignal(signal) : query).single();
+    }
+
+    static findOwnership(leadId: string) {
+        return supabase
+            .from('leads')
+            .select(LEAD_OWNERSHIP_COLUMNS)
+            .eq('id', leadId)
+            .single();
+    }
+
+    /**
+     * Leads del cliente sin cancelados (ni `estado` legacy ni `status` moderno)
+     */
+    static listActiveByClient(clientId: string, limit: number = 200) {
+        return supabase
+            .from('leads')
+            .select('*')
+            .eq('cliente_id', clientId)
+            .neq('estado', 'cancelado')
+            .neq('status', 'cancelled')
+            .order('updated_at', { ascending: false })
+            .limit(limit);
+    }
+
+    static listByClient(clientId: string) {
+        return supabase
+            .from('leads')
+            .select('*')
+            .eq('cliente_id', clientId)
+            .order('created_at', { ascending: false });
+    }
+
+    static listInboxByClient(clientId: string) {
+        return supabase
+            .from('leads')
+            .select(LEAD_INBOX_COLUMNS)
+            .eq('cliente_id', clientId)
+            .order('updated_at', { ascending: false });
+    }
+
+    /**
+     * Leads con cita dentro de un rango de fechas (YYYY-MM-DD)
+     */
+    static listScheduledByClient(clientId: string, startDate: string, endDate: string) {
+        return supabase
+            .from('leads')
+            .select(LEAD_SCHEDULE_COLUMNS)
+            .eq('cliente_id', clientId)
+            .not('appointment_date', 'is', null)
+            .gte('appointment_date', startDate)
+            .lte('appointment_date', endDate)
+            .order('appointment_date', { ascending: true })
+            .order('appointment_time', { ascending: true });
+    }
+
+    static insert(lead: LeadInsert, signal?: AbortSignal) {
+        const query = supabase
+            .from('leads')
+            .insert(lead)
+            .select();
+        return (signal ? query.abortSignal(signal) : query).single();
+    }
+
+    /**
+     * Un solo INSERT para todos los leads de un proyecto: se crean todos o ninguno
+     */
+    static insertMany(leads: LeadInsert[], signal?: AbortSignal) {
+        const query = supabase
+            .from('leads')
+            .insert(leads)
+            .select();
+        return signal ? query.abortSignal(signal) : query;
+    }
+
+    /**
+     * Leads de uno o varios proyectos del cliente
+     */
+    static listByProjects(clientId: string, projectIds: string[], signal?: AbortSignal) {
+        const query = supabase
+            .from('leads')
+            .select('*')
+            .eq('cliente_id', clientId)
+            .in('project_id', projectIds)
+            .order('created_at', { ascending: true });
+        return signal ? query.abortSignal(signal) : query;
+    }
+
+    static update(leadId: string, changes: LeadUpdate) {
+        return supabase
+            .from('leads')
+            .update(changes)
+            .eq('id', leadId)
+            .select()
+            .single();
+    }
+
+    /**
+     * Actualización restringida al dueño del lead
+     */
+    static updateForClient(leadId: string, clientId: string, changes: LeadUpdate) {
+        return supabase
+            .from('leads')
+            .update(changes)
+            .eq('id', leadId)
+            .eq('cliente_id', clientId)
+            .select()
+            .single();
+    }
+
+    static touch(leadId: string) {
+        return supabase
+            .from('leads')
+            .update({ updated_at: new Date().toISOString() })
+            .eq('id', leadId);
+    }
+
+    static deleteForClient(leadId: string, clientId: string) {
+        return supabase
+            .from('leads')
+            .delete()
+            .eq('id', leadId)
+            .eq('cliente_id', clientId);
+    }
+
+    /**
+     * Cancelación con profesional asignado: el servidor calcula el cargo (SCHEMA_CANCELACIONES.sql)
+     */
+    static cancel(args: Functions<'cancel_lead'>['Args']) {
+        return supabase.rpc('cancel_lead', args);
+    }
+
+    /**
+     * RPC con SECURITY DEFINER para cuando RLS bloquea el UPDATE directo
+     */
+    static updateDetailsRpc(args: Functions<'update_lead_details'>['Args']) {
+        return supabase.rpc('update_lead_details', args);
+    }
+}
@@ -0,0 +1,25 @@
+import { supabase } from '@/lib/supabase';
+import type { Tables, Functions } from '@/lib/database.types';
+
+/**
+ * Materials Repository - Materiales que el profesional propone para un lead
+ * El cliente responde con la RPC respond_service_materials (ver SCHEMA_MATERIALES.sql)
+ */
+
+export type ServiceMaterialRow = Tables<'service_materials'>;
+
+export class MaterialsRepository {
+    static listByLead(leadId: string, signal?: AbortSignal) {
+        const query = supabase
+            .from('service_materials')
+            .select('*')
+            .eq('lead_id', leadId)
+            .order('created_at', { ascending: true });
+        return signal ? query.abortSignal(signal) : query;
+    }
+
+    static respond(args: Functions<'respond_service_materials'>['Args'], signal?: AbortSignal) {
+        const query = supabase.rpc('respond_service_materials', args);
+        return signal ? query.abortSignal(signal) : query;
+    }
+}
@@ -0,0 +1,77 @@
+import { supabase } from '@/lib/supabase';
+import type { Tables, TablesInsert, Functions } from '@/lib/database.types';
+
+/**
+ * Messages Repository - Acceso tipado a la tabla `messages`
+ */
+
+export type MessageRow = Tables<'messages'>;
+export type MessageInsert = TablesInsert<'messages'>;
+export type ConversationRpcRow = Functions<'get_client_conversations'>['Returns'][number];
+
+export class MessagesRepository {
+    static listByLead(leadId: string) {
+        return supabase
+            .from('messages')
+            .select('*')
+            .eq('lead_id', leadId)
+            .order('created_at', { ascending: true });
+    }
+
+    /**
+     * Mensajes de varios leads en una sola consulta, del más reciente al más antiguo
+     * Solo los `limit` más recientes: alcanza para la vista previa de la bandeja
+     */
+    static listByLeads(leadIds: string[], limit: number = 500) {
+        return supabase
+            .from('messages')
+            .select('id, lead_id, sender_id, content, created_at, updated_at, read_at')
+            .in('lead_id', leadIds)
+            .order('created_at', { ascending: false })
+            .limit(limit);
+    }
+
+    /**
+     * Igual que listByLeads para bases de datos sin la columna `read_at`
+     */
+    static listByLeadsWithoutReadAt(leadIds: string[], limit: number = 500) {
+        return supabase
+            .from('messages')
+            .select('id, lead_id, sender_id, content, created_at, updated_at')
+            .in('lead_id', leadIds)
+            .order('created_at', { ascending: false })
+            .limit(limit);
+    }
+
+    static findById(messageId: string) {
+        return supabase
+            .from('messages')
+            .select('*')
+            .eq('id', messageId)
+            .single();
+    }
+
+    static insert(message: MessageInsert) {
+        return supabase
+            .from('messages')
+            .insert(message)
+            .select()
+            .single();
+    }
+
+    static markLeadAsRead(leadId: string, readerId: string) {
+        return supabase
+            .from('messages')
+            .update({ read_at: new Date().toISOString() })
+            .eq('lead_id', leadId)
+            .neq('sender_id', readerId)
+            .is('read_at', null);
+    }
+
+    /**
+     * Bandeja agregada (RPC_GET_CLIENT_CONVERSATIONS.sql)
+     */
+    static listConversationsRpc(clientId: string) {
+        return supabase.rpc('get_client_conversations', { p_client_id: clientId });
+    }
+}
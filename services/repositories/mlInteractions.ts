@@ -0,0 +1,41 @@
+import { supabase } from '@/lib/supabase';
+import type { Tables, TablesInsert, TablesUpdate } from '@/lib/database.types';
+
+/**
+ * ML Interactions Repository - Acceso tipado a `ml_interactions` y `ml_feedback`
+ */
+
+export type MLInteractionRow = Tables<'ml_interactions'>;
+export type MLInteractionInsert = TablesInsert<'ml_interactions'>;
+export type MLInteractionUpdate = TablesUpdate<'ml_interactions'>;
+export type MLFeedbackInsert = TablesInsert<'ml_feedback'>;
+
+/**
+ * Los embeddings (pgvector) viajan como texto con formato `[v1,v2,...]`
+ */
+export function toVectorLiteral(embedding: number[]): string {
+    return `[${embedding.join(',')}]`;
+}
+
+export class MLInteractionsRepository {
+    static insert(interaction: MLInteractionInsert) {
+        return supabase
+            .from('ml_interactions')
+            .insert(interaction)
+            .select('id')
+            .single();
+    }
+
+    static update(interactionId: string, changes: MLInteractionUpdate) {
+        return supabase
+            .from('ml_interactions')
+            .update(changes)
+            .eq('id', interactionId);
+    }
+
+    static insertFeedback(feedback: MLFeedbackInsert) {
+        return supabase
+            .from('ml_feedback')
+            .insert(feedback);
+    }
+}
@@ -0,0 +1,16 @@
+import { supabase } from '@/lib/supabase';
+import type { Functions } from '@/lib/database.types';
+
+/**
+ * Price Estimates Repository - Percentiles de precios pagados en leads completados
+ * Los agregados se calculan en el servidor (ver SCHEMA_ESTIMADOR_PRECIOS.sql)
+ */
+
+export type PriceHistoryRow = Functions<'get_service_price_history'>['Returns'][number];
+
+export class PriceEstimatesRepository {
+    static getHistory(args: Functions<'get_service_price_history'>['Args'], signal?: AbortSignal) {
+        const query = supabase.rpc('get_service_price_history', args);
+        return signal ? query.abortSignal(signal) : query;
+    }
+}
@@ -0,0 +1,190 @@
+import { supabase } from '@/lib/supabase';
+import { DB_ROLE_VALUES_PROFESSIONAL } from '@/constants/roles';
+import type { Tables, TablesInsert, TablesUpdate } from '@/lib/database.types';
+
+/**
+ * Profiles Repository - Acceso tipado a la tabla `profiles`
+ * La llave es `user_id` (no existe columna `id`)
+ */
+
+export type ProfileRow = Tables<'profiles'>;
+export type ProfileInsert = TablesInsert<'profiles'>;
+export type ProfileUpdate = TablesUpdate<'profiles'>;
+export type ProfessionalStatsRow = Tables<'professional_stats'>;
+
+/** Datos mínimos para mostrar a un usuario en listas (chat, bandeja, calendario) */
+const PROFILE_SUMMARY_COLUMNS = 'user_id, full_name, avatar_url, role, user_type';
+
+/** Datos de contacto que se copian al crear un lead */
+const PROFILE_CONTACT_COLUMNS = 'full_name, whatsapp, phone';
+
+/** Datos del profesional asignado que se muestran en el detalle de un lead */
+const PROFESSIONAL_CARD_COLUMNS = 'full_name, whatsapp, phone, profession, calificacion_promedio, avatar_url';
+
+/** Perfil de profesional para listados (home) */
+const PROFESSIONAL_LISTING_COLUMNS = `
+    user_id,
+    full_name,
+    avatar_url,
+    profession,
+    whatsapp,
+    calificacion_promedio,
+    ubicacion_lat,
+    ubicacion_lng,
+    areas_servicio,
+    experience,
+    role,
+    user_type
+`;
+
+/** Perfil de profesional con los campos usados para calcular completitud */
+const PROFESSIONAL_DETAIL_COLUMNS = `
+    user_id,
+    full_name,
+    avatar_url,
+    profession,
+    calificacion_promedio,
+    ubicacion_lat,
+    ubicacion_lng,
+    areas_servicio,
+    experience,
+    whatsapp,
+    role,
+    user_type,
+    updated_at,
+    bio,
+    descripcion_perfil,
+    work_photos_urls,
+    portfolio,
+    certificaciones_urls,
+    antecedentes_no_penales_url,
+    numero_imss,
+    work_zones
+`;
+
+export type ProfessionalCard = Pick<ProfileRow, 'full_name' | 'whatsapp' | 'phone' | 'profession' | 'calificacion_promedio' | 'avatar_url'>;
+
+export type ProfileSummary = Pick<ProfileRow, 'user_id' | 'full_name' | 'avatar_url' | 'role' | 'user_type'>;
+
+/**
+ * Fila de profesional tal como llega de cualquiera de las consultas de listado
+ * (las columnas varían según la consulta; `professional_stats` solo viene en la búsqueda)
+ */
+export type ProfessionalProfileRow = Partial<ProfileRow> & Pick<ProfileRow, 'user_id'> & {
+    professional_stats?: Partial<ProfessionalStatsRow>[] | null;
+};
+
+export class ProfilesRepository {
+    static findByUserId(userId: string) {
+        return supabase
+            .from('profiles')
+            .select('*')
+            .eq('user_id', userId)
+            .maybeSingle();
+    }
+
+    static findContact(userId: string, signal?: AbortSignal) {
+        const query = supabase
+            .from('profiles')
+            .select(PROFILE_CONTACT_COLUMNS)
+            .eq('user_id', userId);
+        return (signal ? query.abortSignal(signal) : query).single();
+    }
+
+    static findProfessionalCard(userId: string) {
+        return supabase
+            .from('profiles')
+            .select(PROFESSIONAL_CARD_COLUMNS)
+            .eq('user_id', userId)
+            .single();
+    }
+
+    /**
+     * Una sola consulta para varios usuarios (evita N+1)
+     */
+    static findSummaries(userIds: string[]) {
+        return supabase
+            .from('profiles')
+            .select(PROFILE_SUMMARY_COLUMNS)
+            .in('user_id', userIds);
+    }
+
+    static insert(profile: ProfileInsert) {
+        return supabase
+            .from('profiles')
+            .insert(profile)
+            .select()
+            .single();
+    }
+
+    static update(userId: string, changes: ProfileUpdate) {
+        return supabase
+            .from('profiles')
+            .update(changes)
+            .eq('user_id', userId);
+    }
+
+    static updateReturning(userId: string, changes: ProfileUpdate) {
+        return supabase
+            .from('profiles')
+            .update(changes)
+            .eq('user_id', userId)
+            .select()
+            .single();
+    }
+
+    /**
+     * Profesionales para el home (query alineada con sumeeapp.com/tecnicos)
+     */
+    static listProfessionals(limit: number) {
+        return supabase
+            .from('profiles')
+            .select(PROFESSIONAL_LISTING_COLUMNS)
+            .in('role', DB_ROLE_VALUES_PROFESSIONAL)
+            .neq('user_type', 'client')
+            .not('profession', 'is', null)
+            .not('profession', 'eq', '')
+            .limit(limit);
+    }
+
+    /**
+     * Mismas columnas sin filtros de rol (fallback cuando el filtro falla)
+     */
+    static listProfilesForListing(limit: number) {
+        return supabase
+            .from('profiles')
+            .select(PROFESSIONAL_LISTING_COLUMNS)
+            .limit(limit);
+    }
+
+    /**
+     * Profesionales con todos los campos de completitud; admite filtros adicionales encadenados
+     */
+    static queryProfessionalsDetailed() {
+        return supabase
+            .from('profiles')
+            .select(PROFESSIONAL_DETAIL_COLUMNS)
+            .in('role', DB_ROLE_VALUES_PROFESSIONAL)
+            .neq('user_type', 'client');
+    }
+
+    static searchProfessionals(term: string, limit: number) {
+        return supabase
+            .from('profiles')
+            .select('*, professional_stats(is_online)')
+            .in('role', DB_ROLE_VALUES_PROFESSIONAL)
+            .neq('user_type', 'client')
+            .or(`full_name.ilike.%${term}%,profession.ilike.%${term}%`)
+            .limit(limit);
+    }
+
+    /**
+     * Muestra de perfiles para diagnosticar por qué no aparecen profesionales
+     */
+    static sampleRoles(limit: number = 10) {
+        return supabase
+            .from('profiles')
+            .select('user_id, full_name, role, user_type, profession')
+            .limit(limit);
+    }
+}
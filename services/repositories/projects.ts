@@ -0,0 +1,46 @@
+import { supabase } from '@/lib/supabase';
+import type { Tables, TablesInsert } from '@/lib/database.types';
+
+/**
+ * Projects Repository - Proyectos con varios servicios (ver SCHEMA_PROYECTOS.sql)
+ * Los leads de cada proyecto se consultan con LeadsRepository.listByProjects
+ */
+
+export type ProjectRow = Tables<'projects'>;
+export type ProjectInsert = TablesInsert<'projects'>;
+
+export class ProjectsRepository {
+    static listByClient(clientId: string, signal?: AbortSignal) {
+        const query = supabase
+            .from('projects')
+            .select('*')
+            .eq('client_id', clientId)
+            .order('created_at', { ascending: false });
+        return signal ? query.abortSignal(signal) : query;
+    }
+
+    static findForClient(projectId: string, clientId: string, signal?: AbortSignal) {
+        const query = supabase
+            .from('projects')
+            .select('*')
+            .eq('id', projectId)
+            .eq('client_id', clientId);
+        return (signal ? query.abortSignal(signal) : query).single();
+    }
+
+    static insert(project: ProjectInsert, signal?: AbortSignal) {
+        const query = supabase
+            .from('projects')
+            .insert(project)
+            .select();
+        return (signal ? query.abortSignal(signal) : query).single();
+    }
+
+    static deleteForClient(projectId: string, clientId: string) {
+        return supabase
+            .from('projects')
+            .delete()
+            .eq('id', projectId)
+            .eq('client_id', clientId);
+    }
+}
@@ -0,0 +1,31 @@
+import { supabase } from '@/lib/supabase';
+import type { Tables, Functions } from '@/lib/database.types';
+
+/**
+ * Quote Revisions Repository - Versiones de la cotización de un lead
+ * El cliente responde con la RPC respond_quote_revision (ver SCHEMA_REVISIONES_COTIZACION.sql)
+ */
+
+export type QuoteRevisionRow = Tables<'lead_quote_revisions'>;
+
+export class QuoteRevisionsRepository {
+    /**
+     * Revisiones de un lead (más reciente primero) con el nombre del autor
+     */
+    static listByLead(leadId: string, signal?: AbortSignal) {
+        const query = supabase
+            .from('lead_quote_revisions')
+            .select(`
+                *,
+                author:profiles!author_id(full_name)
+            `)
+            .eq('lead_id', leadId)
+            .order('version', { ascending: false });
+        return signal ? query.abortSignal(signal) : query;
+    }
+
+    static respond(args: Functions<'respond_quote_revision'>['Args'], signal?: AbortSignal) {
+        const query = supabase.rpc('respond_quote_revision', args);
+        return signal ? query.abortSignal(signal) : query;
+    }
+}
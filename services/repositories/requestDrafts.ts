@@ -0,0 +1,37 @@
+import { supabase } from '@/lib/supabase';
+import type { Tables, TablesInsert } from '@/lib/database.types';
+
+/**
+ * Request Drafts Repository - Copia en la nube de las solicitudes sin terminar
+ * (ver SCHEMA_BORRADORES_SOLICITUD.sql)
+ */
+
+export type RequestDraftRow = Tables<'request_drafts'>;
+export type RequestDraftInsert = TablesInsert<'request_drafts'>;
+
+export class RequestDraftsRepository {
+    static listByClient(clientId: string, signal?: AbortSignal) {
+        const query = supabase
+            .from('request_drafts')
+            .select('*')
+            .eq('client_id', clientId)
+            .order('updated_at', { ascending: false });
+        return signal ? query.abortSignal(signal) : query;
+    }
+
+    static upsert(draft: RequestDraftInsert, signal?: AbortSignal) {
+        const query = supabase
+            .from('request_drafts')
+            .upsert(draft, { onConflict: 'client_id,draft_key' });
+        return signal ? query.abortSignal(signal) : query;
+    }
+
+    static remove(clientId: string, draftKey: string, signal?: AbortSignal) {
+        const query = supabase
+            .from('request_drafts')
+            .delete()
+            .eq('client_id', clientId)
+            .eq('draft_key', draftKey);
+        return signal ? query.abortSignal(signal) : query;
+    }
+}
@@ -0,0 +1,45 @@
+import { supabase } from '@/lib/supabase';
+import type { Tables, Functions } from '@/lib/database.types';
+
+/**
+ * Reschedules Repository - Propuestas de cambio de fecha de la cita de un lead
+ * Las escrituras van por RPC para que la cita cambie en la misma transacción
+ * (ver SCHEMA_REPROGRAMACION_CITAS.sql)
+ */
+
+export type RescheduleRow = Tables<'appointment_reschedules'>;
+
+export class ReschedulesRepository {
+    /**
+     * Propuestas de un lead (más reciente primero)
+     */
+    static listByLead(leadId: string, signal?: AbortSignal) {
+        const query = supabase
+            .from('appointment_reschedules')
+            .select('*')
+            .eq('lead_id', leadId)
+            .order('created_at', { ascending: false });
+        return signal ? query.abortSignal(signal) : query;
+    }
+
+    /**
+     * Propuestas pendientes de varios leads en una sola consulta (calendario)
+     */
+    static listPendingByLeads(leadIds: string[]) {
+        return supabase
+            .from('appointment_reschedules')
+            .select('*')
+            .in('lead_id', leadIds)
+            .eq('status', 'pending');
+    }
+
+    static propose(args: Functions<'propose_reschedule'>['Args'], signal?: AbortSignal) {
+        const query = supabase.rpc('propose_reschedule', args);
+        return signal ? query.abortSignal(signal) : query;
+    }
+
+    static respond(args: Functions<'respond_reschedule'>['Args'], signal?: AbortSignal) {
+        const query = supabase.rpc('respond_reschedule', args);
+        return signal ? query.abortSignal(signal) : query;
+    }
+}
@@ -0,0 +1,51 @@
+import { supabase } from '@/lib/supabase';
+import type { Tables, TablesInsert, TablesUpdate } from '@/lib/database.types';
+
+/**
+ * Reviews Repository - Acceso tipado a la tabla `reviews`
+ */
+
+export type ReviewRow = Tables<'reviews'>;
+export type ReviewInsert = TablesInsert<'reviews'>;
+export type ReviewUpdate = TablesUpdate<'reviews'>;
+
+export class ReviewsRepository {
+    /**
+     * Reseñas de un profesional con el nombre del cliente (join por client_id)
+     */
+    static listByProfessional(professionalId: string) {
+        return supabase
+            .from('reviews')
+            .select(`
+                *,
+                client:profiles!client_id(full_name)
+            `)
+            .eq('professional_id', professionalId)
+            .order('created_at', { ascending: false });
+    }
+
+    static findByLead(leadId: string) {
+        return supabase
+            .from('reviews')
+            .select('*')
+            .eq('lead_id', leadId)
+            .maybeSingle();
+    }
+
+    static insert(review: ReviewInsert) {
+        return supabase
+            .from('reviews')
+            .insert([review])
+            .select()
+            .single();
+    }
+
+    static update(reviewId: string, changes: ReviewUpdate) {
+        return supabase
+            .from('reviews')
+            .update(changes)
+            .eq('id', reviewId)
+            .select()
+            .single();
+    }
+}
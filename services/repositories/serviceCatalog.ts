@@ -0,0 +1,82 @@
+import { supabase } from '@/lib/supabase';
+import type { Tables } from '@/lib/database.types';
+
+/**
+ * Service Catalog Repository - Acceso tipado a la tabla `service_catalog`
+ */
+
+export type ServiceCatalogRow = Tables<'service_catalog'>;
+
+/** Columnas usadas por la sección "Proyectos Populares" */
+const POPULAR_PROJECT_COLUMNS = 'id, service_name, discipline, min_price, max_price, price_type, is_popular, completed_count, display_order, description';
+
+export class ServiceCatalogRepository {
+    static findById(serviceId: string, signal?: AbortSignal) {
+        const query = supabase
+            .from('service_catalog')
+            .select('*')
+            .eq('id', serviceId);
+        return (signal ? query.abortSignal(signal) : query).single();
+    }
+
+    /**
+     * Varios servicios por id (renglones de un proyecto)
+     */
+    static listByIds(serviceIds: string[], signal?: AbortSignal) {
+        const query = supabase
+            .from('service_catalog')
+            .select('*')
+            .in('id', serviceIds);
+        return signal ? query.abortSignal(signal) : query;
+    }
+
+    /**
+     * Servicios activos; admite filtros y orden adicionales encadenados
+     */
+    static queryActive() {
+        return supabase
+            .from('service_catalog')
+            .select('*')
+            .eq('is_active', true);
+    }
+
+    static listByDiscipline(discipline: string) {
+        return this.queryActive()
+            .eq('discipline', discipline);
+    }
+
+    static listPopularFixedPrice(limit: number) {
+        return supabase
+            .from('service_catalog')
+            .select(POPULAR_PROJECT_COLUMNS)
+            .eq('is_active', true)
+            .eq('price_type', 'fixed')
+            .eq('is_popular', true)
+            .order('completed_count', { ascending: false, nullsFirst: false })
+            .order('display_order', { ascending: true, nullsFirst: false })
+            .limit(limit);
+    }
+
+    /**
+     * Precio mínimo por disciplina (un registro por servicio, ordenado por precio)
+     */
+    static listDisciplinePrices(limit: number) {
+        return supabase
+            .from('service_catalog')
+            .select('discipline, min_price')
+            .eq('is_active', true)
+            .order('min_price', { ascending: true })
+            .limit(limit);
+    }
+
+    static findMinPrice(discipline: string) {
+        return supabase
+            .from('service_catalog')
+            .select('min_price')
+            .eq('discipline', discipline)
+            .eq('is_active', true)
+            .order('min_price', { ascending: true })
+            .limit(1)
+            .single();
+    }
+}
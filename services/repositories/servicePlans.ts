@@ -0,0 +1,60 @@
+import { supabase } from '@/lib/supabase';
+import type { Functions, Tables, TablesUpdate } from '@/lib/database.types';
+
+/**
+ * Service Plans Repository - Planes de mantenimiento recurrente (SCHEMA_PLANES_MANTENIMIENTO.sql)
+ */
+
+export type ServicePlanRow = Tables<'service_plans'>;
+/** Columnas que el cliente puede cambiar directamente; el resto lo escriben las RPC */
+export type ServicePlanUpdate = Pick<TablesUpdate<'service_plans'>,
+    'status' | 'frequency_unit' | 'frequency_interval' | 'anchor_date' | 'time_window' | 'updated_at'
+>;
+
+export class ServicePlansRepository {
+    /**
+     * Planes del cliente que no están cancelados
+     */
+    static listByClient(clientId: string, signal?: AbortSignal) {
+        const query = supabase
+            .from('service_plans')
+            .select('*')
+            .eq('client_id', clientId)
+            .in('status', ['active', 'paused'])
+            .order('next_occurrence', { ascending: true });
+        return signal ? query.abortSignal(signal) : query;
+    }
+
+    /**
+     * Alta desde un lead completado; precio y profesional los copia el servidor
+     */
+    static createFromLead(args: Functions<'create_service_plan'>['Args'], signal?: AbortSignal) {
+        const query = supabase.rpc('create_service_plan', args);
+        return signal ? query.abortSignal(signal) : query;
+    }
+
+    static update(planId: string, clientId: string, changes: ServicePlanUpdate, signal?: AbortSignal) {
+        const query = supabase
+            .from('service_plans')
+            .update(changes)
+            .eq('id', planId)
+            .eq('client_id', clientId)
+            .select();
+        return (signal ? query.abortSignal(signal) : query).single();
+    }
+
+    static resume(planId: string, signal?: AbortSignal) {
+        const query = supabase.rpc('resume_service_plan', { p_plan_id: planId });
+        return signal ? query.abortSignal(signal) : query;
+    }
+
+    static skipNext(planId: string, signal?: AbortSignal) {
+        const query = supabase.rpc('skip_service_plan_occurrence', { p_plan_id: planId });
+        return signal ? query.abortSignal(signal) : query;
+    }
+
+    static generateDueLeads(signal?: AbortSignal) {
+        const query = supabase.rpc('generate_service_plan_leads');
+        return signal ? query.abortSignal(signal) : query;
+    }
+}
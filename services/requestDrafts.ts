@@ -0,0 +1,357 @@
+import { createStorageAdapter, StorageAdapter } from './persistentCache';
+import { CacheKeys } from './cache';
+import { requestExecutor, RequestPolicies } from './requestExecutor';
+import { isMissingTableError } from './errors';
+import { createDraftReminderScheduler, DraftReminderScheduler } from './draftReminders';
+import { RequestDraftsRepository, RequestDraftRow } from './repositories/requestDrafts';
+import type { ServiceQuote, ServiceQuoteFormData } from './quotes';
+import type { PaymentMethod } from './paymentPreferences';
+import type { AIDiagnosticResult } from './aiDiagnostic';
+import type { Json } from '@/lib/database.types';
+
+/**
+ * Request Drafts - Solicitudes sin terminar
+ * El detalle del servicio, la confirmación y el diagnóstico con IA guardan lo capturado
+ * (respuestas, fotos ya subidas, fecha, ubicación, método de pago) en el dispositivo para
+ * retomarlo si la app se cierra. Se sincroniza sin bloquear con `request_drafts`
+ * (SCHEMA_BORRADORES_SOLICITUD.sql) para continuar en otro dispositivo.
+ * Cada guardado reprograma la notificación local que lo recuerda (draftReminders.ts).
+ */
+
+/** Paso en el que se quedó el cliente */
+export type RequestDraftStep = 'form' | 'quote' | 'schedule' | 'confirm' | 'diagnostic';
+
+export interface RequestDraftLocation {
+    lat: number;
+    lng: number;
+    address: string;
+    /** Etiqueta mostrada en la confirmación ('GPS', 'Guardada', ...) */
+    source: string;
+}
+
+export interface RequestDraftDiagnostic {
+    text: string;
+    result: AIDiagnosticResult | null;
+}
+
+export interface RequestDraft {
+    /** Un borrador por servicio (getServiceDraftKey) y uno para el diagnóstico con IA */
+    key: string;
+    step: RequestDraftStep;
+    service_id: string | null;
+    service_name: string | null;
+    form_data: ServiceQuoteFormData;
+    immediate_service?: boolean;
+    selected_date?: string | null;
+    quote?: ServiceQuote | null;
+    payment_method?: PaymentMethod | null;
+    location?: RequestDraftLocation | null;
+    diagnostic?: RequestDraftDiagnostic | null;
+    updated_at: string;
+    /** Último recordatorio mostrado al abrir la app (solo en el dispositivo) */
+    reminded_at?: string | null;
+}
+
+export type RequestDraftInput = Omit<RequestDraft, 'updated_at' | 'reminded_at'>;
+
+export interface DraftReminderSettings {
+    enabled: boolean;
+    /** Horas sin cambios antes de recordar el borrador */
+    after_hours: number;
+}
+
+export const DIAGNOSTIC_DRAFT_KEY = 'diagnostic';
+
+export const DRAFT_REMINDER_HOURS_OPTIONS = [24, 48, 72];
+
+export const DEFAULT_DRAFT_REMINDER_SETTINGS: DraftReminderSettings = {
+    enabled: true,
+    after_hours: 24,
+};
+
+/** Los borradores sin cambios en este tiempo se descartan */
+export const DRAFT_MAX_AGE_DAYS = 14;
+
+export const DRAFT_STEP_LABELS: Record<RequestDraftStep, string> = {
+    form: 'Describiendo el servicio',
+    quote: 'Revisando la cotización',
+    schedule: 'Eligiendo fecha',
+    confirm: 'Por confirmar',
+    diagnostic: 'Diagnóstico con IA',
+};
+
+const SETTINGS_KEY = 'reminder-settings';
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Campos que el detalle del servicio agrega sin que el cliente capture nada */
+const IMPLICIT_FORM_FIELDS = ['lat', 'lng', 'service_type'];
+
+const draftsStorageKey = (userId: string) => `drafts:${userId}`;
+
+export const getServiceDraftKey = (serviceId: string) => `service:${serviceId}`;
+
+function hasValue(value: unknown): boolean {
+    if (value === null || value === undefined) return false;
+    if (typeof value === 'string') return value.trim().length > 0;
+    if (Array.isArray(value)) return value.length > 0;
+    if (typeof value === 'object') return Object.keys(value).length > 0;
+    return true;
+}
+
+/**
+ * Un borrador sin nada capturado no se guarda (abrir un servicio no crea borrador)
+ */
+export function isDraftEmpty(draft: RequestDraftInput): boolean {
+    if (draft.step === 'diagnostic') {
+        return !draft.diagnostic?.text.trim();
+    }
+    if (draft.step !== 'form') return false;
+
+    return !Object.entries(draft.form_data || {})
+        .some(([field, value]) => !IMPLICIT_FORM_FIELDS.includes(field) && hasValue(value));
+}
+
+export function isDraftExpired(draft: RequestDraft, now: Date = new Date()): boolean {
+    return now.getTime() - new Date(draft.updated_at).getTime() > DRAFT_MAX_AGE_DAYS * 24 * HOUR_MS;
+}
+
+/**
+ * Borradores de servicio abandonados más tiempo del configurado y sin recordatorio
+ * desde su último cambio
+ */
+export function getDraftsToRemind(
+    drafts: RequestDraft[],
+    settings: DraftReminderSettings,
+    now: Date = new Date()
+): RequestDraft[] {
+    if (!settings.enabled) return [];
+
+    return drafts.filter(draft => {
+        if (draft.step === 'diagnostic') return false;
+        const updatedAt = new Date(draft.updated_at).getTime();
+        if (now.getTime() - updatedAt < settings.after_hours * HOUR_MS) return false;
+        return !draft.reminded_at || new Date(draft.reminded_at).getTime() < updatedAt;
+    });
+}
+
+/**
+ * "hace 5 min", "hace 3 h", "hace 2 días"
+ */
+export function formatDraftAge(updatedAt: string, now: Date = new Date()): string {
+    const minutes = Math.max(0, Math.floor((now.getTime() - new Date(updatedAt).getTime()) / 60000));
+    if (minutes < 1) return 'hace un momento';
+    if (minutes < 60) return `hace ${minutes} min`;
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return `hace ${hours} h`;
+    const days = Math.floor(hours / 24);
+    return days === 1 ? 'hace 1 día' : `hace ${days} días`;
+}
+
+/**
+ * Por cada key se conserva la versión más reciente; el recordatorio local se mantiene
+ */
+export function mergeDrafts(local: RequestDraft[], remote: RequestDraft[]): RequestDraft[] {
+    const byKey = new Map(local.map(draft => [draft.key, draft]));
+
+    remote.forEach(draft => {
+        const current = byKey.get(draft.key);
+        if (!current || new Date(draft.updated_at).getTime() > new Date(current.updated_at).getTime()) {
+            byKey.set(draft.key, { ...draft, reminded_at: current?.reminded_at ?? null });
+        }
+    });
+
+    return [...byKey.values()].sort((a, b) =>
+        new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime());
+}
+
+function toRequestDraft(row: RequestDraftRow): RequestDraft | null {
+    const payload = row.payload as Partial<RequestDraft> | null;
+    if (!payload || typeof payload !== 'object' || !payload.step) return null;
+
+    return {
+        ...(payload as RequestDraft),
+        key: row.draft_key,
+        form_data: payload.form_data || {},
+        updated_at: row.updated_at,
+        reminded_at: null,
+    };
+}
+
+export class RequestDraftStore {
+    private storage: StorageAdapter;
+    private reminders: DraftReminderScheduler;
+    /** La tabla remota no existe (migración pendiente): no se vuelve a intentar */
+    private remoteUnavailable = false;
+
+    constructor(storage?: StorageAdapter, reminders?: DraftReminderScheduler) {
+        this.storage = storage || createStorageAdapter('tulbox-drafts/', 'tulbox_drafts:');
+        this.reminders = reminders || createDraftReminderScheduler();
+    }
+
+    /**
+     * Borradores vigentes del cliente, del más reciente al más antiguo
+     * Incluye los guardados en otro dispositivo si la copia remota está disponible
+     */
+    async list(userId: string, now: Date = new Date()): Promise<RequestDraft[]> {
+        const local = await this.readLocal(userId);
+        const remote = await this.fetchRemote(userId);
+        const merged = mergeDrafts(local, remote);
+        const current = merged.filter(draft => !isDraftExpired(draft, now));
+
+        if (JSON.stringify(current) !== JSON.stringify(local)) {
+            await this.writeLocal(userId, current);
+        }
+        return current;
+    }
+
+    async get(userId: string, key: string, now: Date = new Date()): Promise<RequestDraft | null> {
+        const draft = (await this.readLocal(userId)).find(d => d.key === key);
+        return draft && !isDraftExpired(draft, now) ? draft : null;
+    }
+
+    /**
+     * Guardar (o reemplazar) el borrador de una key y reprogramar su recordatorio
+     * Primero en el dispositivo; la copia remota no bloquea ni lanza
+     */
+    async save(userId: string, input: RequestDraftInput, now: Date = new Date()): Promise<RequestDraft> {
+        const drafts = await this.readLocal(userId);
+        const draft: RequestDraft = { ...input, updated_at: now.toISOString(), reminded_at: null };
+
+        await this.writeLocal(userId, [draft, ...drafts.filter(d => d.key !== input.key)]);
+        await this.reminders.schedule(draft, await this.getReminderSettings(), now);
+        await this.syncRemote('upsert', signal => RequestDraftsRepository.upsert({
+            client_id: userId,
+            draft_key: draft.key,
+            payload: { ...draft, reminded_at: undefined } as unknown as Json,
+            updated_at: draft.updated_at,
+        }, signal));
+
+        return draft;
+    }
+
+    /**
+     * Descartar un borrador (solicitud enviada o descartada por el cliente)
+     */
+    async discard(userId: string, key: string): Promise<void> {
+        const drafts = await this.readLocal(userId);
+        if (drafts.some(d => d.key === key)) {
+            await this.writeLocal(userId, drafts.filter(d => d.key !== key));
+        }
+        await this.reminders.cancel(key);
+        await this.syncRemote('delete', signal => RequestDraftsRepository.remove(userId, key, signal));
+    }
+
+    /**
+     * Sin notificaciones (web o sin permiso) el inicio recuerda los borradores al abrir la app
+     */
+    async remindsOnOpen(): Promise<boolean> {
+        return !(await this.reminders.isAvailable());
+    }
+
+    /**
+     * Registrar que ya se recordaron estos borradores (no se repite hasta que cambien)
+     */
+    async markReminded(userId: string, keys: string[], now: Date = new Date()): Promise<void> {
+        const drafts = await this.readLocal(userId);
+        await this.writeLocal(userId, drafts.map(draft => (
+            keys.includes(draft.key) ? { ...draft, reminded_at: now.toISOString() } : draft
+        )));
+    }
+
+    async getReminderSettings(): Promise<DraftReminderSettings> {
+        try {
+            const raw = await this.storage.getItem(SETTINGS_KEY);
+            return raw ? { ...DEFAULT_DRAFT_REMINDER_SETTINGS, ...JSON.parse(raw) } : DEFAULT_DRAFT_REMINDER_SETTINGS;
+        } catch (error) {
+            console.warn('[RequestDrafts] Error reading reminder settings:', error);
+            return DEFAULT_DRAFT_REMINDER_SETTINGS;
+        }
+    }
+
+    /**
+     * Guardar la configuración y reprogramar (o cancelar) los recordatorios del cliente
+     */
+    async setReminderSettings(userId: string, settings: DraftReminderSettings, now: Date = new Date()): Promise<void> {
+        await this.storage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+        const drafts = await this.readLocal(userId);
+        await Promise.all(drafts.map(draft => this.reminders.schedule(draft, settings, now)));
+    }
+
+    /**
+     * Borrar los borradores del dispositivo y sus recordatorios (al cerrar sesión)
+     */
+    async clear(): Promise<void> {
+        this.remoteUnavailable = false;
+        await this.reminders.cancelAll();
+        await this.storage.clear();
+    }
+
+    private async readLocal(userId: string): Promise<RequestDraft[]> {
+        try {
+            const raw = await this.storage.getItem(draftsStorageKey(userId));
+            const parsed = raw ? JSON.parse(raw) : [];
+            return Array.isArray(parsed) ? parsed : [];
+        } catch (error) {
+            console.warn('[RequestDrafts] Error reading drafts:', error);
+            return [];
+        }
+    }
+
+    private async writeLocal(userId: string, drafts: RequestDraft[]): Promise<void> {
+        try {
+            await this.storage.setItem(draftsStorageKey(userId), JSON.stringify(drafts));
+        } catch (error) {
+            console.warn('[RequestDrafts] Error saving drafts:', error);
+        }
+    }
+
+    private async fetchRemote(userId: string): Promise<RequestDraft[]> {
+        if (this.remoteUnavailable) return [];
+
+        const { data, error } = await requestExecutor.execute(
+            signal => RequestDraftsRepository.listByClient(userId, signal),
+            {
+                key: CacheKeys.requestDrafts(userId),
+                policy: RequestPolicies.read,
+                timeoutMessage: 'Timeout al obtener los borradores',
+            }
+        ).catch(error => ({ data: null, error }));
+
+        if (error) {
+            this.handleRemoteError('list', error);
+            return [];
+        }
+
+        return (data || [])
+            .map(toRequestDraft)
+            .filter((draft): draft is RequestDraft => draft !== null);
+    }
+
+    private async syncRemote(
+        operation: string,
+        run: (signal: AbortSignal) => PromiseLike<{ data: unknown; error: any }>
+    ): Promise<void> {
+        if (this.remoteUnavailable) return;
+
+        const { error } = await requestExecutor.execute(
+            signal => run(signal),
+            { policy: RequestPolicies.write, timeoutMessage: 'Timeout al sincronizar el borrador' }
+        ).catch(error => ({ error }));
+
+        if (error) {
+            this.handleRemoteError(operation, error);
+        }
+    }
+
+    private handleRemoteError(operation: string, error: any): void {
+        if (isMissingTableError(error)) {
+            this.remoteUnavailable = true;
+            console.warn('[RequestDrafts] request_drafts table not found, run SCHEMA_BORRADORES_SOLICITUD.sql');
+            return;
+        }
+        console.warn('[RequestDrafts] ⚠️ Remote sync failed (non-critical):', operation, error);
+    }
+}
+
+// Singleton instance
+export const requestDrafts = new RequestDraftStore();
@@ -0,0 +1,272 @@
+/**
+ * Request Executor - Ejecución de consultas a Supabase
+ * - Timeout por intento (aborta el fetch, no solo deja de esperar)
+ * - Reintentos con backoff exponencial y jitter para errores de red/timeout
+ * - Deduplicación de solicitudes en curso por key (usar CacheKeys)
+ * - Cancelación con AbortSignal: cada llamador puede dejar de esperar; la solicitud compartida
+ *   solo se aborta cuando todos los llamadores cancelaron
+ * Preserva el formato de Supabase { data, error } igual que withTimeout.
+ */
+
+import { ABORTED_ERROR_CODE, TIMEOUT_ERROR_CODE, errorField, isAbortError, isNetworkError } from './errors';
+
+export interface RequestPolicy {
+    /** Tiempo máximo por intento */
+    timeoutMs: number;
+    /** Reintentos adicionales (0 = un solo intento) */
+    retries: number;
+    /** Espera antes del primer reintento; se duplica en cada intento */
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+export interface ExecuteOptions {
+    /** Deduplica llamadas concurrentes con la misma key (p. ej. CacheKeys.lead(id)) */
+    key?: string;
+    signal?: AbortSignal;
+    policy?: Partial<RequestPolicy>;
+    /** Mensaje del error de timeout */
+    timeoutMessage?: string;
+    /** Decide si un error se reintenta (por defecto: red y timeout) */
+    shouldRetry?: (error: any) => boolean;
+}
+
+type SupabaseResult = { data: unknown; error: unknown };
+type Operation<T> = (signal: AbortSignal) => PromiseLike<T>;
+
+interface InFlightRequest {
+    promise: Promise<any>;
+    controller: AbortController;
+    subscribers: number;
+}
+
+const SECOND = 1000;
+
+// Políticas por tipo de operación
+export const RequestPolicies = {
+    read: { timeoutMs: 10 * SECOND, retries: 2, baseDelayMs: 500, maxDelayMs: 4 * SECOND },
+    /** Consultas pesadas (listas largas, agregados) */
+    heavyRead: { timeoutMs: 15 * SECOND, retries: 1, baseDelayMs: 1 * SECOND, maxDelayMs: 4 * SECOND },
+    /** INSERT/UPDATE no idempotentes: sin reintentos para no duplicar filas */
+    write: { timeoutMs: 15 * SECOND, retries: 0, baseDelayMs: 0, maxDelayMs: 0 },
+} satisfies Record<string, RequestPolicy>;
+
+/**
+ * Respuesta de Supabase para una solicitud cancelada
+ */
+function abortedResult<T>(): T {
+    return {
+        data: null,
+        error: { message: 'Solicitud cancelada', code: ABORTED_ERROR_CODE },
+    } as T;
+}
+
+/**
+ * Backoff exponencial con "equal jitter": la mitad fija y la otra mitad aleatoria
+ * para que varias pantallas no reintenten al mismo tiempo
+ */
+export function getBackoffDelay(attempt: number, policy: RequestPolicy): number {
+    const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+    return exponential / 2 + Math.random() * (exponential / 2);
+}
+
+/**
+ * Esperar `ms`; se interrumpe si se aborta la señal
+ */
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+        if (signal.aborted) return resolve();
+        const timer = setTimeout(done, ms);
+        function done() {
+            clearTimeout(timer);
+            signal.removeEventListener('abort', done);
+            resolve();
+        }
+        signal.addEventListener('abort', done);
+    });
+}
+
+/**
+ * Dejar de esperar una promesa cuando se aborta la señal (la promesa sigue su curso)
+ */
+function raceAbort<T>(promise: Promise<T>, signal: AbortSignal | undefined, onAbort: () => T): Promise<T> {
+    if (!signal) return promise;
+    if (signal.aborted) return Promise.resolve(onAbort());
+
+    return new Promise<T>((resolve, reject) => {
+        const handleAbort = () => resolve(onAbort());
+        signal.addEventListener('abort', handleAbort);
+        promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', handleAbort));
+    });
+}
+
+class RequestExecutor {
+    private inFlight: Map<string, InFlightRequest> = new Map();
+
+    /**
+     * Ejecutar una consulta de Supabase con timeout, reintentos y deduplicación
+     */
+    execute<T extends SupabaseResult>(operation: Operation<T>, options: ExecuteOptions = {}): Promise<T> {
+        const run = (signal: AbortSignal) => this.runWithRetries(operation, signal, options);
+
+        if (!options.key) {
+            const controller = new AbortController();
+            const unlink = linkSignal(options.signal, controller);
+            return run(controller.signal).finally(unlink);
+        }
+
+        return this.coalesce(options.key, run, options.signal, abortedResult<T>);
+    }
+
+    /**
+     * Compartir una tarea en curso entre todos los llamadores con la misma key
+     * Cada llamador puede cancelar su espera; la tarea se aborta cuando no queda ninguno
+     * `onAbort` da el valor para el llamador que canceló (por defecto, rechaza con un error ABORTED)
+     */
+    coalesce<T>(
+        key: string,
+        task: (signal: AbortSignal) => Promise<T>,
+        signal?: AbortSignal,
+        onAbort: () => T = throwAborted
+    ): Promise<T> {
+        if (signal?.aborted) {
+            return Promise.resolve().then(onAbort);
+        }
+
+        let entry = this.inFlight.get(key);
+        if (!entry) {
+            const controller = new AbortController();
+            const created: InFlightRequest = {
+                controller,
+                subscribers: 0,
+                promise: task(controller.signal).finally(() => {
+                    if (this.inFlight.get(key) === created) {
+                        this.inFlight.delete(key);
+                    }
+                }),
+            };
+            this.inFlight.set(key, created);
+            entry = created;
+        } else {
+            console.log('[RequestExecutor] 🔗 Reusing in-flight request:', key);
+        }
+
+        const shared = entry;
+        shared.subscribers += 1;
+        let released = false;
+        const release = () => {
+            if (released) return;
+            released = true;
+            shared.subscribers -= 1;
+            if (shared.subscribers === 0 && this.inFlight.get(key) === shared) {
+                // Nadie más espera el resultado: abortar el fetch y liberar la key
+                shared.controller.abort();
+                this.inFlight.delete(key);
+            }
+        };
+
+        return raceAbort(shared.promise as Promise<T>, signal, () => {
+            release();
+            return onAbort();
+        }).finally(release);
+    }
+
+    /**
+     * Cancelar todas las solicitudes en curso (p. ej. al cerrar sesión)
+     */
+    abortAll(): void {
+        for (const entry of this.inFlight.values()) {
+            entry.controller.abort();
+        }
+        this.inFlight.clear();
+    }
+
+    private async runWithRetries<T extends SupabaseResult>(
+        operation: Operation<T>,
+        signal: AbortSignal,
+        options: ExecuteOptions
+    ): Promise<T> {
+        const policy: RequestPolicy = { ...RequestPolicies.read, ...options.policy };
+        const shouldRetry = options.shouldRetry || isNetworkError;
+
+        for (let attempt = 0; ; attempt++) {
+            if (signal.aborted) return abortedResult<T>();
+
+            const result = await this.runAttempt(operation, signal, policy.timeoutMs, options.timeoutMessage);
+
+            if (!result.error || signal.aborted || isAbortError(result.error)) {
+                return signal.aborted ? abortedResult<T>() : result;
+            }
+
+            if (attempt >= policy.retries || !shouldRetry(result.error)) {
+                return result;
+            }
+
+            const delay = getBackoffDelay(attempt, policy);
+            console.log(`[RequestExecutor] 🔁 Retry ${attempt + 1}/${policy.retries} in ${Math.round(delay)}ms:`, errorField(result.error, 'message'));
+            await sleep(delay, signal);
+        }
+    }
+
+    /**
+     * Un intento con su propio AbortController, para abortar el fetch al vencer el timeout
+     */
+    private async runAttempt<T extends SupabaseResult>(
+        operation: Operation<T>,
+        signal: AbortSignal,
+        timeoutMs: number,
+        timeoutMessage?: string
+    ): Promise<T> {
+        const controller = new AbortController();
+        const unlink = linkSignal(signal, controller);
+        let timedOut = false;
+        const timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, timeoutMs);
+
+        try {
+            const result = await raceAbort(Promise.resolve(operation(controller.signal)), controller.signal, abortedResult<T>);
+            if (timedOut) {
+                return {
+                    data: null,
+                    error: { message: timeoutMessage || 'Operación excedió el tiempo límite', code: TIMEOUT_ERROR_CODE },
+                } as T;
+            }
+            return result;
+        } catch (error: any) {
+            // Un fetch que lanza en lugar de devolver { error } (mismo formato que withTimeout)
+            return {
+                data: null,
+                error: {
+                    message: error?.message || 'Error en la operación',
+                    code: error?.code || 'UNKNOWN_ERROR',
+                },
+            } as T;
+        } finally {
+            clearTimeout(timer);
+            unlink();
+        }
+    }
+}
+
+function throwAborted(): never {
+    throw Object.assign(new Error('Solicitud cancelada'), { code: ABORTED_ERROR_CODE });
+}
+
+/**
+ * Propagar la cancelación de `source` a `target`; devuelve la función para desvincular
+ */
+function linkSignal(source: AbortSignal | undefined, target: AbortController): () => void {
+    if (!source) return () => {};
+    if (source.aborted) {
+        target.abort();
+        return () => {};
+    }
+    const abort = () => target.abort();
+    source.addEventListener('abort', abort);
+    return () => source.removeEventListener('abort', abort);
+}
+
+// Singleton instance
+export const requestExecutor = new RequestExecutor();
@@ -0,0 +1,403 @@
+import { validateUUID, ValidationResult } from './validation';
+import { cache, CacheKeys } from './cache';
+import { requestExecutor, RequestPolicies } from './requestExecutor';
+import { LeadStatus, resolveLeadStatus } from './leadLifecycle';
+import { AppError, DB_ERROR_CODES, assertValid, isMissingTableError, toAppError } from './errors';
+import { LeadsRepository, getAssignedProfessionalId } from './repositories/leads';
+import { ReschedulesRepository, RescheduleRow } from './repositories/reschedules';
+import type { Json } from '@/lib/database.types';
+
+/**
+ * Reschedules - Negociación de cambios de fecha de la cita
+ * Cliente o profesional proponen de 1 a 3 horarios con un motivo; la otra parte acepta uno,
+ * contrapropone o rechaza. Aceptar cambia appointment_date/appointment_time/appointment_status
+ * en la misma transacción (RPC respond_reschedule), así que el calendario se actualiza solo.
+ */
+
+export type RescheduleStatus = 'pending' | 'accepted' | 'declined' | 'countered';
+
+export type RescheduleRole = 'client' | 'professional';
+
+export interface RescheduleSlot {
+    /** YYYY-MM-DD */
+    date: string;
+    /** HH:MM (hora local) */
+    time: string;
+}
+
+/** Horario de una propuesta con su posición en la fila (la que recibe respond_reschedule) */
+export interface ProposedRescheduleSlot extends RescheduleSlot {
+    index: number;
+}
+
+export interface RescheduleProposal {
+    id: string;
+    lead_id: string;
+    proposed_by: string;
+    proposer_role: RescheduleRole;
+    reason: string;
+    /** Horarios válidos; `index` se conserva aunque se descarte uno ilegible */
+    slots: ProposedRescheduleSlot[];
+    /** Cita vigente cuando se hizo la propuesta */
+    previous_slot: RescheduleSlot | null;
+    accepted_slot: RescheduleSlot | null;
+    status: RescheduleStatus;
+    /** Propuesta a la que responde (contrapropuesta) */
+    counter_to: string | null;
+    responded_at: string | null;
+    created_at: string | null;
+}
+
+export interface RescheduleState {
+    /** Propuesta que espera respuesta (solo puede haber una) */
+    pending: RescheduleProposal | null;
+    /** La propuesta pendiente es de la otra parte y le toca responder al usuario */
+    awaitingResponse: boolean;
+    /** Reprogramaciones aceptadas */
+    used: number;
+    remaining: number;
+    canPropose: boolean;
+    canCounter: boolean;
+}
+
+/** Reprogramaciones aceptadas permitidas por lead (también lo valida la RPC) */
+export const MAX_RESCHEDULES = 3;
+
+export const MAX_RESCHEDULE_SLOTS = 3;
+
+/** Horarios que se ofrecen al proponer */
+export const RESCHEDULE_TIME_OPTIONS = ['08:00', '10:00', '12:00', '14:00', '16:00', '18:00'];
+
+export const RESCHEDULE_STATUS_LABELS: Record<RescheduleStatus, string> = {
+    pending: 'Esperando respuesta',
+    accepted: 'Aceptada',
+    declined: 'Rechazada',
+    countered: 'Contrapropuesta',
+};
+
+/** Estados del lead en los que la cita se puede mover */
+const RESCHEDULABLE_STATUSES: LeadStatus[] = ['accepted', 'scheduled'];
+const RESCHEDULE_STATUSES: RescheduleStatus[] = ['pending', 'accepted', 'declined', 'countered'];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d/;
+
+/**
+ * Leer un horario guardado en JSON; acepta HH:MM:SS y lo recorta a HH:MM
+ */
+export function parseRescheduleSlot(value: unknown): RescheduleSlot | null {
+    if (typeof value !== 'object' || value === null) return null;
+    const { date, time } = value as Record<string, unknown>;
+    if (typeof date !== 'string' || !DATE_PATTERN.test(date.slice(0, 10))) return null;
+    if (typeof time !== 'string' || !TIME_PATTERN.test(time)) return null;
+    return { date: date.slice(0, 10), time: time.slice(0, 5) };
+}
+
+export function toReschedule(row: RescheduleRow): RescheduleProposal {
+    const slots = (Array.isArray(row.slots) ? row.slots : [])
+        .map((value, index) => {
+            const slot = parseRescheduleSlot(value);
+            return slot ? { ...slot, index } : null;
+        })
+        .filter((slot): slot is ProposedRescheduleSlot => slot !== null);
+    return {
+        id: row.id,
+        lead_id: row.lead_id,
+        proposed_by: row.proposed_by,
+        proposer_role: row.proposer_role === 'professional' ? 'professional' : 'client',
+        reason: row.reason,
+        slots,
+        previous_slot: parseRescheduleSlot(row.previous_slot),
+        accepted_slot: parseRescheduleSlot(row.accepted_slot),
+        status: RESCHEDULE_STATUSES.includes(row.status as RescheduleStatus) ? row.status as RescheduleStatus : 'pending',
+        counter_to: row.counter_to,
+        responded_at: row.responded_at,
+        created_at: row.created_at,
+    };
+}
+
+/**
+ * Fecha local de un horario propuesto
+ */
+export function slotToDate(slot: RescheduleSlot): Date {
+    const [year, month, day] = slot.date.split('-').map(Number);
+    const [hours, minutes] = slot.time.split(':').map(Number);
+    return new Date(year, month - 1, day, hours, minutes);
+}
+
+export function formatRescheduleSlot(slot: RescheduleSlot): string {
+    const date = slotToDate(slot).toLocaleDateString('es-MX', { weekday: 'short', day: 'numeric', month: 'short' });
+    return `${date}, ${slot.time}`;
+}
+
+/**
+ * Cita vigente de un lead como horario
+ * appointment_time puede llegar como hora sola o como fecha y hora (ver respond_reschedule)
+ */
+export function getLeadAppointmentSlot(lead: {
+    appointment_date?: string | null;
+    appointment_time?: string | null;
+}): RescheduleSlot | null {
+    if (!lead.appointment_date || !lead.appointment_time) return null;
+    const time = lead.appointment_time.split(/[T ]/).pop() || '';
+    return parseRescheduleSlot({ date: lead.appointment_date, time });
+}
+
+function toDateKey(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Días que se pueden proponer (desde mañana), con la fecha local
+ */
+export function getRescheduleDayOptions(from: Date = new Date(), count: number = 14): Array<{ date: string; label: string }> {
+    return Array.from({ length: count }, (_, index) => {
+        const date = new Date(from.getFullYear(), from.getMonth(), from.getDate() + index + 1);
+        return {
+            date: toDateKey(date),
+            label: index === 0
+                ? 'Mañana'
+                : date.toLocaleDateString('es-MX', { weekday: 'short', day: 'numeric', month: 'short' }),
+        };
+    });
+}
+
+/**
+ * Motivo obligatorio y de 1 a 3 horarios distintos a futuro
+ */
+export function validateRescheduleProposal(
+    input: { slots: RescheduleSlot[]; reason: string },
+    now: Date = new Date()
+): ValidationResult {
+    if (!input.reason?.trim()) {
+        return {
+            valid: false,
+            error: { code: 'MISSING_RESCHEDULE_REASON', message: 'Indica el motivo del cambio de fecha' },
+        };
+    }
+
+    if (input.slots.length === 0) {
+        return {
+            valid: false,
+            error: { code: 'MISSING_RESCHEDULE_SLOTS', message: 'Propón al menos un horario' },
+        };
+    }
+
+    if (input.slots.length > MAX_RESCHEDULE_SLOTS) {
+        return {
+            valid: false,
+            error: { code: 'TOO_MANY_RESCHEDULE_SLOTS', message: `Propón máximo ${MAX_RESCHEDULE_SLOTS} horarios` },
+        };
+    }
+
+    const keys = new Set<string>();
+    for (const slot of input.slots) {
+        if (!parseRescheduleSlot(slot)) {
+            return {
+                valid: false,
+                error: { code: 'INVALID_RESCHEDULE_SLOT', message: 'Uno de los horarios no es válido' },
+            };
+        }
+        if (slotToDate(slot).getTime() <= now.getTime()) {
+            return {
+                valid: false,
+                error: { code: 'PAST_RESCHEDULE_SLOT', message: 'Los horarios propuestos deben ser a futuro' },
+            };
+        }
+        keys.add(`${slot.date} ${slot.time}`);
+    }
+
+    if (keys.size !== input.slots.length) {
+        return {
+            valid: false,
+            error: { code: 'DUPLICATE_RESCHEDULE_SLOT', message: 'Hay horarios repetidos' },
+        };
+    }
+
+    return { valid: true };
+}
+
+/**
+ * Turno y límite de la negociación para el usuario
+ */
+export function getRescheduleState(reschedules: RescheduleProposal[], userId: string): RescheduleState {
+    const pending = reschedules.find(reschedule => reschedule.status === 'pending') || null;
+    const used = reschedules.filter(reschedule => reschedule.status === 'accepted').length;
+    const remaining = Math.max(0, MAX_RESCHEDULES - used);
+    const awaitingResponse = !!pending && pending.proposed_by !== userId;
+
+    return {
+        pending,
+        awaitingResponse,
+        used,
+        remaining,
+        canPropose: !pending && remaining > 0,
+        canCounter: awaitingResponse && remaining > 0,
+    };
+}
+
+function conflictError(error: { code?: string }, userMessage: string): AppError {
+    return new AppError('conflict', {
+        code: 'reschedule.conflict',
+        userMessage,
+        sourceCode: error.code,
+        cause: error,
+    });
+}
+
+export class RescheduleService {
+    /**
+     * Propuestas de cambio de fecha de un lead (más reciente primero)
+     */
+    static async getReschedules(leadId: string, signal?: AbortSignal): Promise<RescheduleProposal[]> {
+        assertValid(validateUUID(leadId));
+
+        const { data, error } = await requestExecutor.execute(
+            requestSignal => ReschedulesRepository.listByLead(leadId, requestSignal),
+            {
+                key: CacheKeys.reschedules(leadId),
+                signal,
+                policy: RequestPolicies.read,
+                timeoutMessage: 'Timeout al obtener los cambios de fecha',
+            }
+        );
+
+        if (error) {
+            // Migración pendiente: el lead se muestra sin negociación de fecha
+            if (isMissingTableError(error)) {
+                console.warn('[RescheduleService] appointment_reschedules table not found, run SCHEMA_REPROGRAMACION_CITAS.sql');
+                return [];
+            }
+            throw toAppError(error, 'No se pudieron obtener los cambios de fecha');
+        }
+
+        return (data || []).map(toReschedule);
+    }
+
+    /**
+     * Validar que el cliente sea dueño del lead y que la cita se pueda mover
+     */
+    private static async assertCanNegotiate(leadId: string, clientId: string): Promise<void> {
+        const { data: lead, error } = await LeadsRepository.findOwnership(leadId);
+        if (error || !lead) {
+            throw toAppError(error, 'Solicitud no encontrada');
+        }
+        if (lead.cliente_id !== clientId) {
+            throw new AppError('permission', {
+                code: 'reschedule.not_owner',
+                userMessage: 'No tienes permisos para cambiar la fecha de esta solicitud',
+            });
+        }
+        if (!getAssignedProfessionalId(lead) || !RESCHEDULABLE_STATUSES.includes(resolveLeadStatus(lead))) {
+            throw new AppError('transition', {
+                code: 'reschedule.not_allowed',
+                userMessage: 'La cita de esta solicitud ya no se puede reprogramar',
+            });
+        }
+    }
+
+    /**
+     * Proponer horarios alternativos (o contraproponer a la propuesta del profesional)
+     * Devuelve el ID de la nueva propuesta
+     */
+    static async proposeReschedule(params: {
+        leadId: string;
+        clientId: string;
+        slots: RescheduleSlot[];
+        reason: string;
+        counterTo?: string;
+    }): Promise<string> {
+        const { leadId, clientId, slots, reason, counterTo } = params;
+        assertValid(validateUUID(leadId));
+        assertValid(validateRescheduleProposal({ slots, reason }));
+
+        await this.assertCanNegotiate(leadId, clientId);
+
+        const state = getRescheduleState(await this.getReschedules(leadId), clientId);
+        if (state.remaining === 0) {
+            throw new AppError('conflict', {
+                code: 'reschedule.limit_reached',
+                userMessage: `Esta cita ya se reprogramó ${MAX_RESCHEDULES} veces. Escríbele al profesional si necesitas otro cambio.`,
+            });
+        }
+        if (state.pending && !(state.awaitingResponse && state.pending.id === counterTo)) {
+            throw new AppError('conflict', {
+                code: 'reschedule.pending_exists',
+                userMessage: 'Ya hay una propuesta de cambio de fecha esperando respuesta',
+            });
+        }
+
+        const { data, error } = await requestExecutor.execute(
+            signal => ReschedulesRepository.propose({
+                p_lead_id: leadId,
+                p_slots: slots.map(slot => ({ date: slot.date, time: slot.time })) as Json,
+                p_reason: reason.trim(),
+                p_counter_to: counterTo ?? null,
+            }, signal),
+            { policy: RequestPolicies.write, timeoutMessage: 'Timeout al proponer el cambio de fecha' }
+        );
+
+        if (error) {
+            // El profesional respondió o propuso otra fecha mientras tanto
+            if (error.code === DB_ERROR_CODES.CHECK_VIOLATION) {
+                throw conflictError(error, 'La negociación de fecha cambió. Actualiza la solicitud para ver la propuesta más reciente.');
+            }
+            throw toAppError(error, 'No se pudo proponer el cambio de fecha');
+        }
+
+        return data as string;
+    }
+
+    /**
+     * Aceptar uno de los horarios propuestos por el profesional (slotIndex, el `index` del horario)
+     * o rechazar (null)
+     */
+    static async respondToReschedule(params: {
+        leadId: string;
+        clientId: string;
+        rescheduleId: string;
+        slotIndex: number | null;
+    }): Promise<void> {
+        const { leadId, clientId, rescheduleId, slotIndex } = params;
+        assertValid(validateUUID(leadId));
+        assertValid(validateUUID(rescheduleId));
+
+        await this.assertCanNegotiate(leadId, clientId);
+
+        const reschedule = (await this.getReschedules(leadId)).find(candidate => candidate.id === rescheduleId);
+        if (!reschedule || reschedule.status !== 'pending' || reschedule.proposed_by === clientId) {
+            throw new AppError('conflict', {
+                code: 'reschedule.not_pending',
+                userMessage: 'Esta propuesta ya no está pendiente. Actualiza la solicitud para ver la más reciente.',
+            });
+        }
+
+        const slot = slotIndex === null ? null : reschedule.slots.find(candidate => candidate.index === slotIndex);
+        if (slotIndex !== null && !slot) {
+            throw new AppError('validation', {
+                code: 'reschedule.invalid_slot',
+                userMessage: 'Elige uno de los horarios propuestos',
+            });
+        }
+
+        const { error } = await requestExecutor.execute(
+            signal => ReschedulesRepository.respond({ p_reschedule_id: rescheduleId, p_slot_index: slotIndex }, signal),
+            { policy: RequestPolicies.write, timeoutMessage: 'Timeout al responder el cambio de fecha' }
+        );
+
+        if (error) {
+            if (error.code === DB_ERROR_CODES.CHECK_VIOLATION) {
+                throw conflictError(error, 'Esta propuesta ya no está pendiente. Actualiza la solicitud para ver la más reciente.');
+            }
+            throw toAppError(error, 'No se pudo responder el cambio de fecha');
+        }
+
+        // El cambio de cita lo registra log_lead_changes al actualizar el lead
+        if (slot) {
+            cache.invalidate(CacheKeys.lead(leadId));
+            cache.invalidatePattern(`^${CacheKeys.leads(clientId)}`);
+        }
+    }
+}
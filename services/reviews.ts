@@ -1,6 +1,8 @@
-import { supabase } from '@/lib/supabase';
 import { validateUUID } from './validation';
 import { cache, CacheKeys } from './cache';
+import { outbox, generateClientId } from './outbox';
+import { AppError, isDuplicateError, reportError } from './errors';
+import { ReviewsRepository, ReviewRow } from './repositories/reviews';
 
 export interface Review {
     id: string;
@@ -15,6 +17,15 @@ export interface Review {
     professional_name?: string;
 }
 
+export interface CreateReviewPayload {
+    id: string;
+    lead_id: string;
+    client_id: string;
+    professional_id: string;
+    rating: number;
+    comment: string;
+}
+
 export class ReviewsService {
     /**
      * Get reviews for a professional
@@ -29,20 +40,13 @@ export class ReviewsService {
             const cached = cache.get<Review[]>(cacheKey);
             if (cached) return cached;
 
-            const { data, error } = await supabase
-                .from('reviews')
-                .select(`
-                    *,
-                    client:profiles!client_id(full_name)
-                `)
-                .eq('professional_id', professionalId)
-                .order('created_at', { ascending: false });
+            const { data, error } = await ReviewsRepository.listByProfessional(professionalId);
 
             if (error) throw error;
 
-            const reviews = (data || []).map(r => ({
-                ...r,
-                client_name: r.client?.full_name || 'Cliente de TulBox'
+            const reviews = (data || []).map(({ client, ...r }) => ({
+                ...toReview(r),
+                client_name: client?.full_name || 'Cliente de TulBox'
             }));
 
             cache.set(cacheKey, reviews, 10 * 60 * 1000); // 10 min cache
@@ -55,6 +59,7 @@ export class ReviewsService {
 
     /**
      * Create a review for a service
+     * Goes through the outbox: when offline the review is queued (queued: true) and sent on reconnect
      */
     static async createReview(reviewData: {
         lead_id: string;
@@ -62,30 +67,41 @@ export class ReviewsService {
         professional_id: string;
         rating: number;
         comment: string;
-    }): Promise<{ success: boolean; data?: Review; error?: any }> {
+    }): Promise<{ success: boolean; data?: Review; error?: AppError; queued?: boolean }> {
         try {
-            const { data, error } = await supabase
-                .from('reviews')
-                .insert([reviewData])
-                .select()
-                .single();
+            const payload: CreateReviewPayload = { id: generateClientId(), ...reviewData };
+            const submission = await outbox.submit<CreateReviewPayload, Review>('review.create', payload, payload.id);
 
-            if (error) throw error;
+            if (submission.queued) {
+                console.log('[ReviewsService] 📴 Review queued for later delivery:', payload.id);
+                return { success: true, queued: true };
+            }
+
+            return { success: true, data: submission.result };
+        } catch (error) {
+            return { success: false, error: reportError('ReviewsService', error, 'No se pudo enviar la reseña. Intenta de nuevo.') };
+        }
+    }
+
+    /**
+     * Insert the review in Supabase (run by the outbox)
+     * A duplicate means a previous attempt already stored it
+     */
+    static async deliverReview(payload: CreateReviewPayload): Promise<Review> {
+        const { data, error } = await ReviewsRepository.insert(payload);
 
-            // Invalidate caches
-            cache.invalidate(`reviews:professional:${reviewData.professional_id}`);
-
-            return { success: true, data };
-        } catch (error: any) {
-            console.error('[ReviewsService] Error creating review:', error);
-            console.error('[ReviewsService] Error details:', {
-                message: error.message,
-                code: error.code,
-                details: error.details,
-                hint: error.hint
-            });
-            return { success: false, error: error.message || 'Error desconocido' };
+        if (error && isDuplicateError(error)) {
+            console.log('[ReviewsService] Review already stored for lead:', payload.lead_id);
+            const existing = await this.getReviewByLeadId(payload.lead_id);
+            if (existing) return existing;
         }
+
+        if (error) throw error;
+
+        // Invalidate caches
+        cache.invalidate(`reviews:professional:${payload.professional_id}`);
+
+        return toReview(data);
     }
 
     /**
@@ -93,14 +109,10 @@ export class ReviewsService {
      */
     static async getReviewByLeadId(leadId: string): Promise<Review | null> {
         try {
-            const { data, error } = await supabase
-                .from('reviews')
-                .select('*')
-                .eq('lead_id', leadId)
-                .maybeSingle();
+            const { data, error } = await ReviewsRepository.findByLead(leadId);
 
             if (error) throw error;
-            return data;
+            return data ? toReview(data) : null;
         } catch (error) {
             console.error('[ReviewsService] Error fetching review by leadId:', error);
             return null;
@@ -113,14 +125,9 @@ export class ReviewsService {
     static async updateReview(reviewId: string, updateData: {
         rating: number;
         comment: string;
-    }): Promise<{ success: boolean; data?: Review; error?: any }> {
+    }): Promise<{ success: boolean; data?: Review; error?: AppError }> {
         try {
-            const { data, error } = await supabase
-                .from('reviews')
-                .update(updateData)
-                .eq('id', reviewId)
-                .select()
-                .single();
+            const { data, error } = await ReviewsRepository.update(reviewId, updateData);
 
             if (error) throw error;
 
@@ -129,10 +136,9 @@ export class ReviewsService {
                 cache.invalidate(`reviews:professional:${data.professional_id}`);
             }
 
-            return { success: true, data };
-        } catch (error: any) {
-            console.error('[ReviewsService] Error updating review:', error);
-            return { success: false, error: error.message || 'Error al actualizar la reseña' };
+            return { success: true, data: toReview(data) };
+        } catch (error) {
+            return { success: false, error: reportError('ReviewsService', error, 'Error al actualizar la reseña') };
         }
     }
 
@@ -152,3 +158,20 @@ export class ReviewsService {
         }
     }
 }
+
+/**
+ * Normalize a `reviews` row (nullable columns → app defaults)
+ */
+function toReview(row: ReviewRow): Review {
+    return {
+        id: row.id,
+        lead_id: row.lead_id ?? '',
+        client_id: row.client_id ?? '',
+        professional_id: row.professional_id ?? '',
+        rating: row.rating ?? 0,
+        comment: row.comment ?? '',
+        created_at: row.created_at ?? new Date().toISOString(),
+    };
+}
+
+outbox.registerHandler<CreateReviewPayload, Review>('review.create', (payload) => ReviewsService.deliverReview(payload));
@@ -1,4 +1,8 @@
-import { supabase } from '@/lib/supabase';
+import { resolveAppointmentStatus } from './leadLifecycle';
+import { LeadsRepository, LeadScheduleRow, getAssignedProfessionalId } from './repositories/leads';
+import { ProfilesRepository } from './repositories/profiles';
+import { ReschedulesRepository } from './repositories/reschedules';
+import { RescheduleProposal, toReschedule } from './reschedules';
 
 /**
  * Sistema de Agendamiento para Clientes
@@ -28,6 +32,18 @@ export interface Appointment {
     price?: number;
 }
 
+/**
+ * Lead agendado con el nombre del profesional (calendario)
+ */
+export type ScheduledService = LeadScheduleRow & {
+    professional?: {
+        full_name: string;
+        user_id: string;
+    };
+    /** Cambio de fecha propuesto que espera respuesta */
+    pending_reschedule?: RescheduleProposal;
+};
+
 export interface TimeSlot {
     id?: string;
     startTime: string;
@@ -47,28 +63,11 @@ export async function getClientAppointments(
 ): Promise<Appointment[]> {
     try {
         // Obtener leads con citas agendadas (sin join para evitar errores)
-        const { data: leadsData, error: leadsError } = await supabase
-            .from('leads')
-            .select(`
-                id,
-                servicio_solicitado,
-                servicio,
-                ubicacion_direccion,
-                agreed_price,
-                price,
-                appointment_date,
-                appointment_time,
-                appointment_status,
-                professional_id,
-                status,
-                updated_at
-            `)
-            .eq('cliente_id', clientId)
-            .not('appointment_date', 'is', null)
-            .gte('appointment_date', startDate.toISOString().split('T')[0])
-            .lte('appointment_date', endDate.toISOString().split('T')[0])
-            .order('appointment_date', { ascending: true })
-            .order('appointment_time', { ascending: true });
+        const { data: leadsData, error: leadsError } = await LeadsRepository.listScheduledByClient(
+            clientId,
+            startDate.toISOString().split('T')[0],
+            endDate.toISOString().split('T')[0]
+        );
 
         if (leadsError) {
             console.error('[Scheduling] Error fetching appointments:', leadsError);
@@ -79,28 +78,24 @@ export async function getClientAppointments(
 
         // Obtener perfiles de profesionales si hay alguno
         const professionalIds = leadsData
-            .filter(lead => lead.professional_id)
-            .map(lead => lead.professional_id)
-            .filter((id, index, self) => self.indexOf(id) === index) as string[];
+            .map(lead => getAssignedProfessionalId(lead))
+            .filter((id, index, self): id is string => !!id && self.indexOf(id) === index);
 
         let profilesMap: Record<string, { full_name: string }> = {};
         
         if (professionalIds.length > 0) {
-            const { data: profilesData } = await supabase
-                .from('profiles')
-                .select('user_id, full_name')
-                .in('user_id', professionalIds);
+            const { data: profilesData } = await ProfilesRepository.findSummaries(professionalIds);
 
             if (profilesData) {
                 profilesMap = profilesData.reduce((acc, profile) => {
-                    acc[profile.user_id] = { full_name: profile.full_name };
+                    acc[profile.user_id] = { full_name: profile.full_name || 'Profesional' };
                     return acc;
                 }, {} as Record<string, { full_name: string }>);
             }
         }
 
         // Mapear a formato Appointment
-        return leadsData.map((lead: any) => {
+        return leadsData.map((lead): Appointment => {
             const appointmentDate = lead.appointment_date;
             const appointmentTime = lead.appointment_time;
             
@@ -113,18 +108,19 @@ export async function getClientAppointments(
                 scheduledTime = new Date(appointmentDate).toISOString();
             }
 
-            const professionalName = lead.professional_id 
-                ? profilesMap[lead.professional_id]?.full_name 
+            const professionalId = getAssignedProfessionalId(lead);
+            const professionalName = professionalId
+                ? profilesMap[professionalId]?.full_name 
                 : undefined;
 
             return {
                 id: lead.id,
                 lead_id: lead.id,
-                professional_id: lead.professional_id,
+                professional_id: professionalId || undefined,
                 client_id: clientId,
                 scheduled_date: appointmentDate || '',
                 scheduled_time: scheduledTime,
-                status: (lead.appointment_status || lead.status || 'pending') as Appointment['status'],
+                status: resolveAppointmentStatus(lead),
                 service_name: lead.servicio_solicitado || lead.servicio || 'Servicio',
                 professional_name: professionalName || 'Profesional',
                 location: lead.ubicacion_direccion || '',
@@ -146,32 +142,14 @@ export async function getClientScheduledServices(
     clientId: string,
     startDate: Date,
     endDate: Date
-) {
+): Promise<ScheduledService[]> {
     try {
         // Primero obtener los leads
-        const { data: leadsData, error: leadsError } = await supabase
-            .from('leads')
-            .select(`
-                id,
-                servicio_solicitado,
-                servicio,
-                descripcion_proyecto,
-                ubicacion_direccion,
-                agreed_price,
-                price,
-                appointment_date,
-                appointment_time,
-                appointment_status,
-                status,
-                professional_id,
-                updated_at
-            `)
-            .eq('cliente_id', clientId)
-            .not('appointment_date', 'is', null)
-            .gte('appointment_date', startDate.toISOString().split('T')[0])
-            .lte('appointment_date', endDate.toISOString().split('T')[0])
-            .order('appointment_date', { ascending: true })
-            .order('appointment_time', { ascending: true });
+        const { data: leadsData, error: leadsError } = await LeadsRepository.listScheduledByClient(
+            clientId,
+            startDate.toISOString().split('T')[0],
+            endDate.toISOString().split('T')[0]
+        );
 
         if (leadsError) {
             console.error('[Scheduling] Error fetching leads:', leadsError);
@@ -184,23 +162,19 @@ export async function getClientScheduledServices(
 
         // Obtener IDs de profesionales únicos
         const professionalIds = leadsData
-            .filter(lead => lead.professional_id)
-            .map(lead => lead.professional_id)
-            .filter((id, index, self) => self.indexOf(id) === index) as string[];
+            .map(lead => getAssignedProfessionalId(lead))
+            .filter((id, index, self): id is string => !!id && self.indexOf(id) === index);
 
         // Obtener perfiles de profesionales si hay alguno
         let profilesMap: Record<string, { full_name: string; user_id: string }> = {};
         
         if (professionalIds.length > 0) {
-            const { data: profilesData, error: profilesError } = await supabase
-                .from('profiles')
-                .select('user_id, full_name')
-                .in('user_id', professionalIds);
+            const { data: profilesData, error: profilesError } = await ProfilesRepository.findSummaries(professionalIds);
 
             if (!profilesError && profilesData) {
                 profilesMap = profilesData.reduce((acc, profile) => {
                     acc[profile.user_id] = {
-                        full_name: profile.full_name,
+                        full_name: profile.full_name || 'Profesional',
                         user_id: profile.user_id,
                     };
                     return acc;
@@ -208,11 +182,29 @@ export async function getClientScheduledServices(
             }
         }
 
+        // Propuestas de cambio de fecha pendientes (sin la tabla se omiten)
+        const pendingReschedules: Record<string, RescheduleProposal> = {};
+        const { data: reschedulesData, error: reschedulesError } = await ReschedulesRepository.listPendingByLeads(
+            leadsData.map(lead => lead.id)
+        );
+
+        if (reschedulesError) {
+            console.warn('[Scheduling] Could not load pending reschedules:', reschedulesError);
+        } else {
+            (reschedulesData || []).forEach(row => {
+                pendingReschedules[row.lead_id] = toReschedule(row);
+            });
+        }
+
         // Combinar datos
-        return leadsData.map(lead => ({
-            ...lead,
-            professional: lead.professional_id ? profilesMap[lead.professional_id] : undefined,
-        }));
+        return leadsData.map(lead => {
+            const professionalId = getAssignedProfessionalId(lead);
+            return {
+                ...lead,
+                professional: professionalId ? profilesMap[professionalId] : undefined,
+                pending_reschedule: pendingReschedules[lead.id],
+            };
+        });
     } catch (error) {
         console.error('[Scheduling] Error getting scheduled services:', error);
         return [];
@@ -1,5 +1,7 @@
 import { supabase } from '@/lib/supabase';
 import { EmbeddingService } from './ml/embeddings';
+import { ServiceCatalogRepository } from './repositories/serviceCatalog';
+import { ProfilesRepository } from './repositories/profiles';
 
 export interface SearchResult {
     id: string;
@@ -35,11 +37,8 @@ export class SearchService {
                     // Obtener detalles completos de los servicios encontrados
                     for (const semantic of semanticResults) {
                         if (semantic.similarity >= 0.3) { // Filtrar similitudes muy bajas
-                            const { data: serviceData } = await supabase
-                                .from('service_catalog')
-                                .select('id, service_name, description, discipline, min_price, is_active')
+                            const { data: serviceData } = await ServiceCatalogRepository.queryActive()
                                 .eq('id', semantic.service_id)
-                                .eq('is_active', true)
                                 .single();
 
                             if (serviceData && !seenIds.has(serviceData.id)) {
@@ -67,10 +66,7 @@ export class SearchService {
             // 2. BÚSQUEDA TRADICIONAL (solo si no hay suficientes resultados semánticos)
             if (results.length < 5) {
                 // Search in services (service_catalog)
-                const { data: services, error: servicesError } = await supabase
-                    .from('service_catalog')
-                    .select('id, service_name, description, discipline, min_price')
-                    .eq('is_active', true)
+                const { data: services, error: servicesError } = await ServiceCatalogRepository.queryActive()
                     .ilike('service_name', `%${searchTerm}%`)
                     .limit(10);
 
@@ -93,20 +89,9 @@ export class SearchService {
                     });
                 }
 
-                // Search in professionals
-                const { data: professionals, error: professionalsError } = await supabase
-                    .from('profiles')
-                    .select(`
-                        user_id,
-                        full_name,
-                        avatar_url,
-                        specialties,
-                        rating,
-                        completed_jobs
-                    `)
-                    .eq('user_type', 'professional')
-                    .or(`full_name.ilike.%${searchTerm}%,specialties.ilike.%${searchTerm}%`)
-                    .limit(10);
+                // Search in professionals (profession / calificacion_promedio son las columnas reales de profiles)
+                const { data: professionals, error: professionalsError } = await ProfilesRepository
+                    .searchProfessionals(searchTerm, 10);
 
                 if (!professionalsError && professionals) {
                     professionals.forEach((prof) => {
@@ -115,10 +100,10 @@ export class SearchService {
                             results.push({
                                 id: prof.user_id,
                                 type: 'professional',
-                                title: prof.full_name,
-                                description: prof.specialties,
-                                image: prof.avatar_url,
-                                rating: prof.rating,
+                                title: prof.full_name || 'Profesional',
+                                description: prof.profession ?? undefined,
+                                image: prof.avatar_url ?? undefined,
+                                rating: prof.calificacion_promedio ?? undefined,
                                 data: prof,
                             });
                         }
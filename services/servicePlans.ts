@@ -0,0 +1,423 @@
+import { validateUUID, ValidationResult } from './validation';
+import { cache, CacheKeys } from './cache';
+import { requestExecutor, RequestPolicies } from './requestExecutor';
+import { LEAD_STATUS_LABELS, resolveLeadStatus } from './leadLifecycle';
+import { AppError, assertValid, isMissingTableError, toAppError } from './errors';
+import { LeadsRepository } from './repositories/leads';
+import { ServicePlansRepository, ServicePlanRow, ServicePlanUpdate } from './repositories/servicePlans';
+
+/**
+ * Service Plans - Mantenimiento recurrente (minisplit, fumigación, jardín, CCTV)
+ * Un plan repite un servicio completado cada N semanas o meses con el mismo profesional.
+ * El lead de cada visita lo crea generate_service_plan_leads() unos días antes; el
+ * calendario muestra las visitas que todavía no tienen lead.
+ */
+
+export type PlanFrequencyUnit = 'week' | 'month';
+
+export type PlanTimeWindow = 'morning' | 'afternoon' | 'evening';
+
+export type ServicePlanStatus = 'active' | 'paused' | 'cancelled';
+
+export interface PlanFrequency {
+    unit: PlanFrequencyUnit;
+    interval: number;
+}
+
+export interface ServicePlan {
+    id: string;
+    client_id: string;
+    source_lead_id: string | null;
+    service_name: string;
+    discipline: string | null;
+    description: string;
+    address: string | null;
+    price: number | null;
+    preferred_professional_id: string | null;
+    frequency: PlanFrequency;
+    time_window: PlanTimeWindow;
+    /** Primera visita: define el día de la semana o del mes */
+    anchor_date: string;
+    /** Próxima visita sin lead (YYYY-MM-DD) */
+    next_occurrence: string;
+    /** Días de anticipación con que se crea el lead */
+    lead_days_ahead: number;
+    status: ServicePlanStatus;
+    created_at: string | null;
+}
+
+/** Visita futura de un plan que todavía no tiene lead */
+export interface PlanOccurrence {
+    plan: ServicePlan;
+    /** YYYY-MM-DD */
+    date: string;
+}
+
+export const PLAN_FREQUENCY_OPTIONS: PlanFrequency[] = [
+    { unit: 'week', interval: 1 },
+    { unit: 'week', interval: 2 },
+    { unit: 'month', interval: 1 },
+    { unit: 'month', interval: 2 },
+    { unit: 'month', interval: 3 },
+    { unit: 'month', interval: 6 },
+];
+
+export const PLAN_TIME_WINDOWS: Record<PlanTimeWindow, { label: string; start: string }> = {
+    morning: { label: 'Mañana (9 a 13 h)', start: '09:00' },
+    afternoon: { label: 'Tarde (13 a 17 h)', start: '13:00' },
+    evening: { label: 'Noche (17 a 20 h)', start: '17:00' },
+};
+
+export const PLAN_STATUS_LABELS: Record<ServicePlanStatus, string> = {
+    active: 'Activo',
+    paused: 'En pausa',
+    cancelled: 'Cancelado',
+};
+
+/** Días de anticipación con que se crea el lead de cada visita (lead_days_ahead por defecto en SQL) */
+export const PLAN_LEAD_DAYS_AHEAD = 7;
+
+const MAX_PLAN_INTERVAL = 12;
+const PLAN_TIME_WINDOW_KEYS = Object.keys(PLAN_TIME_WINDOWS) as PlanTimeWindow[];
+
+function toDateKey(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function fromDateKey(value: string): Date {
+    const [year, month, day] = value.split('-').map(Number);
+    return new Date(year, month - 1, day);
+}
+
+/**
+ * Fecha de la visita número `index` contando desde la primera
+ * Los meses se calculan desde la fecha ancla y se ajustan al último día del mes,
+ * igual que service_plan_occurrence() en SQL
+ */
+export function getOccurrenceDate(anchorDate: string, frequency: PlanFrequency, index: number): string {
+    const anchor = fromDateKey(anchorDate);
+    if (frequency.unit === 'week') {
+        return toDateKey(new Date(anchor.getFullYear(), anchor.getMonth(), anchor.getDate() + index * frequency.interval * 7));
+    }
+    const monthIndex = anchor.getMonth() + index * frequency.interval;
+    const lastDay = new Date(anchor.getFullYear(), monthIndex + 1, 0).getDate();
+    return toDateKey(new Date(anchor.getFullYear(), monthIndex, Math.min(anchor.getDate(), lastDay)));
+}
+
+/**
+ * Primera visita posterior a `after` (YYYY-MM-DD)
+ */
+export function getNextOccurrenceAfter(anchorDate: string, frequency: PlanFrequency, after: string): string {
+    let index = 0;
+    let date = getOccurrenceDate(anchorDate, frequency, index);
+    while (date <= after && index < 1000) {
+        index += 1;
+        date = getOccurrenceDate(anchorDate, frequency, index);
+    }
+    return date;
+}
+
+/**
+ * Visitas sin lead de los planes activos dentro del rango, en orden de fecha
+ */
+export function getUpcomingOccurrences(plans: ServicePlan[], from: Date, to: Date): PlanOccurrence[] {
+    const fromKey = toDateKey(from);
+    const toKey = toDateKey(to);
+    const occurrences: PlanOccurrence[] = [];
+
+    plans.filter(plan => plan.status === 'active').forEach(plan => {
+        let date = plan.next_occurrence;
+        while (date <= toKey) {
+            if (date >= fromKey) {
+                occurrences.push({ plan, date });
+            }
+            date = getNextOccurrenceAfter(plan.anchor_date, plan.frequency, date);
+        }
+    });
+
+    return occurrences.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export function formatPlanFrequency(frequency: PlanFrequency): string {
+    if (frequency.interval === 1) {
+        return frequency.unit === 'week' ? 'Cada semana' : 'Cada mes';
+    }
+    return `Cada ${frequency.interval} ${frequency.unit === 'week' ? 'semanas' : 'meses'}`;
+}
+
+/**
+ * Frecuencia, día preferido y franja: "Cada 2 semanas · martes · Mañana (9 a 13 h)"
+ */
+export function describePlanSchedule(plan: Pick<ServicePlan, 'frequency' | 'anchor_date' | 'time_window'>): string {
+    const anchor = fromDateKey(plan.anchor_date);
+    const day = plan.frequency.unit === 'week'
+        ? `los ${anchor.toLocaleDateString('es-MX', { weekday: 'long' })}`
+        : `día ${anchor.getDate()}`;
+    return `${formatPlanFrequency(plan.frequency)} · ${day} · ${PLAN_TIME_WINDOWS[plan.time_window].label}`;
+}
+
+export function formatOccurrenceDate(date: string): string {
+    return fromDateKey(date).toLocaleDateString('es-MX', { weekday: 'short', day: 'numeric', month: 'short' });
+}
+
+export function validatePlanFrequency(frequency: PlanFrequency): ValidationResult {
+    if (
+        (frequency.unit !== 'week' && frequency.unit !== 'month')
+        || !Number.isInteger(frequency.interval)
+        || frequency.interval < 1
+        || frequency.interval > MAX_PLAN_INTERVAL
+    ) {
+        return {
+            valid: false,
+            error: { code: 'INVALID_PLAN_FREQUENCY', message: 'Elige cada cuántas semanas o meses quieres el servicio' },
+        };
+    }
+    return { valid: true };
+}
+
+export function toServicePlan(row: ServicePlanRow): ServicePlan {
+    return {
+        id: row.id,
+        client_id: row.client_id,
+        source_lead_id: row.source_lead_id,
+        service_name: row.service_name,
+        discipline: row.discipline,
+        description: row.description,
+        address: row.address,
+        price: row.price !== null ? Number(row.price) : null,
+        preferred_professional_id: row.preferred_professional_id,
+        frequency: {
+            unit: row.frequency_unit === 'week' ? 'week' : 'month',
+            interval: Number(row.frequency_interval),
+        },
+        time_window: PLAN_TIME_WINDOW_KEYS.includes(row.time_window as PlanTimeWindow)
+            ? row.time_window as PlanTimeWindow
+            : 'morning',
+        anchor_date: row.anchor_date,
+        next_occurrence: row.next_occurrence,
+        lead_days_ahead: Number(row.lead_days_ahead),
+        status: row.status === 'paused' || row.status === 'cancelled' ? row.status : 'active',
+        created_at: row.created_at,
+    };
+}
+
+export class ServicePlansService {
+    /**
+     * Planes activos y en pausa del cliente
+     */
+    static async getPlans(clientId: string, signal?: AbortSignal): Promise<ServicePlan[]> {
+        assertValid(validateUUID(clientId));
+
+        const { data, error } = await requestExecutor.execute(
+            requestSignal => ServicePlansRepository.listByClient(clientId, requestSignal),
+            {
+                key: CacheKeys.servicePlans(clientId),
+                signal,
+                policy: RequestPolicies.read,
+                timeoutMessage: 'Timeout al obtener los planes de mantenimiento',
+            }
+        );
+
+        if (error) {
+            // Migración pendiente: la app funciona sin planes
+            if (isMissingTableError(error)) {
+                console.warn('[ServicePlansService] service_plans table not found, run SCHEMA_PLANES_MANTENIMIENTO.sql');
+                return [];
+            }
+            throw toAppError(error, 'No se pudieron obtener tus planes de mantenimiento');
+        }
+
+        return (data || []).map(toServicePlan);
+    }
+
+    /**
+     * Crear un plan a partir de un servicio completado (mismo servicio, dirección y profesional)
+     */
+    static async createPlanFromLead(params: {
+        leadId: string;
+        clientId: string;
+        frequency: PlanFrequency;
+        timeWindow: PlanTimeWindow;
+        /** Primera visita (YYYY-MM-DD) */
+        firstDate: string;
+    }, now: Date = new Date()): Promise<ServicePlan> {
+        const { leadId, clientId, frequency, timeWindow, firstDate } = params;
+        assertValid(validateUUID(leadId));
+        assertValid(validatePlanFrequency(frequency));
+
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(firstDate) || firstDate <= toDateKey(now)) {
+            throw new AppError('validation', {
+                code: 'service_plan.invalid_first_date',
+                userMessage: 'Elige una fecha a partir de mañana para la primera visita',
+            });
+        }
+
+        const { data: lead, error: fetchError } = await requestExecutor.execute(
+            signal => LeadsRepository.findById(leadId, signal),
+            { policy: RequestPolicies.read, timeoutMessage: 'Timeout al obtener la solicitud' }
+        );
+        if (fetchError || !lead) {
+            throw toAppError(fetchError, 'Solicitud no encontrada');
+        }
+        if (lead.cliente_id !== clientId) {
+            throw new AppError('permission', {
+                code: 'service_plan.not_owner',
+                userMessage: 'No tienes permisos para programar esta solicitud',
+            });
+        }
+
+        const status = resolveLeadStatus(lead);
+        if (status !== 'completed') {
+            throw new AppError('transition', {
+                code: 'service_plan.lead_not_completed',
+                userMessage: `La solicitud está ${LEAD_STATUS_LABELS[status].toLowerCase()}; el mantenimiento se programa al completar el servicio`,
+            });
+        }
+
+        // Servicio, dirección, precio acordado y profesional los copia el servidor desde el lead
+        const { data, error } = await requestExecutor.execute(
+            signal => ServicePlansRepository.createFromLead({
+                p_lead_id: leadId,
+                p_frequency_unit: frequency.unit,
+                p_frequency_interval: frequency.interval,
+                p_time_window: timeWindow,
+                p_first_date: firstDate,
+            }, signal),
+            { policy: RequestPolicies.write, timeoutMessage: 'Timeout al crear el plan de mantenimiento' }
+        );
+
+        if (error || !data) {
+            throw toAppError(error, 'No se pudo crear el plan de mantenimiento');
+        }
+
+        cache.invalidate(CacheKeys.servicePlans(clientId));
+        return toServicePlan(data);
+    }
+
+    private static async updatePlan(
+        plan: ServicePlan,
+        clientId: string,
+        changes: ServicePlanUpdate,
+        fallbackMessage: string
+    ): Promise<ServicePlan> {
+        assertValid(validateUUID(plan.id));
+
+        if (plan.status === 'cancelled') {
+            throw new AppError('transition', {
+                code: 'service_plan.cancelled',
+                userMessage: 'Este plan ya está cancelado',
+            });
+        }
+
+        const { data, error } = await requestExecutor.execute(
+            signal => ServicePlansRepository.update(plan.id, clientId, {
+                ...changes,
+                updated_at: new Date().toISOString(),
+            }, signal),
+            { policy: RequestPolicies.write, timeoutMessage: 'Timeout al actualizar el plan de mantenimiento' }
+        );
+
+        if (error || !data) {
+            throw toAppError(error, fallbackMessage);
+        }
+
+        cache.invalidate(CacheKeys.servicePlans(clientId));
+        return toServicePlan(data);
+    }
+
+    /**
+     * Saltar la próxima visita; devuelve la nueva fecha
+     */
+    static async skipNextOccurrence(plan: ServicePlan, clientId: string): Promise<string> {
+        assertValid(validateUUID(plan.id));
+
+        const { data, error } = await requestExecutor.execute(
+            signal => ServicePlansRepository.skipNext(plan.id, signal),
+            { policy: RequestPolicies.write, timeoutMessage: 'Timeout al saltar la visita' }
+        );
+
+        if (error || !data) {
+            throw toAppError(error, 'No se pudo saltar la visita');
+        }
+
+        cache.invalidate(CacheKeys.servicePlans(clientId));
+        return data;
+    }
+
+    static pausePlan(plan: ServicePlan, clientId: string): Promise<ServicePlan> {
+        return this.updatePlan(plan, clientId, { status: 'paused' }, 'No se pudo pausar el plan');
+    }
+
+    /**
+     * Reanudar un plan; el servidor mueve la próxima visita si quedó en el pasado
+     */
+    static async resumePlan(plan: ServicePlan, clientId: string): Promise<ServicePlan> {
+        assertValid(validateUUID(plan.id));
+
+        if (plan.status === 'cancelled') {
+            throw new AppError('transition', {
+                code: 'service_plan.cancelled',
+                userMessage: 'Este plan ya está cancelado',
+            });
+        }
+
+        const { data, error } = await requestExecutor.execute(
+            signal => ServicePlansRepository.resume(plan.id, signal),
+            { policy: RequestPolicies.write, timeoutMessage: 'Timeout al reanudar el plan de mantenimiento' }
+        );
+
+        if (error || !data) {
+            throw toAppError(error, 'No se pudo reanudar el plan');
+        }
+
+        cache.invalidate(CacheKeys.servicePlans(clientId));
+        return toServicePlan(data);
+    }
+
+    /**
+     * Cambiar la frecuencia; la próxima visita se mantiene y pasa a ser la nueva fecha ancla
+     */
+    static changeFrequency(plan: ServicePlan, clientId: string, frequency: PlanFrequency): Promise<ServicePlan> {
+        assertValid(validatePlanFrequency(frequency));
+
+        return this.updatePlan(
+            plan,
+            clientId,
+            {
+                frequency_unit: frequency.unit,
+                frequency_interval: frequency.interval,
+                anchor_date: plan.next_occurrence,
+            },
+            'No se pudo cambiar la frecuencia'
+        );
+    }
+
+    static cancelPlan(plan: ServicePlan, clientId: string): Promise<ServicePlan> {
+        return this.updatePlan(plan, clientId, { status: 'cancelled' }, 'No se pudo cancelar el plan');
+    }
+
+    /**
+     * Crear los leads de las visitas próximas sin esperar al cron diario
+     * Best-effort: sin la migración o sin conexión no hace nada
+     */
+    static async generateDueLeads(clientId: string): Promise<number> {
+        const result = await requestExecutor.execute(
+            signal => ServicePlansRepository.generateDueLeads(signal),
+            { policy: RequestPolicies.write, timeoutMessage: 'Timeout al programar las visitas' }
+        ).catch(error => ({ data: null, error }));
+
+        if (result.error) {
+            console.warn('[ServicePlansService] ⚠️ Plan leads not generated (non-critical):', result.error);
+            return 0;
+        }
+
+        const created = result.data || 0;
+        if (created > 0) {
+            cache.invalidate(CacheKeys.servicePlans(clientId));
+            cache.invalidatePattern(`^${CacheKeys.leads(clientId)}`);
+        }
+        return created;
+    }
+}
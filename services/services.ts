@@ -1,6 +1,9 @@
-import { supabase } from '@/lib/supabase';
 import { Ionicons } from '@expo/vector-icons';
 import { CategoryService, CATEGORY_ORDER } from '@/services/categories';
+import { cache, CacheKeys, CachePolicies } from './cache';
+import { ServiceCatalogRepository, ServiceCatalogRow } from './repositories/serviceCatalog';
+import { PricingRuleSet, parsePricingRules } from './pricingRules';
+import { IntakeFormSchema, parseIntakeFormSchema } from './intakeForms';
 
 export interface ServiceItem {
     id: string;
@@ -20,6 +23,40 @@ export interface ServiceItem {
     unit?: string;
     includes_materials?: boolean;
     is_active?: boolean;
+    /** Reglas de precio del servicio (ver pricingRules) */
+    pricing_rules?: PricingRuleSet;
+    /** Formulario de solicitud del servicio (ver intakeForms) */
+    form_schema?: IntakeFormSchema;
+}
+
+/**
+ * Normalizar una fila de `service_catalog` (columnas nulas → opcionales, precio mínimo 0)
+ * Acepta filas parciales de consultas que seleccionan solo algunas columnas
+ */
+export function toServiceItem(
+    row: Partial<ServiceCatalogRow> & Pick<ServiceCatalogRow, 'id' | 'service_name' | 'discipline'>
+): ServiceItem {
+    return {
+        id: row.id,
+        service_name: row.service_name,
+        discipline: row.discipline,
+        service_type: row.service_type === 'express' || row.service_type === 'pro' ? row.service_type : undefined,
+        min_price: row.min_price ?? 0,
+        max_price: row.max_price ?? undefined,
+        price_type: row.price_type === 'fixed' || row.price_type === 'range' ? row.price_type : 'starting_at',
+        description: row.description ?? undefined,
+        is_popular: row.is_popular ?? undefined,
+        category_group: row.category_group ?? undefined,
+        completed_count: row.completed_count ?? undefined,
+        badge_tags: row.badge_tags ?? undefined,
+        hero_image_url: row.hero_image_url ?? undefined,
+        display_order: row.display_order ?? undefined,
+        unit: row.unit ?? undefined,
+        includes_materials: row.includes_materials ?? undefined,
+        is_active: row.is_active ?? undefined,
+        pricing_rules: parsePricingRules(row.pricing_rules),
+        form_schema: parseIntakeFormSchema(row.form_schema),
+    };
 }
 
 export interface CategoryGroup {
@@ -52,95 +89,98 @@ export class ServicesService {
     /**
      * Obtener proyectos populares con precio fijo (para sección "Proyectos Populares")
      * Elimina duplicados por nombre de servicio
+     * Stale-while-revalidate: se muestra lo guardado en disco y se refresca en segundo plano
      */
-    static async getPopularProjects(): Promise<ServiceItem[]> {
+    static async getPopularProjects(onRevalidate?: (projects: ServiceItem[]) => void): Promise<ServiceItem[]> {
         try {
-            console.log('[ServicesService] 🚀 Fetching popular projects (fixed price)...');
-            const startTime = Date.now();
-            
-            // Obtener servicios con precio fijo y que sean populares
-            // Optimización: seleccionar solo campos necesarios y reducir límite
-            let { data, error } = await supabase
-                .from('service_catalog')
-                .select('id, service_name, discipline, min_price, max_price, price_type, is_popular, completed_count, display_order, description')
-                .eq('is_active', true)
+            return await cache.staleWhileRevalidate(
+                CacheKeys.popularProjects(),
+                () => this.fetchPopularProjects(),
+                { ...CachePolicies.popularProjects, onRevalidate }
+            );
+        } catch (error) {
+            console.error('[ServicesService] 💥 Exception getting popular projects:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Consultar proyectos populares en Supabase (lanza error para no cachear fallos)
+     */
+    private static async fetchPopularProjects(): Promise<ServiceItem[]> {
+        console.log('[ServicesService] 🚀 Fetching popular projects (fixed price)...');
+        const startTime = Date.now();
+        
+        // Obtener servicios con precio fijo y que sean populares
+        // Optimización: seleccionar solo campos necesarios y reducir límite
+        const { data: popular, error } = await ServiceCatalogRepository
+            .listPopularFixedPrice(12); // Reducido de 15 a 12 para mejor performance
+        let data = popular?.map(toServiceItem) ?? null;
+
+        if (error) {
+            console.error('[ServicesService] ❌ Error fetching popular projects:', error);
+            // Fallback: obtener servicios con precio fijo sin filtro is_popular
+            const { data: data2, error: error2 } = await ServiceCatalogRepository.queryActive()
                 .eq('price_type', 'fixed')
-                .eq('is_popular', true)
                 .order('completed_count', { ascending: false, nullsFirst: false })
-                .order('display_order', { ascending: true, nullsFirst: false })
-                .limit(12); // Reducido de 15 a 12 para mejor performance
-
-            if (error) {
-                console.error('[ServicesService] ❌ Error fetching popular projects:', error);
-                // Fallback: obtener servicios con precio fijo sin filtro is_popular
-                const { data: data2, error: error2 } = await supabase
-                    .from('service_catalog')
-                    .select('*')
-                    .eq('is_active', true)
-                    .eq('price_type', 'fixed')
-                    .order('completed_count', { ascending: false, nullsFirst: false })
-                    .limit(20);
-                
-                if (error2) {
-                    console.error('[ServicesService] ❌ Error fetching fixed price services:', error2);
-                    return [];
-                }
-                
-                data = data2;
+                .limit(20);
+            
+            if (error2) {
+                console.error('[ServicesService] ❌ Error fetching fixed price services:', error2);
+                throw error2;
             }
+            
+            data = data2.map(toServiceItem);
+        }
 
-            if (!data || data.length === 0) {
-                console.log('[ServicesService] ⚠️ No popular projects found');
-                return [];
-            }
+        if (!data || data.length === 0) {
+            console.log('[ServicesService] ⚠️ No popular projects found');
+            return [];
+        }
 
-            // Eliminar duplicados: mantener solo el primero por nombre de servicio + disciplina
-            // Priorizar el que tiene mayor completed_count
-            const seen = new Map<string, ServiceItem>();
+        // Eliminar duplicados: mantener solo el primero por nombre de servicio + disciplina
+        // Priorizar el que tiene mayor completed_count
+        const seen = new Map<string, ServiceItem>();
+        
+        for (const item of data) {
+            const key = `${item.service_name?.toLowerCase().trim()}_${item.discipline?.toLowerCase().trim()}`;
+            const existing = seen.get(key);
             
-            for (const item of data) {
-                const key = `${item.service_name?.toLowerCase().trim()}_${item.discipline?.toLowerCase().trim()}`;
-                const existing = seen.get(key);
+            if (!existing) {
+                // Primera vez que vemos este servicio
+                seen.set(key, item);
+            } else {
+                // Ya existe, comparar completed_count
+                const currentCount = item.completed_count || 0;
+                const existingCount = existing.completed_count || 0;
                 
-                if (!existing) {
-                    // Primera vez que vemos este servicio
+                if (currentCount > existingCount) {
+                    // Este tiene más completados, reemplazar
+                    console.log('[ServicesService] 🔄 Replacing duplicate (higher count):', item.service_name, item.discipline);
                     seen.set(key, item);
                 } else {
-                    // Ya existe, comparar completed_count
-                    const currentCount = item.completed_count || 0;
-                    const existingCount = existing.completed_count || 0;
-                    
-                    if (currentCount > existingCount) {
-                        // Este tiene más completados, reemplazar
-                        console.log('[ServicesService] 🔄 Replacing duplicate (higher count):', item.service_name, item.discipline);
-                        seen.set(key, item);
-                    } else {
-                        // Mantener el existente
-                        console.log('[ServicesService] ⚠️ Duplicate removed:', item.service_name, item.discipline);
-                    }
+                    // Mantener el existente
+                    console.log('[ServicesService] ⚠️ Duplicate removed:', item.service_name, item.discipline);
                 }
             }
-
-            // Convertir a array y ordenar por completed_count
-            const unique = Array.from(seen.values());
-            unique.sort((a, b) => {
-                const countA = a.completed_count || 0;
-                const countB = b.completed_count || 0;
-                if (countB !== countA) return countB - countA;
-                // Si tienen el mismo count, ordenar por precio
-                return (a.min_price || 0) - (b.min_price || 0);
-            });
-
-            // Limitar a 10 después de eliminar duplicados
-            const result = unique.slice(0, 10);
-            
-            const loadTime = Date.now() - startTime;
-            console.log('[ServicesService] 📦 Popular projects found:', data.length, '→ unique:', result.length, `(${loadTime}ms)`);
-            return result;
-        } catch (error) {
-            console.error('[ServicesService] 💥 Exception getting popular projects:', error);
-            return [];
         }
+
+        // Convertir a array y ordenar por completed_count
+        const unique = Array.from(seen.values());
+        unique.sort((a, b) => {
+            const countA = a.completed_count || 0;
+            const countB = b.completed_count || 0;
+            if (countB !== countA) return countB - countA;
+            // Si tienen el mismo count, ordenar por precio
+            return (a.min_price || 0) - (b.min_price || 0);
+        });
+
+        // Limitar a 10 después de eliminar duplicados
+        const result = unique.slice(0, 10);
+        
+        const loadTime = Date.now() - startTime;
+        console.log('[ServicesService] 📦 Popular projects found:', data.length, '→ unique:', result.length, `(${loadTime}ms)`);
+        return result;
     }
 
     /**
@@ -151,10 +191,7 @@ export class ServicesService {
             console.log('[ServicesService] 🚀 Fetching popular services...');
             
             // Intentar primero con is_popular = true
-            let { data, error } = await supabase
-                .from('service_catalog')
-                .select('*')
-                .eq('is_active', true)
+            let { data, error } = await ServiceCatalogRepository.queryActive()
                 .eq('is_popular', true)
                 .order('display_order', { ascending: true, nullsFirst: false })
                 .order('min_price', { ascending: true })
@@ -163,10 +200,7 @@ export class ServicesService {
             if (error) {
                 console.error('[ServicesService] ❌ Error fetching popular services (with is_popular):', error);
                 // Intentar sin filtro is_popular
-                const { data: data2, error: error2 } = await supabase
-                    .from('service_catalog')
-                    .select('*')
-                    .eq('is_active', true)
+                const { data: data2, error: error2 } = await ServiceCatalogRepository.queryActive()
                     .order('min_price', { ascending: true })
                     .limit(10);
                 
@@ -187,7 +221,7 @@ export class ServicesService {
 
             // Si hay servicios con is_popular, usarlos; si no, usar los primeros
             const popular = data.filter(s => s.is_popular === true);
-            const result = popular.length > 0 ? popular : data.slice(0, 5);
+            const result = (popular.length > 0 ? popular : data.slice(0, 5)).map(toServiceItem);
             
             console.log('[ServicesService] ✅ Returning', result.length, 'popular services');
             return result;
@@ -202,10 +236,7 @@ export class ServicesService {
      */
     static async getServicesByCategoryGroup(group: string): Promise<ServiceItem[]> {
         try {
-            let query = supabase
-                .from('service_catalog')
-                .select('*')
-                .eq('is_active', true);
+            let query = ServiceCatalogRepository.queryActive();
 
             // Si existe category_group, filtrar por él
             // Si no, mapear grupos a disciplinas
@@ -229,7 +260,7 @@ export class ServicesService {
                 return [];
             }
 
-            return data || [];
+            return (data || []).map(toServiceItem);
         } catch (error) {
             console.error('[ServicesService] Error getting services by group:', error);
             return [];
@@ -293,10 +324,7 @@ export class ServicesService {
         try {
             console.log('[ServicesService] 🚀 Fetching all services grouped by discipline...');
 
-            const { data, error } = await supabase
-                .from('service_catalog')
-                .select('*')
-                .eq('is_active', true)
+            const { data, error } = await ServiceCatalogRepository.queryActive()
                 .order('display_order', { ascending: true, nullsFirst: false })
                 .order('completed_count', { ascending: false, nullsFirst: false })
                 .order('min_price', { ascending: true })
@@ -312,7 +340,7 @@ export class ServicesService {
                 return [];
             }
 
-            const result = this.groupServicesByDiscipline(data);
+            const result = this.groupServicesByDiscipline(data.map(toServiceItem));
             console.log(`[ServicesService] ✅ Discipline sections: ${result.length}`);
             return result;
         } catch (error) {
@@ -335,10 +363,7 @@ export class ServicesService {
         }
     ): Promise<ServiceItem[]> {
         try {
-            let queryBuilder = supabase
-                .from('service_catalog')
-                .select('*')
-                .eq('is_active', true);
+            let queryBuilder = ServiceCatalogRepository.queryActive();
 
             // Búsqueda por texto
             if (query && query.trim().length > 0) {
@@ -371,7 +396,7 @@ export class ServicesService {
                 return [];
             }
 
-            return data || [];
+            return (data || []).map(toServiceItem);
         } catch (error) {
             console.error('[ServicesService] Error searching services:', error);
             return [];
@@ -383,11 +408,7 @@ export class ServicesService {
      */
     static async getServicesByDiscipline(discipline: string): Promise<ServiceItem[]> {
         try {
-            const { data, error } = await supabase
-                .from('service_catalog')
-                .select('*')
-                .eq('discipline', discipline)
-                .eq('is_active', true)
+            const { data, error } = await ServiceCatalogRepository.listByDiscipline(discipline)
                 .order('min_price', { ascending: true });
 
             if (error) {
@@ -395,7 +416,7 @@ export class ServicesService {
                 return [];
             }
 
-            return data || [];
+            return (data || []).map(toServiceItem);
         } catch (error) {
             console.error('[ServicesService] Error getting services by discipline:', error);
             return [];
@@ -407,11 +428,8 @@ export class ServicesService {
      */
     static async getFixedPriceServices(): Promise<ServiceItem[]> {
         try {
-            const { data, error } = await supabase
-                .from('service_catalog')
-                .select('*')
+            const { data, error } = await ServiceCatalogRepository.queryActive()
                 .eq('price_type', 'fixed')
-                .eq('is_active', true)
                 .order('min_price', { ascending: true })
                 .limit(10);
 
@@ -420,7 +438,7 @@ export class ServicesService {
                 return [];
             }
 
-            return data || [];
+            return (data || []).map(toServiceItem);
         } catch (error) {
             console.error('[ServicesService] Error getting fixed price services:', error);
             return [];
@@ -4,6 +4,8 @@
  * Alineado con TulBoxPros
  */
 
+import { KNOWN_LEAD_STATUS_VALUES } from './leadLifecycle';
+
 // UUID v4 regex pattern
 const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
 
@@ -114,10 +116,11 @@ export function validateCoordinates(
 
 /**
  * Valida estado de trabajo/lead
+ * Por defecto acepta cualquier estado reconocido por la máquina de estados (modernos y legacy)
  */
 export function validateJobStatus(
     status: string | null | undefined,
-    validStatuses: string[] = ['pending', 'accepted', 'en_camino', 'en_sitio', 'en_progreso', 'completed', 'cancelled']
+    validStatuses: string[] = KNOWN_LEAD_STATUS_VALUES
 ): ValidationResult {
     if (!status) {
         return {
@@ -221,13 +224,117 @@ export function validatePrice(price: number | null | undefined): ValidationResul
     return { valid: true };
 }
 
+// RFC: 3 letras (persona moral) o 4 (persona física), fecha AAMMDD y homoclave
+const RFC_REGEX = /^([A-ZÑ&]{3,4})(\d{2})(\d{2})(\d{2})([A-Z0-9]{2})([0-9A])$/;
+const RFC_CHECKSUM_DICTIONARY = '0123456789ABCDEFGHIJKLMN&OPQRSTUVWXYZ Ñ';
+/** RFC genéricos del SAT (público en general y extranjeros); no llevan dígito verificador */
+export const GENERIC_RFCS = ['XAXX010101000', 'XEXX010101000'];
+
+/**
+ * Normaliza un RFC capturado (mayúsculas, sin espacios ni guiones)
+ */
+export function normalizeRFC(rfc: string): string {
+    return rfc.toUpperCase().replace(/[\s-]/g, '');
+}
+
+/**
+ * Dígito verificador del RFC (módulo 11 sobre los primeros 12 caracteres)
+ */
+export function getRFCCheckDigit(rfc: string): string {
+    // Las personas morales se completan a 13 caracteres con un espacio al inicio
+    const padded = rfc.length === 12 ? ` ${rfc}` : rfc;
+    let sum = 0;
+    for (let i = 0; i < 12; i++) {
+        sum += RFC_CHECKSUM_DICTIONARY.indexOf(padded[i]) * (13 - i);
+    }
+    const digit = 11 - (sum % 11);
+    if (digit === 11) return '0';
+    if (digit === 10) return 'A';
+    return String(digit);
+}
+
+/**
+ * Valida formato, fecha y dígito verificador de un RFC
+ */
+export function validateRFC(rfc: string | null | undefined): ValidationResult {
+    if (!rfc) {
+        return {
+            valid: false,
+            error: {
+                code: 'MISSING_RFC',
+                message: 'RFC requerido',
+            },
+        };
+    }
+
+    const normalized = normalizeRFC(rfc);
+    if (GENERIC_RFCS.includes(normalized)) {
+        return { valid: true };
+    }
+
+    const match = RFC_REGEX.exec(normalized);
+    if (!match) {
+        return {
+            valid: false,
+            error: {
+                code: 'INVALID_RFC_FORMAT',
+                message: 'El RFC debe tener 12 caracteres (persona moral) o 13 (persona física)',
+            },
+        };
+    }
+
+    const month = Number(match[3]);
+    const day = Number(match[4]);
+    // Año bisiesto no se puede saber con dos dígitos: se acepta 29 de febrero
+    const daysInMonth = new Date(2000, month, 0).getDate();
+    if (month < 1 || month > 12 || day < 1 || day > daysInMonth) {
+        return {
+            valid: false,
+            error: {
+                code: 'INVALID_RFC_DATE',
+                message: 'La fecha del RFC no es válida',
+            },
+        };
+    }
+
+    if (getRFCCheckDigit(normalized) !== match[6]) {
+        return {
+            valid: false,
+            error: {
+                code: 'INVALID_RFC_CHECKSUM',
+                message: 'El RFC no es válido; revisa la homoclave',
+            },
+        };
+    }
+
+    return { valid: true };
+}
+
+/**
+ * Valida código postal mexicano (5 dígitos)
+ */
+export function validatePostalCode(postalCode: string | null | undefined): ValidationResult {
+    if (!postalCode || !/^\d{5}$/.test(postalCode.trim())) {
+        return {
+            valid: false,
+            error: {
+                code: 'INVALID_POSTAL_CODE',
+                message: 'El código postal debe tener 5 dígitos',
+            },
+        };
+    }
+
+    return { valid: true };
+}
+
 /**
  * Helper para crear timeout promise
  */
 export function createTimeoutPromise(timeoutMs: number, errorMessage: string = 'Operación excedió el tiempo límite'): Promise<never> {
     return new Promise((_, reject) => {
         setTimeout(() => {
-            reject(new Error(errorMessage));
+            // `code` permite distinguir el timeout de otros errores (ver services/errors.ts)
+            reject(Object.assign(new Error(errorMessage), { code: 'TIMEOUT' }));
         }, timeoutMs);
     });
 }
@@ -237,7 +344,7 @@ export function createTimeoutPromise(timeoutMs: number, errorMessage: string = '
  * IMPORTANTE: Esta función preserva el formato de respuesta de Supabase { data, error }
  */
 export async function withTimeout<T extends { data: any; error: any }>(
-    promise: any,
+    promise: PromiseLike<T>,
     timeoutMs: number,
     errorMessage?: string
 ): Promise<T> {
@@ -0,0 +1,1173 @@
+/**
+ * Fake Supabase - Cliente de Supabase en memoria para pruebas
+ * Implementa la parte de supabase-js que usan los repositorios y servicios:
+ * - Tablas con filtros, orden, límite, embeds (`alias:tabla!fk(cols)`), single/maybeSingle
+ * - Escrituras (insert/update/delete/upsert) con llave primaria y columnas únicas
+ * - RPCs registrables (`update_lead_details`, `cancel_lead` y `find_similar_services` vienen incluidas)
+ * - Canales realtime: las escrituras emiten `postgres_changes` a los canales suscritos
+ * - Historial de leads: crear un lead o cambiar su estado o cita agrega su `lead_events`, como los triggers
+ * - Buckets de storage (upload, getPublicUrl, remove, download)
+ * Los errores usan los mismos códigos de Postgres/PostgREST que services/errors.ts.
+ */
+
+export type Row = Record<string, any>;
+
+export interface FakeError {
+    message: string;
+    code: string;
+    details?: string | null;
+    hint?: string | null;
+}
+
+export interface FakeResponse<T = any> {
+    data: T;
+    error: FakeError | null;
+    count?: number | null;
+    status: number;
+    statusText: string;
+}
+
+export type FakeOperation = 'select' | 'insert' | 'update' | 'delete' | 'upsert' | 'rpc';
+
+export type RpcHandler = (args: Record<string, any>, db: FakeSupabase) => any;
+
+export type RealtimeEvent = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface FakeSupabaseOptions {
+    /** Llave primaria por tabla (por defecto `id`; `profiles` usa `user_id`) */
+    primaryKeys?: Record<string, string>;
+    /** Columnas con restricción UNIQUE por tabla (p. ej. una reseña por lead) */
+    uniqueColumns?: Record<string, string[]>;
+    /** Latencia simulada de cada consulta en ms (0 = siguiente microtarea) */
+    latencyMs?: number;
+}
+
+const DEFAULT_PRIMARY_KEYS: Record<string, string> = {
+    profiles: 'user_id',
+    professional_stats: 'user_id',
+};
+
+const STORAGE_BASE_URL = 'http://localhost:54321/storage/v1/object/public';
+
+/**
+ * Error con el formato de PostgREST
+ */
+export function pgError(code: string, message: string, details: string | null = null): FakeError {
+    return { code, message, details, hint: null };
+}
+
+/** Error de red tal como lo devuelve supabase-js cuando fetch falla */
+export const NETWORK_ERROR: FakeError = {
+    code: '',
+    message: 'TypeError: Network request failed',
+    details: null,
+    hint: null,
+};
+
+const ABORT_ERROR: FakeError = {
+    code: '20',
+    message: 'AbortError: The operation was aborted.',
+    details: null,
+    hint: null,
+};
+
+const clone = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+/**
+ * UUID v4 (compatible con validateUUID)
+ */
+export function fakeUUID(): string {
+    return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+        const r = (Math.random() * 16) | 0;
+        const v = c === 'x' ? r : (r & 0x3) | 0x8;
+        return v.toString(16);
+    });
+}
+
+// ============================================================================
+// Filtros
+// ============================================================================
+
+type Filter = (row: Row) => boolean;
+
+/**
+ * Comparación con semántica SQL: cualquier comparación con NULL es falsa
+ */
+function compare(op: string, actual: any, expected: any): boolean {
+    if (op === 'is') {
+        return expected === null ? actual == null : actual === expected;
+    }
+    if (actual == null) return false;
+
+    switch (op) {
+        case 'eq':
+            return actual === coerce(expected, actual);
+        case 'neq':
+            return actual !== coerce(expected, actual);
+        case 'gt':
+            return actual > coerce(expected, actual);
+        case 'gte':
+            return actual >= coerce(expected, actual);
+        case 'lt':
+            return actual < coerce(expected, actual);
+        case 'lte':
+            return actual <= coerce(expected, actual);
+        case 'like':
+            return likeToRegExp(String(expected), false).test(String(actual));
+        case 'ilike':
+            return likeToRegExp(String(expected), true).test(String(actual));
+        case 'in':
+            return (expected as any[]).some(value => actual === coerce(value, actual));
+        default:
+            throw new Error(`[FakeSupabase] Operador no soportado: ${op}`);
+    }
+}
+
+/**
+ * Los filtros escritos como texto (`or`, `not`) llegan como string; convertir al tipo de la columna
+ */
+function coerce(expected: any, actual: any): any {
+    if (typeof expected !== 'string') return expected;
+    if (typeof actual === 'number') return Number(expected);
+    if (typeof actual === 'boolean') return expected === 'true';
+    return expected;
+}
+
+function likeToRegExp(pattern: string, caseInsensitive: boolean): RegExp {
+    const source = pattern
+        .split('%')
+        .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/_/g, '.'))
+        .join('.*');
+    return new RegExp(`^${source}$`, caseInsensitive ? 'is' : 's');
+}
+
+function parseFilterValue(op: string, raw: string): any {
+    if (op === 'is') {
+        if (raw === 'null') return null;
+        return raw === 'true';
+    }
+    if (op === 'in') {
+        return raw.replace(/^\(|\)$/g, '').split(',').map(v => v.trim().replace(/^"|"$/g, ''));
+    }
+    return raw;
+}
+
+/**
+ * Filtro `or` de PostgREST: `col.op.valor,col.op.valor` (sin grupos anidados)
+ */
+function parseOrFilter(expression: string): Filter {
+    const conditions = splitTopLevel(expression).map(condition => {
+        const [column, op, ...rest] = condition.split('.');
+        const negated = op === 'not';
+        const realOp = negated ? rest.shift()! : op;
+        const value = parseFilterValue(realOp, rest.join('.'));
+        return (row: Row) => {
+            const result = compare(realOp, row[column], value);
+            return negated ? !result && (realOp === 'is' || row[column] != null) : result;
+        };
+    });
+    return row => conditions.some(condition => condition(row));
+}
+
+/**
+ * Separar por comas fuera de paréntesis
+ */
+function splitTopLevel(value: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const char of value) {
+        if (char === '(') depth++;
+        if (char === ')') depth--;
+        if (char === ',' && depth === 0) {
+            parts.push(current);
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    parts.push(current);
+    return parts.map(part => part.trim()).filter(Boolean);
+}
+
+// ============================================================================
+// Proyección (select)
+// ============================================================================
+
+interface ColumnSelection {
+    kind: 'all' | 'column' | 'embed';
+    name: string;
+    alias?: string;
+    /** Columna de llave foránea indicada con `!fk` */
+    hint?: string;
+    columns?: ColumnSelection[];
+}
+
+function parseSelect(columns: string): ColumnSelection[] {
+    return splitTopLevel(columns.replace(/\s+/g, '')).map((item): ColumnSelection => {
+        if (item === '*') return { kind: 'all', name: '*' };
+
+        const embed = item.match(/^(?:(\w+):)?(\w+)(?:!(\w+))?\((.*)\)$/);
+        if (embed) {
+            const [, alias, name, hint, inner] = embed;
+            return { kind: 'embed', name, alias, hint, columns: parseSelect(inner || '*') };
+        }
+
+        const [alias, name] = item.includes(':') ? item.split(':') : [undefined, item];
+        return { kind: 'column', name: name.split('::')[0], alias };
+    });
+}
+
+// ============================================================================
+// Query builder
+// ============================================================================
+
+type ResultMode = 'many' | 'single' | 'maybeSingle';
+
+class FakeQueryBuilder implements PromiseLike<FakeResponse> {
+    private operation: FakeOperation = 'select';
+    private columns = '*';
+    private returning = false;
+    private payload: Row[] = [];
+    private changes: Row = {};
+    private onConflict?: string;
+    private ignoreDuplicates = false;
+    private filters: Filter[] = [];
+    private orders: Array<{ column: string; ascending: boolean; nullsFirst: boolean }> = [];
+    private rowLimit?: number;
+    private rowOffset = 0;
+    private mode: ResultMode = 'many';
+    private countMode?: 'exact' | 'planned' | 'estimated';
+    private head = false;
+    private signal?: AbortSignal;
+
+    constructor(private db: FakeSupabase, private table: string) {}
+
+    select(columns: string = '*', options: { count?: 'exact' | 'planned' | 'estimated'; head?: boolean } = {}) {
+        if (this.operation === 'select') {
+            this.columns = columns;
+        } else {
+            this.returning = true;
+            this.columns = columns;
+        }
+        this.countMode = options.count;
+        this.head = !!options.head;
+        return this;
+    }
+
+    insert(values: Row | Row[]) {
+        this.operation = 'insert';
+        this.payload = Array.isArray(values) ? values : [values];
+        return this;
+    }
+
+    upsert(values: Row | Row[], options: { onConflict?: string; ignoreDuplicates?: boolean } = {}) {
+        this.operation = 'upsert';
+        this.payload = Array.isArray(values) ? values : [values];
+        this.onConflict = options.onConflict;
+        this.ignoreDuplicates = !!options.ignoreDuplicates;
+        return this;
+    }
+
+    update(values: Row) {
+        this.operation = 'update';
+        this.changes = values;
+        return this;
+    }
+
+    delete() {
+        this.operation = 'delete';
+        return this;
+    }
+
+    eq(column: string, value: any) {
+        return this.where(row => compare('eq', row[column], value));
+    }
+
+    neq(column: string, value: any) {
+        return this.where(row => compare('neq', row[column], value));
+    }
+
+    gt(column: string, value: any) {
+        return this.where(row => compare('gt', row[column], value));
+    }
+
+    gte(column: string, value: any) {
+        return this.where(row => compare('gte', row[column], value));
+    }
+
+    lt(column: string, value: any) {
+        return this.where(row => compare('lt', row[column], value));
+    }
+
+    lte(column: string, value: any) {
+        return this.where(row => compare('lte', row[column], value));
+    }
+
+    like(column: string, pattern: string) {
+        return this.where(row => compare('like', row[column], pattern));
+    }
+
+    ilike(column: string, pattern: string) {
+        return this.where(row => compare('ilike', row[column], pattern));
+    }
+
+    is(column: string, value: null | boolean) {
+        return this.where(row => compare('is', row[column], value));
+    }
+
+    in(column: string, values: any[]) {
+        return this.where(row => compare('in', row[column], values));
+    }
+
+    /**
+     * NOT de PostgREST: con NULL la comparación sigue siendo falsa (salvo `is`)
+     */
+    not(column: string, op: string, value: any) {
+        const parsed = typeof value === 'string' ? parseFilterValue(op, value) : value;
+        return this.where(row => {
+            if (op !== 'is' && row[column] == null) return false;
+            return !compare(op, row[column], parsed);
+        });
+    }
+
+    or(expression: string) {
+        return this.where(parseOrFilter(expression));
+    }
+
+    match(query: Row) {
+        Object.entries(query).forEach(([column, value]) => this.eq(column, value));
+        return this;
+    }
+
+    order(column: string, options: { ascending?: boolean; nullsFirst?: boolean } = {}) {
+        const ascending = options.ascending ?? true;
+        // Postgres: NULLS LAST en ASC y NULLS FIRST en DESC por defecto
+        this.orders.push({ column, ascending, nullsFirst: options.nullsFirst ?? !ascending });
+        return this;
+    }
+
+    limit(count: number) {
+        this.rowLimit = count;
+        return this;
+    }
+
+    range(from: number, to: number) {
+        this.rowOffset = from;
+        this.rowLimit = to - from + 1;
+        return this;
+    }
+
+    single() {
+        this.mode = 'single';
+        return this;
+    }
+
+    maybeSingle() {
+        this.mode = 'maybeSingle';
+        return this;
+    }
+
+    abortSignal(signal: AbortSignal) {
+        this.signal = signal;
+        return this;
+    }
+
+    then<TResult1 = FakeResponse, TResult2 = never>(
+        onfulfilled?: ((value: FakeResponse) => TResult1 | PromiseLike<TResult1>) | null,
+        onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+    ): PromiseLike<TResult1 | TResult2> {
+        return this.execute().then(onfulfilled, onrejected);
+    }
+
+    private where(filter: Filter) {
+        this.filters.push(filter);
+        return this;
+    }
+
+    private async execute(): Promise<FakeResponse> {
+        await this.db.wait(this.signal);
+        this.db.recordQuery(this.table, this.operation);
+
+        if (this.signal?.aborted) {
+            return response(null, ABORT_ERROR);
+        }
+
+        const injected = this.db.takeError(this.table, this.operation);
+        if (injected) {
+            return response(null, injected);
+        }
+
+        try {
+            const rows = this.run();
+            return this.shape(rows);
+        } catch (error: any) {
+            if (error && typeof error.code === 'string') {
+                return response(null, error as FakeError);
+            }
+            throw error;
+        }
+    }
+
+    private run(): Row[] {
+        switch (this.operation) {
+            case 'select':
+                return this.sortAndLimit(this.db.rows(this.table).filter(row => this.matches(row)));
+            case 'insert':
+                return this.payload.map(values => this.db.insertRow(this.table, values));
+            case 'upsert':
+                return this.payload
+                    .map(values => this.db.upsertRow(this.table, values, this.onConflict, this.ignoreDuplicates))
+                    .filter((row): row is Row => !!row);
+            case 'update':
+                return this.db.updateRows(this.table, row => this.matches(row), this.changes);
+            case 'delete':
+                return this.db.deleteRows(this.table, row => this.matches(row));
+            default:
+                return [];
+        }
+    }
+
+    private matches(row: Row): boolean {
+        return this.filters.every(filter => filter(row));
+    }
+
+    private sortAndLimit(rows: Row[]): Row[] {
+        const sorted = [...rows].sort((a, b) => {
+            for (const { column, ascending, nullsFirst } of this.orders) {
+                const left = a[column];
+                const right = b[column];
+                if (left == null && right == null) continue;
+                if (left == null) return nullsFirst ? -1 : 1;
+                if (right == null) return nullsFirst ? 1 : -1;
+                if (left < right) return ascending ? -1 : 1;
+                if (left > right) return ascending ? 1 : -1;
+            }
+            return 0;
+        });
+        const end = this.rowLimit === undefined ? undefined : this.rowOffset + this.rowLimit;
+        return sorted.slice(this.rowOffset, end);
+    }
+
+    private shape(rows: Row[]): FakeResponse {
+        const isWrite = this.operation !== 'select';
+        const count = this.countMode ? rows.length : null;
+
+        if (isWrite && !this.returning) {
+            return response(null, null, count, this.operation === 'insert' ? 201 : 204);
+        }
+
+        const projection = parseSelect(this.columns);
+        const data = rows.map(row => this.db.project(this.table, row, projection));
+
+        if (this.head) {
+            return response(null, null, count);
+        }
+
+        if (this.mode === 'many') {
+            return response(data, null, count);
+        }
+
+        if (data.length > 1) {
+            return response(null, pgError('PGRST116', 'JSON object requested, multiple (or no) rows returned', `The result contains ${data.length} rows`), null, 406);
+        }
+        if (data.length === 0) {
+            return this.mode === 'maybeSingle'
+                ? response(null, null, count)
+                : response(null, pgError('PGRST116', 'JSON object requested, multiple (or no) rows returned', 'The result contains 0 rows'), null, 406);
+        }
+        return response(data[0], null, count);
+    }
+}
+
+function response<T>(data: T, error: FakeError | null, count: number | null = null, status?: number): FakeResponse<T> {
+    const resolvedStatus = status ?? (error ? 400 : 200);
+    return { data, error, count, status: resolvedStatus, statusText: error ? 'Error' : 'OK' };
+}
+
+// ============================================================================
+// RPC
+// ============================================================================
+
+class FakeRpcCall implements PromiseLike<FakeResponse> {
+    private mode: ResultMode = 'many';
+    private signal?: AbortSignal;
+
+    constructor(private db: FakeSupabase, private fn: string, private args: Record<string, any>) {}
+
+    single() {
+        this.mode = 'single';
+        return this;
+    }
+
+    maybeSingle() {
+        this.mode = 'maybeSingle';
+        return this;
+    }
+
+    abortSignal(signal: AbortSignal) {
+        this.signal = signal;
+        return this;
+    }
+
+    then<TResult1 = FakeResponse, TResult2 = never>(
+        onfulfilled?: ((value: FakeResponse) => TResult1 | PromiseLike<TResult1>) | null,
+        onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+    ): PromiseLike<TResult1 | TResult2> {
+        return this.execute().then(onfulfilled, onrejected);
+    }
+
+    private async execute(): Promise<FakeResponse> {
+        await this.db.wait(this.signal);
+        this.db.recordQuery(this.fn, 'rpc');
+
+        if (this.signal?.aborted) {
+            return response(null, ABORT_ERROR);
+        }
+
+        const injected = this.db.takeError(this.fn, 'rpc');
+        if (injected) {
+            return response(null, injected);
+        }
+
+        const handler = this.db.getRpc(this.fn);
+        if (!handler) {
+            return response(null, pgError(
+                'PGRST202',
+                `Could not find the function public.${this.fn} in the schema cache`
+            ), null, 404);
+        }
+
+        try {
+            const result = clone(handler(this.args, this.db));
+            if (this.mode !== 'many' && Array.isArray(result)) {
+                return response(result[0] ?? null, null);
+            }
+            return response(result ?? null, null);
+        } catch (error: any) {
+            if (error && typeof error.code === 'string') {
+                return response(null, error as FakeError);
+            }
+            throw error;
+        }
+    }
+}
+
+// ============================================================================
+// Realtime
+// ============================================================================
+
+interface ChannelBinding {
+    type: string;
+    filter: { event?: string; schema?: string; table?: string; filter?: string };
+    callback: (payload: any) => void;
+}
+
+export interface PostgresChangesPayload {
+    schema: string;
+    table: string;
+    commit_timestamp: string;
+    eventType: RealtimeEvent;
+    new: Row;
+    old: Row;
+    errors: null;
+}
+
+export class FakeChannel {
+    state: 'closed' | 'joined' = 'closed';
+    private bindings: ChannelBinding[] = [];
+
+    constructor(readonly topic: string, private db: FakeSupabase) {}
+
+    on(type: string, filter: ChannelBinding['filter'], callback: (payload: any) => void) {
+        this.bindings.push({ type, filter, callback });
+        return this;
+    }
+
+    subscribe(callback?: (status: 'SUBSCRIBED' | 'CLOSED' | 'CHANNEL_ERROR' | 'TIMED_OUT', error?: Error) => void) {
+        this.state = 'joined';
+        this.db.addChannel(this);
+        callback?.('SUBSCRIBED');
+        return this;
+    }
+
+    async unsubscribe(): Promise<'ok'> {
+        this.state = 'closed';
+        this.db.dropChannel(this);
+        return 'ok';
+    }
+
+    /**
+     * Entregar un cambio a los bindings que coinciden (evento, tabla y filtro `col=eq.valor`)
+     */
+    deliver(payload: PostgresChangesPayload): void {
+        if (this.state !== 'joined') return;
+        for (const binding of this.bindings) {
+            if (binding.type !== 'postgres_changes') continue;
+            const { event = '*', schema = 'public', table, filter } = binding.filter;
+            if (event !== '*' && event !== payload.eventType) continue;
+            if (schema !== payload.schema) continue;
+            if (table && table !== payload.table) continue;
+            if (filter && !matchesRealtimeFilter(filter, payload.eventType === 'DELETE' ? payload.old : payload.new)) {
+                continue;
+            }
+            binding.callback(payload);
+        }
+    }
+}
+
+function matchesRealtimeFilter(filter: string, row: Row): boolean {
+    const match = filter.match(/^(\w+)=(\w+)\.(.*)$/);
+    if (!match) return false;
+    const [, column, op, raw] = match;
+    return compare(op, row[column], parseFilterValue(op, raw));
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+interface StoredObject {
+    body: any;
+    contentType?: string;
+    size: number;
+    created_at: string;
+}
+
+class FakeBucket {
+    constructor(private db: FakeSupabase, private bucket: string) {}
+
+    async upload(path: string, body: any, options: { contentType?: string; upsert?: boolean; cacheControl?: string } = {}) {
+        await this.db.wait();
+        const injected = this.db.takeError(`storage:${this.bucket}`, 'insert');
+        if (injected) return { data: null, error: storageError(injected.message, injected.code) };
+
+        const objects = this.db.bucket(this.bucket);
+        if (objects.has(path) && !options.upsert) {
+            return { data: null, error: storageError('The resource already exists', '409') };
+        }
+        objects.set(path, {
+            body,
+            contentType: options.contentType,
+            size: body?.byteLength ?? body?.length ?? body?.size ?? 0,
+            created_at: new Date().toISOString(),
+        });
+        return { data: { id: fakeUUID(), path, fullPath: `${this.bucket}/${path}` }, error: null };
+    }
+
+    async download(path: string) {
+        await this.db.wait();
+        const object = this.db.bucket(this.bucket).get(path);
+        if (!object) return { data: null, error: storageError('Object not found', '404') };
+        return { data: object.body, error: null };
+    }
+
+    async remove(paths: string[]) {
+        await this.db.wait();
+        const injected = this.db.takeError(`storage:${this.bucket}`, 'delete');
+        if (injected) return { data: null, error: storageError(injected.message, injected.code) };
+
+        const objects = this.db.bucket(this.bucket);
+        const removed = paths
+            .filter(path => objects.delete(path))
+            .map(path => ({ name: path, bucket_id: this.bucket }));
+        return { data: removed, error: null };
+    }
+
+    getPublicUrl(path: string) {
+        return { data: { publicUrl: `${STORAGE_BASE_URL}/${this.bucket}/${path}` } };
+    }
+}
+
+function storageError(message: string, statusCode: string) {
+    return Object.assign(new Error(message), { name: 'StorageApiError', statusCode, status: Number(statusCode) || 400 });
+}
+
+// ============================================================================
+// Cliente
+// ============================================================================
+
+export class FakeSupabase {
+    readonly storage = {
+        from: (bucket: string) => new FakeBucket(this, bucket),
+    };
+
+    /** Consultas ejecutadas, en orden (útil para comprobar que no hay N+1) */
+    queries: Array<{ target: string; operation: FakeOperation }> = [];
+
+    private tables: Map<string, Row[]> = new Map();
+    private buckets: Map<string, Map<string, StoredObject>> = new Map();
+    private rpcs: Map<string, RpcHandler> = new Map();
+    private errors: Array<{ target: string; operation: FakeOperation | '*'; error: FakeError; persistent: boolean }> = [];
+    private channels: Set<FakeChannel> = new Set();
+    private primaryKeys: Record<string, string>;
+    private uniqueColumns: Record<string, string[]>;
+    private latencyMs: number;
+
+    constructor(private options: FakeSupabaseOptions = {}) {
+        this.primaryKeys = { ...DEFAULT_PRIMARY_KEYS, ...options.primaryKeys };
+        this.uniqueColumns = { ...options.uniqueColumns };
+        this.latencyMs = options.latencyMs ?? 0;
+        this.registerDefaultRpcs();
+    }
+
+    // ------------------------------------------------------------------
+    // API de supabase-js
+    // ------------------------------------------------------------------
+
+    from(table: string) {
+        return new FakeQueryBuilder(this, table);
+    }
+
+    rpc(fn: string, args: Record<string, any> = {}) {
+        return new FakeRpcCall(this, fn, args);
+    }
+
+    channel(topic: string) {
+        return new FakeChannel(topic, this);
+    }
+
+    async removeChannel(channel: FakeChannel): Promise<'ok'> {
+        return channel.unsubscribe();
+    }
+
+    async removeAllChannels(): Promise<'ok'[]> {
+        return Promise.all([...this.channels].map(channel => channel.unsubscribe()));
+    }
+
+    getChannels(): FakeChannel[] {
+        return [...this.channels];
+    }
+
+    // ------------------------------------------------------------------
+    // Control desde las pruebas
+    // ------------------------------------------------------------------
+
+    /**
+     * Volver al estado inicial (sin filas, errores, canales ni archivos)
+     */
+    reset(options: FakeSupabaseOptions = this.options): void {
+        this.tables.clear();
+        this.buckets.clear();
+        this.rpcs.clear();
+        this.errors = [];
+        this.channels.clear();
+        this.queries = [];
+        this.primaryKeys = { ...DEFAULT_PRIMARY_KEYS, ...options.primaryKeys };
+        this.uniqueColumns = { ...options.uniqueColumns };
+        this.latencyMs = options.latencyMs ?? 0;
+        this.registerDefaultRpcs();
+    }
+
+    /**
+     * Agregar filas tal cual (sin emitir eventos realtime); devuelve copias de las filas guardadas
+     */
+    seed(table: string, rows: Row[]): Row[] {
+        return rows.map(values => this.insertRow(table, values, false));
+    }
+
+    /**
+     * Copia de las filas de una tabla (para aserciones)
+     */
+    getTable(table: string): Row[] {
+        return clone(this.rows(table));
+    }
+
+    getRow(table: string, key: any): Row | undefined {
+        const primaryKey = this.primaryKey(table);
+        const row = this.rows(table).find(r => r[primaryKey] === key);
+        return row ? clone(row) : undefined;
+    }
+
+    /**
+     * Fallar la siguiente operación sobre una tabla/RPC (o todas con `persistent`)
+     * Para storage usar `storage:<bucket>` como destino
+     */
+    failNext(target: string, operation: FakeOperation | '*', error: FakeError, persistent: boolean = false): void {
+        this.errors.push({ target, operation, error, persistent });
+    }
+
+    /**
+     * Simular que no hay conexión para todas las operaciones hasta `goOnline()`
+     */
+    goOffline(): void {
+        this.failNext('*', '*', NETWORK_ERROR, true);
+    }
+
+    goOnline(): void {
+        this.errors = this.errors.filter(entry => !(entry.target === '*' && entry.error === NETWORK_ERROR));
+    }
+
+    registerRpc(name: string, handler: RpcHandler): void {
+        this.rpcs.set(name, handler);
+    }
+
+    unregisterRpc(name: string): void {
+        this.rpcs.delete(name);
+    }
+
+    setLatency(ms: number): void {
+        this.latencyMs = ms;
+    }
+
+    /**
+     * Emitir un cambio realtime manualmente (las escrituras del fake ya emiten los suyos)
+     */
+    emit(table: string, eventType: RealtimeEvent, newRow: Row = {}, oldRow: Row = {}): void {
+        const payload: PostgresChangesPayload = {
+            schema: 'public',
+            table,
+            commit_timestamp: new Date().toISOString(),
+            eventType,
+            new: clone(newRow),
+            old: clone(oldRow),
+            errors: null,
+        };
+        this.channels.forEach(channel => channel.deliver(payload));
+    }
+
+    getObject(bucket: string, path: string): StoredObject | undefined {
+        return this.bucket(bucket).get(path);
+    }
+
+    // ------------------------------------------------------------------
+    // Internos (usados por builders, canales y buckets)
+    // ------------------------------------------------------------------
+
+    /** @internal */
+    rows(table: string): Row[] {
+        if (!this.tables.has(table)) {
+            this.tables.set(table, []);
+        }
+        return this.tables.get(table)!;
+    }
+
+    /** @internal */
+    bucket(name: string): Map<string, StoredObject> {
+        if (!this.buckets.has(name)) {
+            this.buckets.set(name, new Map());
+        }
+        return this.buckets.get(name)!;
+    }
+
+    /** @internal */
+    getRpc(name: string): RpcHandler | undefined {
+        return this.rpcs.get(name);
+    }
+
+    /** @internal */
+    addChannel(channel: FakeChannel): void {
+        this.channels.add(channel);
+    }
+
+    /** @internal */
+    dropChannel(channel: FakeChannel): void {
+        this.channels.delete(channel);
+    }
+
+    /** @internal */
+    recordQuery(target: string, operation: FakeOperation): void {
+        this.queries.push({ target, operation });
+    }
+
+    /** @internal */
+    takeError(target: string, operation: FakeOperation): FakeError | null {
+        const index = this.errors.findIndex(entry =>
+            (entry.target === '*' || entry.target === target) &&
+            (entry.operation === '*' || entry.operation === operation)
+        );
+        if (index === -1) return null;
+        const entry = this.errors[index];
+        if (!entry.persistent) {
+            this.errors.splice(index, 1);
+        }
+        return { ...entry.error };
+    }
+
+    /**
+     * Simular la latencia de red; se interrumpe si se aborta la señal
+     * @internal
+     */
+    wait(signal?: AbortSignal): Promise<void> {
+        if (this.latencyMs <= 0) return Promise.resolve();
+        return new Promise(resolve => {
+            const timer = setTimeout(done, this.latencyMs);
+            function done() {
+                clearTimeout(timer);
+                signal?.removeEventListener('abort', done);
+                resolve();
+            }
+            signal?.addEventListener('abort', done);
+        });
+    }
+
+    /** @internal */
+    insertRow(table: string, values: Row, notify: boolean = true): Row {
+        const primaryKey = this.primaryKey(table);
+        const row: Row = clone(values);
+        if (row[primaryKey] == null && primaryKey === 'id') {
+            row.id = fakeUUID();
+        }
+        if (!('created_at' in row)) {
+            row.created_at = new Date().toISOString();
+        }
+
+        this.assertUnique(table, row);
+        this.rows(table).push(row);
+        if (notify) {
+            this.emit(table, 'INSERT', row);
+            if (table === 'leads') this.logLeadChanges(row);
+        }
+        return clone(row);
+    }
+
+    /** @internal */
+    upsertRow(table: string, values: Row, onConflict: string | undefined, ignoreDuplicates: boolean): Row | null {
+        const columns = (onConflict || this.primaryKey(table)).split(',').map(c => c.trim());
+        const existing = this.rows(table).find(row => columns.every(column => row[column] === values[column]));
+        if (!existing) {
+            return this.insertRow(table, values);
+        }
+        if (ignoreDuplicates) {
+            return null;
+        }
+        const old = clone(existing);
+        Object.assign(existing, clone(values));
+        this.emit(table, 'UPDATE', existing, old);
+        return clone(existing);
+    }
+
+    /** @internal */
+    updateRows(table: string, predicate: Filter, changes: Row): Row[] {
+        const updated: Row[] = [];
+        for (const row of this.rows(table)) {
+            if (!predicate(row)) continue;
+            const old = clone(row);
+            const next = { ...row, ...clone(changes) };
+            this.assertUnique(table, next, row);
+            Object.assign(row, next);
+            this.emit(table, 'UPDATE', row, old);
+            if (table === 'leads') this.logLeadChanges(row, old);
+            updated.push(clone(row));
+        }
+        return updated;
+    }
+
+    /** @internal */
+    deleteRows(table: string, predicate: Filter): Row[] {
+        const rows = this.rows(table);
+        const removed = rows.filter(predicate);
+        this.tables.set(table, rows.filter(row => !predicate(row)));
+        removed.forEach(row => this.emit(table, 'DELETE', {}, row));
+        return clone(removed);
+    }
+
+    /**
+     * Aplicar la proyección del select, resolviendo embeds
+     * - `alias:tabla!fk(cols)`: muchos-a-uno por la columna `fk` de la fila actual
+     * - `tabla(cols)`: uno-a-muchos por la llave primaria de la fila actual
+     * @internal
+     */
+    project(table: string, row: Row, selection: ColumnSelection[]): Row {
+        const result: Row = {};
+        for (const item of selection) {
+            if (item.kind === 'all') {
+                Object.assign(result, clone(row));
+            } else if (item.kind === 'column') {
+                result[item.alias || item.name] = clone(row[item.name] ?? null);
+            } else {
+                result[item.alias || item.name] = this.resolveEmbed(table, row, item);
+            }
+        }
+        return result;
+    }
+
+    private resolveEmbed(table: string, row: Row, embed: ColumnSelection): Row | Row[] | null {
+        const target = embed.name;
+        const targetKey = this.primaryKey(target);
+
+        if (embed.hint && embed.hint in row) {
+            const related = this.rows(target).find(r => r[targetKey] === row[embed.hint!]);
+            return related ? this.project(target, related, embed.columns!) : null;
+        }
+
+        const sourceKey = this.primaryKey(table);
+        const foreignKey = embed.hint || sourceKey;
+        return this.rows(target)
+            .filter(r => r[foreignKey] === row[sourceKey])
+            .map(r => this.project(target, r, embed.columns!));
+    }
+
+    /**
+     * Réplica de log_lead_created y log_lead_changes (SCHEMA_HISTORIAL_LEADS.sql, SCHEMA_CANCELACIONES.sql)
+     * con la sesión del cliente; el precio solo cambia en RPCs que registran su propio evento
+     */
+    private logLeadChanges(row: Row, old?: Row): void {
+        const log = (eventType: string, payload: Row) => this.insertRow('lead_events', {
+            lead_id: row.id,
+            actor_id: row.cliente_id ?? null,
+            actor_role: 'client',
+            event_type: eventType,
+            payload,
+        });
+        const withoutNulls = (payload: Row) =>
+            Object.fromEntries(Object.entries(payload).filter(([, value]) => value != null));
+
+        if (!old) {
+            log('created', withoutNulls({
+                service: row.servicio_solicitado,
+                price: row.agreed_price ?? row.price,
+                project_id: row.project_id,
+            }));
+            return;
+        }
+
+        const from = old.status || old.estado;
+        const to = row.status || row.estado;
+        if (from !== to) {
+            log('status_changed', withoutNulls({
+                from,
+                to,
+                reason: row.cancellation_reason,
+                reason_code: row.cancellation_reason_code,
+                fee: row.cancellation_fee,
+            }));
+        }
+
+        if (old.appointment_date !== row.appointment_date || old.appointment_time !== row.appointment_time) {
+            log('appointment_changed', {
+                from: { date: old.appointment_date ?? null, time: old.appointment_time ?? null },
+                to: { date: row.appointment_date ?? null, time: row.appointment_time ?? null },
+            });
+        }
+    }
+
+    private primaryKey(table: string): string {
+        return this.primaryKeys[table] || 'id';
+    }
+
+    private assertUnique(table: string, row: Row, self?: Row): void {
+        const columns = [this.primaryKey(table), ...(this.uniqueColumns[table] || [])];
+        for (const column of columns) {
+            if (row[column] == null) continue;
+            const conflict = this.rows(table).find(r => r !== self && r[column] === row[column]);
+            if (conflict) {
+                throw pgError(
+                    '23505',
+                    `duplicate key value violates unique constraint "${table}_${column}_key"`,
+                    `Key (${column})=(${row[column]}) already exists.`
+                );
+            }
+        }
+    }
+
+    private registerDefaultRpcs(): void {
+        // RPC con SECURITY DEFINER de la app (ver LeadsRepository.updateDetailsRpc)
+        this.registerRpc('update_lead_details', (args, db) => {
+            const changes: Row = { updated_at: new Date().toISOString() };
+            const fields = ['servicio_solicitado', 'descripcion_proyecto', 'ubicacion_direccion', 'whatsapp', 'photos_urls'];
+            fields.forEach(field => {
+                if (`${field}_in` in args) changes[field] = args[`${field}_in`];
+            });
+            const updated = db.updateRows('leads', row => row.id === args.lead_id, changes);
+            if (updated.length === 0) {
+                throw pgError('P0002', 'Lead not found');
+            }
+            return null;
+        });
+
+        // Cancelación con cargo calculado en el servidor (SCHEMA_CANCELACIONES.sql)
+        // Sin sesión: actúa como el dueño del lead; la cita se interpreta en la hora local del proceso
+        this.registerRpc('cancel_lead', (args, db) => {
+            const lead = db.rows('leads').find(row => row.id === args.p_lead_id);
+            if (!lead) {
+                throw pgError('P0002', 'Solicitud no encontrada');
+            }
+            const status = String(lead.status || lead.estado || '').toLowerCase().trim();
+            if (['completed', 'completado', 'cancelled', 'cancelado', 'rejected'].includes(status)) {
+                throw pgError('23514', 'La solicitud ya no se puede cancelar');
+            }
+
+            const discipline = String(lead.servicio || lead.disciplina_ia || '').toLowerCase().trim();
+            const rules: Row = {
+                ...db.rows('cancellation_policies').find(row => row.key === 'default')?.rules,
+                ...db.rows('cancellation_policies').find(row => row.key === discipline)?.rules,
+            };
+            const rule = (key: string, fallback: number) => Number(rules[key] ?? fallback);
+
+            const time = String(lead.appointment_time || '').split(/[T ]/).pop() || '';
+            const start = lead.appointment_date
+                ? new Date(`${String(lead.appointment_date).slice(0, 10)}T${/^\d{2}:\d{2}/.test(time) ? time.slice(0, 5) : '00:00'}:00`).getTime()
+                : null;
+            const now = Date.now();
+
+            if (args.p_reason_code === 'professional_no_show'
+                && (start === null || now < start + rule('no_show_grace_minutes', 30) * 60 * 1000)) {
+                throw pgError('22023', 'Aún no pasa la tolerancia para reportar que el profesional no llegó');
+            }
+
+            let fee = 0;
+            const started = ['in_progress', 'en_progreso', 'en progreso', 'en_camino', 'en_sitio', 'disputed', 'en_disputa', 'en disputa'].includes(status);
+            const late = start !== null && now >= start - rule('late_window_hours', 24) * 60 * 60 * 1000;
+            if (!['pending', 'nuevo', ''].includes(status) && args.p_reason_code !== 'professional_no_show' && (started || late)) {
+                const price = Number(lead.agreed_price ?? lead.price ?? 0);
+                fee = Math.max(rule('late_fee_min', 150), Math.round(price * rule('late_fee_percent', 20)) / 100);
+                if (price > 0) fee = Math.min(fee, price);
+            }
+
+            const reason = args.p_reason?.trim() || null;
+            db.updateRows('leads', row => row.id === lead.id, {
+                status: 'cancelled',
+                estado: 'cancelado',
+                cancellation_reason_code: args.p_reason_code ?? null,
+                cancellation_reason: reason,
+                cancellation_fee: fee,
+                cancelled_by: 'client',
+                cancelled_at: new Date(now).toISOString(),
+                updated_at: new Date(now).toISOString(),
+            });
+            return fee;
+        });
+
+        // Similitud coseno sobre service_embeddings (FASE1_CREAR_FUNCION_FIND_SIMILAR_SERVICES.sql)
+        this.registerRpc('find_similar_services', (args, db) => {
+            const query = parseVector(args.query_embedding);
+            return db.rows('service_embeddings')
+                .filter(row => row.embedding && (!args.discipline_filter || row.discipline === args.discipline_filter))
+                .map(row => {
+                    const service = db.rows('service_catalog').find(s => s.id === row.service_id);
+                    return {
+                        service_id: row.service_id,
+                        service_name: row.service_name,
+                        discipline: row.discipline,
+                        similarity: cosineSimilarity(query, parseVector(row.embedding)),
+                        min_price: service?.min_price ?? 0,
+                    };
+                })
+                .sort((a, b) => b.similarity - a.similarity)
+                .slice(0, args.limit_count ?? 10);
+        });
+    }
+}
+
+function parseVector(value: number[] | string): number[] {
+    return Array.isArray(value) ? value : JSON.parse(value);
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    if (normA === 0 || normB === 0) return 0;
+    return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Instancia compartida: `lib/__mocks__/supabase.ts` la expone como `supabase`
+ */
+export const fakeSupabase = new FakeSupabase();
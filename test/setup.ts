@@ -0,0 +1,14 @@
+/**
+ * Setup de Jest
+ * - Todas las pruebas usan el cliente en memoria (test/fakeSupabase.ts): ninguna sale a la red
+ * - Los servicios registran cada paso con console.*; se silencian salvo con JEST_VERBOSE=1
+ */
+
+jest.mock('@/lib/supabase');
+
+beforeEach(() => {
+    if (process.env.JEST_VERBOSE) return;
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+});